@@ -8,76 +8,18 @@ import StrategyPanel from './components/StrategyPanel';
 import Notification from './components/Notification';
 import PortfolioManager from './components/PortfolioManager';
 import SniperTicker from './components/SniperTicker';
+import LoginScreen from './components/LoginScreen';
+import { getSession, logout, AuthSession, AUTH_EXPIRED_EVENT } from './services/apiClient';
+import { usePortfolio } from './hooks/usePortfolio';
 import { City, Restaurant, MarketInsight, ChartDataPoint, PortfolioItem } from '../types';
 import { fetchTopRestaurants, fetchMarketInsight, generateTrendData } from './services/geminiService';
-import { Globe, Radar, SearchX, LayoutDashboard, LineChart } from 'lucide-react';
-
-// High-quality seed data to demonstrate the platform's capabilities
-const MOCK_PORTFOLIO_DATA: PortfolioItem[] = [
-  {
-    id: 'seed-1',
-    restaurantName: 'Carbone',
-    date: '2024-06-20',
-    time: '19:30',
-    guests: 4,
-    costBasis: 40,
-    listPrice: 650,
-    status: 'LISTED',
-    platform: 'Resy'
-  },
-  {
-    id: 'seed-2',
-    restaurantName: 'Don Angie',
-    date: '2024-06-18',
-    time: '20:00',
-    guests: 2,
-    costBasis: 10,
-    listPrice: 250,
-    soldPrice: 225,
-    status: 'SOLD',
-    platform: 'Resy',
-    guestName: 'Michael Chen'
-  },
-  {
-    id: 'seed-3',
-    restaurantName: '4 Charles Prime Rib',
-    date: '2024-06-25',
-    time: '17:30',
-    guests: 2,
-    costBasis: 0,
-    listPrice: 300,
-    status: 'ACQUIRED',
-    platform: 'Resy'
-  },
-  {
-    id: 'seed-4',
-    restaurantName: 'Atomix',
-    date: '2024-06-12',
-    time: '20:45',
-    guests: 2,
-    costBasis: 750, // Prepaid tasting menu cost
-    listPrice: 1200,
-    soldPrice: 1150,
-    status: 'TRANSFERRED',
-    platform: 'Tock',
-    guestName: 'Sarah Williams'
-  },
-  {
-    id: 'seed-5',
-    restaurantName: 'Misi',
-    date: '2024-06-22',
-    time: '19:00',
-    guests: 2,
-    costBasis: 0,
-    listPrice: 180,
-    soldPrice: 180,
-    status: 'PENDING',
-    platform: 'Resy',
-    guestName: 'Waiting for Input'
-  }
-];
+import { Globe, Radar, SearchX, LayoutDashboard, LineChart, CloudOff } from 'lucide-react';
 
 const App: React.FC = () => {
+  // Auth State
+  const [session, setSession] = useState<AuthSession | null>(getSession);
+  const [sessionExpired, setSessionExpired] = useState(false);
+
   // View State
   const [activeView, setActiveView] = useState<'market' | 'portfolio'>('market');
 
@@ -94,9 +36,6 @@ const App: React.FC = () => {
   const [loadingInsight, setLoadingInsight] = useState(false);
   const [loadingTrend, setLoadingTrend] = useState(false);
 
-  // --- PORTFOLIO STATE (Lifted for Persistence) ---
-  const [portfolioItems, setPortfolioItems] = useState<PortfolioItem[]>([]);
-
   // Notification State
   const [notification, setNotification] = useState<{message: string, visible: boolean, type: 'info'|'warning'|'success'}>({ 
       message: '', 
@@ -104,36 +43,23 @@ const App: React.FC = () => {
       type: 'info' 
   });
 
-  // Load Portfolio from LocalStorage on mount, or seed if empty
-  useEffect(() => {
-    const saved = localStorage.getItem('reservation_portfolio');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (parsed.length > 0) {
-            setPortfolioItems(parsed);
-        } else {
-            setPortfolioItems([]); 
-        }
-      } catch (e) {
-        console.error("Failed to load portfolio", e);
-      }
-    } else {
-        // First time load - SEED DATA
-        setPortfolioItems(MOCK_PORTFOLIO_DATA);
-    }
-  }, []);
+  // --- PORTFOLIO STATE (server-backed, shared by the team) ---
+  const portfolio = usePortfolio(!!session, (message, type) => setNotification({ visible: true, message, type }));
+  const portfolioItems = portfolio.items;
 
-  // Save Portfolio to LocalStorage whenever it changes
+  // Back to the login screen when the server rejects our token
   useEffect(() => {
-    if (portfolioItems.length > 0 || localStorage.getItem('reservation_portfolio')) {
-        localStorage.setItem('reservation_portfolio', JSON.stringify(portfolioItems));
-    }
-  }, [portfolioItems]);
+    const handleExpired = () => {
+      setSession(null);
+      setSessionExpired(true);
+    };
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
 
   // Load restaurants when city changes
   useEffect(() => {
-    if (activeView === 'market') {
+    if (session && activeView === 'market') {
         const loadRestaurants = async () => {
         setLoadingRestaurants(true);
         // Reset selection
@@ -147,7 +73,7 @@ const App: React.FC = () => {
         };
         loadRestaurants();
     }
-  }, [selectedCity, activeView]);
+  }, [selectedCity, activeView, session]);
 
   // Handle adding a new city
   const handleAddCity = (newCity: string) => {
@@ -233,7 +159,7 @@ const App: React.FC = () => {
       dropTimezone: capturedDropTimezone
     };
 
-    setPortfolioItems(prev => [newItem, ...prev]);
+    portfolio.addItem(newItem);
     
     const dropInfo = capturedDropDate 
         ? `(Next Drop: ${capturedDropDate} at ${capturedDropTime})` 
@@ -247,7 +173,7 @@ const App: React.FC = () => {
   };
 
   const handleManualAddAsset = (item: PortfolioItem) => {
-    setPortfolioItems(prev => [item, ...prev]);
+    portfolio.addItem(item);
     setNotification({
       visible: true,
       message: 'New asset logged successfully',
@@ -256,11 +182,11 @@ const App: React.FC = () => {
   };
 
   const handleUpdateAsset = (updatedItem: PortfolioItem) => {
-    setPortfolioItems(prev => prev.map(item => item.id === updatedItem.id ? updatedItem : item));
+    portfolio.updateItem(updatedItem);
   };
 
   const handleDeleteAsset = (itemId: string) => {
-    setPortfolioItems(prev => prev.filter(item => item.id !== itemId));
+    portfolio.deleteItem(itemId);
     setNotification({
       visible: true,
       message: 'Asset removed from portfolio',
@@ -268,14 +194,28 @@ const App: React.FC = () => {
     });
   };
   
-  const pendingCount = portfolioItems.filter(i => i.status === 'PENDING').length;
+  const pendingCount = portfolioItems.filter(i => i.status === 'TRANSFER_PENDING').length;
   const activeValue = portfolioItems
     .filter(i => i.status === 'LISTED' || i.status === 'ACQUIRED')
     .reduce((acc, i) => acc + i.listPrice, 0);
 
+  const handleLogin = (newSession: AuthSession) => {
+    setSession(newSession);
+    setSessionExpired(false);
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    setSession(null);
+  };
+
+  if (!session) {
+    return <LoginScreen onLogin={handleLogin} expired={sessionExpired} />;
+  }
+
   return (
     <div className="min-h-screen bg-slate-950 flex flex-col text-slate-200 font-sans">
-      <Header portfolioValue={activeValue} />
+      <Header portfolioValue={activeValue} user={session.user} onLogout={handleLogout} />
       
       <main className="max-w-7xl w-full mx-auto px-4 py-6">
         
@@ -316,6 +256,16 @@ const App: React.FC = () => {
 
         {activeView === 'portfolio' ? (
             <div className="animate-in fade-in slide-in-from-bottom-4 duration-300">
+                {(portfolio.offline || portfolio.queued > 0) && (
+                  <div className="mb-4 flex items-center gap-2 px-4 py-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-amber-300 text-xs">
+                    <CloudOff className="w-4 h-4" />
+                    {portfolio.offline ? 'Server unreachable. ' : 'Saving... '}
+                    {portfolio.queued > 0 && `${portfolio.queued} change(s) waiting to sync.`}
+                  </div>
+                )}
+                {portfolio.loading && portfolioItems.length === 0 && (
+                  <div className="mb-4 text-xs text-slate-500 font-mono">Loading portfolio...</div>
+                )}
                 <PortfolioManager 
                   items={portfolioItems}
                   onUpdateItem={handleUpdateAsset}
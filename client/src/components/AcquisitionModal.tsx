@@ -32,12 +32,31 @@ import {
 } from 'lucide-react';
 import { ResySlot, ResyVenue, AcquisitionResult, Client } from '../../types';
 import { SNIPER_API, CLIENTS_API } from '../config';
+import { apiFetch } from '../services/apiClient';
 
 const API_BASE = SNIPER_API;
 
-type Platform = 'resy' | 'opentable' | 'sevenrooms' | 'tock';
+// Platform IDs come from the server's adapter registry
+type Platform = string;
 type BookingMode = 'standard' | 'concierge';
 
+interface PlatformDescriptor {
+  id: Platform;
+  label: string;
+  venue: {
+    requestField: string;
+    param: string;
+    label: string;
+    placeholder: string;
+    numeric: boolean;
+  };
+  requiredConfig: string[];
+  capabilities: { search: boolean; cancel: boolean; reservations: boolean };
+  ready: boolean;
+  details?: any;
+  message: string;
+}
+
 interface PlatformConfig {
   name: string;
   label: string;
@@ -47,51 +66,52 @@ interface PlatformConfig {
   idField: string;
   idPlaceholder: string;
   searchable: boolean;
+  venueParam: string;
+  requestField: string;
+  numericId: boolean;
 }
 
-const PLATFORMS: Record<Platform, PlatformConfig> = {
-  resy: {
-    name: 'resy',
-    label: 'Resy',
-    color: 'text-rose-400',
-    bg: 'bg-rose-500/20',
-    icon: '🍷',
-    idField: 'Venue ID',
-    idPlaceholder: 'e.g., 834',
-    searchable: true,
-  },
-  opentable: {
-    name: 'opentable',
-    label: 'OpenTable',
-    color: 'text-red-400',
-    bg: 'bg-red-500/20',
-    icon: '🍽️',
-    idField: 'Restaurant ID',
-    idPlaceholder: 'e.g., 1234567',
-    searchable: false,
-  },
-  sevenrooms: {
-    name: 'sevenrooms',
-    label: 'SevenRooms',
-    color: 'text-purple-400',
-    bg: 'bg-purple-500/20',
-    icon: '✨',
-    idField: 'Venue Slug',
-    idPlaceholder: 'e.g., carbone-nyc',
-    searchable: false,
-  },
-  tock: {
-    name: 'tock',
-    label: 'Tock',
-    color: 'text-teal-400',
-    bg: 'bg-teal-500/20',
-    icon: '🎫',
-    idField: 'Venue Slug',
-    idPlaceholder: 'e.g., alinea',
-    searchable: false,
-  },
+interface PlatformStyle {
+  color: string;
+  bg: string;
+  icon: string;
+}
+
+// Look only - everything else about a platform comes from GET /platforms
+const PLATFORM_STYLES: Record<string, PlatformStyle> = {
+  resy: { color: 'text-rose-400', bg: 'bg-rose-500/20', icon: '🍷' },
+  opentable: { color: 'text-red-400', bg: 'bg-red-500/20', icon: '🍽️' },
+  sevenrooms: { color: 'text-purple-400', bg: 'bg-purple-500/20', icon: '✨' },
+  tock: { color: 'text-teal-400', bg: 'bg-teal-500/20', icon: '🎫' },
 };
 
+const DEFAULT_STYLE: PlatformStyle = { color: 'text-slate-300', bg: 'bg-slate-500/20', icon: '🍴' };
+
+const toPlatformConfig = (descriptor: PlatformDescriptor): PlatformConfig => ({
+  name: descriptor.id,
+  label: descriptor.label,
+  ...(PLATFORM_STYLES[descriptor.id] || DEFAULT_STYLE),
+  idField: descriptor.venue.label,
+  idPlaceholder: descriptor.venue.placeholder,
+  searchable: descriptor.capabilities.search,
+  venueParam: descriptor.venue.param,
+  requestField: descriptor.venue.requestField,
+  numericId: descriptor.venue.numeric,
+});
+
+// Stand-in until the registry has loaded
+const placeholderConfig = (platform: Platform): PlatformConfig => ({
+  name: platform,
+  label: platform,
+  ...(PLATFORM_STYLES[platform] || DEFAULT_STYLE),
+  idField: 'Venue ID',
+  idPlaceholder: '',
+  searchable: false,
+  venueParam: 'venueId',
+  requestField: 'venueId',
+  numericId: false,
+});
+
 interface PlatformStatus {
   ready: boolean;
   details?: any;
@@ -123,19 +143,10 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
 }) => {
   // Platform state
   const [platform, setPlatform] = useState<Platform>(initialPlatform);
-  const [platformStatuses, setPlatformStatuses] = useState<Record<Platform, PlatformStatus>>({
-    resy: { ready: false },
-    opentable: { ready: false },
-    sevenrooms: { ready: false },
-    tock: { ready: false },
-  });
+  const [platforms, setPlatforms] = useState<PlatformConfig[]>([]);
+  const [platformStatuses, setPlatformStatuses] = useState<Record<Platform, PlatformStatus>>({});
   const [validating, setValidating] = useState<Platform | null>(null);
-  const [validationResults, setValidationResults] = useState<Record<Platform, { success: boolean; message: string } | null>>({
-    resy: null,
-    opentable: null,
-    sevenrooms: null,
-    tock: null,
-  });
+  const [validationResults, setValidationResults] = useState<Record<Platform, { success: boolean; message: string } | null>>({});
 
   // CONCIERGE MODE STATE
   // Book under client's name instead of our identity
@@ -172,7 +183,7 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
   const fetchClients = async () => {
     setLoadingClients(true);
     try {
-      const response = await fetch(CLIENTS_API);
+      const response = await apiFetch(CLIENTS_API);
       if (response.ok) {
         const data = await response.json();
         setClients(data);
@@ -206,16 +217,16 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
 
   const fetchAllPlatformStatuses = async () => {
     try {
-      const response = await fetch(`${API_BASE}/platforms/status`);
+      const response = await apiFetch(`${API_BASE}/platforms`);
       const data = await response.json();
       
-      if (data.platforms) {
-        setPlatformStatuses({
-          resy: data.platforms.resy,
-          opentable: data.platforms.opentable,
-          sevenrooms: data.platforms.sevenrooms,
-          tock: data.platforms.tock,
-        });
+      if (data.success) {
+        const descriptors: PlatformDescriptor[] = data.platforms;
+        setPlatforms(descriptors.map(toPlatformConfig));
+        setPlatformStatuses(Object.fromEntries(descriptors.map(d => [
+          d.id,
+          { ready: d.ready, details: d.details, required: d.requiredConfig },
+        ])));
       }
     } catch (err) {
       console.error('Failed to fetch platform statuses:', err);
@@ -227,7 +238,7 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
     setValidationResults(prev => ({ ...prev, [p]: null }));
     
     try {
-      const response = await fetch(`${API_BASE}/${p}/status`);
+      const response = await apiFetch(`${API_BASE}/${p}/status`);
       const data = await response.json();
       
       setValidationResults(prev => ({
@@ -260,7 +271,7 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
     setError(null);
     
     try {
-      const response = await fetch(`${API_BASE}/resy/search?query=${encodeURIComponent(searchQuery)}`);
+      const response = await apiFetch(`${API_BASE}/${platform}/search?query=${encodeURIComponent(searchQuery)}`);
       const data = await response.json();
       
       if (data.success) {
@@ -283,26 +294,21 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
     setError(null);
     
     try {
-      let url: string;
-      
-      switch (platform) {
-        case 'resy':
-          if (!venue) return;
-          setSelectedVenue(venue);
-          url = `${API_BASE}/resy/slots?venueId=${venue.id}&date=${date}&partySize=${partySize}`;
-          break;
-        case 'opentable':
-          url = `${API_BASE}/opentable/slots?restaurantId=${platformId}&date=${date}&time=${preferredTime}&partySize=${partySize}`;
-          break;
-        case 'sevenrooms':
-          url = `${API_BASE}/sevenrooms/slots?venueSlug=${platformId}&date=${date}&time=${preferredTime}&partySize=${partySize}`;
-          break;
-        case 'tock':
-          url = `${API_BASE}/tock/slots?venueSlug=${platformId}&date=${date}&partySize=${partySize}`;
-          break;
+      // Searchable platforms pick a venue from the results, the rest take a typed ID
+      if (currentPlatform.searchable) {
+        if (!venue) return;
+        setSelectedVenue(venue);
       }
+      const venueId = currentPlatform.searchable ? String(venue!.id) : platformId;
+      const params = new URLSearchParams({
+        [currentPlatform.venueParam]: venueId,
+        date,
+        time: preferredTime,
+        partySize: String(partySize),
+      });
+      const url = `${API_BASE}/${platform}/slots?${params}`;
       
-      const response = await fetch(url);
+      const response = await apiFetch(url);
       const data = await response.json();
       
       if (data.success) {
@@ -349,21 +355,9 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
         bookingMode,
       };
       
-      // Add platform-specific IDs
-      switch (platform) {
-        case 'resy':
-          body.resyVenueId = selectedVenue?.id || parseInt(platformId);
-          break;
-        case 'opentable':
-          body.openTableId = parseInt(platformId);
-          break;
-        case 'sevenrooms':
-          body.sevenRoomsSlug = platformId;
-          break;
-        case 'tock':
-          body.tockSlug = platformId;
-          break;
-      }
+      // Add the platform's venue ID under the field its adapter reads
+      const venueId = selectedVenue ? String(selectedVenue.id) : platformId;
+      body[currentPlatform.requestField] = currentPlatform.numericId ? parseInt(venueId) : venueId;
       
       // Add concierge mode parameters
       if (bookingMode === 'concierge' && selectedClientId) {
@@ -379,7 +373,7 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
         }
       }
       
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
@@ -400,7 +394,7 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
     }
   };
 
-  const currentPlatform = PLATFORMS[platform];
+  const currentPlatform = platforms.find(p => p.name === platform) || placeholderConfig(platform);
   const currentStatus = platformStatuses[platform];
 
   if (!isOpen) return null;
@@ -434,8 +428,8 @@ const AcquisitionModal: React.FC<AcquisitionModalProps> = ({
         <div className="p-4 border-b border-slate-800 bg-slate-950/50">
           <label className="text-xs text-slate-500 font-bold uppercase mb-3 block">Select Platform</label>
           <div className="grid grid-cols-4 gap-2">
-            {(Object.keys(PLATFORMS) as Platform[]).map((p) => {
-              const config = PLATFORMS[p];
+            {platforms.map((config) => {
+              const p = config.name;
               const status = platformStatuses[p];
               const validation = validationResults[p];
               const isSelected = platform === p;
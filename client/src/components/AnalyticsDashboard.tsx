@@ -3,10 +3,13 @@
  * 
  * Displays Phase 2+3 features:
  * - Acquisition History
+ * - Drop Traces (post-mortem of each drop execution)
  * - Drop Pattern Learning
  * - Success Rate Stats
  * - Competition Monitor
- * - Dynamic Pricing
+ * - Dynamic Pricing (and backtests of candidate pricing configs)
+ *
+ * Refreshes in place when an acquisition finishes (server events).
  */
 
 import React, { useState, useEffect } from 'react';
@@ -25,7 +28,10 @@ import {
   Eye,
   Calendar,
   Award,
+  Activity,
 } from 'lucide-react';
+import { apiFetch, can } from '../services/apiClient';
+import { useServerEvents } from '../hooks/useServerEvents';
 
 const API_BASE = 'http://localhost:3000/api/analytics';
 
@@ -60,6 +66,60 @@ interface AcquisitionAttempt {
   error?: string;
 }
 
+type DropOutcome = 'booked' | 'no_slots' | 'slots_late' | 'no_attempt' | 'taken' | 'error';
+
+interface DropTraceSummary {
+  id: number;
+  portfolio_item_id: string | null;
+  restaurant_name: string;
+  platform: string;
+  drop_at: string | null;
+  started_at: string;
+  success: boolean;
+  outcome: DropOutcome;
+  summary: {
+    attempts: number;
+    polls: number;
+    bookCalls: number;
+    httpCalls: number;
+    httpErrors: number;
+    maxSlotsSeen: number;
+    firstSlotsSinceDropMs: number | null;
+    firstBookSinceDropMs: number | null;
+    medianLatencyMs: number | null;
+    clockOffsetMs: number;
+    truncatedEvents: number;
+  };
+}
+
+interface DropTraceEvent {
+  type: 'attempt' | 'http' | 'slots' | 'slot_chosen' | 'book';
+  at: string;
+  sinceDropMs: number | null;
+  method?: string;
+  path?: string;
+  status?: number | null;
+  latencyMs?: number;
+  slotsSeen?: number;
+  slots?: string[];
+  slot?: string;
+  attempt?: number;
+  success?: boolean;
+  error?: string;
+}
+
+const OUTCOME_STYLES: Record<DropOutcome, { label: string; className: string }> = {
+  booked: { label: 'Booked', className: 'text-emerald-400 bg-emerald-500/20' },
+  no_slots: { label: 'No slots released', className: 'text-slate-300 bg-slate-500/20' },
+  slots_late: { label: 'Slots released late', className: 'text-amber-400 bg-amber-500/20' },
+  no_attempt: { label: 'Never tried to book', className: 'text-amber-400 bg-amber-500/20' },
+  taken: { label: 'Lost the race', className: 'text-red-400 bg-red-500/20' },
+  error: { label: 'Errored', className: 'text-red-400 bg-red-500/20' },
+};
+
+const formatSinceDrop = (ms: number | null) =>
+  ms === null ? '—' : `T${ms >= 0 ? '+' : '−'}${(Math.abs(ms) / 1000).toFixed(3)}s`;
+
 interface CompetitorStats {
   sellerName: string;
   totalListings: number;
@@ -74,12 +134,43 @@ interface PricingStats {
   topRestaurants: Array<{ name: string; avgPrice: number; salesCount: number }>;
 }
 
+interface BacktestOutcome {
+  sold: number;
+  revenue: number;
+  sellThroughRate: number;
+  avgDaysToSell: number | null;
+}
+
+interface PriceErrorStats {
+  mae: number;
+  mape: number;
+  bias: number;
+}
+
+interface BacktestRun {
+  id: number;
+  name: string;
+  config: Record<string, any>;
+  periodFrom: string | null;
+  periodTo: string | null;
+  results: {
+    listings: number;
+    realized: BacktestOutcome & { listingError: PriceErrorStats | null };
+    candidate: BacktestOutcome & { priceError: PriceErrorStats | null; uncertain: number };
+    revenueChange: number;
+  };
+  runBy: string | null;
+  createdAt: string;
+}
+
 const AnalyticsDashboard: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'patterns' | 'history' | 'competition' | 'pricing'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'patterns' | 'history' | 'drops' | 'competition' | 'pricing'>('overview');
   const [loading, setLoading] = useState(true);
   const [successStats, setSuccessStats] = useState<SuccessStats | null>(null);
   const [patterns, setPatterns] = useState<DropPattern[]>([]);
   const [history, setHistory] = useState<AcquisitionAttempt[]>([]);
+  const [dropTraces, setDropTraces] = useState<DropTraceSummary[]>([]);
+  const [selectedTraceId, setSelectedTraceId] = useState<number | null>(null);
   const [competitors, setCompetitors] = useState<CompetitorStats[]>([]);
   const [pricingStats, setPricingStats] = useState<PricingStats | null>(null);
 
@@ -87,21 +178,26 @@ const AnalyticsDashboard: React.FC = () => {
     fetchData();
   }, []);
 
-  const fetchData = async () => {
-    setLoading(true);
+  // Live: acquisitions add attempts, traces and stats - refresh in place
+  useServerEvents(['acquisition.succeeded', 'acquisition.failed', 'resync'], () => fetchData(true));
+
+  const fetchData = async (quiet = false) => {
+    if (!quiet) setLoading(true);
     try {
       // Fetch all data in parallel
-      const [statsRes, patternsRes, historyRes, competitorsRes, pricingRes] = await Promise.all([
-        fetch(`${API_BASE}/success-stats`).then(r => r.json()).catch(() => null),
-        fetch(`${API_BASE}/patterns`).then(r => r.json()).catch(() => ({ patterns: [] })),
-        fetch(`${API_BASE}/attempts?limit=20`).then(r => r.json()).catch(() => ({ history: [] })),
-        fetch(`${API_BASE}/competition/stats`).then(r => r.json()).catch(() => ({ stats: [] })),
-        fetch(`${API_BASE}/pricing/stats`).then(r => r.json()).catch(() => null),
+      const [statsRes, patternsRes, historyRes, dropsRes, competitorsRes, pricingRes] = await Promise.all([
+        apiFetch(`${API_BASE}/success-stats`).then(r => r.json()).catch(() => null),
+        apiFetch(`${API_BASE}/patterns`).then(r => r.json()).catch(() => ({ patterns: [] })),
+        apiFetch(`${API_BASE}/attempts?limit=20`).then(r => r.json()).catch(() => ({ history: [] })),
+        apiFetch(`${API_BASE}/drops?limit=30`).then(r => r.json()).catch(() => ({ traces: [] })),
+        apiFetch(`${API_BASE}/competition/stats`).then(r => r.json()).catch(() => ({ stats: [] })),
+        apiFetch(`${API_BASE}/pricing/stats`).then(r => r.json()).catch(() => null),
       ]);
 
       if (statsRes?.success) setSuccessStats(statsRes);
       if (patternsRes?.patterns) setPatterns(patternsRes.patterns);
       if (historyRes?.history) setHistory(historyRes.history);
+      if (dropsRes?.traces) setDropTraces(dropsRes.traces);
       if (competitorsRes?.stats) setCompetitors(competitorsRes.stats);
       if (pricingRes?.success) setPricingStats(pricingRes);
     } catch (error) {
@@ -111,19 +207,6 @@ const AnalyticsDashboard: React.FC = () => {
     }
   };
 
-  const initTables = async () => {
-    try {
-      await Promise.all([
-        fetch(`${API_BASE}/patterns/init`, { method: 'POST' }),
-        fetch(`${API_BASE}/competition/init`, { method: 'POST' }),
-      ]);
-      alert('Tables initialized successfully!');
-      fetchData();
-    } catch (error) {
-      console.error('Failed to init tables:', error);
-    }
-  };
-
   const getPlatformColor = (platform: string) => {
     const colors: Record<string, string> = {
       resy: 'text-rose-400 bg-rose-500/20',
@@ -158,13 +241,7 @@ const AnalyticsDashboard: React.FC = () => {
         </div>
         <div className="flex gap-2">
           <button
-            onClick={initTables}
-            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-lg"
-          >
-            Init Tables
-          </button>
-          <button
-            onClick={fetchData}
+            onClick={() => fetchData()}
             className="px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white text-xs rounded-lg flex items-center gap-1"
           >
             <RefreshCw className="w-3 h-3" /> Refresh
@@ -178,6 +255,7 @@ const AnalyticsDashboard: React.FC = () => {
           { id: 'overview', label: 'Overview', icon: TrendingUp },
           { id: 'patterns', label: 'Drop Patterns', icon: Clock },
           { id: 'history', label: 'History', icon: Target },
+          { id: 'drops', label: 'Drops', icon: Activity },
           { id: 'competition', label: 'Competition', icon: Eye },
           { id: 'pricing', label: 'Pricing', icon: DollarSign },
         ].map(tab => (
@@ -393,6 +471,53 @@ const AnalyticsDashboard: React.FC = () => {
           </div>
         )}
 
+        {/* Drops Tab */}
+        {activeTab === 'drops' && (
+          <div className="space-y-4">
+            {dropTraces.length > 0 ? (
+              <div className="space-y-2">
+                {dropTraces.map(t => (
+                  <div key={t.id} className="bg-slate-800/50 rounded-lg border border-slate-700">
+                    <button
+                      onClick={() => setSelectedTraceId(selectedTraceId === t.id ? null : t.id)}
+                      className="w-full p-4 flex justify-between items-start text-left"
+                    >
+                      <div>
+                        <div className="font-medium text-white">{t.restaurant_name}</div>
+                        <div className="text-xs text-slate-500 mt-1">
+                          Drop: {t.drop_at ? new Date(t.drop_at).toLocaleString() : 'unknown'}
+                          {' · '}{t.summary.attempts} attempts · {t.summary.polls} polls · max {t.summary.maxSlotsSeen} slots
+                        </div>
+                        <div className="text-xs text-slate-500 mt-1">
+                          First slots {formatSinceDrop(t.summary.firstSlotsSinceDropMs)}
+                          {' · '}first book {formatSinceDrop(t.summary.firstBookSinceDropMs)}
+                          {t.summary.medianLatencyMs !== null && ` · median ${t.summary.medianLatencyMs}ms`}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <span className={`text-xs px-2 py-1 rounded ${OUTCOME_STYLES[t.outcome].className}`}>
+                          {OUTCOME_STYLES[t.outcome].label}
+                        </span>
+                        <div className="mt-2">
+                          <span className={`text-xs px-2 py-1 rounded ${getPlatformColor(t.platform)}`}>
+                            {t.platform}
+                          </span>
+                        </div>
+                      </div>
+                    </button>
+                    {selectedTraceId === t.id && <DropTraceTimeline traceId={t.id} />}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-slate-500">
+                <Activity className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No drop executions traced yet</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Competition Tab */}
         {activeTab === 'competition' && (
           <div className="space-y-4">
@@ -484,6 +609,15 @@ const AnalyticsDashboard: React.FC = () => {
               <h4 className="text-sm font-medium text-white mb-4">Quick Price Check</h4>
               <PriceSuggestionTool />
             </div>
+
+            {/* Backtests */}
+            <div className="bg-slate-800/30 rounded-lg p-4 border border-slate-700">
+              <h4 className="text-sm font-medium text-white mb-1">Pricing Backtests</h4>
+              <p className="text-xs text-slate-500 mb-4">
+                Past listings replayed against a candidate config: a sale is kept when the candidate price is at or below what the buyer paid.
+              </p>
+              <PricingBacktests />
+            </div>
           </div>
         )}
       </div>
@@ -491,6 +625,286 @@ const AnalyticsDashboard: React.FC = () => {
   );
 };
 
+// Drop Trace Timeline Component
+const DropTraceTimeline: React.FC<{ traceId: number }> = ({ traceId }) => {
+  const [events, setEvents] = useState<DropTraceEvent[] | null>(null);
+
+  useEffect(() => {
+    apiFetch(`${API_BASE}/drops/${traceId}`)
+      .then(r => r.json())
+      .then(data => setEvents(data.success ? data.trace.events : []))
+      .catch(() => setEvents([]));
+  }, [traceId]);
+
+  if (!events) {
+    return <div className="px-4 pb-4 text-xs text-slate-500">Loading timeline...</div>;
+  }
+  if (events.length === 0) {
+    return <div className="px-4 pb-4 text-xs text-slate-500">No events recorded</div>;
+  }
+
+  const describe = (e: DropTraceEvent) => {
+    switch (e.type) {
+      case 'http':
+        return `${e.method} ${e.path} → ${e.status ?? e.error ?? 'no response'} (${e.latencyMs}ms)`;
+      case 'slots':
+        return `${e.slotsSeen} slot${e.slotsSeen === 1 ? '' : 's'}${e.slots?.length ? `: ${e.slots.join(', ')}` : ''}`;
+      case 'slot_chosen':
+        return `Chose ${e.slot}`;
+      case 'book':
+        return `Book ${e.slot}: ${e.success ? 'confirmed' : e.error || 'failed'}`;
+      case 'attempt':
+        return `Attempt ${e.attempt} ${e.success ? 'succeeded' : `failed${e.error ? `: ${e.error}` : ''}`}`;
+    }
+  };
+
+  const color = (e: DropTraceEvent) => {
+    if (e.type === 'book' || e.type === 'attempt') return e.success ? 'text-emerald-400' : 'text-red-400';
+    if (e.type === 'http' && (!e.status || e.status >= 400)) return 'text-red-400';
+    if (e.type === 'slots') return e.slotsSeen ? 'text-amber-400' : 'text-slate-500';
+    if (e.type === 'slot_chosen') return 'text-amber-400';
+    return 'text-slate-400';
+  };
+
+  return (
+    <div className="px-4 pb-4">
+      <div className="max-h-80 overflow-y-auto bg-slate-950/60 rounded-lg p-3 font-mono text-xs space-y-1">
+        {events.map((e, i) => (
+          <div key={i} className="flex gap-3">
+            <span className="w-24 shrink-0 text-slate-500 text-right">{formatSinceDrop(e.sinceDropMs)}</span>
+            <span className="w-20 shrink-0 text-slate-600">{e.type}</span>
+            <span className={color(e)}>{describe(e)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Pricing Backtests Component - run candidate configs, compare stored runs side by side
+const MAX_COMPARED = 4;
+
+// What a config changes from the defaults, e.g. "timePremiums.prime 1.3 → 1.4"
+const describeChanges = (config: Record<string, any>, defaults: Record<string, any> | null): string[] => {
+  if (!defaults) return [];
+  const changes: string[] = [];
+  for (const [section, values] of Object.entries(config)) {
+    for (const [key, value] of Object.entries(values as Record<string, any>)) {
+      const current = defaults[section]?.[key];
+      if (section === 'tiers') changes.push(`tier ${key}: ${value.tier}/5, $${value.basePrice}`);
+      else if (current !== value) changes.push(`${section}.${key} ${current} → ${value}`);
+    }
+  }
+  return changes;
+};
+
+const PricingBacktests: React.FC = () => {
+  const [runs, setRuns] = useState<BacktestRun[]>([]);
+  const [defaults, setDefaults] = useState<Record<string, any> | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [name, setName] = useState('');
+  const [configText, setConfigText] = useState('{\n  "timePremiums": { "prime": 1.4 }\n}');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch(`${API_BASE}/pricing/backtest`)
+      .then(r => r.json())
+      .then(data => {
+        if (!data.success) return;
+        setRuns(data.runs);
+        setDefaults(data.defaults);
+        setSelected(data.runs.slice(0, 2).map((r: BacktestRun) => r.id));
+      })
+      .catch(err => console.error('Failed to load backtests:', err));
+  }, []);
+
+  const runBacktest = async () => {
+    setError(null);
+    let config;
+    try {
+      config = configText.trim() ? JSON.parse(configText) : {};
+    } catch {
+      setError('Config is not valid JSON');
+      return;
+    }
+
+    setRunning(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/pricing/backtest`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, config, from: from || undefined, to: to || undefined }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.error);
+        return;
+      }
+      setRuns(prev => [data.run, ...prev]);
+      setSelected(prev => [data.run.id, ...prev].slice(0, MAX_COMPARED));
+      setName('');
+    } catch (err) {
+      console.error('Backtest failed:', err);
+      setError('Backtest failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const toggle = (id: number) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-MAX_COMPARED));
+
+  const compared = runs.filter(r => selected.includes(r.id));
+  const money = (value: number) => `$${Math.round(value).toLocaleString()}`;
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const best = (pick: (r: BacktestRun) => number) => Math.max(...compared.map(pick));
+
+  const rows: Array<{ label: string; value: (r: BacktestRun) => React.ReactNode; highlight?: (r: BacktestRun) => boolean }> = [
+    { label: 'Listings', value: r => r.results.listings },
+    {
+      label: 'Revenue',
+      value: r => (
+        <>
+          {money(r.results.candidate.revenue)}
+          <span className={`ml-1 text-xs ${r.results.revenueChange >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            ({r.results.revenueChange >= 0 ? '+' : ''}{money(r.results.revenueChange)})
+          </span>
+        </>
+      ),
+      highlight: r => compared.length > 1 && r.results.candidate.revenue === best(c => c.results.candidate.revenue),
+    },
+    { label: 'Realized revenue', value: r => money(r.results.realized.revenue) },
+    {
+      label: 'Sell-through',
+      value: r => `${percent(r.results.candidate.sellThroughRate)} (${r.results.candidate.sold} sold)`,
+      highlight: r => compared.length > 1 && r.results.candidate.sellThroughRate === best(c => c.results.candidate.sellThroughRate),
+    },
+    { label: 'Realized sell-through', value: r => percent(r.results.realized.sellThroughRate) },
+    { label: 'Avg days to sell', value: r => r.results.candidate.avgDaysToSell ?? '-' },
+    {
+      label: 'Error vs. sale price',
+      value: r => r.results.candidate.priceError
+        ? `${percent(r.results.candidate.priceError.mape)} (bias ${money(r.results.candidate.priceError.bias)})`
+        : '-',
+      highlight: r => compared.length > 1 && !!r.results.candidate.priceError
+        && -r.results.candidate.priceError.mape === best(c => -(c.results.candidate.priceError?.mape ?? Infinity)),
+    },
+    { label: 'Unsold, might have sold', value: r => r.results.candidate.uncertain },
+    {
+      label: 'Changes',
+      value: r => {
+        const changes = describeChanges(r.config, defaults);
+        return changes.length ? changes.map(c => <div key={c}>{c}</div>) : <span className="text-slate-500">Current config</span>;
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {can('analytics:manage') && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-3">
+            <input
+              type="text"
+              placeholder="Name (e.g. prime time +10%)"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm"
+            />
+            <input
+              type="date"
+              title="Listed from"
+              value={from}
+              onChange={e => setFrom(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm [color-scheme:dark]"
+            />
+            <input
+              type="date"
+              title="Listed until"
+              value={to}
+              onChange={e => setTo(e.target.value)}
+              className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm [color-scheme:dark]"
+            />
+          </div>
+          <textarea
+            value={configText}
+            onChange={e => setConfigText(e.target.value)}
+            rows={4}
+            placeholder="{} replays the current config"
+            className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-xs font-mono"
+          />
+          {error && <div className="text-xs text-red-400">{error}</div>}
+          <button
+            onClick={runBacktest}
+            disabled={running || !name}
+            className="w-full py-2 bg-amber-600 hover:bg-amber-500 disabled:bg-slate-700 text-white rounded-lg text-sm font-medium"
+          >
+            {running ? 'Replaying...' : 'Run Backtest'}
+          </button>
+        </div>
+      )}
+
+      {runs.length === 0 ? (
+        <div className="text-sm text-slate-500">No backtests yet - run one with {'{}'} as the config for a baseline.</div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {runs.map(r => (
+              <button
+                key={r.id}
+                onClick={() => toggle(r.id)}
+                className={`px-2 py-1 rounded text-xs border ${
+                  selected.includes(r.id)
+                    ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400'
+                }`}
+                title={`${new Date(r.createdAt).toLocaleString()}${r.runBy ? ` by ${r.runBy}` : ''}`}
+              >
+                {r.name}
+              </button>
+            ))}
+          </div>
+
+          {compared.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500">
+                    <th className="py-2 pr-4 font-normal"></th>
+                    {compared.map(r => (
+                      <th key={r.id} className="py-2 pr-4 font-medium text-white">
+                        {r.name}
+                        {(r.periodFrom || r.periodTo) && (
+                          <div className="text-xs font-normal text-slate-500">{r.periodFrom || '…'} – {r.periodTo || '…'}</div>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.label} className="border-t border-slate-800 align-top">
+                      <td className="py-2 pr-4 text-xs text-slate-400 whitespace-nowrap">{row.label}</td>
+                      {compared.map(r => (
+                        <td key={r.id} className={`py-2 pr-4 ${row.highlight?.(r) ? 'text-emerald-400 font-medium' : 'text-slate-200'} ${row.label === 'Changes' ? 'text-xs' : ''}`}>
+                          {row.value(r)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
 // Price Suggestion Tool Component
 const PriceSuggestionTool: React.FC = () => {
   const [restaurant, setRestaurant] = useState('');
@@ -505,7 +919,7 @@ const PriceSuggestionTool: React.FC = () => {
     
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/pricing/suggest`, {
+      const res = await apiFetch(`${API_BASE}/pricing/suggest`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -572,7 +986,14 @@ const PriceSuggestionTool: React.FC = () => {
           <div className="text-center">
             <div className="text-3xl font-bold text-amber-400">${suggestion.suggestedPrice}</div>
             <div className="text-sm text-slate-400 mt-1">
-              Range: ${suggestion.minPrice} - ${suggestion.maxPrice}
+              {suggestion.interval
+                ? `${Math.round(suggestion.interval.level * 100)}% of similar sales: $${suggestion.interval.low} - $${suggestion.interval.high}`
+                : `Range: $${suggestion.minPrice} - $${suggestion.maxPrice}`}
+            </div>
+            <div className="text-xs text-slate-500 mt-1">
+              {suggestion.source === 'model'
+                ? `Price model v${suggestion.modelVersion} (trained on our sales)`
+                : 'Tier pricing (not enough sales for the model yet)'}
             </div>
             <div className={`text-xs mt-2 px-2 py-1 rounded inline-block ${
               suggestion.confidence === 'high' 
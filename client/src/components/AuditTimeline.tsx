@@ -0,0 +1,132 @@
+/**
+ * Audit Timeline - who did what to a portfolio item or client
+ *
+ * Shows the append-only audit trail: acquisitions (with the platform's
+ * answer), Telegram arm/skip/snipe actions, transfer status changes and
+ * booking requests - newest first.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { X, History, Loader2, CheckCircle2, XCircle, Info } from 'lucide-react';
+import { AuditEvent } from '../../types';
+import { AUDIT_API } from '../config';
+import { apiFetch } from '../services/apiClient';
+
+interface AuditTimelineProps {
+  portfolioItemId?: string;
+  clientId?: number;
+  title: string;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<AuditEvent['source'], string> = {
+  dashboard: '🖥️ Dashboard',
+  api: '🔌 API',
+  telegram: '📱 Telegram',
+  scheduler: '⏰ Scheduler',
+  cli: '⌨️ CLI',
+  system: '⚙️ System',
+};
+
+const OutcomeIcon: React.FC<{ outcome: AuditEvent['outcome'] }> = ({ outcome }) => {
+  if (outcome === 'success') return <CheckCircle2 className="w-4 h-4 text-emerald-400" />;
+  if (outcome === 'failure') return <XCircle className="w-4 h-4 text-red-400" />;
+  return <Info className="w-4 h-4 text-slate-400" />;
+};
+
+const AuditTimeline: React.FC<AuditTimelineProps> = ({ portfolioItemId, clientId, title, onClose }) => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const url = portfolioItemId
+      ? `${AUDIT_API}/portfolio/${encodeURIComponent(portfolioItemId)}`
+      : `${AUDIT_API}/clients/${clientId}`;
+
+    const fetchEvents = async () => {
+      try {
+        const response = await apiFetch(url);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load history');
+        setEvents(data.events);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchEvents();
+  }, [portfolioItemId, clientId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-slate-900 rounded-xl border border-slate-700 w-full max-w-2xl max-h-[80vh] flex flex-col shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <History className="w-4 h-4 text-amber-500" />
+            History: {title}
+          </h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto space-y-3">
+          {loading && (
+            <div className="flex items-center gap-2 text-slate-400 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" /> Loading history...
+            </div>
+          )}
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {!loading && !error && events.length === 0 && (
+            <div className="text-sm text-slate-500">No recorded activity yet.</div>
+          )}
+
+          {events.map(event => (
+            <div
+              key={event.id}
+              className="border border-slate-800 rounded-lg p-3 bg-slate-950/50 cursor-pointer hover:border-slate-700"
+              onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <OutcomeIcon outcome={event.outcome} />
+                  <span className="font-mono text-xs text-white">{event.action}</span>
+                  {event.platform && (
+                    <span className="text-[10px] uppercase text-slate-500">{event.platform}</span>
+                  )}
+                </div>
+                <span className="text-xs text-slate-500 whitespace-nowrap">
+                  {new Date(event.occurred_at).toLocaleString()}
+                </span>
+              </div>
+              <div className="mt-1 text-xs text-slate-400">
+                {SOURCE_LABELS[event.source]} · {event.actor}
+              </div>
+              {event.error && <div className="mt-1 text-xs text-red-400">{event.error}</div>}
+
+              {expandedId === event.id && (
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {event.request && (
+                    <pre className="text-[10px] text-slate-300 bg-slate-900 rounded p-2 overflow-x-auto">
+                      {JSON.stringify(event.request, null, 2)}
+                    </pre>
+                  )}
+                  {event.response && (
+                    <pre className="text-[10px] text-slate-300 bg-slate-900 rounded p-2 overflow-x-auto">
+                      {JSON.stringify(event.response, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditTimeline;
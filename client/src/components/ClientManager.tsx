@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Client, ClientStats, VipLevel } from '../../types';
 import { CLIENTS_API } from '../config';
+import { apiFetch } from '../services/apiClient';
+import AuditTimeline from './AuditTimeline';
 
 const ClientManager: React.FC = () => {
   const [clients, setClients] = useState<Client[]>([]);
@@ -10,6 +12,7 @@ const ClientManager: React.FC = () => {
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingClient, setEditingClient] = useState<Client | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [historyClient, setHistoryClient] = useState<Client | null>(null);
 
   // Form state for add/edit
   const [formData, setFormData] = useState({
@@ -25,7 +28,7 @@ const ClientManager: React.FC = () => {
 
   const fetchClients = async () => {
     try {
-      const response = await fetch(CLIENTS_API);
+      const response = await apiFetch(CLIENTS_API);
       if (!response.ok) throw new Error('Failed to fetch clients');
       const data = await response.json();
       setClients(data);
@@ -36,7 +39,7 @@ const ClientManager: React.FC = () => {
 
   const fetchStats = async () => {
     try {
-      const response = await fetch(`${CLIENTS_API}/stats`);
+      const response = await apiFetch(`${CLIENTS_API}/stats`);
       if (!response.ok) throw new Error('Failed to fetch stats');
       const data = await response.json();
       setStats(data);
@@ -56,7 +59,7 @@ const ClientManager: React.FC = () => {
 
   const handleAddClient = async () => {
     try {
-      const response = await fetch(CLIENTS_API, {
+      const response = await apiFetch(CLIENTS_API, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(formData),
@@ -80,7 +83,7 @@ const ClientManager: React.FC = () => {
     if (!editingClient) return;
     
     try {
-      const response = await fetch(`${CLIENTS_API}/${editingClient.id}`, {
+      const response = await apiFetch(`${CLIENTS_API}/${editingClient.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(formData),
@@ -101,7 +104,7 @@ const ClientManager: React.FC = () => {
     if (!confirm('Are you sure you want to delete this client?')) return;
     
     try {
-      const response = await fetch(`${CLIENTS_API}/${id}`, {
+      const response = await apiFetch(`${CLIENTS_API}/${id}`, {
         method: 'DELETE',
       });
       
@@ -116,7 +119,7 @@ const ClientManager: React.FC = () => {
 
   const handleSyncToOpenTable = async (clientId: number) => {
     try {
-      const response = await fetch(`${CLIENTS_API}/${clientId}/sync/opentable`, {
+      const response = await apiFetch(`${CLIENTS_API}/${clientId}/sync/opentable`, {
         method: 'POST',
       });
       
@@ -308,6 +311,12 @@ const ClientManager: React.FC = () => {
                     >
                       Edit
                     </button>
+                    <button 
+                      className="action-btn"
+                      onClick={() => setHistoryClient(client)}
+                    >
+                      History
+                    </button>
                     <button 
                       className="action-btn delete"
                       onClick={() => handleDeleteClient(client.id)}
@@ -322,6 +331,15 @@ const ClientManager: React.FC = () => {
         )}
       </div>
 
+      {/* Audit History Modal */}
+      {historyClient && (
+        <AuditTimeline
+          clientId={historyClient.id}
+          title={`${historyClient.first_name} ${historyClient.last_name}`}
+          onClose={() => setHistoryClient(null)}
+        />
+      )}
+
       {/* Add/Edit Modal */}
       {(showAddModal || editingClient) && (
         <div className="modal-overlay" onClick={() => { setShowAddModal(false); setEditingClient(null); resetForm(); }}>
@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, Activity, ShieldAlert } from 'lucide-react';
+import { TrendingUp, Activity, LogOut } from 'lucide-react';
+import { AuthUser } from '../services/apiClient';
+import { ROLE_LABELS } from '@shared/permissions';
 
 interface HeaderProps {
   portfolioValue?: number;
+  user?: AuthUser;
+  onLogout?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ portfolioValue = 0 }) => {
+const Header: React.FC<HeaderProps> = ({ portfolioValue = 0, user, onLogout }) => {
   const [globalVolume, setGlobalVolume] = useState<number>(0);
 
   useEffect(() => {
@@ -42,8 +46,18 @@ const Header: React.FC<HeaderProps> = ({ portfolioValue = 0 }) => {
                 <Activity className="w-4 h-4 text-emerald-400" />
                 <span className="text-sm text-slate-300">24h VOL: <span className="text-white font-mono">${globalVolume.toLocaleString()}</span></span>
             </div>
-            <button className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white">
-                <ShieldAlert className="w-5 h-5" />
+            {user && (
+                <div className="hidden sm:flex flex-col items-end leading-tight">
+                    <span className="text-sm text-white">{user.name || user.email}</span>
+                    <span className="text-[10px] text-amber-500 font-mono uppercase">{ROLE_LABELS[user.role]}</span>
+                </div>
+            )}
+            <button
+                onClick={onLogout}
+                title="Sign out"
+                className="p-2 hover:bg-slate-800 rounded-full transition-colors text-slate-400 hover:text-white"
+            >
+                <LogOut className="w-5 h-5" />
             </button>
         </div>
       </div>
@@ -11,6 +11,7 @@ import {
   Users, Plus, Edit2, Trash2, Check, X, Shield, 
   AlertTriangle, ChevronDown, ChevronUp, Eye, EyeOff 
 } from 'lucide-react';
+import { apiFetch } from '../services/apiClient';
 
 const API_BASE = 'http://localhost:3000/api';
 
@@ -53,7 +54,7 @@ const IdentityManager: React.FC<IdentityManagerProps> = ({ onNotify }) => {
 
   const fetchIdentities = async () => {
     try {
-      const res = await fetch(`${API_BASE}/identities`);
+      const res = await apiFetch(`${API_BASE}/identities`);
       const data = await res.json();
       if (data.success) {
         setIdentities(data.identities);
@@ -67,7 +68,7 @@ const IdentityManager: React.FC<IdentityManagerProps> = ({ onNotify }) => {
 
   const fetchStats = async () => {
     try {
-      const res = await fetch(`${API_BASE}/identities/stats`);
+      const res = await apiFetch(`${API_BASE}/identities/stats`);
       const data = await res.json();
       if (data.success) {
         setStats(data.stats);
@@ -87,7 +88,7 @@ const IdentityManager: React.FC<IdentityManagerProps> = ({ onNotify }) => {
       
       const method = editingId ? 'PUT' : 'POST';
       
-      const res = await fetch(url, {
+      const res = await apiFetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(formData)
@@ -115,7 +116,7 @@ const IdentityManager: React.FC<IdentityManagerProps> = ({ onNotify }) => {
     if (!confirm('Are you sure you want to remove this identity?')) return;
     
     try {
-      const res = await fetch(`${API_BASE}/identities/${id}`, { method: 'DELETE' });
+      const res = await apiFetch(`${API_BASE}/identities/${id}`, { method: 'DELETE' });
       const data = await res.json();
       
       if (data.success) {
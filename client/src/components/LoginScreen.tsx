@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { TrendingUp, LogIn, AlertCircle } from 'lucide-react';
+import { login, AuthSession } from '../services/apiClient';
+
+interface LoginScreenProps {
+  onLogin: (session: AuthSession) => void;
+  expired?: boolean;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, expired = false }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(expired ? 'Your session expired - please sign in again' : null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      onLogin(await login(email, password));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex items-center justify-center px-4 text-slate-200 font-sans">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-slate-900 border border-slate-800 rounded-xl p-6 space-y-5 shadow-xl shadow-black/30"
+      >
+        <div className="flex items-center gap-2">
+          <div className="bg-amber-500 p-2 rounded-lg">
+            <TrendingUp className="text-slate-900 w-6 h-6" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-white tracking-tight">ReservationInsider<span className="text-amber-500">Pro</span></h1>
+            <p className="text-xs text-slate-400 font-mono">AUTHORIZED PERSONNEL ONLY</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded-lg px-3 py-2">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            autoComplete="username"
+            required
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-amber-500"
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-amber-500"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full flex items-center justify-center gap-2 bg-amber-500 hover:bg-amber-400 disabled:opacity-50 text-slate-900 font-semibold rounded-lg py-2 transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          {loading ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
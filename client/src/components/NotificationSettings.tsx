@@ -19,6 +19,7 @@ import {
   Square,
   Zap,
 } from 'lucide-react';
+import { apiFetch } from '../services/apiClient';
 
 const API_BASE = 'http://localhost:3000/api/notifications';
 
@@ -49,7 +50,7 @@ const NotificationSettings: React.FC = () => {
   const fetchStatus = async () => {
     setLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/status`);
+      const res = await apiFetch(`${API_BASE}/status`);
       const data = await res.json();
       if (data.success) {
         setStatus(data);
@@ -64,7 +65,7 @@ const NotificationSettings: React.FC = () => {
   const sendTestNotification = async () => {
     setSending(true);
     try {
-      const res = await fetch(`${API_BASE}/test`, { method: 'POST' });
+      const res = await apiFetch(`${API_BASE}/test`, { method: 'POST' });
       const data = await res.json();
       if (data.success) {
         alert('Test notification sent successfully!');
@@ -84,7 +85,7 @@ const NotificationSettings: React.FC = () => {
     
     setSending(true);
     try {
-      const res = await fetch(`${API_BASE}/telegram/send`, {
+      const res = await apiFetch(`${API_BASE}/telegram/send`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ message: testMessage }),
@@ -105,7 +106,7 @@ const NotificationSettings: React.FC = () => {
 
   const togglePolling = async (start: boolean) => {
     try {
-      await fetch(`${API_BASE}/polling/${start ? 'start' : 'stop'}`, { method: 'POST' });
+      await apiFetch(`${API_BASE}/polling/${start ? 'start' : 'stop'}`, { method: 'POST' });
       fetchStatus();
     } catch (error) {
       console.error('Failed to toggle polling:', error);
@@ -115,7 +116,7 @@ const NotificationSettings: React.FC = () => {
   const sendDailySummary = async () => {
     setSending(true);
     try {
-      const res = await fetch(`${API_BASE}/daily-summary`, { method: 'POST' });
+      const res = await apiFetch(`${API_BASE}/daily-summary`, { method: 'POST' });
       const data = await res.json();
       if (data.success) {
         alert('Daily summary sent!');
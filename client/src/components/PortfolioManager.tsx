@@ -7,6 +7,9 @@ import TransferTracker from './TransferTracker';
 import AnalyticsDashboard from './AnalyticsDashboard';
 import NotificationSettings from './NotificationSettings';
 import ClientManager from './ClientManager';
+import AuditTimeline from './AuditTimeline';
+import { can } from '../services/apiClient';
+import { RESERVATION_TRANSITIONS, canTransition } from '@shared/reservationLifecycle';
 import { 
   Briefcase, 
   DollarSign, 
@@ -29,7 +32,8 @@ import {
   Users,
   Package,
   BarChart3,
-  Bell
+  Bell,
+  History
 } from 'lucide-react';
 
 interface PortfolioManagerProps {
@@ -69,6 +73,9 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ items, onUpdateItem
     guests?: number;
   }>({});
   
+  // Audit history modal
+  const [historyItem, setHistoryItem] = useState<PortfolioItem | null>(null);
+  
   // Handle notifications from child components
   const handleNotify = (message: string, type: 'success' | 'error' | 'info') => {
     setNotification({ message, type });
@@ -107,40 +114,35 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ items, onUpdateItem
     setShowTransferModal(true);
   };
 
-  const handleStatusChange = (item: PortfolioItem, newStatus: AssetStatus) => {
-    setOpenDropdownId(null); // Close dropdown
-    
-    // If moving to PENDING or SOLD, and no price is set, ask for it
-    if ((newStatus === 'PENDING' || newStatus === 'SOLD') && !item.soldPrice) {
-      setItemToSell(item);
-      setSoldPriceInput(item.listPrice); // Default to list price
-      setShowSoldModal(true);
-    } else {
-      onUpdateItem({ ...item, status: newStatus });
-    }
-  };
-  
   const [targetStatus, setTargetStatus] = useState<AssetStatus>('SOLD');
 
+  // Status changes go through the server's reservation lifecycle; items only
+  // kept in this browser (404) are held to the same transitions here
+  const applyStatus = (item: PortfolioItem, status: AssetStatus, changes: Partial<PortfolioItem> = {}) => {
+      if (!canTransition(item.status, status)) {
+          handleNotify(`${item.restaurantName} can't go from ${item.status} to ${status}`, 'error');
+          return;
+      }
+      // Saved through the portfolio queue; the server checks the transition too
+      onUpdateItem({ ...item, ...changes, status });
+  };
+
   const handleStatusClick = (item: PortfolioItem, status: AssetStatus) => {
       setOpenDropdownId(null);
-      if ((status === 'PENDING' || status === 'SOLD') && !item.soldPrice) {
+      // Selling needs a price first
+      if (status === 'SOLD' && !item.soldPrice) {
           setItemToSell(item);
           setTargetStatus(status);
           setSoldPriceInput(item.listPrice);
           setShowSoldModal(true);
       } else {
-          onUpdateItem({ ...item, status });
+          applyStatus(item, status);
       }
   }
 
   const confirmSale = () => {
     if (itemToSell) {
-      onUpdateItem({ 
-          ...itemToSell, 
-          status: targetStatus, 
-          soldPrice: soldPriceInput 
-      });
+      applyStatus(itemToSell, targetStatus, { soldPrice: soldPriceInput });
       setShowSoldModal(false);
       setItemToSell(null);
     }
@@ -195,11 +197,14 @@ const PortfolioManager: React.FC<PortfolioManagerProps> = ({ items, onUpdateItem
   const getStatusColor = (status: AssetStatus) => {
     switch (status) {
       case 'WATCHING': return 'bg-slate-800 border-slate-600 text-slate-400 border-dashed';
+      case 'PENDING_CONFIRMATION': return 'bg-red-900/30 text-red-400 border-red-900/50 border-dashed';
       case 'ACQUIRED': return 'bg-slate-800 text-slate-300 border-slate-700';
       case 'LISTED': return 'bg-amber-900/30 text-amber-400 border-amber-900/50';
-      case 'PENDING': return 'bg-indigo-900/30 text-indigo-400 border-indigo-900/50';
       case 'SOLD': return 'bg-emerald-900/30 text-emerald-400 border-emerald-900/50';
+      case 'TRANSFER_PENDING': return 'bg-indigo-900/30 text-indigo-400 border-indigo-900/50';
       case 'TRANSFERRED': return 'bg-purple-900/30 text-purple-400 border-purple-900/50';
+      case 'COMPLETED': return 'bg-blue-900/30 text-blue-400 border-blue-900/50';
+      case 'CANCELLED': return 'bg-slate-900 text-slate-500 border-slate-800 line-through';
     }
   };
 
@@ -237,17 +242,20 @@ Please update the host notes accordingly. Thank you.`;
           <Briefcase className="w-4 h-4" />
           Portfolio
         </button>
-        <button
-          onClick={() => setActiveTab('identities')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-            activeTab === 'identities'
-              ? 'bg-violet-600 text-white shadow-lg'
-              : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
-          }`}
-        >
-          <Users className="w-4 h-4" />
-          Identities
-        </button>
+        {/* Booking identities hold platform credentials - hidden from concierge / read-only */}
+        {can('identities:read') && (
+          <button
+            onClick={() => setActiveTab('identities')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              activeTab === 'identities'
+                ? 'bg-violet-600 text-white shadow-lg'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+            }`}
+          >
+            <Users className="w-4 h-4" />
+            Identities
+          </button>
+        )}
         <button
           onClick={() => setActiveTab('clients')}
           className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
@@ -295,7 +303,7 @@ Please update the host notes accordingly. Thank you.`;
       </div>
 
       {/* Conditionally render based on active tab */}
-      {activeTab === 'identities' && (
+      {activeTab === 'identities' && can('identities:read') && (
         <IdentityManager onNotify={handleNotify} />
       )}
       
@@ -390,8 +398,9 @@ Please update the host notes accordingly. Thank you.`;
                     <div className="group/tooltip relative">
                         <HelpCircle className="w-3.5 h-3.5 text-slate-600 cursor-help" />
                         <div className="absolute left-0 top-full mt-2 w-56 bg-slate-950 border border-slate-800 p-3 rounded shadow-xl text-[10px] text-slate-300 z-50 hidden group-hover/tooltip:block pointer-events-none normal-case leading-relaxed">
-                            <span className="block mb-1"><strong className="text-indigo-400">PENDING:</strong> Buyer paid. Transfer needed immediately.</span>
-                            <span className="block"><strong className="text-emerald-400">SOLD:</strong> Name change complete. Deal closed.</span>
+                            <span className="block mb-1"><strong className="text-emerald-400">SOLD:</strong> Buyer paid. Transfer needed.</span>
+                            <span className="block mb-1"><strong className="text-indigo-400">TRANSFER_PENDING:</strong> Buyer notified, handover in progress.</span>
+                            <span className="block"><strong className="text-purple-400">TRANSFERRED:</strong> Name change complete. Deal closed.</span>
                         </div>
                     </div>
                 </th>
@@ -452,7 +461,7 @@ Please update the host notes accordingly. Thank you.`;
                       />
                   </td>
                   <td className="px-6 py-4 font-mono text-white">
-                    {(item.status === 'SOLD' || item.status === 'TRANSFERRED' || item.status === 'PENDING') && item.soldPrice ? (
+                    {(item.status === 'SOLD' || item.status === 'TRANSFER_PENDING' || item.status === 'TRANSFERRED' || item.status === 'COMPLETED') && item.soldPrice ? (
                         <span className="text-emerald-400 flex items-center gap-1">
                             ${item.soldPrice} <CheckCircle2 className="w-3 h-3" />
                         </span>
@@ -472,13 +481,16 @@ Please update the host notes accordingly. Thank you.`;
                         
                         {/* Dropdown Menu - Click Triggered */}
                         {openDropdownId === item.id && (
-                            <div className="absolute left-6 top-10 mt-1 w-36 bg-slate-950 border border-slate-700 rounded shadow-xl z-50 animate-in fade-in zoom-in-95 duration-100">
-                                {['WATCHING', 'ACQUIRED', 'LISTED', 'PENDING', 'SOLD', 'TRANSFERRED'].map((s) => (
+                            <div className="absolute left-6 top-10 mt-1 w-44 bg-slate-950 border border-slate-700 rounded shadow-xl z-50 animate-in fade-in zoom-in-95 duration-100">
+                                {RESERVATION_TRANSITIONS[item.status].length === 0 && (
+                                    <div className="px-3 py-2 text-xs text-slate-500">Final status</div>
+                                )}
+                                {RESERVATION_TRANSITIONS[item.status].map((s) => (
                                     <button
                                         key={s}
                                         onClick={(e) => {
                                             e.stopPropagation();
-                                            handleStatusClick(item, s as AssetStatus);
+                                            handleStatusClick(item, s);
                                         }}
                                         className="w-full text-left px-3 py-2 text-xs text-slate-300 hover:bg-slate-800 hover:text-white first:rounded-t last:rounded-b"
                                     >
@@ -510,7 +522,7 @@ Please update the host notes accordingly. Thank you.`;
                                 SNIPE
                             </button>
                         )}
-                        {item.status === 'PENDING' && (
+                        {item.status === 'TRANSFER_PENDING' && (
                             <button 
                                 onClick={(e) => { e.stopPropagation(); handleOpenTransfer(item); }}
                                 className="text-xs bg-amber-900/30 hover:bg-amber-900/50 text-amber-500 hover:text-amber-400 px-3 py-1.5 rounded border border-amber-900/50 flex items-center gap-1 animate-pulse"
@@ -519,6 +531,13 @@ Please update the host notes accordingly. Thank you.`;
                                 Action Needed
                             </button>
                         )}
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); setHistoryItem(item); }}
+                            className="p-2 text-slate-600 hover:text-amber-400 hover:bg-amber-900/10 rounded transition-colors"
+                            title="History"
+                        >
+                            <History className="w-4 h-4" />
+                        </button>
                         <button 
                             onClick={(e) => { e.stopPropagation(); handleDeleteClick(item); }}
                             className="p-2 text-slate-600 hover:text-red-400 hover:bg-red-900/10 rounded transition-colors"
@@ -866,6 +885,15 @@ Please update the host notes accordingly. Thank you.`;
           </div>
       )}
 
+      {/* Audit History Modal */}
+      {historyItem && (
+        <AuditTimeline
+          portfolioItemId={historyItem.id}
+          title={historyItem.restaurantName}
+          onClose={() => setHistoryItem(null)}
+        />
+      )}
+
       {/* Acquisition Modal */}
       <AcquisitionModal
         isOpen={showAcquisitionModal}
@@ -1,12 +1,33 @@
 import React, { useState, useEffect } from 'react';
 import { PortfolioItem } from '../types';
+import { getDropInstant } from '@shared/dropTime';
 import { Crosshair, Timer, AlertCircle, ExternalLink, ChevronUp, ChevronDown } from 'lucide-react';
+import { apiFetch } from '../services/apiClient';
+import { SNIPER_API } from '../config';
+import { useServerEvents } from '../hooks/useServerEvents';
 
 interface SniperTickerProps {
   items: PortfolioItem[];
   onAlert?: (message: string) => void;
 }
 
+type ReadinessStatus = 'pass' | 'warn' | 'fail';
+
+// Pre-drop checklist from GET /api/sniper/readiness
+interface ItemReadiness {
+  itemId: string;
+  status: ReadinessStatus;
+  checks: { label: string; status: ReadinessStatus; detail: string }[];
+}
+
+const READINESS_POLL_MS = 60 * 1000;
+
+const READINESS_BADGE: Record<ReadinessStatus, string> = {
+  pass: 'bg-emerald-500',
+  warn: 'bg-amber-400',
+  fail: 'bg-red-500',
+};
+
 interface TickerItem {
   id: string;
   name: string;
@@ -20,31 +41,73 @@ const SniperTicker: React.FC<SniperTickerProps> = ({ items, onAlert }) => {
   const [tickerItems, setTickerItems] = useState<TickerItem[]>([]);
   const [isExpanded, setIsExpanded] = useState(true);
   const [lastAlertTime, setLastAlertTime] = useState<number>(0);
+  const [readiness, setReadiness] = useState<Record<string, ItemReadiness>>({});
+  const [readinessVersion, setReadinessVersion] = useState(0);
+  const [firing, setFiring] = useState<Record<string, boolean>>({});  // Acquisitions running now, by item
+  const [schedulerRunning, setSchedulerRunning] = useState<boolean | null>(null);
+
+  // Live from the server: acquisitions as they fire, broken credentials, scheduler on/off
+  useServerEvents(
+    ['acquisition.started', 'acquisition.succeeded', 'acquisition.failed', 'credential.failed', 'scheduler.state'],
+    (event) => {
+      switch (event.type) {
+        case 'acquisition.started':
+          if (event.data.portfolioItemId) setFiring(prev => ({ ...prev, [event.data.portfolioItemId!]: true }));
+          break;
+        case 'acquisition.succeeded':
+        case 'acquisition.failed': {
+          const { portfolioItemId, restaurantName } = event.data;
+          if (portfolioItemId) setFiring(({ [portfolioItemId]: _, ...rest }) => rest);
+          onAlert?.(event.type === 'acquisition.succeeded'
+            ? `ACQUIRED: ${restaurantName}${event.data.confirmationCode ? ` (${event.data.confirmationCode})` : ''}`
+            : `MISSED: ${restaurantName} - ${event.data.error || 'acquisition failed'}`);
+          break;
+        }
+        case 'credential.failed':
+          onAlert?.(`${event.data.platform} credentials failed for identity #${event.data.identityId}: ${event.data.message || 'invalid'}`);
+          setReadinessVersion(v => v + 1);
+          break;
+        case 'scheduler.state':
+          setSchedulerRunning(event.data.running);
+          setReadinessVersion(v => v + 1);
+          break;
+      }
+    }
+  );
+
+  // Checklist per armed item (items the server doesn't know about get no badge)
+  useEffect(() => {
+    if (!items.some(i => i.status === 'WATCHING')) return;
+
+    const fetchReadiness = async () => {
+        try {
+            const res = await apiFetch(`${SNIPER_API}/readiness`);
+            const data = await res.json();
+            if (data.success) {
+                setReadiness(Object.fromEntries(data.items.map((r: ItemReadiness) => [r.itemId, r])));
+            }
+        } catch (error) {
+            console.error('Failed to fetch drop readiness:', error);
+        }
+    };
+
+    fetchReadiness();
+    const timer = setInterval(fetchReadiness, READINESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [items, readinessVersion]);
 
   // Enhanced: Calculate time left using full date/time/timezone
   const calculateTimeLeft = (item: PortfolioItem) => {
     const now = new Date();
     let target: Date;
 
-    if (item.nextDropDate && item.nextDropTime && item.dropTimezone) {
-        // NEW: Use full date/time/timezone
-        const dateTimeString = `${item.nextDropDate}T${item.nextDropTime}:00`;
-        target = new Date(dateTimeString);
-        
-        // Simple timezone offset mapping
-        const timezoneOffsets: Record<string, number> = {
-            'America/Los_Angeles': -8,
-            'America/New_York': -5,
-            'America/Chicago': -6,
-            'Europe/London': 0,
-            'Europe/Paris': 1,
-            'Asia/Tokyo': 9
-        };
-        
-        const offset = timezoneOffsets[item.dropTimezone] || 0;
-        const localOffset = -now.getTimezoneOffset() / 60;
-        const hoursDiff = offset - localOffset;
-        target.setHours(target.getHours() - hoursDiff);
+    if (item.nextDropDate && item.nextDropTime) {
+        // NEW: Resolve in the restaurant's IANA timezone (DST-aware, same resolver as the server)
+        try {
+            target = getDropInstant(item.nextDropDate, item.nextDropTime, item.dropTimezone);
+        } catch {
+            return { display: '--:--:--', seconds: 0 };
+        }
     } else if (item.dropTime) {
         // FALLBACK: Old logic
         const [hours, minutes] = item.dropTime.split(':').map(Number);
@@ -126,6 +189,7 @@ const SniperTicker: React.FC<SniperTickerProps> = ({ items, onAlert }) => {
             >
                 {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />}
                 Active Snipers ({tickerItems.length})
+                {schedulerRunning === false && <span className="text-red-400">· Scheduler stopped</span>}
             </button>
         </div>
 
@@ -149,6 +213,22 @@ const SniperTicker: React.FC<SniperTickerProps> = ({ items, onAlert }) => {
                                         {item.name}
                                     </span>
                                     {item.isUrgent && <AlertCircle className="w-3 h-3 text-red-500" />}
+                                    {firing[item.id] && (
+                                        <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-500 text-slate-900 animate-pulse">
+                                            Firing
+                                        </span>
+                                    )}
+                                    {readiness[item.id] && (
+                                        <span
+                                            className={`w-2 h-2 rounded-full ${READINESS_BADGE[readiness[item.id].status]}`}
+                                            title={readiness[item.id].status === 'pass'
+                                                ? 'Ready for drop'
+                                                : readiness[item.id].checks
+                                                    .filter(c => c.status !== 'pass')
+                                                    .map(c => `${c.label}: ${c.detail}`)
+                                                    .join('\n')}
+                                        />
+                                    )}
                                 </div>
                                 <div className={`font-mono text-xl font-bold tracking-widest ${item.isUrgent ? 'text-red-100' : 'text-white'}`}>
                                     {item.timeLeft}
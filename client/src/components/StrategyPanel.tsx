@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { MarketInsight } from '../types';
+import { getDropInstant } from '@shared/dropTime';
 import { Sparkles, MonitorSmartphone, AlertTriangle, CalendarCheck, Globe, ExternalLink, Database, Server, Crosshair, Timer, Link2, Copy, CreditCard, Info } from 'lucide-react';
 
 interface StrategyPanelProps {
@@ -22,29 +23,14 @@ const StrategyPanel: React.FC<StrategyPanelProps> = ({ insight, restaurantName,
         const now = new Date();
         let target: Date;
 
-        if (insight.nextDropDate && insight.nextDropTime && insight.dropTimezone) {
-            // NEW: Use full date/time/timezone for accurate calculation
-            const dateTimeString = `${insight.nextDropDate}T${insight.nextDropTime}:00`;
-            
-            // Parse in the restaurant's timezone
-            target = new Date(dateTimeString);
-            
-            // Note: For true timezone conversion, we'd use a library like date-fns-tz
-            // For now, we'll use a simple offset mapping
-            const timezoneOffsets: Record<string, number> = {
-                'America/Los_Angeles': -8, // PST
-                'America/New_York': -5,    // EST
-                'America/Chicago': -6,     // CST
-                'Europe/London': 0,        // GMT
-                'Europe/Paris': 1,         // CET
-                'Asia/Tokyo': 9            // JST
-            };
-            
-            const offset = timezoneOffsets[insight.dropTimezone] || 0;
-            const localOffset = -now.getTimezoneOffset() / 60;
-            const hoursDiff = offset - localOffset;
-            
-            target.setHours(target.getHours() - hoursDiff);
+        if (insight.nextDropDate && insight.nextDropTime) {
+            // NEW: Resolve in the restaurant's IANA timezone (DST-aware, same resolver as the server)
+            try {
+                target = getDropInstant(insight.nextDropDate, insight.nextDropTime, insight.dropTimezone);
+            } catch {
+                setTimeLeft('--:--:--');
+                return;
+            }
         } else {
             // FALLBACK: Old logic for backwards compatibility
             const [hours, minutes] = (insight.releaseTime || '09:00').split(':').map(Number);
@@ -3,17 +3,23 @@
  * 
  * Manages the complete transfer workflow:
  * ACQUIRED -> LISTED -> SOLD -> TRANSFER_PENDING -> TRANSFERRED -> COMPLETED
+ * (or -> CANCELLED when a reservation is released on the platform)
  * 
- * Includes AT listing generation and one-click copy functionality.
+ * Includes AT listing generation and one-click copy functionality, and
+ * the platform sync report (reservations imported, changed, or missing
+ * from the platform accounts). Refreshes live when a transfer changes
+ * anywhere else (server events).
  */
 
 import React, { useState, useEffect } from 'react';
-import { Transfer, ATListing, TransferStats, TransferMethod } from '../../types';
+import { Transfer, ATListing, TransferStats, TransferMethod, ReconciliationReport, ListingPriceChange } from '../../types';
 import { 
   Package, DollarSign, Clock, CheckCircle2, AlertTriangle, 
   Copy, ExternalLink, ArrowRight, User, Phone, Mail,
-  ChevronDown, ChevronUp, Clipboard, RefreshCw, TrendingUp
+  ChevronDown, ChevronUp, Clipboard, RefreshCw, TrendingUp, XCircle, Download, TrendingDown, Undo2
 } from 'lucide-react';
+import { apiFetch } from '../services/apiClient';
+import { useServerEvents } from '../hooks/useServerEvents';
 
 const API_BASE = 'http://localhost:3000/api';
 
@@ -27,9 +33,13 @@ const STATUS_CONFIG: Record<string, { color: string; bg: string; label: string;
   SOLD: { color: 'text-amber-400', bg: 'bg-amber-500/20', label: 'Sold', icon: <DollarSign className="w-4 h-4" /> },
   TRANSFER_PENDING: { color: 'text-orange-400', bg: 'bg-orange-500/20', label: 'Transfer Pending', icon: <Clock className="w-4 h-4" /> },
   TRANSFERRED: { color: 'text-purple-400', bg: 'bg-purple-500/20', label: 'Transferred', icon: <ArrowRight className="w-4 h-4" /> },
-  COMPLETED: { color: 'text-slate-400', bg: 'bg-slate-500/20', label: 'Completed', icon: <CheckCircle2 className="w-4 h-4" /> }
+  COMPLETED: { color: 'text-slate-400', bg: 'bg-slate-500/20', label: 'Completed', icon: <CheckCircle2 className="w-4 h-4" /> },
+  CANCELLED: { color: 'text-red-400', bg: 'bg-red-500/20', label: 'Released', icon: <XCircle className="w-4 h-4" /> }
 };
 
+// Still ours to release on the platform
+const CANCELLABLE = (transfer: Transfer) => transfer.status !== 'CANCELLED' && transfer.status !== 'TRANSFERRED';
+
 const TRANSFER_METHODS: { value: TransferMethod; label: string; description: string }[] = [
   { value: 'NAME_CHANGE', label: 'Name Change', description: 'Change reservation name (Resy)' },
   { value: 'CANCEL_REBOOK', label: 'Cancel & Rebook', description: 'Cancel and buyer rebooks immediately' },
@@ -59,18 +69,41 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
     transfer_method: 'NAME_CHANGE' as TransferMethod
   });
   const [listingPrice, setListingPrice] = useState(0);
+  
+  // Platform sync
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [syncing, setSyncing] = useState(false);
+
+  // Price history of the expanded transfer
+  const [priceHistory, setPriceHistory] = useState<ListingPriceChange[]>([]);
 
   useEffect(() => {
     fetchTransfers();
     fetchStats();
   }, [filter]);
 
+  useEffect(() => {
+    fetchReconciliation();
+  }, []);
+
+  useEffect(() => {
+    setPriceHistory([]);
+    if (expandedId !== null) fetchPriceHistory(expandedId);
+  }, [expandedId]);
+
+  // New bookings and status changes made elsewhere (scheduler, teammates)
+  useServerEvents(['reservation.status', 'resync'], (event) => {
+    if (event.type === 'reservation.status' && event.data.transferId === null) return;
+    fetchTransfers();
+    fetchStats();
+  });
+
   const fetchTransfers = async () => {
     try {
       let url = `${API_BASE}/transfers?upcoming=true`;
       if (filter !== 'all') url += `&status=${filter}`;
       
-      const res = await fetch(url);
+      const res = await apiFetch(url);
       const data = await res.json();
       if (data.success) {
         setTransfers(data.transfers);
@@ -84,7 +117,7 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
 
   const fetchStats = async () => {
     try {
-      const res = await fetch(`${API_BASE}/transfers/stats`);
+      const res = await apiFetch(`${API_BASE}/transfers/stats`);
       const data = await res.json();
       if (data.success) {
         setStats(data.stats);
@@ -94,9 +127,41 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
     }
   };
 
+  const fetchReconciliation = async () => {
+    try {
+      const res = await apiFetch(`${API_BASE}/transfers/reconciliation`);
+      const data = await res.json();
+      if (data.success) {
+        setReconciliation(data.report);
+      }
+    } catch (error) {
+      console.error('Failed to fetch reconciliation report:', error);
+    }
+  };
+
+  const syncPlatforms = async () => {
+    setSyncing(true);
+    try {
+      const res = await apiFetch(`${API_BASE}/transfers/reconciliation`, { method: 'POST' });
+      const data = await res.json();
+      if (data.success) {
+        setReconciliation(data.report);
+        onNotify?.(`Platform sync: ${data.report.summary}`, data.report.missing.length > 0 ? 'error' : 'success');
+        fetchTransfers();
+        fetchStats();
+      } else {
+        onNotify?.(data.error || 'Platform sync failed', 'error');
+      }
+    } catch (error) {
+      onNotify?.('Platform sync failed', 'error');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
   const generateATListing = async (transferId: number) => {
     try {
-      const res = await fetch(`${API_BASE}/transfers/${transferId}/at-listing`);
+      const res = await apiFetch(`${API_BASE}/transfers/${transferId}/at-listing`);
       const data = await res.json();
       if (data.success) {
         setAtListing(data.listing);
@@ -121,7 +186,7 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
     if (!selectedTransfer) return;
     
     try {
-      const res = await fetch(`${API_BASE}/transfers/${selectedTransfer.id}/listed`, {
+      const res = await apiFetch(`${API_BASE}/transfers/${selectedTransfer.id}/listed`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ listing_price: listingPrice })
@@ -133,6 +198,8 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
         setShowListingModal(false);
         fetchTransfers();
         fetchStats();
+      } else {
+        onNotify?.(data.error || 'Failed to update status', 'error');
       }
     } catch (error) {
       onNotify?.('Failed to update status', 'error');
@@ -143,7 +210,7 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
     if (!selectedTransfer) return;
     
     try {
-      const res = await fetch(`${API_BASE}/transfers/${selectedTransfer.id}/sold`, {
+      const res = await apiFetch(`${API_BASE}/transfers/${selectedTransfer.id}/sold`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(soldForm)
@@ -155,6 +222,8 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
         setShowSoldModal(false);
         fetchTransfers();
         fetchStats();
+      } else {
+        onNotify?.(data.error || 'Failed to update status', 'error');
       }
     } catch (error) {
       onNotify?.('Failed to update status', 'error');
@@ -163,7 +232,7 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
 
   const updateStatus = async (id: number, status: string) => {
     try {
-      const res = await fetch(`${API_BASE}/transfers/${id}/${status}`, {
+      const res = await apiFetch(`${API_BASE}/transfers/${id}/${status}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' }
       });
@@ -173,12 +242,71 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
         onNotify?.(`Status updated to ${status.replace('-', ' ')}`, 'success');
         fetchTransfers();
         fetchStats();
+      } else {
+        // e.g. a step the reservation lifecycle doesn't allow (409)
+        onNotify?.(data.error || 'Failed to update status', 'error');
       }
     } catch (error) {
       onNotify?.('Failed to update status', 'error');
     }
   };
 
+  const fetchPriceHistory = async (transferId: number) => {
+    try {
+      const res = await apiFetch(`${API_BASE}/transfers/${transferId}/price-history`);
+      const data = await res.json();
+      if (data.success) setPriceHistory(data.history);
+    } catch (error) {
+      console.error('Failed to fetch price history:', error);
+    }
+  };
+
+  const decidePriceChange = async (change: ListingPriceChange, decision: 'approve' | 'reject' | 'revert') => {
+    try {
+      const res = await apiFetch(`${API_BASE}/transfers/${change.transferId}/price-changes/${change.id}/${decision}`, {
+        method: 'POST'
+      });
+      const data = await res.json();
+      if (data.success) {
+        onNotify?.(decision === 'reject' ? 'Kept the listing price' : `Listing price now $${data.change.newPrice} - update it on AT`, 'success');
+        fetchTransfers();
+      } else {
+        // e.g. the price changed since the drop was proposed (409)
+        onNotify?.(data.error || 'Failed to update price', 'error');
+      }
+      fetchPriceHistory(change.transferId);
+    } catch (error) {
+      onNotify?.('Failed to update price', 'error');
+    }
+  };
+
+  const releaseReservation = async (transfer: Transfer, acceptFee = false) => {
+    if (!acceptFee && !confirm(`Release ${transfer.restaurant_name} on ${transfer.platform}? This cancels the reservation.`)) return;
+    
+    try {
+      const res = await apiFetch(`${API_BASE}/transfers/${transfer.id}/cancel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: 'unused', acceptFee })
+      });
+      
+      const data = await res.json();
+      if (data.success) {
+        onNotify?.(data.feeCharged > 0 ? `Reservation released ($${data.feeCharged} fee)` : 'Reservation released', 'success');
+        fetchTransfers();
+        fetchStats();
+      } else if (data.code === 'fee_not_accepted') {
+        if (confirm(`${data.error}. Cancel anyway?`)) {
+          await releaseReservation(transfer, true);
+        }
+      } else {
+        onNotify?.(data.error || 'Failed to release reservation', 'error');
+      }
+    } catch (error) {
+      onNotify?.('Failed to release reservation', 'error');
+    }
+  };
+
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
     return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
@@ -253,6 +381,63 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
         </div>
       )}
 
+      {/* Platform Sync */}
+      <div className="bg-slate-900/50 rounded-xl border border-slate-800 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-500/20 rounded-lg">
+              <RefreshCw className="w-5 h-5 text-blue-400" />
+            </div>
+            <div>
+              <h3 className="font-semibold text-white">Platform Sync</h3>
+              <p className="text-xs text-slate-500">
+                {reconciliation
+                  ? `${reconciliation.summary} · ${new Date(reconciliation.finishedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+                  : 'Platform account reservations have not been reconciled yet'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={syncPlatforms}
+            disabled={syncing}
+            className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-xs rounded-lg transition-colors"
+          >
+            <RefreshCw className={`w-3 h-3 ${syncing ? 'animate-spin' : ''}`} />
+            {syncing ? 'Syncing...' : 'Sync Now'}
+          </button>
+        </div>
+
+        {reconciliation && (
+          <div className="space-y-1 text-xs">
+            {reconciliation.accounts.filter(a => a.error).map(a => (
+              <div key={`${a.platform}-${a.account}`} className="text-red-400">
+                <XCircle className="w-3 h-3 inline mr-1" />
+                {a.platform} ({a.account}) could not be read: {a.error}
+              </div>
+            ))}
+            {reconciliation.missing.map(r => (
+              <div key={`missing-${r.transferId}`} className="text-red-400">
+                <AlertTriangle className="w-3 h-3 inline mr-1" />
+                {r.restaurantName} {formatDate(r.date)} at {formatTime(r.time)} ({r.confirmationCode}) is no longer on {r.platform}
+              </div>
+            ))}
+            {reconciliation.changed.map(r => (
+              <div key={`changed-${r.transferId}`} className="text-amber-400">
+                <AlertTriangle className="w-3 h-3 inline mr-1" />
+                {r.restaurantName} ({r.confirmationCode}) differs on {r.platform}:{' '}
+                {r.differences.map(d => `${d.field.replace('_', ' ')} ${d.recorded} → ${d.platform}`).join(', ')}
+              </div>
+            ))}
+            {reconciliation.imported.map(r => (
+              <div key={`imported-${r.confirmationCode}`} className="text-emerald-400">
+                <Download className="w-3 h-3 inline mr-1" />
+                Imported {r.restaurantName} {formatDate(r.date)} at {formatTime(r.time)} from {r.platform} ({r.account})
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Transfer List */}
       <div className="bg-slate-900/50 rounded-xl border border-slate-800 overflow-hidden">
         {/* Header */}
@@ -335,6 +520,18 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
                         </div>
                       )}
                       
+                      {/* Sync flags */}
+                      {transfer.platform_missing_since && CANCELLABLE(transfer) && (
+                        <span className="px-2 py-1 text-xs font-medium rounded bg-red-500/20 text-red-400">
+                          Not on {transfer.platform}
+                        </span>
+                      )}
+                      {transfer.imported_at && (
+                        <span className="px-2 py-1 text-xs font-medium rounded bg-slate-800 text-slate-400">
+                          Imported
+                        </span>
+                      )}
+                      
                       {/* Status badge */}
                       <span className={`px-2 py-1 text-xs font-medium rounded ${statusConfig.bg} ${statusConfig.color}`}>
                         {statusConfig.label}
@@ -372,6 +569,72 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
                         </div>
                       )}
                       
+                      {/* Cancellation terms */}
+                      {transfer.status === 'CANCELLED' ? (
+                        <div className="bg-slate-950 rounded-lg p-3 text-xs text-slate-400">
+                          Released {transfer.cancelled_at && formatDate(transfer.cancelled_at)}
+                          {transfer.cancellation_reason && ` (${transfer.cancellation_reason.replace('_', ' ')})`}
+                          {Number(transfer.cancellation_fee_charged) > 0 && (
+                            <span className="text-red-400"> - ${transfer.cancellation_fee_charged} fee</span>
+                          )}
+                        </div>
+                      ) : transfer.cancellation_deadline && CANCELLABLE(transfer) && (
+                        <div className="bg-slate-950 rounded-lg p-3 text-xs text-slate-400 flex items-center gap-2">
+                          <Clock className="w-3 h-3 text-slate-500" />
+                          Free cancellation until {new Date(transfer.cancellation_deadline).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                          {transfer.cancellation_fee ? ` - $${transfer.cancellation_fee} fee after` : ''}
+                        </div>
+                      )}
+                      
+                      {/* Listing price history and proposed drops */}
+                      {priceHistory.length > 0 && (
+                        <div className="bg-slate-950 rounded-lg p-3">
+                          <div className="text-xs text-slate-500 mb-2">Listing Price</div>
+                          <div className="space-y-1">
+                            {priceHistory.map(change => (
+                              <div key={change.id} className="flex items-center gap-2 text-xs">
+                                <span className="text-slate-500 w-16">{new Date(change.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+                                <span className={change.status === 'applied' ? 'text-white' : 'text-slate-500'}>
+                                  {change.oldPrice !== null && `$${change.oldPrice} → `}${change.newPrice}
+                                </span>
+                                <span className="text-slate-500">
+                                  {change.kind === 'decay'
+                                    ? `-${change.details?.percentOff}% at T-${change.stepHours}h${change.details?.limitedBy !== 'schedule' ? ` (${change.details?.limitedBy})` : ''}`
+                                    : change.kind}
+                                  {change.status !== 'applied' && ` · ${change.status}`}
+                                </span>
+                                {change.status === 'proposed' && (
+                                  <>
+                                    <button
+                                      onClick={(e) => { e.stopPropagation(); decidePriceChange(change, 'approve'); }}
+                                      className="flex items-center gap-1 px-2 py-0.5 bg-blue-600 hover:bg-blue-500 text-white rounded"
+                                    >
+                                      <TrendingDown className="w-3 h-3" />
+                                      Approve
+                                    </button>
+                                    <button
+                                      onClick={(e) => { e.stopPropagation(); decidePriceChange(change, 'reject'); }}
+                                      className="px-2 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded"
+                                    >
+                                      Keep
+                                    </button>
+                                  </>
+                                )}
+                                {change.status === 'applied' && (change.kind === 'decay' || change.kind === 'manual') && transfer.status === 'LISTED' && (
+                                  <button
+                                    onClick={(e) => { e.stopPropagation(); decidePriceChange(change, 'revert'); }}
+                                    className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded"
+                                  >
+                                    <Undo2 className="w-3 h-3" />
+                                    Undo
+                                  </button>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      
                       {/* Actions based on status */}
                       <div className="flex flex-wrap gap-2">
                         {transfer.status === 'ACQUIRED' && (
@@ -448,6 +711,19 @@ const TransferTracker: React.FC<TransferTrackerProps> = ({ onNotify }) => {
                           </button>
                         )}
                         
+                        {CANCELLABLE(transfer) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              releaseReservation(transfer);
+                            }}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-slate-800 hover:bg-red-900/60 text-red-300 text-xs rounded-lg transition-colors"
+                          >
+                            <XCircle className="w-3 h-3" />
+                            Release Reservation
+                          </button>
+                        )}
+                        
                         {transfer.at_listing_url && (
                           <a
                             href={transfer.at_listing_url}
@@ -30,6 +30,15 @@ export const CLIENTS_API = `${API_BASE}/clients`;
 // Portfolio API
 export const PORTFOLIO_API = `${API_BASE}/portfolio`;
 
+// Reservations API (portfolio item + transfer lifecycle)
+export const RESERVATIONS_API = `${API_BASE}/reservations`;
+
 // Market API
 export const MARKET_API = `${API_BASE}/v2/market`;
 
+// Audit API
+export const AUDIT_API = `${API_BASE}/audit`;
+
+// Live server events (SSE)
+export const EVENTS_API = `${API_BASE}/events`;
+
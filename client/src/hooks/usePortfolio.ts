@@ -0,0 +1,171 @@
+/**
+ * usePortfolio - the server's portfolio, with this browser's unsent changes
+ *
+ * Changes show up immediately (optimistic) and are queued; the queue is
+ * sent in order and survives reloads, so edits made while the server is
+ * unreachable go out once it's back. A conflict (someone else saved the
+ * item first) keeps their version and says so. Status changes made
+ * elsewhere (the scheduler booking a drop, a teammate) arrive as server
+ * events and trigger a reload.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { PortfolioItem } from '../../types';
+import {
+  PortfolioChange,
+  getOutbox,
+  enqueueChange,
+  nextChange,
+  settleChange,
+  discardQueued,
+  rebaseOutbox,
+  withPendingChanges,
+  fetchPortfolio,
+  sendChange,
+  importLocalPortfolio,
+} from '../services/portfolioApi';
+import { useServerEvents } from './useServerEvents';
+
+const RETRY_INTERVAL_MS = 30_000;
+const RELOAD_DEBOUNCE_MS = 500;  // One booking can be several status events
+
+type Notify = (message: string, type: 'info' | 'warning' | 'success') => void;
+
+export const usePortfolio = (enabled: boolean, onNotify: Notify) => {
+  const [items, setItems] = useState<PortfolioItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [offline, setOffline] = useState(false);
+  const [queued, setQueued] = useState(() => getOutbox().length);
+
+  const flushing = useRef(false);
+  const notify = useRef(onNotify);
+  notify.current = onNotify;
+
+  const replaceItem = (item: PortfolioItem) =>
+    setItems(prev => prev.map(i => i.id === item.id ? item : i));
+
+  // Server state with our unsent changes on top
+  const reload = useCallback(async () => {
+    try {
+      setItems(withPendingChanges(await fetchPortfolio()));
+      setOffline(false);
+    } catch (error) {
+      console.error('[Portfolio] Failed to load:', error);
+      setOffline(true);  // Keep showing what we have
+    }
+  }, []);
+
+  // Send queued changes, oldest first, until the queue is empty or the
+  // server stops answering
+  const flush = useCallback(async () => {
+    if (flushing.current) return;
+    flushing.current = true;
+    try {
+      for (let change = nextChange(); change; change = nextChange()) {
+        const result = await sendChange(change);
+        if (result.outcome === 'offline') {
+          settleChange(change.seq, false);
+          setOffline(true);
+          break;
+        }
+        settleChange(change.seq, true);
+        setOffline(false);
+
+        if (result.outcome === 'saved') {
+          const saved = result.item;
+          if (saved?.updatedAt) {
+            rebaseOutbox(saved.id, saved.updatedAt);
+            // Later edits still queued stay on screen; only the version moves on
+            const stillQueued = getOutbox().some(c => c.kind !== 'delete' && c.item.id === saved.id);
+            setItems(prev => prev.map(i =>
+              i.id !== saved.id ? i : stillQueued ? { ...i, updatedAt: saved.updatedAt } : saved
+            ));
+          }
+        } else if (result.outcome === 'conflict') {
+          discardQueued(result.item.id);
+          replaceItem(result.item);
+          notify.current(`${result.error} - showing their version`, 'warning');
+        } else {
+          notify.current(result.error, 'warning');
+          await reload();
+        }
+      }
+    } finally {
+      flushing.current = false;
+      setQueued(getOutbox().length);
+    }
+  }, [reload]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = await importLocalPortfolio();
+        if (result?.imported) {
+          notify.current(`Moved ${result.imported} item(s) saved in this browser to the shared portfolio`, 'success');
+        }
+        if (result?.skipped.length) {
+          const reasons = result.skipped.map(s => `${s.id}: ${s.reason}`).join('; ');
+          notify.current(`${result.skipped.length} item(s) kept in this browser, not moved (${reasons})`, 'warning');
+        }
+      } catch (error) {
+        // Left in place - tried again next load
+        console.error('[Portfolio] Browser import failed:', error);
+      }
+      await flush();
+      if (!cancelled) {
+        await reload();
+        setLoading(false);
+      }
+    })();
+
+    const retry = () => { flush().then(reload); };
+    const interval = setInterval(() => {
+      if (getOutbox().length > 0) retry();
+    }, RETRY_INTERVAL_MS);
+    window.addEventListener('online', retry);
+    window.addEventListener('focus', reload);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      window.removeEventListener('online', retry);
+      window.removeEventListener('focus', reload);
+    };
+  }, [enabled, flush, reload]);
+
+  const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useServerEvents(['reservation.status', 'resync'], () => {
+    if (reloadTimer.current) clearTimeout(reloadTimer.current);
+    reloadTimer.current = setTimeout(() => {
+      reloadTimer.current = null;
+      reload();
+    }, RELOAD_DEBOUNCE_MS);
+  }, enabled);
+
+  const queue = (change: PortfolioChange) => {
+    enqueueChange(change);
+    setQueued(getOutbox().length);
+    flush();
+  };
+
+  const addItem = (item: PortfolioItem) => {
+    setItems(prev => [item, ...prev]);
+    queue({ kind: 'create', item });
+  };
+
+  const updateItem = (item: PortfolioItem) => {
+    replaceItem(item);
+    queue({ kind: 'update', item });
+  };
+
+  const deleteItem = (itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    setItems(prev => prev.filter(i => i.id !== itemId));
+    queue({ kind: 'delete', itemId, restaurantName: item?.restaurantName || itemId });
+  };
+
+  return { items, loading, offline, queued, addItem, updateItem, deleteItem, reload };
+};
@@ -0,0 +1,29 @@
+/**
+ * useServerEvents - react to live server events (see services/serverEvents.ts)
+ *
+ *   useServerEvents(['reservation.status', 'resync'], () => fetchTransfers());
+ *
+ * The handler may change every render; only `types` and `enabled`
+ * re-subscribe. Pass enabled=false while signed out.
+ */
+
+import { useEffect, useRef } from 'react';
+import { subscribe, StreamEvent } from '../services/serverEvents';
+
+export const useServerEvents = (
+  types: StreamEvent['type'][],
+  handler: (event: StreamEvent) => void,
+  enabled = true
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const key = types.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+    const wanted = new Set(key.split(','));
+    return subscribe(event => {
+      if (wanted.has(event.type)) handlerRef.current(event);
+    });
+  }, [key, enabled]);
+};
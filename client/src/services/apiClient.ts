@@ -0,0 +1,106 @@
+/**
+ * API Client
+ *
+ * Session handling for the dashboard: login/logout, the stored bearer
+ * token, and apiFetch() - a drop-in fetch() that authenticates every
+ * request and signs the user out when the server says the session is gone.
+ */
+
+import { API_BASE } from '../config';
+import { Role, Permission, hasPermission } from '@shared/permissions';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface AuthUser {
+  id: number;
+  email: string;
+  name?: string;
+  role: Role;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
+}
+
+const SESSION_KEY = 'auth_session';
+
+// Fired when a request comes back 401 - App returns to the login screen
+export const AUTH_EXPIRED_EVENT = 'auth:expired';
+
+// ==========================================
+// SESSION STORAGE
+// ==========================================
+
+export const getSession = (): AuthSession | null => {
+  const saved = localStorage.getItem(SESSION_KEY);
+  if (!saved) return null;
+  try {
+    const session: AuthSession = JSON.parse(saved);
+    return new Date(session.expiresAt) > new Date() ? session : null;
+  } catch {
+    return null;
+  }
+};
+
+const clearSession = () => localStorage.removeItem(SESSION_KEY);
+
+/**
+ * Whether the signed-in user's role allows an action (for hiding UI -
+ * the server enforces the same rules)
+ */
+export const can = (permission: Permission): boolean => {
+  const session = getSession();
+  return session ? hasPermission(session.user.role, permission) : false;
+};
+
+// ==========================================
+// REQUESTS
+// ==========================================
+
+/**
+ * fetch() with the session token attached. X-Client lets the audit log
+ * tell dashboard actions apart from direct API calls.
+ */
+export const apiFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const session = getSession();
+  const headers = new Headers(init.headers);
+  headers.set('X-Client', 'dashboard');
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.token}`);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && session) {
+    clearSession();
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+  return response;
+};
+
+export const login = async (email: string, password: string): Promise<AuthSession> => {
+  const response = await fetch(`${API_BASE}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || 'Login failed');
+  }
+
+  const session: AuthSession = { token: data.token, expiresAt: data.expiresAt, user: data.user };
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  return session;
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    await apiFetch(`${API_BASE}/auth/logout`, { method: 'POST' });
+  } finally {
+    clearSession();
+  }
+};
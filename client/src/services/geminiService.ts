@@ -1,4 +1,5 @@
 import { Restaurant, MarketInsight, ChartDataPoint, Source } from "../types";
+import { apiFetch } from './apiClient';
 
 // API endpoints
 const V2_API_URL = 'http://localhost:3000/api/v2/market';
@@ -41,7 +42,7 @@ export const scanCity = async (city: string, options: FetchOptions = {}): Promis
     });
 
     console.log(`[MarketV2] Scanning ${city}...`);
-    const response = await fetch(`${V2_API_URL}/scan?${params}`);
+    const response = await apiFetch(`${V2_API_URL}/scan?${params}`);
     
     if (!response.ok) throw new Error('Scan failed');
     
@@ -80,7 +81,7 @@ export const listRestaurants = async (options: FetchOptions & { city?: string; c
     if (options.minValue) params.set('minValue', String(options.minValue));
     if (options.maxValue) params.set('maxValue', String(options.maxValue));
 
-    const response = await fetch(`${V2_API_URL}/list?${params}`);
+    const response = await apiFetch(`${V2_API_URL}/list?${params}`);
     
     if (!response.ok) throw new Error('List failed');
     
@@ -102,7 +103,7 @@ export const listRestaurants = async (options: FetchOptions & { city?: string; c
  */
 export const getCities = async (): Promise<{ city: string; restaurant_count: number; last_scan: string }[]> => {
   try {
-    const response = await fetch(`${V2_API_URL}/cities`);
+    const response = await apiFetch(`${V2_API_URL}/cities`);
     if (!response.ok) return [];
     const data = await response.json();
     return data.cities || [];
@@ -150,7 +151,7 @@ export const fetchTopRestaurants = async (city: string): Promise<Restaurant[]> =
  */
 export const fetchMarketInsight = async (restaurantName: string, city: string): Promise<MarketInsight | null> => {
   try {
-    const response = await fetch(`${AI_API_URL}/insight?restaurant=${encodeURIComponent(restaurantName)}&city=${encodeURIComponent(city)}`);
+    const response = await apiFetch(`${AI_API_URL}/insight?restaurant=${encodeURIComponent(restaurantName)}&city=${encodeURIComponent(city)}`);
     if (!response.ok) throw new Error('Failed to fetch insight');
     return await response.json();
   } catch (error) {
@@ -166,7 +167,7 @@ export const generateTrendData = async (restaurantName: string, restaurantId?: n
     try {
         // If we have a restaurant ID, try to get real history from DB
         if (restaurantId) {
-          const dbResponse = await fetch(`${DB_API_URL}/${restaurantId}/history`);
+          const dbResponse = await apiFetch(`${DB_API_URL}/${restaurantId}/history`);
           if (dbResponse.ok) {
             const dbData = await dbResponse.json();
             if (dbData && dbData.length > 0) {
@@ -177,7 +178,7 @@ export const generateTrendData = async (restaurantName: string, restaurantId?: n
         }
 
         // Fallback to Gemini-generated trend data
-        const response = await fetch(`${AI_API_URL}/trend?restaurant=${encodeURIComponent(restaurantName)}`);
+        const response = await apiFetch(`${AI_API_URL}/trend?restaurant=${encodeURIComponent(restaurantName)}`);
         if (!response.ok) throw new Error('Failed to fetch trend data');
         return await response.json();
     } catch (error) {
@@ -0,0 +1,243 @@
+/**
+ * Portfolio API
+ *
+ * The portfolio lives on the server (/api/portfolio); this is the client
+ * side of keeping the dashboard in step with it:
+ * - changes are queued in an outbox (localStorage) and sent one at a time,
+ *   so nothing is lost while the server is unreachable
+ * - every update carries the updatedAt it was made from; the server
+ *   refuses it (409 conflict) if someone else changed the item since
+ * - items this browser kept in localStorage before the server was the
+ *   source of truth are imported once
+ *
+ * usePortfolio() drives it and holds the optimistic state.
+ */
+
+import { PORTFOLIO_API } from '../config';
+import { apiFetch } from './apiClient';
+import { PortfolioItem } from '../../types';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export type PortfolioChange =
+  | { kind: 'create'; item: PortfolioItem }
+  | { kind: 'update'; item: PortfolioItem }
+  | { kind: 'delete'; itemId: string; restaurantName: string };
+
+export type QueuedChange = PortfolioChange & { seq: number };
+
+export type SendResult =
+  | { outcome: 'saved'; item?: PortfolioItem }                    // item: the server's copy (none after a delete)
+  | { outcome: 'conflict'; item: PortfolioItem; error: string }   // Someone else changed it first
+  | { outcome: 'rejected'; error: string }                        // The server won't take it (gone, invalid, forbidden)
+  | { outcome: 'offline' };                                       // Unreachable or failing - try again later
+
+const OUTBOX_KEY = 'portfolio_outbox';
+const LEGACY_KEY = 'reservation_portfolio';
+
+const changeItemId = (change: PortfolioChange) => change.kind === 'delete' ? change.itemId : change.item.id;
+
+// ==========================================
+// OUTBOX
+// ==========================================
+
+export const getOutbox = (): QueuedChange[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveOutbox = (outbox: QueuedChange[]) => {
+  if (outbox.length === 0) {
+    localStorage.removeItem(OUTBOX_KEY);
+  } else {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  }
+};
+
+// The change being sent right now - never folded into, or a later edit
+// would be dropped along with it once it's done
+let sendingSeq: number | null = null;
+
+/**
+ * Queue a change, folded into what's already waiting for the same item:
+ * an edit to an unsent create stays a create, repeated edits keep the
+ * latest, and deleting an unsent item sends nothing at all
+ */
+export const enqueueChange = (change: PortfolioChange): void => {
+  const outbox = getOutbox();
+  const id = changeItemId(change);
+  const seq = Math.max(0, ...outbox.map(c => c.seq)) + 1;
+  const waiting = outbox.find(c => changeItemId(c) === id && c.seq !== sendingSeq);
+
+  if (!waiting) {
+    outbox.push({ ...change, seq });
+  } else if (change.kind === 'delete') {
+    outbox.splice(outbox.indexOf(waiting), 1);
+    if (waiting.kind !== 'create') outbox.push({ ...change, seq });
+  } else if (waiting.kind !== 'delete') {
+    // Edits keep the version the first queued edit was based on
+    outbox[outbox.indexOf(waiting)] = {
+      kind: waiting.kind,
+      item: { ...change.item, updatedAt: waiting.item.updatedAt },
+      seq: waiting.seq,
+    };
+  }
+  saveOutbox(outbox);
+};
+
+/**
+ * The oldest queued change, marked as being sent
+ */
+export const nextChange = (): QueuedChange | null => {
+  const next = getOutbox()[0] || null;
+  sendingSeq = next?.seq ?? null;
+  return next;
+};
+
+/**
+ * Done sending a change: drop it once handled, keep it to retry
+ */
+export const settleChange = (seq: number, handled: boolean): void => {
+  sendingSeq = null;
+  if (handled) saveOutbox(getOutbox().filter(c => c.seq !== seq));
+};
+
+/**
+ * Forget queued edits to an item (someone else's version won)
+ */
+export const discardQueued = (itemId: string): void => {
+  saveOutbox(getOutbox().filter(c => c.kind !== 'update' || c.item.id !== itemId));
+};
+
+/**
+ * Point queued edits at a newer server version of the item (after one of
+ * our own changes to it was saved)
+ */
+export const rebaseOutbox = (itemId: string, updatedAt: string): void => {
+  saveOutbox(getOutbox().map(c =>
+    c.kind === 'update' && c.item.id === itemId ? { ...c, item: { ...c.item, updatedAt } } : c
+  ));
+};
+
+/**
+ * Server items with the changes still waiting in the outbox applied on top
+ */
+export const withPendingChanges = (items: PortfolioItem[], outbox: PortfolioChange[] = getOutbox()): PortfolioItem[] => {
+  let result = [...items];
+  for (const change of outbox) {
+    if (change.kind === 'delete') {
+      result = result.filter(i => i.id !== change.itemId);
+    } else if (result.some(i => i.id === change.item.id)) {
+      result = result.map(i => i.id === change.item.id ? { ...change.item, updatedAt: i.updatedAt } : i);
+    } else {
+      result = [change.item, ...result];
+    }
+  }
+  return result;
+};
+
+// ==========================================
+// SERVER
+// ==========================================
+
+export const fetchPortfolio = async (): Promise<PortfolioItem[]> => {
+  const res = await apiFetch(PORTFOLIO_API);
+  if (!res.ok) throw new Error(`Failed to load portfolio (${res.status})`);
+  return res.json();
+};
+
+/**
+ * Send one queued change
+ */
+export const sendChange = async (change: PortfolioChange): Promise<SendResult> => {
+  let res: Response;
+  try {
+    if (change.kind === 'create') {
+      res = await apiFetch(PORTFOLIO_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change.item),
+      });
+    } else if (change.kind === 'update') {
+      res = await apiFetch(`${PORTFOLIO_API}/${encodeURIComponent(change.item.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change.item),
+      });
+    } else {
+      res = await apiFetch(`${PORTFOLIO_API}/${encodeURIComponent(change.itemId)}`, { method: 'DELETE' });
+    }
+  } catch {
+    return { outcome: 'offline' };
+  }
+
+  const data = await res.json().catch(() => ({}));
+  if (res.ok) {
+    return { outcome: 'saved', item: change.kind === 'delete' ? undefined : data };
+  }
+  if (res.status >= 500 || res.status === 401) {
+    return { outcome: 'offline' };  // Retried once the server (or a new session) is back
+  }
+
+  // A create that already went through (its response was lost) is done
+  if (res.status === 409 && data.code === 'exists') return { outcome: 'saved', item: data.item };
+  if (res.status === 409 && data.code === 'conflict') return { outcome: 'conflict', item: data.item, error: data.error };
+  // Deleting something that's already gone is done too
+  if (res.status === 404 && change.kind === 'delete') return { outcome: 'saved' };
+
+  return { outcome: 'rejected', error: data.error || `Server refused the change (${res.status})` };
+};
+
+// ==========================================
+// ONE-TIME IMPORT
+// ==========================================
+
+export interface LocalImportResult {
+  imported: number;
+  skipped: { id: string; reason: string }[];  // Still only in this browser
+}
+
+/**
+ * Move items this browser kept in localStorage to the server. The demo
+ * seed rows (seed-*) are left behind; items the server skipped stay in
+ * localStorage so they aren't lost. Null when there was nothing to import.
+ */
+export const importLocalPortfolio = async (): Promise<LocalImportResult | null> => {
+  const saved = localStorage.getItem(LEGACY_KEY);
+  if (!saved) return null;
+
+  let items: PortfolioItem[];
+  try {
+    items = JSON.parse(saved).filter((item: PortfolioItem) => !item.id.startsWith('seed-'));
+  } catch {
+    localStorage.removeItem(LEGACY_KEY);
+    return null;
+  }
+
+  if (items.length > 0) {
+    const res = await apiFetch(`${PORTFOLIO_API}/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ items }),
+    });
+    if (!res.ok) throw new Error(`Portfolio import failed (${res.status})`);
+    const data = await res.json();
+    const skipped: LocalImportResult['skipped'] = data.skipped || [];
+    const skippedIds = new Set(skipped.map(s => s.id));
+    const kept = items.filter(item => skippedIds.has(item.id));
+    if (kept.length > 0) {
+      localStorage.setItem(LEGACY_KEY, JSON.stringify(kept));
+    } else {
+      localStorage.removeItem(LEGACY_KEY);
+    }
+    return { imported: data.imported.length, skipped };
+  }
+
+  localStorage.removeItem(LEGACY_KEY);
+  return { imported: 0, skipped: [] };
+};
@@ -0,0 +1,129 @@
+/**
+ * Server Events
+ *
+ * One shared connection to GET /api/events for the whole dashboard;
+ * components listen through useServerEvents(). Read with fetch() rather
+ * than EventSource so the session token goes in the Authorization header
+ * like every other request, not in the URL.
+ *
+ * - Connects when the first listener subscribes, disconnects after the last
+ * - Reconnects with backoff and sends Last-Event-ID, so the server replays
+ *   what was missed - or sends 'resync' when it can't, and listeners reload
+ */
+
+import { EVENTS_API } from '../config';
+import { apiFetch } from './apiClient';
+import { RESYNC_EVENT, ServerEvent } from '@shared/serverEvents';
+
+export type StreamEvent = ServerEvent | { type: typeof RESYNC_EVENT };
+export type StreamListener = (event: StreamEvent) => void;
+
+const MAX_RETRY_MS = 30 * 1000;
+
+const listeners = new Set<StreamListener>();
+let controller: AbortController | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let lastEventId: string | null = null;
+let retryMs = 3000;     // The server's suggestion (its 'retry:' field)
+let failures = 0;
+
+const dispatch = (event: StreamEvent) => {
+  for (const listener of listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[ServerEvents] Listener failed:', error);
+    }
+  }
+};
+
+// One "field: value" block of the stream
+const handleBlock = (block: string) => {
+  let type = 'message';
+  let data = '';
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue;  // Heartbeat
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'id') lastEventId = value;
+    else if (field === 'event') type = value;
+    else if (field === 'data') data += value;
+    else if (field === 'retry' && Number(value) > 0) retryMs = Number(value);
+  }
+
+  if (type === RESYNC_EVENT) {
+    dispatch({ type: RESYNC_EVENT });
+  } else if (data) {
+    dispatch(JSON.parse(data) as ServerEvent);
+  }
+};
+
+const scheduleReconnect = () => {
+  if (listeners.size === 0 || reconnectTimer) return;
+  const delay = Math.min(retryMs * 2 ** failures, MAX_RETRY_MS);
+  failures++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+};
+
+const connect = async () => {
+  if (controller || listeners.size === 0) return;
+  const current = new AbortController();
+  controller = current;
+
+  try {
+    const res = await apiFetch(EVENTS_API, {
+      headers: lastEventId ? { 'Last-Event-ID': lastEventId } : {},
+      signal: current.signal,
+    });
+    // Signed out or not allowed: wait for the next subscriber (a new login)
+    if (res.status === 401 || res.status === 403) {
+      controller = null;
+      return;
+    }
+    if (!res.ok || !res.body) throw new Error(`Event stream failed (${res.status})`);
+
+    failures = 0;
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+      let end: number;
+      while ((end = buffer.indexOf('\n\n')) !== -1) {
+        handleBlock(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+      }
+    }
+  } catch (error) {
+    if (current.signal.aborted) return;
+    console.warn('[ServerEvents] Connection lost:', error);
+  }
+
+  if (controller === current) {
+    controller = null;
+    scheduleReconnect();
+  }
+};
+
+/**
+ * Listen to server events; returns the unsubscribe function
+ */
+export const subscribe = (listener: StreamListener): (() => void) => {
+  listeners.add(listener);
+  connect();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    controller?.abort();
+    controller = null;
+  };
+};
@@ -1,3 +1,6 @@
+import type { DropRule } from '@shared/dropRules';
+import type { ReservationStatus } from '@shared/reservationLifecycle';
+
 
 export interface Source {
   title: string;
@@ -36,6 +39,7 @@ export interface MarketInsight {
   nextDropTime?: string; // Time: "10:00"
   dropTimezone?: string; // IANA timezone: "America/Los_Angeles"
   dropPattern?: string; // Human-readable: "Monthly on the 1st at 10:00 AM PST"
+  dropRule?: DropRule | null; // Structured form of dropPattern
 }
 
 export enum City {
@@ -54,7 +58,8 @@ export interface ChartDataPoint {
   volume: number;
 }
 
-export type AssetStatus = 'WATCHING' | 'ACQUIRED' | 'LISTED' | 'PENDING' | 'SOLD' | 'TRANSFERRED';
+// One lifecycle for portfolio items and transfers (see shared/reservationLifecycle.ts)
+export type AssetStatus = ReservationStatus;
 
 export interface PortfolioItem {
   id: string;
@@ -73,9 +78,12 @@ export interface PortfolioItem {
   nextDropDate?: string; // ISO date: "2024-12-01"
   nextDropTime?: string; // Time: "10:00"
   dropTimezone?: string; // IANA timezone: "America/Los_Angeles"
+  dropRule?: DropRule | null; // Recurring rule - next drop rolls forward automatically
   // Resy integration fields
   venueId?: number; // Resy venue ID for direct API booking
   bookingUrl?: string; // Direct booking URL
+  confirmationNumber?: string; // Set once booked
+  updatedAt?: string; // Server version - edits based on an older one conflict
 }
 
 // Resy API types
@@ -219,7 +227,7 @@ export interface ClientStats {
 }
 
 // Transfer Workflow Types
-export type TransferStatus = 'ACQUIRED' | 'LISTED' | 'SOLD' | 'TRANSFER_PENDING' | 'TRANSFERRED' | 'COMPLETED';
+export type TransferStatus = Exclude<ReservationStatus, 'WATCHING' | 'PENDING_CONFIRMATION'>;
 export type TransferMethod = 'NAME_CHANGE' | 'CANCEL_REBOOK' | 'PLATFORM_TRANSFER' | 'SHOW_UP_TOGETHER';
 export type BookingType = 'standard' | 'concierge' | 'speculative';
 
@@ -267,10 +275,72 @@ export interface Transfer {
   client_id?: number;
   service_fee?: number;
   
+  // Cancellation (deadline = end of the free-cancellation window)
+  cancellation_fee?: number | null;
+  cancellation_deadline?: string | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  cancellation_fee_charged?: number | null;
+  
+  // Platform sync
+  platform_seen_at?: string | null;
+  platform_missing_since?: string | null;  // No longer on the platform account
+  imported_at?: string | null;             // Booked outside the app
+  
   created_at: string;
   updated_at: string;
 }
 
+// Reservation Sync Types (platform accounts vs. tracked transfers)
+export interface ReconciledReservation {
+  platform: string;
+  confirmationCode: string;
+  restaurantName: string;
+  date: string;
+  time: string;
+  partySize: number;
+  account: string | null;
+  transferId: number | null;
+  portfolioItemId: string | null;
+}
+
+export interface ReconciliationReport {
+  id: number | null;
+  trigger: 'schedule' | 'manual';
+  triggeredBy: string | null;
+  startedAt: string;
+  finishedAt: string;
+  accounts: { platform: string; account: string; identityId: number | null; listed: number; error?: string }[];
+  matched: ReconciledReservation[];
+  imported: ReconciledReservation[];
+  changed: (ReconciledReservation & { differences: { field: string; recorded: string; platform: string }[] })[];
+  missing: (ReconciledReservation & { status: TransferStatus; missingSince: string; newlyMissing: boolean })[];
+  uncheckedPlatforms: string[];
+  summary: string;
+}
+
+// A listing price, or a proposed drop (see server listingRepricing.ts)
+export interface ListingPriceChange {
+  id: number;
+  transferId: number;
+  kind: 'listed' | 'manual' | 'decay' | 'revert';
+  status: 'proposed' | 'applied' | 'rejected' | 'expired' | 'reverted';
+  oldPrice: number | null;
+  newPrice: number;
+  stepHours: number | null;
+  revertsId: number | null;
+  details: {
+    percentOff: number;
+    limitedBy: 'schedule' | 'market' | 'floor';
+    floor: number;
+    market: { cheapest: number; average: number; activeListings: number } | null;
+  } | null;
+  requestedBy: string;
+  decidedBy: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+}
+
 export interface ATListing {
   title: string;
   description: string;
@@ -284,3 +354,23 @@ export interface TransferStats {
   by_platform: Record<string, { count: number; revenue: number }>;
   by_status: Record<string, number>;
 }
+
+export type AuditSource = 'dashboard' | 'api' | 'telegram' | 'scheduler' | 'cli' | 'system';
+
+export interface AuditEvent {
+  id: number;
+  occurred_at: string;
+  action: string;              // e.g. 'acquisition.drop', 'transfer.sold'
+  outcome: 'success' | 'failure' | 'info';
+  source: AuditSource;
+  actor: string;
+  actor_user_id?: number;
+  platform?: string;
+  portfolio_item_id?: string;
+  client_id?: number;
+  transfer_id?: number;
+  identity_id?: number;
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  error?: string;
+}
@@ -9,12 +9,18 @@ export default defineConfig(({ mode }) => {
         // Let Vite choose the port to avoid permission issues
         // port: 3005, 
         // host: '0.0.0.0', 
+        fs: {
+          // Allow serving ../server/src/shared (see "@shared" alias)
+          allow: [path.resolve(__dirname, '..')],
+        },
       },
       plugins: [react()],
       // Environment variables are automatically exposed via import.meta.env with VITE_ prefix
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // Code shared with the server (e.g. the drop time resolver)
+          '@shared': path.resolve(__dirname, '../server/src/shared'),
         }
       }
     };
@@ -0,0 +1,88 @@
+/**
+ * Express app - routes and middleware, without listening.
+ * index.ts starts the server; tests mount this on an ephemeral port.
+ */
+
+import express from 'express';
+import cors from 'cors';
+
+import marketRoutes from './routes/market';
+import marketV2Routes from './routes/marketV2';
+import portfolioRoutes from './routes/portfolio';
+import restaurantRoutes from './routes/restaurants';
+import sniperRoutes from './routes/sniper';
+import identityRoutes from './routes/identities';
+import transferRoutes from './routes/transfers';
+import reservationRoutes from './routes/reservations';
+import analyticsRoutes from './routes/analytics';
+import notificationRoutes from './routes/notifications';
+import clientRoutes from './routes/clients';  // Concierge client management
+import authRoutes from './routes/auth';
+import auditRoutes from './routes/audit';
+import jobRoutes from './routes/jobs';
+import eventRoutes from './routes/events';
+import { requireAuth, authorize } from './middleware/auth';
+
+const app = express();
+
+// CORS_ORIGINS: comma-separated allow-list (unset = any origin, for local dev)
+const corsOrigins = process.env.CORS_ORIGINS?.split(',').map(o => o.trim()).filter(Boolean);
+app.use(cors(corsOrigins?.length ? { origin: corsOrigins } : undefined));
+app.use(express.json());
+
+// Health Check
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok', message: 'The Engine is Online', timestamp: new Date().toISOString() });
+});
+
+// Login (public) and user management
+app.use('/api/auth', authRoutes);
+
+// Everything below needs a session
+app.use('/api', requireAuth);
+
+// Permissions: GETs need 'read' unless noted, writes need the router's
+// permission (see shared/permissions.ts for which roles have what)
+app.use('/api/market', authorize({ write: 'analytics:manage' }));
+app.use('/api/v2/market', authorize({ write: 'analytics:manage' }));
+app.use('/api/portfolio', authorize({ write: 'portfolio:manage' }));
+app.use('/api/restaurants', authorize({ write: 'analytics:manage' }));
+app.use('/api/sniper', authorize({
+  write: 'sniper:execute',
+  overrides: { 'POST /drop-rules/preview': 'read' },
+}));
+app.use('/api/identities', authorize({ read: 'identities:read', write: 'identities:manage' }));
+app.use('/api/transfers', authorize({ write: 'transfers:manage' }));
+app.use('/api/reservations', authorize({ write: 'portfolio:manage' }));  // Booked ones also need transfers:manage
+app.use('/api/analytics', authorize({
+  write: 'analytics:manage',
+  overrides: {
+    'POST /pricing/suggest': 'read',
+    'POST /templates/': 'read',
+    'GET /validate': 'identities:read',
+    'POST /validate': 'identities:manage',
+  },
+}));
+app.use('/api/notifications', authorize({ write: 'notifications:send' }));
+app.use('/api/clients', authorize({ write: 'clients:manage' }));
+app.use('/api/audit', authorize({ write: 'users:manage' }));
+app.use('/api/jobs', authorize({ write: 'jobs:manage' }));
+app.use('/api/events', authorize({ write: 'users:manage' }));  // Read-only stream; events filtered per role
+
+// Routes
+app.use('/api/market', marketRoutes);        // Legacy: Gemini-based (for backwards compatibility)
+app.use('/api/v2/market', marketV2Routes);   // V2: Full data pipeline with DB persistence
+app.use('/api/portfolio', portfolioRoutes);  // Portfolio management
+app.use('/api/restaurants', restaurantRoutes); // Database-backed restaurant data
+app.use('/api/sniper', sniperRoutes);        // Phase 3: Sniper automation system
+app.use('/api/identities', identityRoutes);  // Multi-identity management
+app.use('/api/transfers', transferRoutes);   // Transfer & AT listing workflow
+app.use('/api/reservations', reservationRoutes);  // Portfolio item + transfer lifecycle, status history
+app.use('/api/analytics', analyticsRoutes);  // Phase 2+3: Pricing, patterns, competition, templates
+app.use('/api/notifications', notificationRoutes);  // Telegram & notification services
+app.use('/api/clients', clientRoutes);       // Concierge model: client management & booking requests
+app.use('/api/audit', auditRoutes);          // Append-only audit trail (read-only)
+app.use('/api/jobs', jobRoutes);             // Built-in recurring jobs: status, run now, schedules
+app.use('/api/events', eventRoutes);         // Live updates for the dashboard (Server-Sent Events)
+
+export default app;
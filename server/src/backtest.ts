@@ -0,0 +1,101 @@
+/**
+ * Pricing Backtest CLI
+ *
+ * Usage:
+ *   npm run backtest -- run <name> [config.json] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--dry-run]
+ *   npm run backtest -- list                Stored backtests, newest first
+ *   npm run backtest -- show <id>           One stored backtest, per restaurant
+ *
+ * config.json holds only the multipliers to change, e.g.
+ *   { "dayMultipliers": { "5": 1.5 }, "timePremiums": { "prime": 1.4 } }
+ * Without one, the current config is replayed (the baseline to compare
+ * candidates with). Runs are stored unless --dry-run; compare them in
+ * the dashboard (Analytics → Pricing backtests).
+ */
+
+import fs from 'fs';
+import pool from './db';
+import pricingBacktest, { BacktestRun } from './services/pricingBacktest';
+
+const option = (args: string[], name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const money = (value: number) => `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const printRun = (run: BacktestRun) => {
+  const { results } = run;
+  const period = run.periodFrom || run.periodTo ? ` (listed ${run.periodFrom || '…'} to ${run.periodTo || '…'})` : '';
+  console.log(`${run.id ? `#${run.id} ` : ''}${run.name}${period}: ${results.listings} listings`);
+  console.log(`               Realized      Candidate`);
+  console.log(`  Revenue      ${money(results.realized.revenue).padEnd(13)} ${money(results.candidate.revenue)} (${results.revenueChange >= 0 ? '+' : ''}${money(results.revenueChange)})`);
+  console.log(`  Sold         ${String(results.realized.sold).padEnd(13)} ${results.candidate.sold}`);
+  console.log(`  Sell-through ${percent(results.realized.sellThroughRate).padEnd(13)} ${percent(results.candidate.sellThroughRate)}`);
+  console.log(`  Days to sell ${String(results.realized.avgDaysToSell ?? '-').padEnd(13)} ${results.candidate.avgDaysToSell ?? '-'}`);
+  const listingError = results.realized.listingError;
+  const priceError = results.candidate.priceError;
+  console.log(`  Error (MAPE) ${(listingError ? percent(listingError.mape) : '-').padEnd(13)} ${priceError ? percent(priceError.mape) : '-'}`);
+  console.log(`  Bias         ${(listingError ? money(listingError.bias) : '-').padEnd(13)} ${priceError ? money(priceError.bias) : '-'}`);
+  if (results.candidate.uncertain > 0) {
+    console.log(`  ⚠️  ${results.candidate.uncertain} unsold listing(s) priced lower by the candidate - they might have sold`);
+  }
+};
+
+async function main() {
+  const [command = 'list', ...args] = process.argv.slice(2);
+
+  if (!pool) {
+    throw new Error('Database pool not initialized. Check NEON_DATABASE_URL.');
+  }
+
+  switch (command) {
+    case 'run': {
+      const [name, configFile] = args.filter((arg, i) => !arg.startsWith('--') && !['--from', '--to'].includes(args[i - 1]));
+      if (!name) throw new Error('Usage: run <name> [config.json] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--dry-run]');
+
+      const run = await pricingBacktest.run({
+        name,
+        config: configFile ? JSON.parse(fs.readFileSync(configFile, 'utf8')) : undefined,
+        from: option(args, '--from'),
+        to: option(args, '--to'),
+        runBy: process.env.USER || 'cli',
+        save: !args.includes('--dry-run'),
+      });
+      printRun(run);
+      break;
+    }
+
+    case 'list': {
+      const runs = await pricingBacktest.list();
+      if (runs.length === 0) console.log('No backtests yet - npm run backtest -- run baseline');
+      for (const run of runs) {
+        const { results } = run;
+        console.log(`#${run.id}  ${run.createdAt.slice(0, 10)}  ${run.name.padEnd(24)} ${money(results.candidate.revenue).padStart(9)}  ${percent(results.candidate.sellThroughRate).padStart(6)} sold  ${results.candidate.priceError ? percent(results.candidate.priceError.mape) : '-'} error`);
+      }
+      break;
+    }
+
+    case 'show': {
+      const run = await pricingBacktest.get(parseInt(args[0]));
+      if (!run) throw new Error(`No backtest #${args[0]}`);
+      printRun(run);
+      console.log('');
+      for (const r of run.results.byRestaurant) {
+        console.log(`  ${r.restaurantName.padEnd(28)} ${r.listings} listed   ${r.realizedSold} → ${r.candidateSold} sold   ${money(r.realizedRevenue)} → ${money(r.candidateRevenue)}`);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" - expected run, list or show`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.end());
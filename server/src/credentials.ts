@@ -0,0 +1,68 @@
+/**
+ * Credential Encryption CLI
+ *
+ * Usage:
+ *   npm run credentials -- status         Count stored secrets per master key
+ *   npm run credentials -- reencrypt      Encrypt plaintext / re-wrap under the current key
+ *   npm run credentials -- generate-key   Print a new random master key
+ *
+ * Rotating the master key:
+ *   1. generate-key, set it as CREDENTIAL_ENCRYPTION_KEY
+ *   2. move the previous key to CREDENTIAL_ENCRYPTION_OLD_KEYS
+ *   3. reencrypt, then check status shows only the new key id
+ *   4. remove the old key from CREDENTIAL_ENCRYPTION_OLD_KEYS
+ */
+
+import crypto from 'crypto';
+import pool from './db';
+import credentialVault from './services/credentialVault';
+import auditLog from './services/auditLog';
+
+async function main() {
+  const [command = 'status'] = process.argv.slice(2);
+
+  if (command === 'generate-key') {
+    console.log(crypto.randomBytes(32).toString('base64'));
+    return;
+  }
+
+  if (!pool) {
+    throw new Error('Database pool not initialized. Check NEON_DATABASE_URL.');
+  }
+
+  switch (command) {
+    case 'status': {
+      const status = await credentialVault.getStatus();
+      console.log(`Current key: ${status.currentKeyId ?? '(CREDENTIAL_ENCRYPTION_KEY not set)'}`);
+      console.log(`Stored secrets: ${status.values.total}`);
+      console.log(`  ${status.values.plaintext ? '⚠️ ' : '✅'} plaintext: ${status.values.plaintext}`);
+      for (const [keyId, count] of Object.entries(status.values.byKey)) {
+        const marker = keyId === status.currentKeyId ? '✅' : '⏳';
+        console.log(`  ${marker} key ${keyId}: ${count}`);
+      }
+      break;
+    }
+
+    case 'reencrypt': {
+      const result = await credentialVault.reencryptAll();
+      console.log(`✅ Updated ${result.identities} identities (${result.encrypted} encrypted, ${result.rewrapped} re-wrapped)`);
+      await auditLog.record({
+        action: 'credentials.reencrypted',
+        outcome: 'success',
+        actor: { source: 'cli', actor: process.env.USER || 'cli' },
+        response: { ...result, keyId: credentialVault.currentKeyId() },
+      });
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" - expected status, reencrypt or generate-key`);
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.end());
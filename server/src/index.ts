@@ -1,46 +1,61 @@
-import express from 'express';
-import cors from 'cors';
 import dotenv from 'dotenv';
 import path from 'path';
 
 // Load environment variables from the root .env file
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
-import marketRoutes from './routes/market';
-import marketV2Routes from './routes/marketV2';
-import portfolioRoutes from './routes/portfolio';
-import restaurantRoutes from './routes/restaurants';
-import sniperRoutes from './routes/sniper';
-import identityRoutes from './routes/identities';
-import transferRoutes from './routes/transfers';
-import analyticsRoutes from './routes/analytics';
-import notificationRoutes from './routes/notifications';
-import clientRoutes from './routes/clients';  // Concierge client management
-
-const app = express();
+import app from './app';
+import pool from './db';
+import migrationRunner from './migrations/runner';
+import authService from './services/authService';
+import fulfillmentWorker from './services/fulfillmentWorker';
+import cancellationManager from './services/cancellationManager';
+import listingRepricing from './services/listingRepricing';
+import jobScheduler from './services/jobScheduler';
+
 const port = process.env.PORT || 3000;
 
-app.use(cors());
-app.use(express.json());
-
-// Routes
-app.use('/api/market', marketRoutes);        // Legacy: Gemini-based (for backwards compatibility)
-app.use('/api/v2/market', marketV2Routes);   // V2: Full data pipeline with DB persistence
-app.use('/api/portfolio', portfolioRoutes);  // Portfolio management
-app.use('/api/restaurants', restaurantRoutes); // Database-backed restaurant data
-app.use('/api/sniper', sniperRoutes);        // Phase 3: Sniper automation system
-app.use('/api/identities', identityRoutes);  // Multi-identity management
-app.use('/api/transfers', transferRoutes);   // Transfer & AT listing workflow
-app.use('/api/analytics', analyticsRoutes);  // Phase 2+3: Pricing, patterns, competition, templates
-app.use('/api/notifications', notificationRoutes);  // Telegram & notification services
-app.use('/api/clients', clientRoutes);       // Concierge model: client management & booking requests
-
-// Health Check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', message: 'The Engine is Online', timestamp: new Date().toISOString() });
-});
+async function start() {
+  // Bring the schema up to date before serving requests
+  if (pool && process.env.MIGRATE_ON_BOOT !== 'false') {
+    const applied = await migrationRunner.up();
+    if (applied.length > 0) {
+      console.log(`[Migrations] ✅ Applied ${applied.length} migration(s)`);
+    }
+  }
+
+  // First run: create the operator account from ADMIN_EMAIL / ADMIN_PASSWORD
+  if (pool) {
+    await authService.bootstrapAdmin();
+  }
+
+  // Daily summary, weekly P&L, monthly resets, credential checks, price updates
+  if (pool && process.env.JOBS_ON_BOOT !== 'false') {
+    await jobScheduler.start();
+  }
+
+  // Cancellation reminders and auto-release of unassigned reservations
+  if (pool && process.env.CANCELLATION_WATCH_ON_BOOT !== 'false') {
+    cancellationManager.start();
+  }
+
+  // Step unsold listings' prices down as their dates approach
+  if (pool && process.env.REPRICING_WATCH_ON_BOOT !== 'false') {
+    listingRepricing.start();
+  }
+
+  // Work client booking requests in the background (off unless asked for)
+  if (pool && process.env.FULFILLMENT_ON_BOOT === 'true') {
+    fulfillmentWorker.start();
+  }
+
+  app.listen(port, () => {
+    console.log(`Server running on http://localhost:${port}`);
+    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+  });
+}
 
-app.listen(port, () => {
-  console.log(`Server running on http://localhost:${port}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+start().catch(error => {
+  console.error('❌ Server failed to start:', error.message);
+  process.exit(1);
 });
@@ -0,0 +1,98 @@
+/**
+ * Auth Middleware
+ *
+ * requireAuth resolves the bearer token to a user; authorize() then checks
+ * the user's role against a per-router policy (see shared/permissions.ts).
+ *
+ * Routers stay unaware of auth - app.ts decides what each one needs:
+ *   app.use('/api/clients', authorize({ write: 'clients:manage' }), clientRoutes);
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import authService, { User } from '../services/authService';
+import { Permission, hasPermission } from '../shared/permissions';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      sessionToken?: string;
+    }
+  }
+}
+
+export interface RoutePolicy {
+  read?: Permission;                       // GET requests (default 'read')
+  write: Permission;                       // Everything else
+  overrides?: Record<string, Permission>;  // 'POST /pricing/suggest' → 'read' (that path and below; 'POST /templates/' only below)
+}
+
+/**
+ * Whether an override covers a lowercased "METHOD /path", matching whole
+ * path segments: 'POST /pricing/suggest' is not 'POST /pricing/suggestions'
+ */
+const overrideCovers = (key: string, route: string): boolean => {
+  const prefix = key.toLowerCase();
+  return prefix.endsWith('/') ? route.startsWith(prefix) : route === prefix || route.startsWith(`${prefix}/`);
+};
+
+const bearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+/**
+ * Reject requests without a valid session (401)
+ */
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  const token = bearerToken(req);
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const user = await authService.authenticate(token);
+    if (!user) {
+      return res.status(401).json({ error: 'Session expired or invalid' });
+    }
+    req.user = user;
+    req.sessionToken = token;
+    next();
+  } catch (error: any) {
+    console.error('[Auth] Error authenticating request:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+/**
+ * Reject users whose role lacks the permission (403)
+ */
+export const requirePermission = (permission: Permission): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: `Your role (${req.user.role}) cannot do this`, required: permission });
+    }
+    next();
+  };
+
+/**
+ * Pick the permission for this request from a router policy and check it
+ */
+export const authorize = (policy: RoutePolicy): RequestHandler =>
+  (req, res, next) => {
+    // Express routes ignore case, so overrides must too (GET /VALIDATE reaches GET /validate)
+    const route = `${req.method} ${req.path}`.toLowerCase();
+    const override = Object.entries(policy.overrides || {}).find(([key]) => overrideCovers(key, route));
+
+    const permission = override
+      ? override[1]
+      : req.method === 'GET' || req.method === 'HEAD'
+        ? policy.read || 'read'
+        : policy.write;
+
+    return requirePermission(permission)(req, res, next);
+  };
@@ -1,29 +1,67 @@
+/**
+ * Migration CLI
+ *
+ * Usage:
+ *   npm run migrate -- up [version]   Apply pending migrations (optionally up to a version)
+ *   npm run migrate -- status         List migrations and whether they are applied
+ *   npm run migrate -- down [steps]   Revert the last N applied migrations (default 1)
+ *
+ * The server also runs `up` on boot unless MIGRATE_ON_BOOT=false.
+ */
+
 import pool from './db';
-import fs from 'fs';
-import path from 'path';
-
-async function migrate() {
-  const client = await pool.connect();
-  try {
-    console.log('🚀 Starting migration...');
-    
-    const schemaPath = path.join(__dirname, 'schema.sql');
-    const sql = fs.readFileSync(schemaPath, 'utf8');
-
-    await client.query('BEGIN');
-    await client.query(sql);
-    await client.query('COMMIT');
-
-    console.log('✅ Migration completed successfully.');
-  } catch (err) {
-    await client.query('ROLLBACK');
-    console.error('❌ Migration failed:', err);
-    process.exit(1);
-  } finally {
-    client.release();
-    await pool.end();
+import migrationRunner, { MigrationState } from './migrations/runner';
+
+const STATE_ICONS: Record<MigrationState, string> = {
+  applied: '✅',
+  pending: '⏳',
+  modified: '⚠️ ',
+  unknown: '❓',
+};
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (!pool) {
+    throw new Error('Database pool not initialized. Check NEON_DATABASE_URL.');
   }
-}
 
-migrate();
+  switch (command) {
+    case 'up': {
+      const applied = await migrationRunner.up(arg);
+      console.log(applied.length
+        ? `✅ Applied ${applied.length} migration(s)`
+        : '✅ Database is up to date');
+      break;
+    }
+
+    case 'down': {
+      const steps = arg ? parseInt(arg) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid step count: ${arg}`);
+      }
+      const reverted = await migrationRunner.down(steps);
+      console.log(`✅ Reverted ${reverted.length} migration(s)`);
+      break;
+    }
+
+    case 'status': {
+      const statuses = await migrationRunner.status();
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? `  (${status.appliedAt.toISOString()})` : '';
+        console.log(`${STATE_ICONS[status.state]} ${status.version}_${status.name.padEnd(32)} ${status.state}${appliedAt}`);
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}" - expected up, status or down`);
+  }
+}
 
+main()
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.end());
@@ -0,0 +1,19 @@
+/**
+ * Migration 001: Initial Schema
+ *
+ * Portfolio items, restaurants, price history and the legacy market_data
+ * table, kept in ../schema.sql. Like every applied migration it is
+ * checksummed - schema changes belong in a new migration, not in schema.sql.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export const up = fs.readFileSync(path.join(__dirname, '../schema.sql'), 'utf8');
+
+export const down = `
+DROP TABLE IF EXISTS market_data;
+DROP TABLE IF EXISTS price_history;
+DROP TABLE IF EXISTS restaurants CASCADE;
+DROP TABLE IF EXISTS portfolio_items CASCADE;
+`;
@@ -120,6 +120,3 @@ DROP TABLE IF EXISTS confirmed_drop_patterns;
 -- ALTER TABLE portfolio_items DROP COLUMN IF EXISTS tock_slug;
 -- ALTER TABLE portfolio_items DROP COLUMN IF EXISTS target_date;
 `;
-
-export default { up, down };
-
@@ -172,31 +172,3 @@ DROP TABLE IF EXISTS at_listings;
 DROP TABLE IF EXISTS transfers;
 DROP TABLE IF EXISTS booking_identities;
 `;
-
-// Run migration
-import pool from '../db';
-
-export async function runMigration() {
-  if (!pool) {
-    throw new Error('Database pool not initialized');
-  }
-  const client = await pool.connect();
-  try {
-    console.log('[Migration 004] Starting multi-identity and transfers migration...');
-    await client.query(up);
-    console.log('[Migration 004] ✅ Migration completed successfully');
-  } catch (error: any) {
-    console.error('[Migration 004] ❌ Migration failed:', error.message);
-    throw error;
-  } finally {
-    client.release();
-  }
-}
-
-// Execute if run directly
-if (require.main === module) {
-  runMigration()
-    .then(() => process.exit(0))
-    .catch(() => process.exit(1));
-}
-
@@ -0,0 +1,59 @@
+/**
+ * Migration 006: Durable Drop Queue
+ *
+ * Moves the sniper scheduler's state out of process memory and into Postgres.
+ * Every armed drop becomes a row in scheduled_drops with:
+ * 1. An idempotency key per portfolio item + drop time (one job per drop, ever)
+ * 2. A lease (owner + expiry) so only one worker executes a drop
+ * 3. The prewarm/warning flags that used to be lost on restart
+ */
+
+export const up = `
+-- ============================================
+-- SCHEDULED DROPS TABLE
+-- One row per (portfolio item, drop time)
+-- ============================================
+CREATE TABLE IF NOT EXISTS scheduled_drops (
+  id SERIAL PRIMARY KEY,
+
+  -- What we're sniping
+  portfolio_item_id VARCHAR(255) NOT NULL REFERENCES portfolio_items(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL UNIQUE,  -- "<item id>@<drop time ISO>"
+  restaurant_name VARCHAR(255) NOT NULL,
+  platform VARCHAR(50) NOT NULL,
+  drop_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  trigger_type VARCHAR(20) DEFAULT 'drop_time',  -- 'drop_time', 'manual'
+
+  -- Job status workflow
+  status VARCHAR(20) DEFAULT 'PENDING',  -- PENDING -> RUNNING -> SUCCEEDED | FAILED | SKIPPED
+
+  -- Notification flags (survive restarts so we never double-warn)
+  warning_five_sent BOOLEAN DEFAULT false,
+  warning_one_sent BOOLEAN DEFAULT false,
+
+  -- Lease (who is executing, and until when the claim is valid)
+  lease_owner VARCHAR(255),
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+
+  -- Execution tracking
+  attempts INTEGER DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  result JSONB,
+  error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+CREATE INDEX IF NOT EXISTS idx_scheduled_drops_status_drop ON scheduled_drops(status, drop_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_drops_item ON scheduled_drops(portfolio_item_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_drops_lease ON scheduled_drops(lease_expires_at) WHERE status = 'RUNNING';
+`;
+
+export const down = `
+DROP TABLE IF EXISTS scheduled_drops;
+`;
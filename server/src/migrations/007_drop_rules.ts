@@ -0,0 +1,80 @@
+/**
+ * Migration 007: Recurring Drop Rules
+ *
+ * Makes drop schedules structured so next_drop_date can roll forward
+ * automatically instead of being hand-edited after every drop:
+ * 1. restaurants.drop_pattern TEXT -> JSONB (see shared/dropRules.ts)
+ *    Existing free text is kept as { kind: 'manual', description } and
+ *    then parsed into daily/weekly/monthly rules where possible
+ * 2. portfolio_items.drop_rule JSONB - items with a rule are re-armed for
+ *    the next drop by the scheduler after each execution
+ */
+
+import { parseDropPattern } from '../shared/dropRules';
+
+export const up = `
+-- ============================================
+-- RESTAURANTS: structured drop pattern
+-- ============================================
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_name = 'restaurants' AND column_name = 'drop_pattern') = 'text' THEN
+    ALTER TABLE restaurants
+      ALTER COLUMN drop_pattern TYPE JSONB
+      USING CASE
+        WHEN drop_pattern IS NULL OR btrim(drop_pattern) = '' THEN NULL
+        ELSE jsonb_build_object('kind', 'manual', 'description', drop_pattern)
+      END;
+  END IF;
+END $$;
+
+-- ============================================
+-- PORTFOLIO ITEMS: per-item recurring rule
+-- NULL = one-off item (never rolled forward)
+-- ============================================
+ALTER TABLE portfolio_items ADD COLUMN IF NOT EXISTS drop_rule JSONB;
+`;
+
+export const down = `
+ALTER TABLE portfolio_items DROP COLUMN IF EXISTS drop_rule;
+
+DO $$
+BEGIN
+  IF (SELECT data_type FROM information_schema.columns
+      WHERE table_name = 'restaurants' AND column_name = 'drop_pattern') = 'jsonb' THEN
+    ALTER TABLE restaurants
+      ALTER COLUMN drop_pattern TYPE TEXT
+      USING drop_pattern->>'description';
+  END IF;
+END $$;
+`;
+
+import pool from '../db';
+
+/**
+ * Parse legacy free-text patterns into structured rules.
+ * Rules that can't be parsed stay manual, so this is safe to re-run.
+ */
+export async function backfill(): Promise<number> {
+  if (!pool) {
+    throw new Error('Database pool not initialized');
+  }
+  const result = await pool.query(`
+    SELECT id, drop_pattern, drop_timezone
+    FROM restaurants
+    WHERE drop_pattern->>'kind' = 'manual'
+  `);
+
+  let converted = 0;
+  for (const row of result.rows) {
+    const rule = parseDropPattern(row.drop_pattern.description || '', row.drop_timezone || undefined);
+    if (rule.kind === 'manual') continue;
+    await pool.query(
+      `UPDATE restaurants SET drop_pattern = $1, updated_at = NOW() WHERE id = $2`,
+      [JSON.stringify(rule), row.id]
+    );
+    converted++;
+  }
+  return converted;
+}
@@ -0,0 +1,166 @@
+/**
+ * Migration 008: Analytics Tables
+ *
+ * Moves the tables dropPatternLearning and competitionMonitor used to create
+ * lazily (via /api/analytics/.../init) into the migration history:
+ * 1. confirmed_drop_patterns - one row per restaurant + platform, the layout
+ *    dropPatternLearning reads and writes. Databases built by migration 003
+ *    (one row per portfolio item) are converted: counters carried over,
+ *    platform filled in from the portfolio item, duplicates merged
+ * 2. acquisition_attempts - every drop attempt, successful or not
+ * 3. competitor_listings - other sellers' AT listings
+ */
+
+export const up = `
+-- ============================================
+-- CONFIRMED DROP PATTERNS: one row per restaurant + platform
+-- ============================================
+ALTER TABLE confirmed_drop_patterns
+  ADD COLUMN IF NOT EXISTS portfolio_item_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS drop_day_of_week INTEGER,
+  ADD COLUMN IF NOT EXISTS confidence INTEGER DEFAULT 50,
+  ADD COLUMN IF NOT EXISTS successful_acquisitions INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_attempts INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_confirmed TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS notes TEXT;
+
+DO $$
+BEGIN
+  -- Carry the migration 003 counters over to the new columns
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_name = 'confirmed_drop_patterns' AND column_name = 'success_count') THEN
+    UPDATE confirmed_drop_patterns SET
+      successful_acquisitions = COALESCE(success_count, 0),
+      total_attempts = GREATEST(COALESCE(attempt_count, 0), COALESCE(success_count, 0)),
+      last_confirmed = confirmed_at,
+      confidence = LEAST(100, 60 + 10 * COALESCE(success_count, 0));
+
+    ALTER TABLE confirmed_drop_patterns
+      DROP COLUMN success_count,
+      DROP COLUMN attempt_count,
+      DROP COLUMN success_rate,
+      DROP COLUMN confirmed_at;
+  END IF;
+END $$;
+
+-- Patterns recorded per portfolio item had no platform
+UPDATE confirmed_drop_patterns p
+SET platform = LOWER(i.platform)
+FROM portfolio_items i
+WHERE p.platform IS NULL AND i.id = p.portfolio_item_id;
+
+UPDATE confirmed_drop_patterns SET platform = 'unknown' WHERE platform IS NULL;
+ALTER TABLE confirmed_drop_patterns ALTER COLUMN platform SET NOT NULL;
+
+-- Merge rows that now share a restaurant + platform: keep the newest timing,
+-- add up the counters
+WITH ranked AS (
+  SELECT
+    id,
+    ROW_NUMBER() OVER w AS position,
+    SUM(successful_acquisitions) OVER (PARTITION BY restaurant_name, platform) AS successes,
+    SUM(total_attempts) OVER (PARTITION BY restaurant_name, platform) AS attempts
+  FROM confirmed_drop_patterns
+  WINDOW w AS (PARTITION BY restaurant_name, platform ORDER BY updated_at DESC NULLS LAST, id DESC)
+)
+UPDATE confirmed_drop_patterns p
+SET successful_acquisitions = ranked.successes, total_attempts = ranked.attempts
+FROM ranked
+WHERE p.id = ranked.id AND ranked.position = 1;
+
+DELETE FROM confirmed_drop_patterns p
+USING (
+  SELECT id, ROW_NUMBER() OVER (
+    PARTITION BY restaurant_name, platform ORDER BY updated_at DESC NULLS LAST, id DESC
+  ) AS position
+  FROM confirmed_drop_patterns
+) ranked
+WHERE p.id = ranked.id AND ranked.position > 1;
+
+ALTER TABLE confirmed_drop_patterns
+  DROP CONSTRAINT IF EXISTS confirmed_drop_patterns_portfolio_item_id_key;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint
+                 WHERE conname = 'confirmed_drop_patterns_restaurant_name_platform_key') THEN
+    ALTER TABLE confirmed_drop_patterns
+      ADD CONSTRAINT confirmed_drop_patterns_restaurant_name_platform_key UNIQUE (restaurant_name, platform);
+  END IF;
+END $$;
+
+-- ============================================
+-- ACQUISITION ATTEMPTS
+-- ============================================
+CREATE TABLE IF NOT EXISTS acquisition_attempts (
+  id SERIAL PRIMARY KEY,
+  restaurant_name VARCHAR(255) NOT NULL,
+  platform VARCHAR(50) NOT NULL,
+  target_date DATE NOT NULL,
+  attempt_time TIMESTAMP NOT NULL,
+  success BOOLEAN NOT NULL,
+  confirmation_code VARCHAR(255),
+  error TEXT,
+  identity_id INTEGER REFERENCES booking_identities(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attempts_restaurant ON acquisition_attempts(restaurant_name);
+CREATE INDEX IF NOT EXISTS idx_attempts_success ON acquisition_attempts(success);
+
+-- ============================================
+-- COMPETITOR LISTINGS
+-- ============================================
+CREATE TABLE IF NOT EXISTS competitor_listings (
+  id SERIAL PRIMARY KEY,
+  seller_name VARCHAR(255) NOT NULL,
+  restaurant_name VARCHAR(255) NOT NULL,
+  listing_price NUMERIC(10, 2),
+  reservation_date DATE,
+  reservation_time VARCHAR(10),
+  party_size INTEGER,
+  platform VARCHAR(50),
+  listing_url TEXT,
+  status VARCHAR(20) DEFAULT 'active',
+  first_seen TIMESTAMP DEFAULT NOW(),
+  last_seen TIMESTAMP DEFAULT NOW(),
+  days_listed INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_seller ON competitor_listings(seller_name);
+CREATE INDEX IF NOT EXISTS idx_competitor_restaurant ON competitor_listings(restaurant_name);
+CREATE INDEX IF NOT EXISTS idx_competitor_status ON competitor_listings(status);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS competitor_listings;
+DROP TABLE IF EXISTS acquisition_attempts;
+
+-- Back to the migration 003 layout
+ALTER TABLE confirmed_drop_patterns
+  DROP CONSTRAINT IF EXISTS confirmed_drop_patterns_restaurant_name_platform_key,
+  ALTER COLUMN platform DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS success_count INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS success_rate DECIMAL(3,2) DEFAULT 1.0;
+
+UPDATE confirmed_drop_patterns SET
+  confirmed_at = COALESCE(last_confirmed, updated_at),
+  success_count = successful_acquisitions,
+  attempt_count = GREATEST(total_attempts, successful_acquisitions),
+  success_rate = CASE
+    WHEN total_attempts > 0 THEN LEAST(1.0, successful_acquisitions::DECIMAL / total_attempts)
+    ELSE 1.0
+  END;
+
+ALTER TABLE confirmed_drop_patterns
+  DROP COLUMN drop_day_of_week,
+  DROP COLUMN confidence,
+  DROP COLUMN successful_acquisitions,
+  DROP COLUMN total_attempts,
+  DROP COLUMN last_confirmed,
+  DROP COLUMN notes;
+`;
@@ -0,0 +1,48 @@
+/**
+ * Migration 009: Users & Sessions
+ *
+ * Accounts for everyone who uses the dashboard or API:
+ * 1. users - login email, scrypt password hash and role
+ *    (operator, analyst, concierge, read_only - see shared/permissions.ts)
+ * 2. user_sessions - bearer tokens, stored as SHA-256 hashes only
+ */
+
+export const up = `
+-- ============================================
+-- USERS
+-- ============================================
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  name VARCHAR(255),
+  password_hash TEXT NOT NULL,     -- scrypt$<salt>$<hash>
+  role VARCHAR(20) NOT NULL DEFAULT 'read_only'
+    CHECK (role IN ('operator', 'analyst', 'concierge', 'read_only')),
+  is_active BOOLEAN DEFAULT true,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON users(LOWER(email));
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_expires ON user_sessions(expires_at);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS users;
+`;
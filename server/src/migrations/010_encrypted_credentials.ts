@@ -0,0 +1,38 @@
+/**
+ * Migration 010: Encrypted Credentials
+ *
+ * Platform secrets in booking_identities are now stored envelope-encrypted
+ * (see services/credentialVault.ts):
+ * 1. Secret columns widen to TEXT - ciphertext doesn't fit VARCHAR(100)
+ * 2. resy_api_key loses its plaintext default; a NULL key means Resy's
+ *    public web key
+ * 3. Backfill encrypts existing plaintext when CREDENTIAL_ENCRYPTION_KEY is
+ *    set (otherwise run `npm run credentials -- reencrypt` once it is)
+ */
+
+import credentialVault from '../services/credentialVault';
+
+export const up = `
+ALTER TABLE booking_identities
+  ALTER COLUMN resy_payment_id TYPE TEXT,
+  ALTER COLUMN resy_api_key TYPE TEXT,
+  ALTER COLUMN resy_api_key DROP DEFAULT;
+
+UPDATE booking_identities SET resy_api_key = NULL
+WHERE resy_api_key = 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5';
+`;
+
+// Columns stay TEXT: encrypted values may already be longer than 100 chars
+export const down = `
+ALTER TABLE booking_identities
+  ALTER COLUMN resy_api_key SET DEFAULT 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5';
+`;
+
+export async function backfill(): Promise<number> {
+  if (!credentialVault.isConfigured()) {
+    console.warn('[Migrations] ⚠️ CREDENTIAL_ENCRYPTION_KEY is not set - identity credentials stay unencrypted');
+    return 0;
+  }
+  const result = await credentialVault.reencryptAll();
+  return result.identities;
+}
@@ -0,0 +1,62 @@
+/**
+ * Migration 011: Audit Events
+ *
+ * Append-only record of who did what to reservations and credentials:
+ * bookings from every channel (dashboard, API, Telegram, scheduler),
+ * transfer and booking-request changes, identity credential changes.
+ *
+ * IDs are plain columns, not foreign keys - the trail must outlive the
+ * portfolio items, clients and users it mentions. A trigger rejects
+ * UPDATE and DELETE.
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- What happened
+  action VARCHAR(50) NOT NULL,          -- acquisition, transfer.sold, identity.updated, ...
+  outcome VARCHAR(10) NOT NULL DEFAULT 'info'
+    CHECK (outcome IN ('success', 'failure', 'info')),
+
+  -- Who triggered it, and through which channel
+  source VARCHAR(20) NOT NULL
+    CHECK (source IN ('dashboard', 'api', 'telegram', 'scheduler', 'cli', 'system')),
+  actor VARCHAR(255) NOT NULL,          -- user email, @telegram_handle, 'scheduler'
+  actor_user_id INTEGER,
+
+  -- What it touched
+  platform VARCHAR(20),
+  portfolio_item_id VARCHAR(255),
+  client_id INTEGER,
+  transfer_id INTEGER,
+  identity_id INTEGER,
+
+  -- Payloads (secrets redacted before insert)
+  request JSONB,
+  response JSONB,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred ON audit_events(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_item ON audit_events(portfolio_item_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_client ON audit_events(client_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action);
+
+CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_no_change ON audit_events;
+CREATE TRIGGER audit_events_no_change
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
+`;
+
+export const down = `
+DROP TABLE IF EXISTS audit_events;
+DROP FUNCTION IF EXISTS audit_events_append_only();
+`;
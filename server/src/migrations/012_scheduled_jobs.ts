@@ -0,0 +1,57 @@
+/**
+ * Migration 012: Scheduled Jobs
+ *
+ * State for the built-in job scheduler (services/jobScheduler.ts):
+ * 1. scheduled_jobs - one row per recurring job: schedule override,
+ *    next run, lease, and the outcome of the last run
+ * 2. job_runs - history of every run, scheduled or triggered by hand
+ *
+ * Schedules use the drop rule shape (daily / weekly / monthly at a
+ * wall-clock time in a timezone).
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  name VARCHAR(100) PRIMARY KEY,
+
+  -- Overrides set from the dashboard (NULL = built-in default / env)
+  schedule JSONB,
+  enabled BOOLEAN,
+
+  -- Next slot, and the worker currently running the job
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  lease_owner VARCHAR(255),
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+
+  -- Last run
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_status VARCHAR(20),              -- 'success' | 'failed'
+  last_error TEXT,
+  last_duration_ms INTEGER,
+  last_result JSONB,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS job_runs (
+  id BIGSERIAL PRIMARY KEY,
+  job_name VARCHAR(100) NOT NULL,
+  trigger_type VARCHAR(20) NOT NULL DEFAULT 'schedule',  -- 'schedule', 'manual'
+  triggered_by VARCHAR(255),
+  status VARCHAR(20) NOT NULL DEFAULT 'running',         -- running -> success | failed
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  result JSONB,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_job ON job_runs(job_name, started_at DESC);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS job_runs;
+DROP TABLE IF EXISTS scheduled_jobs;
+`;
@@ -0,0 +1,46 @@
+/**
+ * Migration 013: Credential Health
+ *
+ * Continuous per-identity, per-platform credential tracking (see
+ * services/credentialHealth.ts), so an expired Resy token is found by the
+ * nightly check or a failed booking - not at drop time.
+ *
+ * 1. credential_health - last valid / first invalid timestamps, token
+ *    expiry decoded where the format allows, and alert bookkeeping
+ * 2. scheduled_drops.credential_alert_sent - the "re-auth before this
+ *    drop" alert goes out once per drop
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS credential_health (
+  identity_id INTEGER NOT NULL REFERENCES booking_identities(id) ON DELETE CASCADE,
+  platform VARCHAR(20) NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'unknown'
+    CHECK (status IN ('valid', 'invalid', 'unknown', 'unconfigured')),
+  message TEXT,
+  check_source VARCHAR(20),                         -- 'validation', 'booking', 'update'
+
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  last_valid_at TIMESTAMP WITH TIME ZONE,
+  first_invalid_at TIMESTAMP WITH TIME ZONE,        -- Start of the current invalid streak
+  expires_at TIMESTAMP WITH TIME ZONE,              -- Decoded from the token (JWT exp)
+
+  -- Each problem is announced once
+  alert_reason VARCHAR(20),                         -- 'expiring', 'invalid'
+  alerted_at TIMESTAMP WITH TIME ZONE,
+
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (identity_id, platform)
+);
+
+CREATE INDEX IF NOT EXISTS idx_credential_health_expires ON credential_health(expires_at)
+  WHERE expires_at IS NOT NULL;
+
+ALTER TABLE scheduled_drops ADD COLUMN IF NOT EXISTS credential_alert_sent BOOLEAN DEFAULT false;
+`;
+
+export const down = `
+ALTER TABLE scheduled_drops DROP COLUMN IF EXISTS credential_alert_sent;
+DROP TABLE IF EXISTS credential_health;
+`;
@@ -0,0 +1,37 @@
+/**
+ * Migration 014: Drop Traces
+ *
+ * A post-mortem for every drop execution (see services/dropTrace.ts):
+ * each poll and booking call with its timing, HTTP status and the slots
+ * it saw, plus the verdict - booked, slots never appeared, appeared late,
+ * or were taken before our book call landed.
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS drop_traces (
+  id SERIAL PRIMARY KEY,
+  scheduled_drop_id INTEGER REFERENCES scheduled_drops(id) ON DELETE SET NULL,
+  portfolio_item_id VARCHAR(255),
+  restaurant_name VARCHAR(255) NOT NULL,
+  platform VARCHAR(50) NOT NULL,
+
+  drop_at TIMESTAMP WITH TIME ZONE,               -- Scheduled drop instant (platform time)
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE,
+
+  success BOOLEAN NOT NULL DEFAULT false,
+  outcome VARCHAR(20) NOT NULL
+    CHECK (outcome IN ('booked', 'no_slots', 'slots_late', 'taken', 'error')),
+  summary JSONB NOT NULL DEFAULT '{}',            -- Counts and first-seen timings
+  events JSONB NOT NULL DEFAULT '[]',             -- The timeline, in order
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drop_traces_item ON drop_traces(portfolio_item_id);
+CREATE INDEX IF NOT EXISTS idx_drop_traces_started ON drop_traces(started_at DESC);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS drop_traces;
+`;
@@ -0,0 +1,35 @@
+/**
+ * Migration 015: Transfer Cancellation
+ *
+ * Lets a reservation be released through the app instead of becoming a
+ * no-show (see services/cancellationManager.ts):
+ *
+ * 1. transfers.cancellation_fee / cancellation_deadline - the booked slot's
+ *    fee and the end of the free-cancellation window
+ * 2. transfers.cancellation_reminded_at - the "penalty window ahead"
+ *    reminder goes out once per reservation
+ * 3. transfers.cancelled_at / cancellation_reason / cancellation_fee_charged
+ *    - who released it and what it cost (status becomes CANCELLED)
+ */
+
+export const up = `
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS cancellation_fee DECIMAL(10, 2);
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS cancellation_deadline TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS cancellation_reminded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS cancellation_reason VARCHAR(30);  -- 'client_cancelled', 'unused', 'auto_release'...
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS cancellation_fee_charged DECIMAL(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_transfers_cancellation_deadline ON transfers(cancellation_deadline)
+  WHERE cancelled_at IS NULL;
+`;
+
+export const down = `
+DROP INDEX IF EXISTS idx_transfers_cancellation_deadline;
+ALTER TABLE transfers DROP COLUMN IF EXISTS cancellation_fee_charged;
+ALTER TABLE transfers DROP COLUMN IF EXISTS cancellation_reason;
+ALTER TABLE transfers DROP COLUMN IF EXISTS cancelled_at;
+ALTER TABLE transfers DROP COLUMN IF EXISTS cancellation_reminded_at;
+ALTER TABLE transfers DROP COLUMN IF EXISTS cancellation_deadline;
+ALTER TABLE transfers DROP COLUMN IF EXISTS cancellation_fee;
+`;
@@ -0,0 +1,52 @@
+/**
+ * Migration 016: Reservation Sync
+ *
+ * Reconciles what the platform accounts hold with what we track (see
+ * services/reservationSync.ts):
+ *
+ * 1. portfolio_items.confirmation_number - the platform's code for an
+ *    acquired item, so it can be matched like a transfer
+ * 2. transfers.platform_seen_at / platform_missing_since - last time the
+ *    platform listed the reservation, and since when it hasn't (cancelled
+ *    by the venue)
+ * 3. transfers.imported_at - booked outside the app, picked up by a sync
+ * 4. reservation_sync_runs - one reconciliation report per sync
+ */
+
+export const up = `
+ALTER TABLE portfolio_items ADD COLUMN IF NOT EXISTS confirmation_number VARCHAR(100);
+CREATE INDEX IF NOT EXISTS idx_portfolio_confirmation ON portfolio_items(confirmation_number)
+  WHERE confirmation_number IS NOT NULL;
+
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS platform_seen_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS platform_missing_since TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS imported_at TIMESTAMP WITH TIME ZONE;
+CREATE INDEX IF NOT EXISTS idx_transfers_confirmation ON transfers(confirmation_number)
+  WHERE confirmation_number IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS reservation_sync_runs (
+  id SERIAL PRIMARY KEY,
+  trigger_type VARCHAR(20) NOT NULL,        -- 'schedule' or 'manual'
+  triggered_by VARCHAR(255),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  matched INTEGER NOT NULL DEFAULT 0,
+  imported INTEGER NOT NULL DEFAULT 0,
+  changed INTEGER NOT NULL DEFAULT 0,
+  missing INTEGER NOT NULL DEFAULT 0,
+  failed_accounts INTEGER NOT NULL DEFAULT 0,
+  report JSONB NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_sync_runs_started ON reservation_sync_runs(started_at DESC);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS reservation_sync_runs;
+DROP INDEX IF EXISTS idx_transfers_confirmation;
+ALTER TABLE transfers DROP COLUMN IF EXISTS imported_at;
+ALTER TABLE transfers DROP COLUMN IF EXISTS platform_missing_since;
+ALTER TABLE transfers DROP COLUMN IF EXISTS platform_seen_at;
+DROP INDEX IF EXISTS idx_portfolio_confirmation;
+ALTER TABLE portfolio_items DROP COLUMN IF EXISTS confirmation_number;
+`;
@@ -0,0 +1,94 @@
+/**
+ * Migration 017: Reservation Lifecycle
+ *
+ * Portfolio items and transfers become one reservation (see
+ * shared/reservationLifecycle.ts and services/reservationLifecycle.ts):
+ *
+ * 1. Every transfer gets a portfolio item - transfers booked without one
+ *    get an item built from the transfer ("transfer-<id>")
+ * 2. Statuses are brought into the one model: the dashboard's PENDING
+ *    becomes TRANSFER_PENDING, and an item takes its transfer's status
+ * 3. Both status columns only accept lifecycle statuses (checked for new
+ *    writes - existing rows are normalized above)
+ * 4. reservation_status_history - every status change, who made it and
+ *    why, starting with each reservation's status at migration time
+ */
+
+const STATUSES = `'WATCHING', 'PENDING_CONFIRMATION', 'ACQUIRED', 'LISTED', 'SOLD', 'TRANSFER_PENDING', 'TRANSFERRED', 'COMPLETED', 'CANCELLED'`;
+
+export const up = `
+INSERT INTO portfolio_items (
+  id, restaurant_name, date, time, guests, platform, status,
+  guest_name, confirmation_number, created_at, updated_at
+)
+SELECT
+  'transfer-' || t.id,
+  t.restaurant_name,
+  t.reservation_date,
+  COALESCE(
+    CASE
+      WHEN t.reservation_time ~* '^[0-9]{1,2}:[0-9]{2} *(AM|PM)$' THEN to_timestamp(t.reservation_time, 'HH12:MI AM')::time
+      WHEN t.reservation_time ~ '^[0-9]{1,2}:[0-9]{2}' THEN substring(t.reservation_time from '^[0-9]{1,2}:[0-9]{2}')::time
+    END,
+    '00:00'::time
+  ),
+  t.party_size,
+  t.platform,
+  t.status,
+  t.booked_under_name,
+  t.confirmation_number,
+  t.created_at,
+  t.updated_at
+FROM transfers t
+WHERE t.portfolio_item_id IS NULL;
+
+UPDATE transfers SET portfolio_item_id = 'transfer-' || id WHERE portfolio_item_id IS NULL;
+
+UPDATE portfolio_items SET status = 'TRANSFER_PENDING' WHERE status = 'PENDING';
+
+-- The newest transfer on an item is the reservation it holds
+UPDATE portfolio_items p
+SET status = t.status, confirmation_number = COALESCE(p.confirmation_number, t.confirmation_number)
+FROM (
+  SELECT DISTINCT ON (portfolio_item_id) portfolio_item_id, status, confirmation_number
+  FROM transfers
+  ORDER BY portfolio_item_id, created_at DESC, id DESC
+) t
+WHERE t.portfolio_item_id = p.id;
+
+ALTER TABLE portfolio_items DROP CONSTRAINT IF EXISTS portfolio_items_status_check;
+ALTER TABLE portfolio_items ADD CONSTRAINT portfolio_items_status_check
+  CHECK (status IN (${STATUSES})) NOT VALID;
+ALTER TABLE transfers DROP CONSTRAINT IF EXISTS transfers_status_check;
+ALTER TABLE transfers ADD CONSTRAINT transfers_status_check
+  CHECK (status IN (${STATUSES})) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS reservation_status_history (
+  id BIGSERIAL PRIMARY KEY,
+  portfolio_item_id TEXT NOT NULL REFERENCES portfolio_items(id) ON DELETE CASCADE,
+  transfer_id INTEGER REFERENCES transfers(id) ON DELETE SET NULL,
+  from_status VARCHAR(30),              -- NULL: the reservation was created in to_status
+  to_status VARCHAR(30) NOT NULL,
+  source VARCHAR(20) NOT NULL,          -- AuditSource: dashboard, api, telegram, scheduler, cli, system
+  actor VARCHAR(255) NOT NULL,
+  actor_user_id INTEGER,
+  note TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_history_item ON reservation_status_history(portfolio_item_id, changed_at);
+
+INSERT INTO reservation_status_history (portfolio_item_id, transfer_id, from_status, to_status, source, actor, note)
+SELECT p.id, t.id, NULL, p.status, 'system', 'migration', 'Status when the lifecycle history started'
+FROM portfolio_items p
+LEFT JOIN LATERAL (
+  SELECT id FROM transfers WHERE portfolio_item_id = p.id ORDER BY created_at DESC, id DESC LIMIT 1
+) t ON true;
+`;
+
+export const down = `
+DROP TABLE IF EXISTS reservation_status_history;
+ALTER TABLE transfers DROP CONSTRAINT IF EXISTS transfers_status_check;
+ALTER TABLE portfolio_items DROP CONSTRAINT IF EXISTS portfolio_items_status_check;
+-- Backfilled items and mapped statuses stay: they're valid in the old model too
+`;
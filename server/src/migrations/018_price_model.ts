@@ -0,0 +1,36 @@
+/**
+ * Migration 018: Price Model
+ *
+ * Prices come from a model fitted on our own sales (see
+ * services/priceModel.ts) instead of a hardcoded tier table:
+ *
+ * 1. price_models - every trained model, its id being the version; the
+ *    newest one is in use
+ * 2. pricing_tiers - tiers added from the dashboard (POST
+ *    /api/analytics/pricing/tiers), which used to live in memory only.
+ *    Tiers now only price restaurants the model hasn't seen enough of.
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS price_models (
+  id SERIAL PRIMARY KEY,                    -- The model version
+  trained_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  trained_by VARCHAR(255),                  -- 'schedule', or who ran it
+  training_rows INTEGER NOT NULL,
+  rows_by_source JSONB NOT NULL,            -- { sale, competitor, market }
+  parameters JSONB NOT NULL,                -- Coefficients, residual spread, rows per restaurant
+  metrics JSONB NOT NULL                    -- Fit on the training data
+);
+
+CREATE TABLE IF NOT EXISTS pricing_tiers (
+  restaurant_name VARCHAR(255) PRIMARY KEY,
+  tier INTEGER NOT NULL CHECK (tier BETWEEN 1 AND 5),
+  base_price NUMERIC(10, 2) NOT NULL CHECK (base_price > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS pricing_tiers;
+DROP TABLE IF EXISTS price_models;
+`;
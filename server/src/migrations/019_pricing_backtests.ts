@@ -0,0 +1,26 @@
+/**
+ * Migration 019: Pricing Backtests
+ *
+ * Each run of services/pricingBacktest.ts - a candidate pricing config
+ * replayed against past listings - is kept so configs can be compared
+ * side by side in the dashboard.
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS pricing_backtests (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  config JSONB NOT NULL,                    -- The full PricingConfig replayed (defaults filled in)
+  period_from DATE,                         -- Listings considered (NULL: unbounded)
+  period_to DATE,
+  results JSONB NOT NULL,                   -- Revenue, sell-through, error vs. realized prices
+  run_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_backtests_created ON pricing_backtests(created_at DESC);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS pricing_backtests;
+`;
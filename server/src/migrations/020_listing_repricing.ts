@@ -0,0 +1,55 @@
+/**
+ * Migration 020: Listing Repricing
+ *
+ * A listed reservation is worth nothing after the dinner date, so its AT
+ * price decays on a schedule (services/listingRepricing.ts):
+ *
+ * 1. repricing_rules - a listing's own schedule; listings without one use
+ *    the REPRICING_STEPS default
+ * 2. listing_price_changes - every listing price a transfer has had, and
+ *    the decay steps proposed for it (approved, rejected or reverted).
+ *    Listings already up get their current price as the first entry.
+ */
+
+export const up = `
+CREATE TABLE IF NOT EXISTS repricing_rules (
+  transfer_id INTEGER PRIMARY KEY REFERENCES transfers(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  steps JSONB NOT NULL,                     -- [{ hoursBefore, percentOff }], percent off the listed price
+  floor_price NUMERIC(10, 2),               -- NULL: the reservation's cost basis
+  follow_market BOOLEAN NOT NULL DEFAULT TRUE,
+  auto_approve BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by VARCHAR(255),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS listing_price_changes (
+  id SERIAL PRIMARY KEY,
+  transfer_id INTEGER NOT NULL REFERENCES transfers(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('listed', 'manual', 'decay', 'revert')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('proposed', 'applied', 'rejected', 'expired', 'reverted')),
+  old_price NUMERIC(10, 2),
+  new_price NUMERIC(10, 2) NOT NULL,
+  step_hours INTEGER,                       -- decay: the step, in hours before the reservation
+  reverts_id INTEGER REFERENCES listing_price_changes(id),
+  details JSONB,                            -- decay: how the price was worked out
+  requested_by VARCHAR(255) NOT NULL,
+  decided_by VARCHAR(255),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  decided_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_price_changes_transfer ON listing_price_changes(transfer_id, id);
+CREATE INDEX IF NOT EXISTS idx_listing_price_changes_proposed ON listing_price_changes(status) WHERE status = 'proposed';
+
+INSERT INTO listing_price_changes (transfer_id, kind, status, old_price, new_price, requested_by)
+SELECT t.id, 'listed', 'applied', NULL, t.listing_price, 'migration'
+FROM transfers t
+WHERE t.status = 'LISTED' AND t.listing_price > 0
+  AND NOT EXISTS (SELECT 1 FROM listing_price_changes c WHERE c.transfer_id = t.id);
+`;
+
+export const down = `
+DROP TABLE IF EXISTS listing_price_changes;
+DROP TABLE IF EXISTS repricing_rules;
+`;
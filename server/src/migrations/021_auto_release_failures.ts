@@ -0,0 +1,20 @@
+/**
+ * Migration 021: Auto-release Failures
+ *
+ * An auto-release the platform refuses is not retried on every watch pass
+ * (see services/cancellationManager.ts):
+ *
+ * 1. transfers.auto_release_failed_at / auto_release_error - the first
+ *    failed attempt and why. The watch loop leaves the reservation to an
+ *    operator from then on, and alerts once.
+ */
+
+export const up = `
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS auto_release_failed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE transfers ADD COLUMN IF NOT EXISTS auto_release_error TEXT;
+`;
+
+export const down = `
+ALTER TABLE transfers DROP COLUMN IF EXISTS auto_release_error;
+ALTER TABLE transfers DROP COLUMN IF EXISTS auto_release_failed_at;
+`;
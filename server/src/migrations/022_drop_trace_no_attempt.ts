@@ -0,0 +1,21 @@
+/**
+ * Migration 022: Drop Trace No-attempt Verdict
+ *
+ * A drop where slots showed up on time but no book call was ever made is
+ * not a lost race (see services/dropTrace.ts):
+ *
+ * 1. drop_traces.outcome accepts 'no_attempt'
+ */
+
+export const up = `
+ALTER TABLE drop_traces DROP CONSTRAINT IF EXISTS drop_traces_outcome_check;
+ALTER TABLE drop_traces ADD CONSTRAINT drop_traces_outcome_check
+  CHECK (outcome IN ('booked', 'no_slots', 'slots_late', 'no_attempt', 'taken', 'error'));
+`;
+
+export const down = `
+UPDATE drop_traces SET outcome = 'taken' WHERE outcome = 'no_attempt';
+ALTER TABLE drop_traces DROP CONSTRAINT IF EXISTS drop_traces_outcome_check;
+ALTER TABLE drop_traces ADD CONSTRAINT drop_traces_outcome_check
+  CHECK (outcome IN ('booked', 'no_slots', 'slots_late', 'taken', 'error'));
+`;
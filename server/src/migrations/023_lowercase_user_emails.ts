@@ -0,0 +1,20 @@
+/**
+ * Migration 023: Lowercase User Emails
+ *
+ * Login emails are stored lowercased (see services/authService.ts).
+ * idx_users_email (migration 009) already keeps them unique regardless
+ * of case, so no two rows collide here:
+ *
+ * 1. Existing emails lowercased
+ * 2. users.email CHECK - nothing writes a mixed-case email again
+ */
+
+export const up = `
+UPDATE users SET email = LOWER(email) WHERE email <> LOWER(email);
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_email_lowercase;
+ALTER TABLE users ADD CONSTRAINT users_email_lowercase CHECK (email = LOWER(email));
+`;
+
+export const down = `
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_email_lowercase;
+`;
@@ -0,0 +1,57 @@
+/**
+ * Migration registry - every schema change, in the order it is applied.
+ * Add new migrations at the end with the next version number.
+ */
+
+import type { Migration } from './runner';
+import * as m001 from './001_initial_schema';
+import * as m002 from './002_market_data';
+import * as m003 from './003_drop_patterns';
+import * as m004 from './004_multi_identity_and_transfers';
+import * as m005 from './005_clients_and_concierge';
+import * as m006 from './006_scheduled_drops';
+import * as m007 from './007_drop_rules';
+import * as m008 from './008_analytics_tables';
+import * as m009 from './009_users_and_sessions';
+import * as m010 from './010_encrypted_credentials';
+import * as m011 from './011_audit_events';
+import * as m012 from './012_scheduled_jobs';
+import * as m013 from './013_credential_health';
+import * as m014 from './014_drop_traces';
+import * as m015 from './015_transfer_cancellation';
+import * as m016 from './016_reservation_sync';
+import * as m017 from './017_reservation_lifecycle';
+import * as m018 from './018_price_model';
+import * as m019 from './019_pricing_backtests';
+import * as m020 from './020_listing_repricing';
+import * as m021 from './021_auto_release_failures';
+import * as m022 from './022_drop_trace_no_attempt';
+import * as m023 from './023_lowercase_user_emails';
+
+const MIGRATIONS: Migration[] = [
+  { version: '001', name: 'initial_schema', ...m001 },
+  { version: '002', name: 'market_data', ...m002 },
+  { version: '003', name: 'drop_patterns', ...m003 },
+  { version: '004', name: 'multi_identity_and_transfers', ...m004 },
+  { version: '005', name: 'clients_and_concierge', ...m005 },
+  { version: '006', name: 'scheduled_drops', ...m006 },
+  { version: '007', name: 'drop_rules', ...m007 },
+  { version: '008', name: 'analytics_tables', ...m008 },
+  { version: '009', name: 'users_and_sessions', ...m009 },
+  { version: '010', name: 'encrypted_credentials', ...m010 },
+  { version: '011', name: 'audit_events', ...m011 },
+  { version: '012', name: 'scheduled_jobs', ...m012 },
+  { version: '013', name: 'credential_health', ...m013 },
+  { version: '014', name: 'drop_traces', ...m014 },
+  { version: '015', name: 'transfer_cancellation', ...m015 },
+  { version: '016', name: 'reservation_sync', ...m016 },
+  { version: '017', name: 'reservation_lifecycle', ...m017 },
+  { version: '018', name: 'price_model', ...m018 },
+  { version: '019', name: 'pricing_backtests', ...m019 },
+  { version: '020', name: 'listing_repricing', ...m020 },
+  { version: '021', name: 'auto_release_failures', ...m021 },
+  { version: '022', name: 'drop_trace_no_attempt', ...m022 },
+  { version: '023', name: 'lowercase_user_emails', ...m023 },
+];
+
+export default MIGRATIONS;
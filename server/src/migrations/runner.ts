@@ -0,0 +1,199 @@
+/**
+ * Migration Runner
+ *
+ * Applies the numbered migrations in ./index.ts in order and records each
+ * one in schema_migrations with a checksum of its SQL. An applied migration
+ * must never be edited - the runner refuses to migrate when a checksum no
+ * longer matches; add a new migration instead.
+ *
+ * Every migration runs in its own transaction, and an advisory lock keeps
+ * two servers booting at once from racing each other.
+ */
+
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../db';
+import MIGRATIONS from './index';
+
+export interface Migration {
+  version: string;  // '001', '002', ... - applied in this order
+  name: string;
+  up: string;
+  down: string;
+  backfill?: () => Promise<number>;  // Data fix-ups run after the schema change commits
+}
+
+export type MigrationState =
+  | 'applied'
+  | 'pending'
+  | 'modified'  // Applied, but the SQL changed since
+  | 'unknown';  // Recorded in the database, but no longer in the codebase
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: MigrationState;
+  checksum: string;
+  appliedAt?: Date;
+}
+
+// Arbitrary key for pg_advisory_lock - any constant unique to this app
+const MIGRATION_LOCK_KEY = 727_001;
+
+export const checksum = (migration: Migration): string =>
+  crypto.createHash('sha256').update(migration.up.replace(/\r\n/g, '\n')).digest('hex');
+
+export class MigrationRunner {
+  constructor(private readonly migrations: Migration[] = MIGRATIONS) {}
+
+  private getPool() {
+    if (!pool) throw new Error('Database pool not initialized');
+    return pool;
+  }
+
+  private async ensureTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(10) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        duration_ms INTEGER
+      )
+    `);
+  }
+
+  /**
+   * Run fn on a dedicated connection holding the migration lock
+   */
+  private async withLock<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      await this.ensureTable(client);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]).catch(() => {});
+      client.release();
+    }
+  }
+
+  private async readStatus(client: PoolClient): Promise<MigrationStatus[]> {
+    const result = await client.query(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    );
+    const applied = new Map(result.rows.map(row => [row.version, row]));
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => {
+      const row = applied.get(migration.version);
+      const current = checksum(migration);
+      if (!row) {
+        return { version: migration.version, name: migration.name, state: 'pending', checksum: current };
+      }
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: row.checksum === current ? 'applied' : 'modified',
+        checksum: current,
+        appliedAt: row.applied_at,
+      };
+    });
+
+    const known = new Set(this.migrations.map(m => m.version));
+    for (const row of result.rows) {
+      if (!known.has(row.version)) {
+        statuses.push({ version: row.version, name: row.name, state: 'unknown', checksum: row.checksum, appliedAt: row.applied_at });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version.localeCompare(b.version));
+  }
+
+  /**
+   * Every known migration and whether it has been applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(client => this.readStatus(client));
+  }
+
+  /**
+   * Apply pending migrations (up to and including `target`, if given).
+   * Returns the migrations that were applied.
+   */
+  async up(target?: string): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const statuses = await this.readStatus(client);
+
+      const modified = statuses.filter(s => s.state === 'modified');
+      if (modified.length > 0) {
+        throw new Error(
+          `Applied migrations were edited: ${modified.map(s => `${s.version}_${s.name}`).join(', ')}. ` +
+          'Restore them and put the change in a new migration.'
+        );
+      }
+
+      const pendingVersions = new Set(statuses.filter(s => s.state === 'pending').map(s => s.version));
+      const pending = this.migrations.filter(m =>
+        pendingVersions.has(m.version) && (!target || m.version <= target)
+      );
+
+      for (const migration of pending) {
+        const started = Date.now();
+        console.log(`[Migrations] ⬆️  ${migration.version}_${migration.name}`);
+
+        await client.query('BEGIN');
+        try {
+          await client.query(migration.up);
+          await client.query(
+            `INSERT INTO schema_migrations (version, name, checksum, duration_ms) VALUES ($1, $2, $3, $4)`,
+            [migration.version, migration.name, checksum(migration), Date.now() - started]
+          );
+          await client.query('COMMIT');
+        } catch (error: any) {
+          await client.query('ROLLBACK');
+          throw new Error(`Migration ${migration.version}_${migration.name} failed: ${error.message}`);
+        }
+
+        if (migration.backfill) {
+          const rows = await migration.backfill();
+          console.log(`[Migrations]    backfilled ${rows} rows`);
+        }
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Revert the most recent `steps` applied migrations, newest first.
+   * Returns the migrations that were reverted.
+   */
+  async down(steps = 1): Promise<Migration[]> {
+    return this.withLock(async (client) => {
+      const statuses = await this.readStatus(client);
+      const applied = statuses.filter(s => s.state === 'applied' || s.state === 'modified');
+      const toRevert = applied.slice(-steps).reverse();
+
+      const reverted: Migration[] = [];
+      for (const status of toRevert) {
+        const migration = this.migrations.find(m => m.version === status.version)!;
+        console.log(`[Migrations] ⬇️  ${migration.version}_${migration.name}`);
+
+        await client.query('BEGIN');
+        try {
+          await client.query(migration.down);
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+          await client.query('COMMIT');
+        } catch (error: any) {
+          await client.query('ROLLBACK');
+          throw new Error(`Reverting ${migration.version}_${migration.name} failed: ${error.message}`);
+        }
+        reverted.push(migration);
+      }
+
+      return reverted;
+    });
+  }
+}
+
+export default new MigrationRunner();
@@ -0,0 +1,67 @@
+/**
+ * Platform Registry
+ *
+ * The booking platforms we support, one adapter module each. The
+ * acquisition engine, the per-platform sniper routes, the credential
+ * validator, fulfillment and the dashboard's platform list are all built
+ * from this list - adding a platform means writing its adapter (types.ts)
+ * and registering it here.
+ */
+
+import resy from './resy';
+import opentable from './opentable';
+import sevenrooms from './sevenrooms';
+import tock from './tock';
+import { PlatformAdapter, PlatformDescriptor, PlatformId } from './types';
+
+export * from './types';
+
+// Order is the order the dashboard lists them in
+const ADAPTERS: PlatformAdapter[] = [resy, opentable, sevenrooms, tock];
+
+export const PLATFORM_IDS: PlatformId[] = ADAPTERS.map(a => a.id);
+
+export const isPlatformId = (value: unknown): value is PlatformId =>
+  PLATFORM_IDS.includes(value as PlatformId);
+
+/**
+ * Adapter for a platform ID (null for anything unregistered, including 'unknown')
+ */
+export const getAdapter = (platform: string | null | undefined): PlatformAdapter | null =>
+  ADAPTERS.find(a => a.id === platform) || null;
+
+export const listAdapters = (): PlatformAdapter[] => [...ADAPTERS];
+
+/**
+ * Platform named in a free-text field ("Resy", "SevenRooms NYC"...)
+ */
+export const detectPlatform = (text: string | null | undefined): PlatformId | null => {
+  const lower = text?.toLowerCase() || '';
+  const adapter = ADAPTERS.find(a => lower.includes(a.id) || a.aliases.some(alias => lower.includes(alias)));
+  return adapter?.id || null;
+};
+
+export const describePlatform = (adapter: PlatformAdapter): PlatformDescriptor => {
+  const { requestField, param, label, placeholder, numeric } = adapter.venue;
+  return {
+    id: adapter.id,
+    label: adapter.label,
+    venue: { requestField, param, label, placeholder, numeric },
+    requiredConfig: adapter.requiredConfig,
+    capabilities: {
+      search: !!adapter.search,
+      cancel: !!adapter.cancel,
+      reservations: !!adapter.listReservations,
+    },
+    ...adapter.getStatus(),
+  };
+};
+
+export default {
+  PLATFORM_IDS,
+  isPlatformId,
+  getAdapter,
+  listAdapters,
+  detectPlatform,
+  describePlatform,
+};
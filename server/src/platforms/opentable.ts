@@ -0,0 +1,120 @@
+/**
+ * OpenTable adapter
+ *
+ * Client bookings use the Professional Profile ("book for a diner"),
+ * enabled in the account settings.
+ */
+
+import openTableClient from '../services/openTableApi';
+import identityManager from '../services/identityManager';
+import { PlatformAdapter, PlatformSlot } from './types';
+
+const openTableAdapter: PlatformAdapter = {
+  id: 'opentable',
+  label: 'OpenTable',
+  aliases: [],
+  venue: {
+    requestField: 'openTableId',
+    itemColumn: 'opentable_id',
+    param: 'restaurantId',
+    label: 'Restaurant ID',
+    placeholder: 'e.g., 1234567',
+    numeric: true,
+  },
+  requiredConfig: ['OPENTABLE_CSRF_TOKEN', 'OPENTABLE_EMAIL', 'OPENTABLE_FIRST_NAME', 'OPENTABLE_LAST_NAME'],
+  cancellationWindowHours: 24,
+
+  getBaseUrl: () => openTableClient.getBaseUrl(),
+
+  getStatus() {
+    const config = openTableClient.isConfigured();
+    return {
+      ready: config.ready,
+      details: config,
+      message: config.ready
+        ? '✅ OpenTable API fully configured'
+        : config.hasToken
+          ? '⚠️ Missing user info (name, email) in .env'
+          : '❌ Missing OPENTABLE_CSRF_TOKEN in .env',
+    };
+  },
+
+  async findSlots({ venueId, date, time, partySize }) {
+    const slots = await openTableClient.findSlots(Number(venueId), date, time, partySize);
+    return slots.map((slot): PlatformSlot => ({
+      id: slot.slotHash,
+      time: slot.dateTime,
+      table_type: slot.attributes?.join(', ') || 'Standard',
+    }));
+  },
+
+  async book(request) {
+    const result = await openTableClient.acquire({
+      restaurantId: Number(request.venueId),
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      timeFlexibility: request.timeFlexibility || 60,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.confirmationNumber,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async bookForClient(request, client) {
+    const result = await openTableClient.bookForDiner({
+      restaurantId: Number(request.venueId),
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      timeFlexibility: request.timeFlexibility || 60,
+      dinerFirstName: client.firstName,
+      dinerLastName: client.lastName,
+      dinerEmail: client.email,
+      dinerPhone: client.phone,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.confirmationNumber,
+      bookedTime: result.bookedTime,
+      bookedUnderName: result.bookedUnderName,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async validateCredentials(identity) {
+    const { csrfToken } = identityManager.getPlatformCredentials(identity, 'opentable');
+    if (!csrfToken) {
+      return { platform: 'opentable', valid: false, message: 'No OpenTable credentials configured' };
+    }
+
+    // Checking the token for real takes a booking attempt - only the format can be checked here
+    if (csrfToken.length < 10) {
+      return { platform: 'opentable', valid: false, message: 'Invalid CSRF token format' };
+    }
+
+    return {
+      platform: 'opentable',
+      valid: true,
+      message: 'Token format valid (full validation requires booking attempt)',
+      details: {
+        tokenLength: csrfToken.length,
+        warning: 'Cannot fully validate without booking attempt',
+      },
+    };
+  },
+
+  async prewarm({ venueId, date, time, partySize }) {
+    await openTableClient.findSlots(Number(venueId), date, time, partySize);
+  },
+
+  cancel: (confirmationCode) => openTableClient.cancelReservation(confirmationCode),
+};
+
+export default openTableAdapter;
@@ -0,0 +1,173 @@
+/**
+ * Resy adapter
+ *
+ * Standard bookings go through the account's own payment method; client
+ * bookings need an approved Resy Concierge account ("Book On Behalf Of").
+ */
+
+import axios from 'axios';
+import resyClient from '../services/resyApi';
+import identityManager from '../services/identityManager';
+import { PlatformAdapter, PlatformReservation, PlatformSlot } from './types';
+
+const toReservation = (r: any, onBehalfOf: boolean): PlatformReservation => ({
+  confirmationCode: r.resy_token,
+  venueId: String(r.venue?.id?.resy ?? r.venue?.id),
+  venueName: r.venue?.name,
+  date: r.day,
+  time: String(r.time_slot).slice(0, 5),
+  partySize: Number(r.num_seats),
+  guestName: r.guest ? `${r.guest.first_name || ''} ${r.guest.last_name || ''}`.trim() : undefined,
+  onBehalfOf,
+  details: r,
+});
+
+const resyAdapter: PlatformAdapter = {
+  id: 'resy',
+  label: 'Resy',
+  aliases: [],
+  venue: {
+    requestField: 'resyVenueId',
+    itemColumn: 'resy_venue_id',
+    param: 'venueId',
+    label: 'Venue ID',
+    placeholder: 'e.g., 834',
+    numeric: true,
+  },
+  requiredConfig: ['RESY_AUTH_TOKEN', 'RESY_PAYMENT_ID'],
+  cancellationWindowHours: 24,
+
+  getBaseUrl: () => resyClient.getBaseUrl(),
+
+  getStatus() {
+    const config = resyClient.isConfigured();
+    return {
+      ready: config.ready,
+      details: config,
+      message: config.ready
+        ? '✅ Resy API fully configured and ready'
+        : config.hasAuth
+          ? '⚠️ Missing RESY_PAYMENT_ID in .env'
+          : '❌ Missing RESY_AUTH_TOKEN in .env',
+    };
+  },
+
+  async findSlots({ venueId, date, partySize }) {
+    const slots = await resyClient.findSlots(Number(venueId), date, partySize);
+    return slots.map((slot): PlatformSlot => ({
+      id: slot.config_id,
+      time: slot.time_slot || slot.date?.start,
+      table_type: slot.table?.type || 'Standard',
+      min_guests: slot.size?.min,
+      max_guests: slot.size?.max,
+      deposit: slot.payment?.deposit_fee,
+      cancellation_fee: slot.payment?.cancellation_fee,
+    }));
+  },
+
+  async book(request) {
+    const result = await resyClient.acquire({
+      venueId: Number(request.venueId),
+      date: request.date,
+      partySize: request.partySize,
+      preferredTime: request.time,
+      timeFlexibility: request.timeFlexibility || 60,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.resy_token || result.confirmation,
+      cancellationFee: result.cancellationFee,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async bookForClient(request, client) {
+    const result = await resyClient.bookOnBehalfOf({
+      venueId: Number(request.venueId),
+      date: request.date,
+      partySize: request.partySize,
+      preferredTime: request.time,
+      timeFlexibility: request.timeFlexibility || 60,
+      guestFirstName: client.firstName,
+      guestLastName: client.lastName,
+      guestEmail: client.email,
+      guestPhone: client.phone,
+      specialRequest: client.specialRequest,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.resy_token || result.confirmation,
+      bookedTime: result.bookedTime,
+      bookedUnderName: result.bookedUnderName,
+      cancellationFee: result.cancellationFee,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async validateCredentials(identity) {
+    const { authToken, paymentId } = identityManager.getPlatformCredentials(identity, 'resy');
+    if (!authToken) {
+      return { platform: 'resy', valid: false, message: 'No Resy credentials configured' };
+    }
+
+    try {
+      // Fetch the user profile the token belongs to (from wherever the client points)
+      const response = await axios.get(`${resyClient.getBaseUrl()}/2/user`, {
+        headers: {
+          'authorization': `ResyAPI api_key="VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5"`,
+          'x-resy-auth-token': authToken,
+        },
+        timeout: 10000,
+      });
+
+      if (response.status === 200) {
+        return {
+          platform: 'resy',
+          valid: true,
+          message: `Valid - User: ${response.data?.first_name || 'Unknown'} ${response.data?.last_name || ''}`.trim(),
+          details: {
+            userId: response.data?.id,
+            email: response.data?.email_address,
+            hasPayment: !!paymentId,
+          },
+        };
+      }
+
+      return { platform: 'resy', valid: false, message: 'Token validation failed' };
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        return { platform: 'resy', valid: false, message: 'Token expired or invalid' };
+      }
+      return { platform: 'resy', valid: false, message: `Validation error: ${error.message}` };
+    }
+  },
+
+  async prewarm({ venueId, date, partySize }) {
+    await resyClient.findSlots(Number(venueId), date, partySize);
+  },
+
+  cancel: (confirmationCode) => resyClient.cancelConciergeReservation(confirmationCode),
+
+  search: (query, location) => resyClient.searchVenue(query, location),
+
+  async listReservations(identity) {
+    let client = resyClient;
+    if (identity) {
+      const { authToken, paymentId } = identityManager.getPlatformCredentials(identity, 'resy');
+      client = resyClient.withCredentials(authToken, paymentId);
+    }
+
+    // Concierge bookings are listed separately, and may repeat in the upcoming list
+    const concierge = (await client.getConciergeReservations()).map(r => toReservation(r, true));
+    const own = (await client.getUpcomingReservations())
+      .filter(r => !concierge.some(c => c.confirmationCode === r.resy_token))
+      .map(r => toReservation(r, false));
+    return [...own, ...concierge];
+  },
+};
+
+export default resyAdapter;
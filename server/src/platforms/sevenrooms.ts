@@ -0,0 +1,120 @@
+/**
+ * SevenRooms adapter
+ *
+ * Widget bookings only need guest details, so a client booking is a
+ * standard booking with the client's details in place of ours - no
+ * special account required.
+ */
+
+import sevenRoomsClient from '../services/sevenRoomsApi';
+import identityManager from '../services/identityManager';
+import { PlatformAdapter, PlatformSlot } from './types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const sevenRoomsAdapter: PlatformAdapter = {
+  id: 'sevenrooms',
+  label: 'SevenRooms',
+  aliases: ['seven'],
+  venue: {
+    requestField: 'sevenRoomsSlug',
+    itemColumn: 'sevenrooms_slug',
+    param: 'venueSlug',
+    label: 'Venue Slug',
+    placeholder: 'e.g., carbone-nyc',
+    numeric: false,
+  },
+  requiredConfig: ['User info (name, email) - shared with OpenTable'],
+  cancellationWindowHours: 48,
+
+  getBaseUrl: () => sevenRoomsClient.getBaseUrl(),
+
+  getStatus() {
+    const config = sevenRoomsClient.isConfigured();
+    return {
+      ready: config.ready,
+      details: config,
+      message: config.ready
+        ? '✅ SevenRooms API configured'
+        : '⚠️ SevenRooms requires user info - shares config with OpenTable',
+    };
+  },
+
+  async findSlots({ venueId, date, time, partySize }) {
+    const slots = await sevenRoomsClient.findSlots(venueId, date, time, partySize);
+    return slots.map((slot): PlatformSlot => ({
+      id: slot.accessPersistentId || slot.timeIso,
+      time: slot.time,
+      table_type: slot.publicTimeSlotDescription || 'Standard',
+    }));
+  },
+
+  async book(request) {
+    const result = await sevenRoomsClient.acquire({
+      venueSlug: request.venueId,
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      timeFlexibility: request.timeFlexibility || 60,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.confirmationId,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async bookForClient(request, client) {
+    const result = await sevenRoomsClient.acquire({
+      venueSlug: request.venueId,
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      timeFlexibility: request.timeFlexibility || 60,
+      firstName: client.firstName,
+      lastName: client.lastName,
+      email: client.email,
+      phone: client.phone,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.confirmationId,
+      bookedTime: request.time,
+      bookedUnderName: `${client.firstName} ${client.lastName}`,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async validateCredentials(identity) {
+    // SevenRooms uses guest details, not tokens
+    const { email, firstName, lastName } = identityManager.getPlatformCredentials(identity, 'sevenrooms');
+    if (!email) {
+      return { platform: 'sevenrooms', valid: false, message: 'No SevenRooms credentials configured' };
+    }
+    if (!firstName || !lastName) {
+      return { platform: 'sevenrooms', valid: false, message: 'Missing required fields (email, first name, last name)' };
+    }
+    if (!EMAIL_PATTERN.test(email)) {
+      return { platform: 'sevenrooms', valid: false, message: 'Invalid email format' };
+    }
+
+    return {
+      platform: 'sevenrooms',
+      valid: true,
+      message: `Valid - ${firstName} ${lastName} (${email})`,
+      details: { email, name: `${firstName} ${lastName}` },
+    };
+  },
+
+  async prewarm({ venueId, date, time, partySize }) {
+    await sevenRoomsClient.findSlots(venueId, date, time, partySize);
+  },
+
+  cancel: (confirmationCode) => sevenRoomsClient.cancelReservation(confirmationCode),
+};
+
+export default sevenRoomsAdapter;
@@ -0,0 +1,122 @@
+/**
+ * Tock adapter
+ *
+ * Tock sells prepaid tickets for experiences: a booking is add-to-cart
+ * then checkout, and the slot time is often fixed by the experience.
+ * Cancelling late forfeits the ticket price, so that is the fee.
+ */
+
+import tockClient from '../services/tockApi';
+import identityManager from '../services/identityManager';
+import { PlatformAdapter, PlatformSlot } from './types';
+
+const tockAdapter: PlatformAdapter = {
+  id: 'tock',
+  label: 'Tock',
+  aliases: [],
+  venue: {
+    requestField: 'tockSlug',
+    itemColumn: 'tock_slug',
+    param: 'venueSlug',
+    label: 'Venue Slug',
+    placeholder: 'e.g., alinea',
+    numeric: false,
+  },
+  requiredConfig: ['TOCK_AUTH_TOKEN', 'TOCK_EMAIL'],
+  cancellationWindowHours: 72,
+
+  getBaseUrl: () => tockClient.getBaseUrl(),
+
+  getStatus() {
+    const config = tockClient.isConfigured();
+    return {
+      ready: config.ready,
+      details: config,
+      message: config.ready
+        ? '✅ Tock API configured'
+        : '❌ Missing TOCK_AUTH_TOKEN in .env',
+    };
+  },
+
+  async findSlots({ venueId, date, partySize }) {
+    const slots = await tockClient.findSlots(venueId, date, partySize);
+    return slots.map((slot): PlatformSlot => ({
+      id: slot.id,
+      time: slot.startTime,
+      table_type: slot.experienceName || 'Standard',
+      deposit: slot.price,
+    }));
+  },
+
+  async book(request) {
+    const result = await tockClient.acquire({
+      venueSlug: request.venueId,
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      experienceId: request.experienceId,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.confirmationId,
+      cancellationFee: result.details?.total ?? null,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async bookForClient(request, client) {
+    const result = await tockClient.acquire({
+      venueSlug: request.venueId,
+      date: request.date,
+      time: request.time,
+      partySize: request.partySize,
+      experienceId: request.experienceId,
+      firstName: client.firstName,
+      lastName: client.lastName,
+      email: client.email,
+      phone: client.phone,
+    });
+
+    return {
+      success: result.success,
+      confirmationCode: result.confirmationId,
+      bookedTime: request.time,
+      bookedUnderName: `${client.firstName} ${client.lastName}`,
+      cancellationFee: result.details?.total ?? null,
+      error: result.error,
+      details: result.details,
+    };
+  },
+
+  async validateCredentials(identity) {
+    const { authToken } = identityManager.getPlatformCredentials(identity, 'tock');
+    if (!authToken) {
+      return { platform: 'tock', valid: false, message: 'No Tock credentials configured' };
+    }
+
+    // Like OpenTable, a real check takes a booking attempt
+    if (authToken.length < 10) {
+      return { platform: 'tock', valid: false, message: 'Invalid auth token format' };
+    }
+
+    return {
+      platform: 'tock',
+      valid: true,
+      message: 'Token format valid (full validation requires booking attempt)',
+      details: {
+        tokenLength: authToken.length,
+        warning: 'Cannot fully validate without booking attempt',
+      },
+    };
+  },
+
+  async prewarm({ venueId, date, partySize }) {
+    await tockClient.findSlots(venueId, date, partySize);
+  },
+
+  cancel: (confirmationCode) => tockClient.cancelReservation(confirmationCode),
+};
+
+export default tockAdapter;
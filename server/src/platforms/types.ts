@@ -0,0 +1,152 @@
+/**
+ * Platform Adapter Contract
+ *
+ * Everything the engine, routes and validators need from a booking
+ * platform. Each platform implements it in one module next to this file,
+ * wrapping its API client (src/services/*Api.ts), and is listed in the
+ * registry (index.ts).
+ */
+
+import type { BookingIdentity } from '../services/identityManager';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PlatformId = 'resy' | 'opentable' | 'sevenrooms' | 'tock';
+
+/**
+ * Where a platform's venue identifier lives in each layer
+ */
+export interface VenueField {
+  requestField: 'resyVenueId' | 'openTableId' | 'sevenRoomsSlug' | 'tockSlug';  // AcquisitionRequest
+  itemColumn: 'resy_venue_id' | 'opentable_id' | 'sevenrooms_slug' | 'tock_slug';  // portfolio_items
+  param: string;          // Query/body parameter the direct routes accept
+  label: string;          // "Venue ID", "Venue Slug"...
+  placeholder: string;
+  numeric: boolean;       // Resy and OpenTable use numeric IDs
+}
+
+export interface SlotQuery {
+  venueId: string;
+  date: string;           // YYYY-MM-DD
+  time: string;           // HH:MM (24h)
+  partySize: number;
+}
+
+export interface BookingRequest extends SlotQuery {
+  timeFlexibility?: number;   // Minutes either side of `time`
+  experienceId?: string;      // Tock
+}
+
+export interface ClientInfo {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  specialRequest?: string;
+}
+
+/**
+ * A slot in the shape the dashboard renders, whatever the platform
+ */
+export interface PlatformSlot {
+  id: string;             // The platform's handle for the slot (Resy config_id, OpenTable slot hash...)
+  time: string;           // As the platform reports it
+  table_type: string;
+  deposit?: number | null;
+  cancellation_fee?: number | null;
+  min_guests?: number;
+  max_guests?: number;
+}
+
+export interface PlatformBookingResult {
+  success: boolean;
+  confirmationCode?: string;
+  bookedTime?: string;        // When the platform told us (else the caller's requested time)
+  bookedUnderName?: string;   // Client bookings
+  cancellationFee?: number | null;  // Charged for cancelling inside the penalty window
+  error?: string;
+  details?: any;
+}
+
+/**
+ * A booking on one of our platform accounts, as the platform lists it
+ */
+export interface PlatformReservation {
+  confirmationCode: string;   // Same code book()/bookForClient() return
+  venueId: string;
+  venueName?: string;
+  date: string;               // YYYY-MM-DD
+  time: string;               // HH:MM (24h)
+  partySize: number;
+  guestName?: string;         // Client bookings
+  onBehalfOf: boolean;        // Booked for a client (concierge)
+  details?: any;
+}
+
+export interface PlatformStatus {
+  ready: boolean;
+  details: any;           // The client's isConfigured() flags
+  message: string;
+}
+
+export interface ValidationResult {
+  platform: string;
+  valid: boolean;
+  message: string;
+  expiresAt?: Date;
+  details?: any;
+}
+
+// ============================================
+// CONTRACT
+// ============================================
+
+export interface PlatformAdapter {
+  id: PlatformId;
+  label: string;
+  aliases: string[];          // Other spellings in free-text platform fields ("seven")
+  venue: VenueField;
+  requiredConfig: string[];   // Env vars the client needs
+  cancellationWindowHours: number;  // Typical penalty window: cancel at least this long before the reservation
+
+  getBaseUrl(): string;
+  getStatus(): PlatformStatus;
+
+  findSlots(query: SlotQuery): Promise<PlatformSlot[]>;
+
+  /** Book under the account's own credentials (standard mode) */
+  book(request: BookingRequest): Promise<PlatformBookingResult>;
+
+  /** Book under a client's name (concierge mode) */
+  bookForClient(request: BookingRequest, client: ClientInfo): Promise<PlatformBookingResult>;
+
+  validateCredentials(identity: BookingIdentity): Promise<ValidationResult>;
+
+  /** Non-booking call ahead of a drop so the first real request skips the handshake */
+  prewarm(query: SlotQuery): Promise<void>;
+
+  /** Release a booking, by the confirmation code book()/bookForClient() returned */
+  cancel(confirmationCode: string): Promise<{ success: boolean; error?: string }>;
+
+  // Not every platform's API client supports these
+  search?(query: string, location?: string): Promise<any[]>;
+
+  /** Upcoming bookings on the account - the server's own, or an identity's. Throws if the platform can't be reached. */
+  listReservations?(identity?: BookingIdentity): Promise<PlatformReservation[]>;
+}
+
+/**
+ * What the dashboard needs to list a platform
+ */
+export interface PlatformDescriptor {
+  id: PlatformId;
+  label: string;
+  venue: Pick<VenueField, 'requestField' | 'param' | 'label' | 'placeholder' | 'numeric'>;
+  requiredConfig: string[];
+  capabilities: { search: boolean; cancel: boolean; reservations: boolean };
+  ready: boolean;
+  details: any;
+  message: string;
+}
@@ -5,20 +5,31 @@
  * - Dynamic Pricing Engine
  * - Drop Pattern Learning
  * - Acquisition History
+ * - Drop Traces (per-execution post-mortems)
  * - Competition Monitor
  * - Communication Templates
  * - Credential Validation
  */
 
 import { Router } from 'express';
-import pricingEngine from '../services/pricingEngine';
+import pricingEngine, { DEFAULT_PRICING_CONFIG } from '../services/pricingEngine';
+import pricingBacktest, { InvalidPricingConfigError, InvalidBacktestPeriodError } from '../services/pricingBacktest';
+import priceModel from '../services/priceModel';
+import { actorFromRequest } from '../services/auditLog';
 import dropPatternLearning from '../services/dropPatternLearning';
 import competitionMonitor from '../services/competitionMonitor';
 import communicationTemplates from '../services/communicationTemplates';
 import credentialValidator from '../services/credentialValidator';
+import dropTrace from '../services/dropTrace';
 
 const router = Router();
 
+/** A positive integer route param, or null */
+const parseId = (value: string): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
 // ============================================
 // DYNAMIC PRICING ENGINE
 // ============================================
@@ -73,16 +84,20 @@ router.get('/pricing/stats', async (req, res) => {
  * GET /api/analytics/pricing/tiers
  * Get all restaurant tiers
  */
-router.get('/pricing/tiers', (req, res) => {
-  const tiers = pricingEngine.getRestaurantTiers();
-  res.json({ success: true, tiers });
+router.get('/pricing/tiers', async (req, res) => {
+  try {
+    const tiers = await pricingEngine.getRestaurantTiers();
+    res.json({ success: true, tiers });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
 });
 
 /**
  * POST /api/analytics/pricing/tiers
- * Add/update a restaurant tier
+ * Add/update a restaurant tier (used for restaurants the price model hasn't seen enough of)
  */
-router.post('/pricing/tiers', (req, res) => {
+router.post('/pricing/tiers', async (req, res) => {
   const { name, tier, basePrice } = req.body;
   
   if (!name || !tier || !basePrice) {
@@ -92,27 +107,139 @@ router.post('/pricing/tiers', (req, res) => {
     });
   }
   
-  pricingEngine.addRestaurantTier(name, tier, basePrice);
-  res.json({ success: true, message: `Tier added for ${name}` });
+  try {
+    await pricingEngine.addRestaurantTier(name, Number(tier), Number(basePrice));
+    res.json({ success: true, message: `Tier added for ${name}` });
+  } catch (error: any) {
+    const status = /must be/.test(error.message) ? 400 : 500;
+    res.status(status).json({ success: false, error: error.message });
+  }
 });
 
-// ============================================
-// DROP PATTERN LEARNING
-// ============================================
+/**
+ * GET /api/analytics/pricing/model
+ * The price model in use and recent versions
+ */
+router.get('/pricing/model', async (req, res) => {
+  try {
+    const active = await priceModel.getActive();
+    const versions = await priceModel.listVersions();
+    res.json({
+      success: true,
+      model: active && {
+        version: active.version,
+        trainedAt: active.trainedAt,
+        trainingRows: active.trainingRows,
+        rowsBySource: active.rowsBySource,
+        metrics: active.metrics,
+        restaurants: Object.keys(active.parameters.restaurants).length,
+      },
+      versions,
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/analytics/pricing/model/train
+ * Retrain the price model now instead of waiting for the schedule
+ */
+router.post('/pricing/model/train', async (req, res) => {
+  try {
+    const { model, reason } = await priceModel.train(actorFromRequest(req).actor);
+    if (!model) {
+      return res.status(422).json({ success: false, error: reason });
+    }
+    const { parameters, ...summary } = model;
+    res.json({ success: true, model: summary });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/analytics/pricing/backtest
+ * Stored backtests (newest first) and the current config they change
+ */
+router.get('/pricing/backtest', async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await pricingBacktest.list(limit);
+    res.json({ success: true, runs, defaults: DEFAULT_PRICING_CONFIG });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/analytics/pricing/backtest
+ * Replay past listings against a candidate pricing config and store the result
+ * Body: { name, config?, from?, to? } - config holds only the values to change
+ */
+router.post('/pricing/backtest', async (req, res) => {
+  const { name, config, from, to } = req.body;
+
+  if (!name) {
+    return res.status(400).json({ success: false, error: 'name is required' });
+  }
+
+  try {
+    const run = await pricingBacktest.run({ name, config, from, to, runBy: actorFromRequest(req).actor });
+    res.json({ success: true, run });
+  } catch (error: any) {
+    const invalid = error instanceof InvalidPricingConfigError || error instanceof InvalidBacktestPeriodError;
+    const status = invalid ? 400 : 500;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
 
 /**
- * POST /api/analytics/patterns/init
- * Initialize pattern tables
+ * GET /api/analytics/pricing/backtest/:id
+ * One stored backtest
  */
-router.post('/patterns/init', async (req, res) => {
+router.get('/pricing/backtest/:id', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ success: false, error: 'id must be a positive integer' });
+  }
+
   try {
-    await dropPatternLearning.initTable();
-    res.json({ success: true, message: 'Pattern tables initialized' });
+    const run = await pricingBacktest.get(id);
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Backtest not found' });
+    }
+    res.json({ success: true, run });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+/**
+ * DELETE /api/analytics/pricing/backtest/:id
+ * Remove a stored backtest
+ */
+router.delete('/pricing/backtest/:id', async (req, res) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ success: false, error: 'id must be a positive integer' });
+  }
+
+  try {
+    const removed = await pricingBacktest.remove(id);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: 'Backtest not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ============================================
+// DROP PATTERN LEARNING
+// ============================================
+
 /**
  * GET /api/analytics/patterns
  * Get all known drop patterns
@@ -191,7 +318,7 @@ router.post('/patterns', async (req, res) => {
  */
 router.post('/attempts', async (req, res) => {
   try {
-    const { restaurantName, platform, targetDate, attemptTime, success, confirmationCode, error, identityId } = req.body;
+    const { restaurantName, platform, targetDate, attemptTime, success, confirmationCode, error, identityId, timezone } = req.body;
     
     if (!restaurantName || !platform || !targetDate || success === undefined) {
       return res.status(400).json({
@@ -208,6 +335,7 @@ router.post('/attempts', async (req, res) => {
       success,
       confirmationCode,
       error,
+      timezone,
     }, identityId);
     
     res.json({ success: true, message: 'Attempt recorded' });
@@ -244,22 +372,49 @@ router.get('/success-stats', async (req, res) => {
 });
 
 // ============================================
-// COMPETITION MONITOR
+// DROP TRACES
 // ============================================
 
 /**
- * POST /api/analytics/competition/init
- * Initialize competition tables
+ * GET /api/analytics/drops
+ * Recent drop executions with their verdicts (?itemId=&limit=)
+ */
+router.get('/drops', async (req, res) => {
+  try {
+    const traces = await dropTrace.getTraces({
+      portfolioItemId: req.query.itemId as string | undefined,
+      limit: parseInt(req.query.limit as string) || 50,
+    });
+    res.json({ success: true, count: traces.length, traces });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/analytics/drops/:id
+ * One drop execution with its full timeline
  */
-router.post('/competition/init', async (req, res) => {
+router.get('/drops/:id', async (req, res) => {
   try {
-    await competitionMonitor.initTable();
-    res.json({ success: true, message: 'Competition tables initialized' });
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ success: false, error: 'id must be a positive integer' });
+    }
+    const trace = await dropTrace.getTrace(id);
+    if (!trace) {
+      return res.status(404).json({ success: false, error: 'Trace not found' });
+    }
+    res.json({ success: true, trace });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+// ============================================
+// COMPETITION MONITOR
+// ============================================
+
 /**
  * GET /api/analytics/competition/listings
  * Get all active competitor listings
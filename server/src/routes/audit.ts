@@ -0,0 +1,83 @@
+/**
+ * Audit Routes
+ *
+ * Read-only access to the audit trail: who booked, transferred or
+ * changed what, from which channel, and what the platform answered.
+ * Events are written by the services themselves - there is no POST.
+ */
+
+import express from 'express';
+import auditLog, { AuditSource } from '../services/auditLog';
+
+const router = express.Router();
+
+const toInt = (value: unknown): number | undefined =>
+  value === undefined ? undefined : parseInt(String(value)) || undefined;
+
+/**
+ * GET /api/audit
+ * Search events. Filters: portfolioItemId, clientId, transferId, identityId,
+ * action ('transfer.' matches every transfer event), source, userId,
+ * since, until, before (id cursor), limit
+ */
+router.get('/', async (req, res) => {
+  try {
+    const q = req.query;
+    const events = await auditLog.query({
+      portfolioItemId: q.portfolioItemId as string | undefined,
+      clientId: toInt(q.clientId),
+      transferId: toInt(q.transferId),
+      identityId: toInt(q.identityId),
+      action: q.action as string | undefined,
+      source: q.source as AuditSource | undefined,
+      actorUserId: toInt(q.userId),
+      since: q.since as string | undefined,
+      until: q.until as string | undefined,
+      before: toInt(q.before),
+      limit: toInt(q.limit),
+    });
+    res.json({ success: true, count: events.length, events });
+  } catch (error: any) {
+    console.error('[Audit API] Error querying events:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/audit/portfolio/:itemId
+ * Timeline for a portfolio item (acquisitions, Telegram actions, transfers)
+ */
+router.get('/portfolio/:itemId', async (req, res) => {
+  try {
+    const events = await auditLog.getItemTimeline(req.params.itemId, toInt(req.query.limit) || 200);
+    res.json({ success: true, count: events.length, events });
+  } catch (error: any) {
+    console.error('[Audit API] Error fetching item timeline:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/audit/clients/:clientId
+ * Timeline for a concierge client (booking requests, bookings made for them)
+ */
+router.get('/clients/:clientId', async (req, res) => {
+  // NaN would drop the filter and return every client's events
+  const clientId = Number(req.params.clientId);
+  if (!Number.isInteger(clientId) || clientId <= 0) {
+    return res.status(400).json({ success: false, error: 'clientId must be a positive integer' });
+  }
+
+  try {
+    const events = await auditLog.query({
+      clientId,
+      limit: toInt(req.query.limit) || 200,
+    });
+    res.json({ success: true, count: events.length, events });
+  } catch (error: any) {
+    console.error('[Audit API] Error fetching client timeline:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,165 @@
+/**
+ * Auth Routes
+ *
+ * Login/logout for the dashboard, plus user account management
+ * (operators only). Everything except /login needs a session.
+ */
+
+import express from 'express';
+import authService from '../services/authService';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { ROLE_PERMISSIONS } from '../shared/permissions';
+
+const router = express.Router();
+
+// =====================================================
+// SESSIONS
+// =====================================================
+
+/**
+ * POST /api/auth/login
+ * Exchange email + password for a bearer token
+ */
+router.post('/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+    if (!email || !password || typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'email and password are required' });
+    }
+
+    const session = await authService.login(email, password);
+    if (!session) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    res.json({ ...session, permissions: ROLE_PERMISSIONS[session.user.role] });
+  } catch (error: any) {
+    console.error('[Auth API] Error logging in:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.use(requireAuth);
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    await authService.logout(req.sessionToken!);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[Auth API] Error logging out:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Current user and what their role allows
+ */
+router.get('/me', (req, res) => {
+  res.json({ user: req.user, permissions: ROLE_PERMISSIONS[req.user!.role] });
+});
+
+// =====================================================
+// USER MANAGEMENT
+// =====================================================
+
+router.use('/users', requirePermission('users:manage'));
+
+/**
+ * GET /api/auth/users
+ * List all user accounts
+ */
+router.get('/users', async (req, res) => {
+  try {
+    const users = await authService.listUsers();
+    res.json(users);
+  } catch (error: any) {
+    console.error('[Auth API] Error fetching users:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/auth/users
+ * Create a user account
+ */
+router.post('/users', async (req, res) => {
+  try {
+    const { email, password, name, role } = req.body;
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Missing required fields: email, password' });
+    }
+
+    try {
+      authService.validateUserInput({ email, password, role });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const user = await authService.createUser({ email, password, name, role });
+    res.status(201).json(user);
+  } catch (error: any) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: 'A user with this email already exists' });
+    }
+    console.error('[Auth API] Error creating user:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * PUT /api/auth/users/:id
+ * Change a user's name, role, password or active flag
+ */
+router.put('/users/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (id === req.user!.id && (req.body.role || req.body.is_active === false)) {
+      return res.status(400).json({ error: 'You cannot change your own role or deactivate yourself' });
+    }
+
+    const { name, role, is_active, password } = req.body;
+    try {
+      authService.validateUserInput({ password, role });
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const user = await authService.updateUser(id, { name, role, is_active, password });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json(user);
+  } catch (error: any) {
+    console.error('[Auth API] Error updating user:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /api/auth/users/:id
+ * Delete a user account (and its sessions)
+ */
+router.delete('/users/:id', async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (id === req.user!.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const deleted = await authService.deleteUser(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[Auth API] Error deleting user:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
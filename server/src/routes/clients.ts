@@ -9,6 +9,8 @@
 
 import express from 'express';
 import clientManager from '../services/clientManager';
+import auditLog, { actorFromRequest } from '../services/auditLog';
+import fulfillmentWorker from '../services/fulfillmentWorker';
 
 const router = express.Router();
 
@@ -259,6 +261,16 @@ router.post('/:id/requests', async (req, res) => {
       ...req.body
     });
     
+    await auditLog.record({
+      action: 'booking_request.created',
+      outcome: 'success',
+      actor: actorFromRequest(req),
+      platform: request.platform,
+      clientId,
+      request: req.body,
+      response: { requestId: request.id, status: request.status },
+    });
+    
     res.status(201).json(request);
   } catch (error: any) {
     console.error('[Clients API] Error creating booking request:', error);
@@ -292,13 +304,26 @@ router.put('/requests/:requestId/status', async (req, res) => {
       return res.status(400).json({ error: 'Status is required' });
     }
 
-    await clientManager.updateBookingRequestStatus(
+    const request = await clientManager.updateBookingRequestStatus(
       parseInt(req.params.requestId),
       status,
       transfer_id,
       failure_reason
     );
     
+    if (request) {
+      await auditLog.record({
+        action: `booking_request.${status}`,
+        outcome: status === 'failed' ? 'failure' : 'info',
+        actor: actorFromRequest(req),
+        platform: request.platform,
+        clientId: request.client_id,
+        transferId: transfer_id || null,
+        request: { requestId: request.id, status, transfer_id, failure_reason },
+        error: failure_reason || null,
+      });
+    }
+    
     res.json({ success: true, message: 'Booking request updated' });
   } catch (error: any) {
     console.error('[Clients API] Error updating booking request:', error);
@@ -318,6 +343,13 @@ router.post('/:id/record-booking', async (req, res) => {
   try {
     const { service_fee } = req.body;
     await clientManager.recordBooking(parseInt(req.params.id), service_fee);
+    await auditLog.record({
+      action: 'client.booking_recorded',
+      outcome: 'success',
+      actor: actorFromRequest(req),
+      clientId: parseInt(req.params.id),
+      request: { service_fee },
+    });
     res.json({ success: true, message: 'Booking recorded' });
   } catch (error: any) {
     console.error('[Clients API] Error recording booking:', error);
@@ -325,5 +357,51 @@ router.post('/:id/record-booking', async (req, res) => {
   }
 });
 
+// =====================================================
+// FULFILLMENT WORKER
+// =====================================================
+
+/**
+ * GET /api/clients/fulfillment/status
+ * Whether the worker is running and what its last passes did
+ */
+router.get('/fulfillment/status', (req, res) => {
+  res.json({ success: true, ...fulfillmentWorker.getStatus() });
+});
+
+/**
+ * POST /api/clients/fulfillment/start
+ * Start working pending booking requests in the background
+ */
+router.post('/fulfillment/start', async (req, res) => {
+  fulfillmentWorker.start();
+  await auditLog.record({ action: 'fulfillment.start', actor: actorFromRequest(req) });
+  res.json({ success: true, ...fulfillmentWorker.getStatus() });
+});
+
+/**
+ * POST /api/clients/fulfillment/stop
+ * Stop the worker (requests being searched finish first)
+ */
+router.post('/fulfillment/stop', async (req, res) => {
+  fulfillmentWorker.stop();
+  await auditLog.record({ action: 'fulfillment.stop', actor: actorFromRequest(req) });
+  res.json({ success: true, ...fulfillmentWorker.getStatus() });
+});
+
+/**
+ * POST /api/clients/fulfillment/run
+ * Run a single pass over the queue now
+ */
+router.post('/fulfillment/run', async (req, res) => {
+  try {
+    const result = await fulfillmentWorker.runOnce();
+    res.json({ success: true, result });
+  } catch (error: any) {
+    console.error('[Clients API] Error running fulfillment:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,63 @@
+/**
+ * Event Stream Routes
+ *
+ * Live updates for the dashboard as Server-Sent Events (see
+ * services/eventStream.ts and shared/serverEvents.ts).
+ */
+
+import express from 'express';
+import eventStream from '../services/eventStream';
+import { RESYNC_EVENT, ServerEvent } from '../shared/serverEvents';
+
+const router = express.Router();
+
+// Comment line that keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+const format = (event: ServerEvent) =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * GET /api/events
+ * Event stream for the signed-in user. Resume with the Last-Event-ID header
+ * (or ?lastEventId=): missed events are replayed first, or a 'resync' event
+ * is sent when they're no longer all available.
+ */
+router.get('/', (req, res) => {
+  const role = req.user!.role;
+  const resumeFrom = req.header('Last-Event-ID') ?? req.query.lastEventId;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',  // Nginx: don't hold events back
+  });
+
+  const send = (event: ServerEvent) => {
+    if (eventStream.canReceive(role, event)) res.write(format(event));
+  };
+
+  if (resumeFrom === undefined || resumeFrom === '') {
+    // New connection: start counting from now
+    res.write(`retry: 3000\nid: ${eventStream.latestId}\n\n`);
+  } else {
+    const replay = eventStream.since(Number(resumeFrom));
+    if (replay.complete) {
+      replay.events.forEach(send);
+    } else {
+      // Carries the current id, so the next reconnect resumes from here
+      res.write(`id: ${eventStream.latestId}\nevent: ${RESYNC_EVENT}\ndata: {}\n\n`);
+    }
+  }
+
+  const unsubscribe = eventStream.subscribe(send);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
@@ -4,11 +4,36 @@
  * Handles CRUD operations for booking identities and usage tracking.
  */
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import identityManager from '../services/identityManager';
+import credentialVault from '../services/credentialVault';
+import auditLog, { actorFromRequest } from '../services/auditLog';
+import credentialValidator from '../services/credentialValidator';
+import credentialHealth, { CREDENTIAL_PLATFORMS } from '../services/credentialHealth';
 
 const router = Router();
 
+/**
+ * Audit a credential change. Only field names are kept - which secrets
+ * changed, never their values.
+ */
+const auditIdentity = (req: Request, action: string, identityId: number) =>
+  auditLog.record({
+    action,
+    outcome: 'success',
+    actor: actorFromRequest(req),
+    identityId,
+    request: { fields: Object.keys(req.body || {}).filter(key => req.body[key] !== undefined) },
+  });
+
+/**
+ * Platforms whose credential fields appear in the request body
+ */
+const changedPlatforms = (body: Record<string, unknown> = {}) =>
+  CREDENTIAL_PLATFORMS.filter(platform =>
+    Object.keys(body).some(key => key.startsWith(`${platform}_`) && body[key] !== undefined)
+  );
+
 /**
  * GET /api/identities
  * Get all active identities
@@ -18,14 +43,7 @@ router.get('/', async (req, res) => {
     const identities = await identityManager.getAllIdentities();
     
     // Mask sensitive credentials in response
-    const safeIdentities = identities.map(identity => ({
-      ...identity,
-      resy_auth_token: identity.resy_auth_token ? '***configured***' : null,
-      resy_payment_id: identity.resy_payment_id ? '***configured***' : null,
-      opentable_csrf_token: identity.opentable_csrf_token ? '***configured***' : null,
-      opentable_session_cookie: identity.opentable_session_cookie ? '***configured***' : null,
-      tock_auth_token: identity.tock_auth_token ? '***configured***' : null,
-    }));
+    const safeIdentities = identities.map(identity => credentialVault.mask(identity));
     
     res.json({ success: true, identities: safeIdentities });
   } catch (error: any) {
@@ -48,6 +66,36 @@ router.get('/stats', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/identities/health
+ * Credential health per identity and platform (last valid, failing since, expiry)
+ */
+router.get('/health', async (req, res) => {
+  try {
+    const health = await credentialHealth.getHealth();
+    res.json({ success: true, health });
+  } catch (error: any) {
+    console.error('[API] Error fetching credential health:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/identities/health/check
+ * Validate every identity's credentials now and send any re-auth alerts
+ */
+router.post('/health/check', async (req, res) => {
+  try {
+    const results = await credentialValidator.validateAllIdentities();
+    const alerts = await credentialHealth.sendAlerts();
+    const health = await credentialHealth.getHealth();
+    res.json({ success: true, validated: results.length, alerts, health });
+  } catch (error: any) {
+    console.error('[API] Error checking credential health:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * GET /api/identities/:id
  * Get a specific identity by ID
@@ -60,14 +108,7 @@ router.get('/:id', async (req, res) => {
     }
     
     // Mask sensitive credentials
-    const safeIdentity = {
-      ...identity,
-      resy_auth_token: identity.resy_auth_token ? '***configured***' : null,
-      resy_payment_id: identity.resy_payment_id ? '***configured***' : null,
-      opentable_csrf_token: identity.opentable_csrf_token ? '***configured***' : null,
-      opentable_session_cookie: identity.opentable_session_cookie ? '***configured***' : null,
-      tock_auth_token: identity.tock_auth_token ? '***configured***' : null,
-    };
+    const safeIdentity = credentialVault.mask(identity);
     
     res.json({ success: true, identity: safeIdentity });
   } catch (error: any) {
@@ -104,6 +145,9 @@ router.post('/', async (req, res) => {
       monthly_limit
     });
     
+    await auditIdentity(req, 'identity.created', identity.id);
+    await credentialHealth.recordCredentialsChanged(identity);
+    
     res.json({ success: true, identity: { id: identity.id, name: identity.name } });
   } catch (error: any) {
     console.error('[API] Error creating identity:', error);
@@ -121,6 +165,11 @@ router.put('/:id', async (req, res) => {
     if (!identity) {
       return res.status(404).json({ success: false, error: 'Identity not found or no valid fields to update' });
     }
+    await auditIdentity(req, 'identity.updated', identity.id);
+    const platforms = changedPlatforms(req.body);
+    if (platforms.length > 0) {
+      await credentialHealth.recordCredentialsChanged(identity, platforms);
+    }
     res.json({ success: true, identity: { id: identity.id, name: identity.name } });
   } catch (error: any) {
     console.error('[API] Error updating identity:', error);
@@ -138,6 +187,7 @@ router.delete('/:id', async (req, res) => {
     if (!success) {
       return res.status(404).json({ success: false, error: 'Identity not found' });
     }
+    await auditIdentity(req, 'identity.deleted', parseInt(req.params.id));
     res.json({ success: true });
   } catch (error: any) {
     console.error('[API] Error deleting identity:', error);
@@ -152,6 +202,7 @@ router.delete('/:id', async (req, res) => {
 router.post('/reset-monthly', async (req, res) => {
   try {
     await identityManager.resetMonthlyCounts();
+    await auditLog.record({ action: 'identity.monthly_reset', outcome: 'success', actor: actorFromRequest(req) });
     res.json({ success: true, message: 'Monthly counts reset' });
   } catch (error: any) {
     console.error('[API] Error resetting monthly counts:', error);
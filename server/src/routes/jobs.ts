@@ -0,0 +1,104 @@
+/**
+ * Scheduled Job Routes
+ *
+ * Status, history and control of the built-in recurring jobs (daily
+ * summary, weekly P&L, monthly identity reset, credential checks, price
+ * updates). The jobs run on their own - these endpoints are for looking
+ * at them, running one early, or changing when they run.
+ */
+
+import express from 'express';
+import jobScheduler from '../services/jobScheduler';
+import auditLog, { actorFromRequest } from '../services/auditLog';
+
+const router = express.Router();
+
+/**
+ * GET /api/jobs
+ * Every job with its schedule, next run and last outcome
+ */
+router.get('/', async (req, res) => {
+  try {
+    const jobs = await jobScheduler.getJobs();
+    res.json({ success: true, schedulerRunning: jobScheduler.isRunning(), jobs });
+  } catch (error: any) {
+    console.error('[Jobs API] Error listing jobs:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/jobs/:name/runs
+ * Recent runs of one job, newest first (?limit=, default 20)
+ */
+router.get('/:name/runs', async (req, res) => {
+  try {
+    const job = await jobScheduler.getJob(req.params.name);
+    if (!job) {
+      return res.status(404).json({ success: false, error: `Unknown job: ${req.params.name}` });
+    }
+    const runs = await jobScheduler.getRuns(job.name, parseInt(String(req.query.limit)) || 20);
+    res.json({ success: true, job, runs });
+  } catch (error: any) {
+    console.error('[Jobs API] Error fetching runs:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/jobs/:name/run
+ * Run a job now; its regular schedule is unaffected
+ */
+router.post('/:name/run', async (req, res) => {
+  try {
+    if (!(await jobScheduler.getJob(req.params.name))) {
+      return res.status(404).json({ success: false, error: `Unknown job: ${req.params.name}` });
+    }
+    const run = await jobScheduler.runNow(req.params.name, actorFromRequest(req));
+    if (!run) {
+      return res.status(409).json({ success: false, error: `${req.params.name} is already running` });
+    }
+    res.json({ success: run.status === 'success', run });
+  } catch (error: any) {
+    console.error('[Jobs API] Error running job:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * PUT /api/jobs/:name
+ * Change a job's schedule and/or turn it on or off.
+ * Body: { schedule?: "Daily at 9:00 PM" | drop rule object | null, enabled?: boolean | null }
+ * null clears the override (back to JOB_<NAME>_SCHEDULE or the default).
+ */
+router.put('/:name', async (req, res) => {
+  try {
+    if (!(await jobScheduler.getJob(req.params.name))) {
+      return res.status(404).json({ success: false, error: `Unknown job: ${req.params.name}` });
+    }
+    const { schedule, enabled } = req.body;
+    if (enabled !== undefined && enabled !== null && typeof enabled !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'enabled must be true, false or null' });
+    }
+
+    let job;
+    try {
+      job = await jobScheduler.updateJob(req.params.name, { schedule, enabled });
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    await auditLog.record({
+      action: 'job.updated',
+      actor: actorFromRequest(req),
+      request: { job: job.name, schedule, enabled },
+      response: { scheduleText: job.scheduleText, enabled: job.enabled, nextRunAt: job.nextRunAt },
+    });
+    res.json({ success: true, job });
+  } catch (error: any) {
+    console.error('[Jobs API] Error updating job:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
@@ -7,7 +7,7 @@
 import { Router } from 'express';
 import telegram from '../sniper/telegram';
 import pricingEngine from '../services/pricingEngine';
-import pool from '../db';
+import digestReports from '../services/digestReports';
 
 const router = Router();
 
@@ -156,49 +156,11 @@ router.post('/transfer-complete', async (req, res) => {
 
 /**
  * POST /api/notifications/daily-summary
- * Send daily summary
+ * Send the daily summary now (also sent nightly by the daily-summary job)
  */
 router.post('/daily-summary', async (req, res) => {
   try {
-    // Get stats from database
-    let stats = {
-      acquisitions: 0,
-      sales: 0,
-      revenue: 0,
-      pendingTransfers: 0,
-    };
-    
-    if (pool) {
-      const client = await pool.connect();
-      try {
-        // Today's acquisitions
-        const acqResult = await client.query(`
-          SELECT COUNT(*) as count FROM acquisition_attempts
-          WHERE success = true AND DATE(created_at) = CURRENT_DATE
-        `);
-        stats.acquisitions = parseInt(acqResult.rows[0]?.count) || 0;
-        
-        // Today's sales
-        const salesResult = await client.query(`
-          SELECT COUNT(*) as count, COALESCE(SUM(sale_price), 0) as revenue
-          FROM transfers
-          WHERE status IN ('SOLD', 'COMPLETED')
-            AND DATE(sold_at) = CURRENT_DATE
-        `);
-        stats.sales = parseInt(salesResult.rows[0]?.count) || 0;
-        stats.revenue = parseFloat(salesResult.rows[0]?.revenue) || 0;
-        
-        // Pending transfers
-        const pendingResult = await client.query(`
-          SELECT COUNT(*) as count FROM transfers
-          WHERE status = 'TRANSFER_PENDING'
-        `);
-        stats.pendingTransfers = parseInt(pendingResult.rows[0]?.count) || 0;
-      } finally {
-        client.release();
-      }
-    }
-    
+    const stats = await digestReports.getDailySummary();
     await telegram.notifyDailySummary(stats);
     res.json({ success: true, stats });
   } catch (error: any) {
@@ -1,8 +1,76 @@
 import { Router } from 'express';
 import pool from '../db';
+import recurringDrops from '../sniper/recurringDrops';
+import reservationLifecycle from '../services/reservationLifecycle';
+import { actorFromRequest } from '../services/auditLog';
+import { hasPermission } from '../shared/permissions';
+import { InvalidTransitionError, ReservationStatus, toReservationStatus } from '../shared/reservationLifecycle';
+import { normalizeDate } from '../shared/dropTime';
+import type { AuditActor } from '../services/auditLog';
 
 const router = Router();
 
+// Items go out in the dashboard's shape (PortfolioItem in client/types.ts).
+// updatedAt is the version a PUT was edited from: if the row changed since,
+// the PUT is refused with 409 code 'conflict' and the current item.
+const toPortfolioItem = (row: any) => ({
+  id: row.id,
+  restaurantName: row.restaurant_name,
+  date: normalizeDate(row.date),
+  time: String(row.time).slice(0, 5),
+  guests: row.guests,
+  costBasis: Number(row.cost_basis || 0),
+  listPrice: Number(row.list_price || 0),
+  soldPrice: row.sold_price === null ? undefined : Number(row.sold_price),
+  platform: row.platform,
+  status: row.status,
+  guestName: row.guest_name ?? undefined,
+  dropTime: row.drop_time ? String(row.drop_time).slice(0, 5) : undefined,
+  nextDropDate: row.next_drop_date ? normalizeDate(row.next_drop_date) : undefined,
+  nextDropTime: row.next_drop_time ? String(row.next_drop_time).slice(0, 5) : undefined,
+  dropTimezone: row.drop_timezone ?? undefined,
+  dropRule: row.drop_rule ?? null,
+  venueId: row.resy_venue_id ?? undefined,
+  confirmationNumber: row.confirmation_number ?? undefined,
+  updatedAt: new Date(row.updated_at).toISOString(),
+});
+
+// Insert an item sent in the dashboard's shape; null if the id is taken
+const insertItem = async (body: any, status: ReservationStatus, actor: AuditActor, note?: string) => {
+  const {
+    id, restaurantName, date, time, guests, costBasis, listPrice,
+    soldPrice, platform, guestName, dropTime, nextDropDate,
+    nextDropTime, dropTimezone
+  } = body;
+
+  const result = await pool!.query(
+    `INSERT INTO portfolio_items (
+      id, restaurant_name, date, time, guests, cost_basis, list_price, 
+      sold_price, platform, status, guest_name, drop_time, next_drop_date, 
+      next_drop_time, drop_timezone
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+    ON CONFLICT (id) DO NOTHING
+    RETURNING *`,
+    [id, restaurantName, date, time, guests, costBasis, listPrice, soldPrice, 
+     platform, status, guestName, dropTime || null, nextDropDate || null, nextDropTime || null, dropTimezone]
+  );
+  if (result.rows.length === 0) return null;
+
+  await reservationLifecycle.recordCreated(id, status, actor, note);
+  return result.rows[0];
+};
+
+// Why an item can't be created, or null
+const invalidItem = (body: any): string | null => {
+  if (!body?.id || !body.restaurantName || !body.date || !body.time) {
+    return 'id, restaurantName, date and time are required';
+  }
+  if (body.status !== undefined && !toReservationStatus(body.status)) {
+    return `Unknown status: ${body.status}`;
+  }
+  return null;
+};
+
 // GET all portfolio items
 router.get('/', async (req, res) => {
   if (!pool) {
@@ -12,7 +80,7 @@ router.get('/', async (req, res) => {
     const result = await pool.query(
       'SELECT * FROM portfolio_items ORDER BY created_at DESC'
     );
-    res.json(result.rows);
+    res.json(result.rows.map(toPortfolioItem));
   } catch (error) {
     console.error('Error fetching portfolio:', error);
     res.status(500).json({ error: 'Failed to fetch portfolio' });
@@ -20,35 +88,81 @@ router.get('/', async (req, res) => {
 });
 
 // CREATE a new portfolio item
+// 409 code 'exists' (with the stored item) when the id is already taken,
+// so a replayed create is harmless
 router.post('/', async (req, res) => {
   if (!pool) {
     return res.status(503).json({ error: 'Database not configured' });
   }
   try {
-    const { 
-      id, restaurantName, date, time, guests, costBasis, listPrice, 
-      soldPrice, platform, status, guestName, dropTime, nextDropDate, 
-      nextDropTime, dropTimezone 
-    } = req.body;
+    const invalid = invalidItem(req.body);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
 
-    const result = await pool.query(
-      `INSERT INTO portfolio_items (
-        id, restaurant_name, date, time, guests, cost_basis, list_price, 
-        sold_price, platform, status, guest_name, drop_time, next_drop_date, 
-        next_drop_time, drop_timezone
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-      RETURNING *`,
-      [id, restaurantName, date, time, guests, costBasis, listPrice, soldPrice, 
-       platform, status, guestName, dropTime, nextDropDate, nextDropTime, dropTimezone]
-    );
+    // Check the rule first: a 400 must not leave the item behind for a retry to trip over
+    const { id, status, dropRule } = req.body;
+    if (dropRule) {
+      try {
+        recurringDrops.planItemRule(dropRule, req.body.dropTimezone, normalizeDate(req.body.date));
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+    }
+
+    const row = await insertItem(req.body, toReservationStatus(status ?? 'WATCHING')!, actorFromRequest(req));
+    if (!row) {
+      const existing = await pool.query('SELECT * FROM portfolio_items WHERE id = $1', [id]);
+      return res.status(409).json({ error: 'Portfolio item already exists', code: 'exists', item: toPortfolioItem(existing.rows[0]) });
+    }
+
+    // Recurring items get armed for their next drop straight away
+    if (dropRule) {
+      return res.status(201).json(toPortfolioItem(await recurringDrops.setItemRule(id, dropRule)));
+    }
 
-    res.status(201).json(result.rows[0]);
+    res.status(201).json(toPortfolioItem(row));
   } catch (error) {
     console.error('Error creating portfolio item:', error);
     res.status(500).json({ error: 'Failed to create portfolio item' });
   }
 });
 
+// IMPORT items a browser kept locally before the portfolio lived here
+// Body: { items: [...] }. Ids already on the server are skipped, never overwritten.
+router.post('/import', async (req, res) => {
+  if (!pool) {
+    return res.status(503).json({ error: 'Database not configured' });
+  }
+  try {
+    const items = req.body?.items;
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ error: 'items must be an array' });
+    }
+
+    const actor = actorFromRequest(req);
+    const imported: string[] = [];
+    const skipped: { id: string; reason: string }[] = [];
+    for (const item of items) {
+      const invalid = invalidItem(item);
+      if (invalid) {
+        skipped.push({ id: item?.id, reason: invalid });
+      } else if (await insertItem(item, toReservationStatus(item.status ?? 'WATCHING')!, actor, 'Imported from browser storage')) {
+        imported.push(item.id);
+      } else {
+        skipped.push({ id: item.id, reason: 'Already on the server' });
+      }
+    }
+
+    console.log(`[Portfolio] 📥 Imported ${imported.length} browser item(s), skipped ${skipped.length}`);
+    const result = await pool.query('SELECT * FROM portfolio_items ORDER BY created_at DESC');
+    res.json({ imported, skipped, items: result.rows.map(toPortfolioItem) });
+  } catch (error) {
+    console.error('Error importing portfolio items:', error);
+    res.status(500).json({ error: 'Failed to import portfolio items' });
+  }
+});
+
 // UPDATE a portfolio item
 router.put('/:id', async (req, res) => {
   if (!pool) {
@@ -58,32 +172,120 @@ router.put('/:id', async (req, res) => {
     const { id } = req.params;
     const { 
       restaurantName, date, time, guests, costBasis, listPrice, soldPrice, 
-      platform, status, guestName, dropTime, nextDropDate, nextDropTime, dropTimezone 
+      platform, status, guestName, dropTime, nextDropDate, nextDropTime, dropTimezone, updatedAt
     } = req.body;
 
-    const result = await pool.query(
-      `UPDATE portfolio_items SET 
-        restaurant_name = $1, date = $2, time = $3, guests = $4, cost_basis = $5, 
-        list_price = $6, sold_price = $7, platform = $8, status = $9, guest_name = $10,
-        drop_time = $11, next_drop_date = $12, next_drop_time = $13, drop_timezone = $14,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE id = $15
-      RETURNING *`,
-      [restaurantName, date, time, guests, costBasis, listPrice, soldPrice, platform, 
-       status, guestName, dropTime, nextDropDate, nextDropTime, dropTimezone, id]
-    );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Portfolio item not found' });
+    if (updatedAt !== undefined && isNaN(Date.parse(updatedAt))) {
+      return res.status(400).json({ error: 'updatedAt must be a timestamp' });
+    }
+    const to = status !== undefined ? toReservationStatus(status) : null;
+    if (status !== undefined && !to) {
+      return res.status(400).json({ error: `Unknown status: ${status}` });
     }
 
-    res.json(result.rows[0]);
+    // One transaction: the fields, the version check and the status change
+    // land together or not at all
+    const outcome = await reservationLifecycle.transaction(async db => {
+      const current = await db.query('SELECT * FROM portfolio_items WHERE id = $1 FOR UPDATE', [id]);
+      if (current.rows.length === 0) {
+        return { status: 404, body: { error: 'Portfolio item not found' } };
+      }
+
+      // Status changes go through the lifecycle (and move a booked item's transfer)
+      if (to) {
+        const transfer = await reservationLifecycle.currentTransfer(db, id);
+        const from = transfer ? transfer.status : current.rows[0].status;
+        if (transfer && from !== to && !hasPermission(req.user!.role, 'transfers:manage')) {
+          return {
+            status: 403,
+            body: { error: `Your role (${req.user!.role}) cannot move a booked reservation`, required: 'transfers:manage' },
+          };
+        }
+      }
+
+      // Refuse edits made to an older version than the one stored
+      const updated = await db.query(
+        `UPDATE portfolio_items SET 
+          restaurant_name = $1, date = $2, time = $3, guests = $4, cost_basis = $5, 
+          list_price = $6, sold_price = $7, platform = $8, guest_name = $9,
+          drop_time = $10, next_drop_date = $11, next_drop_time = $12, drop_timezone = $13,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $14 AND ($15::timestamptz IS NULL OR date_trunc('milliseconds', updated_at) = $15::timestamptz)
+        RETURNING *`,
+        [restaurantName, date, time, guests, costBasis, listPrice, soldPrice, platform, 
+         guestName, dropTime || null, nextDropDate || null, nextDropTime || null, dropTimezone, id, updatedAt ?? null]
+      );
+      if (updated.rows.length === 0) {
+        return {
+          status: 409,
+          body: {
+            error: `${current.rows[0].restaurant_name} was changed by someone else`,
+            code: 'conflict',
+            item: toPortfolioItem(current.rows[0]),
+          },
+        };
+      }
+
+      if (to) {
+        await reservationLifecycle.transitionIn(db, id, to, { actor: actorFromRequest(req) });
+      }
+
+      const result = await db.query('SELECT * FROM portfolio_items WHERE id = $1', [id]);
+      return { status: 200, body: toPortfolioItem(result.rows[0]) };
+    });
+
+    res.status(outcome.status).json(outcome.body);
   } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ error: error.message, code: 'invalid_transition' });
+    }
     console.error('Error updating portfolio item:', error);
     res.status(500).json({ error: 'Failed to update portfolio item' });
   }
 });
 
+// SET or CLEAR an item's recurring drop rule
+// Body: { rule: {...} } to set, { rule: null } to clear,
+// or { fromRestaurant: true } to copy the restaurant's known pattern
+router.put('/:id/drop-rule', async (req, res) => {
+  if (!pool) {
+    return res.status(503).json({ error: 'Database not configured' });
+  }
+  try {
+    const { id } = req.params;
+    let rule = req.body.rule;
+
+    if (req.body.fromRestaurant) {
+      const item = await pool.query('SELECT restaurant_name, platform FROM portfolio_items WHERE id = $1', [id]);
+      if (item.rows.length === 0) {
+        return res.status(404).json({ error: 'Portfolio item not found' });
+      }
+      rule = await recurringDrops.suggestRule(item.rows[0].restaurant_name, item.rows[0].platform);
+      if (!rule) {
+        return res.status(404).json({ error: 'No structured drop pattern known for this restaurant' });
+      }
+    } else if (rule === undefined) {
+      return res.status(400).json({ error: 'rule (or fromRestaurant) is required' });
+    }
+
+    let updated;
+    try {
+      updated = await recurringDrops.setItemRule(id, rule);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    if (!updated) {
+      return res.status(404).json({ error: 'Portfolio item not found' });
+    }
+
+    res.json(toPortfolioItem(updated));
+  } catch (error) {
+    console.error('Error updating drop rule:', error);
+    res.status(500).json({ error: 'Failed to update drop rule' });
+  }
+});
+
 // DELETE a portfolio item
 router.delete('/:id', async (req, res) => {
   if (!pool) {
@@ -91,13 +293,20 @@ router.delete('/:id', async (req, res) => {
   }
   try {
     const { id } = req.params;
+
+    // A booked reservation's record stays - cancel it instead
+    const transfers = await pool.query('SELECT COUNT(*)::int AS count FROM transfers WHERE portfolio_item_id = $1', [id]);
+    if (transfers.rows[0].count > 0) {
+      return res.status(409).json({ error: 'Portfolio item has transfers - cancel the reservation instead of deleting it' });
+    }
+
     const result = await pool.query('DELETE FROM portfolio_items WHERE id = $1 RETURNING *', [id]);
     
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Portfolio item not found' });
     }
 
-    res.json({ success: true, deleted: result.rows[0] });
+    res.json({ success: true, deleted: toPortfolioItem(result.rows[0]) });
   } catch (error) {
     console.error('Error deleting portfolio item:', error);
     res.status(500).json({ error: 'Failed to delete portfolio item' });
@@ -105,12 +314,3 @@ router.delete('/:id', async (req, res) => {
 });
 
 export default router;
-
-
-
-
-
-
-
-
-
@@ -0,0 +1,101 @@
+/**
+ * Reservation Routes
+ *
+ * The reservation aggregate - a portfolio item with its current transfer -
+ * and its status lifecycle (see services/reservationLifecycle.ts).
+ * The portfolio and transfer routes edit the same reservations; status
+ * changes from either end up in the same history.
+ */
+
+import express from 'express';
+import reservationLifecycle from '../services/reservationLifecycle';
+import { actorFromRequest } from '../services/auditLog';
+import { hasPermission } from '../shared/permissions';
+import { InvalidTransitionError, toReservationStatus } from '../shared/reservationLifecycle';
+
+const router = express.Router();
+
+/**
+ * GET /api/reservations
+ * Every reservation with its current transfer and allowed next statuses.
+ * Filters: status, platform, upcoming=true
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { status, platform, upcoming } = req.query;
+    const reservations = await reservationLifecycle.list({
+      status: toReservationStatus(status) || undefined,
+      platform: platform as string | undefined,
+      upcoming_only: upcoming === 'true',
+    });
+    res.json({ success: true, count: reservations.length, reservations });
+  } catch (error: any) {
+    console.error('[Reservations API] Error listing reservations:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/reservations/:id
+ * One reservation with its status history
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const reservation = await reservationLifecycle.get(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({ success: false, error: 'Reservation not found' });
+    }
+    const history = await reservationLifecycle.getHistory(req.params.id);
+    res.json({ success: true, reservation, history });
+  } catch (error: any) {
+    console.error('[Reservations API] Error fetching reservation:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/reservations/:id/transitions
+ * Move a reservation to another status (body: to, note).
+ * Booked reservations move their transfer too, which needs transfers:manage.
+ */
+router.post('/:id/transitions', async (req, res) => {
+  try {
+    const to = toReservationStatus(req.body?.to);
+    if (!to) {
+      return res.status(400).json({ success: false, error: `Unknown status: ${req.body?.to}` });
+    }
+
+    const reservation = await reservationLifecycle.get(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({ success: false, error: 'Reservation not found' });
+    }
+    if (reservation.transfer && !hasPermission(req.user!.role, 'transfers:manage')) {
+      return res.status(403).json({
+        error: `Your role (${req.user!.role}) cannot move a booked reservation`,
+        required: 'transfers:manage',
+      });
+    }
+
+    const result = await reservationLifecycle.transition(req.params.id, to, {
+      actor: actorFromRequest(req),
+      note: typeof req.body.note === 'string' && req.body.note.trim() ? req.body.note.trim() : undefined,
+    });
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'Reservation not found' });
+    }
+
+    res.json({
+      success: true,
+      changed: result.changed,
+      reservation: await reservationLifecycle.get(req.params.id),
+    });
+  } catch (error: any) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ success: false, error: error.message, code: 'invalid_transition' });
+    }
+    console.error('[Reservations API] Error changing status:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
@@ -8,9 +8,22 @@
 import { Router } from 'express';
 import { getRestaurantsByCity, getPriceHistory, runPriceUpdate, seedRestaurants, upsertRestaurant } from '../services/priceScraper';
 import { fetchMarketInsight } from '../services/geminiService';
+import { toDropRule, describeDropRule, DropRule } from '../shared/dropRules';
 
 const router = Router();
 
+/**
+ * Structured drop rule plus its human-readable form (what the UI shows)
+ */
+const formatDropPattern = (value: unknown, timezone?: string): { dropPattern?: string; dropRule: DropRule | null } => {
+  try {
+    const rule = toDropRule(value, timezone || undefined);
+    return { dropPattern: describeDropRule(rule) || undefined, dropRule: rule };
+  } catch {
+    return { dropPattern: undefined, dropRule: null };
+  }
+};
+
 /**
  * GET /api/restaurants?city=New York City
  * 
@@ -50,7 +63,7 @@ router.get('/', async (req, res) => {
       nextDropDate: r.nextDropDate,
       nextDropTime: r.nextDropTime,
       dropTimezone: r.dropTimezone,
-      dropPattern: r.dropPattern,
+      ...formatDropPattern(r.dropPattern, r.dropTimezone),
       lastPriceUpdate: r.lastPriceUpdate,
       // Add sources array for UI compatibility
       sources: r.lastPriceUpdate ? [{ title: 'Database', uri: '' }] : []
@@ -111,6 +124,8 @@ router.get('/:id/insight', async (req, res) => {
     // Get strategy from Gemini (for tactical advice)
     const insight = await fetchMarketInsight(restaurant.name, city);
 
+    const dbPattern = formatDropPattern(restaurant.dropPattern, restaurant.dropTimezone);
+
     // Merge DB data (source of truth) with AI insight
     res.json({
       ...insight,
@@ -118,7 +133,8 @@ router.get('/:id/insight', async (req, res) => {
       nextDropDate: restaurant.nextDropDate || insight?.nextDropDate,
       nextDropTime: restaurant.nextDropTime || insight?.nextDropTime,
       dropTimezone: restaurant.dropTimezone || insight?.dropTimezone,
-      dropPattern: restaurant.dropPattern || insight?.dropPattern,
+      dropPattern: dbPattern.dropPattern || insight?.dropPattern,
+      dropRule: dbPattern.dropRule,
       platform: restaurant.platform || insight?.platform,
       bookingUrl: restaurant.bookingUrl || insight?.bookingUrl
     });
@@ -6,24 +6,40 @@
  * - Start/stop scheduler
  * - Check sniper status
  * - Trigger manual actions
- * - Resy API integration (PRODUCTION-READY)
+ * - Per-platform status, slots and booking (one set of routes for every
+ *   platform in the registry, src/platforms)
  */
 
-import { Router } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import notifications from '../sniper/notifications';
 import telegram from '../sniper/telegram';
 import scheduler from '../sniper/scheduler';
+import readiness from '../sniper/readiness';
 import acquisitionBot from '../sniper/acquisitionBot';
 import voiceAgent from '../sniper/voiceAgent';
 import resyClient from '../services/resyApi';
-import openTableClient from '../services/openTableApi';
-import sevenRoomsClient from '../services/sevenRoomsApi';
-import tockClient from '../services/tockApi';
 import acquisitionEngine from '../services/acquisitionEngine';
+import clockSync from '../services/clockSync';
 import type { Platform } from '../services/acquisitionEngine';
+import auditLog, { actorFromRequest } from '../services/auditLog';
+import platformGovernor, { GovernedPlatform, GOVERNED_PLATFORMS } from '../services/platformGovernor';
+import { getAdapter, isPlatformId, listAdapters, describePlatform, PLATFORM_IDS, PlatformAdapter } from '../platforms';
+import { toDropRule, isScheduledRule, describeDropRule, getUpcomingDrops } from '../shared/dropRules';
 
 const router = Router();
 
+// Direct platform bookings bypass the acquisition engine - audit them here
+const auditDirectBooking = (req: Request, platform: string, result: any, error?: string) =>
+  auditLog.record({
+    action: 'acquisition.direct',
+    outcome: result?.success ? 'success' : 'failure',
+    actor: actorFromRequest(req),
+    platform,
+    request: { endpoint: req.path, ...req.body },
+    response: result,
+    error: error ?? result?.error,
+  });
+
 /**
  * GET /api/sniper/status
  * Check if sniper services are configured and running
@@ -51,12 +67,50 @@ router.get('/status', (req, res) => {
       watchedCount: schedulerStatus.watchedCount,
       nextDrop: schedulerStatus.nextDrop
     },
+    // Platform clock minus ours, per platform (positive = platform ahead)
+    clockSkew: clockSync.getStatus(),
     message: status.telegram 
       ? 'Sniper system ready' 
       : 'Telegram not configured - set TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID in .env'
   });
 });
 
+/**
+ * GET /api/sniper/platforms/status
+ * Request budgets, 429/403 counts and circuit breaker state per platform
+ */
+router.get('/platforms/status', (req, res) => {
+  const platforms = platformGovernor.getStatus();
+  res.json({
+    success: true,
+    paused: platforms.filter(p => p.circuit.state !== 'closed').map(p => p.platform),
+    platforms,
+  });
+});
+
+/**
+ * POST /api/sniper/platforms/:platform/reset
+ * Close a platform's circuit breaker by hand (e.g. after rotating credentials)
+ */
+router.post('/platforms/:platform/reset', async (req, res) => {
+  const platform = req.params.platform as GovernedPlatform;
+  if (!GOVERNED_PLATFORMS.includes(platform)) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid platform. Must be one of: ${GOVERNED_PLATFORMS.join(', ')}`,
+    });
+  }
+
+  platformGovernor.reset(platform);
+  await auditLog.record({
+    action: 'platform.circuit_reset',
+    outcome: 'info',
+    actor: actorFromRequest(req),
+    platform,
+  });
+  res.json({ success: true, platform: platformGovernor.getStatus().find(p => p.platform === platform) });
+});
+
 /**
  * POST /api/sniper/start
  * Start the scheduler
@@ -117,6 +171,43 @@ router.get('/watched', (req, res) => {
   });
 });
 
+/**
+ * POST /api/sniper/drop-rules/preview
+ * Show the next drops (and the dates each one opens) for a rule
+ * Body: { rule } structured rule, or { pattern } free text like
+ * "Daily at 10:00 AM EST, 30 days in advance"; optional count (default 5)
+ */
+router.post('/drop-rules/preview', (req, res) => {
+  try {
+    const { rule: input, pattern, timezone } = req.body;
+    const count = Math.min(parseInt(req.body.count) || 5, 30);
+
+    let rule;
+    try {
+      rule = toDropRule(input ?? pattern, timezone);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (!isScheduledRule(rule)) {
+      return res.status(400).json({
+        success: false,
+        rule,
+        error: 'Pattern is not a recurring schedule (daily, weekly or monthly)',
+      });
+    }
+
+    res.json({
+      success: true,
+      rule,
+      description: describeDropRule(rule),
+      drops: getUpcomingDrops(rule, count),
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * POST /api/sniper/test
  * Send a test Telegram notification
@@ -283,12 +374,14 @@ router.post('/bot/acquire', async (req, res) => {
 
     // Don't send screenshot in response (too large)
     const { screenshot, ...resultWithoutScreenshot } = result;
+    await auditDirectBooking(req, platform || 'unknown', resultWithoutScreenshot);
 
     res.json({
       ...resultWithoutScreenshot,
       hasScreenshot: !!screenshot
     });
   } catch (error: any) {
+    await auditDirectBooking(req, platform || 'unknown', null, error.message);
     res.status(500).json({ 
       success: false, 
       error: error.message 
@@ -467,159 +560,8 @@ router.post('/voice/transfer', async (req, res) => {
 // ============================================
 // RESY API ENDPOINTS (PRODUCTION-READY)
 // ============================================
-
-/**
- * GET /api/sniper/resy/status
- * Check Resy API configuration status
- */
-router.get('/resy/status', (req, res) => {
-  const config = resyClient.isConfigured();
-  
-  res.json({
-    ...config,
-    message: config.ready 
-      ? '✅ Resy API fully configured and ready'
-      : config.hasAuth
-        ? '⚠️ Missing RESY_PAYMENT_ID in .env'
-        : '❌ Missing RESY_AUTH_TOKEN in .env'
-  });
-});
-
-/**
- * GET /api/sniper/resy/search
- * Search for a venue by name
- */
-router.get('/resy/search', async (req, res) => {
-  const { query, city } = req.query;
-
-  if (!query || typeof query !== 'string') {
-    return res.status(400).json({ 
-      success: false, 
-      error: 'query parameter is required' 
-    });
-  }
-
-  try {
-    const venues = await resyClient.searchVenue(query, city as string);
-    res.json({ 
-      success: true, 
-      count: venues.length,
-      venues 
-    });
-  } catch (error: any) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message 
-    });
-  }
-});
-
-/**
- * GET /api/sniper/resy/slots
- * Find available slots at a venue
- */
-router.get('/resy/slots', async (req, res) => {
-  const { venueId, date, partySize } = req.query;
-
-  if (!venueId || !date) {
-    return res.status(400).json({ 
-      success: false, 
-      error: 'venueId and date are required' 
-    });
-  }
-
-  try {
-    const slots = await resyClient.findSlots(
-      parseInt(venueId as string),
-      date as string,
-      parseInt(partySize as string) || 2
-    );
-
-    res.json({ 
-      success: true, 
-      count: slots.length,
-      slots: slots.map(slot => ({
-        config_id: slot.config_id,
-        time: slot.time_slot || slot.date?.start,
-        table_type: slot.table?.type || 'Standard',
-        min_guests: slot.size?.min,
-        max_guests: slot.size?.max,
-        deposit: slot.payment?.deposit_fee,
-        cancellation_fee: slot.payment?.cancellation_fee,
-      }))
-    });
-  } catch (error: any) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message 
-    });
-  }
-});
-
-/**
- * POST /api/sniper/resy/acquire
- * Full acquisition flow - find slot and book it
- * This is the PRODUCTION booking endpoint!
- */
-router.post('/resy/acquire', async (req, res) => {
-  const { venueId, date, partySize, preferredTime, timeFlexibility } = req.body;
-
-  if (!venueId || !date) {
-    return res.status(400).json({ 
-      success: false, 
-      error: 'venueId and date are required' 
-    });
-  }
-
-  // Check configuration first
-  const config = resyClient.isConfigured();
-  if (!config.ready) {
-    return res.status(400).json({
-      success: false,
-      error: config.hasAuth 
-        ? 'RESY_PAYMENT_ID not configured in .env'
-        : 'RESY_AUTH_TOKEN not configured in .env',
-      configStatus: config
-    });
-  }
-
-  try {
-    const result = await resyClient.acquire({
-      venueId: parseInt(venueId),
-      date,
-      partySize: parseInt(partySize) || 2,
-      preferredTime,
-      timeFlexibility: parseInt(timeFlexibility) || 60,
-    });
-
-    res.json(result);
-  } catch (error: any) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message 
-    });
-  }
-});
-
-/**
- * GET /api/sniper/resy/reservations
- * Get user's upcoming reservations (requires auth)
- */
-router.get('/resy/reservations', async (req, res) => {
-  try {
-    const reservations = await resyClient.getUpcomingReservations();
-    res.json({ 
-      success: true, 
-      count: reservations.length,
-      reservations 
-    });
-  } catch (error: any) {
-    res.status(500).json({ 
-      success: false, 
-      error: error.message 
-    });
-  }
-});
+// Status, search, slots, acquire and reservations are the per-platform
+// routes at the bottom of this file
 
 /**
  * POST /api/sniper/resy/book-slot
@@ -654,8 +596,10 @@ router.post('/resy/book-slot', async (req, res) => {
 
     // Make the reservation
     const result = await resyClient.makeReservation(bookToken);
+    await auditDirectBooking(req, 'resy', result);
     res.json(result);
   } catch (error: any) {
+    await auditDirectBooking(req, 'resy', null, error.message);
     res.status(500).json({ 
       success: false, 
       error: error.message 
@@ -668,36 +612,15 @@ router.post('/resy/book-slot', async (req, res) => {
 // ============================================
 
 /**
- * GET /api/sniper/platforms/status
- * Get status of ALL platform clients
+ * GET /api/sniper/platforms
+ * Every registered platform: venue ID field, capabilities and whether its client is configured
  */
-router.get('/platforms/status', (req, res) => {
-  const status = acquisitionEngine.getClientsStatus();
-  
+router.get('/platforms', (req, res) => {
+  const platforms = listAdapters().map(describePlatform);
   res.json({
-    platforms: {
-      resy: {
-        ready: status.resy.ready,
-        details: status.resy.details,
-        required: ['RESY_AUTH_TOKEN', 'RESY_PAYMENT_ID'],
-      },
-      opentable: {
-        ready: status.opentable.ready,
-        details: status.opentable.details,
-        required: ['OPENTABLE_CSRF_TOKEN', 'OPENTABLE_EMAIL', 'OPENTABLE_FIRST_NAME', 'OPENTABLE_LAST_NAME'],
-      },
-      sevenrooms: {
-        ready: status.sevenrooms.ready,
-        details: status.sevenrooms.details,
-        required: ['User info (name, email) - shared with OpenTable'],
-      },
-      tock: {
-        ready: status.tock.ready,
-        details: status.tock.details,
-        required: ['TOCK_AUTH_TOKEN', 'TOCK_EMAIL'],
-      },
-    },
-    readyCount: Object.values(status).filter(s => s.ready).length - 1, // -1 for 'unknown'
+    success: true,
+    platforms,
+    readyCount: platforms.filter(p => p.ready).length,
     message: 'Configure platform credentials in .env file',
   });
 });
@@ -722,6 +645,12 @@ router.post('/acquire', async (req, res) => {
     timeFlexibility,
     maxRetries,
     aggressiveMode,
+    // Tracking & concierge mode
+    portfolioItemId,
+    identityId,
+    bookingMode,
+    clientId,
+    clientInfo,
   } = req.body;
 
   if (!platform || !restaurantName || !date) {
@@ -732,11 +661,10 @@ router.post('/acquire', async (req, res) => {
   }
 
   // Validate platform
-  const validPlatforms: Platform[] = ['resy', 'opentable', 'sevenrooms', 'tock'];
-  if (!validPlatforms.includes(platform)) {
+  if (!isPlatformId(platform)) {
     return res.status(400).json({
       success: false,
-      error: `Invalid platform. Must be one of: ${validPlatforms.join(', ')}`,
+      error: `Invalid platform. Must be one of: ${PLATFORM_IDS.join(', ')}`,
     });
   }
 
@@ -765,6 +693,12 @@ router.post('/acquire', async (req, res) => {
       timeFlexibility: timeFlexibility || 60,
       maxRetries: maxRetries || 3,
       aggressiveMode: aggressiveMode || false,
+      portfolioItemId,
+      identityId,
+      bookingMode,
+      clientId,
+      clientInfo,
+      actor: actorFromRequest(req),
     });
 
     res.json(result);
@@ -776,15 +710,37 @@ router.post('/acquire', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/sniper/scheduler/jobs
+ * Recent drop jobs from the durable queue (all statuses)
+ */
+router.get('/scheduler/jobs', async (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 50;
+    const jobs = await scheduler.getJobHistory(limit);
+    res.json({
+      success: true,
+      count: jobs.length,
+      jobs,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
 /**
  * POST /api/sniper/scheduler/trigger/:itemId
  * Manually trigger acquisition for a specific portfolio item
+ * (claims the item's drop job, so it never races the scheduler)
  */
 router.post('/scheduler/trigger/:itemId', async (req, res) => {
   const { itemId } = req.params;
 
   try {
-    const result = await scheduler.triggerManualAcquisition(itemId);
+    const result = await scheduler.triggerManualAcquisition(itemId, actorFromRequest(req));
     res.json(result);
   } catch (error: any) {
     res.status(500).json({
@@ -794,53 +750,14 @@ router.post('/scheduler/trigger/:itemId', async (req, res) => {
   }
 });
 
-// ============================================
-// OPENTABLE API ENDPOINTS
-// ============================================
-
 /**
- * GET /api/sniper/opentable/status
- * Check OpenTable API configuration
+ * GET /api/sniper/readiness
+ * Pre-drop checklist for every watched item
  */
-router.get('/opentable/status', (req, res) => {
-  const config = openTableClient.isConfigured();
-  res.json({
-    ...config,
-    message: config.ready
-      ? '✅ OpenTable API fully configured'
-      : config.hasToken
-        ? '⚠️ Missing user info (name, email) in .env'
-        : '❌ Missing OPENTABLE_CSRF_TOKEN in .env',
-  });
-});
-
-/**
- * GET /api/sniper/opentable/slots
- * Find available OpenTable slots
- */
-router.get('/opentable/slots', async (req, res) => {
-  const { restaurantId, date, time, partySize } = req.query;
-
-  if (!restaurantId || !date || !time) {
-    return res.status(400).json({
-      success: false,
-      error: 'restaurantId, date, and time are required',
-    });
-  }
-
+router.get('/readiness', async (req, res) => {
   try {
-    const slots = await openTableClient.findSlots(
-      parseInt(restaurantId as string),
-      date as string,
-      time as string,
-      parseInt(partySize as string) || 2
-    );
-
-    res.json({
-      success: true,
-      count: slots.length,
-      slots,
-    });
+    const items = await readiness.evaluateWatched();
+    res.json({ success: true, items });
   } catch (error: any) {
     res.status(500).json({
       success: false,
@@ -850,29 +767,16 @@ router.get('/opentable/slots', async (req, res) => {
 });
 
 /**
- * POST /api/sniper/opentable/acquire
- * Full OpenTable acquisition flow
+ * GET /api/sniper/readiness/:itemId
+ * Pre-drop checklist for one item: pass/warn/fail per check
  */
-router.post('/opentable/acquire', async (req, res) => {
-  const { restaurantId, date, time, partySize, timeFlexibility } = req.body;
-
-  if (!restaurantId || !date || !time) {
-    return res.status(400).json({
-      success: false,
-      error: 'restaurantId, date, and time are required',
-    });
-  }
-
+router.get('/readiness/:itemId', async (req, res) => {
   try {
-    const result = await openTableClient.acquire({
-      restaurantId: parseInt(restaurantId),
-      date,
-      time,
-      partySize: partySize || 2,
-      timeFlexibility: timeFlexibility || 60,
-    });
-
-    res.json(result);
+    const result = await readiness.evaluateItem(req.params.itemId);
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'Portfolio item not found' });
+    }
+    res.json({ success: true, ...result });
   } catch (error: any) {
     res.status(500).json({
       success: false,
@@ -882,123 +786,93 @@ router.post('/opentable/acquire', async (req, res) => {
 });
 
 // ============================================
-// SEVENROOMS API ENDPOINTS
+// PER-PLATFORM ENDPOINTS
 // ============================================
+// Registered last: :platform only matches registry IDs, anything else
+// falls through to the 404 handler
 
 /**
- * GET /api/sniper/sevenrooms/status
+ * Resolve :platform to its adapter
  */
-router.get('/sevenrooms/status', (req, res) => {
-  const config = sevenRoomsClient.isConfigured();
-  res.json({
-    ...config,
-    message: config.ready
-      ? '✅ SevenRooms API configured'
-      : '⚠️ SevenRooms requires user info - shares config with OpenTable',
-  });
-});
+const withAdapter = (handler: (adapter: PlatformAdapter, req: Request, res: Response) => unknown) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const adapter = getAdapter(req.params.platform);
+    if (!adapter) return next();
+    return handler(adapter, req, res);
+  };
 
 /**
- * GET /api/sniper/sevenrooms/slots
+ * Venue ID from the platform's own parameter name (venueId, restaurantId,
+ * venueSlug) or the generic venueId
  */
-router.get('/sevenrooms/slots', async (req, res) => {
-  const { venueSlug, date, time, partySize } = req.query;
-
-  if (!venueSlug || !date || !time) {
-    return res.status(400).json({
-      success: false,
-      error: 'venueSlug, date, and time are required',
-    });
-  }
-
-  try {
-    const slots = await sevenRoomsClient.findSlots(
-      venueSlug as string,
-      date as string,
-      time as string,
-      parseInt(partySize as string) || 2
-    );
+const venueIdFrom = (adapter: PlatformAdapter, source: Record<string, any>): string | null => {
+  const value = source[adapter.venue.param] ?? source.venueId;
+  return value ? String(value) : null;
+};
 
-    res.json({
-      success: true,
-      count: slots.length,
-      slots,
-    });
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-    });
-  }
-});
+/**
+ * GET /api/sniper/:platform/status
+ * Check a platform client's configuration
+ */
+router.get('/:platform/status', withAdapter((adapter, req, res) => {
+  const status = adapter.getStatus();
+  res.json({ ...status.details, ready: status.ready, message: status.message });
+}));
 
 /**
- * POST /api/sniper/sevenrooms/acquire
+ * GET /api/sniper/:platform/search
+ * Search the platform's venues by name
  */
-router.post('/sevenrooms/acquire', async (req, res) => {
-  const { venueSlug, date, time, partySize, timeFlexibility } = req.body;
+router.get('/:platform/search', withAdapter(async (adapter, req, res) => {
+  const { query, city } = req.query;
 
-  if (!venueSlug || !date || !time) {
-    return res.status(400).json({
-      success: false,
-      error: 'venueSlug, date, and time are required',
+  if (!adapter.search) {
+    return res.status(404).json({ success: false, error: `${adapter.label} venue search is not supported` });
+  }
+  if (!query || typeof query !== 'string') {
+    return res.status(400).json({ 
+      success: false, 
+      error: 'query parameter is required' 
     });
   }
 
   try {
-    const result = await sevenRoomsClient.acquire({
-      venueSlug,
-      date,
-      time,
-      partySize: partySize || 2,
-      timeFlexibility: timeFlexibility || 60,
+    const venues = await adapter.search(query, city as string);
+    res.json({ 
+      success: true, 
+      count: venues.length,
+      venues 
     });
-
-    res.json(result);
   } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
+    res.status(500).json({ 
+      success: false, 
+      error: error.message 
     });
   }
-});
-
-// ============================================
-// TOCK API ENDPOINTS
-// ============================================
-
-/**
- * GET /api/sniper/tock/status
- */
-router.get('/tock/status', (req, res) => {
-  const config = tockClient.isConfigured();
-  res.json({
-    ...config,
-    message: config.ready
-      ? '✅ Tock API configured'
-      : '❌ Missing TOCK_AUTH_TOKEN in .env',
-  });
-});
+}));
 
 /**
- * GET /api/sniper/tock/slots
+ * GET /api/sniper/:platform/slots
+ * Find available slots at a venue
  */
-router.get('/tock/slots', async (req, res) => {
-  const { venueSlug, date, partySize } = req.query;
+router.get('/:platform/slots', withAdapter(async (adapter, req, res) => {
+  const venueId = venueIdFrom(adapter, req.query);
+  const { date, time, partySize } = req.query;
 
-  if (!venueSlug || !date) {
+  if (!venueId || !date) {
     return res.status(400).json({
       success: false,
-      error: 'venueSlug and date are required',
+      error: `${adapter.venue.param} and date are required`,
     });
   }
 
   try {
-    const slots = await tockClient.findSlots(
-      venueSlug as string,
-      date as string,
-      parseInt(partySize as string) || 2
-    );
+    const slots = await adapter.findSlots({
+      venueId,
+      date: date as string,
+      time: (time as string) || '19:00',
+      partySize: parseInt(partySize as string) || 2,
+    });
 
     res.json({
       success: true,
@@ -1011,38 +885,77 @@ router.get('/tock/slots', async (req, res) => {
       error: error.message,
     });
   }
-});
+}));
 
 /**
- * POST /api/sniper/tock/acquire
+ * POST /api/sniper/:platform/acquire
+ * Full acquisition flow straight through the platform client - find a slot and book it
  */
-router.post('/tock/acquire', async (req, res) => {
-  const { venueSlug, date, time, partySize, experienceId } = req.body;
+router.post('/:platform/acquire', withAdapter(async (adapter, req, res) => {
+  const venueId = venueIdFrom(adapter, req.body);
+  const { date, time, partySize, timeFlexibility, experienceId } = req.body;
+
+  if (!venueId || !date) {
+    return res.status(400).json({
+      success: false,
+      error: `${adapter.venue.param} and date are required`,
+    });
+  }
 
-  if (!venueSlug || !date) {
+  // Check configuration first
+  const status = adapter.getStatus();
+  if (!status.ready) {
     return res.status(400).json({
       success: false,
-      error: 'venueSlug and date are required',
+      error: status.message,
+      configStatus: status.details,
     });
   }
 
   try {
-    const result = await tockClient.acquire({
-      venueSlug,
+    const result = await adapter.book({
+      venueId,
       date,
-      time,
-      partySize: partySize || 2,
+      time: time || '19:00',
+      partySize: parseInt(partySize) || 2,
+      timeFlexibility: parseInt(timeFlexibility) || 60,
       experienceId,
     });
 
+    await auditDirectBooking(req, adapter.id, result);
     res.json(result);
   } catch (error: any) {
+    await auditDirectBooking(req, adapter.id, null, error.message);
     res.status(500).json({
       success: false,
       error: error.message,
     });
   }
-});
+}));
+
+/**
+ * GET /api/sniper/:platform/reservations
+ * Upcoming reservations on the platform account (requires auth)
+ */
+router.get('/:platform/reservations', withAdapter(async (adapter, req, res) => {
+  if (!adapter.listReservations) {
+    return res.status(404).json({ success: false, error: `${adapter.label} reservation listing is not supported` });
+  }
+
+  try {
+    const reservations = await adapter.listReservations();
+    res.json({ 
+      success: true, 
+      count: reservations.length,
+      reservations 
+    });
+  } catch (error: any) {
+    res.status(500).json({ 
+      success: false, 
+      error: error.message 
+    });
+  }
+}));
 
 export default router;
 
@@ -3,13 +3,59 @@
  * 
  * Handles the complete transfer workflow:
  * ACQUIRED -> LISTED -> SOLD -> TRANSFER_PENDING -> TRANSFERRED -> COMPLETED
+ * (or -> CANCELLED when the reservation is released on the platform)
+ *
+ * /reconciliation compares the platform accounts' reservations with the
+ * transfers (see reservationSync.ts).
+ *
+ * A status change the lifecycle doesn't allow (see
+ * shared/reservationLifecycle.ts) is a 409 with code 'invalid_transition'.
+ *
+ * /repricing and /:id/price-changes are the price-decay schedule for
+ * unsold listings (see listingRepricing.ts).
  */
 
-import { Router } from 'express';
-import transferTracker, { TransferMethod, TransferStatus } from '../services/transferTracker';
+import { Router, Request } from 'express';
+import transferTracker, { Transfer, TransferMethod, TransferStatus } from '../services/transferTracker';
+import cancellationManager, { CancellationFailure } from '../services/cancellationManager';
+import reservationSync from '../services/reservationSync';
+import listingRepricing, { InvalidRepricingRuleError, RepricingFailure } from '../services/listingRepricing';
+import auditLog, { actorFromRequest } from '../services/auditLog';
+import { InvalidTransitionError } from '../shared/reservationLifecycle';
 
 const router = Router();
 
+const CANCELLATION_STATUS: Record<CancellationFailure, number> = {
+  not_found: 404,
+  not_cancellable: 409,
+  fee_not_accepted: 409,
+  no_confirmation: 422,
+  platform_error: 502,
+};
+
+const REPRICING_STATUS: Record<RepricingFailure, number> = {
+  not_found: 404,
+  not_pending: 409,
+  not_listed: 409,
+  stale: 409,
+  not_revertible: 409,
+};
+
+/**
+ * Audit a transfer status change (who moved it, with which payload)
+ */
+const auditTransfer = (req: Request, action: string, transfer: Transfer) =>
+  auditLog.record({
+    action,
+    outcome: 'success',
+    actor: actorFromRequest(req),
+    platform: transfer.platform,
+    portfolioItemId: transfer.portfolio_item_id,
+    transferId: transfer.id,
+    request: req.body,
+    response: { status: transfer.status },
+  });
+
 /**
  * GET /api/transfers
  * Get all transfers with optional filtering
@@ -65,6 +111,81 @@ router.get('/action-needed', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/transfers/cancellation-deadlines
+ * Reservations we hold whose free-cancellation window closes within ?hours (default 72)
+ */
+router.get('/cancellation-deadlines', async (req, res) => {
+  try {
+    const hours = parseInt(req.query.hours as string) || 72;
+    const transfers = await transferTracker.getUpcomingCancellationDeadlines(hours);
+    res.json({ success: true, transfers, watcher: cancellationManager.getStatus() });
+  } catch (error: any) {
+    console.error('[API] Error fetching cancellation deadlines:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/transfers/reconciliation
+ * The latest reconciliation report (?id for an older one) and recent runs
+ */
+router.get('/reconciliation', async (req, res) => {
+  try {
+    const id = parseInt(req.query.id as string) || undefined;
+    const report = await reservationSync.getReport(id);
+    if (id && !report) {
+      return res.status(404).json({ success: false, error: 'Reconciliation report not found' });
+    }
+    res.json({ success: true, report, runs: await reservationSync.getRuns() });
+  } catch (error: any) {
+    console.error('[API] Error fetching reconciliation report:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/transfers/reconciliation
+ * Sync the platform accounts now and return the report
+ */
+router.post('/reconciliation', async (req, res) => {
+  try {
+    const report = await reservationSync.reconcile('manual', actorFromRequest(req));
+    res.json({ success: true, report });
+  } catch (error: any) {
+    console.error('[API] Error reconciling reservations:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/transfers/repricing
+ * Price drops waiting for approval, and the watcher's status
+ */
+router.get('/repricing', async (req, res) => {
+  try {
+    const pending = await listingRepricing.getPending();
+    res.json({ success: true, pending, watcher: listingRepricing.getStatus() });
+  } catch (error: any) {
+    console.error('[API] Error fetching price drops:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/transfers/repricing/run
+ * Check every listing's schedule now
+ */
+router.post('/repricing/run', async (req, res) => {
+  try {
+    const result = await listingRepricing.runOnce();
+    res.json({ success: true, result });
+  } catch (error: any) {
+    console.error('[API] Error running repricing:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * GET /api/transfers/:id
  * Get a specific transfer by ID
@@ -115,8 +236,9 @@ router.post('/', async (req, res) => {
       party_size,
       confirmation_number,
       booking_identity_id
-    });
+    }, actorFromRequest(req));
     
+    await auditTransfer(req, 'transfer.created', transfer);
     res.json({ success: true, transfer });
   } catch (error: any) {
     console.error('[API] Error creating transfer:', error);
@@ -140,14 +262,18 @@ router.put('/:id/listed', async (req, res) => {
       at_listing_id,
       at_listing_url,
       listing_price
-    });
+    }, actorFromRequest(req));
     
     if (!transfer) {
       return res.status(404).json({ success: false, error: 'Transfer not found' });
     }
     
+    await auditTransfer(req, 'transfer.listed', transfer);
     res.json({ success: true, transfer });
   } catch (error: any) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ success: false, error: error.message, code: 'invalid_transition' });
+    }
     console.error('[API] Error marking transfer as listed:', error);
     res.status(500).json({ success: false, error: error.message });
   }
@@ -174,14 +300,18 @@ router.put('/:id/sold', async (req, res) => {
       buyer_phone,
       sale_price,
       transfer_method: transfer_method as TransferMethod
-    });
+    }, actorFromRequest(req));
     
     if (!transfer) {
       return res.status(404).json({ success: false, error: 'Transfer not found' });
     }
     
+    await auditTransfer(req, 'transfer.sold', transfer);
     res.json({ success: true, transfer });
   } catch (error: any) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ success: false, error: error.message, code: 'invalid_transition' });
+    }
     console.error('[API] Error marking transfer as sold:', error);
     res.status(500).json({ success: false, error: error.message });
   }
@@ -195,14 +325,18 @@ router.put('/:id/transfer-pending', async (req, res) => {
   try {
     const { notes } = req.body;
     
-    const transfer = await transferTracker.markAsTransferPending(parseInt(req.params.id), notes);
+    const transfer = await transferTracker.markAsTransferPending(parseInt(req.params.id), notes, actorFromRequest(req));
     
     if (!transfer) {
       return res.status(404).json({ success: false, error: 'Transfer not found' });
     }
     
+    await auditTransfer(req, 'transfer.transfer_pending', transfer);
     res.json({ success: true, transfer });
   } catch (error: any) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ success: false, error: error.message, code: 'invalid_transition' });
+    }
     console.error('[API] Error marking transfer as pending:', error);
     res.status(500).json({ success: false, error: error.message });
   }
@@ -216,14 +350,18 @@ router.put('/:id/transferred', async (req, res) => {
   try {
     const { notes } = req.body;
     
-    const transfer = await transferTracker.markAsTransferred(parseInt(req.params.id), notes);
+    const transfer = await transferTracker.markAsTransferred(parseInt(req.params.id), notes, actorFromRequest(req));
     
     if (!transfer) {
       return res.status(404).json({ success: false, error: 'Transfer not found' });
     }
     
+    await auditTransfer(req, 'transfer.transferred', transfer);
     res.json({ success: true, transfer });
   } catch (error: any) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ success: false, error: error.message, code: 'invalid_transition' });
+    }
     console.error('[API] Error marking transfer as transferred:', error);
     res.status(500).json({ success: false, error: error.message });
   }
@@ -235,29 +373,162 @@ router.put('/:id/transferred', async (req, res) => {
  */
 router.put('/:id/completed', async (req, res) => {
   try {
-    const transfer = await transferTracker.markAsCompleted(parseInt(req.params.id));
+    const transfer = await transferTracker.markAsCompleted(parseInt(req.params.id), actorFromRequest(req));
     
     if (!transfer) {
       return res.status(404).json({ success: false, error: 'Transfer not found' });
     }
     
+    await auditTransfer(req, 'transfer.completed', transfer);
     res.json({ success: true, transfer });
   } catch (error: any) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ success: false, error: error.message, code: 'invalid_transition' });
+    }
     console.error('[API] Error marking transfer as completed:', error);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+/**
+ * POST /api/transfers/:id/cancel
+ * Release the reservation on its platform (body: reason, acceptFee).
+ * Past the free-cancellation deadline this is refused unless acceptFee is true.
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const { reason, acceptFee } = req.body || {};
+    
+    const result = await cancellationManager.cancelTransfer(parseInt(req.params.id), {
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : 'unused',
+      acceptFee: acceptFee === true,
+      actor: actorFromRequest(req),
+    });
+    
+    if (!result.success) {
+      return res.status(CANCELLATION_STATUS[result.code!] || 500).json({
+        success: false,
+        error: result.error,
+        code: result.code,
+        fee: result.fee,
+        deadline: result.deadline,
+      });
+    }
+    
+    res.json({ success: true, transfer: result.transfer, feeCharged: result.feeCharged });
+  } catch (error: any) {
+    console.error('[API] Error cancelling transfer:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/transfers/:id/price-history
+ * Every listing price and proposed drop, oldest first
+ */
+router.get('/:id/price-history', async (req, res) => {
+  try {
+    const transfer = await transferTracker.getTransfer(parseInt(req.params.id));
+    if (!transfer) {
+      return res.status(404).json({ success: false, error: 'Transfer not found' });
+    }
+    const history = await listingRepricing.getHistory(transfer.id);
+    res.json({ success: true, history });
+  } catch (error: any) {
+    console.error('[API] Error fetching price history:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * GET /api/transfers/:id/repricing
+ * The listing's price-decay schedule (its own, or the default)
+ */
+router.get('/:id/repricing', async (req, res) => {
+  try {
+    const transfer = await transferTracker.getTransfer(parseInt(req.params.id));
+    if (!transfer) {
+      return res.status(404).json({ success: false, error: 'Transfer not found' });
+    }
+    res.json({ success: true, rule: await listingRepricing.getRule(transfer.id) });
+  } catch (error: any) {
+    console.error('[API] Error fetching repricing rule:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * PUT /api/transfers/:id/repricing
+ * Give the listing its own schedule
+ * (body: enabled, steps [{ hoursBefore, percentOff }], floorPrice, followMarket, autoApprove)
+ */
+router.put('/:id/repricing', async (req, res) => {
+  try {
+    const { enabled, steps, floorPrice, followMarket, autoApprove } = req.body || {};
+    const rule = await listingRepricing.setRule(
+      parseInt(req.params.id),
+      { enabled, steps, floorPrice, followMarket, autoApprove },
+      actorFromRequest(req)
+    );
+    if (!rule) {
+      return res.status(404).json({ success: false, error: 'Transfer not found' });
+    }
+    res.json({ success: true, rule });
+  } catch (error: any) {
+    if (error instanceof InvalidRepricingRuleError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error('[API] Error saving repricing rule:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+/**
+ * POST /api/transfers/:id/price-changes/:changeId/(approve|reject|revert)
+ * Decide on a proposed drop, or undo an applied price change
+ */
+router.post('/:id/price-changes/:changeId/:decision(approve|reject|revert)', async (req, res) => {
+  try {
+    const changeId = parseInt(req.params.changeId);
+    const existing = await listingRepricing.getChange(changeId);
+    if (!existing || existing.transferId !== parseInt(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Price change not found', code: 'not_found' });
+    }
+
+    const actor = actorFromRequest(req);
+    const decision = req.params.decision;
+    const result = decision === 'approve'
+      ? await listingRepricing.approve(changeId, actor)
+      : decision === 'reject'
+        ? await listingRepricing.reject(changeId, actor)
+        : await listingRepricing.revert(changeId, actor);
+
+    if (!result.success) {
+      return res.status(REPRICING_STATUS[result.code!] || 500).json({
+        success: false,
+        error: result.error,
+        code: result.code,
+      });
+    }
+    res.json({ success: true, change: result.change, transfer: await transferTracker.getTransfer(existing.transferId) });
+  } catch (error: any) {
+    console.error('[API] Error deciding price change:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 /**
  * DELETE /api/transfers/:id
  * Delete a transfer
  */
 router.delete('/:id', async (req, res) => {
   try {
+    const transfer = await transferTracker.getTransfer(parseInt(req.params.id));
     const success = await transferTracker.deleteTransfer(parseInt(req.params.id));
     if (!success) {
       return res.status(404).json({ success: false, error: 'Transfer not found' });
     }
+    if (transfer) await auditTransfer(req, 'transfer.deleted', transfer);
     res.json({ success: true });
   } catch (error: any) {
     console.error('[API] Error deleting transfer:', error);
@@ -1,4 +1,6 @@
 -- Migration 001: Initial Schema
+-- Applied by migrations/001_initial_schema.ts and checksummed: don't edit,
+-- add a new migration under migrations/ instead.
 
 -- 1. Portfolio Items (The "Assets")
 CREATE TABLE IF NOT EXISTS portfolio_items (
@@ -50,7 +52,7 @@ CREATE TABLE IF NOT EXISTS restaurants (
     next_drop_date DATE,
     next_drop_time TIME,
     drop_timezone TEXT DEFAULT 'America/New_York',
-    drop_pattern TEXT, -- Human readable: "Monthly on 1st at 10 AM PST"
+    drop_pattern TEXT, -- Converted to a structured JSONB rule by migration 007 (shared/dropRules.ts)
     
     -- Timestamps
     last_price_update TIMESTAMP WITH TIME ZONE,
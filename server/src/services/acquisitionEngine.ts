@@ -10,11 +10,8 @@
  * - Concurrent attempts
  * - Drop pattern learning/confirmation
  * 
- * Supported Platforms:
- * - Resy (API)
- * - OpenTable (API)
- * - SevenRooms (API)
- * - Tock (API)
+ * Supported Platforms: whatever the platform registry lists
+ * (src/platforms - Resy, OpenTable, SevenRooms, Tock)
  * 
  * Key Features:
  * - Pre-warm connections before drop time
@@ -23,20 +20,25 @@
  * - Confirmation of drop patterns after success
  */
 
-import resyClient, { ConciergeBookingRequest } from './resyApi';
-import openTableClient, { OpenTableProfessionalBookingRequest } from './openTableApi';
-import sevenRoomsClient from './sevenRoomsApi';
-import tockClient from './tockApi';
 import pool from '../db';
 import identityManager, { BookingIdentity } from './identityManager';
 import transferTracker from './transferTracker';
 import clientManager, { Client } from './clientManager';
+import dropPatternLearning from './dropPatternLearning';
+import auditLog, { AuditActor, SYSTEM_ACTOR } from './auditLog';
+import platformGovernor from './platformGovernor';
+import credentialHealth from './credentialHealth';
+import clockSync from './clockSync';
+import dropTrace from './dropTrace';
+import eventStream from './eventStream';
+import { daysBetween, getDropInstant } from '../shared/dropTime';
+import { getAdapter, listAdapters, PlatformAdapter, PlatformId, ClientInfo, BookingRequest } from '../platforms';
 
 // ============================================
 // TYPES
 // ============================================
 
-export type Platform = 'resy' | 'opentable' | 'sevenrooms' | 'tock' | 'unknown';
+export type Platform = PlatformId | 'unknown';
 
 export interface AcquisitionRequest {
   platform: Platform;
@@ -63,6 +65,9 @@ export interface AcquisitionRequest {
   
   // Portfolio tracking
   portfolioItemId?: string;
+
+  // Who asked for this booking (audit trail) - defaults to 'system'
+  actor?: AuditActor;
   
   // ============================================
   // CONCIERGE MODE - Book on behalf of clients
@@ -108,6 +113,7 @@ export interface AcquisitionResult {
   platform: Platform;
   confirmationCode?: string;
   bookedTime?: string;
+  cancellationFee?: number | null;  // Late-cancel fee on the booked slot, where the platform reports one
   error?: string;
   attempts?: number;
   duration?: number;
@@ -124,14 +130,25 @@ export interface AcquisitionResult {
   
   // Transfer tracking
   transferId?: number;
+
+  // Drop post-mortem (executeAtDropTime only)
+  traceId?: number;
 }
 
+// executeAtDropTime waits for the platform's drop instant only when it's
+// this close - callers arm it seconds ahead, anything further is a manual run
+const MAX_PRE_DROP_WAIT_MS = 30 * 1000;
+
+// Never start later than this before the corrected drop instant
+const MAX_DROP_LEAD_MS = 1000;
+
 export interface DropTimeConfig {
   portfolioItemId: string;
   dropDate: string; // YYYY-MM-DD (the date reservations become available)
   dropTime: string; // HH:MM (when they drop)
   targetDate: string; // YYYY-MM-DD (the date TO BOOK)
   timezone: string;
+  jobId?: number; // scheduled_drops row this run belongs to
 }
 
 // ============================================
@@ -145,28 +162,25 @@ class AcquisitionEngine {
    * Get status of all platform clients
    */
   getClientsStatus(): Record<Platform, { ready: boolean; details: any }> {
-    return {
-      resy: {
-        ready: resyClient.isConfigured().ready,
-        details: resyClient.isConfigured(),
-      },
-      opentable: {
-        ready: openTableClient.isConfigured().ready,
-        details: openTableClient.isConfigured(),
-      },
-      sevenrooms: {
-        ready: sevenRoomsClient.isConfigured().ready,
-        details: sevenRoomsClient.isConfigured(),
-      },
-      tock: {
-        ready: tockClient.isConfigured().ready,
-        details: tockClient.isConfigured(),
-      },
+    const status = {
       unknown: {
         ready: false,
         details: { message: 'Platform not specified' },
       },
-    };
+    } as Record<Platform, { ready: boolean; details: any }>;
+
+    for (const adapter of listAdapters()) {
+      const { ready, details } = adapter.getStatus();
+      status[adapter.id] = { ready, details };
+    }
+    return status;
+  }
+
+  /**
+   * Base URL each platform client talks to (for clock probes)
+   */
+  getBaseUrl(platform: Platform): string | null {
+    return getAdapter(platform)?.getBaseUrl() ?? null;
   }
 
   /**
@@ -177,6 +191,21 @@ class AcquisitionEngine {
    * 2. CONCIERGE: Book under CLIENT's name (no transfer needed!)
    */
   async acquire(request: AcquisitionRequest): Promise<AcquisitionResult> {
+    this.publishStarted(request, 'direct');
+    try {
+      const result = await this.runAcquisition(request);
+      await this.auditAcquisition('acquisition.attempt', request, result);
+      this.publishOutcome(request, result);
+      return result;
+    } catch (error: any) {
+      const failure: AcquisitionResult = { success: false, platform: request.platform, error: error.message };
+      await this.auditAcquisition('acquisition.attempt', request, failure);
+      this.publishOutcome(request, failure);
+      throw error;
+    }
+  }
+
+  private async runAcquisition(request: AcquisitionRequest): Promise<AcquisitionResult> {
     const startTime = Date.now();
     const maxRetries = request.maxRetries || 3;
     let attempts = 0;
@@ -256,7 +285,8 @@ class AcquisitionEngine {
           client_id: cid,
           booked_under_name: `${clientInfo.firstName} ${clientInfo.lastName}`,
           status: 'COMPLETED', // No transfer needed for concierge
-        });
+          cancellation_fee: result.cancellationFee,
+        }, request.actor);
         result.transferId = transfer.id;
         result.clientId = cid;
       }
@@ -272,7 +302,18 @@ class AcquisitionEngine {
     
     // Select or fetch the identity to use
     let identity: BookingIdentity | null = null;
-    const platformKey = request.platform as 'resy' | 'opentable' | 'sevenrooms' | 'tock';
+    const adapter = getAdapter(request.platform);
+    if (!adapter) {
+      return {
+        success: false,
+        platform: request.platform,
+        bookingMode: 'standard',
+        error: `Unknown platform: ${request.platform}`,
+        attempts: 0,
+        duration: Date.now() - startTime,
+      };
+    }
+    const platformKey = adapter.id;
     
     if (request.identityId) {
       identity = await identityManager.getIdentity(request.identityId);
@@ -295,34 +336,17 @@ class AcquisitionEngine {
     console.log(`  Identity: ${identity.name} (ID: ${identity.id})`);
 
     for (let retry = 0; retry < maxRetries; retry++) {
+      // Retrying into a paused platform only digs the hole deeper
+      const pausedFor = platformGovernor.getPauseRemaining(request.platform);
+      if (pausedFor > 0) {
+        lastError = `${request.platform} is paused after repeated rate limiting - retry in ${Math.ceil(pausedFor / 1000)}s`;
+        break;
+      }
+
       attempts++;
       
       try {
-        let result: AcquisitionResult;
-
-        switch (request.platform) {
-          case 'resy':
-            result = await this.acquireResy(request, identity);
-            break;
-          case 'opentable':
-            result = await this.acquireOpenTable(request, identity);
-            break;
-          case 'sevenrooms':
-            result = await this.acquireSevenRooms(request, identity);
-            break;
-          case 'tock':
-            result = await this.acquireTock(request, identity);
-            break;
-          default:
-            return {
-              success: false,
-              platform: request.platform,
-              bookingMode: 'standard',
-              error: `Unknown platform: ${request.platform}`,
-              attempts,
-              duration: Date.now() - startTime,
-            };
-        }
+        const result = await this.bookStandard(adapter, request, identity);
 
         if (result.success) {
           result.attempts = attempts;
@@ -334,6 +358,7 @@ class AcquisitionEngine {
           
           // Record the booking against the identity
           await identityManager.recordBooking(identity.id, platformKey);
+          await credentialHealth.recordBookingOutcome(identity.id, request.platform, true);
           
           // Create transfer record for AT listing workflow
           const transfer = await transferTracker.createTransfer({
@@ -347,7 +372,8 @@ class AcquisitionEngine {
             booking_identity_id: identity.id,
             booking_type: 'standard',
             booked_under_name: identity.name,
-          });
+            cancellation_fee: result.cancellationFee,
+          }, request.actor);
           result.transferId = transfer.id;
           
           console.log(`[AcquisitionEngine] ✅ SUCCESS after ${attempts} attempts (${result.duration}ms)`);
@@ -375,6 +401,9 @@ class AcquisitionEngine {
       }
     }
 
+    // An auth failure here means the identity needs re-authenticating
+    await credentialHealth.recordBookingOutcome(identity.id, request.platform, false, lastError);
+
     return {
       success: false,
       platform: request.platform,
@@ -394,28 +423,32 @@ class AcquisitionEngine {
    */
   private async acquireConcierge(
     request: AcquisitionRequest,
-    clientInfo: { firstName: string; lastName: string; email: string; phone: string; specialRequest?: string }
+    clientInfo: ClientInfo
   ): Promise<AcquisitionResult> {
     console.log(`[AcquisitionEngine] 🎩 Concierge booking for ${clientInfo.firstName} ${clientInfo.lastName}`);
 
+    const adapter = getAdapter(request.platform);
+    if (!adapter) {
+      return {
+        success: false,
+        platform: request.platform,
+        bookingMode: 'concierge',
+        error: `Unknown platform: ${request.platform}`,
+      };
+    }
+
+    const booking = this.toBookingRequest(adapter, request);
+    if (!booking) {
+      return { success: false, platform: adapter.id, bookingMode: 'concierge', error: `${adapter.venue.requestField} not provided` };
+    }
+
     try {
-      switch (request.platform) {
-        case 'resy':
-          return await this.acquireResyConcierge(request, clientInfo);
-        case 'opentable':
-          return await this.acquireOpenTableProfessional(request, clientInfo);
-        case 'sevenrooms':
-          return await this.acquireSevenRoomsConcierge(request, clientInfo);
-        case 'tock':
-          return await this.acquireTockConcierge(request, clientInfo);
-        default:
-          return {
-            success: false,
-            platform: request.platform,
-            bookingMode: 'concierge',
-            error: `Unknown platform: ${request.platform}`,
-          };
-      }
+      const result = await adapter.bookForClient(booking, clientInfo);
+      return {
+        ...result,
+        platform: adapter.id,
+        bookingMode: 'concierge',
+      };
     } catch (error: any) {
       return {
         success: false,
@@ -427,157 +460,91 @@ class AcquisitionEngine {
   }
 
   /**
-   * Resy Concierge booking - uses "Book On Behalf Of" feature
-   * Requires: Approved Resy Concierge account
+   * Standard booking under our own account
+   * Note: Credentials are read from environment variables in the platform client.
+   * The identity system tracks WHICH identity's credentials should be used.
+   * For multi-identity support, you'd need to swap env vars or extend the clients.
    */
-  private async acquireResyConcierge(
+  private async bookStandard(
+    adapter: PlatformAdapter,
     request: AcquisitionRequest,
-    clientInfo: { firstName: string; lastName: string; email: string; phone: string; specialRequest?: string }
+    identity: BookingIdentity
   ): Promise<AcquisitionResult> {
-    if (!request.resyVenueId) {
-      return { success: false, platform: 'resy', bookingMode: 'concierge', error: 'resyVenueId not provided' };
+    const booking = this.toBookingRequest(adapter, request);
+    if (!booking) {
+      return { success: false, platform: adapter.id, error: `${adapter.venue.requestField} not provided` };
     }
 
-    const result = await resyClient.bookOnBehalfOf({
-      venueId: request.resyVenueId,
-      date: request.date,
-      partySize: request.partySize,
-      preferredTime: request.time,
-      timeFlexibility: request.timeFlexibility || 60,
-      guestFirstName: clientInfo.firstName,
-      guestLastName: clientInfo.lastName,
-      guestEmail: clientInfo.email,
-      guestPhone: clientInfo.phone,
-      specialRequest: clientInfo.specialRequest,
-    });
+    console.log(`[AcquisitionEngine] Using identity "${identity.name}" for ${adapter.label} booking`);
 
+    const result = await adapter.book(booking);
     return {
       success: result.success,
-      platform: 'resy',
-      bookingMode: 'concierge',
-      confirmationCode: result.resy_token || result.confirmation,
-      bookedTime: result.bookedTime,
-      bookedUnderName: result.bookedUnderName,
+      platform: adapter.id,
+      confirmationCode: result.confirmationCode,
+      bookedTime: request.time, // Use requested time as booked time
+      cancellationFee: result.cancellationFee,
       error: result.error,
       details: result.details,
     };
   }
 
   /**
-   * OpenTable Professional Profile booking - books under client's name
-   * Requires: Professional Profile enabled in account settings
+   * The platform's view of a request (null without its venue ID)
    */
-  private async acquireOpenTableProfessional(
-    request: AcquisitionRequest,
-    clientInfo: { firstName: string; lastName: string; email: string; phone: string }
-  ): Promise<AcquisitionResult> {
-    if (!request.openTableId) {
-      return { success: false, platform: 'opentable', bookingMode: 'concierge', error: 'openTableId not provided' };
-    }
-
-    const result = await openTableClient.bookForDiner({
-      restaurantId: request.openTableId,
-      date: request.date,
-      time: request.time,
-      partySize: request.partySize,
-      timeFlexibility: request.timeFlexibility || 60,
-      dinerFirstName: clientInfo.firstName,
-      dinerLastName: clientInfo.lastName,
-      dinerEmail: clientInfo.email,
-      dinerPhone: clientInfo.phone,
-    });
+  private toBookingRequest(adapter: PlatformAdapter, request: AcquisitionRequest): BookingRequest | null {
+    const venueId = request[adapter.venue.requestField];
+    if (!venueId) return null;
 
     return {
-      success: result.success,
-      platform: 'opentable',
-      bookingMode: 'concierge',
-      confirmationCode: result.confirmationNumber,
-      bookedTime: result.bookedTime,
-      bookedUnderName: result.bookedUnderName,
-      error: result.error,
-      details: result.details,
-    };
-  }
-
-  /**
-   * SevenRooms concierge booking - uses client info directly
-   * SevenRooms widget bookings just need guest info, no special account needed
-   */
-  private async acquireSevenRoomsConcierge(
-    request: AcquisitionRequest,
-    clientInfo: { firstName: string; lastName: string; email: string; phone: string }
-  ): Promise<AcquisitionResult> {
-    if (!request.sevenRoomsSlug) {
-      return { success: false, platform: 'sevenrooms', bookingMode: 'concierge', error: 'sevenRoomsSlug not provided' };
-    }
-
-    // SevenRooms naturally supports booking with any guest info
-    // We just pass the client's info instead of ours
-    const result = await sevenRoomsClient.acquire({
-      venueSlug: request.sevenRoomsSlug,
+      venueId: String(venueId),
       date: request.date,
       time: request.time,
       partySize: request.partySize,
-      timeFlexibility: request.timeFlexibility || 60,
-      // Override guest info with client info
-      firstName: clientInfo.firstName,
-      lastName: clientInfo.lastName,
-      email: clientInfo.email,
-      phone: clientInfo.phone,
-    });
-
-    return {
-      success: result.success,
-      platform: 'sevenrooms',
-      bookingMode: 'concierge',
-      confirmationCode: result.confirmationId,
-      bookedTime: request.time,
-      bookedUnderName: `${clientInfo.firstName} ${clientInfo.lastName}`,
-      error: result.error,
-      details: result.details,
+      timeFlexibility: request.timeFlexibility,
     };
   }
 
   /**
-   * Tock concierge booking - uses client info directly
+   * Execute acquisition at exact drop time with aggressive retry
    */
-  private async acquireTockConcierge(
+  async executeAtDropTime(
     request: AcquisitionRequest,
-    clientInfo: { firstName: string; lastName: string; email: string; phone: string }
+    config: DropTimeConfig
   ): Promise<AcquisitionResult> {
-    if (!request.tockSlug) {
-      return { success: false, platform: 'tock', bookingMode: 'concierge', error: 'tockSlug not provided' };
+    let dropAt: Date | null = null;
+    try {
+      dropAt = getDropInstant(config.dropDate, config.dropTime, config.timezone);
+    } catch {
+      // Traced without drop-relative timings
     }
-
-    // Tock bookings can use client info if we extend the API client
-    const result = await tockClient.acquire({
-      venueSlug: request.tockSlug,
-      date: request.date,
-      time: request.time,
-      partySize: request.partySize,
-      // Client info would need to be passed to Tock API
-      firstName: clientInfo.firstName,
-      lastName: clientInfo.lastName,
-      email: clientInfo.email,
-      phone: clientInfo.phone,
+    const trace = dropTrace.start({
+      scheduledDropId: config.jobId,
+      portfolioItemId: config.portfolioItemId,
+      restaurantName: request.restaurantName,
+      platform: request.platform,
+      dropAt,
     });
 
-    return {
-      success: result.success,
-      platform: 'tock',
-      bookingMode: 'concierge',
-      confirmationCode: result.confirmationId,
-      bookedTime: request.time,
-      bookedUnderName: `${clientInfo.firstName} ${clientInfo.lastName}`,
-      error: result.error,
-      details: result.details,
-    };
+    // One audit event for the whole drop, not one per loop iteration
+    this.publishStarted(request, 'drop');
+    try {
+      const result = await dropTrace.within(trace, () => this.runAtDropTime(request, config));
+      const traceId = await dropTrace.save(trace, result.success);
+      if (traceId) result.traceId = traceId;
+      await this.auditAcquisition('acquisition.drop', { ...request, date: config.targetDate }, result);
+      this.publishOutcome(request, result);
+      return result;
+    } catch (error: any) {
+      const failure: AcquisitionResult = { success: false, platform: request.platform, error: error.message };
+      await dropTrace.save(trace, false);
+      await this.auditAcquisition('acquisition.drop', { ...request, date: config.targetDate }, failure);
+      this.publishOutcome(request, failure);
+      throw error;
+    }
   }
 
-  /**
-   * Execute acquisition at exact drop time with aggressive retry
-   */
-  async executeAtDropTime(
+  private async runAtDropTime(
     request: AcquisitionRequest,
     config: DropTimeConfig
   ): Promise<AcquisitionResult> {
@@ -601,6 +568,9 @@ class AcquisitionEngine {
     console.log('[AcquisitionEngine] Phase 1: Pre-warming connections...');
     await this.prewarmPlatform(request.platform, request);
 
+    // Wait for the drop on the platform's clock, not ours
+    await this.waitForPlatformDrop(request.platform, config);
+
     // Phase 2: Aggressive acquisition loop
     console.log('[AcquisitionEngine] Phase 2: Starting aggressive acquisition...');
     
@@ -615,17 +585,33 @@ class AcquisitionEngine {
         break;
       }
 
+      // Platform paused by the governor: wait it out if the window allows
+      const pausedFor = platformGovernor.getPauseRemaining(request.platform);
+      if (pausedFor > 0) {
+        if (Date.now() - startTime + pausedFor >= maxDuration) {
+          console.log(`[AcquisitionEngine] 🛑 ${request.platform} paused for ${Math.ceil(pausedFor / 1000)}s - giving up on this drop`);
+          lastResult = {
+            success: false,
+            platform: request.platform,
+            error: `${request.platform} is paused after repeated rate limiting`,
+          };
+          break;
+        }
+        await this.sleep(pausedFor);
+      }
+
       attempts++;
       
       try {
-        lastResult = await this.acquire({
+        lastResult = await this.runAcquisition({
           ...dropRequest,
           maxRetries: 1, // Single attempt per loop iteration
         });
+        dropTrace.record('attempt', { attempt: attempts, success: lastResult.success, error: lastResult.error });
 
         if (lastResult.success) {
           // Success! Record the drop pattern
-          await this.confirmDropPattern(config, {
+          await this.confirmDropPattern(request, config, {
             success: true,
             actualTime: new Date().toISOString(),
           });
@@ -643,6 +629,7 @@ class AcquisitionEngine {
 
       } catch (error: any) {
         console.error(`[AcquisitionEngine] Drop attempt ${attempts} error:`, error.message);
+        dropTrace.record('attempt', { attempt: attempts, success: false, error: error.message });
         await this.sleep(200);
       }
     }
@@ -659,157 +646,120 @@ class AcquisitionEngine {
   }
 
   /**
-   * Pre-warm platform connection before drop time
+   * Sleep until the platform's clock reaches the drop, less half a round
+   * trip (so the first request lands on time) and the estimate's
+   * uncertainty (so we're never late)
    */
-  private async prewarmPlatform(platform: Platform, request: AcquisitionRequest): Promise<void> {
+  private async waitForPlatformDrop(platform: Platform, config: DropTimeConfig): Promise<void> {
+    let dropInstant: Date;
     try {
-      switch (platform) {
-        case 'resy':
-          if (request.resyVenueId) {
-            // Make a non-booking API call to warm connection
-            await resyClient.findSlots(request.resyVenueId, request.date, request.partySize);
-          }
-          break;
-        case 'opentable':
-          if (request.openTableId) {
-            await openTableClient.findSlots(request.openTableId, request.date, request.time, request.partySize);
-          }
-          break;
-        case 'sevenrooms':
-          if (request.sevenRoomsSlug) {
-            await sevenRoomsClient.findSlots(request.sevenRoomsSlug, request.date, request.time, request.partySize);
-          }
-          break;
-        case 'tock':
-          if (request.tockSlug) {
-            await tockClient.findSlots(request.tockSlug, request.date, request.partySize);
-          }
-          break;
-      }
-      console.log(`[AcquisitionEngine] ${platform} connection pre-warmed`);
-    } catch (error: any) {
-      console.log(`[AcquisitionEngine] Pre-warm failed (non-critical): ${error.message}`);
+      dropInstant = getDropInstant(config.dropDate, config.dropTime, config.timezone);
+    } catch {
+      return;
     }
-  }
 
-  /**
-   * Resy acquisition with identity tracking
-   * Note: Credentials are read from environment variables in the platform client.
-   * The identity system tracks WHICH identity's credentials should be used.
-   * For multi-identity support, you'd need to swap env vars or extend the clients.
-   */
-  private async acquireResy(request: AcquisitionRequest, identity: BookingIdentity): Promise<AcquisitionResult> {
-    if (!request.resyVenueId) {
-      return { success: false, platform: 'resy', error: 'resyVenueId not provided' };
-    }
+    const estimate = clockSync.getEstimate(platform);
+    const lead = estimate
+      ? Math.min(Math.round(estimate.rttMs / 2) + estimate.uncertaintyMs, MAX_DROP_LEAD_MS)
+      : 0;
+    const fireAt = clockSync.toLocalTime(platform, dropInstant).getTime() - lead;
+    const wait = fireAt - Date.now();
 
-    console.log(`[AcquisitionEngine] Using identity "${identity.name}" for Resy booking`);
-    
-    const result = await resyClient.acquire({
-      venueId: request.resyVenueId,
-      date: request.date,
-      partySize: request.partySize,
-      preferredTime: request.time,
-      timeFlexibility: request.timeFlexibility || 60,
-    });
+    if (wait <= 0 || wait > MAX_PRE_DROP_WAIT_MS) return;
 
-    return {
-      success: result.success,
-      platform: 'resy',
-      confirmationCode: result.resy_token || result.confirmation,
-      bookedTime: request.time, // Use requested time as booked time
-      error: result.error,
-      details: result.details,
-    };
+    console.log(`[AcquisitionEngine] ⏱️ Waiting ${wait}ms for ${platform} drop time (clock offset ${estimate ? `${estimate.offsetMs}±${estimate.uncertaintyMs}ms` : 'unknown'})`);
+    await this.sleep(wait);
   }
 
   /**
-   * OpenTable acquisition with identity tracking
+   * Pre-warm platform connection before drop time
    */
-  private async acquireOpenTable(request: AcquisitionRequest, identity: BookingIdentity): Promise<AcquisitionResult> {
-    if (!request.openTableId) {
-      return { success: false, platform: 'opentable', error: 'openTableId not provided' };
-    }
-
-    console.log(`[AcquisitionEngine] Using identity "${identity.name}" for OpenTable booking`);
-
-    const result = await openTableClient.acquire({
-      restaurantId: request.openTableId,
-      date: request.date,
-      time: request.time,
-      partySize: request.partySize,
-      timeFlexibility: request.timeFlexibility || 60,
-    });
+  private async prewarmPlatform(platform: Platform, request: AcquisitionRequest): Promise<void> {
+    const adapter = getAdapter(platform);
+    const booking = adapter && this.toBookingRequest(adapter, request);
+    if (!adapter || !booking) return;
 
-    return {
-      success: result.success,
-      platform: 'opentable',
-      confirmationCode: result.confirmationNumber,
-      bookedTime: request.time,
-      error: result.error,
-      details: result.details,
-    };
+    try {
+      // A non-booking API call to warm the connection
+      await adapter.prewarm(booking);
+      console.log(`[AcquisitionEngine] ${platform} connection pre-warmed`);
+    } catch (error: any) {
+      console.log(`[AcquisitionEngine] Pre-warm failed (non-critical): ${error.message}`);
+    }
   }
 
   /**
-   * SevenRooms acquisition with identity tracking
+   * Record who booked what and how the platform answered
    */
-  private async acquireSevenRooms(request: AcquisitionRequest, identity: BookingIdentity): Promise<AcquisitionResult> {
-    if (!request.sevenRoomsSlug) {
-      return { success: false, platform: 'sevenrooms', error: 'sevenRoomsSlug not provided' };
-    }
-
-    console.log(`[AcquisitionEngine] Using identity "${identity.name}" for SevenRooms booking`);
-
-    const result = await sevenRoomsClient.acquire({
-      venueSlug: request.sevenRoomsSlug,
-      date: request.date,
-      time: request.time,
-      partySize: request.partySize,
-      timeFlexibility: request.timeFlexibility || 60,
+  // Live updates for the dashboard (see eventStream.ts)
+  private publishStarted(request: AcquisitionRequest, trigger: 'drop' | 'direct'): void {
+    eventStream.publish('acquisition.started', {
+      restaurantName: request.restaurantName,
+      platform: request.platform,
+      portfolioItemId: request.portfolioItemId,
+      trigger,
     });
-
-    return {
-      success: result.success,
-      platform: 'sevenrooms',
-      confirmationCode: result.confirmationId,
-      bookedTime: request.time,
-      error: result.error,
-      details: result.details,
-    };
   }
 
-  /**
-   * Tock acquisition with identity tracking
-   */
-  private async acquireTock(request: AcquisitionRequest, identity: BookingIdentity): Promise<AcquisitionResult> {
-    if (!request.tockSlug) {
-      return { success: false, platform: 'tock', error: 'tockSlug not provided' };
+  private publishOutcome(request: AcquisitionRequest, result: AcquisitionResult): void {
+    const base = {
+      restaurantName: request.restaurantName,
+      platform: request.platform,
+      portfolioItemId: request.portfolioItemId,
+      attempts: result.attempts,
+    };
+    if (result.success) {
+      eventStream.publish('acquisition.succeeded', {
+        ...base,
+        confirmationCode: result.confirmationCode,
+        transferId: result.transferId,
+        duration: result.duration,
+      });
+    } else {
+      eventStream.publish('acquisition.failed', { ...base, error: result.error });
     }
+  }
 
-    console.log(`[AcquisitionEngine] Using identity "${identity.name}" for Tock booking`);
-
-    const result = await tockClient.acquire({
-      venueSlug: request.tockSlug,
-      date: request.date,
-      time: request.time,
-      partySize: request.partySize,
-    });
+  private async auditAcquisition(
+    action: string,
+    request: AcquisitionRequest,
+    result: AcquisitionResult
+  ): Promise<void> {
+    // Client contact details stay in the clients table - the name is enough here
+    const { actor, clientInfo, ...payload } = request;
 
-    return {
-      success: result.success,
-      platform: 'tock',
-      confirmationCode: result.confirmationId,
-      bookedTime: request.time,
+    await auditLog.record({
+      action,
+      outcome: result.success ? 'success' : 'failure',
+      actor: actor || SYSTEM_ACTOR,
+      platform: request.platform,
+      portfolioItemId: request.portfolioItemId,
+      clientId: result.clientId ?? request.clientId,
+      transferId: result.transferId,
+      identityId: result.identityId ?? request.identityId,
+      request: {
+        ...payload,
+        clientName: clientInfo ? `${clientInfo.firstName} ${clientInfo.lastName}` : undefined,
+      },
+      response: {
+        confirmationCode: result.confirmationCode,
+        bookedTime: result.bookedTime,
+        bookingMode: result.bookingMode,
+        bookedUnderName: result.bookedUnderName,
+        identityName: result.identityName,
+        attempts: result.attempts,
+        duration: result.duration,
+        details: result.details,
+      },
       error: result.error,
-      details: result.details,
-    };
+    });
   }
 
   /**
    * Confirm and record a drop pattern after successful acquisition
    */
   private async confirmDropPattern(
+    request: AcquisitionRequest,
     config: DropTimeConfig,
     result: { success: boolean; actualTime: string }
   ): Promise<void> {
@@ -817,41 +767,21 @@ class AcquisitionEngine {
 
     try {
       // Calculate days in advance this reservation dropped
-      const dropDate = new Date(config.dropDate);
-      const targetDate = new Date(config.targetDate);
-      const daysInAdvance = Math.round((targetDate.getTime() - dropDate.getTime()) / (1000 * 60 * 60 * 24));
+      const daysInAdvance = daysBetween(config.dropDate, config.targetDate);
 
       console.log(`[AcquisitionEngine] 📊 Drop Pattern Confirmed:`);
       console.log(`  Restaurant drops ${daysInAdvance} days in advance`);
       console.log(`  Drop time: ${config.dropTime} ${config.timezone}`);
 
-      // Store the confirmed drop pattern
-      await pool.query(`
-        INSERT INTO confirmed_drop_patterns (
-          portfolio_item_id,
-          restaurant_name,
-          days_in_advance,
-          drop_time,
-          drop_timezone,
-          confirmed_at,
-          success_rate
-        )
-        SELECT 
-          $1,
-          restaurant_name,
-          $2,
-          $3,
-          $4,
-          NOW(),
-          1.0
-        FROM portfolio_items WHERE id = $1
-        ON CONFLICT (portfolio_item_id) DO UPDATE SET
-          days_in_advance = $2,
-          drop_time = $3,
-          drop_timezone = $4,
-          confirmed_at = NOW(),
-          success_rate = (confirmed_drop_patterns.success_rate + 1.0) / 2
-      `, [config.portfolioItemId, daysInAdvance, config.dropTime, config.timezone]);
+      // Learn from the scheduled drop, not the moment the retry loop won
+      await dropPatternLearning.confirmPattern({
+        restaurantName: request.restaurantName,
+        platform: request.platform,
+        targetDate: config.targetDate,
+        attemptTime: getDropInstant(config.dropDate, config.dropTime, config.timezone),
+        success: true,
+        timezone: config.timezone,
+      });
 
     } catch (error: any) {
       console.error('[AcquisitionEngine] Failed to record drop pattern:', error.message);
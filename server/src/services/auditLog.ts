@@ -0,0 +1,205 @@
+/**
+ * Audit Log Service
+ *
+ * Append-only trail of bookings, transfers, booking requests and
+ * credential changes - who triggered each one, from which channel,
+ * what was asked for and what the platform answered.
+ *
+ * - Payloads are redacted (tokens, cookies, passwords) before insert
+ * - Recording never throws: a failed audit write is logged, the booking
+ *   it describes still goes through
+ */
+
+import { Request } from 'express';
+import pool from '../db';
+import type { User } from './authService';
+
+export type AuditSource = 'dashboard' | 'api' | 'telegram' | 'scheduler' | 'cli' | 'system';
+export type AuditOutcome = 'success' | 'failure' | 'info';
+
+export interface AuditActor {
+  source: AuditSource;
+  actor: string;      // user email, @telegram_handle, 'scheduler'
+  userId?: number;
+}
+
+export interface AuditEventInput {
+  action: string;
+  outcome?: AuditOutcome;
+  actor: AuditActor;
+  platform?: string;
+  portfolioItemId?: string | null;
+  clientId?: number | null;
+  transferId?: number | null;
+  identityId?: number | null;
+  request?: unknown;
+  response?: unknown;
+  error?: string | null;
+}
+
+export interface AuditEvent {
+  id: number;
+  occurred_at: string;
+  action: string;
+  outcome: AuditOutcome;
+  source: AuditSource;
+  actor: string;
+  actor_user_id?: number;
+  platform?: string;
+  portfolio_item_id?: string;
+  client_id?: number;
+  transfer_id?: number;
+  identity_id?: number;
+  request?: any;
+  response?: any;
+  error?: string;
+}
+
+export interface AuditQuery {
+  portfolioItemId?: string;
+  clientId?: number;
+  transferId?: number;
+  identityId?: number;
+  action?: string;      // Exact, or a prefix ending in '.' (e.g. 'transfer.')
+  source?: AuditSource;
+  actorUserId?: number;
+  since?: string;
+  until?: string;
+  before?: number;      // Cursor: events with a lower id
+  limit?: number;
+}
+
+export const SYSTEM_ACTOR: AuditActor = { source: 'system', actor: 'system' };
+export const SCHEDULER_ACTOR: AuditActor = { source: 'scheduler', actor: 'scheduler' };
+
+// Keys whose values never reach the audit table
+const SECRET_KEY = /token|secret|password|cookie|csrf|api_?key|auth|payment_?id|card/i;
+const REDACTED = '[REDACTED]';
+const MAX_STRING = 2000;
+
+/**
+ * Deep copy with secrets replaced and huge strings (screenshots, HTML) cut
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (value === null || value === undefined) return value;
+  if (depth > 6) return '[…]';
+  if (typeof value === 'string') {
+    if (value.startsWith('enc:v1:')) return REDACTED;
+    return value.length > MAX_STRING ? `${value.slice(0, MAX_STRING)}…` : value;
+  }
+  if (Array.isArray(value)) return value.slice(0, 50).map(v => redact(v, depth + 1));
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = SECRET_KEY.test(key) && v ? REDACTED : redact(v, depth + 1);
+    }
+    return result;
+  }
+  return value;
+};
+
+/**
+ * Who is behind an API request. The dashboard tags its requests with
+ * X-Client: dashboard; anything else is a direct API call.
+ */
+export const actorFromRequest = (req: Request): AuditActor => {
+  // req.user is set by requireAuth (middleware/auth.ts)
+  const user = (req as Request & { user?: User }).user;
+  return {
+    source: req.get('X-Client') === 'dashboard' ? 'dashboard' : 'api',
+    actor: user?.email || 'anonymous',
+    userId: user?.id,
+  };
+};
+
+class AuditLog {
+  /**
+   * Append an event. Never throws.
+   */
+  async record(event: AuditEventInput): Promise<void> {
+    if (!pool) return;
+
+    try {
+      await pool.query(`
+        INSERT INTO audit_events (
+          action, outcome, source, actor, actor_user_id,
+          platform, portfolio_item_id, client_id, transfer_id, identity_id,
+          request, response, error
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      `, [
+        event.action,
+        event.outcome || 'info',
+        event.actor.source,
+        event.actor.actor,
+        event.actor.userId ?? null,
+        event.platform ?? null,
+        event.portfolioItemId ?? null,
+        event.clientId ?? null,
+        event.transferId ?? null,
+        event.identityId ?? null,
+        event.request === undefined ? null : JSON.stringify(redact(event.request)),
+        event.response === undefined ? null : JSON.stringify(redact(event.response)),
+        event.error ?? null,
+      ]);
+    } catch (error: any) {
+      console.error(`[AuditLog] ❌ Failed to record ${event.action}:`, error.message);
+    }
+  }
+
+  /**
+   * Newest first. Page with `before` = the last id you received.
+   */
+  async query(filters: AuditQuery = {}): Promise<AuditEvent[]> {
+    if (!pool) throw new Error('Database pool not initialized');
+
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const add = (sql: string, value: any) => {
+      values.push(value);
+      conditions.push(sql.replace('?', `$${values.length}`));
+    };
+
+    if (filters.portfolioItemId) add('portfolio_item_id = ?', filters.portfolioItemId);
+    if (filters.clientId) add('client_id = ?', filters.clientId);
+    if (filters.transferId) add('transfer_id = ?', filters.transferId);
+    if (filters.identityId) add('identity_id = ?', filters.identityId);
+    if (filters.action) {
+      filters.action.endsWith('.')
+        ? add('action LIKE ?', `${filters.action}%`)
+        : add('action = ?', filters.action);
+    }
+    if (filters.source) add('source = ?', filters.source);
+    if (filters.actorUserId) add('actor_user_id = ?', filters.actorUserId);
+    if (filters.since) add('occurred_at >= ?', filters.since);
+    if (filters.until) add('occurred_at < ?', filters.until);
+    if (filters.before) add('id < ?', filters.before);
+
+    const limit = Math.min(500, Math.max(1, filters.limit || 100));
+    const result = await pool.query<AuditEvent>(`
+      SELECT * FROM audit_events
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY id DESC
+      LIMIT ${limit}
+    `, values);
+
+    return result.rows.map(row => ({ ...row, id: Number(row.id) }));
+  }
+
+  /**
+   * Everything that happened to a portfolio item, including its transfers
+   */
+  async getItemTimeline(portfolioItemId: string, limit = 200): Promise<AuditEvent[]> {
+    if (!pool) throw new Error('Database pool not initialized');
+    const result = await pool.query<AuditEvent>(`
+      SELECT * FROM audit_events
+      WHERE portfolio_item_id = $1
+         OR transfer_id IN (SELECT id FROM transfers WHERE portfolio_item_id = $1)
+      ORDER BY id DESC
+      LIMIT $2
+    `, [portfolioItemId, Math.min(500, limit)]);
+    return result.rows.map(row => ({ ...row, id: Number(row.id) }));
+  }
+}
+
+export default new AuditLog();
@@ -0,0 +1,251 @@
+/**
+ * Auth Service
+ *
+ * User accounts and login sessions for the dashboard and API.
+ *
+ * - Passwords are hashed with scrypt (salted, never stored in clear)
+ * - Login hands out a random bearer token; only its SHA-256 is stored,
+ *   so a leaked sessions table can't be replayed
+ * - Sessions expire after SESSION_TTL_HOURS (default 12) and slide
+ *   forward while in use
+ * - Roles and what they allow live in shared/permissions.ts
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import pool from '../db';
+import { Role, isRole } from '../shared/permissions';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Helper to ensure pool is initialized
+const getPool = () => {
+  if (!pool) {
+    throw new Error('Database pool is not initialized');
+  }
+  return pool;
+};
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+
+const sessionTtlMs = () => Number(process.env.SESSION_TTL_HOURS || 12) * 60 * 60 * 1000;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export interface User {
+  id: number;
+  email: string;
+  name?: string;
+  role: Role;
+  is_active: boolean;
+  last_login_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateUserInput {
+  email: string;
+  password: string;
+  name?: string;
+  role?: Role;
+}
+
+export interface UpdateUserInput {
+  name?: string;
+  role?: Role;
+  is_active?: boolean;
+  password?: string;
+}
+
+export interface Session {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+// Never select password_hash into anything that leaves this file
+const USER_COLUMNS = 'id, email, name, role, is_active, last_login_at, created_at, updated_at';
+
+// Emails are stored lowercased (migration 023) and unique regardless of case
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+class AuthService {
+  // =====================================================
+  // PASSWORDS
+  // =====================================================
+
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt}$${hash.toString('hex')}`;
+  }
+
+  async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, salt, expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Throws a user-facing message for bad email, short password or unknown
+   * role. Takes request bodies as they come, so checks types too.
+   */
+  validateUserInput(input: { email?: unknown; password?: unknown; role?: unknown }) {
+    if (input.email !== undefined && (typeof input.email !== 'string' || !/^\S+@\S+$/.test(input.email))) {
+      throw new Error('A valid email is required');
+    }
+    if (input.password !== undefined && typeof input.password !== 'string') {
+      throw new Error('Password must be a string');
+    }
+    if (input.password !== undefined && input.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+    if (input.role !== undefined && !isRole(input.role)) {
+      throw new Error(`Unknown role: ${input.role}`);
+    }
+  }
+
+  // =====================================================
+  // USERS
+  // =====================================================
+
+  async createUser(input: CreateUserInput): Promise<User> {
+    this.validateUserInput(input);
+    const passwordHash = await this.hashPassword(input.password);
+
+    const result = await getPool().query<User>(
+      `INSERT INTO users (email, name, password_hash, role)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${USER_COLUMNS}`,
+      [normalizeEmail(input.email), input.name || null, passwordHash, input.role || 'read_only']
+    );
+    return result.rows[0];
+  }
+
+  async listUsers(): Promise<User[]> {
+    const result = await getPool().query<User>(
+      `SELECT ${USER_COLUMNS} FROM users ORDER BY created_at`
+    );
+    return result.rows;
+  }
+
+  async getUser(id: number): Promise<User | null> {
+    const result = await getPool().query<User>(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = $1`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  async updateUser(id: number, input: UpdateUserInput): Promise<User | null> {
+    this.validateUserInput(input);
+    const passwordHash = input.password ? await this.hashPassword(input.password) : null;
+
+    const result = await getPool().query<User>(
+      `UPDATE users SET
+         name = COALESCE($2, name),
+         role = COALESCE($3, role),
+         is_active = COALESCE($4, is_active),
+         password_hash = COALESCE($5, password_hash),
+         updated_at = NOW()
+       WHERE id = $1
+       RETURNING ${USER_COLUMNS}`,
+      [id, input.name ?? null, input.role ?? null, input.is_active ?? null, passwordHash]
+    );
+
+    // Deactivating or changing a password signs the user out everywhere
+    if (result.rows[0] && (input.is_active === false || passwordHash)) {
+      await getPool().query('DELETE FROM user_sessions WHERE user_id = $1', [id]);
+    }
+    return result.rows[0] || null;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const result = await getPool().query('DELETE FROM users WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Create the first operator from ADMIN_EMAIL / ADMIN_PASSWORD when
+   * there are no accounts yet. Without them nobody could log in.
+   */
+  async bootstrapAdmin(): Promise<User | null> {
+    const { rows } = await getPool().query<{ count: string }>('SELECT COUNT(*) FROM users');
+    if (Number(rows[0].count) > 0) return null;
+
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!email || !password) {
+      console.warn('[Auth] ⚠️ No users exist - set ADMIN_EMAIL and ADMIN_PASSWORD to create the first operator');
+      return null;
+    }
+
+    const user = await this.createUser({ email, password, name: 'Admin', role: 'operator' });
+    console.log(`[Auth] ✅ Created operator account ${user.email}`);
+    return user;
+  }
+
+  // =====================================================
+  // SESSIONS
+  // =====================================================
+
+  /**
+   * Exchange email + password for a session token.
+   * Returns null for unknown email, wrong password or a disabled account
+   * alike, so callers can't tell which one it was.
+   */
+  async login(email: string, password: string): Promise<Session | null> {
+    const result = await getPool().query<User & { password_hash: string }>(
+      `SELECT * FROM users WHERE LOWER(email) = $1`,
+      [normalizeEmail(email)]
+    );
+    const row = result.rows[0];
+    if (!row || !row.is_active || !(await this.verifyPassword(password, row.password_hash))) {
+      return null;
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + sessionTtlMs());
+
+    await getPool().query(
+      `INSERT INTO user_sessions (user_id, token_hash, expires_at) VALUES ($1, $2, $3)`,
+      [row.id, hashToken(token), expiresAt]
+    );
+    await getPool().query('UPDATE users SET last_login_at = NOW() WHERE id = $1', [row.id]);
+
+    const { password_hash, ...user } = row;
+    return { token, expiresAt: expiresAt.toISOString(), user };
+  }
+
+  /**
+   * Resolve a bearer token to its user, extending the session.
+   */
+  async authenticate(token: string): Promise<User | null> {
+    const result = await getPool().query<User>(
+      `UPDATE user_sessions s SET
+         last_seen_at = NOW(),
+         expires_at = GREATEST(s.expires_at, NOW() + $2 * INTERVAL '1 millisecond')
+       FROM users u
+       WHERE s.token_hash = $1 AND s.user_id = u.id
+         AND s.expires_at > NOW() AND u.is_active = true
+       RETURNING ${USER_COLUMNS.split(', ').map(c => `u.${c}`).join(', ')}`,
+      [hashToken(token), sessionTtlMs()]
+    );
+    return result.rows[0] || null;
+  }
+
+  async logout(token: string): Promise<void> {
+    await getPool().query('DELETE FROM user_sessions WHERE token_hash = $1', [hashToken(token)]);
+  }
+
+  async purgeExpiredSessions(): Promise<number> {
+    const result = await getPool().query('DELETE FROM user_sessions WHERE expires_at <= NOW()');
+    return result.rowCount ?? 0;
+  }
+}
+
+export default new AuthService();
@@ -0,0 +1,330 @@
+/**
+ * Cancellation Manager
+ *
+ * Releases reservations we hold instead of letting them become no-shows:
+ * - POST /api/transfers/:id/cancel - a client cancelled, or a table won't
+ *   be used. Inside the penalty window the slot's fee applies, so the
+ *   caller has to accept it.
+ * - A watch loop that reminds (Telegram) once per reservation when its
+ *   free-cancellation window is about to close, and auto-releases
+ *   unassigned ones (acquired or listed, no buyer, no client) before it does.
+ *   A release that fails is recorded on the transfer and alerted once, then
+ *   left to an operator rather than retried every pass.
+ *
+ * Deadlines and fees are set when the transfer is created
+ * (transferTracker.createTransfer): the platform adapter's penalty window
+ * and the fee on the booked slot (Resy cancellation_fee, Tock ticket price).
+ *
+ * Env:
+ *   CANCELLATION_WATCH_ON_BOOT=false      don't start the watch loop with the server
+ *   CANCELLATION_POLL_SECONDS=300         how often to check deadlines
+ *   CANCELLATION_REMINDER_HOURS=24        remind this long before a deadline
+ *   CANCELLATION_AUTO_RELEASE_HOURS=2     release unassigned reservations this long before it
+ *   CANCELLATION_AUTO_RELEASE=false       remind only, never release automatically
+ */
+
+import pool from '../db';
+import transferTracker, { Transfer } from './transferTracker';
+import auditLog, { AuditActor } from './auditLog';
+import * as telegram from '../sniper/telegram';
+import { getAdapter, detectPlatform } from '../platforms';
+import { normalizeDate } from '../shared/dropTime';
+
+const CANCELLATION_ACTOR: AuditActor = { source: 'system', actor: 'cancellation' };
+
+// Reservations that are ours to release: not already released, not handed to a buyer
+const RELEASED_STATUSES: Transfer['status'][] = ['CANCELLED', 'TRANSFERRED'];
+
+// Nobody is waiting on these: no buyer yet, not booked for a client
+const UNASSIGNED_STATUSES: Transfer['status'][] = ['ACQUIRED', 'LISTED'];
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CancellationFailure =
+  | 'not_found'
+  | 'not_cancellable'
+  | 'fee_not_accepted'
+  | 'no_confirmation'
+  | 'platform_error';
+
+export interface CancellationResult {
+  success: boolean;
+  transfer?: Transfer;
+  feeCharged?: number;
+  error?: string;
+  code?: CancellationFailure;
+  fee?: number;                   // fee_not_accepted: what accepting would cost
+  deadline?: string | null;
+}
+
+export interface CancelOptions {
+  reason: string;                 // 'client_cancelled', 'unused', 'auto_release'...
+  acceptFee?: boolean;            // Go ahead inside the penalty window
+  actor: AuditActor;
+}
+
+export interface CancellationRunResult {
+  reminded: number;
+  released: number;
+  failed: number;
+}
+
+export interface CancellationStatus {
+  isRunning: boolean;
+  pollSeconds: number;
+  reminderHours: number;
+  autoReleaseHours: number;
+  autoRelease: boolean;
+  lastRunAt: string | null;
+  lastRun: CancellationRunResult | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const isUnassigned = (transfer: Transfer): boolean =>
+  UNASSIGNED_STATUSES.includes(transfer.status)
+  && transfer.booking_type !== 'concierge'
+  && !transfer.client_id;
+
+const describeReservation = (transfer: Transfer): string =>
+  `${normalizeDate(transfer.reservation_date)} ${transfer.reservation_time}, party of ${transfer.party_size}`;
+
+/**
+ * Fee owed for cancelling now: the slot's fee once the deadline has passed
+ */
+export const feeIfCancelledAt = (transfer: Transfer, at: Date = new Date()): number => {
+  const fee = Number(transfer.cancellation_fee) || 0;
+  const deadline = transfer.cancellation_deadline ? new Date(transfer.cancellation_deadline) : null;
+  if (!fee || !deadline) return 0;
+  return at.getTime() > deadline.getTime() ? fee : 0;
+};
+
+class CancellationManager {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private running = false;       // A pass is in progress
+  private lastRunAt: Date | null = null;
+  private lastRun: CancellationRunResult | null = null;
+
+  private get pollSeconds(): number {
+    return envInt('CANCELLATION_POLL_SECONDS', 300);
+  }
+
+  private get reminderHours(): number {
+    return envInt('CANCELLATION_REMINDER_HOURS', 24);
+  }
+
+  private get autoReleaseHours(): number {
+    return envInt('CANCELLATION_AUTO_RELEASE_HOURS', 2);
+  }
+
+  private get autoRelease(): boolean {
+    return process.env.CANCELLATION_AUTO_RELEASE !== 'false';
+  }
+
+  // =====================================================
+  // LIFECYCLE
+  // =====================================================
+
+  start(): void {
+    if (this.pollInterval) {
+      console.log('[Cancellation] Already running');
+      return;
+    }
+    if (!pool) {
+      console.warn('[Cancellation] Database not connected - not starting');
+      return;
+    }
+
+    console.log(`[Cancellation] 🟢 Watching cancellation deadlines every ${this.pollSeconds}s`);
+    this.pollInterval = setInterval(() => { void this.runOnce(); }, this.pollSeconds * 1000);
+    void this.runOnce();
+  }
+
+  stop(): void {
+    if (!this.pollInterval) {
+      console.log('[Cancellation] Not running');
+      return;
+    }
+    clearInterval(this.pollInterval);
+    this.pollInterval = null;
+    console.log('[Cancellation] 🔴 Stopped');
+  }
+
+  getStatus(): CancellationStatus {
+    return {
+      isRunning: this.pollInterval !== null,
+      pollSeconds: this.pollSeconds,
+      reminderHours: this.reminderHours,
+      autoReleaseHours: this.autoReleaseHours,
+      autoRelease: this.autoRelease,
+      lastRunAt: this.lastRunAt?.toISOString() ?? null,
+      lastRun: this.lastRun,
+    };
+  }
+
+  // =====================================================
+  // CANCEL
+  // =====================================================
+
+  /**
+   * Release a reservation on its platform and mark the transfer CANCELLED
+   */
+  async cancelTransfer(id: number, options: CancelOptions): Promise<CancellationResult> {
+    const transfer = await transferTracker.getTransfer(id);
+    if (!transfer) {
+      return { success: false, code: 'not_found', error: 'Transfer not found' };
+    }
+
+    const fail = async (code: CancellationFailure, error: string, extra: Partial<CancellationResult> = {}) => {
+      await this.audit('transfer.cancel_failed', transfer, options, 'failure', error);
+      return { success: false, code, error, transfer, ...extra };
+    };
+
+    if (RELEASED_STATUSES.includes(transfer.status)) {
+      return fail('not_cancellable', transfer.status === 'CANCELLED'
+        ? 'Reservation is already cancelled'
+        : 'Reservation has been transferred to the buyer - they have to cancel it');
+    }
+
+    const adapter = getAdapter(detectPlatform(transfer.platform));
+    if (!adapter) {
+      return fail('not_cancellable', `Cannot cancel on unknown platform: ${transfer.platform}`);
+    }
+    if (!transfer.confirmation_number) {
+      return fail('no_confirmation', 'Transfer has no confirmation number to cancel with');
+    }
+
+    const fee = feeIfCancelledAt(transfer);
+    const deadline = transfer.cancellation_deadline ? new Date(transfer.cancellation_deadline).toISOString() : null;
+    if (fee > 0 && !options.acceptFee) {
+      return fail('fee_not_accepted', `Past the free-cancellation deadline - cancelling now costs $${fee}`, { fee, deadline });
+    }
+
+    console.log(`[Cancellation] 🔓 Releasing ${transfer.restaurant_name} (${describeReservation(transfer)}) on ${adapter.label}: ${options.reason}`);
+    const result = await adapter.cancel(transfer.confirmation_number);
+    if (!result.success) {
+      return fail('platform_error', `${adapter.label} refused the cancellation: ${result.error || 'unknown error'}`);
+    }
+
+    const cancelled = await transferTracker.markAsCancelled(id, { reason: options.reason, fee_charged: fee }, options.actor);
+    if (!cancelled) {
+      // Cancelled concurrently - the platform call above was a no-op or a repeat
+      return { success: false, code: 'not_cancellable', error: 'Reservation is already cancelled', transfer };
+    }
+
+    await this.audit('transfer.cancelled', cancelled, options, 'success');
+    await telegram.notifyReservationReleased(
+      cancelled.restaurant_name,
+      describeReservation(cancelled),
+      options.reason,
+      fee
+    );
+
+    return { success: true, transfer: cancelled, feeCharged: fee };
+  }
+
+  // =====================================================
+  // WATCH PASS
+  // =====================================================
+
+  /**
+   * One pass: remind about deadlines inside the reminder window, then
+   * release unassigned reservations inside the auto-release window.
+   * Overlapping calls are skipped.
+   */
+  async runOnce(): Promise<CancellationRunResult> {
+    const result: CancellationRunResult = { reminded: 0, released: 0, failed: 0 };
+    if (this.running || !pool) return result;
+    this.running = true;
+
+    try {
+      const upcoming = await transferTracker.getUpcomingCancellationDeadlines(this.reminderHours);
+      const releaseBefore = Date.now() + this.autoReleaseHours * 60 * 60 * 1000;
+
+      for (const transfer of upcoming) {
+        const deadline = new Date(transfer.cancellation_deadline!);
+        const release = this.autoRelease && isUnassigned(transfer);
+
+        // Already failed once - an operator has been told
+        if (release && transfer.auto_release_failed_at) continue;
+
+        if (release && deadline.getTime() <= releaseBefore) {
+          const cancelled = await this.cancelTransfer(transfer.id, {
+            reason: 'auto_release',
+            actor: CANCELLATION_ACTOR,
+          });
+          if (cancelled.success) {
+            result.released++;
+          } else {
+            result.failed++;
+            console.error(`[Cancellation] ❌ Auto-release of transfer ${transfer.id} failed: ${cancelled.error}`);
+            if (await transferTracker.markAutoReleaseFailed(transfer.id, cancelled.error || 'unknown error')) {
+              await telegram.notifyAutoReleaseFailed(
+                transfer.restaurant_name,
+                describeReservation(transfer),
+                deadline.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }),
+                cancelled.error || 'unknown error'
+              );
+            }
+          }
+          continue;
+        }
+
+        // Concierge bookings are the client's to cancel
+        if (!transfer.cancellation_reminded_at && transfer.booking_type !== 'concierge') {
+          await telegram.notifyCancellationDeadline(
+            transfer.restaurant_name,
+            describeReservation(transfer),
+            deadline.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }),
+            transfer.cancellation_fee != null ? Number(transfer.cancellation_fee) : null,
+            release
+          );
+          await transferTracker.markCancellationReminded(transfer.id);
+          result.reminded++;
+        }
+      }
+    } catch (error: any) {
+      console.error('[Cancellation] ❌ Pass failed:', error.message);
+    } finally {
+      this.running = false;
+      this.lastRunAt = new Date();
+      this.lastRun = result;
+    }
+
+    return result;
+  }
+
+  private audit(
+    action: string,
+    transfer: Transfer,
+    options: CancelOptions,
+    outcome: 'success' | 'failure',
+    error?: string
+  ) {
+    return auditLog.record({
+      action,
+      outcome,
+      actor: options.actor,
+      platform: transfer.platform,
+      portfolioItemId: transfer.portfolio_item_id,
+      clientId: transfer.client_id ?? null,
+      transferId: transfer.id,
+      request: { reason: options.reason, acceptFee: !!options.acceptFee },
+      response: outcome === 'success'
+        ? { status: transfer.status, feeCharged: transfer.cancellation_fee_charged }
+        : undefined,
+      error: error ?? null,
+    });
+  }
+}
+
+export default new CancellationManager();
@@ -84,6 +84,12 @@ export interface ClientBookingRequest {
   expires_at?: string;
 }
 
+// A request claimed by the fulfillment worker, with the client's priority
+export interface ClaimedBookingRequest extends ClientBookingRequest {
+  vip_level: Client['vip_level'];
+  total_revenue: number;
+}
+
 export interface ClientStats {
   totalClients: number;
   vipClients: number;
@@ -424,22 +430,148 @@ class ClientManager {
     status: ClientBookingRequest['status'],
     transferId?: number,
     failureReason?: string
-  ): Promise<void> {
+  ): Promise<ClientBookingRequest | null> {
     const dbClient = await getPool().connect();
     try {
-      await dbClient.query(
+      const result = await dbClient.query<ClientBookingRequest>(
         `UPDATE client_booking_requests 
          SET 
-           status = $2,
+           status = $2::varchar,
            transfer_id = $3,
            failure_reason = $4,
-           acquired_at = CASE WHEN $2 = 'acquired' THEN NOW() ELSE acquired_at END,
+           acquired_at = CASE WHEN $2::varchar = 'acquired' THEN NOW() ELSE acquired_at END,
            attempts = attempts + 1,
            last_attempt_at = NOW(),
            updated_at = NOW()
-         WHERE id = $1`,
+         WHERE id = $1
+         RETURNING *`,
         [requestId, status, transferId || null, failureReason || null]
       );
+      return result.rows[0] || null;
+    } finally {
+      dbClient.release();
+    }
+  }
+
+  // =====================================================
+  // FULFILLMENT QUEUE (see fulfillmentWorker.ts)
+  // =====================================================
+
+  /**
+   * Claim pending requests that are due for another attempt and mark them
+   * 'searching'. Locked rows are skipped, so two workers never share one.
+   * Returned in priority order: platinum, then VIP (as getPriorityClients),
+   * then soonest desired date.
+   */
+  async claimBookingRequests(limit: number, retryMinutes: number): Promise<ClaimedBookingRequest[]> {
+    const dbClient = await getPool().connect();
+    try {
+      const result = await dbClient.query<ClaimedBookingRequest>(
+        `WITH due AS (
+           SELECT r.id, c.vip_level, c.total_revenue
+           FROM client_booking_requests r
+           JOIN clients c ON c.id = r.client_id
+           WHERE r.status = 'pending'
+             AND r.desired_date >= CURRENT_DATE
+             AND (r.expires_at IS NULL OR r.expires_at > NOW())
+             AND (r.last_attempt_at IS NULL OR r.last_attempt_at < NOW() - make_interval(mins => $2))
+           ORDER BY
+             CASE c.vip_level WHEN 'platinum' THEN 1 WHEN 'vip' THEN 2 ELSE 3 END,
+             c.total_revenue DESC,
+             r.desired_date ASC,
+             r.created_at ASC
+           LIMIT $1
+           FOR UPDATE OF r SKIP LOCKED
+         )
+         UPDATE client_booking_requests r
+         SET status = 'searching',
+             attempts = attempts + 1,
+             last_attempt_at = NOW(),
+             updated_at = NOW()
+         FROM due
+         WHERE r.id = due.id
+         RETURNING r.*, due.vip_level, due.total_revenue`,
+        [limit, retryMinutes]
+      );
+
+      const rank = (level: string) => (level === 'platinum' ? 1 : level === 'vip' ? 2 : 3);
+      return result.rows.sort((a, b) =>
+        rank(a.vip_level) - rank(b.vip_level)
+        || Number(b.total_revenue) - Number(a.total_revenue)
+        || new Date(a.desired_date).getTime() - new Date(b.desired_date).getTime()
+        || a.id - b.id
+      );
+    } finally {
+      dbClient.release();
+    }
+  }
+
+  /**
+   * Finish a fulfillment attempt. 'pending' puts the request back in the
+   * queue with the reason it didn't book this time.
+   */
+  async settleBookingRequest(
+    requestId: number,
+    status: 'pending' | 'acquired' | 'failed',
+    details: { transferId?: number; failureReason?: string } = {}
+  ): Promise<ClientBookingRequest | null> {
+    const dbClient = await getPool().connect();
+    try {
+      const result = await dbClient.query<ClientBookingRequest>(
+        `UPDATE client_booking_requests
+         SET status = $2::varchar,
+             transfer_id = COALESCE($3, transfer_id),
+             failure_reason = $4,
+             acquired_at = CASE WHEN $2::varchar = 'acquired' THEN NOW() ELSE acquired_at END,
+             updated_at = NOW()
+         WHERE id = $1 AND status = 'searching'
+         RETURNING *`,
+        [requestId, status, details.transferId ?? null, details.failureReason ?? null]
+      );
+      return result.rows[0] || null;
+    } finally {
+      dbClient.release();
+    }
+  }
+
+  /**
+   * Fail open requests whose expires_at or desired date has passed
+   */
+  async expireBookingRequests(): Promise<ClientBookingRequest[]> {
+    const dbClient = await getPool().connect();
+    try {
+      const result = await dbClient.query<ClientBookingRequest>(
+        `UPDATE client_booking_requests
+         SET status = 'failed',
+             failure_reason = CASE
+               WHEN expires_at IS NOT NULL AND expires_at <= NOW() THEN 'Expired before a table was found'
+               ELSE 'Desired date passed before a table was found'
+             END,
+             updated_at = NOW()
+         WHERE status = 'pending'
+           AND ((expires_at IS NOT NULL AND expires_at <= NOW()) OR desired_date < CURRENT_DATE)
+         RETURNING *`
+      );
+      return result.rows;
+    } finally {
+      dbClient.release();
+    }
+  }
+
+  /**
+   * Return 'searching' requests abandoned by a crashed worker to the queue
+   */
+  async recoverStaleBookingRequests(staleMinutes: number): Promise<number> {
+    const dbClient = await getPool().connect();
+    try {
+      const result = await dbClient.query(
+        `UPDATE client_booking_requests
+         SET status = 'pending', updated_at = NOW()
+         WHERE status = 'searching'
+           AND last_attempt_at < NOW() - make_interval(mins => $1)`,
+        [staleMinutes]
+      );
+      return result.rowCount || 0;
     } finally {
       dbClient.release();
     }
@@ -0,0 +1,194 @@
+/**
+ * Clock Sync
+ *
+ * Estimates how far each platform's clock is from ours, so a 10:00:00.000
+ * drop fires at 10:00:00.000 platform time rather than ours. The 2s
+ * execution window is meaningless if our clock is 3s off.
+ *
+ * Every HTTP Date header is a sample. Date only has whole seconds, so a
+ * response stamped D, sent at t0 and received at t1, bounds the offset
+ * (platform - local) to [D - t1, D + 1000 - t0]. Intersecting the bounds
+ * of recent samples narrows the estimate well below a second; samples
+ * that no longer agree (our clock stepped) push the oldest ones out.
+ *
+ * Samples come from:
+ * - every governed platform request (platformGovernor.ts, passive)
+ * - measure(): a few HEAD requests to the platform (readiness checks)
+ * - refresh(): measure() in the background - the scheduler starts one
+ *   before an upcoming drop and reads the cached offset at drop time
+ *
+ * Used by acquisitionEngine.executeAtDropTime (waits for the corrected
+ * drop instant), the readiness checklist and GET /api/sniper/status.
+ */
+
+import axios from 'axios';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ClockSample {
+  sentAt: number;       // Local ms when the request left
+  receivedAt: number;   // Local ms when the response arrived
+  lowMs: number;        // Offset bounds this sample allows
+  highMs: number;
+}
+
+export interface ClockEstimate {
+  platform: string;
+  offsetMs: number;         // Platform clock minus ours (positive = platform ahead)
+  uncertaintyMs: number;    // Half-width of the window the offset lies in
+  samples: number;          // Samples behind the estimate
+  rttMs: number;            // Median round trip of those samples
+  lastSampleAt: string;
+  stale: boolean;           // No sample for CLOCK_STALE_MS
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const MAX_SAMPLES = 20;
+const SAMPLE_TTL_MS = 30 * 60 * 1000;      // Forget samples after 30 minutes
+const MAX_RTT_MS = 2000;                   // Slower round trips say too little
+const CLOCK_STALE_MS = 5 * 60 * 1000;
+const PROBE_TIMEOUT_MS = 3000;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================
+// CLOCK SYNC
+// ============================================
+
+class ClockSync {
+  private samples = new Map<string, ClockSample[]>();
+  private measuring = new Map<string, Promise<ClockEstimate | null>>();  // Probes in flight
+
+  /**
+   * Record one response. `dateHeader` is the raw HTTP Date header.
+   */
+  observe(platform: string, sentAt: number, receivedAt: number, dateHeader: unknown): void {
+    const serverDate = typeof dateHeader === 'string' ? Date.parse(dateHeader) : NaN;
+    if (!Number.isFinite(serverDate) || receivedAt < sentAt || receivedAt - sentAt > MAX_RTT_MS) return;
+
+    const samples = (this.samples.get(platform) || [])
+      .filter(s => receivedAt - s.receivedAt < SAMPLE_TTL_MS);
+    samples.push({
+      sentAt,
+      receivedAt,
+      lowMs: serverDate - receivedAt,
+      highMs: serverDate + 1000 - sentAt,
+    });
+    this.samples.set(platform, samples.slice(-MAX_SAMPLES));
+  }
+
+  /**
+   * Probe the platform with a few HEAD requests, spread out so their
+   * second boundaries land differently. Returns the updated estimate.
+   * Callers arriving while a probe is in flight share it.
+   */
+  measure(platform: string, baseUrl: string, count = 3): Promise<ClockEstimate | null> {
+    const inFlight = this.measuring.get(platform);
+    if (inFlight) return inFlight;
+
+    const probe = this.probe(platform, baseUrl, count)
+      .finally(() => this.measuring.delete(platform));
+    this.measuring.set(platform, probe);
+    return probe;
+  }
+
+  /**
+   * Start a measurement if the platform needs one, without waiting for it
+   */
+  refresh(platform: string, baseUrl: string): void {
+    if (!this.needsMeasurement(platform) || this.measuring.has(platform)) return;
+    void this.measure(platform, baseUrl);
+  }
+
+  private async probe(platform: string, baseUrl: string, count: number): Promise<ClockEstimate | null> {
+    for (let i = 0; i < count; i++) {
+      if (i > 0) await sleep(330);
+      try {
+        const sentAt = Date.now();
+        const response = await axios.head(baseUrl, { timeout: PROBE_TIMEOUT_MS, validateStatus: () => true });
+        this.observe(platform, sentAt, Date.now(), response.headers['date']);
+      } catch (error: any) {
+        console.warn(`[ClockSync] ${platform} probe failed: ${error.message}`);
+      }
+    }
+    return this.getEstimate(platform);
+  }
+
+  /**
+   * Current estimate from the newest samples that agree with each other
+   */
+  getEstimate(platform: string): ClockEstimate | null {
+    const samples = this.samples.get(platform);
+    if (!samples?.length) return null;
+
+    let low = -Infinity;
+    let high = Infinity;
+    const used: ClockSample[] = [];
+    for (let i = samples.length - 1; i >= 0; i--) {
+      const s = samples[i];
+      const nextLow = Math.max(low, s.lowMs);
+      const nextHigh = Math.min(high, s.highMs);
+      if (nextLow > nextHigh) break;
+      low = nextLow;
+      high = nextHigh;
+      used.push(s);
+    }
+
+    const newest = samples[samples.length - 1];
+    return {
+      platform,
+      offsetMs: Math.round((low + high) / 2),
+      uncertaintyMs: Math.round((high - low) / 2),
+      samples: used.length,
+      rttMs: median(used.map(s => s.receivedAt - s.sentAt)),
+      lastSampleAt: new Date(newest.receivedAt).toISOString(),
+      stale: Date.now() - newest.receivedAt > CLOCK_STALE_MS,
+    };
+  }
+
+  getStatus(): ClockEstimate[] {
+    return [...this.samples.keys()]
+      .map(platform => this.getEstimate(platform))
+      .filter((e): e is ClockEstimate => e !== null);
+  }
+
+  /**
+   * Platform offset in ms, 0 when we have nothing to go on
+   */
+  getOffset(platform: string): number {
+    return this.getEstimate(platform)?.offsetMs ?? 0;
+  }
+
+  /**
+   * Local time at which the platform's clock reads `platformInstant`
+   */
+  toLocalTime(platform: string, platformInstant: Date): Date {
+    return new Date(platformInstant.getTime() - this.getOffset(platform));
+  }
+
+  /**
+   * Does this platform need a fresh probe?
+   */
+  needsMeasurement(platform: string): boolean {
+    const estimate = this.getEstimate(platform);
+    return !estimate || estimate.stale;
+  }
+
+  reset(platform?: string): void {
+    if (platform) this.samples.delete(platform);
+    else this.samples.clear();
+  }
+}
+
+export default new ClockSync();
@@ -33,43 +33,6 @@ interface CompetitorStats {
 
 class CompetitionMonitor {
   
-  /**
-   * Initialize the competitor_listings table
-   */
-  async initTable(): Promise<void> {
-    if (!pool) return;
-    
-    const client = await pool.connect();
-    try {
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS competitor_listings (
-          id SERIAL PRIMARY KEY,
-          seller_name VARCHAR(255) NOT NULL,
-          restaurant_name VARCHAR(255) NOT NULL,
-          listing_price NUMERIC(10, 2),
-          reservation_date DATE,
-          reservation_time VARCHAR(10),
-          party_size INTEGER,
-          platform VARCHAR(50),
-          listing_url TEXT,
-          status VARCHAR(20) DEFAULT 'active',
-          first_seen TIMESTAMP DEFAULT NOW(),
-          last_seen TIMESTAMP DEFAULT NOW(),
-          days_listed INTEGER,
-          created_at TIMESTAMP DEFAULT NOW(),
-          updated_at TIMESTAMP DEFAULT NOW()
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_competitor_seller ON competitor_listings(seller_name);
-        CREATE INDEX IF NOT EXISTS idx_competitor_restaurant ON competitor_listings(restaurant_name);
-        CREATE INDEX IF NOT EXISTS idx_competitor_status ON competitor_listings(status);
-      `);
-      console.log('[CompetitionMonitor] Tables initialized');
-    } finally {
-      client.release();
-    }
-  }
-  
   /**
    * Add or update a competitor listing
    */
@@ -0,0 +1,370 @@
+/**
+ * Credential Health Monitor
+ *
+ * Tracks whether each identity's platform credentials work, per platform,
+ * so a dead Resy token is caught days before a drop instead of when
+ * acquireResy fails at drop time.
+ *
+ * Fed by:
+ * - credentialValidator.validateIdentity (nightly validate-identities job,
+ *   /api/analytics/validate, POST /api/identities/health/check)
+ * - bookings: auth failures mark a credential invalid, successes mark it valid
+ * - identity edits: a new token starts over as 'unknown'
+ *
+ * A credential turning invalid is pushed to dashboards ('credential.failed').
+ *
+ * Token expiry is decoded where the format allows (JWT "exp" - Resy and
+ * Tock auth tokens); OpenTable CSRF tokens carry no expiry.
+ *
+ * Used by:
+ * - identityManager.getBestIdentityForPlatform - skips dead credentials
+ * - the sniper scheduler - alerts when a drop's credentials won't last
+ *   until the drop, and refuses to fire it
+ *
+ * Table: credential_health (migration 013)
+ */
+
+import pool from '../db';
+import * as telegram from '../sniper/telegram';
+import identityManager, { BookingIdentity } from './identityManager';
+import eventStream from './eventStream';
+import { PLATFORM_IDS, PlatformId } from '../platforms';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CredentialPlatform = PlatformId;
+export type CredentialStatus = 'valid' | 'invalid' | 'unknown' | 'unconfigured';
+export type CheckSource = 'validation' | 'booking' | 'update';
+
+export interface CredentialHealth {
+  identity_id: number;
+  identity_name: string;
+  platform: CredentialPlatform;
+  status: CredentialStatus;
+  message: string | null;
+  check_source: CheckSource | null;
+  last_checked_at: Date | null;
+  last_valid_at: Date | null;
+  first_invalid_at: Date | null;
+  expires_at: Date | null;
+  alert_reason: 'expiring' | 'invalid' | null;
+  alerted_at: Date | null;
+}
+
+export interface DropReadiness {
+  platform: string;
+  at: string;                     // ISO instant the credentials must still work
+  ready: boolean;
+  reason?: string;                // Why not, when not ready
+  usable: { identityId: number; name: string; expiresAt: string | null }[];
+  blocked: { identityId: number; name: string; reason: string }[];
+}
+
+export interface AlertReport {
+  invalid: number;
+  expiring: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const CREDENTIAL_PLATFORMS: CredentialPlatform[] = PLATFORM_IDS;
+
+// Identity columns that mean "this platform is configured"
+const CREDENTIAL_COLUMNS: Record<CredentialPlatform, keyof BookingIdentity> = {
+  resy: 'resy_auth_token',
+  opentable: 'opentable_csrf_token',
+  sevenrooms: 'sevenrooms_email',
+  tock: 'tock_auth_token',
+};
+
+// A token must outlive the drop by this much to count
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// Warn about tokens expiring within this many hours
+const expiryWarningHours = () => parseInt(process.env.CREDENTIAL_EXPIRY_WARNING_HOURS || '72', 10) || 72;
+
+// Booking errors that mean the credential itself is bad
+const AUTH_FAILURE = /\b401\b|unauthori[sz]ed|expired|invalid (auth|token|session|credentials)|not logged in/i;
+
+// ============================================
+// TOKEN EXPIRY
+// ============================================
+
+/**
+ * Expiry encoded in a token, where the format allows. JWTs carry "exp"
+ * (seconds since epoch) in their payload; anything else returns null.
+ */
+export const decodeTokenExpiry = (token?: string | null): Date | null => {
+  const parts = token?.trim().split('.');
+  if (!parts || parts.length !== 3) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    const exp = Number(payload?.exp);
+    return Number.isFinite(exp) && exp > 0 ? new Date(exp * 1000) : null;
+  } catch {
+    return null;
+  }
+};
+
+const tokenFor = (identity: BookingIdentity, platform: CredentialPlatform): string | null => {
+  const credentials = identityManager.getPlatformCredentials(identity, platform);
+  return credentials.authToken || credentials.csrfToken || null;
+};
+
+export const isConfigured = (identity: BookingIdentity, platform: CredentialPlatform): boolean =>
+  !!identity[CREDENTIAL_COLUMNS[platform]];
+
+const isPlatform = (platform: string): platform is CredentialPlatform =>
+  (CREDENTIAL_PLATFORMS as string[]).includes(platform);
+
+const formatIn = (ms: number): string => {
+  const hours = Math.round(ms / 3600000);
+  return hours >= 48 ? `${Math.round(hours / 24)} days` : `${Math.max(hours, 0)} hours`;
+};
+
+// ============================================
+// MONITOR
+// ============================================
+
+class CredentialHealthMonitor {
+  // =====================================================
+  // RECORDING
+  // =====================================================
+
+  /**
+   * Record one check. valid=null means the platform isn't configured.
+   */
+  async record(
+    identityId: number,
+    platform: CredentialPlatform,
+    outcome: { valid: boolean | null; message?: string; expiresAt?: Date | null; source: CheckSource }
+  ): Promise<void> {
+    if (!pool) return;
+
+    const status: CredentialStatus = outcome.valid === null ? 'unconfigured' : outcome.valid ? 'valid' : 'invalid';
+    const result = await pool.query(`
+      INSERT INTO credential_health (
+        identity_id, platform, status, message, check_source,
+        last_checked_at, last_valid_at, first_invalid_at, expires_at
+      ) VALUES (
+        $1, $2, $3::varchar, $4, $5, NOW(),
+        CASE WHEN $3::varchar = 'valid' THEN NOW() END,
+        CASE WHEN $3::varchar = 'invalid' THEN NOW() END,
+        $6
+      )
+      ON CONFLICT (identity_id, platform) DO UPDATE SET
+        status = EXCLUDED.status,
+        message = EXCLUDED.message,
+        check_source = EXCLUDED.check_source,
+        last_checked_at = NOW(),
+        last_valid_at = CASE WHEN EXCLUDED.status = 'valid' THEN NOW() ELSE credential_health.last_valid_at END,
+        first_invalid_at = CASE
+          WHEN EXCLUDED.status = 'invalid' THEN COALESCE(credential_health.first_invalid_at, NOW())
+          ELSE NULL
+        END,
+        expires_at = CASE WHEN $7::boolean THEN EXCLUDED.expires_at ELSE credential_health.expires_at END,
+        -- A fixed credential may alert again the next time it breaks
+        alert_reason = CASE
+          WHEN EXCLUDED.status = 'valid' AND credential_health.alert_reason = 'invalid' THEN NULL
+          ELSE credential_health.alert_reason
+        END,
+        alerted_at = CASE
+          WHEN EXCLUDED.status = 'valid' AND credential_health.alert_reason = 'invalid' THEN NULL
+          ELSE credential_health.alerted_at
+        END,
+        updated_at = NOW()
+      RETURNING status = 'invalid' AND first_invalid_at = last_checked_at AS newly_invalid
+    `, [
+      identityId,
+      platform,
+      status,
+      outcome.message || null,
+      outcome.source,
+      outcome.expiresAt ?? null,
+      outcome.expiresAt !== undefined,
+    ]);
+
+    // Dashboards hear about a credential breaking once, not on every recheck
+    if (result.rows[0]?.newly_invalid) {
+      eventStream.publish('credential.failed', {
+        identityId,
+        platform,
+        message: outcome.message || null,
+        source: outcome.source,
+      });
+    }
+  }
+
+  /**
+   * Store the results of credentialValidator.validateIdentity
+   */
+  async recordValidation(
+    identity: BookingIdentity,
+    results: { platform: string; valid: boolean; message: string }[]
+  ): Promise<void> {
+    for (const result of results) {
+      if (!isPlatform(result.platform)) continue;
+      const configured = isConfigured(identity, result.platform);
+      await this.record(identity.id, result.platform, {
+        valid: configured ? result.valid : null,
+        message: result.message,
+        expiresAt: configured ? decodeTokenExpiry(tokenFor(identity, result.platform)) : null,
+        source: 'validation',
+      });
+    }
+  }
+
+  /**
+   * Credentials were edited: configured platforms start over as 'unknown'
+   * with the new token's expiry, and may alert again.
+   */
+  async recordCredentialsChanged(identity: BookingIdentity, platforms: CredentialPlatform[] = CREDENTIAL_PLATFORMS): Promise<void> {
+    if (!pool) return;
+
+    for (const platform of platforms) {
+      const configured = isConfigured(identity, platform);
+      await pool.query(`
+        INSERT INTO credential_health (identity_id, platform, status, message, check_source, expires_at)
+        VALUES ($1, $2, $3, $4, 'update', $5)
+        ON CONFLICT (identity_id, platform) DO UPDATE SET
+          status = EXCLUDED.status,
+          message = EXCLUDED.message,
+          check_source = 'update',
+          first_invalid_at = NULL,
+          expires_at = EXCLUDED.expires_at,
+          alert_reason = NULL,
+          alerted_at = NULL,
+          updated_at = NOW()
+      `, [
+        identity.id,
+        platform,
+        configured ? 'unknown' : 'unconfigured',
+        configured ? 'Credentials changed - not checked yet' : null,
+        configured ? decodeTokenExpiry(tokenFor(identity, platform)) : null,
+      ]);
+    }
+  }
+
+  /**
+   * Learn from a real booking attempt: success proves the credential,
+   * an auth error disproves it. Other failures (sold out) say nothing.
+   */
+  async recordBookingOutcome(identityId: number, platform: string, success: boolean, error?: string): Promise<void> {
+    if (!isPlatform(platform)) return;
+    try {
+      if (success) {
+        await this.record(identityId, platform, { valid: true, message: 'Booked successfully', source: 'booking' });
+      } else if (error && AUTH_FAILURE.test(error)) {
+        await this.record(identityId, platform, { valid: false, message: error, source: 'booking' });
+      }
+    } catch (err: any) {
+      // Health tracking never gets in the way of a booking
+      console.error('[CredentialHealth] Failed to record booking outcome:', err.message);
+    }
+  }
+
+  // =====================================================
+  // QUERIES
+  // =====================================================
+
+  async getHealth(identityId?: number): Promise<CredentialHealth[]> {
+    if (!pool) return [];
+    const result = await pool.query<CredentialHealth>(`
+      SELECT h.*, i.name AS identity_name
+      FROM credential_health h
+      JOIN booking_identities i ON i.id = h.identity_id
+      WHERE ($1::int IS NULL OR h.identity_id = $1::int)
+      ORDER BY i.name, h.platform
+    `, [identityId ?? null]);
+    return result.rows;
+  }
+
+  /**
+   * Will any identity be able to book `platform` at `at`? The scheduler
+   * picks the identity at execution time, so one usable identity is enough.
+   * Credentials never checked count as usable unless their token expires.
+   */
+  async getDropReadiness(platform: string, at: Date): Promise<DropReadiness> {
+    const readiness: DropReadiness = { platform, at: at.toISOString(), ready: true, usable: [], blocked: [] };
+    if (!pool || !isPlatform(platform)) return readiness;
+
+    const identities = await pool.query(`
+      SELECT i.*, h.status AS health_status, h.message AS health_message, h.expires_at AS health_expires_at
+      FROM booking_identities i
+      LEFT JOIN credential_health h ON h.identity_id = i.id AND h.platform = $1
+      WHERE i.is_active = true
+      ORDER BY i.name
+    `, [platform]);
+
+    for (const row of identities.rows) {
+      if (!isConfigured(row, platform)) continue;
+
+      const expiresAt: Date | null = row.health_expires_at || decodeTokenExpiry(tokenFor(row, platform));
+      if (row.health_status === 'invalid') {
+        readiness.blocked.push({ identityId: row.id, name: row.name, reason: row.health_message || 'Credentials invalid' });
+      } else if (expiresAt && expiresAt.getTime() <= at.getTime() + EXPIRY_MARGIN_MS) {
+        const when = expiresAt.getTime() <= Date.now() ? 'expired' : `expires ${expiresAt.toISOString()}`;
+        readiness.blocked.push({ identityId: row.id, name: row.name, reason: `Token ${when}, before the drop` });
+      } else {
+        readiness.usable.push({ identityId: row.id, name: row.name, expiresAt: expiresAt?.toISOString() ?? null });
+      }
+    }
+
+    if (readiness.usable.length === 0) {
+      readiness.ready = false;
+      readiness.reason = readiness.blocked.length === 0
+        ? `No active identity has ${platform} credentials`
+        : `No ${platform} credentials will be valid at drop time (${readiness.blocked.map(b => `${b.name}: ${b.reason}`).join('; ')})`;
+    }
+    return readiness;
+  }
+
+  // =====================================================
+  // ALERTS
+  // =====================================================
+
+  /**
+   * Telegram re-auth alerts for credentials that are invalid, or whose
+   * token expires within CREDENTIAL_EXPIRY_WARNING_HOURS. Each problem is
+   * announced once; a new token or a passing check re-arms the alert.
+   */
+  async sendAlerts(): Promise<AlertReport> {
+    const report: AlertReport = { invalid: 0, expiring: 0 };
+    if (!pool) return report;
+
+    const due = await pool.query<CredentialHealth>(`
+      SELECT h.*, i.name AS identity_name
+      FROM credential_health h
+      JOIN booking_identities i ON i.id = h.identity_id AND i.is_active = true
+      WHERE (h.status = 'invalid' AND h.alert_reason IS DISTINCT FROM 'invalid')
+         OR (h.status <> 'invalid' AND h.alert_reason IS NULL
+             AND h.expires_at < NOW() + make_interval(hours => $1))
+      ORDER BY i.name, h.platform
+    `, [expiryWarningHours()]);
+
+    for (const row of due.rows) {
+      const kind = row.status === 'invalid' ? 'invalid' : 'expiring';
+      const details = kind === 'invalid'
+        ? `${row.message || 'Credentials rejected'}${row.first_invalid_at ? `\nFailing since ${row.first_invalid_at.toISOString()}` : ''}`
+        : row.expires_at!.getTime() <= Date.now()
+          ? `Token expired at ${row.expires_at!.toISOString()}`
+          : `Token expires in ${formatIn(row.expires_at!.getTime() - Date.now())} (${row.expires_at!.toISOString()})`;
+
+      await telegram.notifyCredentialAlert(row.identity_name, row.platform, kind, details);
+      await pool.query(`
+        UPDATE credential_health SET alert_reason = $3, alerted_at = NOW(), updated_at = NOW()
+        WHERE identity_id = $1 AND platform = $2
+      `, [row.identity_id, row.platform, kind]);
+      report[kind]++;
+    }
+
+    return report;
+  }
+}
+
+export default new CredentialHealthMonitor();
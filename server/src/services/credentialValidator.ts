@@ -2,36 +2,14 @@
  * Credential Validator Service
  * 
  * Tests platform credentials against live APIs before booking attempts.
- * Validates tokens, sessions, and user information.
+ * Validates tokens, sessions, and user information - each platform's
+ * check lives in its adapter (src/platforms).
  */
 
-import resyClient from './resyApi';
-import openTableClient from './openTableApi';
-import sevenRoomsClient from './sevenRoomsApi';
-import tockClient from './tockApi';
+import { BookingIdentity } from './identityManager';
+import credentialHealth from './credentialHealth';
 import pool from '../db';
-
-interface ValidationResult {
-  platform: string;
-  valid: boolean;
-  message: string;
-  expiresAt?: Date;
-  details?: any;
-}
-
-interface IdentityCredentials {
-  id: number;
-  name: string;
-  resy_auth_token?: string;
-  resy_payment_id?: string;
-  opentable_csrf_token?: string;
-  opentable_gpid?: string;
-  sevenrooms_email?: string;
-  sevenrooms_first_name?: string;
-  sevenrooms_last_name?: string;
-  tock_auth_token?: string;
-  tock_email?: string;
-}
+import { listAdapters, ValidationResult } from '../platforms';
 
 class CredentialValidator {
   
@@ -65,55 +43,11 @@ class CredentialValidator {
         };
       }
       
-      const identity = result.rows[0] as IdentityCredentials;
+      const identity = result.rows[0] as BookingIdentity;
       const platforms: ValidationResult[] = [];
-      
-      // Validate Resy
-      if (identity.resy_auth_token) {
-        const resyResult = await this.validateResy(identity.resy_auth_token, identity.resy_payment_id);
-        platforms.push(resyResult);
-      } else {
-        platforms.push({
-          platform: 'resy',
-          valid: false,
-          message: 'No Resy credentials configured',
-        });
-      }
-      
-      // Validate OpenTable
-      if (identity.opentable_csrf_token) {
-        const otResult = await this.validateOpenTable(identity.opentable_csrf_token);
-        platforms.push(otResult);
-      } else {
-        platforms.push({
-          platform: 'opentable',
-          valid: false,
-          message: 'No OpenTable credentials configured',
-        });
-      }
-      
-      // Validate SevenRooms
-      if (identity.sevenrooms_email) {
-        const srResult = await this.validateSevenRooms(identity);
-        platforms.push(srResult);
-      } else {
-        platforms.push({
-          platform: 'sevenrooms',
-          valid: false,
-          message: 'No SevenRooms credentials configured',
-        });
-      }
-      
-      // Validate Tock
-      if (identity.tock_auth_token) {
-        const tockResult = await this.validateTock(identity.tock_auth_token);
-        platforms.push(tockResult);
-      } else {
-        platforms.push({
-          platform: 'tock',
-          valid: false,
-          message: 'No Tock credentials configured',
-        });
+
+      for (const adapter of listAdapters()) {
+        platforms.push(await adapter.validateCredentials(identity));
       }
       
       // Update validation status in database
@@ -126,6 +60,8 @@ class CredentialValidator {
           updated_at = NOW()
         WHERE id = $2
       `, [validCount > 0 ? 'partial' : 'invalid', identityId]);
+
+      await credentialHealth.recordValidation(identity, platforms);
       
       return {
         identity: identity.name,
@@ -138,173 +74,6 @@ class CredentialValidator {
     }
   }
   
-  /**
-   * Validate Resy credentials
-   */
-  async validateResy(authToken: string, paymentId?: string): Promise<ValidationResult> {
-    try {
-      // Test by fetching user reservations
-      const config = resyClient.isConfigured();
-      
-      if (!authToken) {
-        return {
-          platform: 'resy',
-          valid: false,
-          message: 'Auth token is required',
-        };
-      }
-      
-      // Try to get user profile
-      const axios = require('axios');
-      const response = await axios.get('https://api.resy.com/2/user', {
-        headers: {
-          'authorization': `ResyAPI api_key="VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5"`,
-          'x-resy-auth-token': authToken,
-        },
-        timeout: 10000,
-      });
-      
-      if (response.status === 200) {
-        return {
-          platform: 'resy',
-          valid: true,
-          message: `Valid - User: ${response.data?.first_name || 'Unknown'} ${response.data?.last_name || ''}`.trim(),
-          details: {
-            userId: response.data?.id,
-            email: response.data?.email_address,
-            hasPayment: !!paymentId,
-          },
-        };
-      }
-      
-      return {
-        platform: 'resy',
-        valid: false,
-        message: 'Token validation failed',
-      };
-      
-    } catch (error: any) {
-      if (error.response?.status === 401) {
-        return {
-          platform: 'resy',
-          valid: false,
-          message: 'Token expired or invalid',
-        };
-      }
-      return {
-        platform: 'resy',
-        valid: false,
-        message: `Validation error: ${error.message}`,
-      };
-    }
-  }
-  
-  /**
-   * Validate OpenTable credentials
-   */
-  async validateOpenTable(csrfToken: string): Promise<ValidationResult> {
-    try {
-      // OpenTable tokens are harder to validate without making a booking
-      // We can only check if the format looks correct
-      
-      if (!csrfToken || csrfToken.length < 10) {
-        return {
-          platform: 'opentable',
-          valid: false,
-          message: 'Invalid CSRF token format',
-        };
-      }
-      
-      // For now, just verify format - actual validation would need
-      // to hit their API which requires more complex setup
-      return {
-        platform: 'opentable',
-        valid: true,
-        message: 'Token format valid (full validation requires booking attempt)',
-        details: {
-          tokenLength: csrfToken.length,
-          warning: 'Cannot fully validate without booking attempt',
-        },
-      };
-      
-    } catch (error: any) {
-      return {
-        platform: 'opentable',
-        valid: false,
-        message: `Validation error: ${error.message}`,
-      };
-    }
-  }
-  
-  /**
-   * Validate SevenRooms credentials
-   */
-  async validateSevenRooms(identity: IdentityCredentials): Promise<ValidationResult> {
-    // SevenRooms uses user info, not tokens
-    const { sevenrooms_email, sevenrooms_first_name, sevenrooms_last_name } = identity;
-    
-    if (!sevenrooms_email || !sevenrooms_first_name || !sevenrooms_last_name) {
-      return {
-        platform: 'sevenrooms',
-        valid: false,
-        message: 'Missing required fields (email, first name, last name)',
-      };
-    }
-    
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(sevenrooms_email)) {
-      return {
-        platform: 'sevenrooms',
-        valid: false,
-        message: 'Invalid email format',
-      };
-    }
-    
-    return {
-      platform: 'sevenrooms',
-      valid: true,
-      message: `Valid - ${sevenrooms_first_name} ${sevenrooms_last_name} (${sevenrooms_email})`,
-      details: {
-        email: sevenrooms_email,
-        name: `${sevenrooms_first_name} ${sevenrooms_last_name}`,
-      },
-    };
-  }
-  
-  /**
-   * Validate Tock credentials
-   */
-  async validateTock(authToken: string): Promise<ValidationResult> {
-    try {
-      if (!authToken || authToken.length < 10) {
-        return {
-          platform: 'tock',
-          valid: false,
-          message: 'Invalid auth token format',
-        };
-      }
-      
-      // Similar to OpenTable, full validation requires API call
-      return {
-        platform: 'tock',
-        valid: true,
-        message: 'Token format valid (full validation requires booking attempt)',
-        details: {
-          tokenLength: authToken.length,
-          warning: 'Cannot fully validate without booking attempt',
-        },
-      };
-      
-    } catch (error: any) {
-      return {
-        platform: 'tock',
-        valid: false,
-        message: `Validation error: ${error.message}`,
-      };
-    }
-  }
-  
   /**
    * Validate all identities
    */
@@ -0,0 +1,291 @@
+/**
+ * Credential Vault
+ *
+ * Envelope encryption for the platform secrets in booking_identities.
+ *
+ * - Every value gets its own random data key (AES-256-GCM)
+ * - The data key is wrapped with the master key from
+ *   CREDENTIAL_ENCRYPTION_KEY and stored next to the ciphertext:
+ *     enc:v1:<keyId>:<wrapped data key>:<iv>:<tag>:<ciphertext>
+ * - Rotation only re-wraps data keys: put the new master key in
+ *   CREDENTIAL_ENCRYPTION_KEY, the old one in CREDENTIAL_ENCRYPTION_OLD_KEYS,
+ *   then run `npm run credentials -- reencrypt`
+ *
+ * Identities are passed around with their secrets still encrypted;
+ * identityManager.getPlatformCredentials() is the one place that decrypts.
+ */
+
+import crypto from 'crypto';
+import pool from '../db';
+
+// Columns holding secrets - encrypted at rest and masked in every response
+export const SECRET_FIELDS = [
+  'resy_auth_token',
+  'resy_payment_id',
+  'resy_api_key',
+  'opentable_csrf_token',
+  'opentable_session_cookie',
+  'tock_auth_token',
+] as const;
+
+export type SecretField = typeof SECRET_FIELDS[number];
+
+export const MASKED_VALUE = '***configured***';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface VaultStatus {
+  configured: boolean;
+  currentKeyId: string | null;
+  values: {
+    total: number;
+    plaintext: number;
+    byKey: Record<string, number>;
+  };
+}
+
+export interface ReencryptResult {
+  identities: number;
+  encrypted: number;   // Plaintext values that are now encrypted
+  rewrapped: number;   // Values moved from a retired master key to the current one
+}
+
+/**
+ * Accepts 32 bytes as base64 or hex (`npm run credentials -- generate-key`)
+ */
+const parseKey = (raw: string): MasterKey => {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error('Credential encryption keys must be 32 bytes (base64 or hex)');
+  }
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join('.');
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+class CredentialVault {
+  private keys: { current: MasterKey | null; all: Map<string, MasterKey> } | null = null;
+
+  // Read lazily so the env can be set after import (tests, CLI)
+  private getKeys() {
+    if (!this.keys) {
+      const current = process.env.CREDENTIAL_ENCRYPTION_KEY ? parseKey(process.env.CREDENTIAL_ENCRYPTION_KEY) : null;
+      const old = (process.env.CREDENTIAL_ENCRYPTION_OLD_KEYS || '')
+        .split(',')
+        .filter(k => k.trim())
+        .map(parseKey);
+
+      const all = new Map<string, MasterKey>();
+      for (const key of [...old, ...(current ? [current] : [])]) {
+        all.set(key.id, key);
+      }
+      this.keys = { current, all };
+    }
+    return this.keys;
+  }
+
+  /**
+   * Forget the cached keys (after changing the env)
+   */
+  reloadKeys(): void {
+    this.keys = null;
+  }
+
+  isConfigured(): boolean {
+    return this.getKeys().current !== null;
+  }
+
+  currentKeyId(): string | null {
+    return this.getKeys().current?.id ?? null;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(PREFIX);
+  }
+
+  /**
+   * Id of the master key that wraps a value (null for plaintext)
+   */
+  keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? value.slice(PREFIX.length).split(':')[0] : null;
+  }
+
+  // =====================================================
+  // SINGLE VALUES
+  // =====================================================
+
+  encrypt(plaintext: string): string {
+    const { current } = this.getKeys();
+    if (!current) {
+      throw new Error('CREDENTIAL_ENCRYPTION_KEY is not set - refusing to store platform credentials unencrypted');
+    }
+
+    const dataKey = crypto.randomBytes(32);
+    const wrapped = seal(current.key, dataKey);
+    const body = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+    return `${PREFIX}${current.id}:${wrapped}:${body}`;
+  }
+
+  /**
+   * Decrypt a stored value. Plaintext (pre-encryption rows) passes through.
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+
+    const [keyId, wrapped, body] = value.slice(PREFIX.length).split(':');
+    const masterKey = this.getKeys().all.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Credential was encrypted with unknown master key ${keyId} - add it to CREDENTIAL_ENCRYPTION_OLD_KEYS`);
+    }
+
+    const dataKey = open(masterKey.key, wrapped);
+    return open(dataKey, body).toString('utf8');
+  }
+
+  /**
+   * Re-wrap a value's data key with the current master key.
+   * The ciphertext itself is unchanged.
+   */
+  rewrap(value: string): string {
+    if (!this.isEncrypted(value)) return this.encrypt(value);
+
+    const { current, all } = this.getKeys();
+    const [keyId, wrapped, body] = value.slice(PREFIX.length).split(':');
+    if (!current) {
+      throw new Error('CREDENTIAL_ENCRYPTION_KEY is not set');
+    }
+    if (keyId === current.id) return value;
+
+    const oldKey = all.get(keyId);
+    if (!oldKey) {
+      throw new Error(`Credential was encrypted with unknown master key ${keyId} - add it to CREDENTIAL_ENCRYPTION_OLD_KEYS`);
+    }
+    const dataKey = open(oldKey.key, wrapped);
+    return `${PREFIX}${current.id}:${seal(current.key, dataKey)}:${body}`;
+  }
+
+  // =====================================================
+  // IDENTITY ROWS
+  // =====================================================
+
+  /**
+   * Encrypt the secret fields of an insert/update payload.
+   * null clears a secret; empty strings and the mask mean "unchanged"
+   * and are dropped, so re-submitting a masked form keeps the stored value.
+   */
+  encryptFields<T extends Record<string, any>>(data: T): T {
+    const result: Record<string, any> = { ...data };
+    for (const field of SECRET_FIELDS) {
+      if (!(field in result)) continue;
+      const value = result[field];
+      if (value === '' || value === MASKED_VALUE) {
+        delete result[field];
+      } else if (typeof value === 'string' && !this.isEncrypted(value)) {
+        result[field] = this.encrypt(value);
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * Replace secrets with a "configured" marker - for API responses and logs
+   */
+  mask<T extends Record<string, any>>(identity: T): T {
+    const result: Record<string, any> = { ...identity };
+    for (const field of SECRET_FIELDS) {
+      if (field in result) {
+        result[field] = result[field] ? MASKED_VALUE : null;
+      }
+    }
+    return result as T;
+  }
+
+  /**
+   * Count stored secrets by master key
+   */
+  async getStatus(): Promise<VaultStatus> {
+    if (!pool) throw new Error('Database pool not initialized');
+    const result = await pool.query(`SELECT ${SECRET_FIELDS.join(', ')} FROM booking_identities`);
+
+    const values = { total: 0, plaintext: 0, byKey: {} as Record<string, number> };
+    for (const row of result.rows) {
+      for (const field of SECRET_FIELDS) {
+        const value = row[field];
+        if (!value) continue;
+        values.total++;
+        const keyId = this.keyIdOf(value);
+        if (keyId) {
+          values.byKey[keyId] = (values.byKey[keyId] || 0) + 1;
+        } else {
+          values.plaintext++;
+        }
+      }
+    }
+
+    return { configured: this.isConfigured(), currentKeyId: this.currentKeyId(), values };
+  }
+
+  /**
+   * Bring every stored secret under the current master key:
+   * encrypt leftover plaintext and re-wrap values under retired keys.
+   * Each identity is updated in its own statement; safe to re-run.
+   */
+  async reencryptAll(): Promise<ReencryptResult> {
+    if (!pool) throw new Error('Database pool not initialized');
+    const currentId = this.currentKeyId();
+    if (!currentId) {
+      throw new Error('CREDENTIAL_ENCRYPTION_KEY is not set');
+    }
+
+    const result: ReencryptResult = { identities: 0, encrypted: 0, rewrapped: 0 };
+    const rows = await pool.query(`SELECT id, ${SECRET_FIELDS.join(', ')} FROM booking_identities ORDER BY id`);
+
+    for (const row of rows.rows) {
+      const updates: Record<string, string> = {};
+      for (const field of SECRET_FIELDS) {
+        const value = row[field];
+        if (!value) continue;
+        if (!this.isEncrypted(value)) {
+          updates[field] = this.encrypt(value);
+          result.encrypted++;
+        } else if (this.keyIdOf(value) !== currentId) {
+          updates[field] = this.rewrap(value);
+          result.rewrapped++;
+        }
+      }
+
+      const fields = Object.keys(updates);
+      if (fields.length === 0) continue;
+
+      await pool.query(
+        `UPDATE booking_identities SET ${fields.map((f, i) => `${f} = $${i + 2}`).join(', ')}, updated_at = NOW() WHERE id = $1`,
+        [row.id, ...fields.map(f => updates[f])]
+      );
+      result.identities++;
+    }
+
+    return result;
+  }
+}
+
+export default new CredentialVault();
@@ -0,0 +1,154 @@
+/**
+ * Digest Reports
+ *
+ * Numbers behind the Telegram digests: the daily summary and the weekly
+ * P&L. Sent on a schedule by jobScheduler.ts, or on demand via
+ * POST /api/notifications/daily-summary.
+ */
+
+import pool from '../db';
+
+export interface DailySummaryStats {
+  acquisitions: number;
+  sales: number;
+  revenue: number;
+  pendingTransfers: number;
+}
+
+export interface WeeklyPnl {
+  periodStart: string;      // ISO, inclusive
+  periodEnd: string;        // ISO, exclusive
+  acquisitions: number;
+  sales: number;
+  revenue: number;
+  costBasis: number;        // Of the reservations sold this week
+  profit: number;
+  conciergeBookings: number;  // Client requests booked this week
+  previousProfit: number;   // Same numbers for the week before, for the trend
+  topSale: { restaurantName: string; salePrice: number } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class DigestReports {
+  /**
+   * Today's acquisitions and sales, and transfers still waiting on a handover
+   */
+  async getDailySummary(): Promise<DailySummaryStats> {
+    const stats: DailySummaryStats = {
+      acquisitions: 0,
+      sales: 0,
+      revenue: 0,
+      pendingTransfers: 0,
+    };
+    if (!pool) return stats;
+
+    const client = await pool.connect();
+    try {
+      // Today's acquisitions
+      const acqResult = await client.query(`
+        SELECT COUNT(*) as count FROM acquisition_attempts
+        WHERE success = true AND DATE(created_at) = CURRENT_DATE
+      `);
+      stats.acquisitions = parseInt(acqResult.rows[0]?.count) || 0;
+
+      // Today's sales
+      const salesResult = await client.query(`
+        SELECT COUNT(*) as count, COALESCE(SUM(sale_price), 0) as revenue
+        FROM transfers
+        WHERE status IN ('SOLD', 'COMPLETED')
+          AND DATE(sold_at) = CURRENT_DATE
+      `);
+      stats.sales = parseInt(salesResult.rows[0]?.count) || 0;
+      stats.revenue = parseFloat(salesResult.rows[0]?.revenue) || 0;
+
+      // Pending transfers
+      const pendingResult = await client.query(`
+        SELECT COUNT(*) as count FROM transfers
+        WHERE status = 'TRANSFER_PENDING'
+      `);
+      stats.pendingTransfers = parseInt(pendingResult.rows[0]?.count) || 0;
+    } finally {
+      client.release();
+    }
+
+    return stats;
+  }
+
+  /**
+   * Profit and loss for the 7 days ending at `until`, with the prior week's
+   * profit for comparison. Cost basis comes from the linked portfolio item.
+   */
+  async getWeeklyPnl(until: Date = new Date()): Promise<WeeklyPnl> {
+    const end = until;
+    const start = new Date(end.getTime() - 7 * DAY_MS);
+    const previousStart = new Date(start.getTime() - 7 * DAY_MS);
+
+    const report: WeeklyPnl = {
+      periodStart: start.toISOString(),
+      periodEnd: end.toISOString(),
+      acquisitions: 0,
+      sales: 0,
+      revenue: 0,
+      costBasis: 0,
+      profit: 0,
+      conciergeBookings: 0,
+      previousProfit: 0,
+      topSale: null,
+    };
+    if (!pool) return report;
+
+    const client = await pool.connect();
+    try {
+      const salesFor = (from: Date, to: Date) => client.query(`
+        SELECT COUNT(*) as count,
+               COALESCE(SUM(t.sale_price), 0) as revenue,
+               COALESCE(SUM(p.cost_basis), 0) as cost_basis
+        FROM transfers t
+        LEFT JOIN portfolio_items p ON p.id = t.portfolio_item_id
+        WHERE t.sold_at >= $1 AND t.sold_at < $2
+          AND t.sale_price IS NOT NULL
+      `, [from, to]);
+
+      const current = (await salesFor(start, end)).rows[0];
+      report.sales = parseInt(current.count) || 0;
+      report.revenue = parseFloat(current.revenue) || 0;
+      report.costBasis = parseFloat(current.cost_basis) || 0;
+      report.profit = report.revenue - report.costBasis;
+
+      const previous = (await salesFor(previousStart, start)).rows[0];
+      report.previousProfit = (parseFloat(previous.revenue) || 0) - (parseFloat(previous.cost_basis) || 0);
+
+      const acqResult = await client.query(`
+        SELECT COUNT(*) as count FROM acquisition_attempts
+        WHERE success = true AND created_at >= $1 AND created_at < $2
+      `, [start, end]);
+      report.acquisitions = parseInt(acqResult.rows[0]?.count) || 0;
+
+      const conciergeResult = await client.query(`
+        SELECT COUNT(*) as count FROM client_booking_requests
+        WHERE status = 'acquired' AND acquired_at >= $1 AND acquired_at < $2
+      `, [start, end]);
+      report.conciergeBookings = parseInt(conciergeResult.rows[0]?.count) || 0;
+
+      const topResult = await client.query(`
+        SELECT restaurant_name, sale_price FROM transfers
+        WHERE sold_at >= $1 AND sold_at < $2 AND sale_price IS NOT NULL
+        ORDER BY sale_price DESC
+        LIMIT 1
+      `, [start, end]);
+      if (topResult.rows[0]) {
+        report.topSale = {
+          restaurantName: topResult.rows[0].restaurant_name,
+          salePrice: parseFloat(topResult.rows[0].sale_price),
+        };
+      }
+    } finally {
+      client.release();
+    }
+
+    return report;
+  }
+}
+
+export default new DigestReports();
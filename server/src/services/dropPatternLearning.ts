@@ -6,6 +6,7 @@
  */
 
 import pool from '../db';
+import { toZonedParts, daysBetween, DEFAULT_DROP_TIMEZONE } from '../shared/dropTime';
 
 interface DropPattern {
   id?: number;
@@ -30,60 +31,11 @@ interface AcquisitionAttempt {
   success: boolean;
   confirmationCode?: string;
   error?: string;
+  timezone?: string;  // IANA zone the restaurant drops in (defaults to New York)
 }
 
 class DropPatternLearning {
   
-  /**
-   * Initialize the confirmed_drop_patterns table
-   */
-  async initTable(): Promise<void> {
-    if (!pool) return;
-    
-    const client = await pool.connect();
-    try {
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS confirmed_drop_patterns (
-          id SERIAL PRIMARY KEY,
-          restaurant_name VARCHAR(255) NOT NULL,
-          platform VARCHAR(50) NOT NULL,
-          days_in_advance INTEGER NOT NULL,
-          drop_time VARCHAR(10) NOT NULL,
-          drop_timezone VARCHAR(50) DEFAULT 'America/New_York',
-          drop_day_of_week INTEGER,
-          confidence INTEGER DEFAULT 50,
-          successful_acquisitions INTEGER DEFAULT 0,
-          total_attempts INTEGER DEFAULT 0,
-          last_confirmed TIMESTAMP,
-          notes TEXT,
-          created_at TIMESTAMP DEFAULT NOW(),
-          updated_at TIMESTAMP DEFAULT NOW(),
-          UNIQUE(restaurant_name, platform)
-        );
-        
-        CREATE TABLE IF NOT EXISTS acquisition_attempts (
-          id SERIAL PRIMARY KEY,
-          restaurant_name VARCHAR(255) NOT NULL,
-          platform VARCHAR(50) NOT NULL,
-          target_date DATE NOT NULL,
-          attempt_time TIMESTAMP NOT NULL,
-          success BOOLEAN NOT NULL,
-          confirmation_code VARCHAR(255),
-          error TEXT,
-          identity_id INTEGER REFERENCES booking_identities(id),
-          created_at TIMESTAMP DEFAULT NOW()
-        );
-        
-        CREATE INDEX IF NOT EXISTS idx_attempts_restaurant ON acquisition_attempts(restaurant_name);
-        CREATE INDEX IF NOT EXISTS idx_attempts_success ON acquisition_attempts(success);
-        CREATE INDEX IF NOT EXISTS idx_patterns_restaurant ON confirmed_drop_patterns(restaurant_name);
-      `);
-      console.log('[DropPatternLearning] Tables initialized');
-    } finally {
-      client.release();
-    }
-  }
-  
   /**
    * Record an acquisition attempt
    */
@@ -128,24 +80,23 @@ class DropPatternLearning {
     
     const client = await pool.connect();
     try {
-      const targetDate = new Date(attempt.targetDate);
-      const attemptDate = attempt.attemptTime;
+      // Read the attempt in the restaurant's timezone, not the server's
+      const timezone = attempt.timezone || DEFAULT_DROP_TIMEZONE;
+      const zoned = toZonedParts(attempt.attemptTime, timezone);
       
-      // Calculate days in advance
-      const daysInAdvance = Math.floor(
-        (targetDate.getTime() - attemptDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
+      // Calculate days in advance (calendar days in the restaurant's zone)
+      const daysInAdvance = daysBetween(zoned.date, attempt.targetDate);
       
       // Get drop time
-      const dropTime = attemptDate.toTimeString().slice(0, 5);
-      const dropDayOfWeek = attemptDate.getDay();
+      const dropTime = zoned.time.slice(0, 5);
+      const dropDayOfWeek = zoned.dayOfWeek;
       
       // Upsert pattern
       await client.query(`
         INSERT INTO confirmed_drop_patterns 
         (restaurant_name, platform, days_in_advance, drop_time, drop_day_of_week, 
-         successful_acquisitions, total_attempts, last_confirmed, confidence)
-        VALUES ($1, $2, $3, $4, $5, 1, 1, NOW(), 70)
+         drop_timezone, successful_acquisitions, total_attempts, last_confirmed, confidence)
+        VALUES ($1, $2, $3, $4, $5, $6, 1, 1, NOW(), 70)
         ON CONFLICT (restaurant_name, platform) 
         DO UPDATE SET
           days_in_advance = CASE 
@@ -159,6 +110,7 @@ class DropPatternLearning {
             ELSE $4 
           END,
           drop_day_of_week = $5,
+          drop_timezone = $6,
           successful_acquisitions = confirmed_drop_patterns.successful_acquisitions + 1,
           last_confirmed = NOW(),
           confidence = LEAST(100, confirmed_drop_patterns.confidence + 10),
@@ -169,9 +121,10 @@ class DropPatternLearning {
         daysInAdvance,
         dropTime,
         dropDayOfWeek,
+        timezone,
       ]);
       
-      console.log(`[DropPatternLearning] Confirmed pattern: ${attempt.restaurantName} - ${daysInAdvance} days @ ${dropTime}`);
+      console.log(`[DropPatternLearning] Confirmed pattern: ${attempt.restaurantName} - ${daysInAdvance} days @ ${dropTime} ${timezone}`);
       
     } finally {
       client.release();
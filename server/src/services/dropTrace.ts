@@ -0,0 +1,289 @@
+/**
+ * Drop Trace
+ *
+ * A post-mortem for every drop execution. While executeAtDropTime runs,
+ * everything that happens is appended to the current trace:
+ * - every governed HTTP call: method, path, status, latency (platformGovernor.ts)
+ * - every slot poll: how many slots, which times (platform clients' acquire)
+ * - the slot we picked, and how the book call went
+ * - each attempt of the acquisition loop
+ *
+ * The trace follows the async call chain (AsyncLocalStorage), so nothing
+ * has to be threaded through the clients, and calls outside a drop are
+ * never recorded. Timings are relative to the drop instant on the
+ * platform's clock (clockSync.ts).
+ *
+ * Each trace gets a verdict:
+ * - booked       we got it
+ * - no_slots     no poll ever saw a slot
+ * - slots_late   slots first appeared more than SLOTS_LATE_MS after the drop
+ * - no_attempt   slots were there on time but we never made a book call
+ * - taken        slots were there on time but every book call lost
+ * - error        no poll completed (auth, network, rate limiting)
+ *
+ * Table: drop_traces (migrations 014, 022)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import pool from '../db';
+import clockSync from './clockSync';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TraceEventType = 'attempt' | 'http' | 'slots' | 'slot_chosen' | 'book';
+export type DropOutcome = 'booked' | 'no_slots' | 'slots_late' | 'no_attempt' | 'taken' | 'error';
+
+export interface TraceEvent {
+  type: TraceEventType;
+  at: string;                 // Local ISO timestamp
+  sinceDropMs: number | null; // Relative to the drop, platform clock (negative = before)
+
+  // http
+  method?: string;
+  path?: string;
+  status?: number | null;
+  latencyMs?: number;
+
+  // slots / slot_chosen
+  slotsSeen?: number;
+  slots?: string[];
+  slot?: string;
+
+  // book / attempt
+  attempt?: number;
+  success?: boolean;
+  error?: string;
+}
+
+export interface TraceSummary {
+  attempts: number;
+  polls: number;
+  bookCalls: number;
+  httpCalls: number;
+  httpErrors: number;           // Non-2xx and network failures
+  maxSlotsSeen: number;
+  firstSlotsSinceDropMs: number | null;
+  firstBookSinceDropMs: number | null;   // When our first book call started
+  medianLatencyMs: number | null;
+  clockOffsetMs: number;        // Platform clock minus ours when the trace ran
+  truncatedEvents: number;
+}
+
+export interface DropTrace {
+  scheduledDropId?: number;
+  portfolioItemId?: string;
+  restaurantName: string;
+  platform: string;
+  dropAt: Date | null;
+  startedAt: Date;
+  finishedAt?: Date;
+  events: TraceEvent[];
+  truncated: number;
+}
+
+export interface StoredDropTrace {
+  id: number;
+  scheduled_drop_id: number | null;
+  portfolio_item_id: string | null;
+  restaurant_name: string;
+  platform: string;
+  drop_at: Date | null;
+  started_at: Date;
+  finished_at: Date | null;
+  success: boolean;
+  outcome: DropOutcome;
+  summary: TraceSummary;
+  events?: TraceEvent[];
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Slots first seen later than this after the drop count as a late release
+const SLOTS_LATE_MS = 5000;
+
+// A 60s loop at 100ms is ~600 attempts; cap the stored timeline well above that
+const MAX_EVENTS = 3000;
+
+const MAX_SLOTS_LISTED = 20;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// ============================================
+// TRACER
+// ============================================
+
+class DropTracer {
+  private storage = new AsyncLocalStorage<DropTrace>();
+
+  /**
+   * New trace for a drop execution - run the execution inside it with within()
+   */
+  start(meta: Omit<DropTrace, 'events' | 'truncated' | 'startedAt'>): DropTrace {
+    return { ...meta, startedAt: new Date(), events: [], truncated: 0 };
+  }
+
+  within<T>(trace: DropTrace, fn: () => Promise<T>): Promise<T> {
+    return this.storage.run(trace, fn);
+  }
+
+  /**
+   * Is a drop being traced on this call chain?
+   */
+  isTracing(): boolean {
+    return !!this.storage.getStore();
+  }
+
+  /**
+   * Append an event to the current trace (no-op outside a drop)
+   */
+  record(type: TraceEventType, data: Omit<TraceEvent, 'type' | 'at' | 'sinceDropMs'> = {}): void {
+    const trace = this.storage.getStore();
+    if (!trace) return;
+
+    if (trace.events.length >= MAX_EVENTS) {
+      trace.truncated++;
+      return;
+    }
+
+    const now = Date.now();
+    trace.events.push({
+      type,
+      at: new Date(now).toISOString(),
+      sinceDropMs: trace.dropAt ? now + clockSync.getOffset(trace.platform) - trace.dropAt.getTime() : null,
+      ...data,
+    });
+  }
+
+  /**
+   * Slots returned by a poll (times as the platform formats them)
+   */
+  recordSlots(slotTimes: (string | undefined)[]): void {
+    const times = slotTimes.filter((t): t is string => !!t);
+    this.record('slots', { slotsSeen: slotTimes.length, slots: times.slice(0, MAX_SLOTS_LISTED) });
+  }
+
+  /**
+   * One platform HTTP call. Only the path is kept - query strings can
+   * carry tokens.
+   */
+  recordHttp(method: string | undefined, url: string | undefined, status: number | null, latencyMs: number, error?: string): void {
+    if (!this.isTracing()) return;
+
+    let path = url || '';
+    try {
+      path = new URL(path, 'http://platform').pathname;
+    } catch {
+      path = path.split('?')[0];
+    }
+    this.record('http', { method: (method || 'get').toUpperCase(), path, status, latencyMs, error });
+  }
+
+  // =====================================================
+  // VERDICT
+  // =====================================================
+
+  summarize(trace: DropTrace): TraceSummary {
+    const of = (type: TraceEventType) => trace.events.filter(e => e.type === type);
+    const polls = of('slots');
+    const books = of('book');
+    const chosen = of('slot_chosen');
+    const http = of('http');
+    const firstSlots = polls.find(e => (e.slotsSeen || 0) > 0);
+
+    return {
+      attempts: of('attempt').length,
+      polls: polls.length,
+      bookCalls: books.length,
+      httpCalls: http.length,
+      httpErrors: http.filter(e => !e.status || e.status >= 400).length,
+      maxSlotsSeen: Math.max(0, ...polls.map(e => e.slotsSeen || 0)),
+      firstSlotsSinceDropMs: firstSlots?.sinceDropMs ?? null,
+      firstBookSinceDropMs: chosen[0]?.sinceDropMs ?? null,
+      medianLatencyMs: median(http.map(e => e.latencyMs || 0)),
+      clockOffsetMs: clockSync.getOffset(trace.platform),
+      truncatedEvents: trace.truncated,
+    };
+  }
+
+  classify(trace: DropTrace, success: boolean): DropOutcome {
+    if (success) return 'booked';
+
+    const summary = this.summarize(trace);
+    if (summary.polls === 0) return 'error';
+    if (summary.maxSlotsSeen === 0) return 'no_slots';
+    if (summary.firstSlotsSinceDropMs !== null && summary.firstSlotsSinceDropMs > SLOTS_LATE_MS) return 'slots_late';
+    if (summary.bookCalls === 0) return 'no_attempt';
+    return 'taken';
+  }
+
+  // =====================================================
+  // STORAGE
+  // =====================================================
+
+  /**
+   * Store a finished trace. Returns its id (null without a database).
+   * Never throws - a lost post-mortem must not fail the drop.
+   */
+  async save(trace: DropTrace, success: boolean): Promise<number | null> {
+    trace.finishedAt = trace.finishedAt || new Date();
+    if (!pool) return null;
+
+    try {
+      const result = await pool.query(`
+        INSERT INTO drop_traces (
+          scheduled_drop_id, portfolio_item_id, restaurant_name, platform,
+          drop_at, started_at, finished_at, success, outcome, summary, events
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        RETURNING id
+      `, [
+        trace.scheduledDropId ?? null,
+        trace.portfolioItemId ?? null,
+        trace.restaurantName,
+        trace.platform,
+        trace.dropAt,
+        trace.startedAt,
+        trace.finishedAt,
+        success,
+        this.classify(trace, success),
+        JSON.stringify(this.summarize(trace)),
+        JSON.stringify(trace.events),
+      ]);
+      return result.rows[0].id;
+    } catch (error: any) {
+      console.error('[DropTrace] Failed to save trace:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Recent traces, without their timelines
+   */
+  async getTraces(filters: { portfolioItemId?: string; limit?: number } = {}): Promise<StoredDropTrace[]> {
+    if (!pool) return [];
+    const result = await pool.query(`
+      SELECT id, scheduled_drop_id, portfolio_item_id, restaurant_name, platform,
+             drop_at, started_at, finished_at, success, outcome, summary
+      FROM drop_traces
+      WHERE ($1::varchar IS NULL OR portfolio_item_id = $1::varchar)
+      ORDER BY started_at DESC
+      LIMIT $2
+    `, [filters.portfolioItemId ?? null, Math.min(filters.limit || 50, 200)]);
+    return result.rows;
+  }
+
+  async getTrace(id: number): Promise<StoredDropTrace | null> {
+    if (!pool) return null;
+    const result = await pool.query(`SELECT * FROM drop_traces WHERE id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+}
+
+export default new DropTracer();
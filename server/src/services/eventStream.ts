@@ -0,0 +1,92 @@
+/**
+ * Event Stream
+ *
+ * In-process hub for the events dashboards receive live over GET
+ * /api/events (see shared/serverEvents.ts for what's sent):
+ * - services publish() as things happen - acquisitionEngine, the
+ *   reservation lifecycle, credentialHealth, the sniper scheduler
+ * - the events route subscribes one listener per open connection
+ * - the last EVENT_STREAM_BUFFER events (default 500) are kept so a client
+ *   that reconnects gets what it missed; if it missed more, it's told to
+ *   resync instead
+ *
+ * Ids continue from the boot time in milliseconds, so they keep increasing
+ * across restarts and a client's old Last-Event-ID never looks current.
+ * Nothing is persisted: the stream is a notification channel, the database
+ * stays the source of truth.
+ */
+
+import { hasPermission, Role } from '../shared/permissions';
+import {
+  ServerEvent,
+  ServerEventPayloads,
+  ServerEventType,
+  SERVER_EVENT_PERMISSIONS,
+} from '../shared/serverEvents';
+
+export type EventListener = (event: ServerEvent) => void;
+
+export interface Replay {
+  events: ServerEvent[];
+  complete: boolean;   // False: events after lastId were dropped from the buffer
+}
+
+const BUFFER_SIZE = parseInt(process.env.EVENT_STREAM_BUFFER || '500', 10);
+
+class EventStream {
+  private buffer: ServerEvent[] = [];
+  private lastId = Date.now();
+  private listeners = new Set<EventListener>();
+
+  /**
+   * Send an event to every connected dashboard. Never throws - a broken
+   * listener must not fail the booking that published it.
+   */
+  publish<T extends ServerEventType>(type: T, data: ServerEventPayloads[T]): ServerEvent {
+    const event = { id: ++this.lastId, type, data, at: new Date().toISOString() } as ServerEvent;
+
+    this.buffer.push(event);
+    if (this.buffer.length > BUFFER_SIZE) this.buffer.shift();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error: any) {
+        console.error('[EventStream] Listener failed:', error.message);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Listen for new events; returns the unsubscribe function
+   */
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Buffered events after lastId
+   */
+  since(lastId: number): Replay {
+    const events = this.buffer.filter(e => e.id > lastId);
+    const oldest = this.buffer[0]?.id ?? this.lastId + 1;
+    // Complete if nothing between lastId and the buffer was dropped
+    const complete = lastId >= oldest - 1 && lastId <= this.lastId;
+    return { events, complete };
+  }
+
+  /**
+   * Whether a role may receive an event
+   */
+  canReceive(role: Role, event: ServerEvent): boolean {
+    return hasPermission(role, SERVER_EVENT_PERMISSIONS[event.type] || 'read');
+  }
+
+  get latestId(): number {
+    return this.lastId;
+  }
+}
+
+export default new EventStream();
@@ -0,0 +1,364 @@
+/**
+ * Fulfillment Worker
+ *
+ * Works the client_booking_requests queue: each pending request becomes
+ * concierge-mode acquisitionEngine.acquire() calls under the client's name.
+ *
+ * - Platinum and VIP clients are worked first (same order as getPriorityClients)
+ * - Searches desired_time +/- time_flexibility (any dinner time if unset)
+ * - pending -> searching -> acquired (transfer linked) | back to pending
+ *   with the reason, until attempts run out or the request expires
+ * - A booking whose acquired write fails is never requeued: the write is
+ *   retried at the start of every pass, and the operator is alerted
+ * - Requests without a platform are tried on every platform the restaurant
+ *   has an id for in the portfolio
+ *
+ * Env:
+ *   FULFILLMENT_ON_BOOT=true          start with the server
+ *   FULFILLMENT_POLL_SECONDS=60       how often to look for due requests
+ *   FULFILLMENT_RETRY_MINUTES=10      gap between attempts on one request
+ *   FULFILLMENT_MAX_ATTEMPTS=50       then the request is failed
+ *   FULFILLMENT_BATCH_SIZE=3          requests claimed per poll
+ */
+
+import pool from '../db';
+import acquisitionEngine from './acquisitionEngine';
+import type { Platform, AcquisitionRequest, AcquisitionResult } from './acquisitionEngine';
+import clientManager, { ClaimedBookingRequest, ClientBookingRequest } from './clientManager';
+import auditLog, { AuditActor } from './auditLog';
+import * as telegram from '../sniper/telegram';
+import { normalizeDate } from '../shared/dropTime';
+import { getAdapter, listAdapters } from '../platforms';
+
+const FULFILLMENT_ACTOR: AuditActor = { source: 'system', actor: 'fulfillment' };
+
+// No preferred time: search the whole evening around 19:00
+const DEFAULT_TIME = '19:00';
+const ANY_TIME_FLEXIBILITY = 4 * 60;
+
+// A 'searching' row older than this was abandoned by a crashed worker
+const STALE_SEARCH_MINUTES = 30;
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+};
+
+interface VenueTarget {
+  platform: Platform;
+  resyVenueId?: number;
+  openTableId?: number;
+  sevenRoomsSlug?: string;
+  tockSlug?: string;
+}
+
+export interface FulfillmentRunResult {
+  expired: number;
+  claimed: number;
+  acquired: number;
+  unsettled: number;    // Booked, but the request couldn't be marked acquired
+  requeued: number;
+  failed: number;
+}
+
+export interface FulfillmentStatus {
+  isRunning: boolean;
+  pollSeconds: number;
+  lastRunAt: string | null;
+  lastRun: FulfillmentRunResult | null;
+  totals: FulfillmentRunResult;
+}
+
+class FulfillmentWorker {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private running = false;       // A pass is in progress
+  private lastRunAt: Date | null = null;
+  private lastRun: FulfillmentRunResult | null = null;
+  private totals: FulfillmentRunResult = { expired: 0, claimed: 0, acquired: 0, unsettled: 0, requeued: 0, failed: 0 };
+  // Booked requests whose acquired write failed, by request id
+  private pendingSettles = new Map<number, { request: ClientBookingRequest; transferId?: number }>();
+
+  private get pollSeconds(): number {
+    return envInt('FULFILLMENT_POLL_SECONDS', 60);
+  }
+
+  // =====================================================
+  // LIFECYCLE
+  // =====================================================
+
+  start(): void {
+    if (this.pollInterval) {
+      console.log('[Fulfillment] Already running');
+      return;
+    }
+    if (!pool) {
+      console.warn('[Fulfillment] Database not connected - not starting');
+      return;
+    }
+
+    console.log(`[Fulfillment] 🟢 Working client booking requests every ${this.pollSeconds}s`);
+    this.pollInterval = setInterval(() => { void this.runOnce(); }, this.pollSeconds * 1000);
+    void this.runOnce();
+  }
+
+  stop(): void {
+    if (!this.pollInterval) {
+      console.log('[Fulfillment] Not running');
+      return;
+    }
+    clearInterval(this.pollInterval);
+    this.pollInterval = null;
+    // Requests mid-search finish; anything else stays pending for next start
+    console.log('[Fulfillment] 🔴 Stopped');
+  }
+
+  getStatus(): FulfillmentStatus {
+    return {
+      isRunning: this.pollInterval !== null,
+      pollSeconds: this.pollSeconds,
+      lastRunAt: this.lastRunAt?.toISOString() ?? null,
+      lastRun: this.lastRun,
+      totals: { ...this.totals },
+    };
+  }
+
+  // =====================================================
+  // QUEUE PASS
+  // =====================================================
+
+  /**
+   * One pass over the queue: finish earlier bookings that weren't marked
+   * acquired, expire stale requests, then claim and work the
+   * highest-priority due ones. Overlapping calls are skipped.
+   */
+  async runOnce(): Promise<FulfillmentRunResult> {
+    const result: FulfillmentRunResult = { expired: 0, claimed: 0, acquired: 0, unsettled: 0, requeued: 0, failed: 0 };
+    if (this.running || !pool) return result;
+    this.running = true;
+
+    try {
+      // Before stale recovery, which would put them back in the queue
+      await this.retrySettles();
+      await clientManager.recoverStaleBookingRequests(STALE_SEARCH_MINUTES);
+
+      const expired = await clientManager.expireBookingRequests();
+      result.expired = expired.length;
+      for (const request of expired) {
+        console.log(`[Fulfillment] ⌛ Request ${request.id} (${request.restaurant_name}) expired`);
+        await this.audit('booking_request.expired', request, 'failure', request.failure_reason);
+      }
+
+      const claimed = await clientManager.claimBookingRequests(
+        envInt('FULFILLMENT_BATCH_SIZE', 3),
+        envInt('FULFILLMENT_RETRY_MINUTES', 10)
+      );
+      result.claimed = claimed.length;
+
+      for (const request of claimed) {
+        const outcome = await this.work(request);
+        result[outcome]++;
+      }
+    } catch (error: any) {
+      console.error('[Fulfillment] ❌ Pass failed:', error.message);
+    } finally {
+      this.running = false;
+      this.lastRunAt = new Date();
+      this.lastRun = result;
+      for (const key of Object.keys(result) as (keyof FulfillmentRunResult)[]) {
+        this.totals[key] += result[key];
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * One attempt at a claimed request, on each candidate platform in turn
+   */
+  private async work(request: ClaimedBookingRequest): Promise<'acquired' | 'unsettled' | 'requeued' | 'failed'> {
+    const label = `Request ${request.id} (${request.restaurant_name}, ${request.vip_level})`;
+
+    const client = await clientManager.getClientById(request.client_id);
+    if (!client) {
+      await this.settle(request, 'failed', { failureReason: 'Client no longer exists' });
+      return 'failed';
+    }
+
+    const targets = await this.resolveTargets(request);
+    if (targets.length === 0) {
+      const reason = request.platform
+        ? `No ${request.platform} venue id for ${request.restaurant_name} - set venue_id on the request`
+        : `No platform venue ids known for ${request.restaurant_name} - set platform and venue_id on the request`;
+      await this.settle(request, 'failed', { failureReason: reason });
+      return 'failed';
+    }
+
+    const specialRequest = [request.occasion, request.special_requests].filter(Boolean).join(' - ') || undefined;
+    let lastResult: AcquisitionResult | null = null;
+
+    for (const target of targets) {
+      console.log(`[Fulfillment] 🔎 ${label}: trying ${target.platform} (attempt ${request.attempts})`);
+
+      const acquisition: AcquisitionRequest = {
+        ...target,
+        restaurantName: request.restaurant_name,
+        date: normalizeDate(request.desired_date),
+        time: request.desired_time || DEFAULT_TIME,
+        timeFlexibility: request.desired_time ? request.time_flexibility : ANY_TIME_FLEXIBILITY,
+        partySize: request.party_size,
+        maxRetries: 1,
+        bookingMode: 'concierge',
+        clientId: client.id,
+        clientInfo: {
+          firstName: client.first_name,
+          lastName: client.last_name,
+          email: client.email,
+          phone: client.phone,
+          specialRequest,
+        },
+        actor: FULFILLMENT_ACTOR,
+      };
+
+      try {
+        lastResult = await acquisitionEngine.acquire(acquisition);
+      } catch (error: any) {
+        lastResult = { success: false, platform: target.platform, error: error.message };
+      }
+
+      if (lastResult.success) {
+        const unsettled = await this.settleAcquired(request, lastResult.transferId);
+        console.log(`[Fulfillment] ✅ ${label}: booked ${lastResult.bookedTime || ''} on ${target.platform}`);
+        await telegram.send(
+          `🎩 <b>CLIENT REQUEST FULFILLED</b>\n\n` +
+          `🍽️ <b>${request.restaurant_name}</b>\n` +
+          `👤 ${client.first_name} ${client.last_name}\n` +
+          `📅 ${normalizeDate(request.desired_date)} at ${lastResult.bookedTime || request.desired_time || 'dinner'} · ${request.party_size} guests\n` +
+          `🔖 ${lastResult.confirmationCode || 'confirmed'} (${target.platform})`
+        );
+        if (unsettled) {
+          console.error(`[Fulfillment] ⚠️ ${label}: booked but not marked acquired - ${unsettled}`);
+          await this.audit('booking_request.settle_failed', request, 'failure', unsettled);
+          await telegram.notifyFulfillmentUnsettled(
+            request.restaurant_name,
+            `${client.first_name} ${client.last_name}`,
+            `${lastResult.confirmationCode || 'confirmed'} (${target.platform})`,
+            unsettled
+          );
+          return 'unsettled';
+        }
+        return 'acquired';
+      }
+    }
+
+    const reason = lastResult?.error || 'No table found';
+    if (request.attempts >= envInt('FULFILLMENT_MAX_ATTEMPTS', 50)) {
+      await this.settle(request, 'failed', { failureReason: `Gave up after ${request.attempts} attempts: ${reason}` });
+      await clientManager.recordFailedAttempt(client.id);
+      console.log(`[Fulfillment] ❌ ${label}: giving up - ${reason}`);
+      return 'failed';
+    }
+
+    await this.settle(request, 'pending', { failureReason: reason });
+    return 'requeued';
+  }
+
+  /**
+   * Which platforms/venues to try: the request's own platform + venue_id,
+   * otherwise the ids stored on a portfolio item for the same restaurant
+   */
+  private async resolveTargets(request: ClientBookingRequest): Promise<VenueTarget[]> {
+    const platform = request.platform?.toLowerCase() as Platform | undefined;
+
+    if (platform && request.venue_id) {
+      const target = this.toTarget(platform, request.venue_id);
+      return target ? [target] : [];
+    }
+
+    const adapters = listAdapters();
+    const columns = adapters.map(a => a.venue.itemColumn);
+    const known = await pool!.query(
+      `SELECT ${columns.join(', ')}
+       FROM portfolio_items
+       WHERE LOWER(restaurant_name) = LOWER($1)
+         AND COALESCE(${columns.map(c => `${c}::text`).join(', ')}) IS NOT NULL
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [request.restaurant_name]
+    );
+    const ids = known.rows[0];
+    if (!ids) return [];
+
+    return adapters
+      .filter(a => !platform || a.id === platform)
+      .map(a => (ids[a.venue.itemColumn] ? this.toTarget(a.id, String(ids[a.venue.itemColumn])) : null))
+      .filter((t): t is VenueTarget => t !== null);
+  }
+
+  private toTarget(platform: Platform, venueId: string): VenueTarget | null {
+    const adapter = getAdapter(platform);
+    if (!adapter) return null;
+
+    const { requestField, numeric } = adapter.venue;
+    if (numeric && !Number(venueId)) return null;
+    return { platform: adapter.id, [requestField]: numeric ? Number(venueId) : venueId } as VenueTarget;
+  }
+
+  private async settle(
+    request: ClientBookingRequest,
+    status: 'pending' | 'acquired' | 'failed',
+    details: { transferId?: number; failureReason?: string }
+  ): Promise<ClientBookingRequest | null> {
+    const settled = await clientManager.settleBookingRequest(request.id, status, details);
+    if (status !== 'pending') {
+      await this.audit(
+        `booking_request.${status}`,
+        settled || request,
+        status === 'acquired' ? 'success' : 'failure',
+        details.failureReason
+      );
+    }
+    return settled;
+  }
+
+  /**
+   * Mark a booked request acquired. Returns why it couldn't be, or null.
+   * A failed write is kept for retrySettles - left 'searching', the
+   * request would be recovered as stale and booked a second time.
+   */
+  private async settleAcquired(request: ClientBookingRequest, transferId?: number): Promise<string | null> {
+    try {
+      const settled = await this.settle(request, 'acquired', { transferId });
+      return settled ? null : 'The request was closed while it was being booked';
+    } catch (error: any) {
+      this.pendingSettles.set(request.id, { request, transferId });
+      return `Could not mark the request acquired (retrying every pass): ${error.message}`;
+    }
+  }
+
+  private async retrySettles(): Promise<void> {
+    for (const [id, { request, transferId }] of this.pendingSettles) {
+      try {
+        await this.settle(request, 'acquired', { transferId });
+        this.pendingSettles.delete(id);
+        console.log(`[Fulfillment] ✅ Request ${id} marked acquired on retry`);
+      } catch (error: any) {
+        console.error(`[Fulfillment] ⚠️ Request ${id} still not marked acquired:`, error.message);
+      }
+    }
+  }
+
+  private audit(action: string, request: ClientBookingRequest, outcome: 'success' | 'failure', error?: string) {
+    return auditLog.record({
+      action,
+      outcome,
+      actor: FULFILLMENT_ACTOR,
+      platform: request.platform,
+      clientId: request.client_id,
+      transferId: request.transfer_id ?? null,
+      request: { requestId: request.id, restaurantName: request.restaurant_name, attempts: request.attempts },
+      error: error ?? null,
+    });
+  }
+}
+
+export default new FulfillmentWorker();
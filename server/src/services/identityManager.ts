@@ -4,9 +4,14 @@
  * Manages multiple booking identities for platform rotation.
  * Tracks usage per identity and auto-selects the best identity
  * for each booking to stay under platform detection thresholds.
+ *
+ * Platform secrets are encrypted at rest (see credentialVault.ts). Identities
+ * returned from here still carry ciphertext - getPlatformCredentials()
+ * decrypts them right before use.
  */
 
 import pool from '../db';
+import credentialVault from './credentialVault';
 
 export interface BookingIdentity {
   id: number;
@@ -97,33 +102,39 @@ class IdentityManager {
     const usageColumn = columnMap[platform];
     const credCheck = credentialChecks[platform];
     
+    // Skip credentials the health monitor knows are dead (see credentialHealth.ts)
     const result = await pool.query(`
-      SELECT * FROM booking_identities 
-      WHERE is_active = true 
+      SELECT i.* FROM booking_identities i
+      LEFT JOIN credential_health h ON h.identity_id = i.id AND h.platform = $1
+      WHERE i.is_active = true 
         AND ${credCheck}
         AND ${usageColumn} < monthly_limit
+        AND h.status IS DISTINCT FROM 'invalid'
+        AND (h.expires_at IS NULL OR h.expires_at > NOW())
       ORDER BY ${usageColumn} ASC, last_booking_date ASC NULLS FIRST
       LIMIT 1
-    `);
+    `, [platform]);
     
     return result.rows[0] || null;
   }
   
   /**
-   * Get credentials for a specific platform from an identity
+   * Get credentials for a specific platform from an identity (decrypted)
    */
   getPlatformCredentials(identity: BookingIdentity, platform: Platform): Record<string, string> {
+    const secret = (value?: string) => value ? credentialVault.decrypt(value) : '';
+
     switch (platform) {
       case 'resy':
         return {
-          authToken: identity.resy_auth_token || '',
-          paymentId: identity.resy_payment_id || '',
-          apiKey: identity.resy_api_key || 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5'
+          authToken: secret(identity.resy_auth_token),
+          paymentId: secret(identity.resy_payment_id),
+          apiKey: secret(identity.resy_api_key) || 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5'
         };
       case 'opentable':
         return {
-          csrfToken: identity.opentable_csrf_token || '',
-          sessionCookie: identity.opentable_session_cookie || '',
+          csrfToken: secret(identity.opentable_csrf_token),
+          sessionCookie: secret(identity.opentable_session_cookie),
           gpid: identity.opentable_gpid || ''
         };
       case 'sevenrooms':
@@ -135,7 +146,7 @@ class IdentityManager {
         };
       case 'tock':
         return {
-          authToken: identity.tock_auth_token || '',
+          authToken: secret(identity.tock_auth_token),
           email: identity.tock_email || '',
           phone: identity.tock_phone || ''
         };
@@ -175,8 +186,9 @@ class IdentityManager {
   /**
    * Create a new identity
    */
-  async createIdentity(data: Partial<BookingIdentity>): Promise<BookingIdentity> {
+  async createIdentity(input: Partial<BookingIdentity>): Promise<BookingIdentity> {
     if (!pool) throw new Error('Database pool not initialized');
+    const data = credentialVault.encryptFields(input);
     const result = await pool.query(`
       INSERT INTO booking_identities (
         name, email, phone,
@@ -193,7 +205,7 @@ class IdentityManager {
       data.phone,
       data.resy_auth_token,
       data.resy_payment_id,
-      data.resy_api_key || 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5',
+      data.resy_api_key,  // null = Resy's public web key (see getPlatformCredentials)
       data.opentable_csrf_token,
       data.opentable_session_cookie,
       data.opentable_gpid,
@@ -213,9 +225,11 @@ class IdentityManager {
   
   /**
    * Update an existing identity
+   * Blank or masked secrets keep the stored value; null clears it.
    */
-  async updateIdentity(id: number, data: Partial<BookingIdentity>): Promise<BookingIdentity | null> {
+  async updateIdentity(id: number, input: Partial<BookingIdentity>): Promise<BookingIdentity | null> {
     if (!pool) throw new Error('Database pool not initialized');
+    const data = credentialVault.encryptFields(input);
     
     const fields: string[] = [];
     const values: any[] = [];
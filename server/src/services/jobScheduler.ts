@@ -0,0 +1,612 @@
+/**
+ * Job Scheduler
+ *
+ * Runs the recurring housekeeping jobs on a schedule, whether or not
+ * anyone calls the endpoints:
+ * - daily-summary          Telegram daily summary
+ * - weekly-pnl             Telegram weekly P&L digest
+ * - reset-monthly-counts   identityManager.resetMonthlyCounts on the 1st
+ * - validate-identities    credentialValidator.validateAllIdentities nightly,
+ *                          then credential re-auth alerts
+ * - reconcile-reservations reservationSync.reconcile: platform accounts vs.
+ *                          transfers, imports and missing reservations
+ * - price-update-<city>    priceScraper.runPriceUpdate, one job per city
+ * - retrain-price-model    priceModel.train on the day's sales and prices
+ *
+ * Schedules use the drop rule format ("Daily at 9:00 PM", "Every Monday
+ * at 8:00 AM", "Monthly on 1st at 12:05 AM") in JOBS_TIMEZONE. Each can
+ * be changed with JOB_<NAME>_SCHEDULE (or "off"), or from the dashboard
+ * via PUT /api/jobs/:name, which wins over the env.
+ *
+ * State lives in scheduled_jobs / job_runs (migration 012):
+ * - A lease on the job row means only one process runs a job at a time
+ * - A run missed while the server was down happens once on the next boot
+ * - Failures alert on Telegram (and again when the job recovers)
+ */
+
+import os from 'os';
+import pool from '../db';
+import * as telegram from '../sniper/telegram';
+import auditLog, { AuditActor, SCHEDULER_ACTOR } from './auditLog';
+import digestReports from './digestReports';
+import identityManager from './identityManager';
+import credentialValidator from './credentialValidator';
+import credentialHealth from './credentialHealth';
+import reservationSync from './reservationSync';
+import { runPriceUpdate } from './priceScraper';
+import priceModel from './priceModel';
+import { ScheduledDropRule, DropRule, toDropRule, getNextDrop, describeDropRule } from '../shared/dropRules';
+import { DEFAULT_DROP_TIMEZONE } from '../shared/dropTime';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type JobSchedule = ScheduledDropRule;
+export type JobTrigger = 'schedule' | 'manual';
+export type JobRunStatus = 'running' | 'success' | 'failed';
+
+export interface JobResult {
+  summary?: string;         // One line for the dashboard and alerts
+  [key: string]: unknown;
+}
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string;         // Default schedule, e.g. "Daily at 9:00 PM"
+  run: () => Promise<JobResult | void>;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: JobSchedule;
+  scheduleText: string;
+  scheduleSource: 'default' | 'env' | 'override';
+  enabled: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastStatus: JobRunStatus | null;
+  lastError: string | null;
+  lastDurationMs: number | null;
+  lastResult: JobResult | null;
+  consecutiveFailures: number;
+}
+
+export interface JobRun {
+  id: number;
+  job_name: string;
+  trigger_type: JobTrigger;
+  triggered_by: string | null;
+  status: JobRunStatus;
+  started_at: Date;
+  finished_at: Date | null;
+  duration_ms: number | null;
+  result: JobResult | null;
+  error: string | null;
+}
+
+interface ScheduledJobRow {
+  name: string;
+  schedule: DropRule | null;
+  enabled: boolean | null;
+  next_run_at: Date | null;
+  lease_owner: string | null;
+  lease_expires_at: Date | null;
+  last_run_at: Date | null;
+  last_status: JobRunStatus | null;
+  last_error: string | null;
+  last_duration_ms: number | null;
+  last_result: JobResult | null;
+  consecutive_failures: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Identifies this process as a lease holder
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// Longest a job may hold its row; a crashed run frees the job after this
+const JOB_LEASE_MINUTES = 30;
+
+const TICK_SECONDS = parseInt(process.env.JOBS_TICK_SECONDS || '30', 10) || 30;
+
+const jobsTimezone = () => process.env.JOBS_TIMEZONE || DEFAULT_DROP_TIMEZONE;
+
+const envKey = (name: string) => `JOB_${name.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_SCHEDULE`;
+
+const getPool = () => {
+  if (!pool) throw new Error('Database pool not initialized');
+  return pool;
+};
+
+/**
+ * Read a schedule from text ("Daily at 9:00 PM") or a drop rule object.
+ * Throws when it isn't a daily, weekly or monthly rule.
+ */
+export const parseJobSchedule = (value: unknown): JobSchedule => {
+  let rule: DropRule | null;
+  try {
+    rule = toDropRule(value, jobsTimezone());
+  } catch (error: any) {
+    throw new Error(`Invalid schedule: ${error.message}`);
+  }
+  if (!rule || rule.kind === 'manual') {
+    throw new Error(
+      `Can't read schedule "${typeof value === 'string' ? value : JSON.stringify(value)}" - ` +
+      'use e.g. "Daily at 9:00 PM", "Every Monday at 8:00 AM" or "Monthly on 1st at 12:05 AM"'
+    );
+  }
+  // Drop rules also say which reservation dates open; jobs only need the when
+  const { description, ...schedule } = rule;
+  return schedule as JobSchedule;
+};
+
+// "Every Monday at 8:00 AM (America/New_York), for the following month" -> without the tail
+const describeSchedule = (schedule: JobSchedule): string =>
+  describeDropRule(schedule).replace(/, (for|\d+ days in advance).*$/, '');
+
+// ============================================
+// SCHEDULER
+// ============================================
+
+class JobScheduler {
+  private jobs: Map<string, JobDefinition> = new Map();
+  private tickInterval: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private inFlight: Set<string> = new Set();
+
+  register(job: JobDefinition): void {
+    parseJobSchedule(job.schedule); // Fail fast on a typo in a default
+    this.jobs.set(job.name, job);
+  }
+
+  getDefinitions(): JobDefinition[] {
+    return Array.from(this.jobs.values());
+  }
+
+  isRunning(): boolean {
+    return this.tickInterval !== null;
+  }
+
+  // =====================================================
+  // LIFECYCLE
+  // =====================================================
+
+  async start(): Promise<void> {
+    if (this.tickInterval) return;
+    if (!pool) {
+      console.warn('[Jobs] Database not connected - scheduled jobs will not run');
+      return;
+    }
+
+    await this.sync();
+    this.tickInterval = setInterval(() => { void this.tick(); }, TICK_SECONDS * 1000);
+    console.log(`[Jobs] 🟢 ${this.jobs.size} scheduled job(s), checking every ${TICK_SECONDS}s`);
+    void this.tick();
+  }
+
+  stop(): void {
+    if (!this.tickInterval) return;
+    clearInterval(this.tickInterval);
+    this.tickInterval = null;
+    console.log('[Jobs] 🔴 Stopped');
+  }
+
+  /**
+   * Make sure every registered job has a row and a next run. Future slots
+   * are recomputed (the env schedule may have changed); past-due slots are
+   * kept so a run missed while the server was down still happens once.
+   */
+  async sync(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      await getPool().query(
+        `INSERT INTO scheduled_jobs (name) VALUES ($1) ON CONFLICT (name) DO NOTHING`,
+        [job.name]
+      );
+      const row = await this.getRow(job.name);
+      if (!row.next_run_at || row.next_run_at.getTime() > Date.now()) {
+        await this.setNextRun(job.name, this.computeNextRun(job, row));
+      }
+    }
+  }
+
+  // =====================================================
+  // EXECUTION
+  // =====================================================
+
+  /**
+   * Run every job whose slot has come. Overlapping ticks are skipped.
+   */
+  async tick(): Promise<JobRun[]> {
+    const runs: JobRun[] = [];
+    if (this.ticking || !pool) return runs;
+    this.ticking = true;
+
+    try {
+      const due = await pool.query<ScheduledJobRow>(`
+        SELECT * FROM scheduled_jobs
+        WHERE next_run_at <= NOW()
+          AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+        ORDER BY next_run_at ASC
+      `);
+
+      for (const row of due.rows) {
+        const job = this.jobs.get(row.name);
+        if (!job) continue; // Registered by another build - leave it alone
+
+        const nextRunAt = this.computeNextRun(job, row);
+        if (!this.isEnabled(job, row)) {
+          await this.setNextRun(job.name, nextRunAt);
+          continue;
+        }
+
+        // Moving next_run_at in the same statement means the slot runs once
+        const claimed = await this.claim(job.name, nextRunAt ?? undefined);
+        if (claimed) {
+          runs.push(await this.execute(job, 'schedule', SCHEDULER_ACTOR));
+        }
+      }
+    } catch (error: any) {
+      console.error('[Jobs] ❌ Tick failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+
+    return runs;
+  }
+
+  /**
+   * Run a job now, outside its schedule. Resolves to null if it is already
+   * running somewhere.
+   */
+  async runNow(name: string, actor: AuditActor): Promise<JobRun | null> {
+    const job = this.requireJob(name);
+    await this.sync();
+    const claimed = await this.claim(name);
+    if (!claimed) return null;
+    return this.execute(job, 'manual', actor);
+  }
+
+  private async claim(name: string, nextRunAt?: Date | null): Promise<boolean> {
+    const result = await getPool().query(`
+      UPDATE scheduled_jobs
+      SET lease_owner = $2,
+          lease_expires_at = NOW() + make_interval(mins => $3),
+          next_run_at = CASE WHEN $4::boolean THEN $5::timestamptz ELSE next_run_at END,
+          updated_at = NOW()
+      WHERE name = $1
+        AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+        AND (NOT $4::boolean OR next_run_at <= NOW())
+      RETURNING name
+    `, [name, WORKER_ID, JOB_LEASE_MINUTES, nextRunAt !== undefined, nextRunAt ?? null]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  private async execute(job: JobDefinition, trigger: JobTrigger, actor: AuditActor): Promise<JobRun> {
+    const db = getPool();
+    const started = Date.now();
+    this.inFlight.add(job.name);
+
+    const inserted = await db.query<JobRun>(
+      `INSERT INTO job_runs (job_name, trigger_type, triggered_by) VALUES ($1, $2, $3) RETURNING *`,
+      [job.name, trigger, actor.actor]
+    );
+    const runId = inserted.rows[0].id;
+    console.log(`[Jobs] ▶️ ${job.name} (${trigger === 'manual' ? `run by ${actor.actor}` : 'scheduled'})`);
+
+    let result: JobResult | null = null;
+    let error: string | null = null;
+    try {
+      result = (await job.run()) || null;
+    } catch (err: any) {
+      error = err?.message || String(err);
+    }
+
+    const status: JobRunStatus = error ? 'failed' : 'success';
+    const duration = Date.now() - started;
+    this.inFlight.delete(job.name);
+
+    const finished = await db.query<JobRun>(`
+      UPDATE job_runs
+      SET status = $2, finished_at = NOW(), duration_ms = $3, result = $4, error = $5
+      WHERE id = $1
+      RETURNING *
+    `, [runId, status, duration, result ? JSON.stringify(result) : null, error]);
+
+    const previous = await this.getRow(job.name);
+    await db.query(`
+      UPDATE scheduled_jobs
+      SET lease_owner = NULL,
+          lease_expires_at = NULL,
+          last_run_at = NOW(),
+          last_status = $2::varchar,
+          last_error = $3,
+          last_duration_ms = $4,
+          last_result = $5,
+          consecutive_failures = CASE WHEN $2::varchar = 'failed' THEN consecutive_failures + 1 ELSE 0 END,
+          updated_at = NOW()
+      WHERE name = $1
+    `, [job.name, status, error, duration, result ? JSON.stringify(result) : null]);
+
+    if (error) {
+      const failures = previous.consecutive_failures + 1;
+      console.error(`[Jobs] ❌ ${job.name} failed after ${duration}ms: ${error}`);
+      await telegram.notifyJobStatus(job.name, true, error, failures);
+    } else {
+      console.log(`[Jobs] ✅ ${job.name} done in ${duration}ms${result?.summary ? ` - ${result.summary}` : ''}`);
+      if (previous.consecutive_failures > 0) {
+        await telegram.notifyJobStatus(job.name, false, '', previous.consecutive_failures);
+      }
+    }
+
+    if (trigger === 'manual' || error) {
+      await auditLog.record({
+        action: trigger === 'manual' ? 'job.run' : 'job.failed',
+        outcome: error ? 'failure' : 'success',
+        actor,
+        request: { job: job.name, trigger },
+        response: result,
+        error,
+      });
+    }
+
+    return finished.rows[0];
+  }
+
+  // =====================================================
+  // CONFIGURATION
+  // =====================================================
+
+  /**
+   * Override a job's schedule and/or enabled flag. null clears the
+   * override (back to the env or built-in default).
+   */
+  async updateJob(
+    name: string,
+    changes: { schedule?: unknown; enabled?: boolean | null }
+  ): Promise<JobStatus> {
+    const job = this.requireJob(name);
+    await this.sync();
+
+    const schedule = changes.schedule === undefined || changes.schedule === null
+      ? changes.schedule
+      : parseJobSchedule(changes.schedule);
+
+    await getPool().query(`
+      UPDATE scheduled_jobs
+      SET schedule = CASE WHEN $2::boolean THEN $3::jsonb ELSE schedule END,
+          enabled = CASE WHEN $4::boolean THEN $5::boolean ELSE enabled END,
+          updated_at = NOW()
+      WHERE name = $1
+    `, [
+      name,
+      schedule !== undefined,
+      schedule ? JSON.stringify(schedule) : null,
+      changes.enabled !== undefined,
+      changes.enabled ?? null,
+    ]);
+
+    const row = await this.getRow(name);
+    await this.setNextRun(name, this.computeNextRun(job, row));
+    return this.toStatus(job, await this.getRow(name));
+  }
+
+  // =====================================================
+  // STATUS
+  // =====================================================
+
+  async getJobs(): Promise<JobStatus[]> {
+    await this.sync();
+    const rows = await getPool().query<ScheduledJobRow>('SELECT * FROM scheduled_jobs');
+    const byName = new Map(rows.rows.map(row => [row.name, row]));
+
+    return this.getDefinitions().map(job => this.toStatus(job, byName.get(job.name)!));
+  }
+
+  async getJob(name: string): Promise<JobStatus | null> {
+    const job = this.jobs.get(name);
+    if (!job) return null;
+    await this.sync();
+    return this.toStatus(job, await this.getRow(name));
+  }
+
+  async getRuns(name: string, limit: number = 20): Promise<JobRun[]> {
+    const result = await getPool().query<JobRun>(
+      `SELECT * FROM job_runs WHERE job_name = $1 ORDER BY started_at DESC, id DESC LIMIT $2`,
+      [name, Math.min(Math.max(limit, 1), 200)]
+    );
+    return result.rows;
+  }
+
+  // =====================================================
+  // HELPERS
+  // =====================================================
+
+  private requireJob(name: string): JobDefinition {
+    const job = this.jobs.get(name);
+    if (!job) throw new Error(`Unknown job: ${name}`);
+    return job;
+  }
+
+  private async getRow(name: string): Promise<ScheduledJobRow> {
+    const result = await getPool().query<ScheduledJobRow>('SELECT * FROM scheduled_jobs WHERE name = $1', [name]);
+    return result.rows[0];
+  }
+
+  private async setNextRun(name: string, nextRunAt: Date | null): Promise<void> {
+    await getPool().query(
+      `UPDATE scheduled_jobs SET next_run_at = $2, updated_at = NOW() WHERE name = $1`,
+      [name, nextRunAt]
+    );
+  }
+
+  /**
+   * Dashboard override, then JOB_<NAME>_SCHEDULE, then the built-in default.
+   * "off" in the env disables the job unless the dashboard re-enables it.
+   */
+  private resolveSchedule(job: JobDefinition, row?: ScheduledJobRow): {
+    schedule: JobSchedule;
+    source: JobStatus['scheduleSource'];
+    envOff: boolean;
+  } {
+    const env = process.env[envKey(job.name)]?.trim();
+    const envOff = env?.toLowerCase() === 'off';
+
+    if (row?.schedule) {
+      return { schedule: parseJobSchedule(row.schedule), source: 'override', envOff };
+    }
+    if (env && !envOff) {
+      try {
+        return { schedule: parseJobSchedule(env), source: 'env', envOff };
+      } catch (error: any) {
+        console.warn(`[Jobs] ⚠️ Ignoring ${envKey(job.name)}: ${error.message}`);
+      }
+    }
+    return { schedule: parseJobSchedule(job.schedule), source: 'default', envOff };
+  }
+
+  private isEnabled(job: JobDefinition, row?: ScheduledJobRow): boolean {
+    if (row?.enabled !== null && row?.enabled !== undefined) return row.enabled;
+    return !this.resolveSchedule(job, row).envOff;
+  }
+
+  private computeNextRun(job: JobDefinition, row?: ScheduledJobRow): Date | null {
+    return getNextDrop(this.resolveSchedule(job, row).schedule)?.instant ?? null;
+  }
+
+  private toStatus(job: JobDefinition, row: ScheduledJobRow): JobStatus {
+    const { schedule, source } = this.resolveSchedule(job, row);
+    const enabled = this.isEnabled(job, row);
+    return {
+      name: job.name,
+      description: job.description,
+      schedule,
+      scheduleText: describeSchedule(schedule),
+      scheduleSource: source,
+      enabled,
+      running: this.inFlight.has(job.name)
+        || (!!row.lease_expires_at && row.lease_expires_at.getTime() > Date.now()),
+      nextRunAt: enabled ? row.next_run_at?.toISOString() ?? null : null,
+      lastRunAt: row.last_run_at?.toISOString() ?? null,
+      lastStatus: row.last_status,
+      lastError: row.last_error,
+      lastDurationMs: row.last_duration_ms,
+      lastResult: row.last_result,
+      consecutiveFailures: row.consecutive_failures,
+    };
+  }
+}
+
+// ============================================
+// BUILT-IN JOBS
+// ============================================
+
+// PRICE_UPDATE_CITIES: comma-separated, as stored in restaurants.city
+const priceUpdateCities = (): string[] =>
+  (process.env.PRICE_UPDATE_CITIES || 'New York City')
+    .split(',')
+    .map(city => city.trim())
+    .filter(Boolean);
+
+const citySlug = (city: string) => city.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const BUILT_IN_JOBS: JobDefinition[] = [
+  {
+    name: 'daily-summary',
+    description: "Telegram summary of today's acquisitions, sales and pending transfers",
+    schedule: 'Daily at 9:00 PM',
+    run: async () => {
+      const stats = await digestReports.getDailySummary();
+      await telegram.notifyDailySummary(stats);
+      return { summary: `${stats.acquisitions} acquired, ${stats.sales} sold ($${stats.revenue})`, stats };
+    },
+  },
+  {
+    name: 'weekly-pnl',
+    description: 'Telegram P&L digest for the past 7 days',
+    schedule: 'Every Monday at 8:00 AM',
+    run: async () => {
+      const report = await digestReports.getWeeklyPnl();
+      await telegram.notifyWeeklyPnl(report);
+      return { summary: `$${report.profit.toFixed(0)} profit on ${report.sales} sales`, report };
+    },
+  },
+  {
+    name: 'reset-monthly-counts',
+    description: 'Reset every identity\'s monthly booking counts',
+    schedule: 'Monthly on 1st at 12:05 AM',
+    run: async () => {
+      await identityManager.resetMonthlyCounts();
+      return { summary: 'Monthly booking counts reset' };
+    },
+  },
+  {
+    name: 'validate-identities',
+    description: 'Check every identity\'s platform credentials still work',
+    schedule: 'Daily at 3:00 AM',
+    run: async () => {
+      const results = await credentialValidator.validateAllIdentities();
+      const incomplete = results.filter(r => r.validPlatforms < r.totalPlatforms);
+      const alerts = await credentialHealth.sendAlerts();
+      return {
+        summary: `${results.length - incomplete.length}/${results.length} identities fully valid`,
+        alerts,
+        invalid: incomplete.map(r => ({
+          id: r.id,
+          name: r.name,
+          platforms: r.details.filter(d => !d.valid).map(d => d.platform),
+        })),
+      };
+    },
+  },
+  {
+    name: 'reconcile-reservations',
+    description: 'Reconcile platform account reservations with transfers and the portfolio',
+    schedule: 'Daily at 7:00 AM',
+    run: async () => {
+      const report = await reservationSync.reconcile('schedule', SCHEDULER_ACTOR);
+      const failed = report.accounts.filter(a => a.error);
+      if (failed.length > 0) {
+        throw new Error(`Couldn't read ${failed.map(a => `${a.platform} (${a.account}): ${a.error}`).join('; ')} - see report #${report.id}`);
+      }
+      return { summary: report.summary, reportId: report.id };
+    },
+  },
+  {
+    name: 'retrain-price-model',
+    description: 'Retrain the price model on realized sales, competitor listings and market prices',
+    schedule: 'Daily at 8:00 AM',  // After the price updates and reconciliation
+    run: async () => {
+      const { model, reason } = await priceModel.train();
+      if (!model) return { summary: `Not retrained: ${reason}` };
+      return {
+        summary: `Price model v${model.version} trained on ${model.trainingRows} rows`,
+        version: model.version,
+        metrics: model.metrics,
+      };
+    },
+  },
+  ...priceUpdateCities().map((city): JobDefinition => ({
+    name: `price-update-${citySlug(city)}`,
+    description: `Scrape AppointmentTrader prices for ${city}`,
+    schedule: 'Daily at 6:00 AM',
+    run: async () => {
+      const result = await runPriceUpdate(city);
+      if (!result.success) {
+        const error: any = result.error;
+        throw new Error(error?.message || String(error));
+      }
+      return { summary: `${result.updated} prices updated`, city, updated: result.updated };
+    },
+  })),
+];
+
+const jobScheduler = new JobScheduler();
+BUILT_IN_JOBS.forEach(job => jobScheduler.register(job));
+
+export default jobScheduler;
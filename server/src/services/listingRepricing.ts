@@ -0,0 +1,756 @@
+/**
+ * Listing Repricing
+ *
+ * A listed reservation is worth nothing after the dinner date, so its AT
+ * price steps down as the date approaches instead of staying where
+ * markAsListed put it:
+ * - Each step is a percentage off the listed price from a number of hours
+ *   before the reservation (default: 10% at T-72h, 25% at T-24h)
+ * - Never above the cheapest competing listing (competitionMonitor), so
+ *   we stay the one buyers see first
+ * - Never below the floor: the listing's own, else the cost basis
+ * - Each drop is proposed on Telegram with approve/reject buttons (or
+ *   applied straight away with an undo button, if the rule says so)
+ *
+ * Every listing price lands in listing_price_changes (migration 020) -
+ * listed, set by hand, decayed or reverted - and is audited. Any applied
+ * change can be reverted while the price is still what it set.
+ *
+ * AppointmentTrader has no API for this: a change updates our records
+ * and the Telegram message says what to set on AT.
+ *
+ * Env:
+ *   REPRICING_STEPS=72:10,24:25      default schedule, hours:percentOff ("off": listings
+ *                                    without their own rule aren't repriced)
+ *   REPRICING_AUTO_APPROVE=false     apply default-schedule drops without asking
+ *   REPRICING_UNDERCUT=5             go this many dollars under the cheapest competitor
+ *   REPRICING_POLL_SECONDS=900       how often to check listings
+ *   REPRICING_WATCH_ON_BOOT=false    don't start the watch loop with the server
+ */
+
+import pool from '../db';
+import { PoolClient } from 'pg';
+import type { Transfer } from './transferTracker';
+import { toWallClockTime } from './transferTracker';
+import competitionMonitor from './competitionMonitor';
+import auditLog, { AuditActor } from './auditLog';
+import * as telegram from '../sniper/telegram';
+import { normalizeDate } from '../shared/dropTime';
+
+const REPRICING_ACTOR: AuditActor = { source: 'system', actor: 'repricing' };
+const MIN_PRICE = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RepricingStep {
+  hoursBefore: number;            // From this long before the reservation...
+  percentOff: number;             // ...ask this much less than the listed price
+}
+
+export interface RepricingRule {
+  transferId: number;
+  enabled: boolean;
+  steps: RepricingStep[];
+  floorPrice: number | null;      // null: the cost basis
+  followMarket: boolean;
+  autoApprove: boolean;
+  source: 'listing' | 'default';
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export type RepricingRuleInput = Partial<Pick<RepricingRule, 'enabled' | 'steps' | 'floorPrice' | 'followMarket' | 'autoApprove'>>;
+
+export type PriceChangeKind = 'listed' | 'manual' | 'decay' | 'revert';
+export type PriceChangeStatus = 'proposed' | 'applied' | 'rejected' | 'expired' | 'reverted';
+
+export interface MarketSnapshot {
+  cheapest: number;
+  average: number;
+  activeListings: number;
+}
+
+export interface DecayDetails {
+  hoursLeft: number;
+  basePrice: number;              // The listed price the step is taken off
+  percentOff: number;
+  target: number;                 // Before market and floor
+  market: MarketSnapshot | null;
+  floor: number;
+  floorSource: 'rule' | 'cost_basis' | 'minimum';
+  limitedBy: 'schedule' | 'market' | 'floor';
+}
+
+export interface PriceChange {
+  id: number;
+  transferId: number;
+  kind: PriceChangeKind;
+  status: PriceChangeStatus;
+  oldPrice: number | null;
+  newPrice: number;
+  stepHours: number | null;
+  revertsId: number | null;
+  details: DecayDetails | null;
+  requestedBy: string;
+  decidedBy: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+}
+
+export type RepricingFailure = 'not_found' | 'not_pending' | 'not_listed' | 'stale' | 'not_revertible';
+
+export interface RepricingResult {
+  success: boolean;
+  change?: PriceChange;
+  error?: string;
+  code?: RepricingFailure;
+}
+
+export interface RepricingRunResult {
+  proposed: number;
+  applied: number;
+  expired: number;
+}
+
+export interface RepricingStatus {
+  isRunning: boolean;
+  pollSeconds: number;
+  defaultSteps: RepricingStep[];
+  autoApprove: boolean;
+  lastRunAt: string | null;
+  lastRun: RepricingRunResult | null;
+}
+
+export class InvalidRepricingRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRepricingRuleError';
+  }
+}
+
+// ============================================
+// SCHEDULE
+// ============================================
+
+/**
+ * "72:10,24:25" → steps, latest-firing last. Throws on anything else.
+ */
+export const parseSteps = (text: string): RepricingStep[] =>
+  validateSteps(text.split(',').map(part => {
+    const [hours, percent] = part.trim().split(':');
+    return { hoursBefore: Number(hours), percentOff: Number(percent) };
+  }));
+
+const validateSteps = (steps: unknown): RepricingStep[] => {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new InvalidRepricingRuleError('steps must be a non-empty list of { hoursBefore, percentOff }');
+  }
+  const valid = steps.map((step: any) => {
+    if (!Number.isInteger(step?.hoursBefore) || step.hoursBefore <= 0) {
+      throw new InvalidRepricingRuleError('hoursBefore must be a whole number of hours greater than 0');
+    }
+    if (typeof step.percentOff !== 'number' || !(step.percentOff > 0 && step.percentOff < 100)) {
+      throw new InvalidRepricingRuleError('percentOff must be between 0 and 100');
+    }
+    return { hoursBefore: step.hoursBefore, percentOff: step.percentOff };
+  });
+  if (new Set(valid.map(s => s.hoursBefore)).size !== valid.length) {
+    throw new InvalidRepricingRuleError('Two steps have the same hoursBefore');
+  }
+  return valid.sort((a, b) => b.hoursBefore - a.hoursBefore);
+};
+
+/**
+ * The step in effect with `hoursLeft` to go (the latest one that has
+ * fired), unless it's been handled already
+ */
+export const dueStep = (steps: RepricingStep[], hoursLeft: number, handled: Set<number>): RepricingStep | null => {
+  const fired = steps.filter(s => hoursLeft <= s.hoursBefore);
+  if (fired.length === 0) return null;
+  const latest = fired.reduce((a, b) => (b.hoursBefore < a.hoursBefore ? b : a));
+  return handled.has(latest.hoursBefore) ? null : latest;
+};
+
+/**
+ * What a step would ask: its target, no higher than just under the
+ * cheapest competitor, no lower than the floor; rounded down to $5.
+ * Null when that's no lower than the current price.
+ */
+export const decayPrice = (input: {
+  step: RepricingStep;
+  hoursLeft: number;
+  basePrice: number;
+  currentPrice: number;
+  market: MarketSnapshot | null;
+  floor: number;
+  floorSource: DecayDetails['floorSource'];
+  undercut: number;
+}): { price: number; details: DecayDetails } | null => {
+  const target = input.basePrice * (1 - input.step.percentOff / 100);
+  let price = target;
+  let limitedBy: DecayDetails['limitedBy'] = 'schedule';
+
+  const competitive = input.market && input.market.activeListings > 0 && input.market.cheapest > 0
+    ? input.market.cheapest - input.undercut
+    : null;
+  if (competitive !== null && competitive < price) {
+    price = competitive;
+    limitedBy = 'market';
+  }
+
+  price = Math.floor(price / 5) * 5;
+  if (price < input.floor) {
+    price = input.floor;
+    limitedBy = 'floor';
+  }
+  if (price >= input.currentPrice) return null;
+
+  return {
+    price,
+    details: {
+      hoursLeft: Math.round(input.hoursLeft),
+      basePrice: input.basePrice,
+      percentOff: input.step.percentOff,
+      target: Math.round(target * 100) / 100,
+      market: input.market,
+      floor: input.floor,
+      floorSource: input.floorSource,
+      limitedBy,
+    },
+  };
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toChange = (row: any): PriceChange => ({
+  id: row.id,
+  transferId: row.transfer_id,
+  kind: row.kind,
+  status: row.status,
+  oldPrice: row.old_price === null ? null : Number(row.old_price),
+  newPrice: Number(row.new_price),
+  stepHours: row.step_hours,
+  revertsId: row.reverts_id,
+  details: row.details,
+  requestedBy: row.requested_by,
+  decidedBy: row.decided_by,
+  createdAt: new Date(row.created_at).toISOString(),
+  decidedAt: row.decided_at ? new Date(row.decided_at).toISOString() : null,
+});
+
+const reservationTime = (transfer: Pick<Transfer, 'reservation_date' | 'reservation_time'>): Date =>
+  new Date(`${normalizeDate(transfer.reservation_date)}T${toWallClockTime(transfer.reservation_time) || '00:00'}:00`);
+
+const describeReservation = (transfer: Transfer): string =>
+  `${normalizeDate(transfer.reservation_date)} ${transfer.reservation_time}, party of ${transfer.party_size}`;
+
+const describeDecay = (change: PriceChange): string[] => {
+  const d = change.details!;
+  const lines = [`${d.percentOff}% off the listed $${d.basePrice} at T-${change.stepHours}h (${d.hoursLeft}h to go)`];
+  if (d.market) {
+    lines.push(`Cheapest competitor: $${d.market.cheapest} (${d.market.activeListings} active, avg $${Math.round(d.market.average)})`);
+  }
+  const floorLabel = d.floorSource === 'cost_basis' ? 'cost basis' : d.floorSource === 'rule' ? 'set for this listing' : 'no cost basis recorded';
+  lines.push(`Floor: $${d.floor} (${floorLabel})${d.limitedBy === 'floor' ? ' - reached' : ''}`);
+  return lines;
+};
+
+class ListingRepricing {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private running = false;       // A pass is in progress
+  private lastRunAt: Date | null = null;
+  private lastRun: RepricingRunResult | null = null;
+
+  private getPool() {
+    if (!pool) throw new Error('Database pool not initialized');
+    return pool;
+  }
+
+  private get pollSeconds(): number {
+    return envInt('REPRICING_POLL_SECONDS', 900);
+  }
+
+  private get undercut(): number {
+    const value = Number(process.env.REPRICING_UNDERCUT);
+    return Number.isFinite(value) && value >= 0 && process.env.REPRICING_UNDERCUT ? value : 5;
+  }
+
+  /**
+   * The REPRICING_STEPS schedule (null: off)
+   */
+  private get defaultSteps(): RepricingStep[] | null {
+    const text = process.env.REPRICING_STEPS || '72:10,24:25';
+    if (text === 'off') return null;
+    try {
+      return parseSteps(text);
+    } catch (error: any) {
+      console.error(`[Repricing] ❌ REPRICING_STEPS="${text}" ignored: ${error.message}`);
+      return null;
+    }
+  }
+
+  // =====================================================
+  // LIFECYCLE
+  // =====================================================
+
+  start(): void {
+    if (this.pollInterval) {
+      console.log('[Repricing] Already running');
+      return;
+    }
+    if (!pool) {
+      console.warn('[Repricing] Database not connected - not starting');
+      return;
+    }
+
+    console.log(`[Repricing] 🟢 Checking listed prices every ${this.pollSeconds}s`);
+    this.pollInterval = setInterval(() => { void this.runOnce(); }, this.pollSeconds * 1000);
+    void this.runOnce();
+  }
+
+  stop(): void {
+    if (!this.pollInterval) {
+      console.log('[Repricing] Not running');
+      return;
+    }
+    clearInterval(this.pollInterval);
+    this.pollInterval = null;
+    console.log('[Repricing] 🔴 Stopped');
+  }
+
+  getStatus(): RepricingStatus {
+    return {
+      isRunning: this.pollInterval !== null,
+      pollSeconds: this.pollSeconds,
+      defaultSteps: this.defaultSteps || [],
+      autoApprove: process.env.REPRICING_AUTO_APPROVE === 'true',
+      lastRunAt: this.lastRunAt?.toISOString() ?? null,
+      lastRun: this.lastRun,
+    };
+  }
+
+  // =====================================================
+  // RULES & HISTORY
+  // =====================================================
+
+  /**
+   * A listing's schedule: its own, else the default
+   */
+  async getRule(transferId: number): Promise<RepricingRule> {
+    const result = await this.getPool().query('SELECT * FROM repricing_rules WHERE transfer_id = $1', [transferId]);
+    const row = result.rows[0];
+    if (row) {
+      return {
+        transferId,
+        enabled: row.enabled,
+        steps: row.steps,
+        floorPrice: row.floor_price === null ? null : Number(row.floor_price),
+        followMarket: row.follow_market,
+        autoApprove: row.auto_approve,
+        source: 'listing',
+        updatedBy: row.updated_by,
+        updatedAt: new Date(row.updated_at).toISOString(),
+      };
+    }
+
+    const steps = this.defaultSteps;
+    return {
+      transferId,
+      enabled: steps !== null,
+      steps: steps || [],
+      floorPrice: null,
+      followMarket: true,
+      autoApprove: process.env.REPRICING_AUTO_APPROVE === 'true',
+      source: 'default',
+      updatedBy: null,
+      updatedAt: null,
+    };
+  }
+
+  /**
+   * Give a listing its own schedule (anything left out keeps the
+   * current rule's value). Throws InvalidRepricingRuleError.
+   */
+  async setRule(transferId: number, input: RepricingRuleInput, actor: AuditActor): Promise<RepricingRule | null> {
+    const transfer = await this.getPool().query('SELECT id, platform, portfolio_item_id FROM transfers WHERE id = $1', [transferId]);
+    if (!transfer.rows[0]) return null;
+
+    const current = await this.getRule(transferId);
+    const steps = input.steps !== undefined ? validateSteps(input.steps) : current.steps;
+    const floorPrice = input.floorPrice !== undefined ? input.floorPrice : current.floorPrice;
+    if (floorPrice !== null && !(typeof floorPrice === 'number' && floorPrice > 0)) {
+      throw new InvalidRepricingRuleError('floorPrice must be greater than 0 (or null for the cost basis)');
+    }
+    const enabled = input.enabled ?? current.enabled;
+    if (enabled && steps.length === 0) {
+      throw new InvalidRepricingRuleError('steps must be a non-empty list of { hoursBefore, percentOff }');
+    }
+
+    await this.getPool().query(`
+      INSERT INTO repricing_rules (transfer_id, enabled, steps, floor_price, follow_market, auto_approve, updated_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (transfer_id) DO UPDATE
+      SET enabled = EXCLUDED.enabled, steps = EXCLUDED.steps, floor_price = EXCLUDED.floor_price,
+          follow_market = EXCLUDED.follow_market, auto_approve = EXCLUDED.auto_approve,
+          updated_by = EXCLUDED.updated_by, updated_at = NOW()
+    `, [
+      transferId,
+      enabled,
+      JSON.stringify(steps),
+      floorPrice,
+      input.followMarket ?? current.followMarket,
+      input.autoApprove ?? current.autoApprove,
+      actor.actor,
+    ]);
+
+    const rule = await this.getRule(transferId);
+    await auditLog.record({
+      action: 'transfer.repricing_rule_set',
+      actor,
+      platform: transfer.rows[0].platform,
+      portfolioItemId: transfer.rows[0].portfolio_item_id,
+      transferId,
+      request: input,
+      response: rule,
+    });
+    return rule;
+  }
+
+  /**
+   * Every price a listing has had and every drop proposed for it, oldest first
+   */
+  async getHistory(transferId: number): Promise<PriceChange[]> {
+    const result = await this.getPool().query(
+      'SELECT * FROM listing_price_changes WHERE transfer_id = $1 ORDER BY id',
+      [transferId]
+    );
+    return result.rows.map(toChange);
+  }
+
+  async getChange(changeId: number): Promise<PriceChange | null> {
+    const result = await this.getPool().query('SELECT * FROM listing_price_changes WHERE id = $1', [changeId]);
+    return result.rows[0] ? toChange(result.rows[0]) : null;
+  }
+
+  /**
+   * Drops waiting for a decision, oldest first
+   */
+  async getPending(): Promise<Array<PriceChange & { restaurantName: string; reservationDate: string; reservationTime: string }>> {
+    const result = await this.getPool().query(`
+      SELECT c.*, t.restaurant_name, t.reservation_date, t.reservation_time
+      FROM listing_price_changes c
+      JOIN transfers t ON t.id = c.transfer_id
+      WHERE c.status = 'proposed'
+      ORDER BY c.id
+    `);
+    return result.rows.map(row => ({
+      ...toChange(row),
+      restaurantName: row.restaurant_name,
+      reservationDate: normalizeDate(row.reservation_date),
+      reservationTime: row.reservation_time,
+    }));
+  }
+
+  // =====================================================
+  // WATCH PASS
+  // =====================================================
+
+  /**
+   * One pass: propose (or apply) the step due for each listing, and
+   * expire proposals for listings that are no longer up. Overlapping
+   * calls are skipped.
+   */
+  async runOnce(now: Date = new Date()): Promise<RepricingRunResult> {
+    const result: RepricingRunResult = { proposed: 0, applied: 0, expired: 0 };
+    if (this.running || !pool) return result;
+    this.running = true;
+
+    try {
+      const expired = await pool.query(`
+        UPDATE listing_price_changes c SET status = 'expired', decided_at = NOW()
+        FROM transfers t
+        WHERE t.id = c.transfer_id AND c.status = 'proposed' AND t.status <> 'LISTED'
+      `);
+      result.expired = expired.rowCount ?? 0;
+
+      const listings = await pool.query(`
+        SELECT t.*, p.cost_basis,
+               (SELECT MAX(id) FROM listing_price_changes WHERE transfer_id = t.id AND kind = 'listed') AS listed_change_id,
+               (SELECT new_price FROM listing_price_changes
+                WHERE transfer_id = t.id AND kind IN ('listed', 'manual') AND status = 'applied'
+                ORDER BY id DESC LIMIT 1) AS base_price
+        FROM transfers t
+        LEFT JOIN portfolio_items p ON p.id = t.portfolio_item_id
+        WHERE t.status = 'LISTED' AND t.listing_price > 0
+        ORDER BY t.id
+      `);
+
+      for (const row of listings.rows) {
+        try {
+          const outcome = await this.repriceListing(row, now);
+          if (outcome === 'proposed') result.proposed++;
+          if (outcome === 'applied') result.applied++;
+        } catch (error: any) {
+          console.error(`[Repricing] ❌ Transfer ${row.id} failed: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      console.error('[Repricing] ❌ Pass failed:', error.message);
+    } finally {
+      this.running = false;
+      this.lastRunAt = new Date();
+      this.lastRun = result;
+    }
+
+    return result;
+  }
+
+  private async repriceListing(row: any, now: Date): Promise<'proposed' | 'applied' | null> {
+    const transfer = row as Transfer;
+    const hoursLeft = (reservationTime(transfer).getTime() - now.getTime()) / HOUR_MS;
+    if (hoursLeft <= 0) return null;
+
+    const rule = await this.getRule(transfer.id);
+    if (!rule.enabled) return null;
+
+    // Steps already proposed since it was (re)listed
+    const handled = await this.getPool().query(`
+      SELECT DISTINCT step_hours FROM listing_price_changes
+      WHERE transfer_id = $1 AND kind = 'decay' AND id > COALESCE($2, 0)
+    `, [transfer.id, row.listed_change_id]);
+    const step = dueStep(rule.steps, hoursLeft, new Set(handled.rows.map(r => r.step_hours)));
+    if (!step) return null;
+
+    const costBasis = Number(row.cost_basis) || 0;
+    const [floor, floorSource]: [number, DecayDetails['floorSource']] = rule.floorPrice !== null
+      ? [rule.floorPrice, 'rule']
+      : costBasis > 0 ? [costBasis, 'cost_basis'] : [MIN_PRICE, 'minimum'];
+
+    let market: MarketSnapshot | null = null;
+    if (rule.followMarket) {
+      const pricing = await competitionMonitor.getMarketPricing(transfer.restaurant_name);
+      if (pricing.activeListings > 0) {
+        market = { cheapest: pricing.minPrice, average: pricing.avgPrice, activeListings: pricing.activeListings };
+      }
+    }
+
+    const currentPrice = Number(transfer.listing_price);
+    const planned = decayPrice({
+      step,
+      hoursLeft,
+      basePrice: row.base_price !== null ? Number(row.base_price) : currentPrice,
+      currentPrice,
+      market,
+      floor,
+      floorSource,
+      undercut: this.undercut,
+    });
+    if (!planned) return null;
+
+    const inserted = await this.getPool().query(`
+      WITH expired AS (
+        UPDATE listing_price_changes SET status = 'expired', decided_at = NOW()
+        WHERE transfer_id = $1 AND status = 'proposed'
+      )
+      INSERT INTO listing_price_changes (transfer_id, kind, status, old_price, new_price, step_hours, details, requested_by)
+      VALUES ($1, 'decay', 'proposed', $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [transfer.id, currentPrice, planned.price, step.hoursBefore, planned.details, REPRICING_ACTOR.actor]);
+    let change = toChange(inserted.rows[0]);
+
+    await this.audit('transfer.reprice_proposed', transfer, REPRICING_ACTOR, change);
+    console.log(`[Repricing] 📉 ${transfer.restaurant_name} (transfer ${transfer.id}): $${currentPrice} → $${planned.price} at T-${step.hoursBefore}h`);
+
+    if (rule.autoApprove) {
+      const applied = await this.approve(change.id, REPRICING_ACTOR);
+      if (!applied.success) return 'proposed';
+      change = applied.change!;
+    }
+
+    await telegram.notifyRepricing(
+      change.id,
+      transfer.restaurant_name,
+      describeReservation(transfer),
+      currentPrice,
+      change.newPrice,
+      describeDecay(change),
+      change.status === 'applied',
+      transfer.at_listing_url
+    );
+    return change.status === 'applied' ? 'applied' : 'proposed';
+  }
+
+  // =====================================================
+  // DECISIONS
+  // =====================================================
+
+  /**
+   * Apply a proposed drop - if the listing is still up at the price it
+   * was proposed against
+   */
+  async approve(changeId: number, actor: AuditActor): Promise<RepricingResult> {
+    return this.decide(changeId, actor, async (db, change, transfer) => {
+      if (change.status !== 'proposed') {
+        return { success: false, code: 'not_pending', error: `This price change was already ${change.status}` };
+      }
+      const stale = await this.checkCurrent(db, change, transfer, change.oldPrice!);
+      if (stale) return stale;
+
+      await this.setPrice(db, transfer, change.newPrice);
+      const updated = await this.mark(db, change.id, 'applied', actor);
+      await this.audit('transfer.repriced', transfer, actor, updated);
+      return { success: true, change: updated };
+    });
+  }
+
+  /**
+   * Turn down a proposed drop; the listing keeps its price
+   */
+  async reject(changeId: number, actor: AuditActor): Promise<RepricingResult> {
+    return this.decide(changeId, actor, async (db, change, transfer) => {
+      if (change.status !== 'proposed') {
+        return { success: false, code: 'not_pending', error: `This price change was already ${change.status}` };
+      }
+      const updated = await this.mark(db, change.id, 'rejected', actor);
+      await this.audit('transfer.reprice_rejected', transfer, actor, updated);
+      return { success: true, change: updated };
+    });
+  }
+
+  /**
+   * Undo an applied drop or manual change: back to the price before it,
+   * as long as nothing has changed the price since
+   */
+  async revert(changeId: number, actor: AuditActor): Promise<RepricingResult> {
+    return this.decide(changeId, actor, async (db, change, transfer) => {
+      if (change.status !== 'applied' || !['decay', 'manual'].includes(change.kind) || change.oldPrice === null) {
+        return { success: false, code: 'not_revertible', error: 'Only applied price drops and manual price changes can be reverted' };
+      }
+      const stale = await this.checkCurrent(db, change, transfer, change.newPrice, false);
+      if (stale) return stale;
+
+      await this.setPrice(db, transfer, change.oldPrice);
+      await this.mark(db, change.id, 'reverted', actor);
+      const inserted = await db.query(`
+        INSERT INTO listing_price_changes (transfer_id, kind, status, old_price, new_price, reverts_id, requested_by, decided_by, decided_at)
+        VALUES ($1, 'revert', 'applied', $2, $3, $4, $5, $5, NOW())
+        RETURNING *
+      `, [transfer.id, change.newPrice, change.oldPrice, change.id, actor.actor]);
+      const revert = toChange(inserted.rows[0]);
+      await this.audit('transfer.reprice_reverted', transfer, actor, revert);
+      return { success: true, change: revert };
+    });
+  }
+
+  // =====================================================
+  // INTERNALS
+  // =====================================================
+
+  private async decide(
+    changeId: number,
+    actor: AuditActor,
+    fn: (db: PoolClient, change: PriceChange, transfer: Transfer) => Promise<RepricingResult>
+  ): Promise<RepricingResult> {
+    const db = await this.getPool().connect();
+    try {
+      await db.query('BEGIN');
+      const changeRow = await db.query('SELECT * FROM listing_price_changes WHERE id = $1 FOR UPDATE', [changeId]);
+      if (!changeRow.rows[0]) {
+        await db.query('ROLLBACK');
+        return { success: false, code: 'not_found', error: 'Price change not found' };
+      }
+      const change = toChange(changeRow.rows[0]);
+      // The item before its transfer, the order reservationLifecycle locks them in
+      await db.query(`
+        SELECT 1 FROM portfolio_items
+        WHERE id = (SELECT portfolio_item_id FROM transfers WHERE id = $1)
+        FOR UPDATE
+      `, [change.transferId]);
+      const transferRow = await db.query('SELECT * FROM transfers WHERE id = $1 FOR UPDATE', [change.transferId]);
+
+      const result = await fn(db, change, transferRow.rows[0]);
+      await db.query('COMMIT');
+      if (result.success) {
+        console.log(`[Repricing] ${actor.actor}: change ${changeId} → ${result.change!.kind === 'revert' ? 'reverted' : result.change!.status}`);
+      }
+      return result;
+    } catch (error) {
+      await db.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      db.release();
+    }
+  }
+
+  /**
+   * Null if the listing is up at `expected`; otherwise the failure
+   * (and a proposal that can't apply any more expires)
+   */
+  private async checkCurrent(
+    db: PoolClient,
+    change: PriceChange,
+    transfer: Transfer,
+    expected: number,
+    expire = true
+  ): Promise<RepricingResult | null> {
+    let failure: RepricingResult | null = null;
+    if (transfer.status !== 'LISTED') {
+      failure = { success: false, code: 'not_listed', error: `Transfer is ${transfer.status}, not listed` };
+    } else if (Number(transfer.listing_price) !== expected) {
+      failure = {
+        success: false,
+        code: 'stale',
+        error: `The listing price is now $${Number(transfer.listing_price)}, not $${expected} - it changed since`,
+      };
+    }
+    if (failure && expire && change.status === 'proposed') {
+      failure.change = await this.mark(db, change.id, 'expired', null);
+    }
+    return failure;
+  }
+
+  private async setPrice(db: PoolClient, transfer: Transfer, price: number): Promise<void> {
+    await db.query('UPDATE transfers SET listing_price = $2, updated_at = NOW() WHERE id = $1', [transfer.id, price]);
+    if (transfer.portfolio_item_id) {
+      await db.query('UPDATE portfolio_items SET list_price = $2, updated_at = NOW() WHERE id = $1', [transfer.portfolio_item_id, price]);
+    }
+    // Other open proposals were worked out from the old price
+    await db.query(`
+      UPDATE listing_price_changes SET status = 'expired', decided_at = NOW()
+      WHERE transfer_id = $1 AND status = 'proposed'
+    `, [transfer.id]);
+  }
+
+  private async mark(db: PoolClient, changeId: number, status: PriceChangeStatus, actor: AuditActor | null): Promise<PriceChange> {
+    const result = await db.query(`
+      UPDATE listing_price_changes SET status = $2, decided_by = $3, decided_at = NOW()
+      WHERE id = $1
+      RETURNING *
+    `, [changeId, status, actor?.actor ?? null]);
+    return toChange(result.rows[0]);
+  }
+
+  private audit(action: string, transfer: Transfer, actor: AuditActor, change: PriceChange) {
+    return auditLog.record({
+      action,
+      actor,
+      platform: transfer.platform,
+      portfolioItemId: transfer.portfolio_item_id ?? null,
+      transferId: transfer.id,
+      request: { changeId: change.revertsId ?? change.id },
+      response: change,
+    });
+  }
+}
+
+export default new ListingRepricing();
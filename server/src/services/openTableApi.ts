@@ -22,17 +22,23 @@
  * 4. Copy the 'x-csrf-token' header value
  */
 
-import axios from 'axios';
+import platformGovernor from './platformGovernor';
+import dropTrace from './dropTrace';
 import dotenv from 'dotenv';
 import path from 'path';
 
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
+// Rate-limited transport shared by every opentable account (see platformGovernor.ts)
+const http = platformGovernor.createHttpClient('opentable', 'x-csrf-token');
+
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const OPENTABLE_BASE_URL = 'https://www.opentable.com/dapi';
+// Override to point at a local platform simulator (see src/simulator)
+const OPENTABLE_BASE_URL = process.env.OPENTABLE_BASE_URL
+  || (process.env.PLATFORM_SIMULATOR_URL ? `${process.env.PLATFORM_SIMULATOR_URL}/opentable` : 'https://www.opentable.com/dapi');
 
 // User credentials from environment
 const CSRF_TOKEN = process.env.OPENTABLE_CSRF_TOKEN || '';
@@ -103,13 +109,27 @@ class OpenTableApiClient {
   private lastName: string;
   private email: string;
   private phone: string;
+  private baseUrl = '';
 
-  constructor() {
+  constructor(baseUrl?: string) {
     this.csrfToken = CSRF_TOKEN;
     this.firstName = FIRST_NAME;
     this.lastName = LAST_NAME;
     this.email = EMAIL;
     this.phone = PHONE;
+    this.setBaseUrl(baseUrl || OPENTABLE_BASE_URL);
+  }
+
+  /**
+   * Point this client at a different API host (e.g. the platform simulator).
+   * Trailing slashes are dropped - paths are appended with their own.
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   private getHeaders(): Record<string, string> {
@@ -140,8 +160,8 @@ class OpenTableApiClient {
     console.log(`[OpenTableAPI] Finding slots for restaurant ${restaurantId} on ${date} at ${time}`);
 
     try {
-      const response = await axios.post(
-        `${OPENTABLE_BASE_URL}/fe/gql?optype=query&opname=RestaurantsAvailability`,
+      const response = await http.post(
+        `${this.baseUrl}/fe/gql?optype=query&opname=RestaurantsAvailability`,
         {
           operationName: 'RestaurantsAvailability',
           variables: {
@@ -205,8 +225,8 @@ class OpenTableApiClient {
     console.log(`[OpenTableAPI] Booking ${restaurantId} at ${time} for ${partySize}`);
 
     try {
-      const response = await axios.post(
-        `${OPENTABLE_BASE_URL}/booking/make-reservation`,
+      const response = await http.post(
+        `${this.baseUrl}/booking/make-reservation`,
         {
           restaurantId: restaurantId,
           slotAvailabilityToken: slot.slotAvailabilityToken,
@@ -257,9 +277,11 @@ class OpenTableApiClient {
 
     console.log(`[OpenTableAPI] 🎯 Starting acquisition for restaurant ${restaurantId}`);
 
+    let bookingSlot: string | null = null;
     try {
       // Step 1: Find available slots
       const slots = await this.findSlots(restaurantId, date, time, partySize);
+      dropTrace.recordSlots(slots.map(s => s.dateTime));
 
       if (!slots.length) {
         return { success: false, error: 'No slots available' };
@@ -278,14 +300,47 @@ class OpenTableApiClient {
       }
 
       console.log(`[OpenTableAPI] Selected slot: ${bestSlot.dateTime}`);
+      bookingSlot = bestSlot.dateTime;
+      dropTrace.record('slot_chosen', { slot: bookingSlot });
 
       // Step 3: Make the reservation
-      return await this.makeReservation(restaurantId, bestSlot, date, time, partySize);
+      const result = await this.makeReservation(restaurantId, bestSlot, date, time, partySize);
+      dropTrace.record('book', { slot: bookingSlot, success: result.success, error: result.error });
+      return result;
     } catch (error: any) {
+      if (bookingSlot) dropTrace.record('book', { slot: bookingSlot, success: false, error: error.message });
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Cancel a reservation by its confirmation number
+   */
+  async cancelReservation(confirmationNumber: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.csrfToken) {
+      return { success: false, error: 'OPENTABLE_CSRF_TOKEN not configured' };
+    }
+
+    console.log(`[OpenTableAPI] Canceling reservation: ${confirmationNumber}`);
+
+    try {
+      await http.post(
+        `${this.baseUrl}/booking/cancel-reservation`,
+        { confirmationNumber },
+        { headers: this.getHeaders(), timeout: 30000 }
+      );
+
+      console.log('[OpenTableAPI] ✅ Reservation cancelled');
+      return { success: true };
+    } catch (error: any) {
+      console.error('[OpenTableAPI] ❌ Cancel failed:', error.response?.data || error.message);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message,
+      };
+    }
+  }
+
   /**
    * Search for restaurants by name
    */
@@ -294,7 +349,7 @@ class OpenTableApiClient {
 
     try {
       // OpenTable's search API
-      const response = await axios.get(
+      const response = await http.get(
         `https://www.opentable.com/s?term=${encodeURIComponent(query)}${location ? `&metroId=${location}` : ''}`,
         {
           headers: {
@@ -319,8 +374,8 @@ class OpenTableApiClient {
    */
   async getRestaurantInfo(restaurantId: number): Promise<any | null> {
     try {
-      const response = await axios.get(
-        `${OPENTABLE_BASE_URL}/fe/gql?optype=query&opname=RestaurantProfile`,
+      const response = await http.get(
+        `${this.baseUrl}/fe/gql?optype=query&opname=RestaurantProfile`,
         {
           params: {
             variables: JSON.stringify({ restaurantId }),
@@ -374,9 +429,11 @@ class OpenTableApiClient {
     console.log(`[OpenTableAPI] 🎩 PROFESSIONAL MODE - Booking for ${dinerFirstName} ${dinerLastName}`);
     console.log(`[OpenTableAPI] Restaurant: ${restaurantId}, Date: ${date}, Time: ${time}`);
 
+    let bookingSlot: string | null = null;
     try {
       // Step 1: Find available slots
       const slots = await this.findSlots(restaurantId, date, time, partySize);
+      dropTrace.recordSlots(slots.map(s => s.dateTime));
 
       if (!slots.length) {
         return { success: false, error: 'No slots available' };
@@ -395,6 +452,8 @@ class OpenTableApiClient {
       }
 
       console.log(`[OpenTableAPI] Selected slot: ${bestSlot.dateTime}`);
+      bookingSlot = bestSlot.dateTime;
+      dropTrace.record('slot_chosen', { slot: bookingSlot });
 
       // Step 3: Make the professional booking
       const result = await this.makeProfessionalReservation(
@@ -410,6 +469,7 @@ class OpenTableApiClient {
           phone: dinerPhone,
         }
       );
+      dropTrace.record('book', { slot: bookingSlot, success: result.success, error: result.error });
 
       if (result.success) {
         return {
@@ -421,6 +481,7 @@ class OpenTableApiClient {
 
       return result;
     } catch (error: any) {
+      if (bookingSlot) dropTrace.record('book', { slot: bookingSlot, success: false, error: error.message });
       return { 
         success: false, 
         error: error.message 
@@ -452,8 +513,8 @@ class OpenTableApiClient {
 
     try {
       // For Professional Profile accounts, we use the diner's info instead of our own
-      const response = await axios.post(
-        `${OPENTABLE_BASE_URL}/booking/make-reservation`,
+      const response = await http.post(
+        `${this.baseUrl}/booking/make-reservation`,
         {
           restaurantId: restaurantId,
           slotAvailabilityToken: slot.slotAvailabilityToken,
@@ -536,7 +597,7 @@ class OpenTableApiClient {
     csrfToken: string, 
     userInfo: { firstName: string; lastName: string; email: string; phone?: string }
   ): OpenTableApiClient {
-    const client = new OpenTableApiClient();
+    const client = new OpenTableApiClient(this.baseUrl);
     // Override with provided credentials
     (client as any).csrfToken = csrfToken;
     (client as any).firstName = userInfo.firstName;
@@ -0,0 +1,456 @@
+/**
+ * Platform Request Governor
+ *
+ * Every HTTP call to Resy, OpenTable, SevenRooms and Tock goes through here,
+ * so retry loops can't turn a 429 into a storm that gets accounts flagged.
+ *
+ * - Token buckets per platform and per account (requests per second)
+ * - Retry-After on a 429 holds that account's requests until it expires
+ * - Circuit breaker: repeated 429/403s pause the whole platform, with the
+ *   cooldown doubling each time it trips again before a success
+ * - Response Date headers feed the platform clock estimate (clockSync.ts),
+ *   and calls made during a drop land in its trace (dropTrace.ts)
+ *
+ * Limits (requests/second), overridable per platform:
+ *   RESY_MAX_RPS / RESY_ACCOUNT_MAX_RPS (and OPENTABLE_, SEVENROOMS_, TOCK_)
+ *   GOVERNOR_BREAKER_THRESHOLD          consecutive 429/403s before pausing
+ *   GOVERNOR_BREAKER_COOLDOWN_SECONDS   first pause length
+ *   GOVERNOR_MAX_WAIT_MS                longest a request may queue
+ */
+
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import crypto from 'crypto';
+import auditLog, { SYSTEM_ACTOR } from './auditLog';
+import clockSync from './clockSync';
+import dropTrace from './dropTrace';
+
+export type GovernedPlatform = 'resy' | 'opentable' | 'sevenrooms' | 'tock';
+export const GOVERNED_PLATFORMS: GovernedPlatform[] = ['resy', 'opentable', 'sevenrooms', 'tock'];
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface AccountStatus {
+  account: string;          // Fingerprint of the credential, never the credential
+  requests: number;
+  rateLimited: number;
+  forbidden: number;
+  retryAfterUntil: string | null;
+  lastRequestAt: string | null;
+}
+
+export interface PlatformStatus {
+  platform: GovernedPlatform;
+  limits: { platformRps: number; accountRps: number };
+  circuit: {
+    state: CircuitState;
+    consecutiveRejections: number;
+    trips: number;
+    openedAt: string | null;
+    reopensAt: string | null;
+  };
+  metrics: {
+    requests: number;
+    throttled: number;         // Requests that had to wait for a token
+    throttledMs: number;       // Total time spent waiting
+    rateLimited: number;       // 429s
+    forbidden: number;         // 403s
+    errors: number;            // 5xx and network errors
+    shortCircuited: number;    // Refused without calling the platform
+    lastRateLimitAt: string | null;
+  };
+  accounts: AccountStatus[];
+}
+
+/**
+ * Thrown (instead of calling the platform) while a platform is paused
+ * or an account's queue would exceed GOVERNOR_MAX_WAIT_MS
+ */
+export class PlatformPausedError extends Error {
+  constructor(public platform: GovernedPlatform, public retryInMs: number, reason: string) {
+    super(`${platform} ${reason} - retry in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'PlatformPausedError';
+  }
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_LIMITS: Record<GovernedPlatform, { platformRps: number; accountRps: number }> = {
+  resy: { platformRps: 5, accountRps: 2 },
+  opentable: { platformRps: 3, accountRps: 1 },
+  sevenrooms: { platformRps: 3, accountRps: 1 },
+  tock: { platformRps: 3, accountRps: 1 },
+};
+
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return value > 0 ? value : fallback;
+};
+
+// ============================================
+// TOKEN BUCKET
+// ============================================
+
+// Lets one search -> details -> book sequence through without queueing
+const MIN_BURST = 3;
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private rate: number, private capacity = Math.max(MIN_BURST, Math.ceil(rate))) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Take a token, possibly on credit. Returns how long the caller must
+   * wait before using it (0 = now).
+   */
+  reserve(now = Date.now()): number {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.rate) / 1000);
+    this.updatedAt = now;
+    this.tokens -= 1;
+    return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens * 1000) / this.rate);
+  }
+
+  // Give back a reservation that was never used
+  refund(): void {
+    this.tokens = Math.min(this.capacity, this.tokens + 1);
+  }
+}
+
+interface AccountState {
+  bucket: TokenBucket;
+  requests: number;
+  rateLimited: number;
+  forbidden: number;
+  retryAfterUntil: number;
+  lastRequestAt: number | null;
+}
+
+interface PlatformState {
+  limits: { platformRps: number; accountRps: number };
+  bucket: TokenBucket;
+  accounts: Map<string, AccountState>;
+  circuit: CircuitState;
+  consecutiveRejections: number;
+  trips: number;
+  openedAt: number | null;
+  reopensAt: number | null;
+  probeInFlight: boolean;
+  metrics: Omit<PlatformStatus['metrics'], 'lastRateLimitAt'> & { lastRateLimitAt: number | null };
+}
+
+/**
+ * Retry-After is either delta-seconds or an HTTP date
+ */
+const parseRetryAfter = (value: unknown, now: number): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return now + seconds * 1000;
+  const date = Date.parse(String(value));
+  return isNaN(date) ? null : date;
+};
+
+const iso = (ms: number | null): string | null => (ms ? new Date(ms).toISOString() : null);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================
+// GOVERNOR
+// ============================================
+
+class PlatformGovernor {
+  private platforms = new Map<GovernedPlatform, PlatformState>();
+
+  private get breakerThreshold(): number {
+    return envNumber('GOVERNOR_BREAKER_THRESHOLD', 5);
+  }
+
+  private get cooldownMs(): number {
+    return envNumber('GOVERNOR_BREAKER_COOLDOWN_SECONDS', 60) * 1000;
+  }
+
+  private get maxWaitMs(): number {
+    return envNumber('GOVERNOR_MAX_WAIT_MS', 15000);
+  }
+
+  private state(platform: GovernedPlatform): PlatformState {
+    let state = this.platforms.get(platform);
+    if (!state) {
+      const prefix = platform.toUpperCase();
+      const limits = {
+        platformRps: envNumber(`${prefix}_MAX_RPS`, DEFAULT_LIMITS[platform].platformRps),
+        accountRps: envNumber(`${prefix}_ACCOUNT_MAX_RPS`, DEFAULT_LIMITS[platform].accountRps),
+      };
+      state = {
+        limits,
+        bucket: new TokenBucket(limits.platformRps),
+        accounts: new Map(),
+        circuit: 'closed',
+        consecutiveRejections: 0,
+        trips: 0,
+        openedAt: null,
+        reopensAt: null,
+        probeInFlight: false,
+        metrics: {
+          requests: 0, throttled: 0, throttledMs: 0, rateLimited: 0,
+          forbidden: 0, errors: 0, shortCircuited: 0, lastRateLimitAt: null,
+        },
+      };
+      this.platforms.set(platform, state);
+    }
+    return state;
+  }
+
+  private account(state: PlatformState, account: string): AccountState {
+    let accountState = state.accounts.get(account);
+    if (!accountState) {
+      accountState = {
+        bucket: new TokenBucket(state.limits.accountRps),
+        requests: 0,
+        rateLimited: 0,
+        forbidden: 0,
+        retryAfterUntil: 0,
+        lastRequestAt: null,
+      };
+      state.accounts.set(account, accountState);
+    }
+    return accountState;
+  }
+
+  /**
+   * Short, stable id for a credential - metrics never see the secret
+   */
+  fingerprint(credential: string | null | undefined): string {
+    if (!credential) return 'anonymous';
+    return crypto.createHash('sha256').update(credential).digest('hex').slice(0, 8);
+  }
+
+  // =====================================================
+  // REQUEST GATE
+  // =====================================================
+
+  /**
+   * Wait for permission to call the platform. Throws PlatformPausedError
+   * when the circuit is open or the wait would be too long.
+   */
+  async acquire(platform: GovernedPlatform, account = 'anonymous'): Promise<void> {
+    const state = this.state(platform);
+    const now = Date.now();
+
+    if (state.circuit === 'open') {
+      if (now < (state.reopensAt || 0)) {
+        state.metrics.shortCircuited++;
+        throw new PlatformPausedError(platform, state.reopensAt! - now, 'paused after repeated 429/403s');
+      }
+      state.circuit = 'half_open';
+      console.log(`[Governor] 🔁 ${platform} cooldown over - sending a probe request`);
+    }
+    if (state.circuit === 'half_open') {
+      if (state.probeInFlight) {
+        state.metrics.shortCircuited++;
+        throw new PlatformPausedError(platform, 1000, 'is being probed after a pause');
+      }
+      state.probeInFlight = true;
+    }
+
+    const accountState = this.account(state, account);
+    const wait = Math.max(
+      state.bucket.reserve(now),
+      accountState.bucket.reserve(now),
+      accountState.retryAfterUntil - now,
+    );
+
+    if (wait > this.maxWaitMs) {
+      state.bucket.refund();
+      accountState.bucket.refund();
+      state.probeInFlight = false;
+      state.metrics.shortCircuited++;
+      throw new PlatformPausedError(platform, wait, 'is rate limited for this account');
+    }
+
+    if (wait > 0) {
+      state.metrics.throttled++;
+      state.metrics.throttledMs += wait;
+      await sleep(wait);
+    }
+
+    state.metrics.requests++;
+    accountState.requests++;
+    accountState.lastRequestAt = Date.now();
+  }
+
+  /**
+   * Record the platform's answer. status undefined = network error.
+   */
+  record(platform: GovernedPlatform, account: string, status: number | undefined, retryAfter?: unknown): void {
+    const state = this.state(platform);
+    const accountState = this.account(state, account);
+    const now = Date.now();
+    const wasProbe = state.circuit === 'half_open';
+    state.probeInFlight = false;
+
+    if (status === 429 || status === 403) {
+      state.consecutiveRejections++;
+      if (status === 429) {
+        state.metrics.rateLimited++;
+        state.metrics.lastRateLimitAt = now;
+        accountState.rateLimited++;
+        const until = parseRetryAfter(retryAfter, now);
+        if (until) accountState.retryAfterUntil = Math.max(accountState.retryAfterUntil, until);
+      } else {
+        state.metrics.forbidden++;
+        accountState.forbidden++;
+      }
+
+      if (wasProbe || state.consecutiveRejections >= this.breakerThreshold) {
+        this.trip(platform, state, status);
+      }
+      return;
+    }
+
+    // A failed probe says nothing about rate limits - the next request probes again
+    if (status === undefined || status >= 500) {
+      state.metrics.errors++;
+      return;
+    }
+
+    // Any other answer means the platform is talking to us normally
+    state.consecutiveRejections = 0;
+    if (state.circuit !== 'closed') {
+      console.log(`[Governor] ✅ ${platform} recovered - circuit closed`);
+    }
+    state.circuit = 'closed';
+    state.trips = 0;
+    state.openedAt = null;
+    state.reopensAt = null;
+  }
+
+  private trip(platform: GovernedPlatform, state: PlatformState, status: number): void {
+    const now = Date.now();
+    state.trips++;
+    const cooldown = Math.min(MAX_COOLDOWN_MS, this.cooldownMs * Math.pow(2, state.trips - 1));
+    state.circuit = 'open';
+    state.openedAt = now;
+    state.reopensAt = now + cooldown;
+
+    console.warn(`[Governor] 🛑 ${platform} paused for ${Math.round(cooldown / 1000)}s after ${state.consecutiveRejections} consecutive ${status}s`);
+    void auditLog.record({
+      action: 'platform.circuit_open',
+      outcome: 'failure',
+      actor: SYSTEM_ACTOR,
+      platform,
+      response: { status, consecutiveRejections: state.consecutiveRejections, trips: state.trips, cooldownSeconds: cooldown / 1000 },
+    });
+  }
+
+  /**
+   * How long until the platform accepts requests again (0 = not paused)
+   */
+  getPauseRemaining(platform: string): number {
+    const state = this.platforms.get(platform as GovernedPlatform);
+    if (!state || state.circuit !== 'open') return 0;
+    return Math.max(0, (state.reopensAt || 0) - Date.now());
+  }
+
+  /**
+   * Close a platform's circuit by hand (e.g. after fixing credentials)
+   */
+  reset(platform: GovernedPlatform): void {
+    const state = this.state(platform);
+    state.circuit = 'closed';
+    state.consecutiveRejections = 0;
+    state.trips = 0;
+    state.openedAt = null;
+    state.reopensAt = null;
+    state.probeInFlight = false;
+    for (const account of state.accounts.values()) {
+      account.retryAfterUntil = 0;
+    }
+    console.log(`[Governor] 🔓 ${platform} circuit reset`);
+  }
+
+  getStatus(): PlatformStatus[] {
+    const now = Date.now();
+    return GOVERNED_PLATFORMS.map(platform => {
+      const state = this.state(platform);
+      return {
+        platform,
+        limits: state.limits,
+        circuit: {
+          state: state.circuit === 'open' && now >= (state.reopensAt || 0) ? 'half_open' : state.circuit,
+          consecutiveRejections: state.consecutiveRejections,
+          trips: state.trips,
+          openedAt: iso(state.openedAt),
+          reopensAt: iso(state.reopensAt),
+        },
+        metrics: { ...state.metrics, lastRateLimitAt: iso(state.metrics.lastRateLimitAt) },
+        accounts: [...state.accounts.entries()].map(([account, a]) => ({
+          account,
+          requests: a.requests,
+          rateLimited: a.rateLimited,
+          forbidden: a.forbidden,
+          retryAfterUntil: a.retryAfterUntil > now ? iso(a.retryAfterUntil) : null,
+          lastRequestAt: iso(a.lastRequestAt),
+        })),
+      };
+    });
+  }
+
+  // =====================================================
+  // HTTP CLIENTS
+  // =====================================================
+
+  /**
+   * Axios instance whose requests are governed. The account is the
+   * fingerprint of `accountHeader` (e.g. the auth token header).
+   */
+  createHttpClient(platform: GovernedPlatform, accountHeader?: string): AxiosInstance {
+    const http = axios.create();
+    const accountOf = (config?: InternalAxiosRequestConfig): string => {
+      const value = accountHeader ? config?.headers?.get(accountHeader) : null;
+      return this.fingerprint(value ? String(value) : null);
+    };
+
+    // When each request actually left (after queueing here), for clock sync
+    // and the drop trace
+    const sentAt = new WeakMap<object, number>();
+    const observe = (config: InternalAxiosRequestConfig | undefined, status: number | null, headers: any, error?: string) => {
+      const started = config && sentAt.get(config);
+      if (!started) return;
+      const receivedAt = Date.now();
+      clockSync.observe(platform, started, receivedAt, headers?.['date']);
+      dropTrace.recordHttp(config.method, config.url, status, receivedAt - started, error);
+    };
+
+    http.interceptors.request.use(async config => {
+      await this.acquire(platform, accountOf(config));
+      sentAt.set(config, Date.now());
+      return config;
+    });
+
+    http.interceptors.response.use(
+      response => {
+        observe(response.config, response.status, response.headers);
+        this.record(platform, accountOf(response.config), response.status);
+        return response;
+      },
+      error => {
+        // Refused by the governor itself - the platform never saw it
+        if (!(error instanceof PlatformPausedError)) {
+          observe(error.config, error.response?.status ?? null, error.response?.headers, error.message);
+          this.record(platform, accountOf(error.config), error.response?.status, error.response?.headers?.['retry-after']);
+        }
+        return Promise.reject(error);
+      }
+    );
+
+    return http;
+  }
+}
+
+export default new PlatformGovernor();
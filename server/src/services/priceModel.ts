@@ -0,0 +1,461 @@
+/**
+ * Price Model
+ *
+ * Predicts what a reservation will sell for on AppointmentTrader, fitted
+ * on our own data instead of hand-set multipliers:
+ * - transfers.sale_price      realized sales (full weight)
+ * - competitor_listings       other sellers' asking prices (half weight)
+ * - price_history             scraped market estimates (quarter weight;
+ *                             restaurant and city only)
+ *
+ * The model is a weighted ridge regression on log(price) over one-hot
+ * features: restaurant, weekday, time slot, party size, lead time, city,
+ * plus the data source (predictions are always for a realized sale). So
+ * each feature value is a multiplier on a baseline price, which is what
+ * explains a suggestion. The ridge penalty pulls rarely seen values
+ * toward 1x, so a restaurant with two sales doesn't swing the price.
+ *
+ * Prediction intervals come from the spread of the sale residuals,
+ * widened for restaurants with few observations.
+ *
+ * Every training run is stored in price_models (migration 018) with its
+ * id as the version; the newest is in use. Retrained by the
+ * retrain-price-model job (jobScheduler.ts).
+ */
+
+import pool from '../db';
+import { daysBetween, normalizeDate } from '../shared/dropTime';
+import { toWallClockTime } from './transferTracker';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FeatureGroup = 'restaurant' | 'weekday' | 'timeSlot' | 'partySize' | 'leadTime' | 'city' | 'source';
+export type SampleSource = 'sale' | 'competitor' | 'market';
+
+export interface PriceSample {
+  restaurantName: string;
+  city: string | null;
+  weekday: number | null;        // 0 = Sunday
+  time: string | null;           // HH:MM
+  partySize: number | null;
+  leadDays: number | null;       // Days from sale/listing to the reservation
+  price: number;
+  source: SampleSource;
+}
+
+export interface PriceModelParameters {
+  intercept: number;
+  coefficients: Record<FeatureGroup, Record<string, number>>;  // log-price effect per feature value
+  sigma: number;                                                // Residual spread (log scale)
+  restaurants: Record<string, { rows: number; sales: number }>; // By restaurantKey()
+  lambda: number;
+}
+
+export interface PriceModelMetrics {
+  rmseLog: number;               // Weighted, all rows
+  salesMape: number | null;      // Mean absolute % error on realized sales
+}
+
+export interface PriceModel {
+  version: number;
+  trainedAt: string;
+  trainedBy: string | null;
+  trainingRows: number;
+  rowsBySource: Record<SampleSource, number>;
+  parameters: PriceModelParameters;
+  metrics: PriceModelMetrics;
+}
+
+export interface FeatureEffect {
+  feature: FeatureGroup;
+  label: string;
+  value: string;
+  multiplier: number;            // 1 = no effect (or a value the model hasn't seen)
+}
+
+export interface ModelPrediction {
+  price: number;
+  low: number;
+  high: number;
+  baseline: number;              // Price before any feature effect
+  effects: FeatureEffect[];      // Strongest first
+  restaurantRows: number;
+  restaurantSales: number;
+}
+
+export interface PredictionInput {
+  restaurantName: string;
+  city?: string | null;
+  reservationDate: string;
+  reservationTime: string;
+  partySize: number;
+  today?: string;                // For lead time (default: now)
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const SOURCE_WEIGHTS: Record<SampleSource, number> = { sale: 1, competitor: 0.5, market: 0.25 };
+const RIDGE_LAMBDA = 1;
+const MIN_TRAINING_ROWS = parseInt(process.env.PRICE_MODEL_MIN_ROWS || '20', 10);
+const MIN_SIGMA = 0.1;           // Intervals never collapse to a point
+export const INTERVAL_LEVEL = 0.8;
+const INTERVAL_Z = 1.2816;       // Two-sided 80%
+
+const FEATURE_LABELS: Record<FeatureGroup, string> = {
+  restaurant: 'Restaurant',
+  weekday: 'Day',
+  timeSlot: 'Time',
+  partySize: 'Party size',
+  leadTime: 'Lead time',
+  city: 'City',
+  source: 'Source',
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// ============================================
+// FEATURES
+// ============================================
+
+export const restaurantKey = (name: string) => name.trim().toLowerCase();
+
+const timeSlot = (time: string | null): string | null => {
+  const wallClock = time ? toWallClockTime(time) : null;
+  if (!wallClock) return null;
+  const hour = parseInt(wallClock.split(':')[0]);
+  if (hour >= 19 && hour <= 20) return 'prime (7-9 PM)';
+  if (hour === 18 || hour === 21) return 'shoulder (6 PM, 9 PM)';
+  if (hour >= 22) return 'late (10 PM+)';
+  if (hour === 17) return 'early (5 PM)';
+  if (hour >= 11 && hour <= 14) return 'lunch';
+  return 'off-peak';
+};
+
+const partySizeBand = (size: number | null): string | null => {
+  if (!size || size < 1) return null;
+  return size <= 2 ? '1-2' : size >= 6 ? '6+' : String(size);
+};
+
+const leadTimeBand = (days: number | null): string | null => {
+  if (days === null || days < 0) return null;
+  if (days <= 2) return '0-2 days';
+  if (days <= 7) return '3-7 days';
+  if (days <= 21) return '8-21 days';
+  return '22+ days';
+};
+
+/**
+ * The value of each feature for a sample (null: unknown, no effect)
+ */
+export const featuresOf = (sample: Omit<PriceSample, 'price'>): Record<FeatureGroup, string | null> => ({
+  restaurant: restaurantKey(sample.restaurantName),
+  weekday: sample.weekday === null ? null : WEEKDAYS[sample.weekday],
+  timeSlot: timeSlot(sample.time),
+  partySize: partySizeBand(sample.partySize),
+  leadTime: leadTimeBand(sample.leadDays),
+  city: sample.city ? sample.city.trim().toLowerCase() : null,
+  source: sample.source,
+});
+
+const FEATURE_GROUPS = Object.keys(FEATURE_LABELS) as FeatureGroup[];
+
+// ============================================
+// FITTING
+// ============================================
+
+/**
+ * Solve A x = b for a symmetric positive definite A (row-major, n x n)
+ * by Cholesky decomposition
+ */
+const solveSymmetric = (A: Float64Array, b: Float64Array, n: number): Float64Array => {
+  const L = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = A[i * n + j];
+      for (let k = 0; k < j; k++) sum -= L[i * n + k] * L[j * n + k];
+      if (i === j) {
+        if (sum <= 0) throw new Error('Price model is singular - not enough varied data');
+        L[i * n + i] = Math.sqrt(sum);
+      } else {
+        L[i * n + j] = sum / L[j * n + j];
+      }
+    }
+  }
+  // L y = b, then Lᵀ x = y
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= L[i * n + k] * y[k];
+    y[i] = sum / L[i * n + i];
+  }
+  const x = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= L[k * n + i] * x[k];
+    x[i] = sum / L[i * n + i];
+  }
+  return x;
+};
+
+const logPrediction = (params: Pick<PriceModelParameters, 'intercept' | 'coefficients'>, features: Record<FeatureGroup, string | null>) =>
+  FEATURE_GROUPS.reduce((sum, group) => {
+    const value = features[group];
+    return sum + (value === null ? 0 : params.coefficients[group][value] ?? 0);
+  }, params.intercept);
+
+/**
+ * Fit the model. Throws on data it can't fit (no rows, non-positive prices).
+ */
+export const fitPriceModel = (samples: PriceSample[], lambda = RIDGE_LAMBDA): { parameters: PriceModelParameters; metrics: PriceModelMetrics } => {
+  if (samples.length === 0) throw new Error('No price data to train on');
+
+  // Column 0 is the intercept, then one per feature value seen
+  const columns = new Map<string, number>();
+  const rows = samples.map(sample => {
+    if (!(sample.price > 0)) throw new Error(`Invalid price ${sample.price} for ${sample.restaurantName}`);
+    const features = featuresOf(sample);
+    const active = [0];
+    for (const group of FEATURE_GROUPS) {
+      const value = features[group];
+      if (value === null) continue;
+      const key = `${group}\u0000${value}`;
+      if (!columns.has(key)) columns.set(key, columns.size + 1);
+      active.push(columns.get(key)!);
+    }
+    return { active, features, y: Math.log(sample.price), w: SOURCE_WEIGHTS[sample.source] };
+  });
+
+  // Normal equations with ridge: (XᵀWX + λI) β = XᵀWy, intercept unpenalized
+  const n = columns.size + 1;
+  const A = new Float64Array(n * n);
+  const b = new Float64Array(n);
+  for (const { active, y, w } of rows) {
+    for (const i of active) {
+      b[i] += w * y;
+      for (const j of active) A[i * n + j] += w;
+    }
+  }
+  for (let i = 1; i < n; i++) A[i * n + i] += lambda;
+  const beta = solveSymmetric(A, b, n);
+
+  const coefficients = Object.fromEntries(FEATURE_GROUPS.map(g => [g, {}])) as PriceModelParameters['coefficients'];
+  for (const [key, index] of columns) {
+    const [group, value] = key.split('\u0000') as [FeatureGroup, string];
+    coefficients[group][value] = beta[index];
+  }
+  const fitted = { intercept: beta[0], coefficients };
+
+  // Residuals: the interval is about sales, so use theirs when there are enough
+  const residuals = rows.map((row, i) => ({ ...row, source: samples[i].source, r: row.y - logPrediction(fitted, row.features) }));
+  const sales = residuals.filter(r => r.source === 'sale');
+  const spreadRows = sales.length >= 5 ? sales : residuals;
+  const weight = spreadRows.reduce((sum, r) => sum + r.w, 0);
+  const sigma = Math.max(Math.sqrt(spreadRows.reduce((sum, r) => sum + r.w * r.r * r.r, 0) / weight), MIN_SIGMA);
+
+  const totalWeight = residuals.reduce((sum, r) => sum + r.w, 0);
+  const rmseLog = Math.sqrt(residuals.reduce((sum, r) => sum + r.w * r.r * r.r, 0) / totalWeight);
+  const salesMape = sales.length > 0
+    ? sales.reduce((sum, r) => sum + Math.abs(Math.exp(r.y - r.r) - Math.exp(r.y)) / Math.exp(r.y), 0) / sales.length
+    : null;
+
+  const restaurants: PriceModelParameters['restaurants'] = {};
+  samples.forEach(sample => {
+    const entry = restaurants[restaurantKey(sample.restaurantName)] ||= { rows: 0, sales: 0 };
+    entry.rows++;
+    if (sample.source === 'sale') entry.sales++;
+  });
+
+  return {
+    parameters: { ...fitted, sigma, restaurants, lambda },
+    metrics: { rmseLog: round(rmseLog, 4), salesMape: salesMape === null ? null : round(salesMape, 4) },
+  };
+};
+
+// ============================================
+// PREDICTION
+// ============================================
+
+const roundTo5 = (price: number) => Math.max(5, Math.round(price / 5) * 5);
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Predicted sale price with its interval and what drove it
+ */
+export const predictPrice = (params: PriceModelParameters, input: PredictionInput): ModelPrediction => {
+  const date = normalizeDate(input.reservationDate);
+  const leadDays = daysBetween(input.today || new Date().toISOString().slice(0, 10), date);
+  const features = featuresOf({
+    restaurantName: input.restaurantName,
+    city: input.city ?? null,
+    weekday: new Date(`${date}T00:00:00Z`).getUTCDay(),
+    time: input.reservationTime,
+    partySize: input.partySize,
+    leadDays,
+    source: 'sale',
+  });
+
+  const logPrice = logPrediction(params, features);
+  const baseline = Math.exp(params.intercept + (params.coefficients.source.sale ?? 0));
+
+  const effects: FeatureEffect[] = FEATURE_GROUPS
+    .filter(group => group !== 'source')
+    .map(group => {
+      const value = features[group];
+      const coefficient = value === null ? undefined : params.coefficients[group][value];
+      const shown = group === 'restaurant' ? input.restaurantName : group === 'city' ? (input.city || 'unknown') : value ?? 'unknown';
+      return {
+        feature: group,
+        label: FEATURE_LABELS[group],
+        value: coefficient === undefined ? `${shown} (not in training data)` : shown,
+        multiplier: round(Math.exp(coefficient ?? 0)),
+      };
+    })
+    .sort((a, b) => Math.abs(Math.log(b.multiplier)) - Math.abs(Math.log(a.multiplier)));
+
+  const seen = params.restaurants[restaurantKey(input.restaurantName)] || { rows: 0, sales: 0 };
+  const spread = INTERVAL_Z * params.sigma * Math.sqrt(1 + 1 / Math.max(seen.rows, 1));
+
+  return {
+    price: roundTo5(Math.exp(logPrice)),
+    low: roundTo5(Math.exp(logPrice - spread)),
+    high: roundTo5(Math.exp(logPrice + spread)),
+    baseline: round(baseline),
+    effects,
+    restaurantRows: seen.rows,
+    restaurantSales: seen.sales,
+  };
+};
+
+// ============================================
+// STORE
+// ============================================
+
+const toModel = (row: any): PriceModel => ({
+  version: row.id,
+  trainedAt: new Date(row.trained_at).toISOString(),
+  trainedBy: row.trained_by,
+  trainingRows: row.training_rows,
+  rowsBySource: row.rows_by_source,
+  parameters: row.parameters,
+  metrics: row.metrics,
+});
+
+class PriceModelStore {
+  private active: PriceModel | null = null;
+
+  private getPool() {
+    if (!pool) throw new Error('Database pool not initialized');
+    return pool;
+  }
+
+  /**
+   * Everything the model learns from
+   */
+  async loadSamples(): Promise<PriceSample[]> {
+    const db = this.getPool();
+    const city = (column: string) =>
+      `(SELECT r.city FROM restaurants r WHERE LOWER(r.name) = LOWER(${column}) ORDER BY r.id LIMIT 1)`;
+
+    const [sales, listings, market] = await Promise.all([
+      db.query(`
+        SELECT restaurant_name, ${city('t.restaurant_name')} AS city,
+               EXTRACT(DOW FROM reservation_date)::int AS weekday, reservation_time, party_size,
+               reservation_date - COALESCE(sold_at, updated_at)::date AS lead_days, sale_price AS price
+        FROM transfers t
+        WHERE sale_price > 0 AND status IN ('SOLD', 'TRANSFER_PENDING', 'TRANSFERRED', 'COMPLETED')
+      `),
+      db.query(`
+        SELECT restaurant_name, ${city('c.restaurant_name')} AS city,
+               EXTRACT(DOW FROM reservation_date)::int AS weekday, reservation_time, party_size,
+               reservation_date - first_seen::date AS lead_days, listing_price AS price
+        FROM competitor_listings c
+        WHERE listing_price > 0
+      `),
+      db.query(`
+        SELECT r.name AS restaurant_name, r.city, p.price
+        FROM price_history p
+        JOIN restaurants r ON r.id = p.restaurant_id
+        WHERE p.price > 0
+      `),
+    ]);
+
+    const toSample = (source: SampleSource) => (row: any): PriceSample => ({
+      restaurantName: row.restaurant_name,
+      city: row.city ?? null,
+      weekday: row.weekday ?? null,
+      time: row.reservation_time ?? null,
+      partySize: row.party_size ?? null,
+      leadDays: row.lead_days ?? null,
+      price: Number(row.price),
+      source,
+    });
+
+    return [
+      ...sales.rows.map(toSample('sale')),
+      ...listings.rows.map(toSample('competitor')),
+      ...market.rows.map(toSample('market')),
+    ];
+  }
+
+  /**
+   * Fit a new version on the current data. Null (with the reason) when
+   * there isn't enough of it - the previous version stays in use.
+   */
+  async train(trainedBy = 'schedule'): Promise<{ model: PriceModel | null; reason?: string }> {
+    const samples = await this.loadSamples();
+    if (samples.length < MIN_TRAINING_ROWS) {
+      return { model: null, reason: `Only ${samples.length} price observations (need ${MIN_TRAINING_ROWS})` };
+    }
+
+    const { parameters, metrics } = fitPriceModel(samples);
+    const rowsBySource: Record<SampleSource, number> = { sale: 0, competitor: 0, market: 0 };
+    samples.forEach(s => rowsBySource[s.source]++);
+
+    const result = await this.getPool().query(`
+      INSERT INTO price_models (trained_by, training_rows, rows_by_source, parameters, metrics)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `, [trainedBy, samples.length, rowsBySource, parameters, metrics]);
+
+    this.active = toModel(result.rows[0]);
+    console.log(`[PriceModel] 📈 Trained v${this.active.version} on ${samples.length} rows (${rowsBySource.sale} sales), sales MAPE ${metrics.salesMape ?? 'n/a'}`);
+    return { model: this.active };
+  }
+
+  /**
+   * The model in use (newest version), or null before the first training
+   */
+  async getActive(): Promise<PriceModel | null> {
+    if (!pool) return null;
+    const db = pool;
+    const latest = await db.query('SELECT id, trained_at FROM price_models ORDER BY id DESC LIMIT 1');
+    const row = latest.rows[0];
+    if (!row) return (this.active = null);
+    const trainedAt = new Date(row.trained_at).toISOString();
+    if (!this.active || this.active.version !== row.id || this.active.trainedAt !== trainedAt) {
+      const full = await db.query('SELECT * FROM price_models WHERE id = $1', [row.id]);
+      this.active = toModel(full.rows[0]);
+    }
+    return this.active;
+  }
+
+  /**
+   * Recent versions without their parameters, newest first
+   */
+  async listVersions(limit = 10): Promise<Omit<PriceModel, 'parameters'>[]> {
+    const result = await this.getPool().query(`
+      SELECT id, trained_at, trained_by, training_rows, rows_by_source, metrics
+      FROM price_models ORDER BY id DESC LIMIT $1
+    `, [limit]);
+    return result.rows.map(row => {
+      const { parameters, ...model } = toModel(row);
+      return model;
+    });
+  }
+}
+
+export default new PriceModelStore();
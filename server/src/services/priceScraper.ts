@@ -7,6 +7,7 @@
 
 import { tavily } from '@tavily/core';
 import pool from '../db';
+import { DropRule, toDropRule, isScheduledRule, getNextDrop } from '../shared/dropRules';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -104,9 +105,24 @@ export const upsertRestaurant = async (
     next_drop_date: string;
     next_drop_time: string;
     drop_timezone: string;
-    drop_pattern: string;
+    drop_pattern: string | DropRule;  // Structured rule or legacy free text (parsed on write)
   }>
 ) => {
+  // Store the drop pattern as a structured rule, and derive the next drop from it
+  const timezone = data.drop_timezone || 'America/New_York';
+  const dropRule = toDropRule(data.drop_pattern, timezone);
+  let nextDropDate = data.next_drop_date;
+  let nextDropTime = data.next_drop_time;
+  let dropTimezone = data.drop_timezone;
+  if (!nextDropDate && isScheduledRule(dropRule)) {
+    const next = getNextDrop(dropRule);
+    if (next) {
+      nextDropDate = next.dropDate;
+      nextDropTime = next.dropTime;
+      dropTimezone = next.timezone;
+    }
+  }
+
   const query = `
     INSERT INTO restaurants (
       name, city, cuisine, description,
@@ -159,10 +175,10 @@ export const upsertRestaurant = async (
     data.platform || null,
     data.booking_url || null,
     data.booking_window_tip || null,
-    data.next_drop_date || null,
-    data.next_drop_time || null,
-    data.drop_timezone || 'America/New_York',
-    data.drop_pattern || null
+    nextDropDate || null,
+    nextDropTime || null,
+    dropTimezone || 'America/New_York',
+    dropRule ? JSON.stringify(dropRule) : null
   ]);
 
   return result.rows[0];
@@ -0,0 +1,403 @@
+/**
+ * Pricing Backtest
+ *
+ * Replays past AppointmentTrader listings against a candidate tier pricing
+ * config (pricingEngine.ts) to see how it would have done before the
+ * defaults are changed:
+ * - A listing that sold at S would have sold at a candidate price P <= S
+ *   (the buyer paid S), bringing in P; priced above S it wouldn't have
+ * - A listing that didn't sell at L wouldn't have at P >= L either. At
+ *   P < L we can't know - counted as unsold and reported as uncertain
+ * - The demand multiplier only uses sales made before the listing went
+ *   up, so the replay doesn't see the future
+ *
+ * The price model (priceModel.ts) isn't backtested here: it was trained
+ * on these same sales.
+ *
+ * Runs are stored in pricing_backtests (migration 019). Run from the
+ * dashboard (POST /api/analytics/pricing/backtest) or `npm run backtest`.
+ */
+
+import pool from '../db';
+import pricingEngine, {
+  DEFAULT_PRICING_CONFIG,
+  PricingConfig,
+  RestaurantTier,
+  TimeSlot,
+  PartySizeBand,
+  priceFromTier,
+  toDemandMultiplier,
+} from './pricingEngine';
+import { normalizeDate } from '../shared/dropTime';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A candidate config: any PricingConfig values to change, plus tier
+ * overrides. Anything left out keeps the current default.
+ */
+export interface BacktestConfigInput {
+  dayMultipliers?: Partial<Record<number, number>>;
+  timePremiums?: Partial<Record<TimeSlot, number>>;
+  partySizePremiums?: Partial<Record<PartySizeBand, number>>;
+  demandBounds?: Partial<PricingConfig['demandBounds']>;
+  tiers?: Record<string, RestaurantTier>;
+}
+
+export type BacktestConfig = PricingConfig & { tiers: Record<string, RestaurantTier> };
+
+export interface BacktestListing {
+  transferId: number;
+  restaurantName: string;
+  reservationDate: string;
+  reservationTime: string;
+  partySize: number;
+  listingPrice: number;
+  listedAt: string;
+  salePrice: number | null;
+  soldAt: string | null;
+}
+
+export interface PriceErrorStats {
+  mae: number;            // Mean absolute error, $
+  mape: number;           // Mean absolute error as a fraction of the sale price
+  bias: number;           // Mean (price - sale price), $: positive = priced too high
+}
+
+export interface BacktestOutcome {
+  sold: number;
+  revenue: number;
+  sellThroughRate: number;
+  avgDaysToSell: number | null;
+}
+
+export interface BacktestResults {
+  listings: number;
+  realized: BacktestOutcome & { listingError: PriceErrorStats | null };
+  candidate: BacktestOutcome & { priceError: PriceErrorStats | null; uncertain: number };
+  revenueChange: number;  // candidate - realized, $
+  byRestaurant: Array<{
+    restaurantName: string;
+    listings: number;
+    realizedSold: number;
+    candidateSold: number;
+    realizedRevenue: number;
+    candidateRevenue: number;
+  }>;
+}
+
+export interface BacktestRun {
+  id: number;
+  name: string;
+  config: BacktestConfig;
+  periodFrom: string | null;
+  periodTo: string | null;
+  results: BacktestResults;
+  runBy: string | null;
+  createdAt: string;
+}
+
+export class InvalidPricingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPricingConfigError';
+  }
+}
+
+export class InvalidBacktestPeriodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBacktestPeriodError';
+  }
+}
+
+// ============================================
+// CONFIG
+// ============================================
+
+const checkMultipliers = <K extends string>(
+  section: string,
+  values: Record<string, unknown> | undefined,
+  allowed: readonly K[]
+): Partial<Record<K, number>> => {
+  if (values === undefined) return {};
+  if (typeof values !== 'object' || values === null) {
+    throw new InvalidPricingConfigError(`${section} must be an object`);
+  }
+  for (const [key, value] of Object.entries(values)) {
+    if (!allowed.includes(key as K)) {
+      throw new InvalidPricingConfigError(`${section}.${key} is not one of ${allowed.join(', ')}`);
+    }
+    if (typeof value !== 'number' || !(value > 0) || !Number.isFinite(value)) {
+      throw new InvalidPricingConfigError(`${section}.${key} must be a number greater than 0`);
+    }
+  }
+  return values as Partial<Record<K, number>>;
+};
+
+/** A from/to bound of the replay period as YYYY-MM-DD, or null when open */
+const periodBound = (field: 'from' | 'to', value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'string') {
+    try {
+      return normalizeDate(value);
+    } catch {
+      // Reported below
+    }
+  }
+  throw new InvalidBacktestPeriodError(`${field} must be a date (YYYY-MM-DD)`);
+};
+
+/**
+ * The full config a candidate describes (current defaults for anything
+ * it leaves out). Throws InvalidPricingConfigError.
+ */
+export const resolveBacktestConfig = (input: BacktestConfigInput = {}): BacktestConfig => {
+  const days = checkMultipliers('dayMultipliers', input.dayMultipliers, ['0', '1', '2', '3', '4', '5', '6']);
+  const times = checkMultipliers('timePremiums', input.timePremiums, Object.keys(DEFAULT_PRICING_CONFIG.timePremiums) as TimeSlot[]);
+  const sizes = checkMultipliers('partySizePremiums', input.partySizePremiums, Object.keys(DEFAULT_PRICING_CONFIG.partySizePremiums) as PartySizeBand[]);
+  const bounds = checkMultipliers('demandBounds', input.demandBounds, ['min', 'max']);
+
+  const config: BacktestConfig = {
+    dayMultipliers: { ...DEFAULT_PRICING_CONFIG.dayMultipliers, ...days as Record<string, number> },
+    timePremiums: { ...DEFAULT_PRICING_CONFIG.timePremiums, ...times },
+    partySizePremiums: { ...DEFAULT_PRICING_CONFIG.partySizePremiums, ...sizes },
+    demandBounds: { ...DEFAULT_PRICING_CONFIG.demandBounds, ...bounds },
+    tiers: {},
+  };
+  if (config.demandBounds.min > config.demandBounds.max) {
+    throw new InvalidPricingConfigError('demandBounds.min must not be above demandBounds.max');
+  }
+
+  for (const [name, tier] of Object.entries(input.tiers || {})) {
+    if (!Number.isInteger(tier?.tier) || tier.tier < 1 || tier.tier > 5 || !(tier.basePrice > 0)) {
+      throw new InvalidPricingConfigError(`tiers.${name} needs a tier from 1 to 5 and a basePrice greater than 0`);
+    }
+    config.tiers[name] = { tier: tier.tier, basePrice: tier.basePrice };
+  }
+  return config;
+};
+
+// ============================================
+// REPLAY
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+const errorStats = (pairs: Array<{ price: number; salePrice: number }>): PriceErrorStats | null => {
+  if (pairs.length === 0) return null;
+  return {
+    mae: round(mean(pairs.map(p => Math.abs(p.price - p.salePrice)))!),
+    mape: round(mean(pairs.map(p => Math.abs(p.price - p.salePrice) / p.salePrice))!, 4),
+    bias: round(mean(pairs.map(p => p.price - p.salePrice))!),
+  };
+};
+
+const daysToSell = (listing: BacktestListing) =>
+  (new Date(listing.soldAt!).getTime() - new Date(listing.listedAt).getTime()) / DAY_MS;
+
+/**
+ * Replay listings against a config. `tiers` are the tiers in effect
+ * (built-in and stored); the config's own tiers win over them. Only
+ * listings put up within `period` are replayed, but sales before it
+ * still count toward demand.
+ */
+export const runBacktest = (
+  history: BacktestListing[],
+  config: BacktestConfig,
+  tiers: Record<string, RestaurantTier>,
+  period: { from?: string | null; to?: string | null } = {}
+): BacktestResults => {
+  const allTiers = { ...tiers, ...config.tiers };
+  const byLowerName = new Map(Object.entries(allTiers).map(([name, tier]) => [name.toLowerCase(), tier]));
+  const tierFor = (name: string) => allTiers[name] || byLowerName.get(name.toLowerCase()) || allTiers['default'];
+
+  const sales = history.filter(l => l.salePrice !== null && l.soldAt !== null);
+  const listings = history.filter(l =>
+    (!period.from || l.listedAt.slice(0, 10) >= period.from) && (!period.to || l.listedAt.slice(0, 10) <= period.to)
+  );
+
+  const replayed = listings.map(listing => {
+    // What the demand multiplier knew when this listing went up
+    const earlier = sales.filter(s => s.restaurantName === listing.restaurantName && s.soldAt! < listing.listedAt);
+    const ratio = mean(earlier.map(s => s.salePrice! / s.listingPrice));
+    const demand = toDemandMultiplier(ratio, config);
+
+    const price = priceFromTier(config, tierFor(listing.restaurantName).basePrice, listing, demand).price;
+    const realizedSale = listing.salePrice !== null;
+    const wouldSell = realizedSale && price <= listing.salePrice!;
+    const uncertain = !realizedSale && price < listing.listingPrice;
+    return { listing, price, realizedSale, wouldSell, uncertain };
+  });
+
+  const outcome = (sold: typeof replayed, revenue: number): BacktestOutcome => ({
+    sold: sold.length,
+    revenue: round(revenue),
+    sellThroughRate: listings.length ? round(sold.length / listings.length, 4) : 0,
+    avgDaysToSell: sold.length ? round(mean(sold.map(r => daysToSell(r.listing)))!, 1) : null,
+  });
+
+  const realizedSold = replayed.filter(r => r.realizedSale);
+  const candidateSold = replayed.filter(r => r.wouldSell);
+  const realized = outcome(realizedSold, realizedSold.reduce((sum, r) => sum + r.listing.salePrice!, 0));
+  const candidate = outcome(candidateSold, candidateSold.reduce((sum, r) => sum + r.price, 0));
+
+  const restaurants = new Map<string, BacktestResults['byRestaurant'][number]>();
+  for (const r of replayed) {
+    const entry = restaurants.get(r.listing.restaurantName) || {
+      restaurantName: r.listing.restaurantName,
+      listings: 0, realizedSold: 0, candidateSold: 0, realizedRevenue: 0, candidateRevenue: 0,
+    };
+    entry.listings++;
+    if (r.realizedSale) {
+      entry.realizedSold++;
+      entry.realizedRevenue = round(entry.realizedRevenue + r.listing.salePrice!);
+    }
+    if (r.wouldSell) {
+      entry.candidateSold++;
+      entry.candidateRevenue = round(entry.candidateRevenue + r.price);
+    }
+    restaurants.set(r.listing.restaurantName, entry);
+  }
+
+  return {
+    listings: listings.length,
+    realized: {
+      ...realized,
+      listingError: errorStats(realizedSold.map(r => ({ price: r.listing.listingPrice, salePrice: r.listing.salePrice! }))),
+    },
+    candidate: {
+      ...candidate,
+      priceError: errorStats(realizedSold.map(r => ({ price: r.price, salePrice: r.listing.salePrice! }))),
+      uncertain: replayed.filter(r => r.uncertain).length,
+    },
+    revenueChange: round(candidate.revenue - realized.revenue),
+    byRestaurant: [...restaurants.values()].sort((a, b) => b.listings - a.listings),
+  };
+};
+
+// ============================================
+// SERVICE
+// ============================================
+
+const toRun = (row: any): BacktestRun => ({
+  id: row.id,
+  name: row.name,
+  config: row.config,
+  periodFrom: row.period_from ? normalizeDate(row.period_from) : null,
+  periodTo: row.period_to ? normalizeDate(row.period_to) : null,
+  results: row.results,
+  runBy: row.run_by,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+class PricingBacktest {
+  private getPool() {
+    if (!pool) throw new Error('Database pool not initialized');
+    return pool;
+  }
+
+  /**
+   * Listings with a known outcome: sold, or no longer for sale (taken
+   * down, cancelled, or the reservation date passed)
+   */
+  async loadListings(): Promise<BacktestListing[]> {
+    const result = await this.getPool().query(`
+      SELECT t.id, t.restaurant_name, t.reservation_date, t.reservation_time, t.party_size,
+             t.listing_price, t.sale_price, t.sold_at,
+             COALESCE(
+               (SELECT MIN(h.changed_at) FROM reservation_status_history h WHERE h.transfer_id = t.id AND h.to_status = 'LISTED'),
+               t.created_at
+             ) AS listed_at
+      FROM transfers t
+      WHERE t.listing_price > 0
+        AND (
+          (t.sale_price > 0 AND t.sold_at IS NOT NULL)
+          OR t.status IN ('ACQUIRED', 'CANCELLED')
+          OR t.reservation_date < CURRENT_DATE
+        )
+      ORDER BY t.id
+    `);
+
+    return result.rows.map((row): BacktestListing => {
+      const sold = Number(row.sale_price) > 0 && row.sold_at !== null;
+      return {
+        transferId: row.id,
+        restaurantName: row.restaurant_name,
+        reservationDate: normalizeDate(row.reservation_date),
+        reservationTime: row.reservation_time,
+        partySize: row.party_size,
+        listingPrice: Number(row.listing_price),
+        listedAt: new Date(row.listed_at).toISOString(),
+        salePrice: sold ? Number(row.sale_price) : null,
+        soldAt: sold ? new Date(row.sold_at).toISOString() : null,
+      };
+    });
+  }
+
+  /**
+   * Backtest a candidate config; stored unless `save` is false.
+   * Throws InvalidPricingConfigError or InvalidBacktestPeriodError.
+   */
+  async run(options: {
+    name: string;
+    config?: BacktestConfigInput;
+    from?: string;
+    to?: string;
+    runBy?: string;
+    save?: boolean;
+  }): Promise<BacktestRun> {
+    const config = resolveBacktestConfig(options.config);
+    const from = periodBound('from', options.from);
+    const to = periodBound('to', options.to);
+    if (from && to && from > to) {
+      throw new InvalidBacktestPeriodError('from must not be after to');
+    }
+
+    const history = await this.loadListings();
+    const results = runBacktest(history, config, await pricingEngine.getRestaurantTiers(), { from, to });
+
+    if (options.save === false) {
+      return {
+        id: 0, name: options.name, config, periodFrom: from, periodTo: to, results,
+        runBy: options.runBy || null, createdAt: new Date().toISOString(),
+      };
+    }
+
+    const saved = await this.getPool().query(`
+      INSERT INTO pricing_backtests (name, config, period_from, period_to, results, run_by)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [options.name, config, from, to, results, options.runBy || null]);
+
+    console.log(`[PricingBacktest] 🧪 "${options.name}": ${results.listings} listings, revenue $${results.candidate.revenue} vs $${results.realized.revenue} realized`);
+    return toRun(saved.rows[0]);
+  }
+
+  /**
+   * Stored runs, newest first
+   */
+  async list(limit = 20): Promise<BacktestRun[]> {
+    const result = await this.getPool().query(
+      'SELECT * FROM pricing_backtests ORDER BY created_at DESC, id DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(toRun);
+  }
+
+  async get(id: number): Promise<BacktestRun | null> {
+    const result = await this.getPool().query('SELECT * FROM pricing_backtests WHERE id = $1', [id]);
+    return result.rows[0] ? toRun(result.rows[0]) : null;
+  }
+
+  async remove(id: number): Promise<boolean> {
+    const result = await this.getPool().query('DELETE FROM pricing_backtests WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
+
+export default new PricingBacktest();
@@ -1,11 +1,16 @@
 /**
  * Dynamic Pricing Engine
  * 
- * Analyzes market data to suggest optimal listing prices for AppointmentTrader.
- * Factors: restaurant tier, day of week, party size, time slot, historical sales
+ * Suggests listing prices for AppointmentTrader. Restaurants the price
+ * model (priceModel.ts) has seen enough of are priced by it - from our own
+ * sales, with an interval and the features that drove the number.
+ * Cold-start restaurants fall back to tiers: tier × day × time × party
+ * size × demand from historical sales.
  */
 
 import pool from '../db';
+import { normalizeDate } from '../shared/dropTime';
+import priceModel, { predictPrice, restaurantKey, FeatureEffect, INTERVAL_LEVEL } from './priceModel';
 
 interface PricingFactors {
   restaurantName: string;
@@ -30,10 +35,23 @@ interface PriceSuggestion {
     tierMultiplier: number;
   };
   reasoning: string[];
+  source: 'model' | 'tiers';
+  modelVersion: number | null;
+  interval: { low: number; high: number; level: number } | null;  // Model only
+  explanation: FeatureEffect[];                                      // Model only, strongest first
 }
 
-// Restaurant tiers based on difficulty and demand
-const RESTAURANT_TIERS: Record<string, { tier: number; basePrice: number }> = {
+export interface RestaurantTier {
+  tier: number;
+  basePrice: number;
+}
+
+// Rows the model needs for a restaurant before it prices it instead of tiers
+const MIN_RESTAURANT_ROWS = 3;
+
+// Built-in restaurant tiers based on difficulty and demand. Tiers added
+// from the dashboard are stored in pricing_tiers and take precedence.
+const DEFAULT_TIERS: Record<string, RestaurantTier> = {
   // Tier 5: Ultra-rare (Impossible to book)
   'Carbone': { tier: 5, basePrice: 200 },
   '4 Charles Prime Rib': { tier: 5, basePrice: 250 },
@@ -65,43 +83,86 @@ const RESTAURANT_TIERS: Record<string, { tier: number; basePrice: number }> = {
   'default': { tier: 1, basePrice: 35 },
 };
 
-// Day of week multipliers (weekends are premium)
-const DAY_MULTIPLIERS: Record<number, number> = {
-  0: 1.3,   // Sunday
-  1: 0.8,   // Monday
-  2: 0.85,  // Tuesday
-  3: 0.9,   // Wednesday
-  4: 1.0,   // Thursday
-  5: 1.4,   // Friday
-  6: 1.5,   // Saturday
+/**
+ * The multipliers tier pricing applies. pricingBacktest.ts replays past
+ * listings against candidate configs before these defaults are changed.
+ */
+export interface PricingConfig {
+  dayMultipliers: Record<number, number>;  // 0 = Sunday
+  timePremiums: Record<TimeSlot, number>;
+  partySizePremiums: Record<PartySizeBand, number>;
+  demandBounds: { min: number; max: number };  // Clamp on sale/listing price ratio
+}
+
+export type TimeSlot = 'prime' | 'shoulder' | 'late' | 'early' | 'lunch' | 'offPeak';
+export type PartySizeBand = '1-2' | '3' | '4' | '5' | '6+';
+
+export const DEFAULT_PRICING_CONFIG: PricingConfig = {
+  // Day of week multipliers (weekends are premium)
+  dayMultipliers: {
+    0: 1.3,   // Sunday
+    1: 0.8,   // Monday
+    2: 0.85,  // Tuesday
+    3: 0.9,   // Wednesday
+    4: 1.0,   // Thursday
+    5: 1.4,   // Friday
+    6: 1.5,   // Saturday
+  },
+  timePremiums: {
+    prime: 1.3,      // Prime dinner time (7-8 PM)
+    shoulder: 1.15,  // Good dinner time (6-7 PM, 8-9 PM)
+    late: 1.0,       // Late dinner (9+ PM)
+    early: 0.9,      // Early dinner (5-6 PM)
+    lunch: 0.7,      // Lunch (11 AM - 2 PM)
+    offPeak: 0.6,
+  },
+  // Party size premium (2-tops are standard, larger is premium)
+  partySizePremiums: { '1-2': 1.0, '3': 1.1, '4': 1.25, '5': 1.4, '6+': 1.6 },
+  demandBounds: { min: 0.8, max: 1.5 },
 };
 
-// Time slot premiums
-const getTimePremium = (time: string): number => {
+const getTimeSlot = (time: string): TimeSlot => {
   const hour = parseInt(time.split(':')[0]);
-  
-  // Prime dinner time (7-8 PM)
-  if (hour >= 19 && hour <= 20) return 1.3;
-  // Good dinner time (6-7 PM, 8-9 PM)
-  if ((hour >= 18 && hour < 19) || (hour > 20 && hour <= 21)) return 1.15;
-  // Late dinner (9+ PM)
-  if (hour > 21) return 1.0;
-  // Early dinner (5-6 PM)
-  if (hour >= 17 && hour < 18) return 0.9;
-  // Lunch (11 AM - 2 PM)
-  if (hour >= 11 && hour <= 14) return 0.7;
-  // Off-peak
-  return 0.6;
+  if (hour >= 19 && hour <= 20) return 'prime';
+  if ((hour >= 18 && hour < 19) || (hour > 20 && hour <= 21)) return 'shoulder';
+  if (hour > 21) return 'late';
+  if (hour >= 17 && hour < 18) return 'early';
+  if (hour >= 11 && hour <= 14) return 'lunch';
+  return 'offPeak';
 };
 
-// Party size premium (2-tops are standard, larger is premium)
-const getPartySizePremium = (size: number): number => {
-  if (size <= 2) return 1.0;
-  if (size === 3) return 1.1;
-  if (size === 4) return 1.25;
-  if (size === 5) return 1.4;
-  if (size >= 6) return 1.6;
-  return 1.0;
+const getPartySizeBand = (size: number): PartySizeBand =>
+  size <= 2 ? '1-2' : size >= 6 ? '6+' : String(size) as PartySizeBand;
+
+/**
+ * Demand multiplier from the average sale/listing price ratio (null: no sales)
+ */
+export const toDemandMultiplier = (priceRatio: number | null, config: PricingConfig = DEFAULT_PRICING_CONFIG): number =>
+  priceRatio ? Math.min(Math.max(priceRatio, config.demandBounds.min), config.demandBounds.max) : 1.0;
+
+/**
+ * Tier price: base × day × time × party size × demand, rounded to $5
+ */
+export const priceFromTier = (
+  config: PricingConfig,
+  basePrice: number,
+  reservation: { reservationDate: string; reservationTime: string; partySize: number },
+  demandMultiplier = 1.0
+) => {
+  // Day of week - read in UTC so a date-only string isn't shifted by the server's timezone
+  const dayOfWeek = new Date(`${normalizeDate(reservation.reservationDate)}T00:00:00Z`).getUTCDay();
+  const dayMultiplier = config.dayMultipliers[dayOfWeek];
+  const timePremium = config.timePremiums[getTimeSlot(reservation.reservationTime)];
+  const partySizePremium = config.partySizePremiums[getPartySizeBand(reservation.partySize)];
+
+  const calculatedPrice = basePrice * dayMultiplier * timePremium * partySizePremium * demandMultiplier;
+  return {
+    price: Math.round(calculatedPrice / 5) * 5,
+    dayOfWeek,
+    dayMultiplier,
+    timePremium,
+    partySizePremium,
+  };
 };
 
 class PricingEngine {
@@ -110,40 +171,72 @@ class PricingEngine {
    * Get suggested price for a reservation
    */
   async getSuggestedPrice(factors: PricingFactors): Promise<PriceSuggestion> {
+    const model = await priceModel.getActive();
+    const seen = model?.parameters.restaurants[restaurantKey(factors.restaurantName)];
+
+    if (model && seen && seen.rows >= MIN_RESTAURANT_ROWS) {
+      const city = factors.city || await this.getCity(factors.restaurantName);
+      const prediction = predictPrice(model.parameters, { ...factors, city });
+      const multiplierOf = (feature: FeatureEffect['feature']) =>
+        prediction.effects.find(e => e.feature === feature)?.multiplier ?? 1;
+
+      return {
+        suggestedPrice: prediction.price,
+        minPrice: prediction.low,
+        maxPrice: prediction.high,
+        confidence: prediction.restaurantSales >= 10 ? 'high' : prediction.restaurantSales >= 3 ? 'medium' : 'low',
+        factors: {
+          basePrice: prediction.baseline,
+          dayOfWeekMultiplier: multiplierOf('weekday'),
+          timePremium: multiplierOf('timeSlot'),
+          partySizePremium: multiplierOf('partySize'),
+          demandMultiplier: 1.0,  // Sales are already in the model
+          tierMultiplier: multiplierOf('restaurant'),
+        },
+        reasoning: [
+          `Price model v${model.version}: ${prediction.restaurantSales} sale(s) and ${prediction.restaurantRows - prediction.restaurantSales} listing/market price(s) for this restaurant`,
+          `Typical sale: $${Math.round(prediction.baseline)}`,
+          ...prediction.effects.map(e => `${e.label} (${e.value}): ${e.multiplier}x`),
+          `${INTERVAL_LEVEL * 100}% of similar sales: $${prediction.low}-$${prediction.high}`,
+        ],
+        source: 'model',
+        modelVersion: model.version,
+        interval: { low: prediction.low, high: prediction.high, level: INTERVAL_LEVEL },
+        explanation: prediction.effects,
+      };
+    }
+
+    const suggestion = await this.getTierPrice(factors);
+    suggestion.reasoning.push(model
+      ? `Cold start: price model v${model.version} has ${seen?.rows || 0} price(s) for this restaurant (needs ${MIN_RESTAURANT_ROWS}) - priced from tiers`
+      : 'No price model trained yet - priced from tiers');
+    return { ...suggestion, modelVersion: model?.version ?? null };
+  }
+
+  /**
+   * Price from the restaurant's tier and fixed multipliers
+   */
+  private async getTierPrice(factors: PricingFactors): Promise<PriceSuggestion> {
     const reasoning: string[] = [];
     
     // Get restaurant tier
-    const tierInfo = RESTAURANT_TIERS[factors.restaurantName] || RESTAURANT_TIERS['default'];
+    const knownTier = await this.getTier(factors.restaurantName);
+    const tierInfo = knownTier || DEFAULT_TIERS['default'];
     reasoning.push(`Restaurant tier: ${tierInfo.tier}/5 (base: $${tierInfo.basePrice})`);
     
-    // Day of week
-    const date = new Date(factors.reservationDate);
-    const dayOfWeek = date.getDay();
-    const dayMultiplier = DAY_MULTIPLIERS[dayOfWeek];
-    const dayName = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayOfWeek];
+    // Demand multiplier from historical data
+    const demandMultiplier = await this.getDemandMultiplier(factors.restaurantName, factors.reservationDate);
+    const priced = priceFromTier(DEFAULT_PRICING_CONFIG, tierInfo.basePrice, factors, demandMultiplier);
+    const { dayMultiplier, timePremium, partySizePremium } = priced;
+
+    const dayName = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][priced.dayOfWeek];
     reasoning.push(`${dayName} multiplier: ${dayMultiplier}x`);
-    
-    // Time premium
-    const timePremium = getTimePremium(factors.reservationTime);
     reasoning.push(`Time (${factors.reservationTime}) premium: ${timePremium}x`);
-    
-    // Party size
-    const partySizePremium = getPartySizePremium(factors.partySize);
     reasoning.push(`Party size (${factors.partySize}) premium: ${partySizePremium}x`);
-    
-    // Demand multiplier from historical data
-    const demandMultiplier = await this.getDemandMultiplier(factors.restaurantName, factors.reservationDate);
     reasoning.push(`Demand multiplier: ${demandMultiplier}x`);
     
-    // Calculate price
-    const calculatedPrice = tierInfo.basePrice 
-      * dayMultiplier 
-      * timePremium 
-      * partySizePremium 
-      * demandMultiplier;
-    
-    // Round to nearest $5
-    const suggestedPrice = Math.round(calculatedPrice / 5) * 5;
+    // Rounded to nearest $5
+    const suggestedPrice = priced.price;
     
     // Calculate range
     const minPrice = Math.round(suggestedPrice * 0.75 / 5) * 5;
@@ -151,7 +244,7 @@ class PricingEngine {
     
     // Determine confidence
     let confidence: 'high' | 'medium' | 'low' = 'medium';
-    if (RESTAURANT_TIERS[factors.restaurantName]) {
+    if (knownTier) {
       confidence = 'high';
     } else if (demandMultiplier !== 1.0) {
       confidence = 'medium';
@@ -173,6 +266,10 @@ class PricingEngine {
         tierMultiplier: tierInfo.tier * 0.2 + 0.6,
       },
       reasoning,
+      source: 'tiers',
+      modelVersion: null,
+      interval: null,
+      explanation: [],
     };
   }
   
@@ -198,9 +295,8 @@ class PricingEngine {
         `, [restaurantName]);
         
         if (result.rows[0]?.sales_count > 0) {
-          const priceRatio = parseFloat(result.rows[0].price_ratio) || 1.0;
           // If people are paying above listing, demand is high
-          return Math.min(Math.max(priceRatio, 0.8), 1.5);
+          return toDemandMultiplier(parseFloat(result.rows[0].price_ratio) || 1.0);
         }
         
         return 1.0;
@@ -287,18 +383,66 @@ class PricingEngine {
     }
   }
   
+  /**
+   * City of a restaurant we track, for the model's city feature
+   */
+  private async getCity(restaurantName: string): Promise<string | null> {
+    if (!pool) return null;
+    const result = await pool.query(
+      'SELECT city FROM restaurants WHERE LOWER(name) = LOWER($1) ORDER BY id LIMIT 1',
+      [restaurantName]
+    );
+    return result.rows[0]?.city ?? null;
+  }
+
+  /**
+   * A restaurant's tier: stored, then built-in (null: neither)
+   */
+  private async getTier(restaurantName: string): Promise<RestaurantTier | null> {
+    if (pool) {
+      const result = await pool.query(
+        'SELECT tier, base_price FROM pricing_tiers WHERE LOWER(restaurant_name) = LOWER($1)',
+        [restaurantName]
+      );
+      if (result.rows[0]) {
+        return { tier: result.rows[0].tier, basePrice: parseFloat(result.rows[0].base_price) };
+      }
+    }
+    return restaurantName !== 'default' ? DEFAULT_TIERS[restaurantName] || null : null;
+  }
+
   /**
    * Add or update restaurant tier
    */
-  addRestaurantTier(name: string, tier: number, basePrice: number): void {
-    RESTAURANT_TIERS[name] = { tier, basePrice };
+  async addRestaurantTier(name: string, tier: number, basePrice: number): Promise<void> {
+    if (!Number.isInteger(tier) || tier < 1 || tier > 5) {
+      throw new Error('tier must be a whole number from 1 to 5');
+    }
+    if (!(basePrice > 0)) {
+      throw new Error('basePrice must be greater than 0');
+    }
+    if (!pool) throw new Error('Database pool not initialized');
+
+    await pool.query(`
+      INSERT INTO pricing_tiers (restaurant_name, tier, base_price)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (restaurant_name) DO UPDATE
+      SET tier = EXCLUDED.tier, base_price = EXCLUDED.base_price, updated_at = NOW()
+    `, [name.trim(), tier, basePrice]);
   }
   
   /**
-   * Get all known restaurant tiers
+   * Get all known restaurant tiers, built-in and stored
    */
-  getRestaurantTiers(): Record<string, { tier: number; basePrice: number }> {
-    return { ...RESTAURANT_TIERS };
+  async getRestaurantTiers(): Promise<Record<string, RestaurantTier>> {
+    const tiers = { ...DEFAULT_TIERS };
+    if (pool) {
+      const result = await pool.query('SELECT restaurant_name, tier, base_price FROM pricing_tiers ORDER BY restaurant_name');
+      for (const row of result.rows) {
+        tiers[row.restaurant_name] = { tier: row.tier, basePrice: parseFloat(row.base_price) };
+      }
+    }
+    return tiers;
   }
 }
 
@@ -0,0 +1,409 @@
+/**
+ * Reservation Lifecycle Service
+ *
+ * A reservation is one aggregate: the portfolio item the dashboard tracks
+ * plus the transfer holding the booking once we have one. Both carry the
+ * same status (shared/reservationLifecycle.ts), and every status change -
+ * from the dashboard, the transfer workflow, the scheduler or a sync - goes
+ * through transition() here, which:
+ * - locks the item, then its transfer (that order on every path, so
+ *   concurrent item and transfer transitions can't deadlock)
+ * - rejects anything RESERVATION_TRANSITIONS doesn't allow (InvalidTransitionError)
+ * - moves both rows together, with any fields that go with the change
+ * - records the change in reservation_status_history
+ *
+ * An item's current transfer is its newest one; older transfers on the
+ * same item (a cancelled booking that was rebooked) keep their own status.
+ *
+ * Each recorded change is also published to the dashboard's event stream
+ * ('reservation.status') once its transaction commits.
+ */
+
+import type { PoolClient } from 'pg';
+import pool from '../db';
+import type { Transfer } from './transferTracker';
+import { AuditActor, SYSTEM_ACTOR } from './auditLog';
+import eventStream from './eventStream';
+import {
+  ReservationStatus,
+  RESERVATION_TRANSITIONS,
+  assertTransition,
+  toReservationStatus,
+  transitionPath,
+} from '../shared/reservationLifecycle';
+import type { ServerEventPayloads } from '../shared/serverEvents';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Reservation {
+  id: string;                               // The portfolio item id
+  status: ReservationStatus;
+  item: Record<string, any>;                // portfolio_items row
+  transfer: Transfer | null;                // Current transfer, if booked
+  allowed_transitions: ReservationStatus[];
+}
+
+export interface StatusChange {
+  id: number;
+  portfolio_item_id: string;
+  transfer_id: number | null;
+  from_status: ReservationStatus | null;    // Null: created in to_status
+  to_status: ReservationStatus;
+  source: string;
+  actor: string;
+  actor_user_id: number | null;
+  note: string | null;
+  changed_at: string;
+}
+
+export interface TransitionOptions {
+  actor?: AuditActor;
+  note?: string;
+  item?: Record<string, unknown>;           // Columns to set on the portfolio item
+  transfer?: Record<string, unknown>;       // Columns to set on the transfer
+  onlyIfChanged?: boolean;                  // Set nothing if it already has the status
+}
+
+export interface TransitionResult {
+  item: Record<string, any>;
+  transfer: Transfer | null;
+  changed: boolean;                         // False when it already had the status
+}
+
+export interface ReservationFilters {
+  status?: ReservationStatus;
+  platform?: string;
+  upcoming_only?: boolean;
+}
+
+// Columns a transition may set alongside the status
+const ITEM_FIELDS = ['cost_basis', 'list_price', 'sold_price', 'guest_name', 'confirmation_number'];
+const TRANSFER_FIELDS = [
+  'at_listing_id', 'at_listing_url', 'listing_price',
+  'buyer_name', 'buyer_email', 'buyer_phone', 'sale_price', 'transfer_method', 'transfer_deadline', 'sold_at',
+  'transfer_notes', 'transfer_completed_at',
+  'cancelled_at', 'cancellation_reason', 'cancellation_fee_charged',
+];
+
+const CURRENT_TRANSFER = `
+  SELECT * FROM transfers WHERE portfolio_item_id = $1 ORDER BY created_at DESC, id DESC LIMIT 1
+`;
+
+// ============================================
+// SERVICE
+// ============================================
+
+class ReservationLifecycle {
+  // Status events waiting for their transaction to commit
+  private unpublished = new Map<PoolClient, ServerEventPayloads['reservation.status'][]>();
+
+  private getPool() {
+    if (!pool) throw new Error('Database pool not initialized');
+    return pool;
+  }
+
+  /**
+   * Run fn in a transaction on one connection
+   */
+  async transaction<T>(fn: (db: PoolClient) => Promise<T>): Promise<T> {
+    const db = await this.getPool().connect();
+    this.unpublished.set(db, []);
+    try {
+      await db.query('BEGIN');
+      const result = await fn(db);
+      await db.query('COMMIT');
+      for (const change of this.unpublished.get(db)!) eventStream.publish('reservation.status', change);
+      return result;
+    } catch (error) {
+      await db.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      this.unpublished.delete(db);
+      db.release();
+    }
+  }
+
+  // ============================================
+  // READ
+  // ============================================
+
+  async list(filters: ReservationFilters = {}): Promise<Reservation[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`p.status = $${params.length}`);
+    }
+    if (filters.platform) {
+      params.push(filters.platform);
+      conditions.push(`LOWER(p.platform) = LOWER($${params.length})`);
+    }
+    if (filters.upcoming_only) {
+      conditions.push('p.date >= CURRENT_DATE');
+    }
+
+    const result = await this.getPool().query(`
+      SELECT p.*, CASE WHEN t.id IS NULL THEN NULL ELSE row_to_json(t) END AS current_transfer
+      FROM portfolio_items p
+      LEFT JOIN LATERAL (
+        SELECT * FROM transfers WHERE portfolio_item_id = p.id ORDER BY created_at DESC, id DESC LIMIT 1
+      ) t ON true
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY p.date ASC, p.time ASC
+    `, params);
+
+    return result.rows.map(toReservation);
+  }
+
+  async get(itemId: string): Promise<Reservation | null> {
+    const item = await this.getPool().query('SELECT * FROM portfolio_items WHERE id = $1', [itemId]);
+    if (item.rows.length === 0) return null;
+    const transfer = await this.getPool().query(CURRENT_TRANSFER, [itemId]);
+    return toReservation({ ...item.rows[0], current_transfer: transfer.rows[0] || null });
+  }
+
+  async getHistory(itemId: string): Promise<StatusChange[]> {
+    const result = await this.getPool().query(
+      'SELECT * FROM reservation_status_history WHERE portfolio_item_id = $1 ORDER BY changed_at ASC, id ASC',
+      [itemId]
+    );
+    return result.rows.map(row => ({ ...row, id: Number(row.id) }));
+  }
+
+  // ============================================
+  // TRANSITIONS
+  // ============================================
+
+  /**
+   * Move a reservation (and its current transfer) to a new status.
+   * Null when the item doesn't exist.
+   */
+  async transition(itemId: string, to: ReservationStatus, options: TransitionOptions = {}): Promise<TransitionResult | null> {
+    return this.transaction(db => this.transitionIn(db, itemId, to, options));
+  }
+
+  /**
+   * transition() as part of a transaction the caller opened with
+   * transaction(), so it commits or rolls back with the caller's writes
+   */
+  async transitionIn(db: PoolClient, itemId: string, to: ReservationStatus, options: TransitionOptions = {}): Promise<TransitionResult | null> {
+    const item = await db.query('SELECT * FROM portfolio_items WHERE id = $1 FOR UPDATE', [itemId]);
+    if (item.rows.length === 0) return null;
+    const transfer = await db.query(`${CURRENT_TRANSFER} FOR UPDATE`, [itemId]);
+    return this.apply(db, item.rows[0], transfer.rows[0] || null, true, to, options);
+  }
+
+  /**
+   * The item's current transfer, if it was ever booked
+   */
+  async currentTransfer(db: PoolClient, itemId: string): Promise<Transfer | null> {
+    const result = await db.query(CURRENT_TRANSFER, [itemId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Move a transfer to a new status - and its reservation, if it's the
+   * item's current transfer. Null when the transfer doesn't exist.
+   */
+  async transitionTransfer(transferId: number, to: ReservationStatus, options: TransitionOptions = {}): Promise<TransitionResult | null> {
+    return this.transaction(async db => {
+      const owner = await db.query('SELECT portfolio_item_id FROM transfers WHERE id = $1', [transferId]);
+      if (owner.rows.length === 0) return null;
+
+      // Same lock order as every other path: the item, then the transfer
+      const itemId = owner.rows[0].portfolio_item_id;
+      const item = await db.query('SELECT * FROM portfolio_items WHERE id = $1 FOR UPDATE', [itemId]);
+      const transfer = await db.query('SELECT * FROM transfers WHERE id = $1 FOR UPDATE', [transferId]);
+      const current = await db.query(CURRENT_TRANSFER, [itemId]);
+      const isCurrent = current.rows[0]?.id === transferId;
+
+      return this.apply(db, item.rows[0] || null, transfer.rows[0], isCurrent, to, options);
+    });
+  }
+
+  /**
+   * History for an item created outside a transition (from_status NULL)
+   */
+  async recordCreated(itemId: string, status: ReservationStatus, actor: AuditActor = SYSTEM_ACTOR, note?: string, db?: PoolClient): Promise<void> {
+    await this.recordChange(db || this.getPool(), itemId, null, null, status, actor, note);
+  }
+
+  /**
+   * Link a newly created transfer to its reservation, inside the
+   * transaction that inserted it (see transferTracker.createTransfer):
+   * - no item: one is created from the transfer
+   * - an item: it's walked to the transfer's status along valid transitions
+   *   (WATCHING -> ACQUIRED, or on to COMPLETED for a concierge booking)
+   * - an item already holding a live booking, or one that can't reach the
+   *   transfer's status: the booking gets an item of its own
+   */
+  async attachTransfer(db: PoolClient, transfer: Transfer, options: { time: string; actor?: AuditActor }): Promise<Transfer> {
+    const actor = options.actor || SYSTEM_ACTOR;
+    const to = toReservationStatus(transfer.status)!;
+
+    if (transfer.portfolio_item_id) {
+      const item = await db.query('SELECT * FROM portfolio_items WHERE id = $1 FOR UPDATE', [transfer.portfolio_item_id]);
+      const held = await db.query(
+        `SELECT 1 FROM transfers WHERE portfolio_item_id = $1 AND id <> $2 AND status <> 'CANCELLED' LIMIT 1`,
+        [transfer.portfolio_item_id, transfer.id]
+      );
+      const from = toReservationStatus(item.rows[0]?.status);
+      const path = from && held.rows.length === 0 ? transitionPath(from, to) : null;
+
+      if (path) {
+        let previous = from!;
+        for (const status of path) {
+          await this.recordChange(db, transfer.portfolio_item_id, transfer.id, previous, status, actor, 'Booking recorded');
+          previous = status;
+        }
+        await db.query(`
+          UPDATE portfolio_items
+          SET status = $2, confirmation_number = COALESCE(confirmation_number, $3), updated_at = NOW()
+          WHERE id = $1
+        `, [transfer.portfolio_item_id, to, transfer.confirmation_number || null]);
+        return transfer;
+      }
+
+      console.warn(`[Lifecycle] ⚠️ Item ${transfer.portfolio_item_id} can't take transfer ${transfer.id} (${from} -> ${to}) - giving it its own`);
+    }
+
+    const itemId = `transfer-${transfer.id}`;
+    await db.query(`
+      INSERT INTO portfolio_items (
+        id, restaurant_name, date, time, guests, platform, status, guest_name, confirmation_number
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      itemId,
+      transfer.restaurant_name,
+      transfer.reservation_date,
+      options.time,
+      transfer.party_size,
+      transfer.platform,
+      to,
+      transfer.booked_under_name || null,
+      transfer.confirmation_number || null,
+    ]);
+    const linked = await db.query(
+      'UPDATE transfers SET portfolio_item_id = $2 WHERE id = $1 RETURNING *',
+      [transfer.id, itemId]
+    );
+    await this.recordChange(db, itemId, transfer.id, null, to, actor, 'Booking recorded');
+    return linked.rows[0];
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async apply(
+    db: PoolClient,
+    item: Record<string, any> | null,
+    transfer: Transfer | null,
+    isCurrent: boolean,
+    to: ReservationStatus,
+    options: TransitionOptions
+  ): Promise<TransitionResult> {
+    const stored = transfer ? transfer.status : item!.status;
+    const from = toReservationStatus(stored);
+    if (!from) throw new Error(`Reservation has an unknown status: ${stored}`);
+
+    const changed = from !== to;
+    if (changed) assertTransition(from, to);
+    if (!changed && options.onlyIfChanged) return { item: item!, transfer, changed };
+
+    let updatedTransfer = transfer;
+    if (transfer) {
+      updatedTransfer = await update(db, 'transfers', transfer, {
+        ...pick(options.transfer, TRANSFER_FIELDS),
+        ...(changed ? { status: to } : {}),
+      }) as Transfer;
+    }
+
+    let updatedItem = item;
+    if (item && isCurrent) {
+      updatedItem = await update(db, 'portfolio_items', item, {
+        ...pick(options.item, ITEM_FIELDS),
+        ...(changed || item.status !== to ? { status: to } : {}),
+      });
+    }
+
+    if (changed && item) {
+      await this.recordChange(db, item.id, transfer?.id ?? null, from, to, options.actor || SYSTEM_ACTOR, options.note);
+      console.log(`[Lifecycle] ${item.restaurant_name}: ${from} -> ${to}${transfer ? ` (transfer ${transfer.id})` : ''}`);
+    }
+
+    return { item: updatedItem!, transfer: updatedTransfer, changed };
+  }
+
+  private async recordChange(
+    db: PoolClient | NonNullable<typeof pool>,
+    itemId: string,
+    transferId: number | null,
+    from: ReservationStatus | null,
+    to: ReservationStatus,
+    actor: AuditActor,
+    note?: string
+  ): Promise<void> {
+    await db.query(`
+      INSERT INTO reservation_status_history (
+        portfolio_item_id, transfer_id, from_status, to_status, source, actor, actor_user_id, note
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [itemId, transferId, from, to, actor.source, actor.actor, actor.userId ?? null, note || null]);
+
+    const change = { portfolioItemId: itemId, transferId, from, to, actor: actor.actor };
+    const pending = this.unpublished.get(db as PoolClient);
+    if (pending) {
+      pending.push(change);
+    } else {
+      eventStream.publish('reservation.status', change);
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const toReservation = (row: Record<string, any>): Reservation => {
+  const { current_transfer, ...item } = row;
+  const status = toReservationStatus(current_transfer?.status ?? item.status) ?? 'WATCHING';
+  return {
+    id: item.id,
+    status,
+    item,
+    transfer: current_transfer,
+    allowed_transitions: RESERVATION_TRANSITIONS[status],
+  };
+};
+
+/**
+ * The defined values of the allowed columns
+ */
+const pick = (fields: Record<string, unknown> | undefined, allowed: string[]): Record<string, unknown> => {
+  const picked: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields || {})) {
+    if (!allowed.includes(key)) throw new Error(`${key} can't be set by a status change`);
+    if (value !== undefined) picked[key] = value;
+  }
+  return picked;
+};
+
+/**
+ * Set columns on a locked row (untouched when there's nothing to set)
+ */
+const update = async (db: PoolClient, table: 'transfers' | 'portfolio_items', row: Record<string, any>, values: Record<string, unknown>) => {
+  const columns = Object.keys(values);
+  if (columns.length === 0) return row;
+  const result = await db.query(`
+    UPDATE ${table}
+    SET ${[...columns.map((column, i) => `${column} = $${i + 2}`), 'updated_at = NOW()'].join(', ')}
+    WHERE id = $1
+    RETURNING *
+  `, [row.id, ...columns.map(column => values[column])]);
+  return result.rows[0];
+};
+
+export default new ReservationLifecycle();
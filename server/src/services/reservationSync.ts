@@ -0,0 +1,482 @@
+/**
+ * Reservation Sync
+ *
+ * Reconciles the upcoming reservations on our platform accounts with the
+ * transfers and portfolio items we track, by confirmation number:
+ * - matched   listed by the platform and tracked
+ * - imported  booked outside the app - a transfer is created, and a
+ *             portfolio item unless one already has the confirmation number
+ * - changed   tracked, but the platform has another date, time or party size
+ * - missing   tracked, but no account lists it any more (probably cancelled
+ *             by the venue) - flagged on the transfer, alerted once
+ *
+ * Accounts are the server's own credentials plus every identity with
+ * credentials for the platform, on each platform whose adapter can list
+ * reservations (Resy today).
+ *
+ * A platform where any account couldn't be read is left out of the missing
+ * check - a failed fetch must not look like a cancellation. So are today's
+ * reservations: platforms stop listing them as "upcoming" once seated.
+ *
+ * Runs daily as the reconcile-reservations job, or on demand via
+ * POST /api/transfers/reconciliation. Every report is kept in
+ * reservation_sync_runs (migration 016).
+ */
+
+import { randomUUID } from 'crypto';
+import pool from '../db';
+import transferTracker, { Transfer, TransferStatus, toWallClockTime } from './transferTracker';
+import reservationLifecycle from './reservationLifecycle';
+import identityManager, { BookingIdentity } from './identityManager';
+import auditLog, { AuditActor } from './auditLog';
+import { isConfigured as hasCredentials } from './credentialHealth';
+import * as telegram from '../sniper/telegram';
+import { listAdapters, detectPlatform, PlatformAdapter, PlatformId, PlatformReservation } from '../platforms';
+import { normalizeDate } from '../shared/dropTime';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SyncTrigger = 'schedule' | 'manual';
+
+export interface SyncAccount {
+  platform: PlatformId;
+  account: string;              // Identity name, or 'Server account' for the env credentials
+  identityId: number | null;
+  listed: number;
+  error?: string;
+}
+
+export interface ReconciledReservation {
+  platform: PlatformId;
+  confirmationCode: string;
+  restaurantName: string;
+  date: string;
+  time: string;
+  partySize: number;
+  account: string | null;       // Which account lists it (null for missing ones)
+  transferId: number | null;
+  portfolioItemId: string | null;
+}
+
+export interface ReservationDifference {
+  field: 'date' | 'time' | 'party_size';
+  recorded: string;
+  platform: string;
+}
+
+export interface ChangedReservation extends ReconciledReservation {
+  differences: ReservationDifference[];
+}
+
+export interface MissingReservation extends ReconciledReservation {
+  status: TransferStatus;
+  missingSince: string;
+  newlyMissing: boolean;        // Flagged by this run
+}
+
+export interface ReconciliationReport {
+  id: number | null;
+  trigger: SyncTrigger;
+  triggeredBy: string | null;
+  startedAt: string;
+  finishedAt: string;
+  accounts: SyncAccount[];
+  matched: ReconciledReservation[];
+  imported: ReconciledReservation[];
+  changed: ChangedReservation[];
+  missing: MissingReservation[];
+  uncheckedPlatforms: PlatformId[];   // No missing check: an account failed, or none is configured
+  summary: string;
+}
+
+export interface SyncRun {
+  id: number;
+  trigger_type: SyncTrigger;
+  triggered_by: string | null;
+  started_at: Date;
+  finished_at: Date;
+  matched: number;
+  imported: number;
+  changed: number;
+  missing: number;
+  failed_accounts: number;
+}
+
+interface ListedReservation {
+  adapter: PlatformAdapter;
+  account: SyncAccount;
+  identity: BookingIdentity | null;
+  reservation: PlatformReservation;
+}
+
+const SERVER_ACCOUNT = 'Server account';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const describeListed = ({ adapter, account, reservation }: ListedReservation): Omit<ReconciledReservation, 'transferId' | 'portfolioItemId'> => ({
+  platform: adapter.id,
+  confirmationCode: reservation.confirmationCode,
+  restaurantName: reservation.venueName || `${adapter.label} venue ${reservation.venueId}`,
+  date: reservation.date,
+  time: reservation.time,
+  partySize: reservation.partySize,
+  account: account.account,
+});
+
+/**
+ * Where the platform's copy disagrees with the transfer
+ */
+export const diffReservation = (transfer: Transfer, reservation: PlatformReservation): ReservationDifference[] => {
+  const differences: ReservationDifference[] = [];
+  const recordedDate = normalizeDate(transfer.reservation_date);
+  const recordedTime = toWallClockTime(transfer.reservation_time) || transfer.reservation_time;
+
+  if (recordedDate !== reservation.date) {
+    differences.push({ field: 'date', recorded: recordedDate, platform: reservation.date });
+  }
+  if (recordedTime !== reservation.time) {
+    differences.push({ field: 'time', recorded: recordedTime, platform: reservation.time });
+  }
+  if (Number(transfer.party_size) !== reservation.partySize) {
+    differences.push({ field: 'party_size', recorded: String(transfer.party_size), platform: String(reservation.partySize) });
+  }
+  return differences;
+};
+
+const summarize = (report: Omit<ReconciliationReport, 'summary'>): string => {
+  const failed = report.accounts.filter(a => a.error).length;
+  const parts = [
+    `${report.matched.length} matched`,
+    `${report.imported.length} imported`,
+    `${report.changed.length} changed`,
+    `${report.missing.length} missing`,
+  ];
+  if (failed > 0) parts.push(`${failed} account${failed === 1 ? '' : 's'} unreadable`);
+  return parts.join(', ');
+};
+
+class ReservationSync {
+  private running = false;
+
+  private getPool() {
+    if (!pool) throw new Error('Database pool not initialized');
+    return pool;
+  }
+
+  // =====================================================
+  // RECONCILE
+  // =====================================================
+
+  /**
+   * Pull every account's upcoming reservations and reconcile them with
+   * what we track. Stores and returns the report.
+   */
+  async reconcile(trigger: SyncTrigger, actor: AuditActor): Promise<ReconciliationReport> {
+    const db = this.getPool();
+    if (this.running) {
+      throw new Error('A reservation sync is already running');
+    }
+    this.running = true;
+
+    try {
+      const startedAt = new Date();
+      console.log(`[ReservationSync] 🔄 Reconciling platform reservations (${trigger})`);
+
+      const { accounts, listed } = await this.fetchAccounts();
+      const codes = listed.map(l => l.reservation.confirmationCode);
+      const transfers = await transferTracker.getTransfersByConfirmation(codes);
+
+      const matched: ReconciledReservation[] = [];
+      const imported: ReconciledReservation[] = [];
+      const changed: ChangedReservation[] = [];
+      const seenIds: number[] = [];
+
+      for (const entry of listed) {
+        const { adapter, reservation } = entry;
+        const transfer = transfers.find(t =>
+          t.confirmation_number === reservation.confirmationCode && detectPlatform(t.platform) === adapter.id
+        );
+
+        if (!transfer) {
+          const created = await this.importReservation(entry, actor);
+          seenIds.push(created.id);
+          imported.push({ ...describeListed(entry), transferId: created.id, portfolioItemId: created.portfolio_item_id ?? null });
+          continue;
+        }
+
+        seenIds.push(transfer.id);
+        const result = {
+          ...describeListed(entry),
+          restaurantName: transfer.restaurant_name,
+          transferId: transfer.id,
+          portfolioItemId: transfer.portfolio_item_id ?? null,
+        };
+        const differences = diffReservation(transfer, reservation);
+        if (differences.length > 0) {
+          changed.push({ ...result, differences });
+        } else {
+          matched.push(result);
+        }
+      }
+
+      await transferTracker.markSeenOnPlatform(seenIds);
+
+      // Only platforms where every account was read, and at least one was
+      const checked = listAdapters()
+        .filter(adapter => adapter.listReservations)
+        .map(adapter => adapter.id)
+        .filter(platform => {
+          const platformAccounts = accounts.filter(a => a.platform === platform);
+          return platformAccounts.length > 0 && platformAccounts.every(a => !a.error);
+        });
+      const uncheckedPlatforms = listAdapters()
+        .filter(adapter => adapter.listReservations && !checked.includes(adapter.id))
+        .map(adapter => adapter.id);
+
+      const missing = await this.flagMissing(checked, new Set(seenIds), actor);
+
+      const report: Omit<ReconciliationReport, 'summary'> = {
+        id: null,
+        trigger,
+        triggeredBy: actor.actor,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        accounts,
+        matched,
+        imported,
+        changed,
+        missing,
+        uncheckedPlatforms,
+      };
+      const complete: ReconciliationReport = { ...report, summary: summarize(report) };
+
+      const saved = await db.query(`
+        INSERT INTO reservation_sync_runs (
+          trigger_type, triggered_by, started_at, finished_at,
+          matched, imported, changed, missing, failed_accounts, report
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING id
+      `, [
+        trigger,
+        actor.actor,
+        complete.startedAt,
+        complete.finishedAt,
+        matched.length,
+        imported.length,
+        changed.length,
+        missing.length,
+        accounts.filter(a => a.error).length,
+        JSON.stringify(complete),
+      ]);
+      complete.id = saved.rows[0].id;
+
+      console.log(`[ReservationSync] ✅ ${complete.summary}`);
+      return complete;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Every account's upcoming reservations, each confirmation number once
+   */
+  private async fetchAccounts(): Promise<{ accounts: SyncAccount[]; listed: ListedReservation[] }> {
+    const accounts: SyncAccount[] = [];
+    const listed: ListedReservation[] = [];
+    const identities = await identityManager.getAllIdentities();
+
+    for (const adapter of listAdapters()) {
+      if (!adapter.listReservations) continue;
+
+      const sources: (BookingIdentity | null)[] = [
+        ...(adapter.getStatus().ready ? [null] : []),
+        ...identities.filter(identity => hasCredentials(identity, adapter.id)),
+      ];
+
+      for (const identity of sources) {
+        const account: SyncAccount = {
+          platform: adapter.id,
+          account: identity ? identity.name : SERVER_ACCOUNT,
+          identityId: identity ? identity.id : null,
+          listed: 0,
+        };
+        accounts.push(account);
+
+        try {
+          const reservations = await adapter.listReservations(identity ?? undefined);
+          account.listed = reservations.length;
+          for (const reservation of reservations) {
+            const duplicate = listed.some(l =>
+              l.adapter.id === adapter.id && l.reservation.confirmationCode === reservation.confirmationCode
+            );
+            if (!duplicate) listed.push({ adapter, account, identity, reservation });
+          }
+        } catch (error: any) {
+          account.error = error.message;
+          console.error(`[ReservationSync] ❌ Couldn't list ${adapter.label} reservations for ${account.account}: ${error.message}`);
+        }
+      }
+    }
+
+    return { accounts, listed };
+  }
+
+  /**
+   * Track a booking made outside the app: a transfer, linked to the
+   * portfolio item with its confirmation number or a new one
+   */
+  private async importReservation(entry: ListedReservation, actor: AuditActor): Promise<Transfer> {
+    const { adapter, identity, reservation } = entry;
+    const db = this.getPool();
+    const restaurantName = describeListed(entry).restaurantName;
+
+    const existing = await db.query(
+      'SELECT id FROM portfolio_items WHERE confirmation_number = $1 LIMIT 1',
+      [reservation.confirmationCode]
+    );
+    let portfolioItemId: string = existing.rows[0]?.id;
+
+    if (!portfolioItemId) {
+      portfolioItemId = randomUUID();
+      const venueId = adapter.venue.numeric ? Number(reservation.venueId) || null : reservation.venueId || null;
+      await db.query(`
+        INSERT INTO portfolio_items (
+          id, restaurant_name, date, time, guests, platform, status,
+          guest_name, confirmation_number, ${adapter.venue.itemColumn}
+        ) VALUES ($1, $2, $3, $4, $5, $6, 'ACQUIRED', $7, $8, $9)
+      `, [
+        portfolioItemId,
+        restaurantName,
+        reservation.date,
+        reservation.time,
+        reservation.partySize,
+        adapter.label,
+        reservation.guestName || identity?.name || null,
+        reservation.confirmationCode,
+        venueId,
+      ]);
+      await reservationLifecycle.recordCreated(portfolioItemId, 'ACQUIRED', actor, `Imported from ${adapter.label}`);
+    }
+
+    const transfer = await transferTracker.createTransfer({
+      portfolio_item_id: portfolioItemId,
+      restaurant_name: restaurantName,
+      platform: adapter.id,
+      reservation_date: reservation.date,
+      reservation_time: reservation.time,
+      party_size: reservation.partySize,
+      confirmation_number: reservation.confirmationCode,
+      booking_identity_id: identity?.id,
+      booking_type: reservation.onBehalfOf ? 'concierge' : 'standard',
+      booked_under_name: reservation.guestName || identity?.name,
+      imported: true,
+    }, actor);
+
+    console.log(`[ReservationSync] 📥 Imported ${adapter.label} ${reservation.confirmationCode}: ${restaurantName} ${reservation.date} ${reservation.time}`);
+    await auditLog.record({
+      action: 'reservation.imported',
+      outcome: 'success',
+      actor,
+      platform: adapter.id,
+      portfolioItemId,
+      transferId: transfer.id,
+      identityId: identity?.id ?? null,
+      request: { account: entry.account.account, confirmationCode: reservation.confirmationCode },
+      response: { status: transfer.status, bookingType: transfer.booking_type },
+    });
+
+    return transfer;
+  }
+
+  /**
+   * Flag held reservations on fully-read platforms that no account listed
+   */
+  private async flagMissing(platforms: PlatformId[], seen: Set<number>, actor: AuditActor): Promise<MissingReservation[]> {
+    const held = await transferTracker.getHeldReservations();
+    const absent = held.filter(t => {
+      const platform = detectPlatform(t.platform);
+      return !!platform && platforms.includes(platform) && !seen.has(t.id);
+    });
+
+    const newlyFlagged = await transferTracker.markMissingOnPlatform(absent.map(t => t.id));
+    const flaggedAt = new Map(newlyFlagged.map(t => [t.id, t.platform_missing_since]));
+
+    const missing = absent.map((transfer): MissingReservation => {
+      const since = flaggedAt.get(transfer.id) ?? transfer.platform_missing_since;
+      return {
+        platform: detectPlatform(transfer.platform)!,
+        confirmationCode: transfer.confirmation_number!,
+        restaurantName: transfer.restaurant_name,
+        date: normalizeDate(transfer.reservation_date),
+        time: toWallClockTime(transfer.reservation_time) || transfer.reservation_time,
+        partySize: Number(transfer.party_size),
+        account: null,
+        transferId: transfer.id,
+        portfolioItemId: transfer.portfolio_item_id ?? null,
+        status: transfer.status,
+        missingSince: new Date(since!).toISOString(),
+        newlyMissing: flaggedAt.has(transfer.id),
+      };
+    });
+
+    const alerts = missing.filter(m => m.newlyMissing);
+    for (const reservation of alerts) {
+      console.warn(`[ReservationSync] ❓ ${reservation.platform} ${reservation.confirmationCode} (${reservation.restaurantName}) is no longer on the platform`);
+      await auditLog.record({
+        action: 'reservation.missing_on_platform',
+        outcome: 'failure',
+        actor,
+        platform: reservation.platform,
+        portfolioItemId: reservation.portfolioItemId,
+        transferId: reservation.transferId,
+        request: { confirmationCode: reservation.confirmationCode },
+        error: 'Reservation no longer listed on the platform account',
+      });
+    }
+    if (alerts.length > 0) {
+      await telegram.notifyReservationsMissing(alerts.map(m => ({
+        restaurantName: m.restaurantName,
+        reservationAt: `${m.date} ${m.time}, party of ${m.partySize}`,
+        platform: m.platform,
+        confirmation: m.confirmationCode,
+      })));
+    }
+
+    return missing;
+  }
+
+  // =====================================================
+  // REPORTS
+  // =====================================================
+
+  /**
+   * A stored report - the latest without an id
+   */
+  async getReport(id?: number): Promise<ReconciliationReport | null> {
+    const result = id
+      ? await this.getPool().query('SELECT id, report FROM reservation_sync_runs WHERE id = $1', [id])
+      : await this.getPool().query('SELECT id, report FROM reservation_sync_runs ORDER BY started_at DESC, id DESC LIMIT 1');
+    const row = result.rows[0];
+    return row ? { ...row.report, id: row.id } : null;
+  }
+
+  /**
+   * Recent runs, without their reports
+   */
+  async getRuns(limit = 20): Promise<SyncRun[]> {
+    const result = await this.getPool().query(`
+      SELECT id, trigger_type, triggered_by, started_at, finished_at,
+             matched, imported, changed, missing, failed_accounts
+      FROM reservation_sync_runs
+      ORDER BY started_at DESC, id DESC
+      LIMIT $1
+    `, [Math.min(limit, 100)]);
+    return result.rows;
+  }
+}
+
+export default new ReservationSync();
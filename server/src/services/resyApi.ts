@@ -21,19 +21,29 @@
  * 5. Copy the 'x-resy-auth-token' header value
  */
 
-import axios, { AxiosInstance } from 'axios';
+import platformGovernor from './platformGovernor';
+import dropTrace from './dropTrace';
 import dotenv from 'dotenv';
 import path from 'path';
 
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
+// Rate-limited transport shared by every resy account (see platformGovernor.ts)
+const http = platformGovernor.createHttpClient('resy', 'x-resy-auth-token');
+
 // ============================================
 // CONFIGURATION
 // ============================================
 
 // Public API key - this is the same for everyone (it's in the website's JS bundle)
 const RESY_API_KEY = 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5';
-const RESY_BASE_URL = 'https://api.resy.com';
+// Override to point at a local platform simulator (see src/simulator)
+const RESY_BASE_URL = process.env.RESY_BASE_URL
+  || (process.env.PLATFORM_SIMULATOR_URL ? `${process.env.PLATFORM_SIMULATOR_URL}/resy` : 'https://api.resy.com');
+
+// Reservation lists are paged; more than this many pages is an error, not a full read
+const RESERVATIONS_PAGE_SIZE = 50;
+const RESERVATIONS_MAX_PAGES = 20;
 
 // User credentials from environment
 const AUTH_TOKEN = process.env.RESY_AUTH_TOKEN || '';
@@ -118,6 +128,7 @@ export interface ResyBookingResult {
   resy_token?: string;
   reservation_id?: string;
   confirmation?: string;
+  cancellationFee?: number | null; // From the booked slot's payment terms
   error?: string;
   details?: any;
 }
@@ -154,10 +165,24 @@ export interface ConciergeBookingResult extends ResyBookingResult {
 class ResyApiClient {
   private authToken: string;
   private paymentId: string;
+  private baseUrl = '';
 
-  constructor(authToken?: string, paymentId?: string) {
+  constructor(authToken?: string, paymentId?: string, baseUrl?: string) {
     this.authToken = authToken || AUTH_TOKEN;
     this.paymentId = paymentId || PAYMENT_ID;
+    this.setBaseUrl(baseUrl || RESY_BASE_URL);
+  }
+
+  /**
+   * Point this client at a different API host (e.g. the platform simulator).
+   * Trailing slashes are dropped - paths are appended with their own.
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   /**
@@ -181,7 +206,7 @@ class ResyApiClient {
 
     const config: any = {
       method,
-      url: `${RESY_BASE_URL}${url}`,
+      url: `${this.baseUrl}${url}`,
       headers,
       timeout: 30000,
     };
@@ -191,7 +216,7 @@ class ResyApiClient {
       config.headers['content-type'] = 'application/x-www-form-urlencoded';
     }
 
-    return axios(config);
+    return http(config);
   }
 
   /**
@@ -213,7 +238,7 @@ class ResyApiClient {
     
     try {
       const url = `/4/find?lat=0&long=0&day=${date}&party_size=${partySize}&venue_id=${venueId}`;
-      console.log(`[ResyAPI] Request URL: ${RESY_BASE_URL}${url}`);
+      console.log(`[ResyAPI] Request URL: ${this.baseUrl}${url}`);
       
       const response = await this.makeRequest('get', url);
       
@@ -331,9 +356,11 @@ class ResyApiClient {
     console.log(`[ResyAPI] 🎯 Starting acquisition for venue ${venueId}`);
     console.log(`[ResyAPI] Date: ${date}, Party: ${partySize}, Preferred: ${preferredTime || 'any'}`);
 
+    let bookingSlot: string | null = null;
     try {
       // Step 1: Find available slots
       const slots = await this.findSlots(venueId, date, partySize);
+      dropTrace.recordSlots(slots.map(s => s.date?.start || s.time_slot));
       
       if (!slots.length) {
         return {
@@ -370,15 +397,22 @@ class ResyApiClient {
         console.log(`[ResyAPI] Found matching slot: ${bestSlot.time_slot || bestSlot.date?.start}`);
       }
 
+      bookingSlot = bestSlot.date?.start || bestSlot.time_slot || 'unknown';
+      dropTrace.record('slot_chosen', { slot: bookingSlot });
+
       // Step 3: Get the booking token
       const bookToken = await this.getBookingToken(bestSlot.config_id, date, partySize);
 
       // Step 4: Make the reservation
       const result = await this.makeReservation(bookToken);
+      dropTrace.record('book', { slot: bookingSlot, success: result.success, error: result.error });
       
-      return result;
+      return result.success
+        ? { ...result, cancellationFee: bestSlot.payment?.cancellation_fee ?? null }
+        : result;
     } catch (error: any) {
       console.error('[ResyAPI] Acquisition failed:', error.message);
+      if (bookingSlot) dropTrace.record('book', { slot: bookingSlot, success: false, error: error.message });
       return {
         success: false,
         error: error.message,
@@ -452,22 +486,20 @@ class ResyApiClient {
   }
 
   /**
-   * Check for existing reservations
+   * Check for existing reservations (every page)
+   * Throws when the request fails - an empty list means there are none
    */
-  async getUpcomingReservations(): Promise<any[]> {
+  async getUpcomingReservations(pageSize = RESERVATIONS_PAGE_SIZE): Promise<any[]> {
     if (!this.authToken) {
       console.warn('[ResyAPI] Cannot check reservations without auth token');
       return [];
     }
 
     try {
-      const url = '/3/user/reservations?limit=10&offset=1&type=upcoming';
-      const response = await this.makeRequest('get', url);
-
-      return response.data.reservations || [];
+      return await this.getReservationPages('type=upcoming', pageSize);
     } catch (error: any) {
       console.error('[ResyAPI] Error fetching reservations:', error.message);
-      return [];
+      throw error;
     }
   }
 
@@ -504,9 +536,11 @@ class ResyApiClient {
     console.log(`[ResyAPI] 🎩 CONCIERGE MODE - Booking on behalf of ${guestFirstName} ${guestLastName}`);
     console.log(`[ResyAPI] Venue: ${venueId}, Date: ${date}, Party: ${partySize}`);
 
+    let bookingSlot: string | null = null;
     try {
       // Step 1: Find available slots
       const slots = await this.findSlots(venueId, date, partySize);
+      dropTrace.recordSlots(slots.map(s => s.date?.start || s.time_slot));
       
       if (!slots.length) {
         return {
@@ -541,6 +575,9 @@ class ResyApiClient {
         console.log(`[ResyAPI] Found matching slot: ${bestSlot.time_slot || bestSlot.date?.start}`);
       }
 
+      bookingSlot = bestSlot.date?.start || bestSlot.time_slot || 'unknown';
+      dropTrace.record('slot_chosen', { slot: bookingSlot });
+
       // Step 3: Get the booking token
       const bookToken = await this.getBookingToken(bestSlot.config_id, date, partySize);
 
@@ -552,18 +589,21 @@ class ResyApiClient {
         phone: guestPhone,
         specialRequest,
       });
+      dropTrace.record('book', { slot: bookingSlot, success: result.success, error: result.error });
       
       if (result.success) {
         return {
           ...result,
           bookedUnderName: `${guestFirstName} ${guestLastName}`,
           bookedTime: bestSlot.time_slot || bestSlot.date?.start,
+          cancellationFee: bestSlot.payment?.cancellation_fee ?? null,
         };
       }
 
       return result;
     } catch (error: any) {
       console.error('[ResyAPI] Concierge booking failed:', error.message);
+      if (bookingSlot) dropTrace.record('book', { slot: bookingSlot, success: false, error: error.message });
       return {
         success: false,
         error: error.message,
@@ -656,7 +696,7 @@ class ResyApiClient {
    * For concierge accounts, this returns all reservations booked
    * for clients, separate from personal reservations.
    */
-  async getConciergeReservations(): Promise<any[]> {
+  async getConciergeReservations(pageSize = RESERVATIONS_PAGE_SIZE): Promise<any[]> {
     if (!this.authToken) {
       console.warn('[ResyAPI] Cannot check concierge reservations without auth token');
       return [];
@@ -664,18 +704,32 @@ class ResyApiClient {
 
     try {
       // Note: The exact endpoint may vary
-      const url = '/3/user/reservations?limit=50&offset=1&type=upcoming&concierge=true';
-      const response = await this.makeRequest('get', url);
-
-      return response.data.reservations || [];
+      return await this.getReservationPages('type=upcoming&concierge=true', pageSize);
     } catch (error: any) {
       console.error('[ResyAPI] Error fetching concierge reservations:', error.message);
-      return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Read /3/user/reservations page by page (offset is 1-based) until a
+   * short page. A list cut short would read as reservations gone missing,
+   * so running out of pages throws instead.
+   */
+  private async getReservationPages(query: string, pageSize: number): Promise<any[]> {
+    const reservations: any[] = [];
+    for (let page = 0; page < RESERVATIONS_MAX_PAGES; page++) {
+      const offset = 1 + page * pageSize;
+      const response = await this.makeRequest('get', `/3/user/reservations?limit=${pageSize}&offset=${offset}&${query}`);
+      const batch: any[] = response.data.reservations || [];
+      reservations.push(...batch);
+      if (batch.length < pageSize) return reservations;
     }
+    throw new Error(`More than ${RESERVATIONS_MAX_PAGES * pageSize} reservations - stopped paging`);
   }
 
   /**
-   * Cancel a concierge reservation
+   * Cancel a reservation by its resy_token (standard or concierge bookings)
    */
   async cancelConciergeReservation(resyToken: string): Promise<{ success: boolean; error?: string }> {
     if (!this.authToken) {
@@ -706,7 +760,7 @@ class ResyApiClient {
    * Used for identity rotation or testing
    */
   withCredentials(authToken: string, paymentId: string): ResyApiClient {
-    return new ResyApiClient(authToken, paymentId);
+    return new ResyApiClient(authToken, paymentId, this.baseUrl);
   }
 }
 
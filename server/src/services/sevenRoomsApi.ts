@@ -18,17 +18,23 @@
  * - SEVENROOMS_PHONE: Your phone number
  */
 
-import axios from 'axios';
+import platformGovernor from './platformGovernor';
+import dropTrace from './dropTrace';
 import dotenv from 'dotenv';
 import path from 'path';
 
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
+// Rate-limited transport shared by every sevenrooms account (see platformGovernor.ts)
+const http = platformGovernor.createHttpClient('sevenrooms');
+
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const SEVENROOMS_BASE_URL = 'https://www.sevenrooms.com';
+// Override to point at a local platform simulator (see src/simulator)
+const SEVENROOMS_BASE_URL = process.env.SEVENROOMS_BASE_URL
+  || (process.env.PLATFORM_SIMULATOR_URL ? `${process.env.PLATFORM_SIMULATOR_URL}/sevenrooms` : 'https://www.sevenrooms.com');
 
 // User credentials from environment
 const FIRST_NAME = process.env.SEVENROOMS_FIRST_NAME || process.env.OPENTABLE_FIRST_NAME || '';
@@ -86,12 +92,26 @@ class SevenRoomsApiClient {
   private lastName: string;
   private email: string;
   private phone: string;
+  private baseUrl = '';
 
-  constructor() {
+  constructor(baseUrl?: string) {
     this.firstName = FIRST_NAME;
     this.lastName = LAST_NAME;
     this.email = EMAIL;
     this.phone = PHONE;
+    this.setBaseUrl(baseUrl || SEVENROOMS_BASE_URL);
+  }
+
+  /**
+   * Point this client at a different API host (e.g. the platform simulator).
+   * Trailing slashes are dropped - paths are appended with their own.
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   private getHeaders(): Record<string, string> {
@@ -129,9 +149,9 @@ class SevenRoomsApiClient {
 
     try {
       const formattedDate = this.formatDate(date);
-      const url = `${SEVENROOMS_BASE_URL}/api-yoa/availability/widget/range`;
+      const url = `${this.baseUrl}/api-yoa/availability/widget/range`;
       
-      const response = await axios.get(url, {
+      const response = await http.get(url, {
         params: {
           venue: venueSlug,
           time_slot: time,
@@ -179,8 +199,8 @@ class SevenRoomsApiClient {
     console.log(`[SevenRoomsAPI] Getting reservation details for ${slot.timeIso}`);
 
     try {
-      const response = await axios.get(
-        `${SEVENROOMS_BASE_URL}/api-yoa/reservation/details`,
+      const response = await http.get(
+        `${this.baseUrl}/api-yoa/reservation/details`,
         {
           params: {
             venue: venueSlug,
@@ -232,8 +252,8 @@ class SevenRoomsApiClient {
       // This is typically done via their widget which handles the full flow
       
       // First, create a hold on the reservation
-      const holdResponse = await axios.post(
-        `${SEVENROOMS_BASE_URL}/api-yoa/reservation/create`,
+      const holdResponse = await http.post(
+        `${this.baseUrl}/api-yoa/reservation/create`,
         {
           venue: venueSlug,
           shift_persistent_id: slot.shiftPersistentId,
@@ -289,9 +309,11 @@ class SevenRoomsApiClient {
 
     console.log(`[SevenRoomsAPI] 🎯 Starting acquisition for ${venueSlug}`);
 
+    let bookingSlot: string | null = null;
     try {
       // Step 1: Find available slots
       const slots = await this.findSlots(venueSlug, date, time, partySize);
+      dropTrace.recordSlots(slots.map(s => s.time));
 
       if (!slots.length) {
         return { success: false, error: 'No slots available' };
@@ -312,6 +334,8 @@ class SevenRoomsApiClient {
       }
 
       console.log(`[SevenRoomsAPI] Selected slot: ${bestSlot.time} (${bestSlot.publicTimeSlotDescription || 'Standard'})`);
+      bookingSlot = bestSlot.time;
+      dropTrace.record('slot_chosen', { slot: bookingSlot });
 
       // Step 3: Get reservation details
       const details = await this.getReservationDetails(venueSlug, bestSlot, partySize);
@@ -322,12 +346,45 @@ class SevenRoomsApiClient {
         : undefined;
 
       // Step 5: Make the reservation
-      return await this.makeReservation(venueSlug, bestSlot, partySize, details, clientInfo);
+      const result = await this.makeReservation(venueSlug, bestSlot, partySize, details, clientInfo);
+      dropTrace.record('book', { slot: bookingSlot, success: result.success, error: result.error });
+      return result;
     } catch (error: any) {
+      if (bookingSlot) dropTrace.record('book', { slot: bookingSlot, success: false, error: error.message });
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Cancel a reservation by its confirmation number
+   */
+  async cancelReservation(confirmationNumber: string): Promise<{ success: boolean; error?: string }> {
+    console.log(`[SevenRoomsAPI] Canceling reservation: ${confirmationNumber}`);
+
+    try {
+      await http.post(
+        `${this.baseUrl}/api-yoa/reservation/cancel`,
+        { confirmation_number: confirmationNumber },
+        {
+          headers: {
+            ...this.getHeaders(),
+            'content-type': 'application/json',
+          },
+          timeout: 30000,
+        }
+      );
+
+      console.log('[SevenRoomsAPI] ✅ Reservation cancelled');
+      return { success: true };
+    } catch (error: any) {
+      console.error('[SevenRoomsAPI] ❌ Cancel failed:', error.response?.data || error.message);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message,
+      };
+    }
+  }
+
   /**
    * Helper: Convert "HH:MM" to minutes since midnight
    */
@@ -350,8 +407,8 @@ class SevenRoomsApiClient {
 
     try {
       const formattedDate = this.formatDate(startDate);
-      const response = await axios.get(
-        `${SEVENROOMS_BASE_URL}/api-yoa/availability/widget/range`,
+      const response = await http.get(
+        `${this.baseUrl}/api-yoa/availability/widget/range`,
         {
           params: {
             venue: venueSlug,
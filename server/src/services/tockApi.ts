@@ -18,18 +18,24 @@
  * - TOCK_EMAIL: Your email
  */
 
-import axios from 'axios';
+import platformGovernor from './platformGovernor';
+import dropTrace from './dropTrace';
 import dotenv from 'dotenv';
 import path from 'path';
 
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
+// Rate-limited transport shared by every tock account (see platformGovernor.ts)
+const http = platformGovernor.createHttpClient('tock', 'authorization');
+
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const TOCK_BASE_URL = 'https://www.exploretock.com';
-const TOCK_API_URL = 'https://api.exploretock.com';
+// Override to point at a local platform simulator (see src/simulator)
+const TOCK_SIMULATOR_URL = process.env.PLATFORM_SIMULATOR_URL ? `${process.env.PLATFORM_SIMULATOR_URL}/tock` : '';
+const TOCK_BASE_URL = process.env.TOCK_BASE_URL || TOCK_SIMULATOR_URL || 'https://www.exploretock.com';
+const TOCK_API_URL = process.env.TOCK_API_URL || TOCK_SIMULATOR_URL || 'https://api.exploretock.com';
 
 // User credentials from environment
 const AUTH_TOKEN = process.env.TOCK_AUTH_TOKEN || '';
@@ -95,10 +101,28 @@ export interface TockAcquisitionRequest {
 class TockApiClient {
   private authToken: string;
   private email: string;
+  private baseUrl = '';
+  private apiUrl = '';
 
-  constructor() {
+  constructor(baseUrl?: string, apiUrl?: string) {
     this.authToken = AUTH_TOKEN;
     this.email = EMAIL;
+    this.setBaseUrl(baseUrl || TOCK_BASE_URL, apiUrl || baseUrl || TOCK_API_URL);
+  }
+
+  /**
+   * Point this client at a different host (e.g. the platform simulator).
+   * Tock splits traffic across www and api hosts; one URL serves both here
+   * unless apiUrl is given. Trailing slashes are dropped - paths are
+   * appended with their own.
+   */
+  setBaseUrl(baseUrl: string, apiUrl?: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiUrl = (apiUrl || baseUrl).replace(/\/+$/, '');
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   private getHeaders(authenticated: boolean = false): Record<string, string> {
@@ -134,8 +158,8 @@ class TockApiClient {
     console.log(`[TockAPI] Getting venue info for ${venueSlug}`);
 
     try {
-      const response = await axios.get(
-        `${TOCK_BASE_URL}/${venueSlug}/search`,
+      const response = await http.get(
+        `${this.baseUrl}/${venueSlug}/search`,
         {
           headers: this.getHeaders(),
           timeout: 30000,
@@ -160,8 +184,8 @@ class TockApiClient {
 
     try {
       // Tock's availability check
-      const response = await axios.get(
-        `${TOCK_BASE_URL}/api/consumer/booking/availability`,
+      const response = await http.get(
+        `${this.baseUrl}/api/consumer/booking/availability`,
         {
           params: {
             business: venueSlug,
@@ -217,8 +241,8 @@ class TockApiClient {
     console.log(`[TockAPI] Adding ${partySize} tickets to cart for ${slot.startTime}`);
 
     try {
-      const response = await axios.post(
-        `${TOCK_API_URL}/api/consumer/cart/add`,
+      const response = await http.post(
+        `${this.apiUrl}/api/consumer/cart/add`,
         {
           availability_id: slot.id,
           quantity: partySize,
@@ -267,8 +291,8 @@ class TockApiClient {
         checkoutPayload.guest_phone = clientInfo.phone;
       }
 
-      const response = await axios.post(
-        `${TOCK_API_URL}/api/consumer/cart/${cartId}/checkout`,
+      const response = await http.post(
+        `${this.apiUrl}/api/consumer/cart/${cartId}/checkout`,
         checkoutPayload,
         {
           headers: {
@@ -303,9 +327,11 @@ class TockApiClient {
 
     console.log(`[TockAPI] 🎯 Starting acquisition for ${venueSlug}`);
 
+    let bookingSlot: string | null = null;
     try {
       // Step 1: Find available slots
       const slots = await this.findSlots(venueSlug, date, partySize);
+      dropTrace.recordSlots(slots.map(s => s.startTime));
 
       if (!slots.length) {
         return { success: false, error: 'No slots available' };
@@ -338,10 +364,13 @@ class TockApiClient {
       }
 
       console.log(`[TockAPI] Selected slot: ${bestSlot.startTime} - ${bestSlot.experienceName}`);
+      bookingSlot = bestSlot.startTime;
+      dropTrace.record('slot_chosen', { slot: bookingSlot });
 
       // Step 3: Add to cart
       const cartId = await this.addToCart(bestSlot, partySize);
       if (!cartId) {
+        dropTrace.record('book', { slot: bookingSlot, success: false, error: 'Failed to add to cart' });
         return { success: false, error: 'Failed to add to cart' };
       }
 
@@ -351,12 +380,50 @@ class TockApiClient {
         : undefined;
 
       // Step 5: Checkout
-      return await this.checkout(cartId, clientInfo);
+      const result = await this.checkout(cartId, clientInfo);
+      dropTrace.record('book', { slot: bookingSlot, success: result.success, error: result.error });
+      return result;
     } catch (error: any) {
+      if (bookingSlot) dropTrace.record('book', { slot: bookingSlot, success: false, error: error.message });
       return { success: false, error: error.message };
     }
   }
 
+  /**
+   * Cancel a ticket (by ticket ID or confirmation number). Prepaid tickets
+   * are only refunded inside the venue's cancellation policy.
+   */
+  async cancelReservation(ticketId: string): Promise<{ success: boolean; error?: string }> {
+    if (!this.authToken) {
+      return { success: false, error: 'TOCK_AUTH_TOKEN not configured' };
+    }
+
+    console.log(`[TockAPI] Canceling ticket: ${ticketId}`);
+
+    try {
+      await http.post(
+        `${this.apiUrl}/api/consumer/ticket/${encodeURIComponent(ticketId)}/cancel`,
+        {},
+        {
+          headers: {
+            ...this.getHeaders(true),
+            'content-type': 'application/json',
+          },
+          timeout: 30000,
+        }
+      );
+
+      console.log('[TockAPI] ✅ Ticket cancelled');
+      return { success: true };
+    } catch (error: any) {
+      console.error('[TockAPI] ❌ Cancel failed:', error.response?.data || error.message);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message,
+      };
+    }
+  }
+
   /**
    * Helper: Convert "HH:MM" to minutes since midnight
    */
@@ -372,8 +439,8 @@ class TockApiClient {
     console.log(`[TockAPI] Searching for: "${query}"`);
 
     try {
-      const response = await axios.get(
-        `${TOCK_BASE_URL}/api/consumer/search`,
+      const response = await http.get(
+        `${this.baseUrl}/api/consumer/search`,
         {
           params: {
             q: query,
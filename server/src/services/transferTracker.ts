@@ -3,9 +3,20 @@
  * 
  * Manages the complete lifecycle of reservation transfers:
  * ACQUIRED -> LISTED -> SOLD -> TRANSFER_PENDING -> TRANSFERRED -> COMPLETED
+ *
+ * Any reservation we still hold can instead be released on the platform
+ * (-> CANCELLED, see cancellationManager.ts).
+ *
+ * Every transfer belongs to a portfolio item, and status changes go
+ * through reservationLifecycle.ts so the two move together - an invalid
+ * step throws InvalidTransitionError.
  */
 
 import pool from '../db';
+import reservationLifecycle from './reservationLifecycle';
+import { AuditActor, SYSTEM_ACTOR } from './auditLog';
+import { normalizeDate, getDropInstant } from '../shared/dropTime';
+import { getAdapter, detectPlatform } from '../platforms';
 
 export interface Transfer {
   id: number;
@@ -32,7 +43,7 @@ export interface Transfer {
   sold_at?: Date;
   
   // Status
-  status: 'ACQUIRED' | 'LISTED' | 'SOLD' | 'TRANSFER_PENDING' | 'TRANSFERRED' | 'COMPLETED';
+  status: 'ACQUIRED' | 'LISTED' | 'SOLD' | 'TRANSFER_PENDING' | 'TRANSFERRED' | 'COMPLETED' | 'CANCELLED';
   
   // Booking type & identity
   booking_type?: 'standard' | 'concierge' | 'speculative';
@@ -51,6 +62,21 @@ export interface Transfer {
   client_id?: number;
   service_fee?: number;
   
+  // Cancellation (fee from the booked slot, deadline from the platform's penalty window)
+  cancellation_fee?: number | null;
+  cancellation_deadline?: Date | null;
+  cancellation_reminded_at?: Date | null;
+  cancelled_at?: Date | null;
+  cancellation_reason?: string | null;
+  cancellation_fee_charged?: number | null;
+  auto_release_failed_at?: Date | null;    // The watch loop gave up releasing it
+  auto_release_error?: string | null;
+  
+  // Platform sync (reservationSync.ts)
+  platform_seen_at?: Date | null;
+  platform_missing_since?: Date | null;   // No longer on the platform account
+  imported_at?: Date | null;              // Booked outside the app
+  
   created_at: Date;
   updated_at: Date;
 }
@@ -60,6 +86,44 @@ export type BookingType = NonNullable<Transfer['booking_type']>;
 export type TransferStatus = Transfer['status'];
 export type TransferMethod = NonNullable<Transfer['transfer_method']>;
 
+/**
+ * Booked times arrive as "19:00", "7:00 PM" or "2026-12-05 19:00:00"
+ * depending on the platform - reduce them to HH:MM
+ */
+export const toWallClockTime = (time: string): string | null => {
+  const match = /(\d{1,2}):(\d{2})(?::\d{2})?\s*(AM|PM)?/i.exec(time || '');
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const period = match[3]?.toUpperCase();
+  if (period === 'PM' && hours < 12) hours += 12;
+  if (period === 'AM' && hours === 12) hours = 0;
+  if (hours > 23) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+/**
+ * Last moment a reservation can be cancelled without the fee: the
+ * platform's penalty window before the reservation (venue time, which we
+ * take as the default drop timezone). Null when the time can't be read.
+ */
+export const cancellationDeadlineFor = (
+  platform: string,
+  reservationDate: string | Date,
+  reservationTime: string
+): Date | null => {
+  const adapter = getAdapter(detectPlatform(platform));
+  const time = toWallClockTime(reservationTime);
+  if (!adapter || !time) return null;
+
+  try {
+    const startsAt = getDropInstant(reservationDate, time);
+    return new Date(startsAt.getTime() - adapter.cancellationWindowHours * 60 * 60 * 1000);
+  } catch {
+    return null;  // Unreadable date
+  }
+};
+
 class TransferTracker {
   
   private getPool() {
@@ -86,34 +150,49 @@ class TransferTracker {
     booked_under_name?: string;
     service_fee?: number;
     status?: Transfer['status'];
-  }): Promise<Transfer> {
+    cancellation_fee?: number | null;
+    imported?: boolean;
+  }, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer> {
     // For concierge bookings, default to COMPLETED (no transfer needed)
     const status = data.status || (data.booking_type === 'concierge' ? 'COMPLETED' : 'ACQUIRED');
     const bookingType = data.booking_type || 'standard';
+    const cancellationDeadline = cancellationDeadlineFor(data.platform, data.reservation_date, data.reservation_time);
     
-    const result = await this.getPool().query(`
-      INSERT INTO transfers (
-        portfolio_item_id, restaurant_name, platform,
-        reservation_date, reservation_time, party_size,
-        confirmation_number, booking_identity_id, status,
-        booking_type, client_id, booked_under_name, service_fee
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
-      RETURNING *
-    `, [
-      data.portfolio_item_id,
-      data.restaurant_name,
-      data.platform,
-      data.reservation_date,
-      data.reservation_time,
-      data.party_size,
-      data.confirmation_number,
-      data.booking_identity_id,
-      status,
-      bookingType,
-      data.client_id,
-      data.booked_under_name,
-      data.service_fee
-    ]);
+    const transfer = await reservationLifecycle.transaction(async db => {
+      const result = await db.query(`
+        INSERT INTO transfers (
+          portfolio_item_id, restaurant_name, platform,
+          reservation_date, reservation_time, party_size,
+          confirmation_number, booking_identity_id, status,
+          booking_type, client_id, booked_under_name, service_fee,
+          cancellation_fee, cancellation_deadline, imported_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+        RETURNING *
+      `, [
+        data.portfolio_item_id,
+        data.restaurant_name,
+        data.platform,
+        data.reservation_date,
+        data.reservation_time,
+        data.party_size,
+        data.confirmation_number,
+        data.booking_identity_id,
+        status,
+        bookingType,
+        data.client_id,
+        data.booked_under_name,
+        data.service_fee,
+        data.cancellation_fee ?? null,
+        cancellationDeadline,
+        data.imported ? new Date() : null
+      ]);
+
+      // Links it to its portfolio item, creating one if needed
+      return reservationLifecycle.attachTransfer(db, result.rows[0], {
+        time: toWallClockTime(data.reservation_time) || '00:00',
+        actor,
+      });
+    });
     
     const modeEmoji = bookingType === 'concierge' ? '🎩' : '📝';
     console.log(`[TransferTracker] ${modeEmoji} Created ${bookingType} transfer for ${data.restaurant_name}`);
@@ -121,7 +200,7 @@ class TransferTracker {
       console.log(`[TransferTracker]   Booked under: ${data.booked_under_name}`);
     }
     
-    return result.rows[0];
+    return transfer;
   }
   
   /**
@@ -176,20 +255,43 @@ class TransferTracker {
     at_listing_id?: string;
     at_listing_url?: string;
     listing_price: number;
-  }): Promise<Transfer | null> {
-    const result = await this.getPool().query(`
-      UPDATE transfers 
-      SET 
-        status = 'LISTED',
-        at_listing_id = $2,
-        at_listing_url = $3,
-        listing_price = $4,
-        updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `, [id, data.at_listing_id, data.at_listing_url, data.listing_price]);
+  }, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer | null> {
+    const before = await this.getTransfer(id);
+    const result = await reservationLifecycle.transitionTransfer(id, 'LISTED', {
+      actor,
+      transfer: {
+        at_listing_id: data.at_listing_id ?? null,
+        at_listing_url: data.at_listing_url ?? null,
+        listing_price: data.listing_price,
+      },
+      item: { list_price: data.listing_price },
+    });
     
-    return result.rows[0] || null;
+    const transfer = result?.transfer || null;
+    if (before && transfer) {
+      await this.recordListingPrice(before, Number(data.listing_price), actor);
+    }
+    return transfer;
+  }
+  
+  /**
+   * Price history (listing_price_changes, see listingRepricing.ts): a new
+   * listing, or a price set by hand on one that's up. Either makes open
+   * decay proposals stale.
+   */
+  private async recordListingPrice(before: Transfer, price: number, actor: AuditActor): Promise<void> {
+    const relisted = before.status !== 'LISTED';
+    const oldPrice = relisted ? null : Number(before.listing_price);
+    if (!relisted && oldPrice === price) return;
+    
+    await this.getPool().query(`
+      WITH expired AS (
+        UPDATE listing_price_changes SET status = 'expired', decided_at = NOW()
+        WHERE transfer_id = $1 AND status = 'proposed'
+      )
+      INSERT INTO listing_price_changes (transfer_id, kind, status, old_price, new_price, requested_by)
+      VALUES ($1, $2, 'applied', $3, $4, $5)
+    `, [before.id, relisted ? 'listed' : 'manual', oldPrice, price, actor.actor]);
   }
   
   /**
@@ -201,83 +303,184 @@ class TransferTracker {
     buyer_phone?: string;
     sale_price: number;
     transfer_method: TransferMethod;
-  }): Promise<Transfer | null> {
+  }, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer | null> {
     // Calculate transfer deadline (typically 24-48 hours before reservation)
     const transfer = await this.getTransfer(id);
     if (!transfer) return null;
     
-    const reservationDate = new Date(`${transfer.reservation_date}T${transfer.reservation_time}`);
+    // reservation_date comes back from pg as a Date object, not a string
+    const reservationDate = new Date(`${normalizeDate(transfer.reservation_date)}T${transfer.reservation_time}`);
     const deadline = new Date(reservationDate);
     deadline.setHours(deadline.getHours() - 24); // 24 hours before
     
-    const result = await this.getPool().query(`
-      UPDATE transfers 
-      SET 
-        status = 'SOLD',
-        buyer_name = $2,
-        buyer_email = $3,
-        buyer_phone = $4,
-        sale_price = $5,
-        transfer_method = $6,
-        transfer_deadline = $7,
-        sold_at = NOW(),
-        updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `, [id, data.buyer_name, data.buyer_email, data.buyer_phone, data.sale_price, data.transfer_method, deadline]);
+    const result = await reservationLifecycle.transitionTransfer(id, 'SOLD', {
+      actor,
+      transfer: {
+        buyer_name: data.buyer_name,
+        buyer_email: data.buyer_email ?? null,
+        buyer_phone: data.buyer_phone ?? null,
+        sale_price: data.sale_price,
+        transfer_method: data.transfer_method,
+        transfer_deadline: deadline,
+        sold_at: new Date(),
+      },
+      item: { sold_price: data.sale_price },
+    });
     
-    return result.rows[0] || null;
+    return result?.transfer || null;
   }
   
   /**
    * Mark transfer as pending (buyer notified, waiting for transfer)
    */
-  async markAsTransferPending(id: number, notes?: string): Promise<Transfer | null> {
-    const result = await this.getPool().query(`
-      UPDATE transfers 
-      SET 
-        status = 'TRANSFER_PENDING',
-        transfer_notes = COALESCE($2, transfer_notes),
-        updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `, [id, notes]);
+  async markAsTransferPending(id: number, notes?: string, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer | null> {
+    const result = await reservationLifecycle.transitionTransfer(id, 'TRANSFER_PENDING', {
+      actor,
+      note: notes,
+      transfer: { transfer_notes: notes },  // Kept when none are passed
+    });
     
-    return result.rows[0] || null;
+    return result?.transfer || null;
   }
   
   /**
    * Mark transfer as transferred
    */
-  async markAsTransferred(id: number, notes?: string): Promise<Transfer | null> {
-    const result = await this.getPool().query(`
-      UPDATE transfers 
-      SET 
-        status = 'TRANSFERRED',
-        transfer_completed_at = NOW(),
-        transfer_notes = COALESCE($2, transfer_notes),
-        updated_at = NOW()
-      WHERE id = $1
-      RETURNING *
-    `, [id, notes]);
+  async markAsTransferred(id: number, notes?: string, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer | null> {
+    const result = await reservationLifecycle.transitionTransfer(id, 'TRANSFERRED', {
+      actor,
+      note: notes,
+      transfer: { transfer_completed_at: new Date(), transfer_notes: notes },
+    });
     
-    return result.rows[0] || null;
+    return result?.transfer || null;
   }
   
   /**
    * Mark transfer as completed (buyer confirmed successful dining)
    */
-  async markAsCompleted(id: number): Promise<Transfer | null> {
+  async markAsCompleted(id: number, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer | null> {
+    const result = await reservationLifecycle.transitionTransfer(id, 'COMPLETED', { actor });
+    return result?.transfer || null;
+  }
+  
+  /**
+   * Mark transfer as cancelled (released on the platform)
+   * Null when it doesn't exist or was already cancelled
+   */
+  async markAsCancelled(id: number, data: {
+    reason: string;
+    fee_charged: number;
+  }, actor: AuditActor = SYSTEM_ACTOR): Promise<Transfer | null> {
+    const result = await reservationLifecycle.transitionTransfer(id, 'CANCELLED', {
+      actor,
+      note: data.reason,
+      onlyIfChanged: true,
+      transfer: {
+        cancelled_at: new Date(),
+        cancellation_reason: data.reason,
+        cancellation_fee_charged: data.fee_charged,
+      },
+    });
+    
+    return result?.changed ? result.transfer : null;
+  }
+  
+  /**
+   * Reservations we still hold whose free-cancellation window closes
+   * within the given hours (soonest first)
+   */
+  async getUpcomingCancellationDeadlines(withinHours: number): Promise<Transfer[]> {
     const result = await this.getPool().query(`
+      SELECT * FROM transfers 
+      WHERE status NOT IN ('CANCELLED', 'TRANSFERRED')
+        AND cancellation_deadline IS NOT NULL
+        AND cancellation_deadline > NOW()
+        AND cancellation_deadline <= NOW() + make_interval(hours => $1)
+      ORDER BY cancellation_deadline ASC
+    `, [withinHours]);
+    return result.rows;
+  }
+  
+  /**
+   * Record that the penalty-window reminder went out
+   */
+  async markCancellationReminded(id: number): Promise<void> {
+    await this.getPool().query(
+      'UPDATE transfers SET cancellation_reminded_at = NOW() WHERE id = $1',
+      [id]
+    );
+  }
+  
+  /**
+   * Record that auto-releasing failed, so the watch loop stops retrying it.
+   * Returns false if a failure was already recorded (alert only once).
+   */
+  async markAutoReleaseFailed(id: number, error: string): Promise<boolean> {
+    const result = await this.getPool().query(
+      `UPDATE transfers SET auto_release_failed_at = NOW(), auto_release_error = $2
+       WHERE id = $1 AND auto_release_failed_at IS NULL`,
+      [id, error]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+  
+  /**
+   * Transfers holding any of these platform confirmation numbers
+   */
+  async getTransfersByConfirmation(confirmationNumbers: string[]): Promise<Transfer[]> {
+    if (confirmationNumbers.length === 0) return [];
+    const result = await this.getPool().query(
+      'SELECT * FROM transfers WHERE confirmation_number = ANY($1::varchar[]) ORDER BY created_at ASC',
+      [confirmationNumbers]
+    );
+    return result.rows;
+  }
+  
+  /**
+   * Reservations that should still be on a platform account: booked with
+   * a confirmation number, after today, and not released, handed over, or
+   * done with (concierge bookings stay COMPLETED while they're upcoming)
+   */
+  async getHeldReservations(): Promise<Transfer[]> {
+    const result = await this.getPool().query(`
+      SELECT * FROM transfers 
+      WHERE confirmation_number IS NOT NULL
+        AND reservation_date > CURRENT_DATE
+        AND (
+          status IN ('ACQUIRED', 'LISTED', 'SOLD', 'TRANSFER_PENDING')
+          OR (status = 'COMPLETED' AND booking_type = 'concierge')
+        )
+      ORDER BY reservation_date ASC, reservation_time ASC
+    `);
+    return result.rows;
+  }
+  
+  /**
+   * Record that the platform still lists these reservations
+   */
+  async markSeenOnPlatform(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.getPool().query(`
       UPDATE transfers 
-      SET 
-        status = 'COMPLETED',
-        updated_at = NOW()
-      WHERE id = $1
+      SET platform_seen_at = NOW(), platform_missing_since = NULL
+      WHERE id = ANY($1::int[])
+    `, [ids]);
+  }
+  
+  /**
+   * Flag reservations the platform no longer lists. Returns the ones
+   * that weren't flagged already.
+   */
+  async markMissingOnPlatform(ids: number[]): Promise<Transfer[]> {
+    if (ids.length === 0) return [];
+    const result = await this.getPool().query(`
+      UPDATE transfers 
+      SET platform_missing_since = NOW(), updated_at = NOW()
+      WHERE id = ANY($1::int[]) AND platform_missing_since IS NULL
       RETURNING *
-    `, [id]);
-    
-    return result.rows[0] || null;
+    `, [ids]);
+    return result.rows;
   }
   
   /**
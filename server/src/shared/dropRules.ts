@@ -0,0 +1,454 @@
+/**
+ * Recurring Drop Rules
+ *
+ * Structured model of HOW a restaurant releases tables, so the next drop
+ * (and the reservation dates it opens) can be computed instead of
+ * hand-edited after every drop.
+ *
+ * Supported rules:
+ * - daily:   every day at T, opening the date N days ahead
+ *            e.g. Carbone - daily at 10:00 ET, 30 days in advance
+ * - weekly:  every week on day D at T, opening that week one or more
+ *            months ahead ("every Monday for the following month")
+ * - monthly: on day-of-month X at T, opening the whole month M months
+ *            ahead ("1st of the month at noon for next month")
+ * - manual:  free-text only (e.g. "Email waitlist only") - never computed
+ *
+ * Stored as JSONB in restaurants.drop_pattern and portfolio_items.drop_rule.
+ * Shared by server (scheduler roll-forward) and client (display) - keep it
+ * dependency-free like dropTime.ts.
+ */
+
+import { resolveDropTime, toZonedParts, normalizeDate, normalizeTime, isValidTimeZone, DEFAULT_DROP_TIMEZONE } from './dropTime';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DropRuleKind = 'daily' | 'weekly' | 'monthly' | 'manual';
+
+interface ScheduledRuleBase {
+  time: string;           // HH:MM in the restaurant's wall clock
+  timezone: string;       // IANA zone
+  description?: string;   // Original human-readable text, if any
+}
+
+export interface DailyDropRule extends ScheduledRuleBase {
+  kind: 'daily';
+  daysInAdvance?: number; // Unknown when only the drop time is known
+}
+
+export interface WeeklyDropRule extends ScheduledRuleBase {
+  kind: 'weekly';
+  dayOfWeek: number;      // 0-6 (Sunday-Saturday)
+  monthsAhead: number;    // Opens the 7 days starting this many months after the drop
+}
+
+export interface MonthlyDropRule extends ScheduledRuleBase {
+  kind: 'monthly';
+  dayOfMonth: number;     // 1-31 (clamped to the month's last day)
+  monthsAhead: number;    // Opens the whole calendar month this many months after the drop
+}
+
+export interface ManualDropRule {
+  kind: 'manual';
+  description: string;
+}
+
+export type ScheduledDropRule = DailyDropRule | WeeklyDropRule | MonthlyDropRule;
+export type DropRule = ScheduledDropRule | ManualDropRule;
+
+export interface TargetRange {
+  start: string;  // YYYY-MM-DD (first bookable date opened by the drop)
+  end: string;    // YYYY-MM-DD (last bookable date, inclusive)
+}
+
+export interface NextDrop {
+  dropDate: string;         // YYYY-MM-DD in the restaurant's zone
+  dropTime: string;         // HH:MM
+  timezone: string;
+  instant: Date;
+  targetRange: TargetRange | null;  // null when the rule doesn't say how far ahead
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Longest lead time any rule can have - bounds the searches below
+const MAX_SEARCH_DAYS = 800;
+
+// ============================================
+// CALENDAR HELPERS (pure date math, no timezones)
+// ============================================
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+const parseYmd = (date: string): [number, number, number] => {
+  const [y, m, d] = normalizeDate(date).split('-').map(Number);
+  return [y, m, d];
+};
+
+const formatYmd = (utc: Date): string =>
+  `${utc.getUTCFullYear()}-${pad(utc.getUTCMonth() + 1)}-${pad(utc.getUTCDate())}`;
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const addDays = (date: string, days: number): string => {
+  const [y, m, d] = parseYmd(date);
+  return formatYmd(new Date(Date.UTC(y, m - 1, d + days)));
+};
+
+/**
+ * Add calendar months, clamping the day (Jan 31 + 1 month = Feb 28/29)
+ */
+export const addMonths = (date: string, months: number): string => {
+  const [y, m, d] = parseYmd(date);
+  const first = new Date(Date.UTC(y, m - 1 + months, 1));
+  const day = Math.min(d, daysInMonth(first.getUTCFullYear(), first.getUTCMonth() + 1));
+  return formatYmd(new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), day)));
+};
+
+const dayOfWeekOf = (date: string): number => {
+  const [y, m, d] = parseYmd(date);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+// ============================================
+// RULE EVALUATION
+// ============================================
+
+export const isScheduledRule = (rule: DropRule | null | undefined): rule is ScheduledDropRule =>
+  !!rule && rule.kind !== 'manual';
+
+/**
+ * Does the rule release tables on this (zone-local) calendar date?
+ */
+const dropsOn = (rule: ScheduledDropRule, date: string): boolean => {
+  switch (rule.kind) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return dayOfWeekOf(date) === rule.dayOfWeek;
+    case 'monthly': {
+      const [y, m, d] = parseYmd(date);
+      return d === Math.min(rule.dayOfMonth, daysInMonth(y, m));
+    }
+  }
+};
+
+/**
+ * Reservation dates opened by the drop on `dropDate`
+ */
+export const getTargetRange = (rule: ScheduledDropRule, dropDate: string): TargetRange | null => {
+  switch (rule.kind) {
+    case 'daily': {
+      if (rule.daysInAdvance === undefined) return null;
+      const target = addDays(dropDate, rule.daysInAdvance);
+      return { start: target, end: target };
+    }
+    case 'weekly': {
+      const start = addMonths(dropDate, rule.monthsAhead);
+      return { start, end: addDays(start, 6) };
+    }
+    case 'monthly': {
+      const [y, m] = parseYmd(addMonths(`${normalizeDate(dropDate).slice(0, 8)}01`, rule.monthsAhead));
+      return { start: `${y}-${pad(m)}-01`, end: `${y}-${pad(m)}-${pad(daysInMonth(y, m))}` };
+    }
+  }
+};
+
+const buildNextDrop = (rule: ScheduledDropRule, dropDate: string): NextDrop => {
+  const resolution = resolveDropTime(dropDate, rule.time, rule.timezone);
+  return {
+    dropDate,
+    dropTime: normalizeTime(rule.time).slice(0, 5),
+    timezone: rule.timezone,
+    instant: resolution.instant,
+    targetRange: getTargetRange(rule, dropDate),
+  };
+};
+
+/**
+ * First drop strictly after `after` (defaults to now)
+ */
+export const getNextDrop = (rule: ScheduledDropRule, after: Date = new Date()): NextDrop | null => {
+  // Start a day early so a drop later "today" in the restaurant's zone is found
+  let date = addDays(toZonedParts(after, rule.timezone).date, -1);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (dropsOn(rule, date)) {
+      const next = buildNextDrop(rule, date);
+      if (next.instant.getTime() > after.getTime()) return next;
+    }
+    date = addDays(date, 1);
+  }
+  return null;
+};
+
+/**
+ * The next `count` drops after `after` - for previews
+ */
+export const getUpcomingDrops = (rule: ScheduledDropRule, count: number, after: Date = new Date()): NextDrop[] => {
+  const drops: NextDrop[] = [];
+  let cursor = after;
+  while (drops.length < count) {
+    const next = getNextDrop(rule, cursor);
+    if (!next) break;
+    drops.push(next);
+    cursor = next.instant;
+  }
+  return drops;
+};
+
+/**
+ * The (latest) drop that opens a given reservation date, or null if the
+ * rule can't tell (manual rules, daily rules without a lead time)
+ */
+export const getDropForTargetDate = (rule: ScheduledDropRule, targetDate: string): NextDrop | null => {
+  const target = normalizeDate(targetDate);
+  if (rule.kind === 'daily') {
+    return rule.daysInAdvance === undefined ? null : buildNextDrop(rule, addDays(target, -rule.daysInAdvance));
+  }
+  let date = target;
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (dropsOn(rule, date)) {
+      const range = getTargetRange(rule, date);
+      if (range && range.start <= target && target <= range.end) {
+        return buildNextDrop(rule, date);
+      }
+    }
+    date = addDays(date, -1);
+  }
+  return null;
+};
+
+/**
+ * Pick the reservation date to chase inside a drop's range.
+ * Keeps the weekday the item was originally after (a Friday table stays a
+ * Friday table); otherwise takes the first date in the range.
+ */
+export const pickTargetDate = (range: TargetRange, preferredDayOfWeek?: number): string => {
+  if (preferredDayOfWeek !== undefined) {
+    for (let date = range.start; date <= range.end; date = addDays(date, 1)) {
+      if (dayOfWeekOf(date) === preferredDayOfWeek) return date;
+    }
+  }
+  return range.start;
+};
+
+// ============================================
+// VALIDATION & PARSING
+// ============================================
+
+const toInt = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const n = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isInteger(n) ? n : undefined;
+};
+
+/**
+ * Validate a structured rule (e.g. from an API body or a JSONB column).
+ * Throws with a readable message when the rule is unusable.
+ */
+export const validateDropRule = (input: any, defaultTimezone: string = DEFAULT_DROP_TIMEZONE): DropRule => {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Drop rule must be an object');
+  }
+
+  if (input.kind === 'manual') {
+    return { kind: 'manual', description: String(input.description || '') };
+  }
+  if (!['daily', 'weekly', 'monthly'].includes(input.kind)) {
+    throw new Error(`Unknown drop rule kind: "${input.kind}" (expected daily, weekly, monthly or manual)`);
+  }
+
+  const timezone = input.timezone || defaultTimezone;
+  if (!isValidTimeZone(timezone)) {
+    throw new Error(`Unknown timezone: "${timezone}"`);
+  }
+  const base = {
+    time: normalizeTime(String(input.time || '')).slice(0, 5),
+    timezone,
+    ...(input.description ? { description: String(input.description) } : {}),
+  };
+
+  if (input.kind === 'daily') {
+    const daysInAdvance = toInt(input.daysInAdvance);
+    if (daysInAdvance !== undefined && (daysInAdvance < 0 || daysInAdvance > 730)) {
+      throw new Error('daysInAdvance must be between 0 and 730');
+    }
+    return { kind: 'daily', ...base, ...(daysInAdvance !== undefined ? { daysInAdvance } : {}) };
+  }
+
+  const monthsAhead = toInt(input.monthsAhead) ?? 1;
+  if (monthsAhead < 0 || monthsAhead > 24) {
+    throw new Error('monthsAhead must be between 0 and 24');
+  }
+
+  if (input.kind === 'weekly') {
+    const dayOfWeek = toInt(input.dayOfWeek);
+    if (dayOfWeek === undefined || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new Error('dayOfWeek must be 0-6 (Sunday-Saturday)');
+    }
+    return { kind: 'weekly', ...base, dayOfWeek, monthsAhead };
+  }
+
+  const dayOfMonth = toInt(input.dayOfMonth) ?? 1;
+  if (dayOfMonth < 1 || dayOfMonth > 31) {
+    throw new Error('dayOfMonth must be 1-31');
+  }
+  return { kind: 'monthly', ...base, dayOfMonth, monthsAhead };
+};
+
+// Abbreviations seen in scraped/LLM text -> IANA zones
+const ZONE_ABBREVIATIONS: Record<string, string> = {
+  ET: 'America/New_York', EST: 'America/New_York', EDT: 'America/New_York',
+  CT: 'America/Chicago', CST: 'America/Chicago', CDT: 'America/Chicago',
+  MT: 'America/Denver', MST: 'America/Denver', MDT: 'America/Denver',
+  PT: 'America/Los_Angeles', PST: 'America/Los_Angeles', PDT: 'America/Los_Angeles',
+  GMT: 'Europe/London', BST: 'Europe/London',
+  CET: 'Europe/Paris', CEST: 'Europe/Paris',
+  JST: 'Asia/Tokyo',
+};
+
+/**
+ * Best-effort parse of a human-readable pattern such as
+ * "Daily at 10:00 AM EST, 30 days in advance" or "Monthly on 1st at 12:00 PM EST".
+ * Anything it can't read becomes a manual rule that keeps the text.
+ */
+export const parseDropPattern = (text: string, defaultTimezone: string = DEFAULT_DROP_TIMEZONE): DropRule => {
+  const description = text.trim();
+  const lower = description.toLowerCase();
+  const build = (input: any): DropRule => {
+    try {
+      return validateDropRule(input, defaultTimezone);
+    } catch {
+      return { kind: 'manual', description };
+    }
+  };
+
+  const timeMatch = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\b/i.exec(
+    // Ignore "1st", "15th", "30 days" when looking for the time of day
+    description.replace(/\b\d{1,2}(st|nd|rd|th)\b/gi, '').replace(/\b\d+\s*(day|week|month)s?\b/gi, '')
+  );
+  if (!timeMatch || (!timeMatch[2] && !timeMatch[3])) {
+    return { kind: 'manual', description };
+  }
+  let hours = parseInt(timeMatch[1], 10);
+  const minutes = timeMatch[2] ? parseInt(timeMatch[2], 10) : 0;
+  const meridiem = timeMatch[3]?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) {
+    return { kind: 'manual', description };
+  }
+  const time = `${pad(hours)}:${pad(minutes)}`;
+
+  const zoneMatch = /\b([A-Z]{2,4})\b/.exec(description.replace(/\b(AM|PM)\b/g, ''));
+  const timezone = (zoneMatch && ZONE_ABBREVIATIONS[zoneMatch[1]]) || defaultTimezone;
+
+  const daysMatch = /(\d+)\s*days?\s*(in advance|ahead|out)/i.exec(description);
+  const monthsMatch = /(\d+)\s*months?\s*(in advance|ahead|out)/i.exec(description);
+  const monthsAhead = monthsMatch ? parseInt(monthsMatch[1], 10) : 1;
+
+  if (lower.includes('monthly') || /\bon the \d{1,2}(st|nd|rd|th)\b|\bon \d{1,2}(st|nd|rd|th)\b/.test(lower)) {
+    const dayMatch = /\b(\d{1,2})(st|nd|rd|th)\b/i.exec(description);
+    return build({
+      kind: 'monthly',
+      time,
+      timezone,
+      dayOfMonth: dayMatch ? parseInt(dayMatch[1], 10) : 1,
+      monthsAhead,
+      description,
+    });
+  }
+
+  const dayIndex = DAY_NAMES.findIndex(day => lower.includes(day.toLowerCase()));
+  if (lower.includes('weekly') || dayIndex >= 0) {
+    if (dayIndex < 0) return { kind: 'manual', description };
+    return build({ kind: 'weekly', time, timezone, dayOfWeek: dayIndex, monthsAhead, description });
+  }
+
+  if (lower.includes('daily') || lower.includes('every day') || daysMatch) {
+    return build({
+      kind: 'daily',
+      time,
+      timezone,
+      daysInAdvance: daysMatch ? parseInt(daysMatch[1], 10) : undefined,
+      description,
+    });
+  }
+
+  return { kind: 'manual', description };
+};
+
+/**
+ * Accept whatever is stored or submitted (structured rule, legacy free
+ * text, JSON string) and return a rule - or null for "no pattern".
+ */
+export const toDropRule = (value: unknown, defaultTimezone: string = DEFAULT_DROP_TIMEZONE): DropRule | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{')) {
+      try {
+        return validateDropRule(JSON.parse(trimmed), defaultTimezone);
+      } catch {
+        // Fall through and treat as free text
+      }
+    }
+    return parseDropPattern(trimmed, defaultTimezone);
+  }
+  return validateDropRule(value, defaultTimezone);
+};
+
+// ============================================
+// DISPLAY
+// ============================================
+
+const formatClock = (time: string): string => {
+  const [h, m] = time.split(':').map(Number);
+  const suffix = h >= 12 ? 'PM' : 'AM';
+  return `${h % 12 || 12}:${pad(m)} ${suffix}`;
+};
+
+const ordinal = (n: number): string => {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : suffixes[n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Human-readable summary, e.g. "Daily at 10:00 AM (America/New_York), 30 days in advance"
+ */
+export const describeDropRule = (rule: DropRule | null | undefined): string => {
+  if (!rule) return '';
+  if (rule.kind === 'manual') return rule.description;
+
+  const at = `at ${formatClock(rule.time)} (${rule.timezone})`;
+  const months = (n: number) => (n === 1 ? 'the following month' : `${n} months ahead`);
+  switch (rule.kind) {
+    case 'daily':
+      return rule.daysInAdvance === undefined
+        ? `Daily ${at}`
+        : `Daily ${at}, ${rule.daysInAdvance} days in advance`;
+    case 'weekly':
+      return `Every ${DAY_NAMES[rule.dayOfWeek]} ${at}, for ${months(rule.monthsAhead)}`;
+    case 'monthly':
+      return `Monthly on the ${ordinal(rule.dayOfMonth)} ${at}, for ${months(rule.monthsAhead)}`;
+  }
+};
+
+export default {
+  isScheduledRule,
+  getTargetRange,
+  getNextDrop,
+  getUpcomingDrops,
+  getDropForTargetDate,
+  pickTargetDate,
+  validateDropRule,
+  parseDropPattern,
+  toDropRule,
+  describeDropRule,
+  addDays,
+  addMonths,
+};
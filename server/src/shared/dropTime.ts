@@ -0,0 +1,264 @@
+/**
+ * Drop Time Resolver
+ *
+ * Converts a restaurant's local drop schedule (date + wall-clock time +
+ * IANA timezone) into the exact UTC instant the tables release.
+ *
+ * Shared by:
+ * - server: sniper scheduler, drop pattern learning, acquisition engine
+ * - client: SniperTicker countdown (imported via the "@shared" alias)
+ *
+ * Keep this file dependency-free (no Node or browser APIs beyond Intl).
+ *
+ * How DST edge cases are resolved (same as Temporal's "compatible" mode):
+ * - AMBIGUOUS (fall back, e.g. 01:30 happens twice in New York on the
+ *   first Sunday of November): the EARLIER occurrence is used
+ * - NONEXISTENT (spring forward, e.g. 02:30 never happens in New York on
+ *   the second Sunday of March): the time is pushed forward by the gap
+ *   (02:30 -> 03:30 EDT)
+ *
+ * The server's own timezone never affects the result.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DropTimeStatus = 'exact' | 'ambiguous' | 'nonexistent';
+
+export interface DropTimeResolution {
+  instant: Date;            // The drop moment as an absolute instant
+  offsetMinutes: number;    // Zone offset from UTC at that instant (e.g. -240 for EDT)
+  status: DropTimeStatus;
+  localDate: string;        // YYYY-MM-DD actually used in the zone
+  localTime: string;        // HH:MM:SS actually used in the zone (shifted for gaps)
+}
+
+export interface ZonedParts {
+  date: string;       // YYYY-MM-DD
+  time: string;       // HH:MM:SS
+  dayOfWeek: number;  // 0-6 (Sunday-Saturday)
+}
+
+export const DEFAULT_DROP_TIMEZONE = 'America/New_York';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// ============================================
+// ZONE HELPERS
+// ============================================
+
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const pad = (n: number, width = 2): string => n.toString().padStart(width, '0');
+
+/**
+ * Check whether a string is a timezone the runtime knows about
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+const getWallClock = (instant: Date, timeZone: string) => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+};
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes
+ * (e.g. -300 for New York in January, -240 in July)
+ */
+export const getZoneOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const wall = getWallClock(instant, timeZone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallAsUtc - truncated) / MINUTE_MS);
+};
+
+/**
+ * Date, time and weekday of an instant as seen in a timezone
+ */
+export const toZonedParts = (instant: Date, timeZone: string): ZonedParts => {
+  const wall = getWallClock(instant, timeZone);
+  return {
+    date: `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`,
+    time: `${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`,
+    dayOfWeek: wall.weekday,
+  };
+};
+
+// ============================================
+// INPUT NORMALIZATION
+// ============================================
+
+/**
+ * Normalize a calendar date to YYYY-MM-DD.
+ * Accepts strings ("2025-03-09", "2025-03-09T00:00:00Z") or Date objects
+ * as returned by node-postgres for DATE columns (local midnight).
+ */
+export const normalizeDate = (date: string | Date): string => {
+  if (date instanceof Date) {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date.trim());
+  if (!match) {
+    throw new Error(`Invalid drop date: "${date}" (expected YYYY-MM-DD)`);
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/**
+ * Normalize a wall-clock time to HH:MM:SS.
+ * Accepts "9:00", "09:00", "09:00:00" (Postgres TIME columns).
+ */
+export const normalizeTime = (time: string): string => {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(time.trim());
+  if (!match) {
+    throw new Error(`Invalid drop time: "${time}" (expected HH:MM)`);
+  }
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  const seconds = match[3] ? parseInt(match[3]) : 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    throw new Error(`Invalid drop time: "${time}"`);
+  }
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// ============================================
+// RESOLVER
+// ============================================
+
+/**
+ * Resolve a local drop date/time in an IANA timezone to an absolute instant.
+ *
+ * @param date - Drop date (YYYY-MM-DD or Date from a DATE column)
+ * @param time - Drop time in the zone's wall clock (HH:MM or HH:MM:SS)
+ * @param timeZone - IANA zone, e.g. "America/Los_Angeles" (defaults to New York)
+ */
+export const resolveDropTime = (
+  date: string | Date,
+  time: string,
+  timeZone: string = DEFAULT_DROP_TIMEZONE
+): DropTimeResolution => {
+  const zone = timeZone || DEFAULT_DROP_TIMEZONE;
+  if (!isValidTimeZone(zone)) {
+    throw new Error(`Unknown timezone: "${zone}"`);
+  }
+
+  const localDate = normalizeDate(date);
+  const localTime = normalizeTime(time);
+  const [year, month, day] = localDate.split('-').map(Number);
+  const [hours, minutes, seconds] = localTime.split(':').map(Number);
+
+  // The wall-clock reading expressed as if it were UTC
+  const wallAsUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Offsets in effect on either side of any transition near this wall time
+  const offsetBefore = getZoneOffsetMinutes(new Date(wallAsUtc - DAY_MS), zone);
+  const offsetAfter = getZoneOffsetMinutes(new Date(wallAsUtc + DAY_MS), zone);
+
+  // Keep every candidate instant that actually reads as this wall time
+  const candidates: Array<{ instant: number; offset: number }> = [];
+  for (const offset of new Set([offsetBefore, offsetAfter])) {
+    const instant = wallAsUtc - offset * MINUTE_MS;
+    if (getZoneOffsetMinutes(new Date(instant), zone) === offset) {
+      candidates.push({ instant, offset });
+    }
+  }
+  candidates.sort((a, b) => a.instant - b.instant);
+
+  if (candidates.length > 0) {
+    const chosen = candidates[0];
+    return {
+      instant: new Date(chosen.instant),
+      offsetMinutes: chosen.offset,
+      status: candidates.length > 1 ? 'ambiguous' : 'exact',
+      localDate,
+      localTime,
+    };
+  }
+
+  // Wall time falls in a spring-forward gap: apply the pre-transition
+  // offset, which lands the same distance past the gap
+  const instant = new Date(wallAsUtc - offsetBefore * MINUTE_MS);
+  const shifted = toZonedParts(instant, zone);
+  return {
+    instant,
+    offsetMinutes: getZoneOffsetMinutes(instant, zone),
+    status: 'nonexistent',
+    localDate: shifted.date,
+    localTime: shifted.time,
+  };
+};
+
+/**
+ * Shorthand: the drop instant as a Date
+ */
+export const getDropInstant = (date: string | Date, time: string, timeZone?: string): Date => {
+  return resolveDropTime(date, time, timeZone).instant;
+};
+
+/**
+ * Whole calendar days from one date to another (DST-safe, timezone-free)
+ * e.g. daysBetween('2025-03-01', '2025-03-22') === 21
+ */
+export const daysBetween = (from: string | Date, to: string | Date): number => {
+  const [fy, fm, fd] = normalizeDate(from).split('-').map(Number);
+  const [ty, tm, td] = normalizeDate(to).split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+};
+
+export default {
+  DEFAULT_DROP_TIMEZONE,
+  isValidTimeZone,
+  getZoneOffsetMinutes,
+  toZonedParts,
+  normalizeDate,
+  normalizeTime,
+  resolveDropTime,
+  getDropInstant,
+  daysBetween,
+};
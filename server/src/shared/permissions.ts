@@ -0,0 +1,71 @@
+/**
+ * Roles & Permissions
+ *
+ * What each kind of user may do. The server enforces it per route (see
+ * middleware/auth.ts); the client uses the same table to hide what a user
+ * can't reach. Dependency-free so both sides can import it.
+ *
+ * - operator:  runs the business - everything, including booking real
+ *              tables, platform credentials and user accounts
+ * - analyst:   market research, pricing and the portfolio; can see which
+ *              identities exist (never their secrets) but not book
+ * - concierge: manages concierge clients and their booking requests;
+ *              no access to booking identities or credentials
+ * - read_only: dashboards only
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Role = 'operator' | 'analyst' | 'concierge' | 'read_only';
+
+export type Permission =
+  | 'read'                // View dashboards, portfolio, transfers, clients, analytics
+  | 'portfolio:manage'    // Add/edit watched & owned reservations
+  | 'transfers:manage'    // Move transfers through listing → sale → handover
+  | 'clients:manage'      // Concierge clients and booking requests
+  | 'analytics:manage'    // Market scans, pricing tiers, patterns, competitor data
+  | 'identities:read'     // List booking identities (credentials always masked)
+  | 'identities:manage'   // Add/edit identities and their platform credentials
+  | 'sniper:execute'      // Book, schedule drops, drive the bots
+  | 'notifications:send'  // Telegram/SMS messages and polling
+  | 'jobs:manage'         // Run scheduled jobs by hand, change their schedules
+  | 'users:manage';       // Accounts and roles
+
+export const ROLES: Role[] = ['operator', 'analyst', 'concierge', 'read_only'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  operator: 'Operator',
+  analyst: 'Analyst',
+  concierge: 'Concierge',
+  read_only: 'Read-only',
+};
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  operator: [
+    'read', 'portfolio:manage', 'transfers:manage', 'clients:manage', 'analytics:manage',
+    'identities:read', 'identities:manage', 'sniper:execute', 'notifications:send', 'jobs:manage', 'users:manage',
+  ],
+  analyst: ['read', 'portfolio:manage', 'analytics:manage', 'identities:read'],
+  concierge: ['read', 'clients:manage'],
+  read_only: ['read'],
+};
+
+// ============================================
+// CHECKS
+// ============================================
+
+export const isRole = (value: unknown): value is Role =>
+  typeof value === 'string' && (ROLES as string[]).includes(value);
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+
+export default {
+  ROLES,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  isRole,
+  hasPermission,
+};
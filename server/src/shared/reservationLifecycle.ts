@@ -0,0 +1,131 @@
+/**
+ * Reservation Lifecycle
+ *
+ * One status model for a reservation from the first drop we watch to the
+ * dinner, whether it's a portfolio item the dashboard tracks or a transfer
+ * the engine booked:
+ *
+ *   WATCHING -> ACQUIRED -> LISTED -> SOLD -> TRANSFER_PENDING -> TRANSFERRED -> COMPLETED
+ *
+ * plus PENDING_CONFIRMATION (a one-off drop failed, a human decides what's
+ * next) and CANCELLED (released on the platform). Only the transitions in
+ * RESERVATION_TRANSITIONS are valid; services/reservationLifecycle.ts
+ * enforces them and records every change. portfolio_items.status and
+ * transfers.status hold these values (the lists in schema.sql's comments
+ * predate migration 017).
+ *
+ * Shared by server and client - keep it dependency-free like dropTime.ts.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReservationStatus =
+  | 'WATCHING'
+  | 'PENDING_CONFIRMATION'
+  | 'ACQUIRED'
+  | 'LISTED'
+  | 'SOLD'
+  | 'TRANSFER_PENDING'
+  | 'TRANSFERRED'
+  | 'COMPLETED'
+  | 'CANCELLED';
+
+export const RESERVATION_STATUSES: ReservationStatus[] = [
+  'WATCHING',
+  'PENDING_CONFIRMATION',
+  'ACQUIRED',
+  'LISTED',
+  'SOLD',
+  'TRANSFER_PENDING',
+  'TRANSFERRED',
+  'COMPLETED',
+  'CANCELLED',
+];
+
+/**
+ * Where each status can go next
+ */
+export const RESERVATION_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  WATCHING: ['ACQUIRED', 'PENDING_CONFIRMATION'],
+  PENDING_CONFIRMATION: ['WATCHING', 'ACQUIRED'],
+  ACQUIRED: ['LISTED', 'SOLD', 'COMPLETED', 'CANCELLED'],         // COMPLETED: concierge, nothing to hand over
+  LISTED: ['ACQUIRED', 'SOLD', 'CANCELLED'],                      // ACQUIRED: taken off AT
+  SOLD: ['LISTED', 'TRANSFER_PENDING', 'TRANSFERRED', 'CANCELLED'], // LISTED: the sale fell through
+  TRANSFER_PENDING: ['TRANSFERRED', 'CANCELLED'],
+  TRANSFERRED: ['COMPLETED'],
+  COMPLETED: ['CANCELLED'],                                       // Concierge bookings the client cancels
+  CANCELLED: [],
+};
+
+// Statuses older dashboards stored
+const LEGACY_STATUSES: Record<string, ReservationStatus> = {
+  PENDING: 'TRANSFER_PENDING',
+};
+
+/**
+ * Thrown for a status change the lifecycle doesn't allow
+ */
+export class InvalidTransitionError extends Error {
+  constructor(public from: ReservationStatus, public to: ReservationStatus) {
+    super(`Cannot move a reservation from ${from} to ${to}` +
+      (RESERVATION_TRANSITIONS[from].length > 0
+        ? ` (allowed: ${RESERVATION_TRANSITIONS[from].join(', ')})`
+        : ` - ${from} is final`));
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+export const isReservationStatus = (value: unknown): value is ReservationStatus =>
+  RESERVATION_STATUSES.includes(value as ReservationStatus);
+
+/**
+ * A stored or submitted status in the current model (legacy names mapped),
+ * or null if it isn't one
+ */
+export const toReservationStatus = (value: unknown): ReservationStatus | null => {
+  const status = String(value ?? '').trim().toUpperCase();
+  if (isReservationStatus(status)) return status;
+  return LEGACY_STATUSES[status] ?? null;
+};
+
+export const canTransition = (from: ReservationStatus, to: ReservationStatus): boolean =>
+  RESERVATION_TRANSITIONS[from].includes(to);
+
+export const assertTransition = (from: ReservationStatus, to: ReservationStatus): void => {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+};
+
+/**
+ * Shortest chain of valid transitions from one status to another
+ * (excluding `from`), [] when they're the same, null when unreachable
+ */
+export const transitionPath = (from: ReservationStatus, to: ReservationStatus): ReservationStatus[] | null => {
+  if (from === to) return [];
+
+  const previous = new Map<ReservationStatus, ReservationStatus>();
+  const queue: ReservationStatus[] = [from];
+  while (queue.length > 0) {
+    const status = queue.shift()!;
+    for (const next of RESERVATION_TRANSITIONS[status]) {
+      if (next === from || previous.has(next)) continue;
+      previous.set(next, status);
+      if (next === to) {
+        const path: ReservationStatus[] = [to];
+        for (let step = status; step !== from; step = previous.get(step)!) {
+          path.unshift(step);
+        }
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+};
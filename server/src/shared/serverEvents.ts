@@ -0,0 +1,87 @@
+/**
+ * Server Events
+ *
+ * What the server pushes to dashboards over GET /api/events (Server-Sent
+ * Events), so a booking made by the scheduler shows up without a refresh.
+ *
+ * Every event has an increasing id. A client reconnecting with the last id
+ * it saw gets everything it missed - or a 'resync' event when the server
+ * no longer holds all of it (restart, long disconnect), meaning "reload".
+ * Dependency-free so both sides can import it.
+ */
+
+import type { Permission } from './permissions';
+import type { ReservationStatus } from './reservationLifecycle';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ServerEventPayloads {
+  // acquisitionEngine: 'drop' for a timed drop, 'direct' for a single booking run
+  'acquisition.started': {
+    restaurantName: string;
+    platform: string;
+    portfolioItemId?: string;
+    trigger: 'drop' | 'direct';
+  };
+  'acquisition.succeeded': {
+    restaurantName: string;
+    platform: string;
+    portfolioItemId?: string;
+    confirmationCode?: string;
+    transferId?: number;
+    attempts?: number;
+    duration?: number;
+  };
+  'acquisition.failed': {
+    restaurantName: string;
+    platform: string;
+    portfolioItemId?: string;
+    error?: string;
+    attempts?: number;
+  };
+  // Any reservation status change (reservationLifecycle) - transfers included
+  'reservation.status': {
+    portfolioItemId: string;
+    transferId: number | null;
+    from: ReservationStatus | null;
+    to: ReservationStatus;
+    actor: string;
+  };
+  // A credential was found not to work (validation or a failed booking)
+  'credential.failed': {
+    identityId: number;
+    platform: string;
+    message: string | null;
+    source: string;
+  };
+  'scheduler.state': {
+    running: boolean;
+    watchedCount: number;
+    nextDrop: { restaurant: string; time: string; platform: string } | null;
+  };
+}
+
+export type ServerEventType = keyof ServerEventPayloads;
+
+export type ServerEvent = {
+  [T in ServerEventType]: { id: number; type: T; data: ServerEventPayloads[T]; at: string };
+}[ServerEventType];
+
+export const SERVER_EVENT_TYPES: ServerEventType[] = [
+  'acquisition.started',
+  'acquisition.succeeded',
+  'acquisition.failed',
+  'reservation.status',
+  'credential.failed',
+  'scheduler.state',
+];
+
+// Sent instead of a replay the server can't give in full
+export const RESYNC_EVENT = 'resync';
+
+// Events only some roles receive (everything else needs 'read')
+export const SERVER_EVENT_PERMISSIONS: Partial<Record<ServerEventType, Permission>> = {
+  'credential.failed': 'identities:read',
+};
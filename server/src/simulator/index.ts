@@ -0,0 +1,45 @@
+/**
+ * Platform Simulator CLI
+ *
+ * Usage:
+ *   npm run simulator -- --port 4010 --scenario drop-at-300ms
+ *
+ * Then point the server at it:
+ *   PLATFORM_SIMULATOR_URL=http://127.0.0.1:4010 npm run dev
+ *
+ * Switch scenarios at runtime without restarting:
+ *   curl -X POST localhost:4010/__sim/scenario -H 'content-type: application/json' \
+ *     -d '{"name":"rate-limited","options":{"times":5}}'
+ */
+
+import PlatformSimulator from './platformSimulator';
+import { buildScenario, SCENARIO_NAMES } from './scenarios';
+
+const getArg = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+async function main() {
+  const port = Number(getArg('port') || process.env.SIMULATOR_PORT || 4010);
+  const host = getArg('host') || '127.0.0.1';
+  const scenarioName = getArg('scenario') || 'happy-path';
+
+  const simulator = new PlatformSimulator(buildScenario(scenarioName));
+  const url = await simulator.start(port, host);
+
+  console.log(`[PlatformSimulator] 🧪 Listening on ${url}`);
+  console.log(`[PlatformSimulator] Scenarios: ${SCENARIO_NAMES.join(', ')}`);
+  console.log(`[PlatformSimulator] Set PLATFORM_SIMULATOR_URL=${url} to route all booking clients here`);
+
+  const shutdown = () => {
+    simulator.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('[PlatformSimulator] ❌ Failed to start:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,958 @@
+/**
+ * Platform Simulator
+ *
+ * A local stand-in for the Resy, OpenTable, SevenRooms and Tock endpoints
+ * our API clients call, so the whole drop pipeline (acquisitionEngine.acquire,
+ * executeAtDropTime, concierge bookings) can run offline and in CI.
+ *
+ * Each platform is mounted under its own prefix - point a client at it with
+ * setBaseUrl() or PLATFORM_SIMULATOR_URL:
+ * - /resy        GET /4/find, GET /3/details, POST /3/book, POST /3/cancel,
+ *                GET /2/user
+ * - /opentable   POST /fe/gql (RestaurantsAvailability), POST /booking/make-reservation,
+ *                POST /booking/cancel-reservation
+ * - /sevenrooms  GET /api-yoa/availability/widget/range, POST /api-yoa/reservation/create,
+ *                POST /api-yoa/reservation/cancel
+ * - /tock        GET /api/consumer/booking/availability, POST /api/consumer/cart/...,
+ *                POST /api/consumer/ticket/:ticketId/cancel
+ *
+ * Behaviour is driven by a scenario (see scenarios.ts): venues with slots that
+ * release at T+n ms, plus scripted faults (429s, expired auth, sold-out races).
+ * Control endpoints live under /__sim (state, scenario, reset, requests).
+ */
+
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { buildScenario, ScenarioOptions } from './scenarios';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SimPlatform = 'resy' | 'opentable' | 'sevenrooms' | 'tock';
+
+// 'hold' is the step between finding a slot and booking it:
+// Resy /3/details, SevenRooms reservation/details, Tock cart/add
+export type SimEndpoint = 'find' | 'hold' | 'book' | 'cancel' | 'reservations' | 'search' | 'user';
+
+export type SimFaultKind =
+  | 'rate_limit'      // 429 with Retry-After
+  | 'auth_expired'    // 401
+  | 'forbidden'       // 403 (e.g. concierge access revoked)
+  | 'server_error'    // 500
+  | 'latency'         // Delay the request by delayMs, then serve it normally
+  | 'sold_out_race';  // Someone else books the slot just before us (book only)
+
+export interface SimFault {
+  platform: SimPlatform | '*';
+  endpoint: SimEndpoint | '*';
+  kind: SimFaultKind;
+  times?: number;             // How many requests to affect (default: unlimited)
+  afterMs?: number;           // Only active after T+afterMs
+  untilMs?: number;           // Only active before T+untilMs
+  delayMs?: number;           // For 'latency'
+  retryAfterSeconds?: number; // For 'rate_limit'
+}
+
+export interface SimSlotSpec {
+  time: string;             // HH:MM (24h, venue local)
+  capacity?: number;        // Bookings the slot can take (default 1)
+  releaseAfterMs?: number;  // Invisible until T+releaseAfterMs (default 0)
+  minParty?: number;
+  maxParty?: number;
+  price?: number;           // Tock prepaid price per ticket
+  cancellationFee?: number; // Resy late-cancel / no-show fee
+}
+
+export interface SimVenueSpec {
+  platform: SimPlatform;
+  venueId: string;          // Resy venue_id, OpenTable rid, SevenRooms/Tock slug
+  name: string;
+  slots: SimSlotSpec[];
+  dates?: string[];         // YYYY-MM-DD; omitted = the same slots on every date
+}
+
+export interface SimScenario {
+  name: string;
+  description?: string;
+  venues: SimVenueSpec[];
+  faults?: SimFault[];
+  conciergeEnabled?: boolean;  // Resy book_on_behalf / OpenTable isBookingOnBehalfOf (default true)
+}
+
+export interface SimReservation {
+  id: string;
+  confirmation: string;
+  platform: SimPlatform;
+  venueId: string;
+  date: string;
+  time: string;
+  partySize: number;
+  guest: { firstName?: string; lastName?: string; email?: string; phone?: string };
+  onBehalfOf: boolean;
+  status: 'BOOKED' | 'CANCELLED';
+  bookedAtMs: number;  // Relative to scenario start
+}
+
+export interface SimRequestLogEntry {
+  atMs: number;        // Relative to scenario start
+  platform: SimPlatform;
+  endpoint: SimEndpoint;
+  method: string;
+  path: string;
+  status?: number;
+  fault?: SimFaultKind;
+}
+
+interface SimSlot {
+  key: string;
+  id: number;
+  token: string;
+  platform: SimPlatform;
+  venueId: string;
+  date: string;
+  time: string;
+  remaining: number;
+  releaseAt: number;
+  minParty: number;
+  maxParty: number;
+  price: number;
+  cancellationFee: number | null;
+}
+
+interface ActiveFault extends SimFault {
+  remaining: number;
+}
+
+// Platform status code for "someone else got the slot first"
+const SLOT_TAKEN_STATUS: Record<SimPlatform, number> = {
+  resy: 412,
+  opentable: 409,
+  sevenrooms: 409,
+  tock: 409,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// "19:00" -> "7:00 PM" (Resy's time_slot format)
+const to12Hour = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes).padStart(2, '0')} ${period}`;
+};
+
+// SevenRooms sends MM-DD-YYYY
+const fromSevenRoomsDate = (value: string): string => {
+  const [month, day, year] = value.split('-');
+  return `${year}-${month}-${day}`;
+};
+
+const addDaysIso = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+// ============================================
+// SIMULATOR
+// ============================================
+
+export class PlatformSimulator {
+  private app = express();
+  private server: Server | null = null;
+  private scenario: SimScenario = { name: 'empty', venues: [] };
+  private startedAt = Date.now();
+  private slots: Map<string, SimSlot> = new Map();
+  private slotsById: Map<number, SimSlot> = new Map();
+  private slotsByToken: Map<string, SimSlot> = new Map();
+  private bookTokens: Map<string, { slotKey: string; partySize: number }> = new Map();
+  private carts: Map<string, { slotKey: string; quantity: number }> = new Map();
+  private faults: ActiveFault[] = [];
+  private reservations: SimReservation[] = [];
+  private requestLog: SimRequestLogEntry[] = [];
+  private nextId = 1;
+
+  constructor(scenario?: SimScenario) {
+    this.app.use(express.json());
+    this.app.use(express.urlencoded({ extended: false }));
+
+    this.app.use('/__sim', this.controlRoutes());
+    this.app.use('/resy', this.resyRoutes());
+    this.app.use('/opentable', this.openTableRoutes());
+    this.app.use('/sevenrooms', this.sevenRoomsRoutes());
+    this.app.use('/tock', this.tockRoutes());
+
+    if (scenario) {
+      this.loadScenario(scenario);
+    }
+  }
+
+  // ============================================
+  // LIFECYCLE
+  // ============================================
+
+  /**
+   * Start listening. Port 0 picks a free port (use url afterwards).
+   */
+  start(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.app.listen(port, host, () => {
+        this.server = server;
+        resolve(this.url);
+      });
+      server.on('error', reject);
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve();
+      this.server.close(error => (error ? reject(error) : resolve()));
+      // Drop axios keep-alive sockets so close() doesn't hang
+      this.server.closeAllConnections?.();
+      this.server = null;
+    });
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Simulator is not running');
+    }
+    const address = this.server.address() as AddressInfo;
+    return `http://${address.address}:${address.port}`;
+  }
+
+  /**
+   * Base URL for one platform's client (pass to setBaseUrl)
+   */
+  platformUrl(platform: SimPlatform): string {
+    return `${this.url}/${platform}`;
+  }
+
+  /**
+   * Replace all inventory, faults and bookings. The scenario clock (T) starts now.
+   */
+  loadScenario(scenario: SimScenario): void {
+    this.scenario = scenario;
+    this.startedAt = Date.now();
+    this.slots.clear();
+    this.slotsById.clear();
+    this.slotsByToken.clear();
+    this.bookTokens.clear();
+    this.carts.clear();
+    this.reservations = [];
+    this.requestLog = [];
+    this.faults = (scenario.faults || []).map(fault => ({
+      ...fault,
+      remaining: fault.times ?? Infinity,
+    }));
+    console.log(`[PlatformSimulator] 🎬 Loaded scenario "${scenario.name}" (${scenario.venues.length} venues, ${this.faults.length} faults)`);
+  }
+
+  /**
+   * Reload the current scenario from scratch
+   */
+  reset(): void {
+    this.loadScenario(this.scenario);
+  }
+
+  getReservations(platform?: SimPlatform): SimReservation[] {
+    return this.reservations.filter(r => !platform || r.platform === platform);
+  }
+
+  getRequestLog(platform?: SimPlatform): SimRequestLogEntry[] {
+    return this.requestLog.filter(r => !platform || r.platform === platform);
+  }
+
+  getState() {
+    return {
+      scenario: this.scenario.name,
+      description: this.scenario.description,
+      elapsedMs: this.elapsed(),
+      slots: Array.from(this.slots.values()).map(slot => ({
+        platform: slot.platform,
+        venueId: slot.venueId,
+        date: slot.date,
+        time: slot.time,
+        remaining: slot.remaining,
+        released: this.isReleased(slot),
+      })),
+      faults: this.faults.map(({ remaining, ...fault }) => ({
+        ...fault,
+        remaining: Number.isFinite(remaining) ? remaining : null,
+      })),
+      reservations: this.reservations,
+      requests: this.requestLog.length,
+    };
+  }
+
+  // ============================================
+  // INVENTORY
+  // ============================================
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private isReleased(slot: SimSlot): boolean {
+    return this.elapsed() >= slot.releaseAt;
+  }
+
+  private findVenue(platform: SimPlatform, venueId: string): SimVenueSpec | undefined {
+    return this.scenario.venues.find(v => v.platform === platform && v.venueId === String(venueId));
+  }
+
+  /**
+   * Slots for a venue/date, created on first access so scenarios don't need
+   * to list every date a test might ask for
+   */
+  private getSlots(platform: SimPlatform, venueId: string, date: string): SimSlot[] {
+    const venue = this.findVenue(platform, venueId);
+    if (!venue || (venue.dates && !venue.dates.includes(date))) return [];
+
+    return venue.slots.map(spec => {
+      const key = `${platform}:${venue.venueId}:${date}:${spec.time}`;
+      let slot = this.slots.get(key);
+      if (!slot) {
+        const id = this.nextId++;
+        slot = {
+          key,
+          id,
+          token: `sim-${platform}-${id}-${Math.random().toString(36).slice(2, 10)}`,
+          platform,
+          venueId: venue.venueId,
+          date,
+          time: spec.time,
+          remaining: spec.capacity ?? 1,
+          releaseAt: spec.releaseAfterMs ?? 0,
+          minParty: spec.minParty ?? 1,
+          maxParty: spec.maxParty ?? 8,
+          price: spec.price ?? 0,
+          cancellationFee: spec.cancellationFee ?? null,
+        };
+        this.slots.set(key, slot);
+        this.slotsById.set(id, slot);
+        this.slotsByToken.set(slot.token, slot);
+      }
+      return slot;
+    });
+  }
+
+  /**
+   * Released slots that fit the party (bookable or not)
+   */
+  private visibleSlots(platform: SimPlatform, venueId: string, date: string, partySize: number): SimSlot[] {
+    return this.getSlots(platform, venueId, date).filter(slot =>
+      this.isReleased(slot) && partySize >= slot.minParty && partySize <= slot.maxParty
+    );
+  }
+
+  private isBookable(slot: SimSlot | undefined, partySize: number): slot is SimSlot {
+    return !!slot && this.isReleased(slot) && slot.remaining > 0
+      && partySize >= slot.minParty && partySize <= slot.maxParty;
+  }
+
+  private book(
+    slot: SimSlot,
+    partySize: number,
+    guest: SimReservation['guest'],
+    onBehalfOf: boolean
+  ): SimReservation {
+    slot.remaining--;
+    const id = String(this.nextId++);
+    const reservation: SimReservation = {
+      id,
+      confirmation: `SIM-${slot.platform.toUpperCase()}-${id}`,
+      platform: slot.platform,
+      venueId: slot.venueId,
+      date: slot.date,
+      time: slot.time,
+      partySize,
+      guest,
+      onBehalfOf,
+      status: 'BOOKED',
+      bookedAtMs: this.elapsed(),
+    };
+    this.reservations.push(reservation);
+    console.log(`[PlatformSimulator] ✅ ${slot.platform} booked ${slot.venueId} ${slot.date} ${slot.time} for ${guest.firstName || ''} ${guest.lastName || ''} (${reservation.confirmation})`);
+    return reservation;
+  }
+
+  private cancel(platform: SimPlatform, match: (r: SimReservation) => boolean): SimReservation | null {
+    const reservation = this.reservations.find(r => r.platform === platform && r.status === 'BOOKED' && match(r));
+    if (!reservation) return null;
+
+    reservation.status = 'CANCELLED';
+    const slot = this.slots.get(`${platform}:${reservation.venueId}:${reservation.date}:${reservation.time}`);
+    if (slot) slot.remaining++;
+    return reservation;
+  }
+
+  // ============================================
+  // FAULTS
+  // ============================================
+
+  private takeFault(
+    platform: SimPlatform,
+    endpoint: SimEndpoint,
+    accept: (kind: SimFaultKind) => boolean
+  ): ActiveFault | null {
+    const now = this.elapsed();
+    const fault = this.faults.find(f =>
+      f.remaining > 0
+      && (f.platform === '*' || f.platform === platform)
+      && (f.endpoint === '*' || f.endpoint === endpoint)
+      && (f.afterMs === undefined || now >= f.afterMs)
+      && (f.untilMs === undefined || now < f.untilMs)
+      && accept(f.kind)
+    );
+    if (!fault) return null;
+    fault.remaining--;
+    return fault;
+  }
+
+  private sendError(res: Response, status: number, message: string): void {
+    res.status(status).json({ status, message });
+  }
+
+  /**
+   * Log the request and apply any scripted fault before the handler runs.
+   * sold_out_race is left to the book handlers, which know the slot.
+   */
+  private guard(platform: SimPlatform, endpoint: SimEndpoint): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const entry: SimRequestLogEntry = {
+        atMs: this.elapsed(),
+        platform,
+        endpoint,
+        method: req.method,
+        path: req.originalUrl,
+      };
+      this.requestLog.push(entry);
+      res.on('finish', () => { entry.status = res.statusCode; });
+
+      const fault = this.takeFault(platform, endpoint, kind => kind !== 'sold_out_race');
+      if (!fault) return next();
+      entry.fault = fault.kind;
+
+      switch (fault.kind) {
+        case 'latency':
+          await sleep(fault.delayMs ?? 1000);
+          return next();
+        case 'rate_limit':
+          res.setHeader('Retry-After', String(fault.retryAfterSeconds ?? 1));
+          return this.sendError(res, 429, 'Too Many Requests');
+        case 'auth_expired':
+          return this.sendError(res, 401, 'Unauthorized - session expired');
+        case 'forbidden':
+          return this.sendError(res, 403, 'Forbidden');
+        case 'server_error':
+          return this.sendError(res, 500, 'Internal Server Error');
+      }
+    };
+  }
+
+  /**
+   * Scripted race: another diner books the slot a moment before we do
+   */
+  private lostRace(platform: SimPlatform, slot: SimSlot, req: Request): boolean {
+    const fault = this.takeFault(platform, 'book', kind => kind === 'sold_out_race');
+    if (!fault) return false;
+    slot.remaining = 0;
+    const entry = this.requestLog[this.requestLog.length - 1];
+    if (entry && entry.path === req.originalUrl) entry.fault = 'sold_out_race';
+    console.log(`[PlatformSimulator] 🏃 ${platform} ${slot.venueId} ${slot.time} sniped by another diner`);
+    return true;
+  }
+
+  private hasHeader(req: Request, name: string): boolean {
+    const value = req.header(name);
+    return !!value && value.trim() !== '' && value.trim() !== 'Bearer';
+  }
+
+  // ============================================
+  // CONTROL API
+  // ============================================
+
+  private controlRoutes(): express.Router {
+    const router = express.Router();
+
+    /**
+     * GET /__sim/state
+     * Scenario, inventory, remaining faults and bookings
+     */
+    router.get('/state', (req, res) => {
+      res.json(this.getState());
+    });
+
+    /**
+     * POST /__sim/scenario
+     * Load a built-in scenario { name, options? } or a full one { scenario }
+     */
+    router.post('/scenario', (req, res) => {
+      try {
+        const scenario: SimScenario = req.body?.scenario
+          || buildScenario(String(req.body?.name), (req.body?.options || {}) as ScenarioOptions);
+        this.loadScenario(scenario);
+        res.json({ success: true, scenario: scenario.name });
+      } catch (error: any) {
+        this.sendError(res, 400, error.message);
+      }
+    });
+
+    /**
+     * POST /__sim/reset
+     * Restart the current scenario clock and inventory
+     */
+    router.post('/reset', (req, res) => {
+      this.reset();
+      res.json({ success: true, scenario: this.scenario.name });
+    });
+
+    /**
+     * GET /__sim/requests
+     * Every platform request seen since the scenario started
+     */
+    router.get('/requests', (req, res) => {
+      res.json({ requests: this.getRequestLog(req.query.platform as SimPlatform | undefined) });
+    });
+
+    return router;
+  }
+
+  // ============================================
+  // RESY
+  // ============================================
+
+  private resyRoutes(): express.Router {
+    const router = express.Router();
+
+    router.get('/4/find', this.guard('resy', 'find'), (req, res) => {
+      const venueId = String(req.query.venue_id);
+      const date = String(req.query.day);
+      const partySize = Number(req.query.party_size) || 2;
+      const venue = this.findVenue('resy', venueId);
+      if (!venue) {
+        return res.json({ results: { venues: [] } });
+      }
+
+      const slots = this.visibleSlots('resy', venueId, date, partySize)
+        .filter(slot => slot.remaining > 0)
+        .map(slot => ({
+          config_id: slot.token,
+          date: { start: `${date} ${slot.time}:00`, end: `${date} ${slot.time}:00` },
+          shift: { day: date, shift_type: 'dinner' },
+          size: { min: slot.minParty, max: slot.maxParty },
+          payment: { cancellation_fee: slot.cancellationFee, deposit_fee: null, service_charge: null },
+          table: { type: 'Dining Room', table_id: slot.id },
+          time_slot: to12Hour(slot.time),
+        }));
+
+      res.json({
+        results: {
+          venues: [{
+            venue: {
+              id: { resy: Number(venueId) },
+              name: venue.name,
+              price_range: 4,
+              rating: 4.8,
+              location: { city: 'Simulator', neighborhood: 'Localhost' },
+            },
+            slots,
+          }],
+        },
+      });
+    });
+
+    router.get('/3/details', this.guard('resy', 'hold'), (req, res) => {
+      const slot = this.slotsByToken.get(String(req.query.config_id));
+      const partySize = Number(req.query.party_size) || 2;
+      if (!this.isBookable(slot, partySize)) {
+        return this.sendError(res, 404, 'Slot not found');
+      }
+
+      const value = `sim-book-${this.nextId++}`;
+      this.bookTokens.set(value, { slotKey: slot.key, partySize });
+      res.json({
+        book_token: { value, date_expires: new Date(Date.now() + 5 * 60 * 1000).toISOString() },
+        venue: { name: this.findVenue('resy', slot.venueId)?.name },
+      });
+    });
+
+    router.post('/3/book', this.guard('resy', 'book'), (req, res) => {
+      if (!this.hasHeader(req, 'x-resy-auth-token')) {
+        return this.sendError(res, 401, 'Unauthorized');
+      }
+      const hold = this.bookTokens.get(String(req.body.book_token));
+      const slot = hold && this.slots.get(hold.slotKey);
+      if (!hold || !slot) {
+        return this.sendError(res, 400, 'Invalid or expired book token');
+      }
+
+      const onBehalfOf = req.body.book_on_behalf === 'true';
+      if (onBehalfOf && this.scenario.conciergeEnabled === false) {
+        return this.sendError(res, 403, 'Concierge access denied');
+      }
+      if (this.lostRace('resy', slot, req) || !this.isBookable(slot, hold.partySize)) {
+        return this.sendError(res, SLOT_TAKEN_STATUS.resy, 'Slot no longer available');
+      }
+
+      this.bookTokens.delete(String(req.body.book_token));
+      const reservation = this.book(slot, hold.partySize, {
+        firstName: req.body.guest_first_name,
+        lastName: req.body.guest_last_name,
+        email: req.body.guest_email,
+        phone: req.body.guest_phone_number,
+      }, onBehalfOf);
+
+      res.status(201).json({ resy_token: reservation.confirmation, reservation_id: Number(reservation.id) });
+    });
+
+    router.post('/3/cancel', this.guard('resy', 'cancel'), (req, res) => {
+      if (!this.hasHeader(req, 'x-resy-auth-token')) {
+        return this.sendError(res, 401, 'Unauthorized');
+      }
+      const cancelled = this.cancel('resy', r => r.confirmation === req.body.resy_token);
+      if (!cancelled) {
+        return this.sendError(res, 404, 'Reservation not found');
+      }
+      res.json({ payment: { transaction: { refund: 0 } }, cancelled: true });
+    });
+
+    // The profile credential checks read
+    router.get('/2/user', this.guard('resy', 'user'), (req, res) => {
+      if (!this.hasHeader(req, 'x-resy-auth-token')) {
+        return this.sendError(res, 401, 'Unauthorized');
+      }
+      res.json({ id: 1, first_name: 'Sim', last_name: 'Diner', email_address: 'diner@example.com' });
+    });
+
+    router.get('/3/user/reservations', this.guard('resy', 'reservations'), (req, res) => {
+      const reservations = this.getReservations('resy')
+        .filter(r => r.status === 'BOOKED')
+        .filter(r => req.query.concierge !== 'true' || r.onBehalfOf)
+        .map(r => ({
+          resy_token: r.confirmation,
+          reservation_id: Number(r.id),
+          venue: { id: Number(r.venueId), name: this.findVenue('resy', r.venueId)?.name },
+          day: r.date,
+          time_slot: `${r.time}:00`,
+          num_seats: r.partySize,
+          guest: r.onBehalfOf ? { first_name: r.guest.firstName, last_name: r.guest.lastName } : undefined,
+        }));
+      // Paged like Resy: offset is 1-based
+      const limit = Number(req.query.limit) || 50;
+      const offset = Math.max(Number(req.query.offset) || 1, 1);
+      res.json({ reservations: reservations.slice(offset - 1, offset - 1 + limit) });
+    });
+
+    router.get('/3/autocomplete', this.guard('resy', 'search'), (req, res) => {
+      const query = String(req.query.query || '').toLowerCase();
+      const venues = this.scenario.venues
+        .filter(v => v.platform === 'resy' && v.name.toLowerCase().includes(query))
+        .map(v => ({
+          id: Number(v.venueId),
+          name: v.name,
+          location: { city: 'Simulator', neighborhood: 'Localhost' },
+          cuisine: ['Simulated'],
+          price_range: 4,
+        }));
+      res.json({ results: { venues } });
+    });
+
+    return router;
+  }
+
+  // ============================================
+  // OPENTABLE
+  // ============================================
+
+  private openTableRoutes(): express.Router {
+    const router = express.Router();
+
+    const availability = (req: Request, res: Response) => {
+      const vars = req.body?.variables || {};
+      const restaurantId = String(vars.restaurantIds?.[0]);
+      const date = String(vars.date);
+      const partySize = Number(vars.partySize) || 2;
+      const requested = toMinutes(String(vars.time || '19:00'));
+
+      const slots = this.visibleSlots('opentable', restaurantId, date, partySize).map(slot => ({
+        isAvailable: slot.remaining > 0,
+        time: slot.time,
+        timeOffsetMinutes: toMinutes(slot.time) - requested,
+        slotAvailabilityToken: slot.token,
+        slotHash: String(slot.id),
+        attributes: ['default'],
+      }));
+
+      res.json({
+        data: {
+          availability: [{
+            restaurantId: Number(restaurantId),
+            availabilityDays: [{ date, slots }],
+          }],
+        },
+      });
+    };
+
+    const profile = (req: Request, res: Response) => {
+      let restaurantId = '';
+      try {
+        restaurantId = String(JSON.parse(String(req.query.variables || '{}')).restaurantId);
+      } catch {
+        // Fall through to "not found"
+      }
+      const venue = this.findVenue('opentable', restaurantId);
+      res.json({ data: { restaurant: venue ? { restaurantId: Number(venue.venueId), name: venue.name } : null } });
+    };
+
+    // Both operations share the GraphQL endpoint; route by opname
+    router.post('/fe/gql', (req, res, next) => {
+      if (req.query.opname !== 'RestaurantsAvailability') return next();
+      this.guard('opentable', 'find')(req, res, () => availability(req, res));
+    });
+    router.get('/fe/gql', this.guard('opentable', 'search'), profile);
+    router.all('/fe/gql', (req, res) => this.sendError(res, 400, `Unknown operation: ${req.query.opname}`));
+
+    router.post('/booking/make-reservation', this.guard('opentable', 'book'), (req, res) => {
+      if (!this.hasHeader(req, 'x-csrf-token')) {
+        return this.sendError(res, 401, 'Invalid CSRF token');
+      }
+      const slot = this.slotsByToken.get(String(req.body.slotAvailabilityToken));
+      const partySize = Number(req.body.partySize) || 2;
+      if (!slot || String(slot.id) !== String(req.body.slotHash)) {
+        return this.sendError(res, 400, 'Invalid slot token');
+      }
+
+      const onBehalfOf = req.body.isBookingOnBehalfOf === true;
+      if (onBehalfOf && this.scenario.conciergeEnabled === false) {
+        return this.sendError(res, 403, 'Professional profile not enabled');
+      }
+      if (this.lostRace('opentable', slot, req) || !this.isBookable(slot, partySize)) {
+        return this.sendError(res, SLOT_TAKEN_STATUS.opentable, 'This time is no longer available');
+      }
+
+      const reservation = this.book(slot, partySize, {
+        firstName: req.body.firstName,
+        lastName: req.body.lastName,
+        email: req.body.email,
+        phone: req.body.phoneNumber,
+      }, onBehalfOf);
+
+      res.json({
+        confirmationNumber: reservation.confirmation,
+        rid: Number(slot.venueId),
+        reservationId: Number(reservation.id),
+        reservationDateTime: `${slot.date}T${slot.time}`,
+      });
+    });
+
+    router.post('/booking/cancel-reservation', this.guard('opentable', 'cancel'), (req, res) => {
+      const cancelled = this.cancel('opentable', r => r.confirmation === req.body.confirmationNumber);
+      if (!cancelled) {
+        return this.sendError(res, 404, 'Reservation not found');
+      }
+      res.json({ success: true, confirmationNumber: cancelled.confirmation });
+    });
+
+    return router;
+  }
+
+  // ============================================
+  // SEVENROOMS
+  // ============================================
+
+  private sevenRoomsRoutes(): express.Router {
+    const router = express.Router();
+
+    router.get('/api-yoa/availability/widget/range', this.guard('sevenrooms', 'find'), (req, res) => {
+      const venueId = String(req.query.venue);
+      const partySize = Number(req.query.party_size) || 2;
+      const startDate = fromSevenRoomsDate(String(req.query.start_date));
+      const numDays = Math.max(1, Number(req.query.num_days) || 1);
+
+      const availability: Record<string, any[]> = {};
+      for (let i = 0; i < numDays; i++) {
+        const date = addDaysIso(startDate, i);
+        const times = this.visibleSlots('sevenrooms', venueId, date, partySize).map(slot => ({
+          time: slot.time,
+          time_iso: `${date} ${slot.time}:00`,
+          // SevenRooms keeps full slots in the list with a null access id
+          access_persistent_id: slot.remaining > 0 ? slot.token : null,
+          shift_persistent_id: `sim-shift-${venueId}`,
+          public_time_slot_description: 'Dining Room',
+          shift_category: 'DINNER',
+        }));
+        availability[date] = [{ name: 'Dinner', shift_category: 'DINNER', times }];
+      }
+
+      res.json({ status: 200, data: { availability } });
+    });
+
+    router.get('/api-yoa/reservation/details', this.guard('sevenrooms', 'hold'), (req, res) => {
+      const slot = this.slotsByToken.get(String(req.query.access_persistent_id));
+      if (!slot) {
+        return this.sendError(res, 404, 'Slot not found');
+      }
+      res.json({
+        status: 200,
+        data: {
+          venue: slot.venueId,
+          time_iso: `${slot.date} ${slot.time}:00`,
+          party_size: Number(req.query.party_size) || 2,
+          hold_expires_in_seconds: 300,
+        },
+      });
+    });
+
+    router.post('/api-yoa/reservation/create', this.guard('sevenrooms', 'book'), (req, res) => {
+      const slot = this.slotsByToken.get(String(req.body.access_persistent_id));
+      const partySize = Number(req.body.party_size) || 2;
+      if (!slot) {
+        return this.sendError(res, 400, 'Invalid access rule');
+      }
+      if (this.lostRace('sevenrooms', slot, req) || !this.isBookable(slot, partySize)) {
+        return this.sendError(res, SLOT_TAKEN_STATUS.sevenrooms, 'The selected time is no longer available');
+      }
+
+      const reservation = this.book(slot, partySize, {
+        firstName: req.body.first_name,
+        lastName: req.body.last_name,
+        email: req.body.email,
+        phone: req.body.phone_number,
+      }, false);
+
+      res.json({
+        status: 200,
+        data: {
+          confirmation_number: reservation.confirmation,
+          reservation_id: reservation.id,
+          venue: slot.venueId,
+          time_iso: `${slot.date} ${slot.time}:00`,
+        },
+      });
+    });
+
+    router.post('/api-yoa/reservation/cancel', this.guard('sevenrooms', 'cancel'), (req, res) => {
+      const cancelled = this.cancel('sevenrooms', r => r.confirmation === req.body.confirmation_number);
+      if (!cancelled) {
+        return this.sendError(res, 404, 'Reservation not found');
+      }
+      res.json({ status: 200, data: { confirmation_number: cancelled.confirmation, status: 'CANCELED' } });
+    });
+
+    return router;
+  }
+
+  // ============================================
+  // TOCK
+  // ============================================
+
+  private tockRoutes(): express.Router {
+    const router = express.Router();
+
+    router.get('/api/consumer/booking/availability', this.guard('tock', 'find'), (req, res) => {
+      const venueId = String(req.query.business);
+      const date = String(req.query.date);
+      const partySize = Number(req.query.size) || 2;
+
+      const availabilities = this.visibleSlots('tock', venueId, date, partySize)
+        .filter(slot => slot.remaining > 0)
+        .map(slot => ({
+          id: String(slot.id),
+          // No offset: the client reads the hour in local time
+          start_time: `${date}T${slot.time}:00`,
+          end_time: `${date}T${slot.time}:00`,
+          tickets_available: slot.remaining,
+          price: slot.price,
+          experience_id: `sim-experience-${venueId}`,
+          experience_name: this.findVenue('tock', venueId)?.name || 'Dining',
+        }));
+
+      res.json({ availabilities });
+    });
+
+    router.post('/api/consumer/cart/add', this.guard('tock', 'hold'), (req, res) => {
+      if (!this.hasHeader(req, 'authorization')) {
+        return this.sendError(res, 401, 'Login required');
+      }
+      const slot = this.slotsById.get(Number(req.body.availability_id));
+      const quantity = Number(req.body.quantity) || 2;
+      if (!this.isBookable(slot, quantity)) {
+        return this.sendError(res, SLOT_TAKEN_STATUS.tock, 'Tickets are no longer available');
+      }
+
+      const cartId = `sim-cart-${this.nextId++}`;
+      this.carts.set(cartId, { slotKey: slot.key, quantity });
+      res.json({ cart_id: cartId, expires_in_seconds: 600 });
+    });
+
+    router.post('/api/consumer/cart/:cartId/checkout', this.guard('tock', 'book'), (req, res) => {
+      if (!this.hasHeader(req, 'authorization')) {
+        return this.sendError(res, 401, 'Login required');
+      }
+      const cart = this.carts.get(req.params.cartId);
+      const slot = cart && this.slots.get(cart.slotKey);
+      if (!cart || !slot) {
+        return this.sendError(res, 404, 'Cart not found');
+      }
+      if (this.lostRace('tock', slot, req) || !this.isBookable(slot, cart.quantity)) {
+        return this.sendError(res, SLOT_TAKEN_STATUS.tock, 'Tickets are no longer available');
+      }
+
+      this.carts.delete(req.params.cartId);
+      const reservation = this.book(slot, cart.quantity, {
+        firstName: req.body.guest_first_name,
+        lastName: req.body.guest_last_name,
+        email: req.body.guest_email,
+        phone: req.body.guest_phone,
+      }, !!req.body.guest_first_name);
+
+      res.json({
+        confirmation_number: reservation.confirmation,
+        ticket_id: reservation.id,
+        total: slot.price * cart.quantity,
+      });
+    });
+
+    // Tickets are addressed by ticket ID or by the confirmation number on them
+    router.post('/api/consumer/ticket/:ticketId/cancel', this.guard('tock', 'cancel'), (req, res) => {
+      const cancelled = this.cancel('tock', r => r.id === req.params.ticketId || r.confirmation === req.params.ticketId);
+      if (!cancelled) {
+        return this.sendError(res, 404, 'Ticket not found');
+      }
+      res.json({ success: true, ticket_id: cancelled.id });
+    });
+
+    router.get('/api/consumer/search', this.guard('tock', 'search'), (req, res) => {
+      const query = String(req.query.q || '').toLowerCase();
+      const results = this.scenario.venues
+        .filter(v => v.platform === 'tock' && v.name.toLowerCase().includes(query))
+        .map(v => ({ slug: v.venueId, name: v.name, city: 'Simulator' }));
+      res.json({ results });
+    });
+
+    router.get('/:slug/search', this.guard('tock', 'search'), (req, res) => {
+      const venue = this.findVenue('tock', req.params.slug);
+      if (!venue) {
+        return res.status(404).send('Not found');
+      }
+      res.type('html').send(`<html><head><title>${venue.name}</title></head><body></body></html>`);
+    });
+
+    return router;
+  }
+}
+
+export default PlatformSimulator;
@@ -0,0 +1,136 @@
+/**
+ * Built-in Simulator Scenarios
+ *
+ * Each scenario gives every platform one venue with the same three dinner
+ * slots, then varies when they release and which faults fire:
+ *
+ * - happy-path      Slots open immediately, every call succeeds
+ * - drop-at-300ms   Slots appear at T+300ms (the drop), nothing before
+ * - rate-limited    First N slot searches per platform return 429
+ * - auth-expired    Authenticated calls return 401 (SevenRooms has no auth)
+ * - sold-out-race   First booking per platform loses the slot to another diner
+ * - sold-out        Venues exist but every slot is already gone
+ */
+
+import type { SimPlatform, SimScenario, SimSlotSpec, SimVenueSpec, SimFault } from './platformSimulator';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ScenarioOptions {
+  releaseAfterMs?: number;  // drop-at-300ms: when slots appear (default 300)
+  times?: number;           // rate-limited: how many 429s per platform (default 3)
+  capacity?: number;        // Bookings per slot (default 1)
+  conciergeEnabled?: boolean;
+}
+
+export type ScenarioName =
+  | 'happy-path'
+  | 'drop-at-300ms'
+  | 'rate-limited'
+  | 'auth-expired'
+  | 'sold-out-race'
+  | 'sold-out';
+
+// ============================================
+// DEFAULT VENUES
+// ============================================
+
+export const SIM_VENUES: Record<SimPlatform, { venueId: string; name: string }> = {
+  resy: { venueId: '1001', name: 'Simulated Resy Bistro' },
+  opentable: { venueId: '2001', name: 'Simulated OpenTable Grill' },
+  sevenrooms: { venueId: 'sim-sevenrooms', name: 'Simulated SevenRooms Supper Club' },
+  tock: { venueId: 'sim-tock', name: 'Simulated Tock Tasting Room' },
+};
+
+export const SIM_SLOT_TIMES = ['17:30', '19:00', '21:00'];
+
+const PLATFORMS: SimPlatform[] = ['resy', 'opentable', 'sevenrooms', 'tock'];
+
+const buildVenues = (slot: Omit<SimSlotSpec, 'time'>): SimVenueSpec[] =>
+  PLATFORMS.map(platform => ({
+    platform,
+    ...SIM_VENUES[platform],
+    slots: SIM_SLOT_TIMES.map(time => ({
+      time,
+      ...slot,
+      price: platform === 'tock' ? 295 : undefined,
+      cancellationFee: platform === 'resy' ? 50 : undefined,
+    })),
+  }));
+
+const forEachPlatform = (fault: Omit<SimFault, 'platform'>, platforms = PLATFORMS): SimFault[] =>
+  platforms.map(platform => ({ platform, ...fault }));
+
+// ============================================
+// SCENARIOS
+// ============================================
+
+const SCENARIOS: Record<ScenarioName, (options: ScenarioOptions) => SimScenario> = {
+  'happy-path': ({ capacity }) => ({
+    name: 'happy-path',
+    description: 'Slots open immediately and every call succeeds',
+    venues: buildVenues({ capacity }),
+  }),
+
+  'drop-at-300ms': ({ capacity, releaseAfterMs = 300 }) => ({
+    name: 'drop-at-300ms',
+    description: `No inventory until T+${releaseAfterMs}ms, then the drop`,
+    venues: buildVenues({ capacity, releaseAfterMs }),
+  }),
+
+  'rate-limited': ({ capacity, times = 3 }) => ({
+    name: 'rate-limited',
+    description: `First ${times} slot searches per platform return 429`,
+    venues: buildVenues({ capacity }),
+    faults: forEachPlatform({ endpoint: 'find', kind: 'rate_limit', times, retryAfterSeconds: 1 }),
+  }),
+
+  'auth-expired': ({ capacity }) => ({
+    name: 'auth-expired',
+    description: 'Authenticated calls return 401 as if the session expired',
+    venues: buildVenues({ capacity }),
+    faults: [
+      ...forEachPlatform({ endpoint: 'book', kind: 'auth_expired' }, ['resy', 'opentable', 'tock']),
+      { platform: 'tock', endpoint: 'hold', kind: 'auth_expired' },
+    ],
+  }),
+
+  'sold-out-race': ({ capacity }) => ({
+    name: 'sold-out-race',
+    description: 'The first booking per platform loses the slot to another diner',
+    venues: buildVenues({ capacity }),
+    faults: forEachPlatform({ endpoint: 'book', kind: 'sold_out_race', times: 1 }),
+  }),
+
+  'sold-out': () => ({
+    name: 'sold-out',
+    description: 'Every slot is already booked',
+    venues: buildVenues({ capacity: 0 }),
+  }),
+};
+
+export const SCENARIO_NAMES = Object.keys(SCENARIOS) as ScenarioName[];
+
+/**
+ * Build a built-in scenario by name
+ */
+export const buildScenario = (name: string, options: ScenarioOptions = {}): SimScenario => {
+  const factory = SCENARIOS[name as ScenarioName];
+  if (!factory) {
+    throw new Error(`Unknown scenario "${name}". Available: ${SCENARIO_NAMES.join(', ')}`);
+  }
+  const scenario = factory(options);
+  if (options.conciergeEnabled !== undefined) {
+    scenario.conciergeEnabled = options.conciergeEnabled;
+  }
+  return scenario;
+};
+
+export default {
+  SIM_VENUES,
+  SIM_SLOT_TIMES,
+  SCENARIO_NAMES,
+  buildScenario,
+};
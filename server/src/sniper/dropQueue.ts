@@ -0,0 +1,399 @@
+/**
+ * Durable Drop Queue
+ *
+ * Postgres-backed job queue for the sniper scheduler. Replaces the
+ * in-memory scheduledActions map so a redeploy never loses track of
+ * an armed drop.
+ *
+ * Guarantees:
+ * - ONE job per portfolio item + drop time (idempotency key); manual
+ *   triggers get a job of their own, so a manual attempt that fails
+ *   before the drop never uses up the drop-time job
+ * - ONE worker executes a job at a time (lease with expiry), and only one
+ *   of a drop's jobs (drop-time or manual) runs at a time
+ * - Warning flags are set atomically, so alerts fire exactly once
+ * - Crash recovery: expired leases are resumed if the drop window is
+ *   still open, marked SUCCEEDED if a booking was already recorded,
+ *   and cleanly SKIPPED otherwise
+ *
+ * Table: scheduled_drops (migration 006)
+ */
+
+import os from 'os';
+import pool from '../db';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DropJobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+export type DropTriggerType = 'drop_time' | 'manual';
+
+export interface ScheduledDrop {
+  id: number;
+  portfolio_item_id: string;
+  idempotency_key: string;
+  restaurant_name: string;
+  platform: string;
+  drop_at: Date;
+  trigger_type: DropTriggerType;
+  status: DropJobStatus;
+  warning_five_sent: boolean;
+  warning_one_sent: boolean;
+  credential_alert_sent: boolean;
+  lease_owner?: string;
+  lease_expires_at?: Date;
+  attempts: number;
+  started_at?: Date;
+  finished_at?: Date;
+  result?: any;
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RecoveryReport {
+  resumed: number;
+  succeeded: number;
+  skipped: number;
+}
+
+type WarningFlag = 'warning_five_sent' | 'warning_one_sent' | 'credential_alert_sent';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Identifies this process as a lease holder
+export const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// How long a claim is valid without a heartbeat
+export const LEASE_MS = 30 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const getPool = () => {
+  if (!pool) throw new Error('Database pool not initialized');
+  return pool;
+};
+
+/**
+ * Build the idempotency key for a drop.
+ * Same item + same drop instant + same trigger always maps to the same job.
+ */
+export const buildIdempotencyKey = (
+  portfolioItemId: string,
+  dropAt: Date,
+  triggerType: DropTriggerType = 'drop_time'
+): string => {
+  const key = `${portfolioItemId}@${dropAt.toISOString()}`;
+  return triggerType === 'manual' ? `${key}:manual` : key;
+};
+
+// ============================================
+// QUEUE OPERATIONS
+// ============================================
+
+/**
+ * Enqueue a drop (no-op if the job already exists).
+ * Returns the existing or newly created job, and whether it was just created.
+ */
+export const enqueue = async (data: {
+  portfolio_item_id: string;
+  restaurant_name: string;
+  platform: string;
+  drop_at: Date;
+  trigger_type?: DropTriggerType;
+}): Promise<{ job: ScheduledDrop; created: boolean }> => {
+  const key = buildIdempotencyKey(data.portfolio_item_id, data.drop_at, data.trigger_type);
+
+  const inserted = await getPool().query(`
+    INSERT INTO scheduled_drops (
+      portfolio_item_id, idempotency_key, restaurant_name, platform, drop_at, trigger_type
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING *
+  `, [
+    data.portfolio_item_id,
+    key,
+    data.restaurant_name,
+    data.platform,
+    data.drop_at,
+    data.trigger_type || 'drop_time',
+  ]);
+
+  if (inserted.rows[0]) {
+    return { job: inserted.rows[0], created: true };
+  }
+
+  const existing = await getPool().query(
+    'SELECT * FROM scheduled_drops WHERE idempotency_key = $1',
+    [key]
+  );
+  return { job: existing.rows[0], created: false };
+};
+
+/**
+ * Find the job for an item's drop, if it was ever enqueued
+ */
+export const findJob = async (
+  portfolioItemId: string,
+  dropAt: Date,
+  triggerType: DropTriggerType = 'drop_time'
+): Promise<ScheduledDrop | null> => {
+  const result = await getPool().query(
+    'SELECT * FROM scheduled_drops WHERE idempotency_key = $1',
+    [buildIdempotencyKey(portfolioItemId, dropAt, triggerType)]
+  );
+  return result.rows[0] || null;
+};
+
+/**
+ * Get all jobs that still need attention (pending or executing)
+ */
+export const getActiveJobs = async (): Promise<ScheduledDrop[]> => {
+  const result = await getPool().query(`
+    SELECT * FROM scheduled_drops
+    WHERE status IN ('PENDING', 'RUNNING')
+    ORDER BY drop_at ASC
+  `);
+  return result.rows;
+};
+
+/**
+ * Get recent job history (all statuses)
+ */
+export const getRecentJobs = async (limit = 50): Promise<ScheduledDrop[]> => {
+  const result = await getPool().query(`
+    SELECT * FROM scheduled_drops
+    ORDER BY drop_at DESC
+    LIMIT $1
+  `, [limit]);
+  return result.rows;
+};
+
+/**
+ * Atomically set a warning flag.
+ * Returns true only for the caller that flipped it (send the alert),
+ * false if it was already set (someone else sent it).
+ */
+export const markWarningSent = async (id: number, flag: WarningFlag): Promise<boolean> => {
+  const result = await getPool().query(`
+    UPDATE scheduled_drops
+    SET ${flag} = true, updated_at = NOW()
+    WHERE id = $1 AND ${flag} = false
+    RETURNING id
+  `, [id]);
+  return (result.rowCount || 0) > 0;
+};
+
+/**
+ * Claim a pending job for execution (a manual job may also be retried
+ * after it failed). Refused while another job for the same drop holds a
+ * live lease, so a manual run and the drop-time run never book together.
+ * Returns the job if this worker now holds the lease, null otherwise.
+ */
+export const claim = async (id: number, triggerType?: DropTriggerType): Promise<ScheduledDrop | null> => {
+  const client = await getPool().connect();
+  try {
+    await client.query('BEGIN');
+
+    // Lock all of the drop's jobs in id order, so two claims for the same
+    // drop take turns and the second sees the first one RUNNING
+    await client.query(`
+      SELECT id FROM scheduled_drops
+      WHERE (portfolio_item_id, drop_at) = (SELECT portfolio_item_id, drop_at FROM scheduled_drops WHERE id = $1)
+      ORDER BY id
+      FOR UPDATE
+    `, [id]);
+
+    const result = await client.query(`
+      UPDATE scheduled_drops
+      SET
+        status = 'RUNNING',
+        trigger_type = COALESCE($4, trigger_type),
+        lease_owner = $2,
+        lease_expires_at = NOW() + ($3 || ' milliseconds')::INTERVAL,
+        attempts = attempts + 1,
+        started_at = COALESCE(started_at, NOW()),
+        updated_at = NOW()
+      WHERE id = $1 AND (status = 'PENDING' OR (status = 'FAILED' AND trigger_type = 'manual'))
+        AND NOT EXISTS (
+          SELECT 1 FROM scheduled_drops other
+          WHERE other.portfolio_item_id = scheduled_drops.portfolio_item_id
+            AND other.drop_at = scheduled_drops.drop_at
+            AND other.id <> scheduled_drops.id
+            AND other.status = 'RUNNING'
+            AND other.lease_expires_at > NOW()
+        )
+      RETURNING *
+    `, [id, WORKER_ID, LEASE_MS, triggerType || null]);
+
+    await client.query('COMMIT');
+    return result.rows[0] || null;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Extend the lease on a job this worker is executing
+ */
+export const renewLease = async (id: number): Promise<boolean> => {
+  const result = await getPool().query(`
+    UPDATE scheduled_drops
+    SET lease_expires_at = NOW() + ($3 || ' milliseconds')::INTERVAL, updated_at = NOW()
+    WHERE id = $1 AND lease_owner = $2 AND status = 'RUNNING'
+    RETURNING id
+  `, [id, WORKER_ID, LEASE_MS]);
+  return (result.rowCount || 0) > 0;
+};
+
+/**
+ * Keep a lease alive while a long-running execution is in flight.
+ * Returns a function that stops the heartbeat.
+ */
+export const startHeartbeat = (id: number): (() => void) => {
+  const timer = setInterval(() => {
+    renewLease(id).catch(err => {
+      console.error(`[DropQueue] Lease renewal failed for job ${id}:`, err.message);
+    });
+  }, LEASE_MS / 3);
+  return () => clearInterval(timer);
+};
+
+/**
+ * Finish a job this worker holds
+ */
+export const complete = async (
+  id: number,
+  status: Extract<DropJobStatus, 'SUCCEEDED' | 'FAILED'>,
+  result?: any,
+  error?: string
+): Promise<void> => {
+  await getPool().query(`
+    UPDATE scheduled_drops
+    SET
+      status = $2,
+      result = $3,
+      error = $4,
+      finished_at = NOW(),
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+    WHERE id = $1 AND lease_owner = $5
+  `, [id, status, result ? JSON.stringify(result) : null, error || null, WORKER_ID]);
+};
+
+/**
+ * Skip a pending job (item no longer watched, drop window missed, etc.)
+ */
+export const skip = async (id: number, reason: string): Promise<boolean> => {
+  const result = await getPool().query(`
+    UPDATE scheduled_drops
+    SET status = 'SKIPPED', error = $2, finished_at = NOW(), updated_at = NOW()
+    WHERE id = $1 AND status = 'PENDING'
+    RETURNING id
+  `, [id, reason]);
+  return (result.rowCount || 0) > 0;
+};
+
+/**
+ * Recover jobs whose worker died mid-execution (lease expired).
+ *
+ * For each stale RUNNING job:
+ * - A transfer was recorded after the job started -> SUCCEEDED (don't book twice)
+ * - A manual run                                 -> FAILED (nobody's waiting on it;
+ *                                                   it can be triggered again)
+ * - The drop window is still open                -> PENDING (resume)
+ * - Otherwise                                    -> SKIPPED
+ */
+export const recoverStaleJobs = async (executionWindowMs: number): Promise<RecoveryReport> => {
+  const report: RecoveryReport = { resumed: 0, succeeded: 0, skipped: 0 };
+
+  const stale = await getPool().query(`
+    SELECT * FROM scheduled_drops
+    WHERE status = 'RUNNING' AND lease_expires_at < NOW()
+  `);
+
+  for (const job of stale.rows as ScheduledDrop[]) {
+    const booked = await getPool().query(`
+      SELECT id, confirmation_number FROM transfers
+      WHERE portfolio_item_id = $1 AND created_at >= $2
+      ORDER BY created_at DESC
+      LIMIT 1
+    `, [job.portfolio_item_id, job.started_at || job.drop_at]);
+
+    if (booked.rows.length > 0) {
+      await getPool().query(`
+        UPDATE scheduled_drops
+        SET status = 'SUCCEEDED', result = $2, finished_at = NOW(),
+            lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+        WHERE id = $1 AND status = 'RUNNING'
+      `, [job.id, JSON.stringify({
+        recovered: true,
+        transferId: booked.rows[0].id,
+        confirmationCode: booked.rows[0].confirmation_number,
+      })]);
+      report.succeeded++;
+      console.log(`[DropQueue] ♻️ Job ${job.id} (${job.restaurant_name}) had already booked - marked SUCCEEDED`);
+      continue;
+    }
+
+    if (job.trigger_type === 'manual') {
+      await getPool().query(`
+        UPDATE scheduled_drops
+        SET status = 'FAILED', error = $2, finished_at = NOW(),
+            lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+        WHERE id = $1 AND status = 'RUNNING'
+      `, [job.id, `Worker ${job.lease_owner} lost its lease mid-execution`]);
+      report.skipped++;
+      console.log(`[DropQueue] ♻️ Manual job ${job.id} (${job.restaurant_name}) failed - worker lost its lease`);
+      continue;
+    }
+
+    const windowClosesAt = new Date(job.drop_at).getTime() + executionWindowMs;
+    if (Date.now() < windowClosesAt) {
+      await getPool().query(`
+        UPDATE scheduled_drops
+        SET status = 'PENDING', lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+        WHERE id = $1 AND status = 'RUNNING'
+      `, [job.id]);
+      report.resumed++;
+      console.log(`[DropQueue] ♻️ Job ${job.id} (${job.restaurant_name}) resumed - drop window still open`);
+    } else {
+      await getPool().query(`
+        UPDATE scheduled_drops
+        SET status = 'SKIPPED', error = $2, finished_at = NOW(),
+            lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+        WHERE id = $1 AND status = 'RUNNING'
+      `, [job.id, `Worker ${job.lease_owner} lost its lease mid-execution; drop window has passed`]);
+      report.skipped++;
+      console.log(`[DropQueue] ♻️ Job ${job.id} (${job.restaurant_name}) skipped - drop window passed`);
+    }
+  }
+
+  return report;
+};
+
+export default {
+  WORKER_ID,
+  LEASE_MS,
+  buildIdempotencyKey,
+  enqueue,
+  findJob,
+  getActiveJobs,
+  getRecentJobs,
+  markWarningSent,
+  claim,
+  renewLease,
+  startHeartbeat,
+  complete,
+  skip,
+  recoverStaleJobs,
+};
@@ -0,0 +1,246 @@
+/**
+ * Pre-Drop Readiness
+ *
+ * Everything executeAtDropTime needs, checked ahead of time instead of by
+ * hand before each drop:
+ * - a drop time in the future
+ * - the platform's API client configured, and the platform not paused
+ * - credentials that will still be valid at drop time (credentialHealth.ts)
+ * - an identity with monthly capacity left
+ * - the venue ID the platform books against
+ * - our clock close enough to the platform's
+ * - a payment method for platforms that take deposits
+ *
+ * Each check passes, warns (the drop will run but may go badly) or fails
+ * (the drop cannot book). Served by GET /api/sniper/readiness and folded
+ * into the T-5 Telegram warning.
+ */
+
+import pool from '../db';
+import type { Platform } from '../services/acquisitionEngine';
+import identityManager from '../services/identityManager';
+import credentialHealth from '../services/credentialHealth';
+import platformGovernor from '../services/platformGovernor';
+import clockSync from '../services/clockSync';
+import resyClient from '../services/resyApi';
+import { getDropInstant, normalizeDate, DEFAULT_DROP_TIMEZONE } from '../shared/dropTime';
+import { getAdapter, detectPlatform } from '../platforms';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export type CheckId = 'drop_time' | 'platform_client' | 'platform_status' | 'credentials' | 'identity_capacity' | 'venue_id' | 'clock' | 'payment';
+
+export interface ReadinessCheck {
+  id: CheckId;
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface ItemReadiness {
+  itemId: string;
+  restaurantName: string;
+  platform: Platform;
+  dropAt: string | null;
+  status: CheckStatus;        // Worst of the checks
+  checks: ReadinessCheck[];
+  checkedAt: string;
+}
+
+/** The portfolio_items columns readiness looks at */
+export interface ReadinessItem {
+  id: string;
+  restaurant_name: string;
+  platform: string;
+  next_drop_date?: string | Date | null;
+  next_drop_time?: string | null;
+  drop_timezone?: string | null;
+  resy_venue_id?: number | null;
+  opentable_id?: number | null;
+  sevenrooms_slug?: string | null;
+  tock_slug?: string | null;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Drops fire on the corrected platform time, but an offset this large means
+// our clock needs fixing; past PREWARM_TIME the correction can't save the drop
+const CLOCK_WARN_MS = 500;
+const CLOCK_FAIL_MS = 10 * 1000;
+
+const SEVERITY: Record<CheckStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+// ============================================
+// CHECKS
+// ============================================
+
+const check = (id: CheckId, label: string, status: CheckStatus, detail: string): ReadinessCheck =>
+  ({ id, label, status, detail });
+
+const checkDropTime = (dropAt: Date | null): ReadinessCheck => {
+  if (!dropAt) return check('drop_time', 'Drop time', 'fail', 'No next drop date/time set');
+  if (dropAt.getTime() < Date.now()) return check('drop_time', 'Drop time', 'fail', `Drop time ${dropAt.toISOString()} has passed`);
+  return check('drop_time', 'Drop time', 'pass', dropAt.toISOString());
+};
+
+const checkPlatformClient = (platform: Platform): ReadinessCheck => {
+  const adapter = getAdapter(platform);
+  if (!adapter) {
+    return check('platform_client', 'Platform client', 'fail', 'Platform not recognized');
+  }
+  const status = adapter.getStatus();
+  return status.ready
+    ? check('platform_client', 'Platform client', 'pass', `${platform} client configured`)
+    : check('platform_client', 'Platform client', 'fail', `${platform} client not configured: ${JSON.stringify(status.details)}`);
+};
+
+const checkPlatformStatus = (platform: Platform): ReadinessCheck => {
+  const pausedFor = platformGovernor.getPauseRemaining(platform);
+  return pausedFor > 0
+    ? check('platform_status', 'Platform status', 'warn', `${platform} paused after rate limiting - resumes in ${Math.ceil(pausedFor / 1000)}s`)
+    : check('platform_status', 'Platform status', 'pass', 'Not rate limited');
+};
+
+const checkCredentials = async (platform: Platform, dropAt: Date | null): Promise<ReadinessCheck> => {
+  const readiness = await credentialHealth.getDropReadiness(platform, dropAt || new Date());
+  if (!readiness.ready) return check('credentials', 'Credentials', 'fail', readiness.reason!);
+  if (readiness.blocked.length > 0) {
+    return check('credentials', 'Credentials', 'warn',
+      `${readiness.usable.length} usable, ${readiness.blocked.length} need re-auth (${readiness.blocked.map(b => b.name).join(', ')})`);
+  }
+  return check('credentials', 'Credentials', 'pass', `${readiness.usable.length} identit${readiness.usable.length === 1 ? 'y' : 'ies'} valid at drop time`);
+};
+
+const checkIdentityCapacity = async (platform: Platform): Promise<ReadinessCheck> => {
+  if (platform === 'unknown' || !pool) {
+    return check('identity_capacity', 'Identity capacity', 'fail', 'No identity can be selected');
+  }
+  const identity = await identityManager.getBestIdentityForPlatform(platform);
+  return identity
+    ? check('identity_capacity', 'Identity capacity', 'pass', `Would book as ${identity.name}`)
+    : check('identity_capacity', 'Identity capacity', 'fail', `No active ${platform} identity under its monthly limit`);
+};
+
+const checkVenueId = (platform: Platform, item: ReadinessItem): ReadinessCheck => {
+  const adapter = getAdapter(platform);
+  if (!adapter) return check('venue_id', 'Venue ID', 'fail', 'Platform not recognized');
+  const label = `${adapter.label} ${adapter.venue.label}`;
+  const value = item[adapter.venue.itemColumn];
+  return value
+    ? check('venue_id', 'Venue ID', 'pass', `${label}: ${value}`)
+    : check('venue_id', 'Venue ID', 'fail', `${label} not set on this item`);
+};
+
+const checkClock = async (platform: Platform): Promise<ReadinessCheck> => {
+  const adapter = getAdapter(platform);
+  if (!adapter) return check('clock', 'Clock', 'warn', 'Platform not recognized - clock not checked');
+
+  const estimate = clockSync.needsMeasurement(platform)
+    ? await clockSync.measure(platform, adapter.getBaseUrl())
+    : clockSync.getEstimate(platform);
+  if (!estimate) return check('clock', 'Clock', 'warn', `Couldn't read ${platform}'s server time`);
+
+  const { offsetMs, uncertaintyMs } = estimate;
+  const detail = `${offsetMs >= 0 ? '+' : ''}${offsetMs}ms ±${uncertaintyMs}ms vs ${platform}`;
+  if (Math.abs(offsetMs) > CLOCK_FAIL_MS) return check('clock', 'Clock', 'fail', `${detail} - too far off to correct`);
+  if (Math.abs(offsetMs) > CLOCK_WARN_MS) return check('clock', 'Clock', 'warn', detail);
+  return check('clock', 'Clock', 'pass', detail);
+};
+
+const checkPayment = (platform: Platform): ReadinessCheck => {
+  // Resy holds a card for deposits and cancellation fees; the others don't need one up front
+  if (platform !== 'resy') return check('payment', 'Payment method', 'pass', 'Not required');
+  return resyClient.isConfigured().hasPayment
+    ? check('payment', 'Payment method', 'pass', 'Resy payment ID set')
+    : check('payment', 'Payment method', 'fail', 'RESY_PAYMENT_ID not set - deposit venues will reject the booking');
+};
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Run every check for an item
+ */
+export const evaluate = async (item: ReadinessItem): Promise<ItemReadiness> => {
+  const platform: Platform = detectPlatform(item.platform) || 'unknown';
+
+  let dropAt: Date | null = null;
+  if (item.next_drop_date && item.next_drop_time) {
+    try {
+      dropAt = getDropInstant(normalizeDate(item.next_drop_date), item.next_drop_time, item.drop_timezone || DEFAULT_DROP_TIMEZONE);
+    } catch {
+      dropAt = null;
+    }
+  }
+
+  const checks: ReadinessCheck[] = [
+    checkDropTime(dropAt),
+    checkPlatformClient(platform),
+    checkPlatformStatus(platform),
+    await checkCredentials(platform, dropAt),
+    await checkIdentityCapacity(platform),
+    checkVenueId(platform, item),
+    await checkClock(platform),
+    checkPayment(platform),
+  ];
+
+  const status = checks.reduce<CheckStatus>(
+    (worst, c) => SEVERITY[c.status] > SEVERITY[worst] ? c.status : worst,
+    'pass'
+  );
+
+  return {
+    itemId: item.id,
+    restaurantName: item.restaurant_name,
+    platform,
+    dropAt: dropAt?.toISOString() ?? null,
+    status,
+    checks,
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+const ITEM_COLUMNS = `
+  id, restaurant_name, platform, next_drop_date, next_drop_time, drop_timezone,
+  resy_venue_id, opentable_id, sevenrooms_slug, tock_slug
+`;
+
+/**
+ * Readiness of one portfolio item (null if it doesn't exist)
+ */
+export const evaluateItem = async (itemId: string): Promise<ItemReadiness | null> => {
+  if (!pool) throw new Error('Database not connected');
+  const result = await pool.query(`SELECT ${ITEM_COLUMNS} FROM portfolio_items WHERE id = $1`, [itemId]);
+  return result.rows[0] ? evaluate(result.rows[0]) : null;
+};
+
+/**
+ * Readiness of every watched item
+ */
+export const evaluateWatched = async (): Promise<ItemReadiness[]> => {
+  if (!pool) throw new Error('Database not connected');
+  const result = await pool.query(`
+    SELECT ${ITEM_COLUMNS} FROM portfolio_items
+    WHERE status = 'WATCHING'
+    ORDER BY next_drop_date ASC NULLS LAST, next_drop_time ASC NULLS LAST
+  `);
+
+  const readiness: ItemReadiness[] = [];
+  for (const item of result.rows) {
+    readiness.push(await evaluate(item));
+  }
+  return readiness;
+};
+
+export default {
+  evaluate,
+  evaluateItem,
+  evaluateWatched,
+};
@@ -0,0 +1,293 @@
+/**
+ * Recurring Drops
+ *
+ * Rolls next_drop_date forward using the structured rules in
+ * shared/dropRules.ts, so nobody has to hand-edit portfolio_items or
+ * restaurants after every drop.
+ *
+ * - Portfolio items with a drop_rule are re-armed for the next drop after
+ *   each execution that didn't book (and after a missed drop). The target
+ *   date moves into the newly released range, keeping the same weekday.
+ * - Restaurants with a structured drop_pattern have their next_drop_date
+ *   advanced once the previous drop has passed.
+ *
+ * Tables: portfolio_items.drop_rule, restaurants.drop_pattern (migration 007)
+ */
+
+import pool from '../db';
+import reservationLifecycle from '../services/reservationLifecycle';
+import { SCHEDULER_ACTOR } from '../services/auditLog';
+import {
+  DropRule,
+  ScheduledDropRule,
+  NextDrop,
+  toDropRule,
+  validateDropRule,
+  isScheduledRule,
+  getNextDrop,
+  getDropForTargetDate,
+  pickTargetDate,
+} from '../shared/dropRules';
+import { normalizeDate, resolveDropTime, DEFAULT_DROP_TIMEZONE } from '../shared/dropTime';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AdvanceResult {
+  itemId: string;
+  restaurantName: string;
+  nextDrop: NextDrop;
+  targetDate: string | null;  // New reservation date (null if the rule has no lead time)
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+const readRule = (value: unknown, timezone?: string): DropRule | null => {
+  try {
+    return toDropRule(value, timezone || DEFAULT_DROP_TIMEZONE);
+  } catch (error: any) {
+    console.warn('[RecurringDrops] Ignoring invalid drop rule:', error.message);
+    return null;
+  }
+};
+
+const dayOfWeekOf = (date: string): number => {
+  const [y, m, d] = normalizeDate(date).split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+/**
+ * Where an item should be armed next: the drop that opens its current
+ * target date if that's still ahead, otherwise the next drop after `after`
+ */
+const planItem = (
+  rule: ScheduledDropRule,
+  currentTarget: string | null,
+  after: Date
+): { nextDrop: NextDrop; targetDate: string | null } | null => {
+  if (currentTarget) {
+    const forTarget = getDropForTargetDate(rule, currentTarget);
+    if (forTarget && forTarget.instant.getTime() > after.getTime()) {
+      return { nextDrop: forTarget, targetDate: normalizeDate(currentTarget) };
+    }
+  }
+
+  const nextDrop = getNextDrop(rule, after);
+  if (!nextDrop) return null;
+
+  const preferredDay = currentTarget ? dayOfWeekOf(currentTarget) : undefined;
+  const targetDate = nextDrop.targetRange ? pickTargetDate(nextDrop.targetRange, preferredDay) : null;
+  return { nextDrop, targetDate };
+};
+
+// ============================================
+// PORTFOLIO ITEMS
+// ============================================
+
+/**
+ * Re-arm an item for its next drop after the one at `lastDropAt`.
+ * Returns null (and changes nothing) for one-off items without a rule.
+ */
+export const advanceItem = async (itemId: string, lastDropAt: Date): Promise<AdvanceResult | null> => {
+  if (!pool) return null;
+
+  const result = await pool.query(
+    `SELECT id, restaurant_name, status, date, target_date, drop_timezone, drop_rule FROM portfolio_items WHERE id = $1`,
+    [itemId]
+  );
+  const item = result.rows[0];
+  if (!item) return null;
+
+  const rule = readRule(item.drop_rule, item.drop_timezone);
+  if (!isScheduledRule(rule)) return null;
+
+  // Never re-arm in the past, even if the scheduler was down for a while
+  const after = new Date(Math.max(lastDropAt.getTime(), Date.now()));
+  const currentTarget = item.target_date || (item.date ? normalizeDate(item.date) : null);
+  const plan = planItem(rule, currentTarget, after);
+  if (!plan) return null;
+  const { nextDrop, targetDate } = plan;
+
+  await pool.query(`
+    UPDATE portfolio_items SET
+      next_drop_date = $2,
+      next_drop_time = $3,
+      drop_timezone = $4,
+      date = COALESCE($5::date, date),
+      target_date = COALESCE($5::text, target_date),
+      updated_at = NOW()
+    WHERE id = $1
+  `, [itemId, nextDrop.dropDate, nextDrop.dropTime, nextDrop.timezone, targetDate]);
+
+  // A one-off left for a human goes back to watching; a reservation we
+  // already hold keeps its status
+  if (item.status === 'PENDING_CONFIRMATION') {
+    await reservationLifecycle.transition(itemId, 'WATCHING', { actor: SCHEDULER_ACTOR, note: 'Re-armed for the next drop' });
+  }
+
+  console.log(`[RecurringDrops] ⏭️ ${item.restaurant_name} rolled to ${nextDrop.dropDate} ${nextDrop.dropTime} ${nextDrop.timezone}${targetDate ? ` (target ${targetDate})` : ''}`);
+
+  return { itemId, restaurantName: item.restaurant_name, nextDrop, targetDate };
+};
+
+/**
+ * Validate a rule for an item and work out its next drop; throws when the
+ * rule can't drive the scheduler. Callers creating an item check the rule
+ * with this before inserting it.
+ */
+export const planItemRule = (input: unknown, timezone: string | null | undefined, currentTarget: string | null) => {
+  const rule = validateDropRule(input, timezone || DEFAULT_DROP_TIMEZONE);
+  if (!isScheduledRule(rule)) {
+    throw new Error('Only daily, weekly or monthly rules can drive the scheduler');
+  }
+
+  const plan = planItem(rule, currentTarget, new Date());
+  if (!plan) {
+    throw new Error('Drop rule never produces a future drop');
+  }
+  return { rule, ...plan };
+};
+
+/**
+ * Attach (or clear, with null) a recurring rule on an item and arm it.
+ * If the item's current target date is still reachable, the drop that
+ * opens it is used; otherwise the item moves to the next drop.
+ */
+export const setItemRule = async (itemId: string, input: unknown): Promise<any | null> => {
+  if (!pool) return null;
+
+  const result = await pool.query(
+    `SELECT id, date, target_date, drop_timezone FROM portfolio_items WHERE id = $1`,
+    [itemId]
+  );
+  const item = result.rows[0];
+  if (!item) return null;
+
+  if (input === null) {
+    const cleared = await pool.query(
+      `UPDATE portfolio_items SET drop_rule = NULL, updated_at = NOW() WHERE id = $1 RETURNING *`,
+      [itemId]
+    );
+    return cleared.rows[0];
+  }
+
+  const currentTarget = item.target_date || (item.date ? normalizeDate(item.date) : null);
+  const { rule, ...plan } = planItemRule(input, item.drop_timezone, currentTarget);
+
+  const updated = await pool.query(`
+    UPDATE portfolio_items SET
+      drop_rule = $2,
+      next_drop_date = $3,
+      next_drop_time = $4,
+      drop_timezone = $5,
+      date = COALESCE($6::date, date),
+      target_date = COALESCE($6::text, target_date),
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+  `, [itemId, JSON.stringify(rule), plan.nextDrop.dropDate, plan.nextDrop.dropTime, plan.nextDrop.timezone, plan.targetDate]);
+
+  return updated.rows[0];
+};
+
+/**
+ * Best rule we know for a restaurant: its structured drop_pattern, else a
+ * daily rule built from a learned confirmed_drop_patterns row
+ */
+export const suggestRule = async (restaurantName: string, platform?: string): Promise<ScheduledDropRule | null> => {
+  if (!pool) return null;
+
+  const restaurant = await pool.query(`
+    SELECT drop_pattern, drop_timezone FROM restaurants
+    WHERE LOWER(name) = LOWER($1) AND drop_pattern IS NOT NULL
+    ORDER BY updated_at DESC
+    LIMIT 1
+  `, [restaurantName]);
+  const fromRestaurant = restaurant.rows[0]
+    ? readRule(restaurant.rows[0].drop_pattern, restaurant.rows[0].drop_timezone)
+    : null;
+  if (isScheduledRule(fromRestaurant)) return fromRestaurant;
+
+  const learned = await pool.query(`
+    SELECT days_in_advance, drop_time, drop_timezone FROM confirmed_drop_patterns
+    WHERE LOWER(restaurant_name) = LOWER($1) AND ($2::text IS NULL OR LOWER(platform) = LOWER($2))
+    ORDER BY updated_at DESC
+    LIMIT 1
+  `, [restaurantName, platform || null]);
+  const pattern = learned.rows[0];
+  if (!pattern) return null;
+
+  const rule = readRule({
+    kind: 'daily',
+    time: pattern.drop_time,
+    timezone: pattern.drop_timezone,
+    daysInAdvance: pattern.days_in_advance,
+    description: 'Learned from confirmed acquisitions',
+  });
+  return isScheduledRule(rule) ? rule : null;
+};
+
+// ============================================
+// RESTAURANTS
+// ============================================
+
+/**
+ * Move restaurants.next_drop_date to the upcoming drop for every restaurant
+ * whose structured pattern has a drop that already passed (or none set)
+ */
+export const advanceRestaurants = async (now: Date = new Date()): Promise<number> => {
+  if (!pool) return 0;
+
+  const result = await pool.query(`
+    SELECT id, name, drop_pattern, drop_timezone, next_drop_date, next_drop_time
+    FROM restaurants
+    WHERE drop_pattern IS NOT NULL
+      AND drop_pattern->>'kind' IN ('daily', 'weekly', 'monthly')
+      AND (next_drop_date IS NULL OR next_drop_date <= CURRENT_DATE + 1)
+  `);
+
+  let advanced = 0;
+  for (const row of result.rows) {
+    const rule = readRule(row.drop_pattern, row.drop_timezone);
+    if (!isScheduledRule(rule)) continue;
+
+    // Keep the current drop until it has actually happened
+    if (row.next_drop_date && row.next_drop_time) {
+      try {
+        const current = resolveDropTime(row.next_drop_date, row.next_drop_time, rule.timezone);
+        if (current.instant.getTime() > now.getTime()) continue;
+      } catch {
+        // Unparseable current drop - recompute it from the rule
+      }
+    }
+
+    const next = getNextDrop(rule, now);
+    if (!next) continue;
+
+    await pool.query(`
+      UPDATE restaurants SET
+        next_drop_date = $2,
+        next_drop_time = $3,
+        drop_timezone = $4,
+        updated_at = NOW()
+      WHERE id = $1
+    `, [row.id, next.dropDate, next.dropTime, next.timezone]);
+    advanced++;
+  }
+
+  if (advanced > 0) {
+    console.log(`[RecurringDrops] ⏭️ Advanced next drop for ${advanced} restaurant(s)`);
+  }
+  return advanced;
+};
+
+export default {
+  planItemRule,
+  advanceItem,
+  setItemRule,
+  suggestRule,
+  advanceRestaurants,
+};
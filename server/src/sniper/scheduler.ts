@@ -11,6 +11,14 @@
  * - EXECUTES at exact drop time with aggressive retry
  * - Uses multi-platform acquisition engine
  * - Records successful drop patterns for future reference
+ * - Durable: every armed drop is a leased job in scheduled_drops,
+ *   so restarts never double-fire or drop a target (see dropQueue.ts)
+ * - Recurring: items with a drop_rule roll forward to the next drop after
+ *   each execution that didn't book (see recurringDrops.ts)
+ * - Refuses to fire a drop whose credentials won't be valid at drop time
+ *   (see credentialHealth.ts)
+ * - Pushes its state (running, watched count, next drop) to dashboards
+ *   whenever it changes (see eventStream.ts)
  * 
  * How Drop Times Work:
  * - next_drop_date: The DATE when reservations become available
@@ -26,7 +34,18 @@
 import pool from '../db';
 import * as telegram from './telegram';
 import acquisitionEngine from '../services/acquisitionEngine';
-import type { Platform, AcquisitionRequest } from '../services/acquisitionEngine';
+import type { Platform, AcquisitionRequest, AcquisitionResult } from '../services/acquisitionEngine';
+import { AuditActor, SCHEDULER_ACTOR } from '../services/auditLog';
+import reservationLifecycle from '../services/reservationLifecycle';
+import type { ReservationStatus } from '../shared/reservationLifecycle';
+import credentialHealth from '../services/credentialHealth';
+import clockSync from '../services/clockSync';
+import eventStream from '../services/eventStream';
+import { detectPlatform as platformFromText } from '../platforms';
+import dropQueue, { ScheduledDrop, DropJobStatus } from './dropQueue';
+import recurringDrops from './recurringDrops';
+import readiness, { ReadinessCheck } from './readiness';
+import { resolveDropTime, normalizeDate, DEFAULT_DROP_TIMEZONE } from '../shared/dropTime';
 import dotenv from 'dotenv';
 import path from 'path';
 
@@ -56,6 +75,7 @@ interface WatchedItem {
 }
 
 interface ScheduledAction {
+  jobId: number;
   itemId: string;
   restaurantName: string;
   platform: Platform;
@@ -70,11 +90,10 @@ interface ScheduledAction {
   sevenRoomsSlug?: string;
   tockSlug?: string;
   
-  // Status flags
-  prewarmSent: boolean;
+  // Status flags (persisted on the job row)
+  status: DropJobStatus;
   warningFiveSent: boolean;
   warningOneSent: boolean;
-  executed: boolean;
   executionStarted: Date | null;
 }
 
@@ -84,7 +103,9 @@ interface ScheduledAction {
 
 let isRunning = false;
 let pollInterval: NodeJS.Timeout | null = null;
-const scheduledActions: Map<string, ScheduledAction> = new Map();
+
+// Read-only snapshot of active jobs from the last poll (source of truth is scheduled_drops)
+let activeActions: ScheduledAction[] = [];
 
 // Polling frequency
 const POLL_INTERVAL_MS = 15 * 1000; // Check every 15 seconds (more aggressive)
@@ -94,38 +115,28 @@ const PREWARM_TIME = 10 * 1000;     // 10 seconds before drop
 const WARNING_5_MIN = 5 * 60 * 1000;
 const WARNING_1_MIN = 1 * 60 * 1000;
 const EXECUTION_WINDOW = 2000;      // 2 second window for execution
+const MISSED_DROP_GRACE = 2 * 60 * 1000; // Give up on a drop 2 minutes after it passed
+const RESTAURANT_ADVANCE_INTERVAL = 10 * 60 * 1000; // Roll restaurants.next_drop_date every 10 minutes
+
+let lastRestaurantAdvance = 0;
+
+// Last scheduler state pushed to dashboards (JSON), to publish only changes
+let publishedState = '';
 
 // ============================================
 // TIMEZONE HANDLING
 // ============================================
 
-const timezoneOffsets: Record<string, number> = {
-  'America/Los_Angeles': -8,
-  'America/New_York': -5,
-  'America/Chicago': -6,
-  'America/Denver': -7,
-  'America/Phoenix': -7,
-  'Europe/London': 0,
-  'Europe/Paris': 1,
-  'Asia/Tokyo': 9,
-  'Asia/Hong_Kong': 8,
-  'Australia/Sydney': 11
-};
-
 /**
- * Convert a date/time string in a specific timezone to a JS Date object
+ * Convert a date/time in a specific IANA timezone to the exact drop instant.
+ * DST-aware; see shared/dropTime.ts for how ambiguous/nonexistent times resolve.
  */
 const parseDropTime = (date: string, time: string, timezone: string): Date => {
-  const dateTimeString = `${date}T${time}:00`;
-  const target = new Date(dateTimeString);
-  
-  // Handle DST-aware conversion
-  const offset = timezoneOffsets[timezone] || 0;
-  const localOffset = -new Date().getTimezoneOffset() / 60;
-  const hoursDiff = offset - localOffset;
-  
-  target.setHours(target.getHours() - hoursDiff);
-  return target;
+  const resolution = resolveDropTime(date, time, timezone);
+  if (resolution.status !== 'exact') {
+    console.warn(`[Scheduler] ${date} ${time} is ${resolution.status} in ${timezone} - using ${resolution.localTime} (UTC${resolution.offsetMinutes >= 0 ? '+' : ''}${resolution.offsetMinutes / 60})`);
+  }
+  return resolution.instant;
 };
 
 // ============================================
@@ -134,6 +145,8 @@ const parseDropTime = (date: string, time: string, timezone: string): Date => {
 
 /**
  * Fetch all items marked for watching
+ * Query errors propagate: an empty list would read as "nothing is watched"
+ * and the poll would skip every queued drop.
  */
 const fetchWatchedItems = async (): Promise<WatchedItem[]> => {
   if (!pool) {
@@ -167,33 +180,28 @@ const fetchWatchedItems = async (): Promise<WatchedItem[]> => {
     
     return result.rows.map(row => ({
       ...row,
-      drop_timezone: row.drop_timezone || 'America/New_York',
+      // DATE columns arrive as Date objects; keep everything as YYYY-MM-DD strings
+      next_drop_date: normalizeDate(row.next_drop_date),
+      drop_timezone: row.drop_timezone || DEFAULT_DROP_TIMEZONE,
     }));
   } catch (error: any) {
     console.error('[Scheduler] Failed to fetch watched items:', error.message);
-    return [];
+    throw error;
   }
 };
 
 /**
- * Update item status after acquisition attempt
+ * Update item status after acquisition attempt (through the lifecycle, so
+ * it's validated and lands in the item's status history)
  */
-const updateItemStatus = async (id: string, status: string, confirmationCode?: string): Promise<void> => {
+const updateItemStatus = async (id: string, status: ReservationStatus, confirmationCode?: string): Promise<void> => {
   if (!pool) return;
 
   try {
-    const updateFields = ['status = $1', 'updated_at = NOW()'];
-    const params: any[] = [status, id];
-    
-    if (confirmationCode) {
-      updateFields.push(`notes = COALESCE(notes, '') || ' Confirmation: ' || $${params.length + 1}`);
-      params.splice(params.length - 1, 0, confirmationCode);
-    }
-
-    await pool.query(
-      `UPDATE portfolio_items SET ${updateFields.join(', ')} WHERE id = $${params.length}`,
-      params
-    );
+    await reservationLifecycle.transition(id, status, {
+      actor: SCHEDULER_ACTOR,
+      item: { confirmation_number: confirmationCode },
+    });
     console.log(`[Scheduler] Updated ${id} status to ${status}`);
   } catch (error: any) {
     console.error('[Scheduler] Failed to update status:', error.message);
@@ -245,112 +253,208 @@ const logAcquisitionAttempt = async (
 /**
  * Detect platform from string
  */
-const detectPlatform = (platformStr: string): Platform => {
-  const lower = platformStr?.toLowerCase() || '';
-  if (lower.includes('resy')) return 'resy';
-  if (lower.includes('opentable')) return 'opentable';
-  if (lower.includes('sevenrooms') || lower.includes('seven')) return 'sevenrooms';
-  if (lower.includes('tock')) return 'tock';
-  return 'unknown';
+const detectPlatform = (platformStr: string): Platform => platformFromText(platformStr) || 'unknown';
+
+/**
+ * Build the read-only view of a job used by status endpoints and Telegram
+ */
+const toAction = (job: ScheduledDrop, item?: WatchedItem): ScheduledAction => ({
+  jobId: job.id,
+  itemId: job.portfolio_item_id,
+  restaurantName: job.restaurant_name,
+  platform: detectPlatform(job.platform),
+  dropTime: new Date(job.drop_at),
+  targetDate: item?.target_date || item?.next_drop_date || '',
+  preferredTime: item?.time || '19:00',
+  partySize: item?.guests || 2,
+  resyVenueId: item?.resy_venue_id,
+  openTableId: item?.opentable_id,
+  sevenRoomsSlug: item?.sevenrooms_slug,
+  tockSlug: item?.tock_slug,
+  status: job.status,
+  warningFiveSent: job.warning_five_sent,
+  warningOneSent: job.warning_one_sent,
+  executionStarted: job.started_at ? new Date(job.started_at) : null,
+});
+
+/**
+ * Trim an acquisition result down to what we persist on the job row
+ */
+const summarizeResult = (result: AcquisitionResult, duration: number) => ({
+  success: result.success,
+  confirmationCode: result.confirmationCode,
+  bookedTime: result.bookedTime,
+  attempts: result.attempts,
+  duration,
+  identityId: result.identityId,
+  transferId: result.transferId,
+  traceId: result.traceId,
+});
+
+/**
+ * Readiness checks that didn't pass, for the T-5 warning
+ * (a broken checklist must never stop the warning itself)
+ */
+const failingChecks = async (item: WatchedItem): Promise<(ReadinessCheck & { status: 'warn' | 'fail' })[]> => {
+  try {
+    const result = await readiness.evaluate(item);
+    return result.checks.filter((c): c is ReadinessCheck & { status: 'warn' | 'fail' } => c.status !== 'pass');
+  } catch (error: any) {
+    console.error('[Scheduler] Readiness check failed:', error.message);
+    return [];
+  }
+};
+
+/**
+ * Re-arm a recurring item for the drop after `dropTime`
+ * Returns false for one-off items (no drop_rule)
+ */
+const rollForward = async (item: WatchedItem, dropTime: Date): Promise<boolean> => {
+  try {
+    return !!(await recurringDrops.advanceItem(item.id, dropTime));
+  } catch (error: any) {
+    console.error(`[Scheduler] Failed to roll ${item.restaurant_name} forward:`, error.message);
+    return false;
+  }
 };
 
 /**
  * Process a single watched item
+ * Returns the job backing this item's current drop
  */
-const processItem = async (item: WatchedItem): Promise<void> => {
+const processItem = async (item: WatchedItem): Promise<ScheduledDrop> => {
   const dropTime = parseDropTime(
     item.next_drop_date,
     item.next_drop_time,
-    item.drop_timezone || 'America/New_York'
+    item.drop_timezone || DEFAULT_DROP_TIMEZONE
   );
 
+  const platform = detectPlatform(item.platform);
+
+  // Count down on the platform's clock (see clockSync.ts)
   const now = new Date();
-  const timeUntilDrop = dropTime.getTime() - now.getTime();
+  const timeUntilDrop = clockSync.toLocalTime(platform, dropTime).getTime() - now.getTime();
+
+  // Get or create the durable job for this drop
+  const { job, created } = await dropQueue.enqueue({
+    portfolio_item_id: item.id,
+    restaurant_name: item.restaurant_name,
+    platform,
+    drop_at: dropTime,
+  });
+
+  // Already executing (here or on another worker) or finished
+  if (job.status !== 'PENDING') {
+    // A recurring item still parked on a drop that ended without a booking
+    if ((job.status === 'FAILED' || job.status === 'SKIPPED') && timeUntilDrop < -MISSED_DROP_GRACE) {
+      await rollForward(item, dropTime);
+    }
+    return job;
+  }
 
   // Skip if drop time has passed by more than 2 minutes
-  if (timeUntilDrop < -120000) {
-    console.log(`[Scheduler] ${item.restaurant_name} drop time passed, removing from watch`);
-    scheduledActions.delete(item.id);
-    return;
+  if (timeUntilDrop < -MISSED_DROP_GRACE) {
+    console.log(`[Scheduler] ${item.restaurant_name} drop time passed, skipping job ${job.id}`);
+    await dropQueue.skip(job.id, 'Drop window missed');
+    await rollForward(item, dropTime);
+    return job;
   }
 
-  // Get or create scheduled action
-  let action = scheduledActions.get(item.id);
-  const platform = detectPlatform(item.platform);
-  
-  if (!action) {
-    action = {
-      itemId: item.id,
-      restaurantName: item.restaurant_name,
-      platform,
-      dropTime,
-      targetDate: item.target_date || item.next_drop_date,
-      preferredTime: item.time || '19:00',
-      partySize: item.guests || 2,
-      resyVenueId: item.resy_venue_id,
-      openTableId: item.opentable_id,
-      sevenRoomsSlug: item.sevenrooms_slug,
-      tockSlug: item.tock_slug,
-      prewarmSent: false,
-      warningFiveSent: false,
-      warningOneSent: false,
-      executed: false,
-      executionStarted: null,
-    };
-    scheduledActions.set(item.id, action);
-    
+  if (created) {
     const minutesUntil = Math.round(timeUntilDrop / 60000);
-    console.log(`[Scheduler] 👁️ Now watching: ${item.restaurant_name}`);
+    console.log(`[Scheduler] 👁️ Now watching: ${item.restaurant_name} (job ${job.id})`);
     console.log(`   Platform: ${platform}`);
-    console.log(`   Target date: ${action.targetDate}`);
+    console.log(`   Target date: ${item.target_date || item.next_drop_date}`);
     console.log(`   Drop time: ${item.next_drop_time} ${item.drop_timezone}`);
     console.log(`   Time until drop: ${minutesUntil} minutes`);
   }
 
-  // T-5 minute warning
-  if (!action.warningFiveSent && timeUntilDrop <= WARNING_5_MIN && timeUntilDrop > WARNING_1_MIN) {
-    console.log(`[Scheduler] 🎯 ${item.restaurant_name} - T-5 MINUTES`);
-    await telegram.notifyDropWarning(
-      item.restaurant_name,
-      `${item.next_drop_time} ${item.drop_timezone}`,
-      '', // city
-      item.id
-    );
-    action.warningFiveSent = true;
+  // Don't arm a drop no identity can book: alert as soon as we know, skip at T-10s
+  const readiness = await credentialHealth.getDropReadiness(platform, dropTime);
+  if (!readiness.ready) {
+    if (!job.credential_alert_sent && await dropQueue.markWarningSent(job.id, 'credential_alert_sent')) {
+      console.warn(`[Scheduler] 🔑 ${item.restaurant_name} - not armed: ${readiness.reason}`);
+      await telegram.notifyDropNotArmed(
+        item.restaurant_name,
+        `${item.next_drop_date} ${item.next_drop_time} ${item.drop_timezone}`,
+        readiness.reason!
+      );
+    }
+    if (timeUntilDrop <= PREWARM_TIME) {
+      await dropQueue.skip(job.id, `Not armed: ${readiness.reason}`);
+      await rollForward(item, dropTime);
+    }
+    return job;
+  }
+
+  // Fresh clock estimate before the drop (busy platforms sample themselves).
+  // Probed in the background - a slow platform mustn't hold up the other items;
+  // the drop reads whatever offset is cached by then.
+  if (timeUntilDrop <= WARNING_5_MIN && timeUntilDrop > PREWARM_TIME) {
+    const baseUrl = acquisitionEngine.getBaseUrl(platform);
+    if (baseUrl) clockSync.refresh(platform, baseUrl);
+  }
+
+  // T-5 minute warning (flag flip is atomic, so only one worker sends it).
+  // The readiness checks probe platforms too, so they run off the poll loop.
+  if (!job.warning_five_sent && timeUntilDrop <= WARNING_5_MIN && timeUntilDrop > WARNING_1_MIN) {
+    if (await dropQueue.markWarningSent(job.id, 'warning_five_sent')) {
+      console.log(`[Scheduler] 🎯 ${item.restaurant_name} - T-5 MINUTES`);
+      failingChecks(item)
+        .then(failing => telegram.notifyDropWarning(
+          item.restaurant_name,
+          `${item.next_drop_time} ${item.drop_timezone}`,
+          '', // city
+          item.id,
+          failing
+        ))
+        .catch(err => console.error(`[Scheduler] T-5 warning for ${item.restaurant_name} failed:`, err.message));
+    }
   }
 
   // T-1 minute warning
-  if (!action.warningOneSent && timeUntilDrop <= WARNING_1_MIN && timeUntilDrop > PREWARM_TIME) {
-    console.log(`[Scheduler] ⚡ ${item.restaurant_name} - T-1 MINUTE`);
-    await telegram.notifyDropImminent(item.restaurant_name, item.id);
-    action.warningOneSent = true;
+  if (!job.warning_one_sent && timeUntilDrop <= WARNING_1_MIN && timeUntilDrop > PREWARM_TIME) {
+    if (await dropQueue.markWarningSent(job.id, 'warning_one_sent')) {
+      console.log(`[Scheduler] ⚡ ${item.restaurant_name} - T-1 MINUTE`);
+      await telegram.notifyDropImminent(item.restaurant_name, item.id);
+    }
   }
 
   // T-10 seconds: Start acquisition engine
-  if (!action.executed && timeUntilDrop <= PREWARM_TIME && timeUntilDrop >= -EXECUTION_WINDOW) {
-    if (!action.executionStarted) {
-      action.executionStarted = new Date();
-      console.log(`\n[Scheduler] 🚀🚀🚀 ${item.restaurant_name} - DROP TIME EXECUTION STARTING!`);
+  // Jobs resumed after a crash (attempts > 0) may run anywhere inside the grace period
+  const inWindow = timeUntilDrop >= -EXECUTION_WINDOW || job.attempts > 0;
+  if (timeUntilDrop <= PREWARM_TIME && inWindow) {
+    // A manual run for this drop already booked it (the item just hasn't left WATCHING yet).
+    // One still in flight holds the drop: claim() refuses while its lease is live, and
+    // the drop-time run fires on a later pass only if that run fails.
+    const manual = await dropQueue.findJob(item.id, dropTime, 'manual');
+    if (manual?.status === 'SUCCEEDED') {
+      await dropQueue.skip(job.id, `Booked by manual run (job ${manual.id})`);
+      return job;
+    }
+
+    const claimed = await dropQueue.claim(job.id);
+    if (claimed) {
+      console.log(`\n[Scheduler] 🚀🚀🚀 ${item.restaurant_name} - DROP TIME EXECUTION STARTING! (job ${job.id})`);
       
       // Execute the acquisition engine
-      executeDropTimeAcquisition(item, action).catch(err => {
+      executeDropTimeAcquisition(item, claimed).catch(err => {
         console.error('[Scheduler] Drop time execution failed:', err);
       });
+      return claimed;
     }
   }
 
-  // Mark as executed after 2 minute window (cleanup)
-  if (!action.executed && timeUntilDrop < -120000) {
-    action.executed = true;
-    scheduledActions.delete(item.id);
-  }
+  return job;
 };
 
 /**
  * Execute acquisition at drop time
+ * Caller must hold the job's lease
  */
-const executeDropTimeAcquisition = async (item: WatchedItem, action: ScheduledAction): Promise<void> => {
-  action.executed = true;
+const executeDropTimeAcquisition = async (item: WatchedItem, job: ScheduledDrop): Promise<void> => {
+  const action = toAction(job, item);
+  const stopHeartbeat = dropQueue.startHeartbeat(job.id);
   const startTime = Date.now();
 
   // Build acquisition request
@@ -364,9 +468,11 @@ const executeDropTimeAcquisition = async (item: WatchedItem, action: ScheduledAc
     openTableId: action.openTableId,
     sevenRoomsSlug: action.sevenRoomsSlug,
     tockSlug: action.tockSlug,
+    portfolioItemId: item.id,
     aggressiveMode: true,
     maxRetries: 15,
     timeFlexibility: 90,
+    actor: SCHEDULER_ACTOR,
   };
 
   try {
@@ -377,12 +483,19 @@ const executeDropTimeAcquisition = async (item: WatchedItem, action: ScheduledAc
       dropTime: item.next_drop_time,
       targetDate: action.targetDate,
       timezone: item.drop_timezone,
+      jobId: job.id,
     });
 
     const duration = Date.now() - startTime;
 
     // Log the attempt
     await logAcquisitionAttempt(item, result, duration, 'drop_time');
+    await dropQueue.complete(
+      job.id,
+      result.success ? 'SUCCEEDED' : 'FAILED',
+      summarizeResult(result, duration),
+      result.error
+    );
 
     if (result.success) {
       console.log(`[Scheduler] ✅ ${item.restaurant_name} - ACQUIRED!`);
@@ -410,18 +523,41 @@ const executeDropTimeAcquisition = async (item: WatchedItem, action: ScheduledAc
         item.id
       );
       
-      // Keep watching for retry (drop might have been delayed)
-      await updateItemStatus(item.id, 'PENDING_CONFIRMATION');
+      // Recurring items move on to the next drop; one-offs wait for a human
+      if (!(await rollForward(item, new Date(job.drop_at)))) {
+        await updateItemStatus(item.id, 'PENDING_CONFIRMATION');
+      }
     }
   } catch (error: any) {
     console.error(`[Scheduler] 💥 ${item.restaurant_name} - EXECUTION ERROR:`, error.message);
+    await dropQueue.complete(job.id, 'FAILED', undefined, error.message).catch(err => {
+      console.error('[Scheduler] Failed to record job failure:', err.message);
+    });
     await telegram.notifyError(item.restaurant_name, error.message);
-    await updateItemStatus(item.id, 'WATCHING'); // Keep watching for retry
+    if (!(await rollForward(item, new Date(job.drop_at)))) {
+      await updateItemStatus(item.id, 'WATCHING'); // Keep watching for retry
+    }
   } finally {
-    scheduledActions.delete(item.id);
+    stopHeartbeat();
   }
 };
 
+/**
+ * Push the scheduler's state to dashboards when it changed
+ */
+const publishState = (): void => {
+  const { isRunning: running, watchedCount, nextDrop } = getStatus();
+  const state = {
+    running,
+    watchedCount,
+    nextDrop: nextDrop && { ...nextDrop, time: nextDrop.time.toISOString() },
+  };
+  const json = JSON.stringify(state);
+  if (json === publishedState) return;
+  publishedState = json;
+  eventStream.publish('scheduler.state', state);
+};
+
 /**
  * Main polling loop
  */
@@ -429,22 +565,53 @@ const poll = async (): Promise<void> => {
   if (!isRunning) return;
 
   try {
+    // Pick up jobs whose worker died mid-execution
+    const recovery = await dropQueue.recoverStaleJobs(MISSED_DROP_GRACE);
+    if (recovery.resumed || recovery.succeeded || recovery.skipped) {
+      console.log(`[Scheduler] ♻️ Recovered stale jobs: ${recovery.resumed} resumed, ${recovery.succeeded} succeeded, ${recovery.skipped} skipped`);
+    }
+
+    // Keep restaurants' published next drop current
+    if (Date.now() - lastRestaurantAdvance >= RESTAURANT_ADVANCE_INTERVAL) {
+      lastRestaurantAdvance = Date.now();
+      await recurringDrops.advanceRestaurants().catch(err => {
+        console.error('[Scheduler] Failed to advance restaurant drops:', err.message);
+      });
+    }
+
     const watchedItems = await fetchWatchedItems();
+    const itemsById = new Map(watchedItems.map(item => [item.id, item]));
+    const currentJobIds = new Set<number>();
+    const failedItemIds = new Set<string>();
     
     // Process each watched item
     for (const item of watchedItems) {
-      await processItem(item);
+      try {
+        const job = await processItem(item);
+        currentJobIds.add(job.id);
+      } catch (error: any) {
+        // One bad row (e.g. unknown timezone) must not stall every other drop
+        console.error(`[Scheduler] Failed to process ${item.restaurant_name}:`, error.message);
+        failedItemIds.add(item.id);
+      }
     }
 
-    // Clean up expired actions (older than 5 minutes past drop time)
-    const now = new Date();
-    for (const [id, action] of scheduledActions) {
-      if (action.dropTime.getTime() < now.getTime() - 300000) {
-        console.log(`[Scheduler] Cleaning up expired action: ${action.restaurantName}`);
-        scheduledActions.delete(id);
+    // Skip pending jobs whose item stopped watching or whose drop time moved
+    // (manual jobs are claimed by whoever enqueued them, never by the poll)
+    const activeJobs = await dropQueue.getActiveJobs();
+    for (const job of activeJobs) {
+      if (job.status === 'PENDING' && job.trigger_type !== 'manual'
+        && !currentJobIds.has(job.id) && !failedItemIds.has(job.portfolio_item_id)) {
+        console.log(`[Scheduler] Skipping stale job ${job.id}: ${job.restaurant_name}`);
+        await dropQueue.skip(job.id, 'Item no longer watched at this drop time');
       }
     }
 
+    activeActions = activeJobs
+      .filter(job => job.status === 'RUNNING' || currentJobIds.has(job.id))
+      .map(job => toAction(job, itemsById.get(job.portfolio_item_id)));
+    publishState();
+
   } catch (error: any) {
     console.error('[Scheduler] Poll error:', error.message);
   }
@@ -475,11 +642,12 @@ export const start = (): void => {
   
   isRunning = true;
   
-  // Initial poll
+  // Initial poll (also recovers jobs left RUNNING by a previous process)
   poll();
   
   // Set up recurring poll
   pollInterval = setInterval(poll, POLL_INTERVAL_MS);
+  publishState();
   
   console.log(`[Scheduler] Polling every ${POLL_INTERVAL_MS / 1000} seconds`);
 };
@@ -501,7 +669,9 @@ export const stop = (): void => {
     pollInterval = null;
   }
   
-  scheduledActions.clear();
+  // Pending jobs stay in scheduled_drops and are picked up on next start
+  activeActions = [];
+  publishState();
 };
 
 /**
@@ -515,8 +685,8 @@ export const getStatus = (): {
 } => {
   let nextDrop: { restaurant: string; time: Date; platform: string } | null = null;
   
-  for (const action of scheduledActions.values()) {
-    if (!action.executed && (!nextDrop || action.dropTime < nextDrop.time)) {
+  for (const action of activeActions) {
+    if (action.status === 'PENDING' && (!nextDrop || action.dropTime < nextDrop.time)) {
       nextDrop = { 
         restaurant: action.restaurantName, 
         time: action.dropTime,
@@ -529,7 +699,7 @@ export const getStatus = (): {
 
   return {
     isRunning,
-    watchedCount: scheduledActions.size,
+    watchedCount: activeActions.length,
     nextDrop,
     platformsReady: {
       resy: clientStatus.resy.ready,
@@ -551,13 +721,23 @@ export const triggerPoll = async (): Promise<void> => {
  * Get all currently watched items
  */
 export const getWatchedItems = (): ScheduledAction[] => {
-  return Array.from(scheduledActions.values());
+  return [...activeActions];
+};
+
+/**
+ * Get recent drop jobs (including finished ones) from the durable queue
+ */
+export const getJobHistory = async (limit = 50): Promise<ScheduledDrop[]> => {
+  return dropQueue.getRecentJobs(limit);
 };
 
 /**
- * Manually trigger acquisition for an item (for testing)
+ * Manually trigger acquisition for an item
+ * Runs as its own job in the durable queue (never the drop-time job), so
+ * pressing it twice can't book twice, and a manual attempt that fails
+ * before the drop leaves the drop-time run armed.
  */
-export const triggerManualAcquisition = async (itemId: string): Promise<any> => {
+export const triggerManualAcquisition = async (itemId: string, actor?: AuditActor): Promise<any> => {
   const items = await fetchWatchedItems();
   const item = items.find(i => i.id === itemId);
   
@@ -566,6 +746,35 @@ export const triggerManualAcquisition = async (itemId: string): Promise<any> =>
   }
 
   const platform = detectPlatform(item.platform);
+  const dropTime = parseDropTime(item.next_drop_date, item.next_drop_time, item.drop_timezone);
+
+  // The drop-time run is executing or has booked it
+  const scheduled = await dropQueue.findJob(item.id, dropTime);
+  if (scheduled && (scheduled.status === 'RUNNING' || scheduled.status === 'SUCCEEDED')) {
+    return {
+      success: false,
+      jobId: scheduled.id,
+      error: `Drop job ${scheduled.id} is already ${scheduled.status} - refusing to book twice`,
+    };
+  }
+
+  const { job } = await dropQueue.enqueue({
+    portfolio_item_id: item.id,
+    restaurant_name: item.restaurant_name,
+    platform,
+    drop_at: dropTime,
+    trigger_type: 'manual',
+  });
+
+  const claimed = await dropQueue.claim(job.id, 'manual');
+  if (!claimed) {
+    return {
+      success: false,
+      jobId: job.id,
+      error: `Manual job ${job.id} is already ${job.status} - refusing to book twice`,
+    };
+  }
+
   const request: AcquisitionRequest = {
     platform,
     restaurantName: item.restaurant_name,
@@ -576,21 +785,38 @@ export const triggerManualAcquisition = async (itemId: string): Promise<any> =>
     openTableId: item.opentable_id,
     sevenRoomsSlug: item.sevenrooms_slug,
     tockSlug: item.tock_slug,
+    portfolioItemId: item.id,
     maxRetries: 5,
     timeFlexibility: 90,
+    actor,
   };
 
+  const stopHeartbeat = dropQueue.startHeartbeat(claimed.id);
   const startTime = Date.now();
-  const result = await acquisitionEngine.acquire(request);
-  const duration = Date.now() - startTime;
 
-  await logAcquisitionAttempt(item, result, duration, 'manual');
+  try {
+    const result = await acquisitionEngine.acquire(request);
+    const duration = Date.now() - startTime;
+
+    await logAcquisitionAttempt(item, result, duration, 'manual');
+    await dropQueue.complete(
+      claimed.id,
+      result.success ? 'SUCCEEDED' : 'FAILED',
+      summarizeResult(result, duration),
+      result.error
+    );
 
-  if (result.success) {
-    await updateItemStatus(item.id, 'ACQUIRED', result.confirmationCode);
-  }
+    if (result.success) {
+      await updateItemStatus(item.id, 'ACQUIRED', result.confirmationCode);
+    }
 
-  return result;
+    return { ...result, jobId: claimed.id };
+  } catch (error: any) {
+    await dropQueue.complete(claimed.id, 'FAILED', undefined, error.message);
+    throw error;
+  } finally {
+    stopHeartbeat();
+  }
 };
 
 export default {
@@ -599,5 +825,6 @@ export default {
   getStatus,
   triggerPoll,
   getWatchedItems,
+  getJobHistory,
   triggerManualAcquisition,
 };
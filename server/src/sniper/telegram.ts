@@ -13,6 +13,7 @@
 import TelegramBot, { InlineKeyboardButton, InlineKeyboardMarkup } from 'node-telegram-bot-api';
 import dotenv from 'dotenv';
 import path from 'path';
+import auditLog, { AuditActor } from '../services/auditLog';
 
 dotenv.config({ path: path.resolve(__dirname, '../../../.env') });
 
@@ -125,6 +126,19 @@ const KEYBOARDS = {
     ]
   ]),
 
+  repricing: (changeId: number): InlineKeyboardMarkup => createKeyboard([
+    [
+      { text: '✅ APPROVE', callback_data: `reprice_ok:${changeId}` },
+      { text: '❌ KEEP PRICE', callback_data: `reprice_no:${changeId}` }
+    ]
+  ]),
+
+  repriced: (changeId: number): InlineKeyboardMarkup => createKeyboard([
+    [
+      { text: '↩️ UNDO', callback_data: `reprice_undo:${changeId}` }
+    ]
+  ]),
+
   confirm: (action: string): InlineKeyboardMarkup => createKeyboard([
     [
       { text: '✅ CONFIRM', callback_data: `confirm:${action}` },
@@ -203,8 +217,13 @@ export const notifyDropWarning = async (
   restaurantName: string,
   dropTime: string,
   city?: string,
-  restaurantId?: string
+  restaurantId?: string,
+  failingChecks: { label: string; status: 'warn' | 'fail'; detail: string }[] = []
 ): Promise<void> => {
+  const checks = failingChecks
+    .map(c => `${c.status === 'fail' ? '❌' : '⚠️'} <b>${c.label}:</b> ${c.detail}`)
+    .join('\n');
+
   const text = `
 🎯 <b>SNIPER ALERT</b>
 
@@ -213,8 +232,8 @@ Drop in <b>5 MINUTES</b>
 
 ⏰ ${dropTime}
 📍 ${city || 'Unknown location'}
-
-<i>Get ready to strike.</i>
+${checks ? `\n<b>Readiness issues:</b>\n${checks}\n` : ''}
+<i>${failingChecks.some(c => c.status === 'fail') ? 'Fix these now or the drop will miss.' : 'Get ready to strike.'}</i>
 `;
 
   await send(text, KEYBOARDS.dropWarning(restaurantId || 'unknown'));
@@ -458,6 +477,249 @@ export const notifyDailySummary = async (
   await send(text);
 };
 
+/**
+ * Weekly P&L digest
+ */
+export const notifyWeeklyPnl = async (
+  report: {
+    acquisitions: number;
+    sales: number;
+    revenue: number;
+    costBasis: number;
+    profit: number;
+    conciergeBookings: number;
+    previousProfit: number;
+    topSale: { restaurantName: string; salePrice: number } | null;
+  }
+): Promise<void> => {
+  const change = report.profit - report.previousProfit;
+  const trend = change >= 0 ? `📈 +$${change.toFixed(0)}` : `📉 -$${Math.abs(change).toFixed(0)}`;
+
+  const text = `
+📒 <b>WEEKLY P&amp;L</b>
+
+🎯 Acquisitions: ${report.acquisitions}
+🎩 Concierge bookings: ${report.conciergeBookings}
+💰 Sales: ${report.sales}
+💵 Revenue: $${report.revenue.toFixed(0)}
+🧾 Cost basis: $${report.costBasis.toFixed(0)}
+<b>Profit: $${report.profit.toFixed(0)}</b> (${trend} vs last week)
+${report.topSale ? `\n🏆 Top sale: ${report.topSale.restaurantName} at $${report.topSale.salePrice.toFixed(0)}` : ''}
+`;
+
+  await send(text);
+};
+
+/**
+ * A scheduled job failed (or recovered after failing)
+ */
+export const notifyJobStatus = async (
+  jobName: string,
+  failed: boolean,
+  details: string,
+  consecutiveFailures: number
+): Promise<void> => {
+  const text = failed
+    ? `
+⚠️ <b>JOB FAILED</b>
+
+⚙️ <b>${jobName}</b>
+${details}
+${consecutiveFailures > 1 ? `\n🔁 Failed ${consecutiveFailures} runs in a row` : ''}
+`
+    : `
+✅ <b>JOB RECOVERED</b>
+
+⚙️ <b>${jobName}</b> succeeded after ${consecutiveFailures} failed run${consecutiveFailures === 1 ? '' : 's'}
+`;
+
+  await send(text);
+};
+
+/**
+ * A booking credential stopped working or is about to expire
+ */
+export const notifyCredentialAlert = async (
+  identityName: string,
+  platform: string,
+  kind: 'invalid' | 'expiring',
+  details: string
+): Promise<void> => {
+  const text = `
+🔑 <b>${kind === 'invalid' ? 'CREDENTIALS INVALID' : 'CREDENTIALS EXPIRING'}</b>
+
+👤 <b>${identityName}</b> on ${platform}
+${details}
+
+<i>Re-authenticate before the next drop.</i>
+`;
+
+  await send(text);
+};
+
+/**
+ * A watched drop has no credentials that will work when it fires
+ */
+export const notifyDropNotArmed = async (
+  restaurantName: string,
+  dropTime: string,
+  reason: string
+): Promise<void> => {
+  const text = `
+🚫 <b>DROP NOT ARMED</b>
+
+<b>${restaurantName}</b>
+⏰ ${dropTime}
+
+${reason}
+
+<i>Fix the credentials or the sniper will skip this drop.</i>
+`;
+
+  await send(text);
+};
+
+/**
+ * A held reservation's free-cancellation window is about to close
+ */
+export const notifyCancellationDeadline = async (
+  restaurantName: string,
+  reservationAt: string,
+  deadline: string,
+  fee: number | null,
+  autoRelease: boolean
+): Promise<void> => {
+  const text = `
+⏳ <b>CANCELLATION DEADLINE</b>
+
+🍽️ <b>${restaurantName}</b>
+📅 ${reservationAt}
+⏱️ Free cancellation until: ${deadline}
+💸 Fee after that: ${fee ? `$${fee}` : 'none reported'}
+
+<i>${autoRelease ? 'Unassigned - it will be released automatically before the deadline.' : 'Cancel it in the app if it won\'t be used.'}</i>
+`;
+
+  await send(text);
+};
+
+/**
+ * A reservation was released on the platform
+ */
+export const notifyReservationReleased = async (
+  restaurantName: string,
+  reservationAt: string,
+  reason: string,
+  feeCharged: number
+): Promise<void> => {
+  const text = `
+🔓 <b>RESERVATION RELEASED</b>
+
+🍽️ <b>${restaurantName}</b>
+📅 ${reservationAt}
+📋 Reason: ${reason}
+${feeCharged > 0 ? `💸 Cancellation fee: $${feeCharged}` : '✅ No cancellation fee'}
+`;
+
+  await send(text);
+};
+
+/**
+ * Auto-release failed - the reservation has to be cancelled by hand
+ */
+export const notifyAutoReleaseFailed = async (
+  restaurantName: string,
+  reservationAt: string,
+  deadline: string,
+  error: string
+): Promise<void> => {
+  const text = `
+🚫 <b>AUTO-RELEASE FAILED</b>
+
+🍽️ <b>${restaurantName}</b>
+📅 ${reservationAt}
+⏱️ Free cancellation until: ${deadline}
+❌ ${error}
+
+<i>It won't be retried - cancel it in the app before the deadline.</i>
+`;
+
+  await send(text);
+};
+
+/**
+ * A client request was booked but couldn't be marked acquired
+ */
+export const notifyFulfillmentUnsettled = async (
+  restaurantName: string,
+  clientName: string,
+  confirmation: string,
+  error: string
+): Promise<void> => {
+  const text = `
+⚠️ <b>BOOKED, NOT RECORDED</b>
+
+🍽️ <b>${restaurantName}</b>
+👤 ${clientName}
+🔖 ${confirmation}
+❌ ${error}
+
+<i>The table is booked - check the request before anyone books it again.</i>
+`;
+
+  await send(text);
+};
+
+/**
+ * Reservations we track that the platform account no longer lists
+ */
+export const notifyReservationsMissing = async (
+  reservations: { restaurantName: string; reservationAt: string; platform: string; confirmation: string }[]
+): Promise<void> => {
+  const lines = reservations
+    .map(r => `• <b>${r.restaurantName}</b> - ${r.reservationAt} (${r.platform} ${r.confirmation})`)
+    .join('\n');
+
+  const text = `
+❓ <b>RESERVATIONS MISSING ON PLATFORM</b>
+
+${lines}
+
+<i>Probably cancelled by the venue - check the account before selling or transferring these.</i>
+`;
+
+  await send(text);
+};
+
+/**
+ * An unsold listing's price is due to drop (or has, if auto-approved)
+ */
+export const notifyRepricing = async (
+  changeId: number,
+  restaurantName: string,
+  reservationAt: string,
+  oldPrice: number,
+  newPrice: number,
+  details: string[],
+  applied: boolean,
+  listingUrl?: string
+): Promise<void> => {
+  const text = `
+📉 <b>${applied ? 'LISTING REPRICED' : 'PRICE DROP PROPOSED'}</b>
+
+🍽️ <b>${restaurantName}</b>
+📅 ${reservationAt}
+💰 $${oldPrice} → <b>$${newPrice}</b>
+
+${details.map(line => `• ${line}`).join('\n')}
+${listingUrl ? `\n🔗 ${listingUrl}` : ''}
+
+<i>${applied ? 'Set the new price on AT - undo restores the old one.' : 'Approve, then set the new price on AT.'}</i>
+`;
+
+  await send(text, applied ? KEYBOARDS.repriced(changeId) : KEYBOARDS.repricing(changeId));
+};
+
 /**
  * Status update
  */
@@ -652,6 +914,15 @@ Welcome to your command center.
     const [action, id] = query.data.split(':');
     const sched = await getScheduler();
 
+    // Item buttons carry the portfolio item id - keep a record of who pressed what
+    const actor: AuditActor = {
+      source: 'telegram',
+      actor: query.from.username ? `@${query.from.username}` : `telegram:${query.from.id}`,
+    };
+    if (['arm', 'skip', 'snipe', 'abort'].includes(action)) {
+      await auditLog.record({ action: `telegram.${action}`, actor, portfolioItemId: id });
+    }
+
     switch (action) {
       case 'arm':
         await bot!.answerCallbackQuery(query.id, { text: '🔥 Sniper armed!' });
@@ -663,11 +934,26 @@ Welcome to your command center.
         await bot!.sendMessage(query.message.chat.id, `⏭️ Skipped ${id}`, { parse_mode: 'HTML' });
         break;
 
-      case 'snipe':
+      case 'snipe': {
         await bot!.answerCallbackQuery(query.id, { text: '🚀 Sniping!' });
         await bot!.sendMessage(query.message.chat.id, `🚀 <b>SNIPING ${id}...</b>`, { parse_mode: 'HTML' });
-        // TODO: Trigger actual snipe
+        // Same path as the dashboard's manual trigger: a manual job of its own, so
+        // pressing this at T-1 and failing never stops the drop-time run
+        try {
+          const result = await sched.default.triggerManualAcquisition(id, actor);
+          await bot!.sendMessage(
+            query.message.chat.id,
+            result.success
+              ? `✅ <b>ACQUIRED</b> ${id}\nConfirmation: ${result.confirmationCode || 'Check platform'}`
+              : `⚠️ Snipe failed for ${id}: ${result.error}\n<i>The scheduled drop is still armed.</i>`,
+            { parse_mode: 'HTML' }
+          );
+        } catch (error: any) {
+          console.error('[Telegram] Snipe failed:', error.message);
+          await bot!.sendMessage(query.message.chat.id, `❌ Snipe error for ${id}: ${error.message}\nThe scheduled drop is still armed.`);
+        }
         break;
+      }
 
       case 'abort':
         await bot!.answerCallbackQuery(query.id, { text: 'Aborted' });
@@ -699,6 +985,38 @@ Welcome to your command center.
         await bot!.sendMessage(query.message.chat.id, '📋 Portfolio view coming soon...', { parse_mode: 'HTML' });
         break;
 
+      case 'reprice_ok':
+      case 'reprice_no':
+      case 'reprice_undo': {
+        const { default: listingRepricing } = await import('../services/listingRepricing');
+        const changeId = parseInt(id, 10);
+        const result = action === 'reprice_ok'
+          ? await listingRepricing.approve(changeId, actor)
+          : action === 'reprice_no'
+            ? await listingRepricing.reject(changeId, actor)
+            : await listingRepricing.revert(changeId, actor);
+
+        if (!result.success) {
+          await bot!.answerCallbackQuery(query.id, { text: 'Not changed' });
+          await bot!.sendMessage(query.message.chat.id, `⚠️ ${result.error}`, { parse_mode: 'HTML' });
+          break;
+        }
+
+        const change = result.change!;
+        await bot!.answerCallbackQuery(query.id, { text: action === 'reprice_no' ? 'Kept the price' : 'Price updated' });
+        await bot!.sendMessage(
+          query.message.chat.id,
+          action === 'reprice_no'
+            ? `👌 Kept $${change.oldPrice}`
+            : `✅ Now $${change.newPrice} (was $${change.oldPrice}) - update the AT listing`,
+          {
+            parse_mode: 'HTML',
+            reply_markup: action === 'reprice_ok' ? KEYBOARDS.repriced(change.id) : undefined,
+          }
+        );
+        break;
+      }
+
       case 'voice_confirm':
         await bot!.answerCallbackQuery(query.id, { text: 'Initiating call...' });
         await bot!.sendMessage(query.message.chat.id, '📞 Voice confirmation coming soon...', { parse_mode: 'HTML' });
@@ -787,6 +1105,15 @@ export default {
   notifyTransferComplete,
   notifyPriceSuggestion,
   notifyDailySummary,
+  notifyWeeklyPnl,
+  notifyJobStatus,
+  notifyCredentialAlert,
+  notifyDropNotArmed,
+  notifyCancellationDeadline,
+  notifyReservationReleased,
+  notifyAutoReleaseFailed,
+  notifyReservationsMissing,
+  notifyRepricing,
   sendStatus,
   sendTest,
   isConfigured,
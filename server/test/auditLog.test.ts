@@ -0,0 +1,118 @@
+/**
+ * Audit trail: redaction, append-only storage, and events written by routes
+ */
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import axios, { AxiosInstance } from 'axios';
+import { describeWithDatabase } from './helpers/testDb';
+
+describeWithDatabase('audit log', async (db) => {
+  const { default: app } = await import('../src/app');
+  const { default: authService } = await import('../src/services/authService');
+  const { default: auditLog, redact, SYSTEM_ACTOR } = await import('../src/services/auditLog');
+
+  let server: Server;
+  let api: AxiosInstance;
+
+  before(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    api = axios.create({ baseURL: `http://127.0.0.1:${port}/api`, validateStatus: () => true });
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(async () => {
+    await db.truncate();
+    await authService.createUser({ email: 'ops@example.com', password: 'correct-horse', role: 'operator' });
+    const session = await authService.login('ops@example.com', 'correct-horse');
+    api.defaults.headers.common.Authorization = `Bearer ${session!.token}`;
+    api.defaults.headers.common['X-Client'] = 'dashboard';
+  });
+
+  test('secrets are redacted and large payloads trimmed', () => {
+    const result = redact({
+      restaurantName: 'Carbone',
+      authToken: 'abc',
+      nested: { opentable_session_cookie: 'xyz', notes: 'x'.repeat(5000) },
+      stored: 'enc:v1:deadbeef:aaa:bbb',
+    }) as any;
+
+    assert.equal(result.restaurantName, 'Carbone');
+    assert.equal(result.authToken, '[REDACTED]');
+    assert.equal(result.nested.opentable_session_cookie, '[REDACTED]');
+    assert.ok(result.nested.notes.length < 2100);
+    assert.equal(result.stored, '[REDACTED]');
+  });
+
+  test('events cannot be edited or deleted', async () => {
+    await auditLog.record({ action: 'test.event', actor: SYSTEM_ACTOR });
+
+    await assert.rejects(db.pool.query(`UPDATE audit_events SET actor = 'someone-else'`), /append-only/);
+    await assert.rejects(db.pool.query('DELETE FROM audit_events'), /append-only/);
+    assert.equal((await auditLog.query()).length, 1);
+  });
+
+  test('transfer changes are attributed to the dashboard user', async () => {
+    const created = await api.post('/transfers', {
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    const { id } = created.data.transfer;
+    await api.put(`/transfers/${id}/listed`, { listing_price: 300 });
+
+    const res = await api.get('/audit', { params: { transferId: id, action: 'transfer.' } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.data.events.map((e: any) => e.action), ['transfer.listed', 'transfer.created']);
+    assert.equal(res.data.events[0].source, 'dashboard');
+    assert.equal(res.data.events[0].actor, 'ops@example.com');
+    assert.equal(res.data.events[0].platform, 'resy');
+  });
+
+  test('failed acquisitions record the request, actor and error', async () => {
+    const { default: acquisitionEngine } = await import('../src/services/acquisitionEngine');
+
+    // No booking identities exist, so this fails before reaching the platform
+    const result = await acquisitionEngine.acquire({
+      platform: 'resy',
+      restaurantName: 'Carbone',
+      resyVenueId: 6194,
+      date: '2026-12-05',
+      time: '19:00',
+      partySize: 2,
+      actor: { source: 'dashboard', actor: 'ops@example.com' },
+    });
+    assert.equal(result.success, false);
+
+    const [event] = await auditLog.query({ action: 'acquisition.' });
+    assert.equal(event.action, 'acquisition.attempt');
+    assert.equal(event.outcome, 'failure');
+    assert.equal(event.source, 'dashboard');
+    assert.equal(event.actor, 'ops@example.com');
+    assert.equal(event.request.restaurantName, 'Carbone');
+    assert.ok(event.error);
+  });
+
+  test('read-only users can view history but not the transfers they cannot change', async () => {
+    await authService.createUser({ email: 'viewer@example.com', password: 'correct-horse', role: 'read_only' });
+    const session = await authService.login('viewer@example.com', 'correct-horse');
+    const headers = { Authorization: `Bearer ${session!.token}` };
+
+    await auditLog.record({ action: 'telegram.arm', actor: { source: 'telegram', actor: '@ops' }, portfolioItemId: 'item-1' });
+
+    const timeline = await api.get('/audit/portfolio/item-1', { headers });
+    assert.equal(timeline.status, 200);
+    assert.equal(timeline.data.events[0].source, 'telegram');
+    assert.equal((await api.get('/audit/clients/abc', { headers })).status, 400);
+    assert.equal((await api.get('/audit/clients/1.5', { headers })).status, 400);
+    assert.equal((await api.post('/transfers', {}, { headers })).status, 403);
+  });
+});
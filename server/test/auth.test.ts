@@ -0,0 +1,120 @@
+/**
+ * Sessions and role-based access over HTTP
+ */
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import axios, { AxiosInstance } from 'axios';
+import { describeWithDatabase } from './helpers/testDb';
+
+describeWithDatabase('auth', async (db) => {
+  const { default: app } = await import('../src/app');
+  const { default: authService } = await import('../src/services/authService');
+
+  let server: Server;
+  let api: AxiosInstance;
+
+  before(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    api = axios.create({ baseURL: `http://127.0.0.1:${port}/api`, validateStatus: () => true });
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => db.truncate());
+
+  const signIn = async (role: 'operator' | 'analyst' | 'concierge' | 'read_only') => {
+    const email = `${role}@example.com`;
+    await authService.createUser({ email, password: 'correct-horse', role });
+    const res = await api.post('/auth/login', { email, password: 'correct-horse' });
+    assert.equal(res.status, 200);
+    return { headers: { Authorization: `Bearer ${res.data.token}` } };
+  };
+
+  test('login issues a token; bad passwords and missing tokens get 401', async () => {
+    await authService.createUser({ email: 'ops@example.com', password: 'correct-horse', role: 'operator' });
+
+    assert.equal((await api.post('/auth/login', { email: 'ops@example.com', password: 'wrong-horse' })).status, 401);
+    assert.equal((await api.get('/transfers')).status, 401);
+    assert.equal((await api.get('/transfers', { headers: { Authorization: 'Bearer nope' } })).status, 401);
+
+    const login = await api.post('/auth/login', { email: 'OPS@example.com', password: 'correct-horse' });
+    assert.equal(login.status, 200);
+    assert.equal(login.data.user.role, 'operator');
+    assert.equal(login.data.user.password_hash, undefined);
+
+    const me = await api.get('/auth/me', { headers: { Authorization: `Bearer ${login.data.token}` } });
+    assert.equal(me.data.user.email, 'ops@example.com');
+  });
+
+  test('concierge manages clients but never sees identities', async () => {
+    const concierge = await signIn('concierge');
+
+    const created = await api.post('/clients', {
+      first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com', phone: '5551234567',
+    }, concierge);
+    assert.equal(created.status, 201);
+
+    assert.equal((await api.get('/identities', concierge)).status, 403);
+    assert.equal((await api.post('/identities', { name: 'X', email: 'x@example.com' }, concierge)).status, 403);
+    assert.equal((await api.get('/analytics/validate', concierge)).status, 403);
+    // Routing ignores case - so does the permission override
+    assert.equal((await api.get('/analytics/VALIDATE', concierge)).status, 403);
+    assert.equal((await api.get('/Analytics/Validate', concierge)).status, 403);
+    assert.equal((await api.post('/sniper/acquire', {}, concierge)).status, 403);
+  });
+
+  test('read-only can look but not change anything', async () => {
+    const readOnly = await signIn('read_only');
+
+    assert.equal((await api.get('/transfers', readOnly)).status, 200);
+    assert.equal((await api.post('/sniper/drop-rules/preview', { pattern: 'Daily at 10:00 AM EST' }, readOnly)).status, 200);
+    assert.equal((await api.post('/transfers', { restaurant_name: 'Carbone' }, readOnly)).status, 403);
+    assert.equal((await api.post('/clients', {}, readOnly)).status, 403);
+    assert.equal((await api.get('/auth/users', readOnly)).status, 403);
+    // Overrides match whole path segments: a route that merely starts the same is not covered
+    assert.equal((await api.post('/analytics/pricing/suggestions', {}, readOnly)).status, 403);
+  });
+
+  test('emails are stored lowercased and unique regardless of case', async () => {
+    const operator = await signIn('operator');
+
+    const created = await api.post('/auth/users', { email: 'Grace@Example.com', password: 'correct-horse' }, operator);
+    assert.equal(created.status, 201);
+    assert.equal(created.data.email, 'grace@example.com');
+    const again = await api.post('/auth/users', { email: 'GRACE@example.com', password: 'correct-horse' }, operator);
+    assert.equal(again.status, 409);
+
+    assert.equal((await api.post('/auth/login', { email: 'grace@EXAMPLE.com', password: 'correct-horse' })).status, 200);
+  });
+
+  test('non-string passwords are rejected, not hashed', async () => {
+    const operator = await signIn('operator');
+
+    assert.equal((await api.post('/auth/login', { email: 'operator@example.com', password: 12345678 })).status, 400);
+    assert.equal((await api.post('/auth/users', { email: 'x@example.com', password: 123456789 }, operator)).status, 400);
+    assert.equal((await api.post('/auth/users', { email: 'x@example.com', password: ['correct-horse'] }, operator)).status, 400);
+
+    const users = await api.get('/auth/users', operator);
+    const [self] = users.data;
+    assert.equal((await api.put(`/auth/users/${self.id}`, { password: { length: 20 } }, operator)).status, 400);
+  });
+
+  test('logout and deactivation end the session', async () => {
+    const operator = await signIn('operator');
+    const analyst = await signIn('analyst');
+
+    const users = await api.get('/auth/users', operator);
+    const analystId = users.data.find((u: any) => u.role === 'analyst').id;
+    assert.equal((await api.put(`/auth/users/${analystId}`, { is_active: false }, operator)).status, 200);
+    assert.equal((await api.get('/transfers', analyst)).status, 401);
+
+    assert.equal((await api.post('/auth/logout', {}, operator)).status, 200);
+    assert.equal((await api.get('/transfers', operator)).status, 401);
+  });
+});
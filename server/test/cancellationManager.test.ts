@@ -0,0 +1,177 @@
+/**
+ * Cancellation workflow: releasing held reservations on the platform,
+ * penalty-window fees, deadline reminders and auto-release
+ */
+
+import './helpers/simulatorEnv';
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+
+const OPERATOR = { source: 'dashboard' as const, actor: 'ops@example.com' };
+
+describeWithDatabase('cancellation manager', async (db) => {
+  const { default: resyClient } = await import('../src/services/resyApi');
+  const { default: transferTracker, toWallClockTime } = await import('../src/services/transferTracker');
+  const { default: cancellationManager } = await import('../src/services/cancellationManager');
+  const { default: auditLog } = await import('../src/services/auditLog');
+  const { getAdapter } = await import('../src/platforms');
+
+  const simulator = new PlatformSimulator();
+
+  // A real Resy booking on the simulator, tracked as a standard transfer
+  const heldReservation = async (overrides: Record<string, any> = {}) => {
+    const date = daysFromNow(10);
+    const booked = await getAdapter('resy')!.book({
+      venueId: SIM_VENUES.resy.venueId,
+      date,
+      time: '19:00',
+      partySize: 2,
+    });
+    assert.equal(booked.success, true, booked.error);
+
+    return transferTracker.createTransfer({
+      restaurant_name: SIM_VENUES.resy.name,
+      platform: 'resy',
+      reservation_date: date,
+      reservation_time: '19:00',
+      party_size: 2,
+      confirmation_number: booked.confirmationCode,
+      booking_type: 'standard',
+      cancellation_fee: booked.cancellationFee,
+      ...overrides,
+    });
+  };
+
+  const moveDeadline = (id: number, interval: string) =>
+    db.pool.query(`UPDATE transfers SET cancellation_deadline = NOW() + $2::interval WHERE id = $1`, [id, interval]);
+
+  before(async () => {
+    await simulator.start();
+    resyClient.setBaseUrl(simulator.platformUrl('resy'));
+  });
+
+  after(() => simulator.stop());
+
+  beforeEach(async () => {
+    await db.truncate();
+    simulator.loadScenario(buildScenario('happy-path'));
+    delete process.env.CANCELLATION_AUTO_RELEASE;
+  });
+
+  test('booked times in every platform format reduce to HH:MM', () => {
+    assert.equal(toWallClockTime('19:00'), '19:00');
+    assert.equal(toWallClockTime('7:30 PM'), '19:30');
+    assert.equal(toWallClockTime('12:15 AM'), '00:15');
+    assert.equal(toWallClockTime('2026-12-05 21:00:00'), '21:00');
+    assert.equal(toWallClockTime('whenever'), null);
+  });
+
+  test('transfers carry the booked slot fee and the platform penalty deadline', async () => {
+    const transfer = await heldReservation();
+
+    assert.equal(Number(transfer.cancellation_fee), 50);
+    const startsAt = new Date(`${daysFromNow(10)}T19:00:00-05:00`).getTime();
+    const deadline = new Date(transfer.cancellation_deadline!).getTime();
+    // 24h Resy window, give or take the New York DST offset
+    assert.ok(Math.abs(startsAt - deadline - 24 * 3600 * 1000) <= 3600 * 1000);
+  });
+
+  test('cancelling before the deadline releases the table for free', async () => {
+    const transfer = await heldReservation();
+
+    const result = await cancellationManager.cancelTransfer(transfer.id, { reason: 'client_cancelled', actor: OPERATOR });
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.feeCharged, 0);
+    assert.equal(result.transfer!.status, 'CANCELLED');
+    assert.equal(result.transfer!.cancellation_reason, 'client_cancelled');
+    assert.deepEqual(simulator.getReservations('resy').map(r => r.status), ['CANCELLED']);
+
+    const again = await cancellationManager.cancelTransfer(transfer.id, { reason: 'unused', actor: OPERATOR });
+    assert.equal(again.code, 'not_cancellable');
+
+    const events = await auditLog.query({ transferId: transfer.id });
+    assert.deepEqual(events.map(e => e.action).sort(), ['transfer.cancel_failed', 'transfer.cancelled']);
+  });
+
+  test('inside the penalty window the fee has to be accepted', async () => {
+    const transfer = await heldReservation();
+    await moveDeadline(transfer.id, '-1 hour');
+
+    const refused = await cancellationManager.cancelTransfer(transfer.id, { reason: 'unused', actor: OPERATOR });
+    assert.equal(refused.code, 'fee_not_accepted');
+    assert.equal(refused.fee, 50);
+    assert.equal(simulator.getReservations('resy')[0].status, 'BOOKED');
+
+    const accepted = await cancellationManager.cancelTransfer(transfer.id, { reason: 'unused', acceptFee: true, actor: OPERATOR });
+    assert.equal(accepted.success, true, accepted.error);
+    assert.equal(accepted.feeCharged, 50);
+    assert.equal(Number(accepted.transfer!.cancellation_fee_charged), 50);
+  });
+
+  test('reservations handed to a buyer are not ours to cancel', async () => {
+    const transfer = await heldReservation({ status: 'TRANSFERRED' });
+
+    const result = await cancellationManager.cancelTransfer(transfer.id, { reason: 'unused', actor: OPERATOR });
+    assert.equal(result.code, 'not_cancellable');
+    assert.equal(simulator.getReservations('resy')[0].status, 'BOOKED');
+  });
+
+  test('the watch pass releases unassigned reservations and reminds about the rest once', async () => {
+    const unassigned = await heldReservation();
+    const sold = await heldReservation({ status: 'SOLD' });
+    const later = await heldReservation();
+    await moveDeadline(unassigned.id, '1 hour');
+    await moveDeadline(sold.id, '1 hour');
+    await moveDeadline(later.id, '10 hours');
+
+    const first = await cancellationManager.runOnce();
+    assert.deepEqual(first, { reminded: 2, released: 1, failed: 0 });
+
+    const released = await transferTracker.getTransfer(unassigned.id);
+    assert.equal(released!.status, 'CANCELLED');
+    assert.equal(released!.cancellation_reason, 'auto_release');
+    assert.equal((await transferTracker.getTransfer(sold.id))!.status, 'SOLD');
+    assert.equal((await transferTracker.getTransfer(later.id))!.status, 'ACQUIRED');
+
+    const second = await cancellationManager.runOnce();
+    assert.deepEqual(second, { reminded: 0, released: 0, failed: 0 });
+  });
+
+  test('a refused auto-release is recorded once and not retried every pass', async () => {
+    simulator.loadScenario({ ...buildScenario('happy-path'), faults: [{ platform: 'resy', endpoint: 'cancel', kind: 'server_error' }] });
+    const unassigned = await heldReservation();
+    await moveDeadline(unassigned.id, '1 hour');
+    const cancelCalls = () => simulator.getRequestLog('resy').filter(r => r.endpoint === 'cancel').length;
+
+    const first = await cancellationManager.runOnce();
+    assert.deepEqual(first, { reminded: 0, released: 0, failed: 1 });
+    const calls = cancelCalls();
+    assert.ok(calls > 0);
+
+    const failed = await transferTracker.getTransfer(unassigned.id);
+    assert.equal(failed!.status, 'ACQUIRED');
+    assert.ok(failed!.auto_release_failed_at);
+    assert.match(failed!.auto_release_error!, /refused the cancellation/);
+
+    // Left to an operator: the platform isn't asked again
+    const second = await cancellationManager.runOnce();
+    assert.deepEqual(second, { reminded: 0, released: 0, failed: 0 });
+    assert.equal(cancelCalls(), calls);
+    assert.equal(await transferTracker.markAutoReleaseFailed(unassigned.id, 'again'), false);
+  });
+
+  test('auto-release can be switched off', async () => {
+    process.env.CANCELLATION_AUTO_RELEASE = 'false';
+    const unassigned = await heldReservation();
+    await moveDeadline(unassigned.id, '1 hour');
+
+    const result = await cancellationManager.runOnce();
+    assert.deepEqual(result, { reminded: 1, released: 0, failed: 0 });
+    assert.equal((await transferTracker.getTransfer(unassigned.id))!.status, 'ACQUIRED');
+  });
+});
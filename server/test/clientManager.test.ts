@@ -0,0 +1,100 @@
+/**
+ * Concierge clients and their booking requests: pending → searching → acquired / failed
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const ada = {
+  first_name: 'Ada',
+  last_name: 'Lovelace',
+  email: 'ada@example.com',
+  phone: '5551234567',
+};
+
+describeWithDatabase('clientManager', async (db) => {
+  const { default: clientManager } = await import('../src/services/clientManager');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  beforeEach(() => db.truncate());
+
+  const requestFor = (clientId: number, overrides: Record<string, any> = {}) =>
+    clientManager.createBookingRequest({
+      client_id: clientId,
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      desired_date: '2026-12-05',
+      desired_time: '19:00',
+      party_size: 2,
+      ...overrides,
+    });
+
+  test('new requests are pending with default flexibility', async () => {
+    const client = await clientManager.createClient(ada);
+    const request = await requestFor(client.id);
+
+    assert.equal(request.status, 'pending');
+    assert.equal(request.attempts, 0);
+    assert.equal(request.time_flexibility, 60);
+    assert.deepEqual((await clientManager.getPendingBookingRequests()).map(r => r.id), [request.id]);
+  });
+
+  test('an acquired request links its transfer and leaves the pending queue', async () => {
+    const client = await clientManager.createClient(ada);
+    const request = await requestFor(client.id);
+
+    await clientManager.updateBookingRequestStatus(request.id, 'searching');
+    assert.equal((await clientManager.getPendingBookingRequests()).length, 1, 'searching is still open');
+
+    const transfer = await transferTracker.createTransfer({
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+      booking_type: 'concierge',
+      client_id: client.id,
+    });
+    await clientManager.updateBookingRequestStatus(request.id, 'acquired', transfer.id);
+
+    const [updated] = await clientManager.getClientBookingRequests(client.id);
+    assert.equal(updated.status, 'acquired');
+    assert.equal(updated.transfer_id, transfer.id);
+    assert.equal(updated.attempts, 2);
+    assert.ok(updated.acquired_at);
+    assert.deepEqual(await clientManager.getPendingBookingRequests(), []);
+  });
+
+  test('a failed request records its reason without an acquisition time', async () => {
+    const client = await clientManager.createClient(ada);
+    const request = await requestFor(client.id);
+
+    await clientManager.updateBookingRequestStatus(request.id, 'failed', undefined, 'Sold out');
+
+    const [updated] = await clientManager.getClientBookingRequests(client.id);
+    assert.equal(updated.status, 'failed');
+    assert.equal(updated.failure_reason, 'Sold out');
+    assert.equal(updated.acquired_at, null);
+  });
+
+  test('expired requests drop out of the pending queue', async () => {
+    const client = await clientManager.createClient(ada);
+    await requestFor(client.id, { expires_at: '2020-01-01T00:00:00Z' });
+
+    assert.deepEqual(await clientManager.getPendingBookingRequests(), []);
+  });
+
+  test('recorded bookings roll up into client stats', async () => {
+    const client = await clientManager.createClient({ ...ada, vip_level: 'vip' });
+    await clientManager.recordBooking(client.id, 150);
+    await clientManager.recordBooking(client.id, 50);
+
+    const stats = await clientManager.getStats();
+    assert.equal(stats.totalClients, 1);
+    assert.equal(stats.vipClients, 1);
+    assert.equal(stats.totalBookings, 2);
+    assert.equal(stats.totalRevenue, 200);
+    assert.equal(stats.topClients[0].email, ada.email);
+  });
+});
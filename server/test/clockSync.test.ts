@@ -0,0 +1,102 @@
+/**
+ * Platform clock offset estimation from HTTP Date headers
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import clockSync from '../src/services/clockSync';
+
+/** Date header a platform `offsetMs` ahead of us would send at local time `at` */
+const dateHeader = (at: number, offsetMs: number) => new Date(at + offsetMs).toUTCString();
+
+/** Feed samples spread across second boundaries, 40ms round trips */
+const feed = (platform: string, offsetMs: number, count: number, start: number) => {
+  for (let i = 0; i < count; i++) {
+    const sentAt = start + i * 137;
+    clockSync.observe(platform, sentAt, sentAt + 40, dateHeader(sentAt + 20, offsetMs));
+  }
+};
+
+beforeEach(() => clockSync.reset());
+
+test('whole-second Date headers narrow to a sub-second offset', () => {
+  // Pinned to a second boundary so the samples' phases don't depend on the wall clock
+  const start = Math.floor(Date.now() / 1000) * 1000 - 60000;
+  feed('resy', 1234, 1, start);
+  assert.ok(clockSync.getEstimate('resy')!.uncertaintyMs >= 500, 'one sample only bounds the offset to a second');
+
+  feed('resy', 1234, 15, start + 200);
+  const estimate = clockSync.getEstimate('resy')!;
+  assert.ok(Math.abs(estimate.offsetMs - 1234) <= 60, `offset ${estimate.offsetMs}`);
+  assert.ok(estimate.uncertaintyMs <= 60);
+  assert.equal(estimate.rttMs, 40);
+
+  const drop = new Date('2026-12-01T15:00:00Z');
+  assert.equal(clockSync.toLocalTime('resy', drop).getTime(), drop.getTime() - estimate.offsetMs);
+});
+
+test('a clock step replaces the samples it contradicts', () => {
+  const start = Math.floor(Date.now() / 1000) * 1000 - 60000;
+  feed('tock', 200, 10, start);
+  feed('tock', -3000, 10, start + 10000);
+
+  const estimate = clockSync.getEstimate('tock')!;
+  assert.ok(Math.abs(estimate.offsetMs + 3000) <= 80, `offset ${estimate.offsetMs}`);
+  assert.ok(estimate.samples <= 10);
+});
+
+test('slow round trips and missing Date headers are ignored', () => {
+  const now = Date.now();
+  clockSync.observe('opentable', now - 5000, now, dateHeader(now, 0));
+  clockSync.observe('opentable', now - 10, now, undefined);
+  assert.equal(clockSync.getEstimate('opentable'), null);
+  assert.equal(clockSync.getOffset('opentable'), 0);
+  assert.ok(clockSync.needsMeasurement('opentable'));
+});
+
+test('measure() probes the platform and reads its clock', async () => {
+  const server = http.createServer((req, res) => {
+    res.setHeader('Date', dateHeader(Date.now(), 4000));
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const estimate = (await clockSync.measure('sevenrooms', `http://127.0.0.1:${port}`))!;
+    assert.equal(estimate.samples, 3);
+    assert.ok(Math.abs(estimate.offsetMs - 4000) <= estimate.uncertaintyMs + 50, JSON.stringify(estimate));
+    assert.equal(clockSync.needsMeasurement('sevenrooms'), false);
+    assert.deepEqual(clockSync.getStatus().map(e => e.platform), ['sevenrooms']);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+test('refresh() probes in the background, and overlapping measurements share one probe', async () => {
+  let probes = 0;
+  const server = http.createServer((req, res) => {
+    probes++;
+    res.setHeader('Date', dateHeader(Date.now(), -2000));
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    clockSync.refresh('resy', url);
+    assert.equal(clockSync.getEstimate('resy'), null, 'returns before any probe answers');
+
+    const estimate = (await clockSync.measure('resy', url))!;
+    assert.equal(probes, 3);
+    assert.equal(estimate.samples, 3);
+
+    // Fresh now: nothing more to probe
+    clockSync.refresh('resy', url);
+    assert.equal(probes, 3);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
@@ -0,0 +1,124 @@
+/**
+ * Credential health: token expiry, valid/invalid transitions, drop readiness and re-auth alerts
+ */
+
+import crypto from 'crypto';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const HOUR = 60 * 60 * 1000;
+
+/** An unsigned JWT that expires at `at` */
+const jwtExpiring = (at: Date) => [
+  Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url'),
+  Buffer.from(JSON.stringify({ sub: 'user-1', exp: Math.floor(at.getTime() / 1000) })).toString('base64url'),
+  'signature',
+].join('.');
+
+describeWithDatabase('credential health', async (db) => {
+  const { default: credentialHealth, decodeTokenExpiry } = await import('../src/services/credentialHealth');
+  const { default: identityManager } = await import('../src/services/identityManager');
+  const { default: credentialVault } = await import('../src/services/credentialVault');
+
+  const healthOf = async (identityId: number, platform: string) =>
+    (await credentialHealth.getHealth(identityId)).find(h => h.platform === platform)!;
+
+  beforeEach(async () => {
+    await db.truncate();
+    process.env.CREDENTIAL_ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+    credentialVault.reloadKeys();
+  });
+
+  test('JWT expiry is decoded; other tokens have none', () => {
+    const at = new Date('2026-03-01T12:00:00Z');
+    assert.equal(decodeTokenExpiry(jwtExpiring(at))?.toISOString(), at.toISOString());
+    assert.equal(decodeTokenExpiry('opaque-csrf-token'), null);
+    assert.equal(decodeTokenExpiry('a.not-json.c'), null);
+    assert.equal(decodeTokenExpiry(undefined), null);
+  });
+
+  test('tracks last valid and first invalid across checks', async () => {
+    const identity = await identityManager.createIdentity({ name: 'Alex', email: 'alex@example.com', resy_auth_token: 'opaque' });
+
+    await credentialHealth.record(identity.id, 'resy', { valid: true, source: 'validation' });
+    const valid = await healthOf(identity.id, 'resy');
+    assert.equal(valid.status, 'valid');
+    assert.ok(valid.last_valid_at);
+
+    await credentialHealth.recordBookingOutcome(identity.id, 'resy', false, 'No slots available');
+    assert.equal((await healthOf(identity.id, 'resy')).status, 'valid', 'sold out says nothing about the token');
+
+    await credentialHealth.recordBookingOutcome(identity.id, 'resy', false, 'Resy API error: 401 Unauthorized');
+    const first = await healthOf(identity.id, 'resy');
+    await credentialHealth.record(identity.id, 'resy', { valid: false, message: 'Token rejected', source: 'validation' });
+    const second = await healthOf(identity.id, 'resy');
+    assert.equal(second.status, 'invalid');
+    assert.equal(second.first_invalid_at!.toISOString(), first.first_invalid_at!.toISOString());
+    assert.equal(second.last_valid_at!.toISOString(), valid.last_valid_at!.toISOString());
+
+    await credentialHealth.record(identity.id, 'resy', { valid: true, source: 'validation' });
+    assert.equal((await healthOf(identity.id, 'resy')).first_invalid_at, null);
+  });
+
+  test('a drop is not ready when every token expires before it, or is invalid', async () => {
+    const drop = new Date(Date.now() + 48 * HOUR);
+    const early = await identityManager.createIdentity({
+      name: 'Early', email: 'early@example.com', resy_auth_token: jwtExpiring(new Date(Date.now() + 24 * HOUR)),
+    });
+    await credentialHealth.recordCredentialsChanged(early);
+
+    let readiness = await credentialHealth.getDropReadiness('resy', drop);
+    assert.equal(readiness.ready, false);
+    assert.match(readiness.reason!, /Early: Token expires/);
+    assert.equal((await credentialHealth.getDropReadiness('resy', new Date(Date.now() + HOUR))).ready, true);
+
+    const broken = await identityManager.createIdentity({ name: 'Broken', email: 'broken@example.com', resy_auth_token: 'opaque' });
+    await credentialHealth.record(broken.id, 'resy', { valid: false, message: 'Token rejected', source: 'validation' });
+    readiness = await credentialHealth.getDropReadiness('resy', drop);
+    assert.equal(readiness.ready, false);
+    assert.deepEqual(readiness.blocked.map(b => b.name).sort(), ['Broken', 'Early']);
+
+    // A fresh token fixes it
+    await identityManager.updateIdentity(early.id, { resy_auth_token: jwtExpiring(new Date(Date.now() + 30 * 24 * HOUR)) });
+    await credentialHealth.recordCredentialsChanged((await identityManager.getIdentity(early.id))!, ['resy']);
+    readiness = await credentialHealth.getDropReadiness('resy', drop);
+    assert.equal(readiness.ready, true);
+    assert.deepEqual(readiness.usable.map(u => u.name), ['Early']);
+
+    assert.equal((await credentialHealth.getDropReadiness('tock', drop)).ready, false);
+    assert.match((await credentialHealth.getDropReadiness('tock', drop)).reason!, /No active identity has tock/);
+  });
+
+  test('identity selection skips invalid and expired credentials', async () => {
+    const stale = await identityManager.createIdentity({ name: 'Stale', email: 'stale@example.com', resy_auth_token: 'opaque' });
+    const fresh = await identityManager.createIdentity({ name: 'Fresh', email: 'fresh@example.com', resy_auth_token: 'opaque' });
+    await db.pool.query(`UPDATE booking_identities SET resy_bookings_month = 5 WHERE id = $1`, [fresh.id]);
+
+    assert.equal((await identityManager.getBestIdentityForPlatform('resy'))!.id, stale.id);
+
+    await credentialHealth.record(stale.id, 'resy', { valid: false, source: 'booking' });
+    assert.equal((await identityManager.getBestIdentityForPlatform('resy'))!.id, fresh.id);
+
+    await credentialHealth.record(fresh.id, 'resy', { valid: true, expiresAt: new Date(Date.now() - HOUR), source: 'validation' });
+    assert.equal(await identityManager.getBestIdentityForPlatform('resy'), null);
+  });
+
+  test('alerts once per problem, and again after the credential is fixed and breaks', async () => {
+    const identity = await identityManager.createIdentity({
+      name: 'Alex', email: 'alex@example.com',
+      resy_auth_token: 'opaque',
+      tock_auth_token: jwtExpiring(new Date(Date.now() + 12 * HOUR)),
+    });
+    await credentialHealth.recordCredentialsChanged(identity);
+    await credentialHealth.record(identity.id, 'resy', { valid: false, message: 'Token rejected', source: 'validation' });
+
+    assert.deepEqual(await credentialHealth.sendAlerts(), { invalid: 1, expiring: 1 });
+    assert.deepEqual(await credentialHealth.sendAlerts(), { invalid: 0, expiring: 0 });
+    assert.equal((await healthOf(identity.id, 'tock')).alert_reason, 'expiring');
+
+    await credentialHealth.record(identity.id, 'resy', { valid: true, source: 'validation' });
+    await credentialHealth.record(identity.id, 'resy', { valid: false, message: 'Token rejected', source: 'booking' });
+    assert.deepEqual(await credentialHealth.sendAlerts(), { invalid: 1, expiring: 0 });
+  });
+});
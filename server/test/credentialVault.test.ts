@@ -0,0 +1,88 @@
+/**
+ * Envelope encryption of booking identity credentials
+ */
+
+import crypto from 'crypto';
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+
+describeWithDatabase('credential encryption', async (db) => {
+  const { default: credentialVault } = await import('../src/services/credentialVault');
+  const { default: identityManager } = await import('../src/services/identityManager');
+
+  const useKeys = (current: string, old: string[] = []) => {
+    process.env.CREDENTIAL_ENCRYPTION_KEY = current;
+    process.env.CREDENTIAL_ENCRYPTION_OLD_KEYS = old.join(',');
+    credentialVault.reloadKeys();
+  };
+
+  beforeEach(async () => {
+    await db.truncate();
+    useKeys(newKey());
+  });
+
+  test('values round-trip, use a fresh data key each time, and reject tampering', () => {
+    const a = credentialVault.encrypt('resy-token-123');
+    const b = credentialVault.encrypt('resy-token-123');
+
+    assert.notEqual(a, b);
+    assert.ok(!a.includes('resy-token-123'));
+    assert.equal(credentialVault.decrypt(a), 'resy-token-123');
+    assert.equal(credentialVault.decrypt('legacy-plaintext'), 'legacy-plaintext');
+
+    const tampered = a.slice(0, -4) + (a.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+    assert.throws(() => credentialVault.decrypt(tampered));
+  });
+
+  test('identities are stored encrypted and only decrypted for use', async () => {
+    const created = await identityManager.createIdentity({
+      name: 'Main', email: 'main@example.com', resy_auth_token: 'resy-token-123', tock_auth_token: 'tock-token',
+    });
+
+    const { rows } = await db.pool.query('SELECT resy_auth_token, tock_auth_token FROM booking_identities');
+    assert.ok(credentialVault.isEncrypted(rows[0].resy_auth_token));
+    assert.ok(credentialVault.isEncrypted(rows[0].tock_auth_token));
+
+    const identity = await identityManager.getIdentity(created.id);
+    assert.equal(identityManager.getPlatformCredentials(identity!, 'resy').authToken, 'resy-token-123');
+    assert.equal(credentialVault.mask(identity!).resy_auth_token, '***configured***');
+
+    // Re-submitting the masked edit form keeps the secret
+    await identityManager.updateIdentity(created.id, { name: 'Main 2', resy_auth_token: '***configured***', tock_auth_token: '' });
+    const updated = await identityManager.getIdentity(created.id);
+    assert.equal(identityManager.getPlatformCredentials(updated!, 'resy').authToken, 'resy-token-123');
+    assert.equal(identityManager.getPlatformCredentials(updated!, 'tock').authToken, 'tock-token');
+  });
+
+  test('rotation re-wraps every secret under the new master key', async () => {
+    const oldKey = newKey();
+    useKeys(oldKey);
+    const created = await identityManager.createIdentity({ name: 'Main', email: 'main@example.com', resy_auth_token: 'resy-token-123' });
+    await db.pool.query(`UPDATE booking_identities SET opentable_csrf_token = 'legacy-csrf' WHERE id = $1`, [created.id]);
+
+    useKeys(newKey(), [oldKey]);
+    assert.deepEqual(await credentialVault.reencryptAll(), { identities: 1, encrypted: 1, rewrapped: 1 });
+
+    const status = await credentialVault.getStatus();
+    assert.deepEqual(status.values, { total: 2, plaintext: 0, byKey: { [status.currentKeyId!]: 2 } });
+
+    // The retired key is no longer needed
+    useKeys(process.env.CREDENTIAL_ENCRYPTION_KEY!);
+    const identity = await identityManager.getIdentity(created.id);
+    assert.equal(identityManager.getPlatformCredentials(identity!, 'resy').authToken, 'resy-token-123');
+    assert.equal(identityManager.getPlatformCredentials(identity!, 'opentable').csrfToken, 'legacy-csrf');
+  });
+
+  test('refuses to store secrets without a master key', async () => {
+    delete process.env.CREDENTIAL_ENCRYPTION_KEY;
+    credentialVault.reloadKeys();
+
+    await assert.rejects(
+      identityManager.createIdentity({ name: 'Main', email: 'main@example.com', resy_auth_token: 'resy-token-123' }),
+      /CREDENTIAL_ENCRYPTION_KEY/
+    );
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Learning drop timing from successful acquisitions
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const success = (attemptTime: string, targetDate: string) => ({
+  restaurantName: 'Carbone',
+  platform: 'resy',
+  targetDate,
+  attemptTime: new Date(attemptTime),
+  success: true,
+  timezone: 'America/New_York',
+});
+
+describeWithDatabase('dropPatternLearning.confirmPattern', async (db) => {
+  const { default: dropPatternLearning } = await import('../src/services/dropPatternLearning');
+
+  beforeEach(() => db.truncate());
+
+  test('records timing in the restaurant timezone', async () => {
+    // 15:00 UTC is 10:00 in New York (EST)
+    await dropPatternLearning.confirmPattern(success('2026-11-05T15:00:00Z', '2026-12-05'));
+
+    const pattern = await dropPatternLearning.getPattern('Carbone', 'resy');
+    assert.equal(pattern?.days_in_advance, 30);
+    assert.equal(pattern?.drop_time, '10:00');
+    assert.equal(pattern?.drop_day_of_week, 4);
+    assert.equal(pattern?.confidence, 70);
+  });
+
+  test('locks timing after three confirmations', async () => {
+    for (let i = 0; i < 3; i++) {
+      await dropPatternLearning.confirmPattern(success('2026-11-05T15:00:00Z', '2026-12-05'));
+    }
+    // An outlier after the pattern is established doesn't move it
+    await dropPatternLearning.confirmPattern(success('2026-11-06T14:00:00Z', '2026-11-20'));
+
+    const pattern = await dropPatternLearning.getPattern('Carbone', 'resy');
+    assert.equal(pattern?.days_in_advance, 30);
+    assert.equal(pattern?.drop_time, '10:00');
+    assert.equal(pattern?.successful_acquisitions, 4);
+    assert.equal(pattern?.confidence, 100);
+  });
+});
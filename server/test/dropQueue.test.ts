@@ -0,0 +1,199 @@
+/**
+ * Durable drop queue: claims, lease recovery and manual triggers next
+ * to the drop-time job
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+// The next whole minute at least a minute out, as a UTC drop date/time
+const nextDrop = () => {
+  const at = new Date(Math.ceil((Date.now() + 60 * 1000) / 60000) * 60000);
+  return { at, date: at.toISOString().slice(0, 10), time: at.toISOString().slice(11, 16) };
+};
+
+describeWithDatabase('drop queue', async (db) => {
+  const { default: dropQueue } = await import('../src/sniper/dropQueue');
+  const { default: scheduler } = await import('../src/sniper/scheduler');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  const watch = (id: string, drop: { date: string; time: string }) =>
+    db.pool.query(`
+      INSERT INTO portfolio_items (id, restaurant_name, date, time, platform, status, next_drop_date, next_drop_time, drop_timezone)
+      VALUES ($1, 'Carbone', '2026-12-05', '19:00', 'Resy', 'WATCHING', $2, $3, 'UTC')
+    `, [id, drop.date, drop.time]);
+
+  const enqueueDrop = async (itemId: string, dropAt: Date) => (await dropQueue.enqueue({
+    portfolio_item_id: itemId,
+    restaurant_name: 'Carbone',
+    platform: 'resy',
+    drop_at: dropAt,
+  })).job;
+
+  // The worker holding the lease died a minute ago
+  const expireLease = (id: number) =>
+    db.pool.query(`UPDATE scheduled_drops SET lease_expires_at = NOW() - INTERVAL '1 minute' WHERE id = $1`, [id]);
+
+  beforeEach(() => db.truncate());
+
+  test('a job is claimed once; enqueuing the same drop again returns it', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+    const job = await enqueueDrop('item-1', drop.at);
+
+    const claimed = await dropQueue.claim(job.id);
+    assert.equal(claimed?.lease_owner, dropQueue.WORKER_ID);
+    assert.equal(claimed?.attempts, 1);
+    assert.equal(await dropQueue.claim(job.id), null);
+
+    const again = await dropQueue.enqueue({ portfolio_item_id: 'item-1', restaurant_name: 'Carbone', platform: 'resy', drop_at: drop.at });
+    assert.equal(again.created, false);
+    assert.equal(again.job.id, job.id);
+    assert.equal(again.job.status, 'RUNNING');
+  });
+
+  test('a manual run in flight holds the drop-time job until it finishes', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+    const job = await enqueueDrop('item-1', drop.at);
+    const { job: manual } = await dropQueue.enqueue({
+      portfolio_item_id: 'item-1', restaurant_name: 'Carbone', platform: 'resy', drop_at: drop.at, trigger_type: 'manual',
+    });
+
+    assert.ok(await dropQueue.claim(manual.id, 'manual'));
+    assert.equal(await dropQueue.claim(job.id), null);
+    assert.equal((await dropQueue.findJob('item-1', drop.at))!.status, 'PENDING');
+
+    // The manual run's worker died: its lease no longer holds the drop
+    await expireLease(manual.id);
+    assert.equal((await dropQueue.claim(job.id))?.status, 'RUNNING');
+  });
+
+  test('racing claims for the drop-time and manual jobs: exactly one wins', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+    const job = await enqueueDrop('item-1', drop.at);
+    const { job: manual } = await dropQueue.enqueue({
+      portfolio_item_id: 'item-1', restaurant_name: 'Carbone', platform: 'resy', drop_at: drop.at, trigger_type: 'manual',
+    });
+
+    const claims = await Promise.all([dropQueue.claim(job.id), dropQueue.claim(manual.id, 'manual')]);
+    assert.equal(claims.filter(Boolean).length, 1);
+  });
+
+  test('a stale lease is resumed while the drop window is open and skipped after it', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+    await watch('item-2', drop);
+    const open = await enqueueDrop('item-1', drop.at);
+    const missed = await enqueueDrop('item-2', new Date(Date.now() - 10 * 60 * 1000));
+    for (const job of [open, missed]) {
+      await dropQueue.claim(job.id);
+      await expireLease(job.id);
+    }
+
+    const report = await dropQueue.recoverStaleJobs(5 * 60 * 1000);
+    assert.deepEqual(report, { resumed: 1, succeeded: 0, skipped: 1 });
+
+    const resumed = (await dropQueue.findJob('item-1', drop.at))!;
+    assert.equal(resumed.status, 'PENDING');
+    assert.equal(resumed.lease_owner, null);
+    assert.equal((await dropQueue.claim(open.id))?.attempts, 2);
+    assert.equal((await dropQueue.findJob('item-2', missed.drop_at))!.status, 'SKIPPED');
+
+    // A live lease is left alone
+    assert.deepEqual(await dropQueue.recoverStaleJobs(5 * 60 * 1000), { resumed: 0, succeeded: 0, skipped: 0 });
+  });
+
+  test('a stale job whose booking was already recorded is SUCCEEDED, not run again', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+    const job = await enqueueDrop('item-1', drop.at);
+    await dropQueue.claim(job.id);
+
+    // The worker booked, then died before completing the job
+    const transfer = await transferTracker.createTransfer({
+      portfolio_item_id: 'item-1',
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+      confirmation_number: 'RESY-123',
+    });
+    await expireLease(job.id);
+
+    assert.deepEqual(await dropQueue.recoverStaleJobs(5 * 60 * 1000), { resumed: 0, succeeded: 1, skipped: 0 });
+    const recovered = (await dropQueue.findJob('item-1', drop.at))!;
+    assert.equal(recovered.status, 'SUCCEEDED');
+    assert.deepEqual(recovered.result, { recovered: true, transferId: transfer.id, confirmationCode: 'RESY-123' });
+    assert.equal(await dropQueue.claim(job.id), null);
+  });
+
+  test('a manual attempt that fails at T-1 min leaves the drop-time job to fire', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+
+    // No identity can book Resy: fails straight away
+    const manual = await scheduler.triggerManualAcquisition('item-1');
+    assert.equal(manual.success, false);
+    assert.match(manual.error, /No available identity/);
+
+    const manualJob = (await dropQueue.findJob('item-1', drop.at, 'manual'))!;
+    assert.equal(manualJob.id, manual.jobId);
+    assert.equal(manualJob.status, 'FAILED');
+
+    // The scheduler's job for the drop is untouched and still claimable at drop time
+    const { job, created } = await dropQueue.enqueue({
+      portfolio_item_id: 'item-1',
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      drop_at: drop.at,
+    });
+    assert.equal(created, true);
+    assert.notEqual(job.id, manualJob.id);
+    const claimed = await dropQueue.claim(job.id);
+    assert.equal(claimed?.status, 'RUNNING');
+    assert.equal(claimed?.trigger_type, 'drop_time');
+
+    // Pressing it again while the drop-time run holds the drop is refused
+    const again = await scheduler.triggerManualAcquisition('item-1');
+    assert.match(again.error, /refusing to book twice/);
+    assert.equal(again.jobId, job.id);
+  });
+
+  test('SNIPE NOW on the T-1 alert leaves the armed drop job pending', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+
+    // The scheduler has armed the drop and sent the T-1 alert with the button
+    const { job } = await dropQueue.enqueue({
+      portfolio_item_id: 'item-1',
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      drop_at: drop.at,
+    });
+    assert.equal(await dropQueue.markWarningSent(job.id, 'warning_one_sent'), true);
+
+    const pressed = await scheduler.triggerManualAcquisition('item-1', { source: 'telegram', actor: '@ops' });
+    assert.equal(pressed.success, false);
+    assert.notEqual(pressed.jobId, job.id);
+
+    const armed = (await dropQueue.findJob('item-1', drop.at))!;
+    assert.equal(armed.status, 'PENDING');
+    assert.equal(armed.attempts, 0);
+    assert.ok(await dropQueue.claim(job.id));
+  });
+
+  test('a failed manual attempt can be retried before the drop', async () => {
+    const drop = nextDrop();
+    await watch('item-1', drop);
+
+    const first = await scheduler.triggerManualAcquisition('item-1');
+    const second = await scheduler.triggerManualAcquisition('item-1');
+    assert.equal(second.jobId, first.jobId);
+    assert.match(second.error, /No available identity/);
+    assert.equal((await dropQueue.findJob('item-1', drop.at, 'manual'))!.attempts, 2);
+  });
+});
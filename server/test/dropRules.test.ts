@@ -0,0 +1,109 @@
+/**
+ * Recurring drop rules - parsing, next-drop and target-range math
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  parseDropPattern,
+  validateDropRule,
+  getNextDrop,
+  getUpcomingDrops,
+  getDropForTargetDate,
+  pickTargetDate,
+  describeDropRule,
+  addMonths,
+  ScheduledDropRule,
+} from '../src/shared/dropRules';
+
+const daily = validateDropRule({ kind: 'daily', time: '10:00', timezone: 'America/New_York', daysInAdvance: 30 }) as ScheduledDropRule;
+const weekly = validateDropRule({ kind: 'weekly', time: '09:00', timezone: 'America/Los_Angeles', dayOfWeek: 1 }) as ScheduledDropRule;
+const monthly = validateDropRule({ kind: 'monthly', time: '12:00', timezone: 'America/New_York', dayOfMonth: 31 }) as ScheduledDropRule;
+
+describe('parseDropPattern', () => {
+  test('daily with lead time', () => {
+    assert.deepEqual(parseDropPattern('Daily at 10:00 AM EST, 30 days in advance'), {
+      kind: 'daily',
+      time: '10:00',
+      timezone: 'America/New_York',
+      daysInAdvance: 30,
+      description: 'Daily at 10:00 AM EST, 30 days in advance',
+    });
+  });
+
+  test('monthly on a given day', () => {
+    const rule = parseDropPattern('Monthly on 15th at 10:00 AM PST');
+    assert.equal(rule.kind, 'monthly');
+    assert.equal((rule as any).dayOfMonth, 15);
+    assert.equal((rule as any).timezone, 'America/Los_Angeles');
+  });
+
+  test('weekly on a weekday', () => {
+    const rule = parseDropPattern('Every Monday at 9 AM for the following month');
+    assert.equal(rule.kind, 'weekly');
+    assert.equal((rule as any).dayOfWeek, 1);
+    assert.equal((rule as any).time, '09:00');
+  });
+
+  test('unreadable text stays manual', () => {
+    assert.deepEqual(parseDropPattern('Email waitlist only'), { kind: 'manual', description: 'Email waitlist only' });
+    assert.equal(parseDropPattern('Monthly release').kind, 'manual');
+  });
+});
+
+describe('getNextDrop', () => {
+  test('daily: later today in the restaurant zone, across spring forward', () => {
+    const next = getNextDrop(daily, new Date('2025-03-09T06:00:00Z'))!;
+    assert.equal(next.dropDate, '2025-03-09');
+    assert.equal(next.instant.toISOString(), '2025-03-09T14:00:00.000Z');
+    assert.deepEqual(next.targetRange, { start: '2025-04-08', end: '2025-04-08' });
+  });
+
+  test('daily: strictly after the drop that just ran', () => {
+    const next = getNextDrop(daily, new Date('2025-03-09T14:00:00Z'))!;
+    assert.equal(next.dropDate, '2025-03-10');
+  });
+
+  test('weekly: next Monday, opening that week a month later', () => {
+    const next = getNextDrop(weekly, new Date('2025-06-04T12:00:00Z'))!;
+    assert.equal(next.dropDate, '2025-06-09');
+    assert.deepEqual(next.targetRange, { start: '2025-07-09', end: '2025-07-15' });
+  });
+
+  test('monthly: day 31 clamps to short months and opens the following month', () => {
+    const drops = getUpcomingDrops(monthly, 3, new Date('2025-01-15T00:00:00Z'));
+    assert.deepEqual(drops.map(d => d.dropDate), ['2025-01-31', '2025-02-28', '2025-03-31']);
+    assert.deepEqual(drops[1].targetRange, { start: '2025-03-01', end: '2025-03-31' });
+  });
+});
+
+describe('target dates', () => {
+  test('finds the drop that opens a reservation date', () => {
+    assert.equal(getDropForTargetDate(daily, '2025-01-15')!.dropDate, '2024-12-16');
+    assert.equal(getDropForTargetDate(monthly, '2025-03-10')!.dropDate, '2025-02-28');
+    assert.equal(getDropForTargetDate(weekly, '2025-07-12')!.dropDate, '2025-06-09');
+  });
+
+  test('keeps the preferred weekday inside a range', () => {
+    assert.equal(pickTargetDate({ start: '2025-07-09', end: '2025-07-15' }, 5), '2025-07-11');
+    assert.equal(pickTargetDate({ start: '2025-07-09', end: '2025-07-09' }, 5), '2025-07-09');
+  });
+
+  test('addMonths clamps the day', () => {
+    assert.equal(addMonths('2025-01-31', 1), '2025-02-28');
+    assert.equal(addMonths('2024-01-31', 1), '2024-02-29');
+  });
+});
+
+describe('validateDropRule', () => {
+  test('rejects bad input', () => {
+    assert.throws(() => validateDropRule({ kind: 'hourly', time: '10:00' }), /Unknown drop rule kind/);
+    assert.throws(() => validateDropRule({ kind: 'weekly', time: '10:00', dayOfWeek: 9 }), /dayOfWeek/);
+    assert.throws(() => validateDropRule({ kind: 'daily', time: '10:00', timezone: 'Nowhere/City' }), /Unknown timezone/);
+  });
+
+  test('describes rules for display', () => {
+    assert.equal(describeDropRule(daily), 'Daily at 10:00 AM (America/New_York), 30 days in advance');
+    assert.equal(describeDropRule(monthly), 'Monthly on the 31st at 12:00 PM (America/New_York), for the following month');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Drop Time Resolver - DST test matrix
+ *
+ * Every case is expressed as an absolute UTC instant so the results
+ * cannot depend on the machine's own timezone (see the TZ sweep below).
+ */
+
+import { test, describe } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import path from 'node:path';
+import {
+  resolveDropTime,
+  toZonedParts,
+  daysBetween,
+  normalizeDate,
+  normalizeTime,
+  isValidTimeZone,
+  DEFAULT_DROP_TIMEZONE,
+} from '../src/shared/dropTime';
+
+interface Case {
+  name: string;
+  zone: string;
+  date: string;
+  time: string;
+  expected: string;  // ISO instant
+  status: 'exact' | 'ambiguous' | 'nonexistent';
+  localTime?: string;
+}
+
+const MATRIX: Case[] = [
+  // New York (EST -5 / EDT -4)
+  { name: 'NY winter', zone: 'America/New_York', date: '2025-01-15', time: '09:00', expected: '2025-01-15T14:00:00.000Z', status: 'exact' },
+  { name: 'NY summer', zone: 'America/New_York', date: '2025-07-15', time: '09:00', expected: '2025-07-15T13:00:00.000Z', status: 'exact' },
+  { name: 'NY day before spring forward', zone: 'America/New_York', date: '2025-03-08', time: '10:00', expected: '2025-03-08T15:00:00.000Z', status: 'exact' },
+  { name: 'NY day of spring forward', zone: 'America/New_York', date: '2025-03-09', time: '10:00', expected: '2025-03-09T14:00:00.000Z', status: 'exact' },
+  { name: 'NY spring-forward gap', zone: 'America/New_York', date: '2025-03-09', time: '02:30', expected: '2025-03-09T07:30:00.000Z', status: 'nonexistent', localTime: '03:30:00' },
+  { name: 'NY fall-back overlap', zone: 'America/New_York', date: '2025-11-02', time: '01:30', expected: '2025-11-02T05:30:00.000Z', status: 'ambiguous', localTime: '01:30:00' },
+  { name: 'NY midnight after fall back', zone: 'America/New_York', date: '2025-11-03', time: '00:00', expected: '2025-11-03T05:00:00.000Z', status: 'exact' },
+
+  // Los Angeles / Chicago
+  { name: 'LA summer', zone: 'America/Los_Angeles', date: '2025-06-01', time: '10:00', expected: '2025-06-01T17:00:00.000Z', status: 'exact' },
+  { name: 'LA spring-forward gap', zone: 'America/Los_Angeles', date: '2025-03-09', time: '02:00', expected: '2025-03-09T10:00:00.000Z', status: 'nonexistent', localTime: '03:00:00' },
+  { name: 'Chicago winter', zone: 'America/Chicago', date: '2025-12-01', time: '12:00', expected: '2025-12-01T18:00:00.000Z', status: 'exact' },
+
+  // London (GMT 0 / BST +1)
+  { name: 'London winter', zone: 'Europe/London', date: '2025-01-10', time: '00:00', expected: '2025-01-10T00:00:00.000Z', status: 'exact' },
+  { name: 'London spring-forward gap', zone: 'Europe/London', date: '2025-03-30', time: '01:30', expected: '2025-03-30T01:30:00.000Z', status: 'nonexistent', localTime: '02:30:00' },
+  { name: 'London fall-back overlap', zone: 'Europe/London', date: '2025-10-26', time: '01:30', expected: '2025-10-26T00:30:00.000Z', status: 'ambiguous' },
+
+  // Southern hemisphere: Sydney (AEST +10 / AEDT +11)
+  { name: 'Sydney summer', zone: 'Australia/Sydney', date: '2025-01-20', time: '09:00', expected: '2025-01-19T22:00:00.000Z', status: 'exact' },
+  { name: 'Sydney fall-back overlap', zone: 'Australia/Sydney', date: '2025-04-06', time: '02:30', expected: '2025-04-05T15:30:00.000Z', status: 'ambiguous' },
+  { name: 'Sydney spring-forward gap', zone: 'Australia/Sydney', date: '2025-10-05', time: '02:30', expected: '2025-10-04T16:30:00.000Z', status: 'nonexistent', localTime: '03:30:00' },
+
+  // No DST / fractional offsets
+  { name: 'Tokyo', zone: 'Asia/Tokyo', date: '2025-03-09', time: '02:30', expected: '2025-03-08T17:30:00.000Z', status: 'exact' },
+  { name: 'Phoenix on NY spring-forward day', zone: 'America/Phoenix', date: '2025-03-09', time: '02:30', expected: '2025-03-09T09:30:00.000Z', status: 'exact' },
+  { name: 'Kolkata +5:30', zone: 'Asia/Kolkata', date: '2025-05-01', time: '10:00', expected: '2025-05-01T04:30:00.000Z', status: 'exact' },
+];
+
+describe('resolveDropTime', () => {
+  for (const c of MATRIX) {
+    test(`${c.name}: ${c.date} ${c.time} ${c.zone}`, () => {
+      const result = resolveDropTime(c.date, c.time, c.zone);
+      assert.equal(result.instant.toISOString(), c.expected);
+      assert.equal(result.status, c.status);
+      if (c.localTime) {
+        assert.equal(result.localTime, c.localTime);
+      }
+    });
+  }
+
+  test('defaults to New York when no zone is given', () => {
+    assert.equal(DEFAULT_DROP_TIMEZONE, 'America/New_York');
+    assert.equal(resolveDropTime('2025-07-15', '09:00').instant.toISOString(), '2025-07-15T13:00:00.000Z');
+  });
+
+  test('accepts HH:MM:SS and DATE-column inputs', () => {
+    const result = resolveDropTime('2025-07-15T00:00:00.000Z', '09:00:30', 'America/New_York');
+    assert.equal(result.instant.toISOString(), '2025-07-15T13:00:30.000Z');
+  });
+
+  test('rejects unknown timezones', () => {
+    assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+    assert.throws(() => resolveDropTime('2025-07-15', '09:00', 'Mars/Olympus_Mons'), /Unknown timezone/);
+  });
+
+  test('rejects malformed dates and times', () => {
+    assert.throws(() => normalizeDate('07/15/2025'), /Invalid drop date/);
+    assert.throws(() => normalizeTime('25:00'), /Invalid drop time/);
+    assert.equal(normalizeTime('9:05'), '09:05:00');
+  });
+});
+
+describe('toZonedParts', () => {
+  test('reads wall clock in the restaurant zone', () => {
+    // 2025-03-10T03:30Z is still Sunday 23:30 in New York
+    const parts = toZonedParts(new Date('2025-03-10T03:30:00Z'), 'America/New_York');
+    assert.deepEqual(parts, { date: '2025-03-09', time: '23:30:00', dayOfWeek: 0 });
+  });
+
+  test('round-trips the resolver across the NY overlap', () => {
+    const { instant } = resolveDropTime('2025-11-02', '01:30', 'America/New_York');
+    assert.equal(toZonedParts(instant, 'America/New_York').time, '01:30:00');
+  });
+});
+
+describe('daysBetween', () => {
+  test('counts calendar days across DST transitions', () => {
+    assert.equal(daysBetween('2025-03-01', '2025-03-22'), 21);
+    assert.equal(daysBetween('2025-10-20', '2025-11-10'), 21);
+    assert.equal(daysBetween('2025-03-22', '2025-03-01'), -21);
+  });
+});
+
+describe('host timezone independence', () => {
+  test('same instants under TZ=UTC, Pacific/Kiritimati and America/Los_Angeles', () => {
+    const script = `
+      const { resolveDropTime } = require(${JSON.stringify(path.resolve(__dirname, '../src/shared/dropTime'))});
+      const out = ${JSON.stringify(MATRIX.map((c) => [c.date, c.time, c.zone]))}
+        .map(([d, t, z]) => resolveDropTime(d, t, z).instant.toISOString());
+      process.stdout.write(JSON.stringify(out));
+    `;
+    const expected = MATRIX.map((c) => c.expected);
+    for (const tz of ['UTC', 'Pacific/Kiritimati', 'America/Los_Angeles']) {
+      const stdout = execFileSync(process.execPath, ['-r', 'ts-node/register/transpile-only', '-e', script], {
+        cwd: path.resolve(__dirname, '..'),
+        env: { ...process.env, TZ: tz },
+      }).toString();
+      assert.deepEqual(JSON.parse(stdout), expected, `TZ=${tz}`);
+    }
+  });
+});
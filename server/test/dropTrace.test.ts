@@ -0,0 +1,107 @@
+/**
+ * Drop post-mortems: traced executions against the simulator, and verdicts
+ */
+
+import './helpers/simulatorEnv';
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+import type { DropTrace, TraceEvent } from '../src/services/dropTrace';
+
+const DATE = '2026-12-05';
+
+// Timing, not request budgets (platformGovernor.test.ts)
+process.env.RESY_MAX_RPS = '1000';
+process.env.RESY_ACCOUNT_MAX_RPS = '1000';
+
+/** A finished trace with hand-written slot polls, and failed book calls if any */
+const syntheticTrace = (polls: { sinceDropMs: number; slotsSeen: number }[], bookCalls = 0): DropTrace => ({
+  restaurantName: 'Carbone',
+  platform: 'resy',
+  dropAt: new Date(),
+  startedAt: new Date(),
+  truncated: 0,
+  events: [
+    ...polls.map((p): TraceEvent => ({ type: 'slots', at: new Date().toISOString(), ...p })),
+    ...Array.from({ length: bookCalls }, (): TraceEvent => ({
+      type: 'book', at: new Date().toISOString(), sinceDropMs: 400, success: false,
+    })),
+  ],
+});
+
+describeWithDatabase('drop traces', async (db) => {
+  const { default: resyClient } = await import('../src/services/resyApi');
+  const { default: acquisitionEngine } = await import('../src/services/acquisitionEngine');
+  const { default: dropTrace } = await import('../src/services/dropTrace');
+
+  const simulator = new PlatformSimulator();
+
+  before(async () => {
+    await simulator.start();
+    resyClient.setBaseUrl(simulator.platformUrl('resy'));
+  });
+
+  after(() => simulator.stop());
+
+  beforeEach(() => db.truncate());
+
+  test('verdicts tell a late release from a lost race', () => {
+    assert.equal(dropTrace.classify(syntheticTrace([]), false), 'error');
+    assert.equal(dropTrace.classify(syntheticTrace([{ sinceDropMs: 100, slotsSeen: 0 }]), false), 'no_slots');
+    assert.equal(dropTrace.classify(syntheticTrace([
+      { sinceDropMs: 100, slotsSeen: 0 },
+      { sinceDropMs: 9000, slotsSeen: 2 },
+    ]), false), 'slots_late');
+    assert.equal(dropTrace.classify(syntheticTrace([{ sinceDropMs: 300, slotsSeen: 3 }], 1), false), 'taken');
+    assert.equal(dropTrace.classify(syntheticTrace([{ sinceDropMs: 300, slotsSeen: 3 }]), false), 'no_attempt');
+    assert.equal(dropTrace.classify(syntheticTrace([{ sinceDropMs: 300, slotsSeen: 3 }]), true), 'booked');
+  });
+
+  test('nothing is recorded outside a traced drop', () => {
+    dropTrace.record('attempt', { attempt: 1 });
+    assert.equal(dropTrace.isTracing(), false);
+  });
+
+  test('a drop execution stores its timeline and verdict', async () => {
+    simulator.loadScenario(buildScenario('drop-at-300ms'));
+
+    const result = await acquisitionEngine.executeAtDropTime({
+      platform: 'resy',
+      restaurantName: SIM_VENUES.resy.name,
+      resyVenueId: Number(SIM_VENUES.resy.venueId),
+      date: DATE,
+      time: '19:00',
+      partySize: 2,
+      bookingMode: 'concierge',
+      clientInfo: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', phone: '5551234567' },
+    }, {
+      portfolioItemId: 'sim-item',
+      dropDate: '2026-11-05',
+      dropTime: '10:00',
+      targetDate: DATE,
+      timezone: 'America/New_York',
+    });
+
+    assert.equal(result.success, true, result.error);
+    assert.ok(result.traceId);
+
+    const trace = (await dropTrace.getTrace(result.traceId!))!;
+    assert.equal(trace.outcome, 'booked');
+    assert.equal(trace.portfolio_item_id, 'sim-item');
+    assert.equal(trace.summary.attempts, result.attempts);
+    assert.ok(trace.summary.polls > 1, 'polled until the slots appeared');
+
+    const types = new Set(trace.events!.map(e => e.type));
+    for (const type of ['http', 'slots', 'slot_chosen', 'book', 'attempt']) {
+      assert.ok(types.has(type as TraceEvent['type']), `missing ${type} events`);
+    }
+    const http = trace.events!.find(e => e.type === 'http')!;
+    assert.ok(!http.path!.includes('?'), 'query strings are dropped');
+
+    const listed = await dropTrace.getTraces({ portfolioItemId: 'sim-item' });
+    assert.deepEqual(listed.map(t => t.id), [result.traceId]);
+    assert.equal(listed[0].events, undefined);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Event stream: replay after a reconnect, per-role filtering, and
+ * reservation status changes published once their transaction commits
+ */
+
+import { test, describe, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import type { ServerEvent } from '../src/shared/serverEvents';
+
+process.env.EVENT_STREAM_BUFFER = '3';
+
+const scheduler = (watchedCount: number) => ({ running: true, watchedCount, nextDrop: null });
+
+describe('eventStream', async () => {
+  const { default: eventStream } = await import('../src/services/eventStream');
+
+  test('replays what a reconnecting client missed', () => {
+    const first = eventStream.publish('scheduler.state', scheduler(1));
+    const second = eventStream.publish('scheduler.state', scheduler(2));
+
+    const replay = eventStream.since(first.id);
+    assert.equal(replay.complete, true);
+    assert.deepEqual(replay.events.map(e => e.id), [second.id]);
+    assert.deepEqual(eventStream.since(second.id), { events: [], complete: true });
+  });
+
+  test('asks for a resync once missed events left the buffer', () => {
+    const first = eventStream.publish('scheduler.state', scheduler(1));
+    for (let i = 0; i < 4; i++) eventStream.publish('scheduler.state', scheduler(i));
+
+    assert.equal(eventStream.since(first.id).complete, false);
+    assert.equal(eventStream.since(first.id + 1).complete, true);
+    // An id from before a restart, or garbage
+    assert.equal(eventStream.since(1).complete, false);
+    assert.equal(eventStream.since(NaN).complete, false);
+  });
+
+  test('credential failures only reach roles that see identities', () => {
+    const event = eventStream.publish('credential.failed', {
+      identityId: 1, platform: 'resy', message: 'Unauthorized', source: 'booking',
+    });
+    assert.equal(eventStream.canReceive('analyst', event), true);
+    assert.equal(eventStream.canReceive('concierge', event), false);
+    assert.equal(eventStream.canReceive('concierge', eventStream.publish('scheduler.state', scheduler(0))), true);
+  });
+});
+
+describeWithDatabase('eventStream (reservation status)', async (db) => {
+  const { default: eventStream } = await import('../src/services/eventStream');
+  const { default: reservationLifecycle } = await import('../src/services/reservationLifecycle');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+  const { InvalidTransitionError } = await import('../src/shared/reservationLifecycle');
+
+  let received: ServerEvent[];
+  beforeEach(async () => {
+    await db.truncate();
+    received = [];
+  });
+
+  const listen = () => eventStream.subscribe(event => received.push(event));
+
+  test('publishes committed changes only', async () => {
+    await db.pool.query(`
+      INSERT INTO portfolio_items (id, restaurant_name, date, time, status)
+      VALUES ('item-1', 'Carbone', '2026-12-05', '19:30', 'WATCHING')
+    `);
+    const unsubscribe = listen();
+    try {
+      await assert.rejects(() => reservationLifecycle.transition('item-1', 'SOLD'), InvalidTransitionError);
+      assert.equal(received.length, 0);
+
+      await transferTracker.createTransfer({
+        portfolio_item_id: 'item-1',
+        restaurant_name: 'Carbone',
+        platform: 'resy',
+        reservation_date: '2026-12-05',
+        reservation_time: '19:30',
+        party_size: 2,
+      });
+    } finally {
+      unsubscribe();
+    }
+
+    assert.deepEqual(received.map(e => e.type === 'reservation.status' && [e.data.portfolioItemId, e.data.from, e.data.to]), [
+      ['item-1', 'WATCHING', 'ACQUIRED'],
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Fulfillment worker: client booking requests worked against the platform simulator
+ */
+
+import './helpers/simulatorEnv';
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+
+const clientNamed = (first_name: string, vip_level: 'standard' | 'vip' | 'platinum') => ({
+  first_name,
+  last_name: 'Client',
+  email: `${first_name.toLowerCase()}@example.com`,
+  phone: '5551234567',
+  vip_level,
+});
+
+describeWithDatabase('fulfillment worker', async (db) => {
+  const { default: resyClient } = await import('../src/services/resyApi');
+  const { default: clientManager } = await import('../src/services/clientManager');
+  const { default: fulfillmentWorker } = await import('../src/services/fulfillmentWorker');
+  const { default: auditLog } = await import('../src/services/auditLog');
+
+  const simulator = new PlatformSimulator();
+
+  const resyRequest = (clientId: number, overrides: Record<string, any> = {}) =>
+    clientManager.createBookingRequest({
+      client_id: clientId,
+      restaurant_name: SIM_VENUES.resy.name,
+      platform: 'resy',
+      venue_id: SIM_VENUES.resy.venueId,
+      desired_date: daysFromNow(30),
+      desired_time: '19:00',
+      party_size: 2,
+      ...overrides,
+    });
+
+  const requestById = async (id: number) =>
+    (await db.pool.query('SELECT * FROM client_booking_requests WHERE id = $1', [id])).rows[0];
+
+  before(async () => {
+    await simulator.start();
+    resyClient.setBaseUrl(simulator.platformUrl('resy'));
+  });
+
+  after(() => simulator.stop());
+
+  beforeEach(async () => {
+    await db.truncate();
+    simulator.loadScenario(buildScenario('happy-path'));
+    process.env.FULFILLMENT_BATCH_SIZE = '1';
+    delete process.env.FULFILLMENT_MAX_ATTEMPTS;
+  });
+
+  test('platinum requests are booked first, under the client name, with the transfer linked', async () => {
+    const standard = await clientManager.createClient(clientNamed('Stan', 'standard'));
+    const platinum = await clientManager.createClient(clientNamed('Plat', 'platinum'));
+    const first = await resyRequest(standard.id);
+    const second = await resyRequest(platinum.id, { occasion: 'Anniversary' });
+
+    const result = await fulfillmentWorker.runOnce();
+    assert.deepEqual({ claimed: result.claimed, acquired: result.acquired }, { claimed: 1, acquired: 1 });
+
+    const booked = await requestById(second.id);
+    assert.equal(booked.status, 'acquired');
+    assert.ok(booked.transfer_id);
+    assert.ok(booked.acquired_at);
+    assert.equal((await requestById(first.id)).status, 'pending');
+
+    const [reservation] = simulator.getReservations('resy');
+    assert.equal(reservation.guest.firstName, 'Plat');
+    assert.equal(reservation.onBehalfOf, true);
+
+    const transfer = await db.pool.query('SELECT * FROM transfers WHERE id = $1', [booked.transfer_id]);
+    assert.equal(transfer.rows[0].client_id, platinum.id);
+    assert.equal(transfer.rows[0].booking_type, 'concierge');
+
+    const [event] = await auditLog.query({ action: 'booking_request.acquired' });
+    assert.equal(event.actor, 'fulfillment');
+    assert.equal(event.client_id, platinum.id);
+  });
+
+  test('a miss goes back to the queue with the reason, and fails once attempts run out', async () => {
+    simulator.loadScenario(buildScenario('sold-out'));
+    const client = await clientManager.createClient(clientNamed('Ada', 'vip'));
+    const request = await resyRequest(client.id);
+
+    const result = await fulfillmentWorker.runOnce();
+    assert.equal(result.requeued, 1);
+
+    const retry = await requestById(request.id);
+    assert.equal(retry.status, 'pending');
+    assert.equal(retry.attempts, 1);
+    assert.ok(retry.failure_reason);
+
+    // Not due again until FULFILLMENT_RETRY_MINUTES have passed
+    assert.equal((await fulfillmentWorker.runOnce()).claimed, 0);
+
+    await db.pool.query(`UPDATE client_booking_requests SET last_attempt_at = NOW() - INTERVAL '1 hour'`);
+    process.env.FULFILLMENT_MAX_ATTEMPTS = '2';
+    assert.equal((await fulfillmentWorker.runOnce()).failed, 1);
+
+    const failed = await requestById(request.id);
+    assert.equal(failed.status, 'failed');
+    assert.match(failed.failure_reason, /Gave up after 2 attempts/);
+  });
+
+  test('a booking whose acquired write fails is retried, never booked again', async () => {
+    const client = await clientManager.createClient(clientNamed('Ada', 'vip'));
+    const request = await resyRequest(client.id);
+
+    // The database refuses the acquired write
+    await db.pool.query(`
+      CREATE OR REPLACE FUNCTION refuse_acquired() RETURNS trigger AS $$
+      BEGIN RAISE EXCEPTION 'disk full'; END $$ LANGUAGE plpgsql;
+      CREATE TRIGGER refuse_acquired BEFORE UPDATE ON client_booking_requests
+        FOR EACH ROW WHEN (NEW.status = 'acquired') EXECUTE FUNCTION refuse_acquired();
+    `);
+    try {
+      const result = await fulfillmentWorker.runOnce();
+      assert.deepEqual(
+        { acquired: result.acquired, unsettled: result.unsettled, requeued: result.requeued },
+        { acquired: 0, unsettled: 1, requeued: 0 }
+      );
+      assert.equal((await requestById(request.id)).status, 'searching');
+      const [event] = await auditLog.query({ action: 'booking_request.settle_failed' });
+      assert.match(event.error!, /disk full/);
+    } finally {
+      await db.pool.query(`
+        DROP TRIGGER IF EXISTS refuse_acquired ON client_booking_requests;
+        DROP FUNCTION IF EXISTS refuse_acquired();
+      `);
+    }
+
+    // Long enough that stale recovery would requeue it
+    await db.pool.query(`UPDATE client_booking_requests SET last_attempt_at = NOW() - INTERVAL '1 hour'`);
+    const next = await fulfillmentWorker.runOnce();
+    assert.equal(next.claimed, 0);
+
+    const settled = await requestById(request.id);
+    assert.equal(settled.status, 'acquired');
+    assert.ok(settled.transfer_id);
+    assert.equal(simulator.getReservations('resy').length, 1);
+  });
+
+  test('stale requests expire without being attempted', async () => {
+    const client = await clientManager.createClient(clientNamed('Ada', 'standard'));
+    const lapsed = await resyRequest(client.id, { expires_at: new Date(Date.now() - 60000).toISOString() });
+    const past = await resyRequest(client.id, { desired_date: daysFromNow(-1) });
+
+    const result = await fulfillmentWorker.runOnce();
+    assert.equal(result.expired, 2);
+    assert.equal(result.claimed, 0);
+    assert.equal(simulator.getRequestLog('resy').length, 0);
+
+    assert.match((await requestById(lapsed.id)).failure_reason, /Expired/);
+    assert.match((await requestById(past.id)).failure_reason, /date passed/);
+    assert.equal((await auditLog.query({ action: 'booking_request.expired' })).length, 2);
+  });
+
+  test('requests without a venue id use the ids on a matching portfolio item', async () => {
+    const client = await clientManager.createClient(clientNamed('Ada', 'standard'));
+    const request = await resyRequest(client.id, { platform: undefined, venue_id: undefined });
+
+    assert.equal((await fulfillmentWorker.runOnce()).failed, 1, 'unknown restaurant fails fast');
+    assert.match((await requestById(request.id)).failure_reason, /No platform venue ids/);
+
+    await db.pool.query(
+      `INSERT INTO portfolio_items (id, restaurant_name, date, time, resy_venue_id)
+       VALUES ('item-1', $1, $2, '19:00', $3)`,
+      [SIM_VENUES.resy.name, daysFromNow(30), SIM_VENUES.resy.venueId]
+    );
+    const retry = await resyRequest(client.id, { platform: undefined, venue_id: undefined });
+
+    assert.equal((await fulfillmentWorker.runOnce()).acquired, 1);
+    assert.equal((await requestById(retry.id)).status, 'acquired');
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Credentials for the booking clients under test. Must be imported before
+ * any service module: the clients read their env once at load time, and
+ * dotenv never overrides variables that are already set.
+ */
+
+Object.assign(process.env, {
+  NEON_DATABASE_URL: '',  // Keep the pool null - these tests never touch Postgres
+  RESY_AUTH_TOKEN: 'sim-resy-token',
+  RESY_PAYMENT_ID: '424242',
+  OPENTABLE_CSRF_TOKEN: 'sim-csrf-token',
+  OPENTABLE_FIRST_NAME: 'Sim',
+  OPENTABLE_LAST_NAME: 'Operator',
+  OPENTABLE_EMAIL: 'operator@sim.test',
+  OPENTABLE_PHONE: '5550000000',
+  SEVENROOMS_FIRST_NAME: 'Sim',
+  SEVENROOMS_LAST_NAME: 'Operator',
+  SEVENROOMS_EMAIL: 'operator@sim.test',
+  SEVENROOMS_PHONE: '5550000000',
+  TOCK_AUTH_TOKEN: 'sim-tock-token',
+  TOCK_EMAIL: 'operator@sim.test',
+});
@@ -0,0 +1,158 @@
+/**
+ * Built-in job scheduler: schedules, due runs, failure tracking and the /api/jobs routes
+ */
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import axios, { AxiosInstance } from 'axios';
+import { describeWithDatabase } from './helpers/testDb';
+
+process.env.JOBS_TIMEZONE = 'America/New_York';
+process.env.JOB_VALIDATE_IDENTITIES_SCHEDULE = 'Daily at 4:30 AM';
+
+describeWithDatabase('job scheduler', async (db) => {
+  const { default: app } = await import('../src/app');
+  const { default: authService } = await import('../src/services/authService');
+  const { default: auditLog } = await import('../src/services/auditLog');
+  const { default: jobScheduler, parseJobSchedule } = await import('../src/services/jobScheduler');
+
+  let server: Server;
+  let api: AxiosInstance;
+
+  // A job whose outcome each test controls
+  let calls = 0;
+  let failWith: string | null = null;
+  jobScheduler.register({
+    name: 'test-job',
+    description: 'Counts its runs',
+    schedule: 'Daily at 9:00 PM',
+    run: async () => {
+      calls++;
+      if (failWith) throw new Error(failWith);
+      return { summary: `run ${calls}` };
+    },
+  });
+
+  const makeDue = (name: string) =>
+    db.pool.query(`UPDATE scheduled_jobs SET next_run_at = NOW() - INTERVAL '1 minute' WHERE name = $1`, [name]);
+
+  const jobNamed = async (name: string) => (await jobScheduler.getJob(name))!;
+
+  before(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    api = axios.create({ baseURL: `http://127.0.0.1:${port}/api`, validateStatus: () => true });
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(async () => {
+    await db.truncate();
+    calls = 0;
+    failWith = null;
+    await authService.createUser({ email: 'ops@example.com', password: 'correct-horse', role: 'operator' });
+    const session = await authService.login('ops@example.com', 'correct-horse');
+    api.defaults.headers.common.Authorization = `Bearer ${session!.token}`;
+  });
+
+  test('schedules read like drop rules and must say when', () => {
+    assert.deepEqual(parseJobSchedule('Every Monday at 8:00 AM'), {
+      kind: 'weekly', time: '08:00', timezone: 'America/New_York', dayOfWeek: 1, monthsAhead: 1,
+    });
+    assert.equal(parseJobSchedule('Monthly on 1st at 12:05 AM PT').timezone, 'America/Los_Angeles');
+    assert.throws(() => parseJobSchedule('whenever'), /Can't read schedule/);
+  });
+
+  test('built-in jobs are listed with their next run, honoring env overrides', async () => {
+    const res = await api.get('/jobs');
+    assert.equal(res.status, 200);
+
+    const names = res.data.jobs.map((j: any) => j.name);
+    for (const name of ['daily-summary', 'weekly-pnl', 'reset-monthly-counts', 'validate-identities', 'reconcile-reservations', 'retrain-price-model', 'price-update-new-york-city']) {
+      assert.ok(names.includes(name), `${name} missing`);
+    }
+
+    const reset = res.data.jobs.find((j: any) => j.name === 'reset-monthly-counts');
+    assert.equal(reset.scheduleText, 'Monthly on the 1st at 12:05 AM (America/New_York)');
+    assert.equal(new Date(reset.nextRunAt).getUTCDate(), 1);
+
+    const validate = res.data.jobs.find((j: any) => j.name === 'validate-identities');
+    assert.equal(validate.scheduleSource, 'env');
+    assert.equal(validate.schedule.time, '04:30');
+  });
+
+  test('a due job runs once per slot and moves to its next slot', async () => {
+    await jobScheduler.sync();
+    await makeDue('test-job');
+
+    await jobScheduler.tick();
+    await jobScheduler.tick();
+    assert.equal(calls, 1);
+
+    const job = await jobNamed('test-job');
+    assert.equal(job.lastStatus, 'success');
+    assert.deepEqual(job.lastResult, { summary: 'run 1' });
+    assert.ok(new Date(job.nextRunAt!).getTime() > Date.now());
+
+    const [run] = await jobScheduler.getRuns('test-job');
+    assert.equal(run.trigger_type, 'schedule');
+    assert.equal(run.status, 'success');
+  });
+
+  test('failures are recorded and counted until the job succeeds again', async () => {
+    await jobScheduler.sync();
+    failWith = 'AppointmentTrader timed out';
+
+    for (let i = 0; i < 2; i++) {
+      await makeDue('test-job');
+      await jobScheduler.tick();
+    }
+    let job = await jobNamed('test-job');
+    assert.equal(job.lastStatus, 'failed');
+    assert.equal(job.lastError, 'AppointmentTrader timed out');
+    assert.equal(job.consecutiveFailures, 2);
+
+    const failures = await auditLog.query({ action: 'job.failed' });
+    assert.equal(failures.length, 2);
+    assert.equal(failures[0].source, 'scheduler');
+
+    failWith = null;
+    await makeDue('test-job');
+    await jobScheduler.tick();
+    job = await jobNamed('test-job');
+    assert.equal(job.lastStatus, 'success');
+    assert.equal(job.consecutiveFailures, 0);
+  });
+
+  test('operators can run a job now and change its schedule; read-only users cannot', async () => {
+    const run = await api.post('/jobs/test-job/run');
+    assert.equal(run.status, 200);
+    assert.equal(run.data.run.trigger_type, 'manual');
+    assert.equal(run.data.run.triggered_by, 'ops@example.com');
+    assert.equal(calls, 1);
+
+    const updated = await api.put('/jobs/test-job', { schedule: 'Every Friday at 5:30 PM' });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.data.job.scheduleSource, 'override');
+    assert.equal(updated.data.job.scheduleText, 'Every Friday at 5:30 PM (America/New_York)');
+
+    assert.equal((await api.put('/jobs/test-job', { schedule: 'sometime soon' })).status, 400);
+    assert.equal((await api.post('/jobs/no-such-job/run')).status, 404);
+
+    const disabled = await api.put('/jobs/test-job', { enabled: false });
+    assert.equal(disabled.data.job.nextRunAt, null);
+    await makeDue('test-job');
+    await jobScheduler.tick();
+    assert.equal(calls, 1, 'disabled jobs skip their slot');
+
+    await authService.createUser({ email: 'viewer@example.com', password: 'correct-horse', role: 'read_only' });
+    const session = await authService.login('viewer@example.com', 'correct-horse');
+    const headers = { Authorization: `Bearer ${session!.token}` };
+    assert.equal((await api.get('/jobs', { headers })).status, 200);
+    assert.equal((await api.post('/jobs/test-job/run', {}, { headers })).status, 403);
+  });
+});
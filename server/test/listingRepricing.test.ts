@@ -0,0 +1,159 @@
+/**
+ * Price decay for unsold listings: scheduled drops under the market,
+ * floored at cost basis, approved/rejected/reverted with a price history
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const OPERATOR = { source: 'dashboard' as const, actor: 'ops@example.com' };
+
+// Reservation times are local wall-clock times
+const at = (local: string) => new Date(local);
+
+describeWithDatabase('listing repricing', async (db) => {
+  const { default: listingRepricing, dueStep, decayPrice } = await import('../src/services/listingRepricing');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  const listed = async (price: number, portfolioItemId?: string) => {
+    const transfer = await transferTracker.createTransfer({
+      portfolio_item_id: portfolioItemId,
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    await transferTracker.markAsListed(transfer.id, { listing_price: price }, OPERATOR);
+    return transfer.id;
+  };
+
+  const priceOf = async (transferId: number) => Number((await transferTracker.getTransfer(transferId))!.listing_price);
+
+  beforeEach(async () => {
+    await db.truncate();
+    delete process.env.REPRICING_STEPS;
+    delete process.env.REPRICING_AUTO_APPROVE;
+  });
+
+  test('the latest step that has fired is due once; drops stop at the market and the floor', () => {
+    const steps = [{ hoursBefore: 72, percentOff: 10 }, { hoursBefore: 24, percentOff: 25 }];
+    assert.equal(dueStep(steps, 100, new Set()), null);
+    assert.equal(dueStep(steps, 50, new Set())?.hoursBefore, 72);
+    assert.equal(dueStep(steps, 10, new Set([72]))?.hoursBefore, 24);
+    assert.equal(dueStep(steps, 10, new Set([24])), null);
+
+    const base = { step: steps[0], hoursLeft: 50, basePrice: 400, currentPrice: 400, market: null, floor: 5, floorSource: 'minimum' as const, undercut: 5 };
+    assert.equal(decayPrice(base)!.price, 360);
+    const market = decayPrice({ ...base, market: { cheapest: 352, average: 380, activeListings: 2 } })!;
+    assert.equal(market.price, 345);
+    assert.equal(market.details.limitedBy, 'market');
+    assert.equal(decayPrice({ ...base, floor: 380, floorSource: 'cost_basis' })!.details.limitedBy, 'floor');
+    // Already at or below where the step would go
+    assert.equal(decayPrice({ ...base, currentPrice: 360 }), null);
+  });
+
+  test('proposes each step, applies it on approval and reverts it', async () => {
+    await db.pool.query(`
+      INSERT INTO portfolio_items (id, restaurant_name, date, time, platform, status, cost_basis)
+      VALUES ('item-1', 'Carbone', '2026-12-05', '19:00', 'Resy', 'WATCHING', 320)
+    `);
+    await db.pool.query(`
+      INSERT INTO competitor_listings (seller_name, restaurant_name, listing_price, status)
+      VALUES ('rival', 'Carbone', 350, 'active')
+    `);
+    const id = await listed(400, 'item-1');
+
+    // 55h to go: 10% off is 360, but a rival is at 350
+    const first = await listingRepricing.runOnce(at('2026-12-03T12:00:00'));
+    assert.deepEqual(first, { proposed: 1, applied: 0, expired: 0 });
+    const [proposal] = await listingRepricing.getPending();
+    assert.equal(proposal.newPrice, 345);
+    assert.equal(proposal.details!.limitedBy, 'market');
+    assert.equal(await priceOf(id), 400);
+
+    // Not proposed again on the next pass
+    assert.equal((await listingRepricing.runOnce(at('2026-12-03T13:00:00'))).proposed, 0);
+
+    const approved = await listingRepricing.approve(proposal.id, OPERATOR);
+    assert.equal(approved.change!.status, 'applied');
+    assert.equal(await priceOf(id), 345);
+    const item = await db.pool.query(`SELECT list_price FROM portfolio_items WHERE id = 'item-1'`);
+    assert.equal(Number(item.rows[0].list_price), 345);
+    assert.equal((await listingRepricing.approve(proposal.id, OPERATOR)).code, 'not_pending');
+
+    // 19h to go: 25% off 400 is 300, below the 320 paid
+    await listingRepricing.runOnce(at('2026-12-05T00:00:00'));
+    const [second] = await listingRepricing.getPending();
+    assert.equal(second.newPrice, 320);
+    assert.equal(second.details!.floorSource, 'cost_basis');
+    await listingRepricing.approve(second.id, OPERATOR);
+
+    const reverted = await listingRepricing.revert(second.id, OPERATOR);
+    assert.equal(reverted.success, true);
+    assert.equal(await priceOf(id), 345);
+    assert.equal((await listingRepricing.revert(second.id, OPERATOR)).code, 'not_revertible');
+
+    const history = await listingRepricing.getHistory(id);
+    assert.deepEqual(history.map(c => [c.kind, c.status, c.oldPrice, c.newPrice]), [
+      ['listed', 'applied', null, 400],
+      ['decay', 'applied', 400, 345],
+      ['decay', 'reverted', 345, 320],
+      ['revert', 'applied', 320, 345],
+    ]);
+    assert.equal(history[3].revertsId, second.id);
+
+    const audited = await db.pool.query(`SELECT action FROM audit_events WHERE transfer_id = $1 ORDER BY id`, [id]);
+    assert.ok(audited.rows.map(r => r.action).includes('transfer.reprice_reverted'));
+  });
+
+  test('rejected and stale proposals leave the price alone; auto-approve applies straight away', async () => {
+    const id = await listed(200);
+
+    // 10h to go: only the latest step (25% off) is proposed
+    await listingRepricing.runOnce(at('2026-12-05T09:00:00'));
+    const [proposal] = await listingRepricing.getPending();
+    assert.equal(proposal.stepHours, 24);
+    assert.equal((await listingRepricing.reject(proposal.id, OPERATOR)).change!.status, 'rejected');
+    assert.equal((await listingRepricing.runOnce(at('2026-12-05T09:30:00'))).proposed, 0);
+    assert.equal(await priceOf(id), 200);
+
+    await listingRepricing.setRule(id, { steps: [{ hoursBefore: 6, percentOff: 50 }] }, OPERATOR);
+    await listingRepricing.runOnce(at('2026-12-05T14:00:00'));
+    const [stale] = await listingRepricing.getPending();
+    assert.equal(stale.newPrice, 100);
+
+    // The price moved after the proposal was made
+    await db.pool.query('UPDATE transfers SET listing_price = 180 WHERE id = $1', [id]);
+    const refused = await listingRepricing.approve(stale.id, OPERATOR);
+    assert.equal(refused.code, 'stale');
+    assert.equal(refused.change!.status, 'expired');
+    assert.equal(await priceOf(id), 180);
+
+    const rule = await listingRepricing.setRule(id, { steps: [{ hoursBefore: 2, percentOff: 60 }], autoApprove: true }, OPERATOR);
+    assert.equal(rule!.source, 'listing');
+    assert.deepEqual(await listingRepricing.runOnce(at('2026-12-05T18:00:00')), { proposed: 0, applied: 1, expired: 0 });
+    assert.equal(await priceOf(id), 80);
+
+    // A manual price change is history too
+    await transferTracker.markAsListed(id, { listing_price: 150 }, OPERATOR);
+    const last = (await listingRepricing.getHistory(id)).pop()!;
+    assert.deepEqual([last.kind, last.oldPrice, last.newPrice, last.requestedBy], ['manual', 80, 150, 'ops@example.com']);
+  });
+
+  test('rules are validated, and REPRICING_STEPS=off leaves listings alone', async () => {
+    const id = await listed(200);
+
+    await assert.rejects(
+      listingRepricing.setRule(id, { steps: [{ hoursBefore: 24, percentOff: 120 }] }, OPERATOR),
+      /percentOff must be between 0 and 100/
+    );
+    await assert.rejects(listingRepricing.setRule(id, { floorPrice: -1 }, OPERATOR), /floorPrice/);
+    assert.equal(await listingRepricing.setRule(999, { enabled: false }, OPERATOR), null);
+
+    process.env.REPRICING_STEPS = 'off';
+    assert.equal((await listingRepricing.getRule(id)).enabled, false);
+    assert.equal((await listingRepricing.runOnce(at('2026-12-05T09:00:00'))).proposed, 0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Versioned migrations: status, up/down and checksum verification
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+describeWithDatabase('migration runner', async (db) => {
+  const { default: migrationRunner, MigrationRunner, checksum } = await import('../src/migrations/runner');
+  const { default: MIGRATIONS } = await import('../src/migrations/index');
+
+  const latest = MIGRATIONS[MIGRATIONS.length - 1];
+
+  test('every migration is recorded as applied, and a second run is a no-op', async () => {
+    const statuses = await migrationRunner.status();
+    assert.deepEqual(statuses.map(s => s.version), MIGRATIONS.map(m => m.version));
+    assert.ok(statuses.every(s => s.state === 'applied'));
+
+    assert.deepEqual(await migrationRunner.up(), []);
+  });
+
+  test('down 1 reverts only the latest migration, up re-applies it', async () => {
+    const reverted = await migrationRunner.down(1);
+    assert.deepEqual(reverted.map(m => m.version), [latest.version]);
+
+    const statuses = await migrationRunner.status();
+    assert.equal(statuses.find(s => s.version === latest.version)?.state, 'pending');
+    assert.equal(statuses.filter(s => s.state === 'applied').length, MIGRATIONS.length - 1);
+
+    assert.deepEqual((await migrationRunner.up()).map(m => m.version), [latest.version]);
+  });
+
+  test('refuses to migrate when an applied migration was edited', async () => {
+    const edited = new MigrationRunner(MIGRATIONS.map(m =>
+      m.version === '002' ? { ...m, up: `${m.up}\n-- edited after release` } : m
+    ));
+
+    assert.equal((await edited.status()).find(s => s.version === '002')?.state, 'modified');
+    await assert.rejects(edited.up(), /002_market_data/);
+  });
+
+  test('001 keeps the checksum it was released with (schema.sql is its up)', () => {
+    const initial = MIGRATIONS.find(m => m.version === '001')!;
+    assert.equal(checksum(initial), '890506c1f813d95e0da8413f7c132e31b1373b70b1d239c70c65f60577b10cfc');
+  });
+
+  test('008 converts patterns recorded per portfolio item (migration 003 layout)', async () => {
+    await db.truncate();
+    await migrationRunner.down(MIGRATIONS.length - MIGRATIONS.findIndex(m => m.version === '008'));
+
+    await db.pool.query(`
+      INSERT INTO portfolio_items (id, restaurant_name, date, time, platform)
+      VALUES ('item-1', 'Carbone', '2026-12-05', '19:00', 'Resy'),
+             ('item-2', 'Carbone', '2026-12-12', '19:00', 'Resy')
+    `);
+    await db.pool.query(`
+      INSERT INTO confirmed_drop_patterns
+        (portfolio_item_id, restaurant_name, days_in_advance, drop_time, success_count, attempt_count, updated_at)
+      VALUES ('item-1', 'Carbone', 30, '10:00', 2, 3, NOW() - INTERVAL '1 day'),
+             ('item-2', 'Carbone', 29, '10:00', 1, 1, NOW())
+    `);
+
+    await migrationRunner.up();
+
+    const { rows } = await db.pool.query('SELECT * FROM confirmed_drop_patterns');
+    assert.equal(rows.length, 1, 'rows for the same restaurant + platform are merged');
+    assert.equal(rows[0].platform, 'resy');
+    assert.equal(rows[0].days_in_advance, 29, 'newest timing wins');
+    assert.equal(rows[0].successful_acquisitions, 3);
+    assert.equal(rows[0].total_attempts, 4);
+  });
+
+  test('017 gives every transfer an item and brings statuses into the lifecycle', async () => {
+    await db.truncate();
+    await migrationRunner.down(MIGRATIONS.length - MIGRATIONS.findIndex(m => m.version === '017'));
+
+    await db.pool.query(`
+      INSERT INTO portfolio_items (id, restaurant_name, date, time, status)
+      VALUES ('item-1', 'Carbone', '2026-12-05', '19:00', 'PENDING'),
+             ('item-2', 'Don Angie', '2026-12-06', '20:00', 'ACQUIRED')
+    `);
+    const { rows: [orphan] } = await db.pool.query(`
+      INSERT INTO transfers (restaurant_name, platform, reservation_date, reservation_time, party_size, status)
+      VALUES ('4 Charles', 'resy', '2026-12-07', '7:30 PM', 2, 'LISTED')
+      RETURNING id
+    `);
+    await db.pool.query(`
+      INSERT INTO transfers (portfolio_item_id, restaurant_name, platform, reservation_date, reservation_time, party_size, status)
+      VALUES ('item-2', 'Don Angie', 'resy', '2026-12-06', '20:00', 2, 'SOLD')
+    `);
+
+    await migrationRunner.up();
+
+    const { rows } = await db.pool.query('SELECT id, time::text, status FROM portfolio_items ORDER BY id');
+    assert.deepEqual(rows, [
+      { id: 'item-1', time: '19:00:00', status: 'TRANSFER_PENDING' },
+      { id: 'item-2', time: '20:00:00', status: 'SOLD' },
+      { id: `transfer-${orphan.id}`, time: '19:30:00', status: 'LISTED' },
+    ]);
+    const history = await db.pool.query('SELECT portfolio_item_id, from_status, to_status FROM reservation_status_history ORDER BY portfolio_item_id');
+    assert.deepEqual(history.rows.map(h => [h.portfolio_item_id, h.from_status, h.to_status]), rows.map(r => [r.id, null, r.status]));
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Per-platform request governor against the local platform simulator
+ */
+
+import './helpers/simulatorEnv';
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+import resyClient from '../src/services/resyApi';
+import sevenRoomsClient from '../src/services/sevenRoomsApi';
+import acquisitionEngine from '../src/services/acquisitionEngine';
+import platformGovernor from '../src/services/platformGovernor';
+
+process.env.GOVERNOR_BREAKER_COOLDOWN_SECONDS = '1';
+
+const DATE = '2026-12-05';
+const RESY_VENUE = Number(SIM_VENUES.resy.venueId);
+const simulator = new PlatformSimulator();
+
+const status = (platform: string) => platformGovernor.getStatus().find(p => p.platform === platform)!;
+
+before(async () => {
+  await simulator.start();
+  resyClient.setBaseUrl(simulator.platformUrl('resy'));
+  sevenRoomsClient.setBaseUrl(simulator.platformUrl('sevenrooms'));
+});
+
+after(async () => {
+  await simulator.stop();
+});
+
+test('spaces out bursts to the per-account rate', async () => {
+  simulator.loadScenario(buildScenario('happy-path'));
+
+  const started = Date.now();
+  for (let i = 0; i < 5; i++) {
+    await sevenRoomsClient.findSlots(SIM_VENUES.sevenrooms.venueId, DATE, '19:00', 2);
+  }
+
+  // 1 request/second with a burst of 3: the last two wait about a second each
+  assert.ok(Date.now() - started >= 1800, `took ${Date.now() - started}ms`);
+  assert.ok(status('sevenrooms').metrics.throttled >= 2);
+});
+
+test('holds an account until Retry-After has passed', async () => {
+  simulator.loadScenario({
+    ...buildScenario('happy-path'),
+    faults: [{ platform: 'resy', endpoint: 'find', kind: 'rate_limit', times: 1, retryAfterSeconds: 1 }],
+  });
+
+  await assert.rejects(resyClient.findSlots(RESY_VENUE, DATE, 2), /429/);
+  const started = Date.now();
+  const slots = await resyClient.findSlots(RESY_VENUE, DATE, 2);
+
+  assert.ok(slots.length > 0);
+  assert.ok(Date.now() - started >= 900, 'second search should wait out Retry-After');
+  assert.equal(status('resy').metrics.rateLimited, 1);
+  assert.equal(status('resy').circuit.state, 'closed');
+});
+
+test('pauses a platform after repeated 403s, then probes once the cooldown ends', async () => {
+  simulator.loadScenario({
+    ...buildScenario('happy-path'),
+    faults: [{ platform: 'resy', endpoint: 'find', kind: 'forbidden' }],
+  });
+
+  for (let i = 0; i < 7; i++) {
+    await assert.rejects(resyClient.findSlots(RESY_VENUE, DATE, 2));
+  }
+
+  // Five 403s trip the breaker; the last two never reach the platform
+  assert.equal(simulator.getRequestLog('resy').length, 5);
+  assert.equal(status('resy').circuit.state, 'open');
+  assert.equal(status('resy').metrics.shortCircuited, 2);
+
+  // Bookings are refused without reaching the platform
+  const result = await acquisitionEngine.acquire({
+    platform: 'resy',
+    restaurantName: SIM_VENUES.resy.name,
+    resyVenueId: RESY_VENUE,
+    date: DATE,
+    time: '19:00',
+    partySize: 2,
+    bookingMode: 'concierge',
+    clientInfo: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', phone: '5551234567' },
+  });
+  assert.equal(result.success, false);
+  assert.equal(simulator.getRequestLog('resy').length, 5);
+
+  simulator.loadScenario(buildScenario('happy-path'));
+  await new Promise(resolve => setTimeout(resolve, 1100));
+
+  const slots = await resyClient.findSlots(RESY_VENUE, DATE, 2);
+  assert.ok(slots.length > 0);
+  assert.equal(status('resy').circuit.state, 'closed');
+});
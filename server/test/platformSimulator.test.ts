@@ -0,0 +1,180 @@
+/**
+ * End-to-end drop pipeline against the local platform simulator
+ */
+
+import './helpers/simulatorEnv';
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import PlatformSimulator, { SimPlatform } from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+import resyClient, { ResyApiClient } from '../src/services/resyApi';
+import openTableClient, { OpenTableApiClient } from '../src/services/openTableApi';
+import sevenRoomsClient, { SevenRoomsApiClient } from '../src/services/sevenRoomsApi';
+import tockClient, { TockApiClient } from '../src/services/tockApi';
+import acquisitionEngine, { AcquisitionRequest } from '../src/services/acquisitionEngine';
+
+const DATE = '2026-12-05';
+const simulator = new PlatformSimulator();
+
+// These tests are about drop timing, not request budgets (platformGovernor.test.ts)
+for (const platform of ['RESY', 'OPENTABLE', 'SEVENROOMS', 'TOCK']) {
+  process.env[`${platform}_MAX_RPS`] = '1000';
+  process.env[`${platform}_ACCOUNT_MAX_RPS`] = '1000';
+}
+
+const client = {
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email: 'ada@example.com',
+  phone: '5551234567',
+};
+
+const conciergeRequest = (platform: SimPlatform): AcquisitionRequest => ({
+  platform,
+  restaurantName: SIM_VENUES[platform].name,
+  resyVenueId: Number(SIM_VENUES.resy.venueId),
+  openTableId: Number(SIM_VENUES.opentable.venueId),
+  sevenRoomsSlug: SIM_VENUES.sevenrooms.venueId,
+  tockSlug: SIM_VENUES.tock.venueId,
+  date: DATE,
+  time: '19:00',
+  partySize: 2,
+  bookingMode: 'concierge',
+  clientInfo: client,
+});
+
+before(async () => {
+  await simulator.start();
+  resyClient.setBaseUrl(simulator.platformUrl('resy'));
+  openTableClient.setBaseUrl(simulator.platformUrl('opentable'));
+  sevenRoomsClient.setBaseUrl(simulator.platformUrl('sevenrooms'));
+  tockClient.setBaseUrl(simulator.platformUrl('tock'));
+});
+
+after(async () => {
+  await simulator.stop();
+});
+
+describe('happy path', () => {
+  beforeEach(() => simulator.loadScenario(buildScenario('happy-path')));
+
+  test('resy client books the slot closest to the preferred time', async () => {
+    const result = await resyClient.acquire({ venueId: 1001, date: DATE, partySize: 2, preferredTime: '19:15' });
+
+    assert.equal(result.success, true, result.error);
+    const [reservation] = simulator.getReservations('resy');
+    assert.equal(reservation.time, '19:00');
+    assert.equal(result.resy_token, reservation.confirmation);
+  });
+
+  for (const platform of ['resy', 'opentable', 'sevenrooms', 'tock'] as SimPlatform[]) {
+    test(`${platform} concierge booking lands under the client's name`, async () => {
+      const result = await acquisitionEngine.acquire(conciergeRequest(platform));
+
+      assert.equal(result.success, true, result.error);
+      assert.equal(result.bookingMode, 'concierge');
+      const reservations = simulator.getReservations(platform);
+      assert.equal(reservations.length, 1);
+      assert.equal(reservations[0].guest.lastName, 'Lovelace');
+      assert.equal(reservations[0].time, '19:00');
+      assert.equal(result.confirmationCode, reservations[0].confirmation);
+    });
+  }
+
+  test('cancelling releases the slot back to inventory', async () => {
+    const booked = await resyClient.acquire({ venueId: 1001, date: DATE, partySize: 2, preferredTime: '21:00' });
+    assert.equal(booked.success, true);
+    assert.equal((await resyClient.findSlots(1001, DATE, 2)).length, 2);
+
+    const cancelled = await resyClient.cancelConciergeReservation(booked.resy_token!);
+    assert.equal(cancelled.success, true);
+    assert.equal((await resyClient.findSlots(1001, DATE, 2)).length, 3);
+  });
+
+  test('a base URL with a trailing slash works the same from the constructor or setBaseUrl', async () => {
+    const url = simulator.platformUrl('resy');
+    const constructed = new ResyApiClient(undefined, undefined, `${url}/`);
+    assert.equal(constructed.getBaseUrl(), url);
+    assert.equal((await constructed.findSlots(1001, DATE, 2)).length, 3);
+
+    const clients = [new OpenTableApiClient(`${url}//`), new SevenRoomsApiClient(`${url}/`), new TockApiClient(`${url}/`)];
+    assert.deepEqual(clients.map(c => c.getBaseUrl()), [url, url, url]);
+    clients[0].setBaseUrl(`${url}/`);
+    assert.equal(clients[0].getBaseUrl(), url);
+  });
+
+  test('resy reservation lists are read past the first page', async () => {
+    for (const preferredTime of ['19:00', '20:00', '21:00']) {
+      const booked = await resyClient.acquire({ venueId: 1001, date: DATE, partySize: 2, preferredTime, timeFlexibility: 0 });
+      assert.equal(booked.success, true, booked.error);
+    }
+
+    const reservations = await resyClient.getUpcomingReservations(2);
+    assert.equal(reservations.length, 3);
+    assert.equal(new Set(reservations.map(r => r.resy_token)).size, 3);
+    assert.equal(simulator.getRequestLog('resy').filter(r => r.endpoint === 'reservations').length, 2);
+  });
+
+  test('scenarios can be switched over the control API', async () => {
+    const response = await axios.post(`${simulator.url}/__sim/scenario`, { name: 'sold-out' });
+    assert.equal(response.data.scenario, 'sold-out');
+    assert.deepEqual(await resyClient.findSlots(1001, DATE, 2), []);
+  });
+});
+
+describe('drop scenarios', () => {
+  test('executeAtDropTime keeps polling until slots appear at T+300ms', async () => {
+    simulator.loadScenario(buildScenario('drop-at-300ms'));
+
+    const result = await acquisitionEngine.executeAtDropTime(conciergeRequest('resy'), {
+      portfolioItemId: 'sim-item',
+      dropDate: '2026-11-05',
+      dropTime: '10:00',
+      targetDate: DATE,
+      timezone: 'America/New_York',
+    });
+
+    assert.equal(result.success, true, result.error);
+    assert.ok((result.attempts || 0) > 1, 'should need more than one attempt');
+    assert.ok(simulator.getReservations('resy')[0].bookedAtMs >= 300);
+  });
+
+  test('rides out 429s from the slot search', async () => {
+    simulator.loadScenario(buildScenario('rate-limited', { times: 3 }));
+
+    const result = await acquisitionEngine.executeAtDropTime(conciergeRequest('opentable'), {
+      portfolioItemId: 'sim-item',
+      dropDate: '2026-11-05',
+      dropTime: '10:00',
+      targetDate: DATE,
+      timezone: 'America/New_York',
+    });
+
+    assert.equal(result.success, true, result.error);
+    const limited = simulator.getRequestLog('opentable').filter(r => r.status === 429);
+    assert.equal(limited.length, 3);
+  });
+
+  test('expired auth fails the booking without creating a reservation', async () => {
+    simulator.loadScenario(buildScenario('auth-expired'));
+
+    const result = await resyClient.acquire({ venueId: 1001, date: DATE, partySize: 2, preferredTime: '19:00' });
+
+    assert.equal(result.success, false);
+    assert.match(result.error || '', /expired|auth/i);
+    assert.equal(simulator.getReservations().length, 0);
+  });
+
+  test('losing a sold-out race surfaces the platform error, then retries onto another slot', async () => {
+    simulator.loadScenario(buildScenario('sold-out-race'));
+
+    const lost = await acquisitionEngine.acquire(conciergeRequest('resy'));
+    assert.equal(lost.success, false);
+    assert.equal(lost.error, 'Slot no longer available');
+
+    const retried = await acquisitionEngine.acquire(conciergeRequest('resy'));
+    assert.equal(retried.success, true, retried.error);
+    assert.notEqual(simulator.getReservations('resy')[0].time, '19:00');
+  });
+});
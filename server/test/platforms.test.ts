@@ -0,0 +1,118 @@
+/**
+ * Platform adapter registry - lookup, descriptors, and every adapter
+ * speaking the same contract against the local simulator
+ */
+
+import './helpers/simulatorEnv';
+import { test, describe, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+import resyClient from '../src/services/resyApi';
+import openTableClient from '../src/services/openTableApi';
+import sevenRoomsClient from '../src/services/sevenRoomsApi';
+import tockClient from '../src/services/tockApi';
+import type { BookingIdentity } from '../src/services/identityManager';
+import {
+  PLATFORM_IDS,
+  detectPlatform,
+  describePlatform,
+  getAdapter,
+  isPlatformId,
+  listAdapters,
+} from '../src/platforms';
+
+const DATE = '2026-12-05';
+const simulator = new PlatformSimulator();
+
+for (const platform of ['RESY', 'OPENTABLE', 'SEVENROOMS', 'TOCK']) {
+  process.env[`${platform}_MAX_RPS`] = '1000';
+  process.env[`${platform}_ACCOUNT_MAX_RPS`] = '1000';
+}
+
+describe('registry', () => {
+  test('lists every platform once, in dashboard order', () => {
+    assert.deepEqual(PLATFORM_IDS, ['resy', 'opentable', 'sevenrooms', 'tock']);
+    assert.equal(listAdapters().length, PLATFORM_IDS.length);
+  });
+
+  test('looks adapters up by ID and rejects anything unregistered', () => {
+    assert.equal(getAdapter('opentable')?.label, 'OpenTable');
+    assert.equal(getAdapter('unknown'), null);
+    assert.equal(getAdapter(undefined), null);
+    assert.ok(isPlatformId('tock'));
+    assert.ok(!isPlatformId('yelp'));
+  });
+
+  test('detects platforms in free text, including aliases', () => {
+    assert.equal(detectPlatform('Resy'), 'resy');
+    assert.equal(detectPlatform('Seven Rooms NYC'), 'sevenrooms');
+    assert.equal(detectPlatform('OpenTable (pro)'), 'opentable');
+    assert.equal(detectPlatform('walk-in'), null);
+    assert.equal(detectPlatform(null), null);
+  });
+
+  test('describes adapters for the dashboard without exposing functions', () => {
+    const descriptor = describePlatform(getAdapter('resy')!);
+    assert.equal(descriptor.venue.param, 'venueId');
+    assert.equal(descriptor.venue.requestField, 'resyVenueId');
+    assert.deepEqual(descriptor.capabilities, { search: true, cancel: true, reservations: true });
+    assert.equal(typeof descriptor.ready, 'boolean');
+
+    const tock = describePlatform(getAdapter('tock')!);
+    assert.equal(tock.capabilities.search, false);
+    assert.ok(!Object.values(tock).some(value => typeof value === 'function'));
+  });
+});
+
+describe('adapters against the simulator', () => {
+  before(async () => {
+    await simulator.start();
+    resyClient.setBaseUrl(simulator.platformUrl('resy'));
+    openTableClient.setBaseUrl(simulator.platformUrl('opentable'));
+    sevenRoomsClient.setBaseUrl(simulator.platformUrl('sevenrooms'));
+    tockClient.setBaseUrl(simulator.platformUrl('tock'));
+  });
+
+  after(async () => {
+    await simulator.stop();
+  });
+
+  beforeEach(() => simulator.loadScenario(buildScenario('happy-path')));
+
+  for (const platform of PLATFORM_IDS) {
+    test(`${platform}: finds slots, books and cancels through the common contract`, async () => {
+      const adapter = getAdapter(platform)!;
+      const query = { venueId: SIM_VENUES[platform].venueId, date: DATE, time: '19:00', partySize: 2 };
+
+      const slots = await adapter.findSlots(query);
+      assert.ok(slots.length > 0, 'expected open slots');
+      assert.ok(slots.every(slot => slot.id && slot.table_type));
+
+      const booked = await adapter.bookForClient(query, {
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        email: 'ada@example.com',
+        phone: '5551234567',
+      });
+      assert.equal(booked.success, true, booked.error);
+      assert.ok(booked.confirmationCode);
+      assert.equal(booked.bookedUnderName, 'Ada Lovelace');
+
+      const cancelled = await adapter.cancel(booked.confirmationCode!);
+      assert.equal(cancelled.success, true, cancelled.error);
+      assert.deepEqual(simulator.getReservations(platform).map(r => r.status), ['CANCELLED']);
+    });
+  }
+
+  test('resy credential checks go to the configured base URL', async () => {
+    const identity: BookingIdentity = {
+      id: 1, name: 'Sim', email: 'sim@example.com', resy_auth_token: 'token', is_active: true, monthly_limit: 10,
+      bookings_this_month: 0, resy_bookings_month: 0, opentable_bookings_month: 0, sevenrooms_bookings_month: 0, tock_bookings_month: 0,
+    };
+    const result = await getAdapter('resy')!.validateCredentials(identity);
+    assert.equal(result.valid, true, result.message);
+    assert.equal(result.message, 'Valid - User: Sim Diner');
+    assert.deepEqual(simulator.getRequestLog('resy').map(r => r.endpoint), ['user']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Price model: ridge regression on log price, one multiplier per feature
+ * value, explained predictions with an interval
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fitPriceModel, predictPrice, PriceSample } from '../src/services/priceModel';
+
+// Saturdays sell for 1.5x Mondays, prime time for 1.3x lunch, Don Angie
+// for 2x Cafe Lola - with a little noise
+const syntheticSales = (): PriceSample[] => {
+  const samples: PriceSample[] = [];
+  let i = 0;
+  for (const [restaurantName, base] of [['Don Angie', 200], ['Cafe Lola', 100]] as const) {
+    for (const [weekday, dayFactor] of [[6, 1.5], [1, 1]] as const) {
+      for (const [time, timeFactor] of [['19:30', 1.3], ['12:00', 1]] as const) {
+        for (let n = 0; n < 4; n++) {
+          const noise = [0.97, 1.03, 0.99, 1.01][(i++) % 4];
+          samples.push({
+            restaurantName, city: 'New York', weekday, time, partySize: 2, leadDays: 10,
+            price: base * dayFactor * timeFactor * noise, source: 'sale',
+          });
+        }
+      }
+    }
+  }
+  return samples;
+};
+
+describe('fitPriceModel / predictPrice', () => {
+  test('learns day, time and restaurant effects from sales', () => {
+    const { parameters, metrics } = fitPriceModel(syntheticSales());
+    const multiplier = (group: 'weekday' | 'timeSlot' | 'restaurant', a: string, b: string) =>
+      Math.exp(parameters.coefficients[group][a] - parameters.coefficients[group][b]);
+
+    assert.ok(Math.abs(multiplier('weekday', 'Saturday', 'Monday') - 1.5) < 0.1);
+    assert.ok(Math.abs(multiplier('timeSlot', 'prime (7-9 PM)', 'lunch') - 1.3) < 0.1);
+    assert.ok(Math.abs(multiplier('restaurant', 'don angie', 'cafe lola') - 2) < 0.15);
+    assert.ok(metrics.salesMape! < 0.05);
+  });
+
+  test('explains a prediction, strongest effect first, inside its interval', () => {
+    const { parameters } = fitPriceModel(syntheticSales());
+    const prediction = predictPrice(parameters, {
+      restaurantName: 'Don Angie',
+      city: 'New York',
+      reservationDate: '2026-12-05',  // Saturday
+      reservationTime: '19:30',
+      partySize: 2,
+      today: '2026-11-25',
+    });
+
+    assert.ok(Math.abs(prediction.price - 390) <= 25, `got ${prediction.price}`);
+    assert.ok(prediction.low < prediction.price && prediction.price < prediction.high);
+    assert.equal(prediction.restaurantSales, 16);
+    const strengths = prediction.effects.map(e => Math.abs(Math.log(e.multiplier)));
+    assert.deepEqual(strengths, [...strengths].sort((a, b) => b - a));
+    assert.equal(prediction.effects.find(e => e.feature === 'weekday')!.value, 'Saturday');
+  });
+
+  test('values it has never seen have no effect', () => {
+    const { parameters } = fitPriceModel(syntheticSales());
+    const prediction = predictPrice(parameters, {
+      restaurantName: 'Somewhere New',
+      reservationDate: '2026-12-05',
+      reservationTime: '19:30',
+      partySize: 2,
+    });
+
+    const restaurant = prediction.effects.find(e => e.feature === 'restaurant')!;
+    assert.equal(restaurant.multiplier, 1);
+    assert.match(restaurant.value, /not in training data/);
+    assert.equal(prediction.restaurantRows, 0);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Pricing backtests: past listings replayed against a candidate config
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import type { BacktestListing } from '../src/services/pricingBacktest';
+
+const carboneSaturday = {
+  restaurantName: 'Carbone',
+  reservationDate: '2026-12-05',  // Saturday
+  reservationTime: '19:00',
+  partySize: 2,
+};
+
+let nextId = 1;
+const listing = (overrides: Partial<BacktestListing>): BacktestListing => ({
+  transferId: nextId++,
+  ...carboneSaturday,
+  listingPrice: 400,
+  listedAt: '2026-11-01T12:00:00.000Z',
+  salePrice: null,
+  soldAt: null,
+  ...overrides,
+});
+
+describeWithDatabase('pricingBacktest', async (db) => {
+  const { default: pricingBacktest, runBacktest, resolveBacktestConfig } = await import('../src/services/pricingBacktest');
+  const { default: pricingEngine } = await import('../src/services/pricingEngine');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  beforeEach(() => db.truncate());
+
+  test('keeps a sale only when the candidate price is at or below what the buyer paid', async () => {
+    const history = [
+      // Candidate: 200 × 1.5 Saturday × 1.3 prime = 390
+      listing({ salePrice: 420, soldAt: '2026-11-03T12:00:00.000Z' }),
+      // Candidate: 35 default × 0.8 Monday × 0.7 lunch = 20
+      listing({
+        restaurantName: 'Corner Bistro', reservationDate: '2026-12-07', reservationTime: '12:30',
+        listingPrice: 25, salePrice: 15, soldAt: '2026-11-02T12:00:00.000Z',
+      }),
+      // Didn't sell at 500; might have at 390
+      listing({ listingPrice: 500 }),
+    ];
+
+    const results = runBacktest(history, resolveBacktestConfig(), await pricingEngine.getRestaurantTiers());
+
+    assert.equal(results.listings, 3);
+    assert.deepEqual(results.realized, {
+      sold: 2, revenue: 435, sellThroughRate: 0.6667, avgDaysToSell: 1.5,
+      listingError: { mae: 15, mape: 0.3571, bias: -5 },
+    });
+    assert.deepEqual(results.candidate, {
+      sold: 1, revenue: 390, sellThroughRate: 0.3333, avgDaysToSell: 2,
+      priceError: { mae: 17.5, mape: 0.2024, bias: -12.5 },
+      uncertain: 1,
+    });
+    assert.equal(results.revenueChange, -45);
+    assert.deepEqual(results.byRestaurant.map(r => [r.restaurantName, r.listings, r.candidateSold]), [
+      ['Carbone', 2, 1],
+      ['Corner Bistro', 1, 0],
+    ]);
+  });
+
+  test('the demand multiplier only sees sales made before the listing', async () => {
+    const history = [
+      // Priced 390 with no earlier sales - above the 360 paid
+      listing({ listingPrice: 300, salePrice: 360, listedAt: '2026-11-01T12:00:00.000Z', soldAt: '2026-11-02T12:00:00.000Z' }),
+      // The sale above (1.2x listing) is now history: 390 × 1.2 = 470
+      listing({ listingPrice: 450, salePrice: 480, listedAt: '2026-11-05T12:00:00.000Z', soldAt: '2026-11-06T12:00:00.000Z' }),
+    ];
+
+    const results = runBacktest(history, resolveBacktestConfig(), await pricingEngine.getRestaurantTiers());
+
+    assert.equal(results.candidate.sold, 1);
+    assert.equal(results.candidate.revenue, 470);
+
+    // A period starting after the first sale still uses it for demand
+    const later = runBacktest(history, resolveBacktestConfig(), await pricingEngine.getRestaurantTiers(), { from: '2026-11-03' });
+    assert.equal(later.listings, 1);
+    assert.equal(later.candidate.revenue, 470);
+  });
+
+  test('candidate configs change only what they name, and are validated', async () => {
+    const config = resolveBacktestConfig({ timePremiums: { prime: 1.4 }, tiers: { Carbone: { tier: 5, basePrice: 250 } } });
+    assert.equal(config.timePremiums.prime, 1.4);
+    assert.equal(config.timePremiums.lunch, 0.7);
+    assert.equal(config.dayMultipliers[6], 1.5);
+
+    // 250 × 1.5 × 1.4 = 525
+    const results = runBacktest([listing({ salePrice: 600, soldAt: '2026-11-02T12:00:00.000Z' })], config, await pricingEngine.getRestaurantTiers());
+    assert.equal(results.candidate.revenue, 525);
+
+    assert.throws(() => resolveBacktestConfig({ timePremiums: { brunch: 1.2 } as any }), /timePremiums.brunch is not one of/);
+    assert.throws(() => resolveBacktestConfig({ dayMultipliers: { 6: -1 } }), /dayMultipliers.6 must be a number greater than 0/);
+    assert.throws(() => resolveBacktestConfig({ demandBounds: { min: 2, max: 1 } }), /demandBounds.min/);
+    assert.throws(() => resolveBacktestConfig({ tiers: { Carbone: { tier: 9, basePrice: 100 } } }), /tiers.Carbone/);
+  });
+
+  test('replays stored transfers and keeps the run', async () => {
+    const sold = await transferTracker.createTransfer({
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    await transferTracker.markAsListed(sold.id, { listing_price: 380 });
+    await transferTracker.markAsSold(sold.id, { buyer_name: 'Grace', sale_price: 400, transfer_method: 'NAME_CHANGE' });
+
+    // Still listed for a future date: no outcome yet, left out
+    const open = await transferTracker.createTransfer({
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2099-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    await transferTracker.markAsListed(open.id, { listing_price: 380 });
+
+    const run = await pricingBacktest.run({ name: 'baseline', runBy: 'test' });
+
+    assert.ok(run.id > 0);
+    assert.equal(run.results.listings, 1);
+    assert.equal(run.results.realized.revenue, 400);
+    assert.equal(run.results.candidate.revenue, 390);
+    assert.equal(run.config.dayMultipliers[6], 1.5);
+
+    const dryRun = await pricingBacktest.run({ name: 'peek', config: { timePremiums: { prime: 2 } }, save: false });
+    assert.equal(dryRun.results.candidate.sold, 0);
+
+    const stored = await pricingBacktest.list();
+    assert.deepEqual(stored.map(r => r.name), ['baseline']);
+    assert.deepEqual(await pricingBacktest.get(run.id), run);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Suggested AT listing prices: the price model for restaurants with
+ * enough history, tier × day × time × party size × demand otherwise
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const carboneSaturday = {
+  restaurantName: 'Carbone',
+  platform: 'resy',
+  reservationDate: '2026-12-05',  // Saturday
+  reservationTime: '19:00',
+  partySize: 2,
+};
+
+describeWithDatabase('pricingEngine.getSuggestedPrice', async (db) => {
+  const { default: pricingEngine } = await import('../src/services/pricingEngine');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  beforeEach(() => db.truncate());
+
+  test('prices a known restaurant from its tier without sales history', async () => {
+    const price = await pricingEngine.getSuggestedPrice(carboneSaturday);
+
+    // 200 base × 1.5 Saturday × 1.3 prime time
+    assert.equal(price.suggestedPrice, 390);
+    assert.equal(price.minPrice, 295);
+    assert.equal(price.maxPrice, 525);
+    assert.equal(price.confidence, 'high');
+    assert.equal(price.factors.dayOfWeekMultiplier, 1.5);
+    assert.equal(price.factors.demandMultiplier, 1.0);
+    assert.ok(price.reasoning.includes('Saturday multiplier: 1.5x'));
+  });
+
+  test('sales above listing price raise the demand multiplier', async () => {
+    const transfer = await transferTracker.createTransfer({
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-11-20',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    await transferTracker.markAsListed(transfer.id, { listing_price: 300 });
+    await transferTracker.markAsSold(transfer.id, { buyer_name: 'Grace', sale_price: 360, transfer_method: 'NAME_CHANGE' });
+
+    const price = await pricingEngine.getSuggestedPrice(carboneSaturday);
+
+    assert.equal(price.factors.demandMultiplier, 1.2);
+    assert.equal(price.suggestedPrice, 470);
+  });
+
+  test('unknown restaurants fall back to the default tier with low confidence', async () => {
+    const price = await pricingEngine.getSuggestedPrice({
+      restaurantName: 'Corner Bistro',
+      platform: 'opentable',
+      reservationDate: '2026-12-07',  // Monday
+      reservationTime: '12:30',
+      partySize: 6,
+    });
+
+    // 35 base × 0.8 Monday × 0.7 lunch × 1.6 party of six
+    assert.equal(price.suggestedPrice, 30);
+    assert.equal(price.factors.basePrice, 35);
+    assert.equal(price.confidence, 'low');
+  });
+
+  const recordSales = async (restaurantName: string, count: number) => {
+    for (let i = 0; i < count; i++) {
+      const saturday = i % 2 === 0;
+      await db.pool.query(`
+        INSERT INTO transfers (restaurant_name, platform, reservation_date, reservation_time, party_size, status, sale_price, sold_at)
+        VALUES ($1, 'resy', $2, '19:30', 2, 'COMPLETED', $3, $4)
+      `, [
+        restaurantName,
+        saturday ? '2026-11-14' : '2026-11-16',
+        (saturday ? 240 : 160) + (i % 3) * 5,
+        '2026-11-06T12:00:00Z',
+      ]);
+    }
+  };
+
+  test('restaurants with sales are priced by the model, with an interval and explanation', async () => {
+    const { default: priceModel } = await import('../src/services/priceModel');
+    await recordSales('Tatiana', 24);
+
+    const { model } = await priceModel.train('test');
+    assert.equal(model!.version, 1);
+    assert.equal(model!.rowsBySource.sale, 24);
+
+    const price = await pricingEngine.getSuggestedPrice({
+      restaurantName: 'Tatiana',
+      platform: 'resy',
+      reservationDate: '2026-12-05',  // Saturday
+      reservationTime: '19:30',
+      partySize: 2,
+    });
+
+    assert.equal(price.source, 'model');
+    assert.equal(price.modelVersion, 1);
+    assert.equal(price.confidence, 'high');
+    assert.ok(price.suggestedPrice >= 225 && price.suggestedPrice <= 260, `got ${price.suggestedPrice}`);
+    assert.deepEqual(price.interval, { low: price.minPrice, high: price.maxPrice, level: 0.8 });
+    assert.ok(price.minPrice < price.suggestedPrice && price.suggestedPrice < price.maxPrice);
+    assert.ok(price.explanation.some(e => e.feature === 'weekday' && e.value === 'Saturday' && e.multiplier > 1));
+    assert.ok(price.reasoning[0].startsWith('Price model v1'));
+  });
+
+  test('cold-start restaurants fall back to tiers', async () => {
+    const { default: priceModel } = await import('../src/services/priceModel');
+    await recordSales('Tatiana', 24);
+    await recordSales('Carbone', 2);
+    await priceModel.train('test');
+
+    const price = await pricingEngine.getSuggestedPrice(carboneSaturday);
+
+    assert.equal(price.source, 'tiers');
+    assert.equal(price.modelVersion, 1);
+    assert.equal(price.interval, null);
+    assert.equal(price.factors.basePrice, 200);
+    assert.ok(price.reasoning.some(r => r.startsWith('Cold start: price model v1 has 2 price(s)')));
+  });
+
+  test('does not train on too little data', async () => {
+    const { default: priceModel } = await import('../src/services/priceModel');
+    await recordSales('Tatiana', 5);
+
+    const { model, reason } = await priceModel.train('test');
+    assert.equal(model, null);
+    assert.match(reason!, /Only 5 price observations/);
+    assert.equal(await priceModel.getActive(), null);
+  });
+
+  test('added tiers are stored and price cold-start restaurants', async () => {
+    await pricingEngine.addRestaurantTier('Corner Bistro', 4, 120);
+    await assert.rejects(pricingEngine.addRestaurantTier('Corner Bistro', 7, 120), /tier must be/);
+
+    const tiers = await pricingEngine.getRestaurantTiers();
+    assert.deepEqual(tiers['Corner Bistro'], { tier: 4, basePrice: 120 });
+    assert.deepEqual(tiers['Carbone'], { tier: 5, basePrice: 200 });
+
+    const { rows } = await db.pool.query('SELECT tier, base_price FROM pricing_tiers');
+    assert.deepEqual(rows, [{ tier: 4, base_price: '120.00' }]);
+
+    const price = await pricingEngine.getSuggestedPrice({
+      restaurantName: 'corner bistro',
+      platform: 'opentable',
+      reservationDate: '2026-12-07',
+      reservationTime: '12:30',
+      partySize: 6,
+    });
+    assert.equal(price.factors.basePrice, 120);
+    assert.equal(price.confidence, 'high');
+  });
+});
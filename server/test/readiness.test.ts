@@ -0,0 +1,83 @@
+/**
+ * Pre-drop readiness checklist, with platform clocks read from the simulator
+ */
+
+import './helpers/simulatorEnv';
+import crypto from 'crypto';
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { SIM_VENUES } from '../src/simulator/scenarios';
+
+process.env.CREDENTIAL_ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+
+describeWithDatabase('drop readiness', async (db) => {
+  const { default: resyClient } = await import('../src/services/resyApi');
+  const { default: openTableClient } = await import('../src/services/openTableApi');
+  const { default: identityManager } = await import('../src/services/identityManager');
+  const { default: credentialHealth } = await import('../src/services/credentialHealth');
+  const { default: readiness } = await import('../src/sniper/readiness');
+
+  const simulator = new PlatformSimulator();
+
+  const watch = (id: string, platform: string, venue: Record<string, unknown> = {}) =>
+    db.pool.query(`
+      INSERT INTO portfolio_items (
+        id, restaurant_name, date, time, platform, status,
+        next_drop_date, next_drop_time, drop_timezone, resy_venue_id, opentable_id
+      ) VALUES ($1, 'Carbone', $2, '19:00', $3, 'WATCHING', $4, '10:00', 'America/New_York', $5, $6)
+    `, [id, daysFromNow(30), platform, daysFromNow(2), venue.resy ?? null, venue.opentable ?? null]);
+
+  const statusOf = (result: any, id: string) => result.checks.find((c: any) => c.id === id)?.status;
+
+  before(async () => {
+    await simulator.start();
+    resyClient.setBaseUrl(simulator.platformUrl('resy'));
+    openTableClient.setBaseUrl(simulator.platformUrl('opentable'));
+  });
+
+  after(() => simulator.stop());
+
+  beforeEach(() => db.truncate());
+
+  test('an armed Resy item with a working identity passes every check', async () => {
+    await identityManager.createIdentity({ name: 'Alex', email: 'alex@example.com', resy_auth_token: 'opaque' });
+    await watch('item-1', 'Resy', { resy: SIM_VENUES.resy.venueId });
+
+    const result = (await readiness.evaluateItem('item-1'))!;
+    assert.equal(result.status, 'pass', JSON.stringify(result.checks.filter(c => c.status !== 'pass')));
+    assert.equal(result.platform, 'resy');
+    assert.match(result.checks.find(c => c.id === 'clock')!.detail, /ms vs resy/);
+    assert.match(result.checks.find(c => c.id === 'identity_capacity')!.detail, /Alex/);
+  });
+
+  test('missing venue ID, identity and dead credentials fail; nothing else is blamed', async () => {
+    await watch('item-2', 'OpenTable');
+
+    let result = (await readiness.evaluateItem('item-2'))!;
+    assert.equal(result.status, 'fail');
+    assert.equal(statusOf(result, 'venue_id'), 'fail');
+    assert.equal(statusOf(result, 'credentials'), 'fail');
+    assert.equal(statusOf(result, 'identity_capacity'), 'fail');
+    assert.equal(statusOf(result, 'platform_client'), 'pass');
+    assert.equal(statusOf(result, 'payment'), 'pass', 'OpenTable takes no deposit');
+
+    const identity = await identityManager.createIdentity({ name: 'Sam', email: 'sam@example.com', opentable_csrf_token: 'csrf' });
+    await credentialHealth.record(identity.id, 'opentable', { valid: false, message: 'Session expired', source: 'validation' });
+    result = (await readiness.evaluateItem('item-2'))!;
+    assert.match(result.checks.find(c => c.id === 'credentials')!.detail, /Session expired/);
+  });
+
+  test('only watched items are listed, and unknown items are null', async () => {
+    await watch('item-1', 'Resy', { resy: SIM_VENUES.resy.venueId });
+    await watch('item-2', 'Tock');
+    await db.pool.query(`UPDATE portfolio_items SET status = 'ACQUIRED' WHERE id = 'item-2'`);
+
+    const items = await readiness.evaluateWatched();
+    assert.deepEqual(items.map(i => i.itemId), ['item-1']);
+    assert.equal(await readiness.evaluateItem('no-such-item'), null);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Reservation lifecycle: the status state machine, and portfolio items and
+ * transfers moving through it together with a recorded history
+ */
+
+import { test, describe, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import {
+  RESERVATION_STATUSES,
+  RESERVATION_TRANSITIONS,
+  InvalidTransitionError,
+  assertTransition,
+  canTransition,
+  toReservationStatus,
+  transitionPath,
+} from '../src/shared/reservationLifecycle';
+
+describe('reservation state machine', () => {
+  test('every transition targets a known status, and CANCELLED is final', () => {
+    for (const status of RESERVATION_STATUSES) {
+      assert.ok(RESERVATION_TRANSITIONS[status].every(to => RESERVATION_STATUSES.includes(to)), status);
+    }
+    assert.deepEqual(RESERVATION_TRANSITIONS.CANCELLED, []);
+  });
+
+  test('rejects skipped and backward steps', () => {
+    assert.equal(canTransition('ACQUIRED', 'LISTED'), true);
+    assert.equal(canTransition('WATCHING', 'SOLD'), false);
+    assert.equal(canTransition('TRANSFERRED', 'SOLD'), false);
+    assert.throws(() => assertTransition('CANCELLED', 'ACQUIRED'), (error: any) =>
+      error instanceof InvalidTransitionError && error.from === 'CANCELLED' && /final/.test(error.message));
+  });
+
+  test('maps legacy statuses and finds the shortest path', () => {
+    assert.equal(toReservationStatus('PENDING'), 'TRANSFER_PENDING');
+    assert.equal(toReservationStatus('listed'), 'LISTED');
+    assert.equal(toReservationStatus('RESERVED'), null);
+
+    assert.deepEqual(transitionPath('WATCHING', 'COMPLETED'), ['ACQUIRED', 'COMPLETED']);
+    assert.deepEqual(transitionPath('SOLD', 'SOLD'), []);
+    assert.equal(transitionPath('CANCELLED', 'WATCHING'), null);
+  });
+});
+
+const OPERATOR = { source: 'dashboard' as const, actor: 'ops@example.com' };
+
+describeWithDatabase('reservationLifecycle', async (db) => {
+  const { default: reservationLifecycle } = await import('../src/services/reservationLifecycle');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  const booking = {
+    restaurant_name: 'Carbone',
+    platform: 'resy',
+    reservation_date: '2026-12-05',
+    reservation_time: '7:30 PM',
+    party_size: 2,
+    confirmation_number: 'RESY-123',
+  };
+
+  const watch = (id: string) => db.pool.query(`
+    INSERT INTO portfolio_items (id, restaurant_name, date, time, status)
+    VALUES ($1, 'Carbone', '2026-12-05', '19:30', 'WATCHING')
+  `, [id]);
+
+  beforeEach(() => db.truncate());
+
+  test('a transfer without an item gets one in the same status', async () => {
+    const transfer = await transferTracker.createTransfer(booking, OPERATOR);
+    assert.equal(transfer.portfolio_item_id, `transfer-${transfer.id}`);
+
+    const reservation = (await reservationLifecycle.get(transfer.portfolio_item_id!))!;
+    assert.equal(reservation.status, 'ACQUIRED');
+    assert.equal(reservation.item.time, '19:30:00');
+    assert.equal(reservation.item.confirmation_number, 'RESY-123');
+    assert.equal(reservation.transfer!.id, transfer.id);
+
+    const history = await reservationLifecycle.getHistory(reservation.id);
+    assert.deepEqual(history.map(h => [h.from_status, h.to_status, h.actor]), [[null, 'ACQUIRED', 'ops@example.com']]);
+  });
+
+  test('booking a watched item walks it to the transfer status', async () => {
+    await watch('item-1');
+    await transferTracker.createTransfer({ ...booking, portfolio_item_id: 'item-1', booking_type: 'concierge' });
+
+    const history = await reservationLifecycle.getHistory('item-1');
+    assert.deepEqual(history.map(h => [h.from_status, h.to_status]), [['WATCHING', 'ACQUIRED'], ['ACQUIRED', 'COMPLETED']]);
+    assert.equal((await reservationLifecycle.get('item-1'))!.status, 'COMPLETED');
+
+    // Already holding a booking: a second one is its own reservation
+    const second = await transferTracker.createTransfer({ ...booking, portfolio_item_id: 'item-1', confirmation_number: 'RESY-456' });
+    assert.equal(second.portfolio_item_id, `transfer-${second.id}`);
+  });
+
+  test('transfer updates move the item too, and invalid ones change nothing', async () => {
+    await watch('item-1');
+    const { id } = await transferTracker.createTransfer({ ...booking, portfolio_item_id: 'item-1' });
+
+    await transferTracker.markAsListed(id, { listing_price: 300 }, OPERATOR);
+    let reservation = (await reservationLifecycle.get('item-1'))!;
+    assert.equal(reservation.item.status, 'LISTED');
+    assert.equal(Number(reservation.item.list_price), 300);
+
+    await assert.rejects(() => transferTracker.markAsCompleted(id), InvalidTransitionError);
+    reservation = (await reservationLifecycle.get('item-1'))!;
+    assert.equal(reservation.status, 'LISTED');
+    assert.equal(reservation.transfer!.status, 'LISTED');
+
+    const cancelled = await transferTracker.markAsCancelled(id, { reason: 'unused', fee_charged: 0 }, OPERATOR);
+    assert.equal(cancelled!.status, 'CANCELLED');
+    assert.equal(await transferTracker.markAsCancelled(id, { reason: 'again', fee_charged: 0 }), null);
+    assert.equal((await transferTracker.getTransfer(id))!.cancellation_reason, 'unused');
+
+    const history = await reservationLifecycle.getHistory('item-1');
+    assert.deepEqual(history.slice(-2).map(h => [h.to_status, h.transfer_id, h.note]), [
+      ['LISTED', id, null],
+      ['CANCELLED', id, 'unused'],
+    ]);
+  });
+
+  test('item transitions: same status is a no-op, unknown items are null', async () => {
+    await watch('item-1');
+
+    const same = await reservationLifecycle.transition('item-1', 'WATCHING');
+    assert.equal(same!.changed, false);
+    await assert.rejects(() => reservationLifecycle.transition('item-1', 'SOLD'), InvalidTransitionError);
+
+    const pending = await reservationLifecycle.transition('item-1', 'PENDING_CONFIRMATION', { actor: OPERATOR, note: 'Drop failed' });
+    assert.equal(pending!.changed, true);
+    assert.equal(pending!.item.status, 'PENDING_CONFIRMATION');
+    assert.equal((await reservationLifecycle.getHistory('item-1')).length, 1);
+
+    assert.equal(await reservationLifecycle.transition('nope', 'ACQUIRED'), null);
+    const listed = await reservationLifecycle.list({ status: 'PENDING_CONFIRMATION' });
+    assert.deepEqual(listed.map(r => [r.id, r.allowed_transitions]), [['item-1', ['WATCHING', 'ACQUIRED']]]);
+  });
+
+  test('item and transfer transitions racing on one reservation take turns', async () => {
+    await watch('item-1');
+    const transfer = await transferTracker.createTransfer({ ...booking, portfolio_item_id: 'item-1' }, OPERATOR);
+
+    for (const to of ['LISTED', 'ACQUIRED', 'LISTED', 'ACQUIRED', 'LISTED'] as const) {
+      const [byItem, byTransfer] = await Promise.all([
+        reservationLifecycle.transition('item-1', to, { actor: OPERATOR }),
+        reservationLifecycle.transitionTransfer(transfer.id, to, { actor: OPERATOR }),
+      ]);
+      // One of them moved it, the other found it already there
+      assert.deepEqual([byItem!.changed, byTransfer!.changed].sort(), [false, true]);
+    }
+    assert.equal((await reservationLifecycle.get('item-1'))!.status, 'LISTED');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Reservation sync: platform account reservations reconciled with the
+ * transfers and portfolio items we track
+ */
+
+import './helpers/simulatorEnv';
+import crypto from 'crypto';
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+import PlatformSimulator from '../src/simulator/platformSimulator';
+import { buildScenario, SIM_VENUES } from '../src/simulator/scenarios';
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 86400000).toISOString().slice(0, 10);
+
+const OPERATOR = { source: 'dashboard' as const, actor: 'ops@example.com' };
+
+for (const platform of ['RESY', 'OPENTABLE', 'SEVENROOMS', 'TOCK']) {
+  process.env[`${platform}_MAX_RPS`] = '1000';
+  process.env[`${platform}_ACCOUNT_MAX_RPS`] = '1000';
+}
+
+describeWithDatabase('reservation sync', async (db) => {
+  const { default: resyClient } = await import('../src/services/resyApi');
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+  const { default: reservationSync } = await import('../src/services/reservationSync');
+  const { default: identityManager } = await import('../src/services/identityManager');
+  const { default: credentialVault } = await import('../src/services/credentialVault');
+  const { default: auditLog } = await import('../src/services/auditLog');
+  const { getAdapter } = await import('../src/platforms');
+
+  const simulator = new PlatformSimulator();
+  const date = daysFromNow(10);
+  const query = (time: string) => ({ venueId: SIM_VENUES.resy.venueId, date, time, partySize: 2 });
+
+  // A Resy booking on the simulator, tracked as a transfer unless `tracked` is false
+  const booking = async (time: string, tracked = true, overrides: Record<string, any> = {}) => {
+    const booked = await getAdapter('resy')!.book(query(time));
+    assert.equal(booked.success, true, booked.error);
+    if (!tracked) return { confirmation: booked.confirmationCode!, transfer: null };
+
+    const transfer = await transferTracker.createTransfer({
+      restaurant_name: SIM_VENUES.resy.name,
+      platform: 'resy',
+      reservation_date: date,
+      reservation_time: time,
+      party_size: 2,
+      confirmation_number: booked.confirmationCode,
+      ...overrides,
+    });
+    return { confirmation: booked.confirmationCode!, transfer };
+  };
+
+  before(async () => {
+    process.env.CREDENTIAL_ENCRYPTION_KEY = crypto.randomBytes(32).toString('base64');
+    credentialVault.reloadKeys();
+    await simulator.start();
+    resyClient.setBaseUrl(simulator.platformUrl('resy'));
+  });
+
+  after(() => simulator.stop());
+
+  beforeEach(async () => {
+    await db.truncate();
+    simulator.loadScenario(buildScenario('happy-path'));
+  });
+
+  test('matches tracked bookings and imports the ones made outside the app', async () => {
+    const tracked = await booking('17:30');
+    const outside = await getAdapter('resy')!.bookForClient(query('19:00'), {
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      email: 'ada@example.com',
+      phone: '5551234567',
+    });
+    assert.equal(outside.success, true, outside.error);
+
+    const report = await reservationSync.reconcile('manual', OPERATOR);
+    assert.deepEqual(report.accounts.map(a => [a.account, a.listed, a.error]), [['Server account', 2, undefined]]);
+    assert.deepEqual(report.matched.map(r => r.transferId), [tracked.transfer!.id]);
+    assert.equal(report.imported.length, 1);
+    assert.equal(report.summary, '1 matched, 1 imported, 0 changed, 0 missing');
+
+    const imported = (await transferTracker.getTransfer(report.imported[0].transferId!))!;
+    assert.equal(imported.confirmation_number, outside.confirmationCode);
+    assert.equal(imported.booking_type, 'concierge');
+    assert.equal(imported.booked_under_name, 'Ada Lovelace');
+    assert.ok(imported.imported_at);
+    assert.ok(imported.platform_seen_at);
+
+    const item = await db.pool.query('SELECT * FROM portfolio_items WHERE id = $1', [imported.portfolio_item_id]);
+    assert.equal(item.rows[0].confirmation_number, outside.confirmationCode);
+    assert.equal(item.rows[0].resy_venue_id, Number(SIM_VENUES.resy.venueId));
+    assert.equal(item.rows[0].status, 'COMPLETED', 'a concierge booking needs no handover');
+
+    const events = await auditLog.query({ transferId: imported.id });
+    assert.deepEqual(events.map(e => e.action), ['reservation.imported']);
+
+    // Tracked now - the next sync matches it
+    const again = await reservationSync.reconcile('manual', OPERATOR);
+    assert.equal(again.summary, '2 matched, 0 imported, 0 changed, 0 missing');
+  });
+
+  test('links imports to the portfolio item holding the confirmation number', async () => {
+    const { confirmation } = await booking('19:00', false);
+    await db.pool.query(`
+      INSERT INTO portfolio_items (id, restaurant_name, date, time, status, confirmation_number)
+      VALUES ('item-1', 'Sniped Earlier', $1, '19:00', 'ACQUIRED', $2)
+    `, [date, confirmation]);
+
+    const report = await reservationSync.reconcile('manual', OPERATOR);
+    assert.equal(report.imported[0].portfolioItemId, 'item-1');
+    assert.equal((await db.pool.query('SELECT COUNT(*)::int AS n FROM portfolio_items')).rows[0].n, 1);
+  });
+
+  test('reports bookings whose details changed on the platform', async () => {
+    const { transfer } = await booking('21:00', true, { party_size: 4 });
+
+    const report = await reservationSync.reconcile('manual', OPERATOR);
+    assert.equal(report.changed.length, 1);
+    assert.equal(report.changed[0].transferId, transfer!.id);
+    assert.deepEqual(report.changed[0].differences, [{ field: 'party_size', recorded: '4', platform: '2' }]);
+  });
+
+  test('flags reservations no account lists any more, once', async () => {
+    const { confirmation, transfer } = await booking('17:30');
+    const sold = await booking('19:00', true, { status: 'SOLD' });
+    await getAdapter('resy')!.cancel(confirmation);  // The venue cancelled it
+    await getAdapter('resy')!.cancel(sold.confirmation);
+
+    const first = await reservationSync.reconcile('manual', OPERATOR);
+    assert.deepEqual(first.missing.map(m => [m.transferId, m.newlyMissing]).sort(), [
+      [transfer!.id, true],
+      [sold.transfer!.id, true],
+    ].sort());
+    assert.ok((await transferTracker.getTransfer(transfer!.id))!.platform_missing_since);
+
+    const second = await reservationSync.reconcile('manual', OPERATOR);
+    assert.equal(second.missing.length, 2);
+    assert.ok(second.missing.every(m => !m.newlyMissing));
+    assert.equal(second.missing[0].missingSince, first.missing.find(m => m.transferId === second.missing[0].transferId)!.missingSince);
+
+    const events = await auditLog.query({ action: 'reservation.missing_on_platform' });
+    assert.equal(events.length, 2);
+  });
+
+  test('an unreadable account never makes reservations look cancelled', async () => {
+    const { transfer } = await booking('17:30');
+    simulator.loadScenario({
+      ...buildScenario('happy-path'),
+      faults: [{ platform: 'resy', endpoint: 'reservations', kind: 'auth_expired' }],
+    });
+
+    const report = await reservationSync.reconcile('manual', OPERATOR);
+    assert.ok(report.accounts[0].error);
+    assert.deepEqual(report.uncheckedPlatforms, ['resy']);
+    assert.deepEqual(report.missing, []);
+    assert.equal((await transferTracker.getTransfer(transfer!.id))!.platform_missing_since, null);
+    assert.match(report.summary, /1 account unreadable/);
+  });
+
+  test('reads every identity with credentials, each reservation once', async () => {
+    await identityManager.createIdentity({ name: 'Alex', email: 'alex@example.com', resy_auth_token: 'alex-token' });
+    await booking('17:30', false);
+
+    const report = await reservationSync.reconcile('manual', OPERATOR);
+    assert.deepEqual(report.accounts.map(a => [a.account, a.listed]), [['Server account', 1], ['Alex', 1]]);
+    assert.equal(report.imported.length, 1);
+
+    const stored = await reservationSync.getReport();
+    assert.equal(stored!.id, report.id);
+    assert.equal(stored!.summary, report.summary);
+    const runs = await reservationSync.getRuns();
+    assert.deepEqual(runs.map(r => [r.id, r.imported]), [[report.id, 1]]);
+  });
+});
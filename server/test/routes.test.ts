@@ -0,0 +1,346 @@
+/**
+ * HTTP-level checks of the Express app on an ephemeral port
+ */
+
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import axios, { AxiosInstance } from 'axios';
+import { describeWithDatabase } from './helpers/testDb';
+
+describeWithDatabase('routes', async (db) => {
+  const { default: app } = await import('../src/app');
+  const { default: authService } = await import('../src/services/authService');
+
+  let server: Server;
+  let api: AxiosInstance;
+
+  before(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    // Assert on status codes instead of letting axios throw
+    api = axios.create({ baseURL: `http://127.0.0.1:${port}/api`, validateStatus: () => true });
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  // Every route below /api needs a session - act as an operator
+  beforeEach(async () => {
+    await db.truncate();
+    await authService.createUser({ email: 'ops@example.com', password: 'correct-horse', role: 'operator' });
+    const session = await authService.login('ops@example.com', 'correct-horse');
+    api.defaults.headers.common.Authorization = `Bearer ${session!.token}`;
+  });
+
+  test('GET /api/health', async () => {
+    const res = await api.get('/health');
+    assert.equal(res.status, 200);
+    assert.equal(res.data.status, 'ok');
+  });
+
+  test('transfers: create, list, sell, and reject incomplete bodies', async () => {
+    const invalid = await api.post('/transfers', { restaurant_name: 'Carbone' });
+    assert.equal(invalid.status, 400);
+
+    const created = await api.post('/transfers', {
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    assert.equal(created.status, 200);
+    const { id } = created.data.transfer;
+
+    assert.equal((await api.put(`/transfers/${id}/listed`, { listing_price: 300 })).status, 200);
+    const sold = await api.put(`/transfers/${id}/sold`, {
+      buyer_name: 'Grace Hopper',
+      sale_price: 350,
+      transfer_method: 'NAME_CHANGE',
+    });
+    assert.equal(sold.status, 200);
+    assert.equal(sold.data.transfer.status, 'SOLD');
+
+    const listed = await api.get('/transfers', { params: { status: 'SOLD' } });
+    assert.deepEqual(listed.data.transfers.map((t: any) => t.id), [id]);
+
+    const missing = await api.put('/transfers/999/sold', {
+      buyer_name: 'Nobody',
+      sale_price: 1,
+      transfer_method: 'NAME_CHANGE',
+    });
+    assert.equal(missing.status, 404);
+  });
+
+  test('clients: create, reject duplicates, and run a booking request', async () => {
+    const body = { first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com', phone: '5551234567' };
+    const created = await api.post('/clients', body);
+    assert.equal(created.status, 201);
+    assert.equal((await api.post('/clients', body)).status, 409);
+
+    const request = await api.post(`/clients/${created.data.id}/requests`, {
+      restaurant_name: 'Carbone',
+      desired_date: '2026-12-05',
+      party_size: 2,
+    });
+    assert.equal(request.status, 201);
+
+    const pending = await api.get('/clients/requests/pending');
+    assert.deepEqual(pending.data.map((r: any) => r.id), [request.data.id]);
+
+    const updated = await api.put(`/clients/requests/${request.data.id}/status`, { status: 'failed', failure_reason: 'Sold out' });
+    assert.equal(updated.status, 200);
+    assert.deepEqual((await api.get('/clients/requests/pending')).data, []);
+  });
+
+  test('portfolio: create and list items, 404 on unknown ids', async () => {
+    const created = await api.post('/portfolio', {
+      id: 'item-1',
+      restaurantName: 'Carbone',
+      date: '2026-12-05',
+      time: '19:00',
+      guests: 2,
+      costBasis: 0,
+      listPrice: 400,
+      platform: 'Resy',
+      status: 'WATCHING',
+    });
+    assert.equal(created.status, 201);
+
+    const items = await api.get('/portfolio');
+    assert.deepEqual(items.data.map((item: any) => item.id), ['item-1']);
+
+    const missing = await api.put('/portfolio/nope', { restaurantName: 'X', date: '2026-12-05', time: '19:00' });
+    assert.equal(missing.status, 404);
+  });
+
+  test('portfolio: an invalid drop rule creates nothing, so the retry goes through', async () => {
+    const item = { id: 'item-1', restaurantName: 'Carbone', date: '2026-12-05', time: '19:00', guests: 2, platform: 'Resy' };
+
+    const invalid = await api.post('/portfolio', { ...item, dropRule: { kind: 'manual', description: 'call them' } });
+    assert.equal(invalid.status, 400);
+    assert.match(invalid.data.error, /daily, weekly or monthly/);
+    assert.deepEqual((await api.get('/portfolio')).data, []);
+
+    const retried = await api.post('/portfolio', { ...item, dropRule: { kind: 'daily', time: '10:00', timezone: 'America/New_York' } });
+    assert.equal(retried.status, 201);
+    assert.equal(retried.data.dropRule.kind, 'daily');
+    assert.ok(retried.data.nextDropDate);
+  });
+
+  test('portfolio: edits from a stale version conflict, replayed creates and imports never overwrite', async () => {
+    const item = { id: 'item-1', restaurantName: 'Carbone', date: '2026-12-05', time: '19:00', guests: 2, listPrice: 400, platform: 'Resy' };
+    const created = await api.post('/portfolio', item);
+    assert.equal(created.data.date, '2026-12-05');
+    assert.equal(created.data.time, '19:00');
+    assert.equal(created.data.status, 'WATCHING');
+
+    const edited = await api.put('/portfolio/item-1', { ...created.data, listPrice: 450 });
+    assert.equal(edited.status, 200);
+    assert.notEqual(edited.data.updatedAt, created.data.updatedAt);
+
+    // Someone else's edit was based on the first version
+    const stale = await api.put('/portfolio/item-1', { ...created.data, listPrice: 500 });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.data.code, 'conflict');
+    assert.equal(stale.data.item.listPrice, 450);
+
+    const replayed = await api.post('/portfolio', item);
+    assert.equal(replayed.status, 409);
+    assert.equal(replayed.data.code, 'exists');
+
+    const imported = await api.post('/portfolio/import', {
+      items: [
+        { ...item, listPrice: 1 },
+        { id: 'local-2', restaurantName: 'Misi', date: '2026-12-06', time: '19:30', status: 'PENDING' },
+        { id: 'local-3', restaurantName: 'No date' },
+      ],
+    });
+    assert.deepEqual(imported.data.imported, ['local-2']);
+    assert.deepEqual(imported.data.skipped.map((s: any) => s.id), ['item-1', 'local-3']);
+    const byId = Object.fromEntries(imported.data.items.map((i: any) => [i.id, i]));
+    assert.equal(byId['item-1'].listPrice, 450);
+    assert.equal(byId['local-2'].status, 'TRANSFER_PENDING');
+  });
+
+  test('portfolio: racing edits of one version - one lands, with its status change, the other conflicts', async () => {
+    const created = await api.post('/portfolio', { id: 'item-1', restaurantName: 'Carbone', date: '2026-12-05', time: '19:00', platform: 'Resy' });
+
+    const results = await Promise.all([
+      api.put('/portfolio/item-1', { ...created.data, listPrice: 450, status: 'ACQUIRED' }),
+      api.put('/portfolio/item-1', { ...created.data, listPrice: 500, status: 'ACQUIRED' }),
+    ]);
+    assert.deepEqual(results.map(r => r.status).sort(), [200, 409]);
+    const landed = results.find(r => r.status === 200)!;
+    assert.equal(landed.data.status, 'ACQUIRED');
+
+    const { data } = await api.get('/reservations/item-1');
+    assert.deepEqual(data.history.map((h: any) => h.to_status), ['WATCHING', 'ACQUIRED']);
+
+    // A refused status change leaves the fields alone too
+    const refused = await api.put('/portfolio/item-1', { ...landed.data, listPrice: 1, status: 'TRANSFERRED' });
+    assert.equal(refused.status, 409);
+    assert.equal(refused.data.code, 'invalid_transition');
+    const [item] = (await api.get('/portfolio')).data;
+    assert.equal(item.listPrice, landed.data.listPrice);
+    assert.equal(item.updatedAt, landed.data.updatedAt);
+  });
+
+  test('reservations: portfolio and transfer status changes share one validated history', async () => {
+    await api.post('/portfolio', {
+      id: 'item-1',
+      restaurantName: 'Carbone',
+      date: '2026-12-05',
+      time: '19:00',
+      guests: 2,
+      platform: 'Resy',
+      status: 'WATCHING',
+    });
+
+    const skipped = await api.post('/reservations/item-1/transitions', { to: 'SOLD' });
+    assert.equal(skipped.status, 409);
+    assert.equal(skipped.data.code, 'invalid_transition');
+
+    const booked = await api.post('/transfers', {
+      portfolio_item_id: 'item-1',
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    const transferId = booked.data.transfer.id;
+    assert.equal((await api.put(`/transfers/${transferId}/listed`, { listing_price: 300 })).status, 200);
+    assert.equal((await api.put(`/transfers/${transferId}/transferred`, {})).status, 409);
+
+    const sold = await api.put('/portfolio/item-1', { restaurantName: 'Carbone', date: '2026-12-05', time: '19:00', status: 'SOLD' });
+    assert.equal(sold.status, 200);
+    assert.equal(sold.data.status, 'SOLD');
+
+    const { data } = await api.get('/reservations/item-1');
+    assert.equal(data.reservation.transfer.status, 'SOLD');
+    assert.deepEqual(data.reservation.allowed_transitions, ['LISTED', 'TRANSFER_PENDING', 'TRANSFERRED', 'CANCELLED']);
+    assert.deepEqual(data.history.map((h: any) => [h.from_status, h.to_status, h.actor]), [
+      [null, 'WATCHING', 'ops@example.com'],
+      ['WATCHING', 'ACQUIRED', 'ops@example.com'],
+      ['ACQUIRED', 'LISTED', 'ops@example.com'],
+      ['LISTED', 'SOLD', 'ops@example.com'],
+    ]);
+
+    assert.equal((await api.delete('/portfolio/item-1')).status, 409);
+  });
+
+  test('sniper: status and drop rule preview', async () => {
+    const status = await api.get('/sniper/status');
+    assert.equal(status.status, 200);
+    assert.equal(status.data.status, 'operational');
+
+    const preview = await api.post('/sniper/drop-rules/preview', {
+      pattern: 'Daily at 10:00 AM EST, 30 days in advance',
+      count: 3,
+    });
+    assert.equal(preview.status, 200);
+    assert.equal(preview.data.rule.kind, 'daily');
+    assert.equal(preview.data.drops.length, 3);
+
+    const invalid = await api.post('/sniper/drop-rules/preview', { pattern: 'whenever they feel like it' });
+    assert.equal(invalid.status, 400);
+  });
+
+  test('drop traces: 400 on a malformed id, 404 on an unknown one', async () => {
+    assert.equal((await api.get('/analytics/drops/abc')).status, 400);
+    assert.equal((await api.get('/analytics/drops/999')).status, 404);
+  });
+
+  test('pricing backtests: run, list with the current config, reject bad configs', async () => {
+    const invalid = await api.post('/analytics/pricing/backtest', { name: 'bad', config: { timePremiums: { prime: 0 } } });
+    assert.equal(invalid.status, 400);
+    assert.match(invalid.data.error, /timePremiums.prime/);
+
+    const badPeriod = await api.post('/analytics/pricing/backtest', { name: 'bad', from: 'last week' });
+    assert.equal(badPeriod.status, 400);
+    assert.match(badPeriod.data.error, /from must be a date/);
+    assert.equal((await api.post('/analytics/pricing/backtest', { name: 'bad', from: '2026-12-01', to: '2026-11-01' })).status, 400);
+
+    const run = await api.post('/analytics/pricing/backtest', { name: 'prime +10%', config: { timePremiums: { prime: 1.43 } } });
+    assert.equal(run.status, 200);
+    assert.equal(run.data.run.runBy, 'ops@example.com');
+    assert.equal(run.data.run.results.listings, 0);
+
+    const list = await api.get('/analytics/pricing/backtest');
+    assert.deepEqual(list.data.runs.map((r: any) => r.name), ['prime +10%']);
+    assert.equal(list.data.defaults.timePremiums.prime, 1.3);
+
+    assert.equal((await api.get(`/analytics/pricing/backtest/${run.data.run.id}`)).status, 200);
+    assert.equal((await api.delete(`/analytics/pricing/backtest/${run.data.run.id}`)).status, 200);
+    assert.equal((await api.get(`/analytics/pricing/backtest/${run.data.run.id}`)).status, 404);
+    assert.equal((await api.get('/analytics/pricing/backtest/abc')).status, 400);
+    assert.equal((await api.delete('/analytics/pricing/backtest/abc')).status, 400);
+  });
+
+  test('repricing: rules, price history and decisions on the listing they belong to', async () => {
+    const created = await api.post('/transfers', {
+      restaurant_name: 'Carbone',
+      platform: 'resy',
+      reservation_date: '2026-12-05',
+      reservation_time: '19:00',
+      party_size: 2,
+    });
+    const { id } = created.data.transfer;
+    await api.put(`/transfers/${id}/listed`, { listing_price: 300 });
+    await api.put(`/transfers/${id}/listed`, { listing_price: 280 });
+
+    const invalid = await api.put(`/transfers/${id}/repricing`, { steps: [{ hoursBefore: 0, percentOff: 10 }] });
+    assert.equal(invalid.status, 400);
+    const rule = await api.put(`/transfers/${id}/repricing`, { steps: [{ hoursBefore: 48, percentOff: 15 }], floorPrice: 200 });
+    assert.equal(rule.status, 200);
+    assert.equal(rule.data.rule.updatedBy, 'ops@example.com');
+
+    const { data } = await api.get(`/transfers/${id}/price-history`);
+    assert.deepEqual(data.history.map((c: any) => [c.kind, c.newPrice]), [['listed', 300], ['manual', 280]]);
+    const manual = data.history[1].id;
+
+    assert.equal((await api.post(`/transfers/999/price-changes/${manual}/revert`)).status, 404);
+    assert.equal((await api.post(`/transfers/${id}/price-changes/${manual}/approve`)).data.code, 'not_pending');
+    const reverted = await api.post(`/transfers/${id}/price-changes/${manual}/revert`);
+    assert.equal(reverted.status, 200);
+    assert.equal(Number(reverted.data.transfer.listing_price), 300);
+
+    const pending = await api.get('/transfers/repricing');
+    assert.deepEqual(pending.data.pending, []);
+  });
+
+  test('events: replays after Last-Event-ID, or asks for a resync', async () => {
+    const { default: eventStream } = await import('../src/services/eventStream');
+
+    // Read the stream until `expected` shows up, then hang up
+    const readUntil = async (lastEventId: string, expected: string): Promise<string> => {
+      const res = await api.get('/events', { headers: { 'Last-Event-ID': lastEventId }, responseType: 'stream' });
+      assert.equal(res.status, 200);
+      assert.match(res.headers['content-type'], /text\/event-stream/);
+      return new Promise((resolve, reject) => {
+        let text = '';
+        const timer = setTimeout(() => { res.data.destroy(); reject(new Error(`No ${expected} in: ${text}`)); }, 2000);
+        res.data.on('data', (chunk: Buffer) => {
+          text += chunk.toString();
+          if (text.includes(expected)) {
+            clearTimeout(timer);
+            res.data.destroy();
+            resolve(text);
+          }
+        });
+      });
+    };
+
+    const from = eventStream.latestId;
+    const missed = eventStream.publish('scheduler.state', { running: true, watchedCount: 3, nextDrop: null });
+    const replayed = await readUntil(String(from), `id: ${missed.id}\nevent: scheduler.state`);
+    assert.match(replayed, /"watchedCount":3/);
+
+    const resync = await readUntil('1', 'event: resync');
+    assert.match(resync, new RegExp(`id: ${eventStream.latestId}\n`));
+  });
+});
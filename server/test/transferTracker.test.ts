@@ -0,0 +1,99 @@
+/**
+ * Transfer lifecycle: ACQUIRED → LISTED → SOLD → TRANSFER_PENDING → TRANSFERRED → COMPLETED
+ */
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeWithDatabase } from './helpers/testDb';
+
+const acquired = {
+  restaurant_name: 'Carbone',
+  platform: 'resy',
+  reservation_date: '2026-12-05',
+  reservation_time: '19:00',
+  party_size: 2,
+  confirmation_number: 'RESY-123',
+};
+
+describeWithDatabase('transferTracker', async (db) => {
+  const { default: transferTracker } = await import('../src/services/transferTracker');
+
+  beforeEach(() => db.truncate());
+
+  test('standard bookings start ACQUIRED, concierge bookings start COMPLETED', async () => {
+    const standard = await transferTracker.createTransfer(acquired);
+    const concierge = await transferTracker.createTransfer({
+      ...acquired,
+      booking_type: 'concierge',
+      booked_under_name: 'Ada Lovelace',
+      service_fee: 150,
+    });
+
+    assert.equal(standard.status, 'ACQUIRED');
+    assert.equal(standard.booking_type, 'standard');
+    assert.equal(concierge.status, 'COMPLETED');
+    assert.equal(concierge.booked_under_name, 'Ada Lovelace');
+  });
+
+  test('walks a resale through every status', async () => {
+    const { id } = await transferTracker.createTransfer(acquired);
+
+    const listed = await transferTracker.markAsListed(id, { at_listing_id: 'AT-9', listing_price: 300 });
+    assert.equal(listed?.status, 'LISTED');
+    assert.equal(Number(listed?.listing_price), 300);
+
+    const sold = await transferTracker.markAsSold(id, {
+      buyer_name: 'Grace Hopper',
+      sale_price: 275,
+      transfer_method: 'NAME_CHANGE',
+    });
+    assert.equal(sold?.status, 'SOLD');
+    assert.ok(sold?.sold_at);
+    // Deadline is 24h before the reservation
+    const reservationAt = new Date('2026-12-05T19:00:00').getTime();
+    assert.equal(new Date(sold!.transfer_deadline!).getTime(), reservationAt - 24 * 60 * 60 * 1000);
+
+    const pending = await transferTracker.markAsTransferPending(id, 'Buyer notified');
+    assert.equal(pending?.status, 'TRANSFER_PENDING');
+    assert.equal(pending?.transfer_notes, 'Buyer notified');
+
+    const transferred = await transferTracker.markAsTransferred(id);
+    assert.equal(transferred?.status, 'TRANSFERRED');
+    assert.ok(transferred?.transfer_completed_at);
+    assert.equal(transferred?.transfer_notes, 'Buyer notified', 'notes are kept when none are passed');
+
+    const completed = await transferTracker.markAsCompleted(id);
+    assert.equal(completed?.status, 'COMPLETED');
+  });
+
+  test('transitions on a missing transfer return null', async () => {
+    assert.equal(await transferTracker.markAsListed(999, { listing_price: 100 }), null);
+    assert.equal(await transferTracker.markAsSold(999, {
+      buyer_name: 'Nobody',
+      sale_price: 1,
+      transfer_method: 'NAME_CHANGE',
+    }), null);
+    assert.equal(await transferTracker.markAsCompleted(999), null);
+  });
+
+  test('filters by status and reports revenue', async () => {
+    const first = await transferTracker.createTransfer(acquired);
+    await transferTracker.createTransfer({ ...acquired, platform: 'tock', reservation_time: '21:00' });
+    await transferTracker.markAsSold(first.id, { buyer_name: 'Grace', sale_price: 400, transfer_method: 'NAME_CHANGE' });
+
+    const sold = await transferTracker.getTransfers({ status: 'SOLD' });
+    assert.deepEqual(sold.map(t => t.id), [first.id]);
+
+    const stats = await transferTracker.getRevenueStats();
+    assert.equal(stats.total_sales, 1);
+    assert.equal(stats.total_revenue, 400);
+    assert.deepEqual(stats.by_status, { SOLD: 1, ACQUIRED: 1 });
+    assert.deepEqual(stats.by_platform.resy, { count: 1, revenue: 400 });
+  });
+
+  test('deleteTransfer reports whether a row was removed', async () => {
+    const { id } = await transferTracker.createTransfer(acquired);
+    assert.equal(await transferTracker.deleteTransfer(id), true);
+    assert.equal(await transferTracker.deleteTransfer(id), false);
+  });
+});